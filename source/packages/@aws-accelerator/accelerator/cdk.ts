@@ -17,10 +17,12 @@ import mri from 'mri';
 import process from 'process';
 import { Accelerator } from './lib/accelerator';
 import { AcceleratorStage } from './lib/accelerator-stage';
+import { DeploymentPlan } from './lib/deployment-plan';
+import { StackDriftDetection } from './lib/drift-detection';
 import { AcceleratorToolkit } from './lib/toolkit';
 
 (async () => {
-  const usage = `Usage: cdk.ts <command> --stage STAGE --config-dir CONFIG_DIRECTORY [--account ACCOUNT] [--region REGION]`;
+  const usage = `Usage: cdk.ts <command> --stage STAGE --config-dir CONFIG_DIRECTORY [--account ACCOUNT] [--region REGION] [--account-ids ACCOUNT_IDS_FILE] [--output OUTPUT_FILE]`;
 
   const args = mri(process.argv.slice(2), {
     boolean: ['ec2Creds'],
@@ -34,6 +36,8 @@ import { AcceleratorToolkit } from './lib/toolkit';
       'app',
       'ca-bundle-path',
       'proxy',
+      'account-ids',
+      'output',
     ],
     alias: {
       c: 'config-dir',
@@ -56,6 +60,8 @@ import { AcceleratorToolkit } from './lib/toolkit';
   const ec2Creds = args['ec2Creds'];
   const proxyAddress = args['proxy'];
   const useExistingRoles = args['use-existing-roles'] ?? false;
+  const accountIdsPath = args['account-ids'];
+  const outputPath = args['output'];
   //
   // Validate args: must specify a command
   //
@@ -67,7 +73,10 @@ import { AcceleratorToolkit } from './lib/toolkit';
   //
   // Validate args: verify command against our sub-list
   //
-  if (!AcceleratorToolkit.isSupportedCommand(commands[0])) {
+  if (
+    ![DeploymentPlan.COMMAND, StackDriftDetection.COMMAND].includes(commands[0]) &&
+    !AcceleratorToolkit.isSupportedCommand(commands[0])
+  ) {
     throw new Error(`Invalid command: ${commands[0]}`);
   }
 
@@ -115,6 +124,8 @@ import { AcceleratorToolkit } from './lib/toolkit';
     proxyAddress,
     enableSingleAccountMode: enableSingleAccountMode,
     useExistingRoles,
+    accountIdsPath,
+    outputPath,
   }).catch(function (err) {
     console.log(err.message);
     process.exit(1);
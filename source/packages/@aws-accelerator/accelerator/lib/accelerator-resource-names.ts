@@ -97,6 +97,7 @@ interface BucketPrefixes {
   vpcFlowLogs: string;
   metadata: string;
   centralLogs: string;
+  conformancePackDelivery: string;
 }
 export class AcceleratorResourceNames {
   public roles: RoleNames = {
@@ -176,6 +177,7 @@ export class AcceleratorResourceNames {
     vpcFlowLogs: 'PLACE_HOLDER',
     metadata: 'PLACE_HOLDER',
     centralLogs: 'PLACE_HOLDER',
+    conformancePackDelivery: 'PLACE_HOLDER',
   };
 
   constructor(props: AcceleratorResourceNamesProps) {
@@ -321,6 +323,8 @@ export class AcceleratorResourceNames {
     this.bucketPrefixes.vpcFlowLogs = props.prefixes.bucketName + '-vpc';
     this.bucketPrefixes.metadata = props.prefixes.bucketName + '-metadata';
     this.bucketPrefixes.centralLogs = props.prefixes.bucketName + '-central-logs';
+    // AWS Config requires organization conformance pack delivery buckets to start with awsconfigconforms
+    this.bucketPrefixes.conformancePackDelivery = 'awsconfigconforms-' + props.prefixes.bucketName;
 
     //
     // Lambda function name initialization
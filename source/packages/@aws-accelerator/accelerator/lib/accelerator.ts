@@ -30,13 +30,16 @@ import { IAMClient, GetRoleCommand, GetRoleCommandInput } from '@aws-sdk/client-
 import { AccountsConfig, GlobalConfig, OrganizationConfig } from '@aws-accelerator/config';
 import {
   createLogger,
+  logToStderr,
   throttlingBackOff,
   getCrossAccountCredentials,
   setStsTokenPreferences,
 } from '@aws-accelerator/utils';
 import { AssumeProfilePlugin } from '@aws-cdk-extensions/cdk-plugin-assume-role';
-import { isBeforeBootstrapStage } from '../utils/app-utils';
+import { isBeforeBootstrapStage, setResourcePrefixes } from '../utils/app-utils';
 import { AcceleratorStage } from './accelerator-stage';
+import { DeploymentPlan } from './deployment-plan';
+import { StackDriftDetection } from './drift-detection';
 import { AcceleratorToolkit, AcceleratorToolkitProps } from './toolkit';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -101,6 +104,8 @@ export interface AcceleratorProps {
   readonly enableSingleAccountMode: boolean;
   readonly useExistingRoles: boolean;
   readonly qualifier?: string;
+  readonly accountIdsPath?: string;
+  readonly outputPath?: string;
 }
 let maxStacks = Number(process.env['MAX_CONCURRENT_STACKS'] ?? 250);
 
@@ -130,6 +135,13 @@ export abstract class Accelerator {
     //
     const globalRegion = setGlobalRegion(props.partition);
     //
+    // The plan command is resolved offline and does not require credentials
+    //
+    if (props.command === DeploymentPlan.COMMAND) {
+      await printDeploymentPlan(props, globalRegion);
+      return;
+    }
+    //
     // If not pipeline stage, load global config, management account credentials,
     // and assume role plugin
     //
@@ -143,6 +155,13 @@ export abstract class Accelerator {
       await globalConfig.loadExternalMapping(true);
       logger.info('Loaded ASEA mapping');
     }
+    //
+    // The drift command checks the deployed stacks and does not run the toolkit
+    //
+    if (props.command === StackDriftDetection.COMMAND) {
+      await detectStackDrift(props, globalRegion, globalConfig);
+      return;
+    }
     await checkDiffStage(props);
 
     //
@@ -510,7 +529,7 @@ export abstract class Accelerator {
   ): Promise<void> {
     const nonManagementAccounts = accountsConfig
       .getAccounts(toolkitProps.enableSingleAccountMode)
-      .filter(accountItem => accountItem.name !== managementAccountDetails.name);
+      .filter(accountItem => accountItem.name !== managementAccountDetails.name && !accountItem.decommission);
 
     for (const region of globalConfig.enabledRegions) {
       for (const account of nonManagementAccounts) {
@@ -764,9 +783,9 @@ export abstract class Accelerator {
     enabledRegions: string[],
     maxStacks: number,
   ) {
-    const nonLogArchiveAccounts = [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts].filter(
-      accountItem => accountItem.name !== logArchiveAccountDetails.name,
-    );
+    const nonLogArchiveAccounts = accountsConfig
+      .getActiveAccounts()
+      .filter(accountItem => accountItem.name !== logArchiveAccountDetails.name);
 
     for (const region of enabledRegions) {
       for (const account of nonLogArchiveAccounts) {
@@ -877,9 +896,9 @@ export abstract class Accelerator {
     enabledRegions: string[],
     maxStacks: number,
   ) {
-    const nonManagementAccounts = [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts].filter(
-      accountItem => accountItem.name !== managementAccountName,
-    );
+    const nonManagementAccounts = accountsConfig
+      .getActiveAccounts()
+      .filter(accountItem => accountItem.name !== managementAccountName);
 
     for (const region of enabledRegions) {
       for (const account of nonManagementAccounts) {
@@ -928,7 +947,7 @@ export abstract class Accelerator {
         previousPhase = phase;
       }
       for (const region of globalConfig.enabledRegions) {
-        for (const account of [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts]) {
+        for (const account of accountsConfig.getActiveAccounts()) {
           const accountId = accountsConfig.getAccountId(account.name);
           const stacks = globalConfig.externalLandingZoneResources.templateMap.filter(
             stack => stack.accountId === accountId && stack.region === region && stack.phase === phase,
@@ -1010,6 +1029,82 @@ export async function checkDiffStage(props: AcceleratorProps) {
   }
 }
 
+/**
+ * Generates the offline deployment plan and writes it to the output path or stdout
+ * @param props {@link AcceleratorProps}
+ * @param globalRegion
+ */
+export async function printDeploymentPlan(props: AcceleratorProps, globalRegion: string) {
+  // Without an output path the plan is written to stdout, status messages go to stderr so that the plan can be parsed
+  if (!props.outputPath) {
+    logToStderr();
+  }
+  const deploymentPlan = await DeploymentPlan.load({
+    configDirPath: props.configDirPath,
+    partition: props.partition,
+    globalRegion,
+    stackNames: AcceleratorStackNames,
+    enableSingleAccountMode: props.enableSingleAccountMode,
+    stage: props.stage,
+    accountIdsPath: props.accountIdsPath,
+  });
+  const plan = JSON.stringify(deploymentPlan.generate(), null, 2);
+
+  if (props.outputPath) {
+    fs.writeFileSync(props.outputPath, plan);
+    logger.info(`Deployment plan written to ${props.outputPath}`);
+  } else {
+    process.stdout.write(`${plan}\n`);
+  }
+}
+
+/**
+ * Detects drift of the deployed accelerator stacks and stores the drift report in the central log bucket
+ * @param props {@link AcceleratorProps}
+ * @param globalRegion
+ * @param globalConfig
+ */
+export async function detectStackDrift(props: AcceleratorProps, globalRegion: string, globalConfig?: GlobalConfig) {
+  if (!globalConfig?.acceleratorSettings?.detectDrift) {
+    logger.info('Drift detection is not enabled in acceleratorSettings, skipping');
+    return;
+  }
+
+  const accountsConfig = AccountsConfig.load(props.configDirPath);
+  const organizationsConfig = OrganizationConfig.loadRawOrganizationsConfig(props.configDirPath);
+  await accountsConfig.loadAccountIds(
+    props.partition,
+    props.enableSingleAccountMode,
+    organizationsConfig.enable,
+    accountsConfig,
+  );
+
+  const driftDetection = new StackDriftDetection({
+    configDirPath: props.configDirPath,
+    partition: props.partition,
+    globalRegion,
+    stackNames: AcceleratorStackNames,
+    enableSingleAccountMode: props.enableSingleAccountMode,
+    bucketPrefix: setResourcePrefixes(stackPrefix).bucketName,
+    accountsConfig,
+    globalConfig,
+  });
+  const report = await driftDetection.detect();
+  const reportLocation = await driftDetection.writeReport(report);
+  if (props.outputPath) {
+    fs.writeFileSync(props.outputPath, JSON.stringify(report, null, 2));
+  }
+
+  const driftedStacks = StackDriftDetection.getDriftedStacks(report);
+  logger.info(
+    `Drift detected on ${driftedStacks.length} of ${report.stacks.length} stacks, report written to ${reportLocation}`,
+  );
+  if (driftedStacks.length > 0 && globalConfig.acceleratorSettings.failOnDrift) {
+    logger.error(`Drifted stacks: ${driftedStacks.map(stack => stack.stackName).join(', ')}`);
+    throw new Error(`Drift detected on accelerator stacks, see ${reportLocation}`);
+  }
+}
+
 /**
  * Sets the global region for API calls based on the given partition
  * @param partition
@@ -92,16 +92,25 @@ export class ConfigRepository extends Construct {
           {
             name: 'Security',
             ignore: undefined,
+            id: undefined,
+            previousName: undefined,
           },
           {
             name: 'LogArchive',
             ignore: undefined,
+            id: undefined,
+            previousName: undefined,
           },
         ],
         organizationalUnitIds: [],
         serviceControlPolicies: [],
         taggingPolicies: [],
         backupPolicies: [],
+        aiServicesOptOutPolicies: [],
+        resourceControlPolicies: [],
+        chatbotPolicies: [],
+        declarativePolicies: [],
+        deleteRemovedOus: undefined,
       });
       fs.writeFileSync(path.join(tempDirPath, OrganizationConfig.FILENAME), yaml.dump(orgConfig), 'utf8');
     } else {
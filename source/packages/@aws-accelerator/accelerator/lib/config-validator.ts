@@ -235,7 +235,7 @@ function runValidators(
   // Accounts config validator
   if (accountsConfig && organizationConfig) {
     try {
-      new AccountsConfigValidator(accountsConfig, organizationConfig);
+      new AccountsConfigValidator(accountsConfig, organizationConfig, configDirPath);
     } catch (e) {
       configErrors.push(e);
     }
@@ -0,0 +1,883 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AccountsConfig,
+  CustomizationsConfig,
+  DeploymentTargets,
+  GlobalConfig,
+  IamConfig,
+  NetworkConfig,
+  OrganizationConfig,
+  ParameterReplacementConfigV2,
+  Region,
+  ResourcePolicyEnforcementConfig,
+  SecurityConfig,
+  VpcConfig,
+  VpcTemplatesConfig,
+} from '@aws-accelerator/config';
+import { createLogger } from '@aws-accelerator/utils';
+import { getReplacementsConfig } from '../utils/app-utils';
+import { AcceleratorStage } from './accelerator-stage';
+import { isIncluded } from './stacks/custom-stack';
+
+const logger = createLogger(['deployment-plan']);
+
+/**
+ * Base value used to generate placeholder account IDs when no account ID mapping is available
+ */
+const MOCK_ACCOUNT_ID_BASE = 100000000000;
+
+/**
+ * Properties for generating an offline deployment plan
+ */
+export interface DeploymentPlanProps {
+  /**
+   * The directory containing the accelerator configuration files
+   */
+  readonly configDirPath: string;
+  /**
+   * The AWS partition the plan is generated for
+   */
+  readonly partition: string;
+  /**
+   * The global region of the partition
+   */
+  readonly globalRegion: string;
+  /**
+   * Map of accelerator stage to CloudFormation stack name prefix
+   */
+  readonly stackNames: Record<string, string>;
+  /**
+   * Single account deployment mode
+   */
+  readonly enableSingleAccountMode: boolean;
+  /**
+   * (OPTIONAL) Limit the plan to a single accelerator stage
+   */
+  readonly stage?: string;
+  /**
+   * (OPTIONAL) Path to a JSON file mapping account names or emails to account IDs
+   */
+  readonly accountIdsPath?: string;
+  /**
+   * (OPTIONAL) Accounts configuration with account IDs already loaded from AWS Organizations.
+   * When undefined, account IDs are resolved offline
+   */
+  readonly accountsConfig?: AccountsConfig;
+}
+
+/**
+ * A logical resource the accelerator would create in a stack
+ */
+export interface DeploymentPlanResource {
+  readonly type: string;
+  readonly name: string;
+}
+
+/**
+ * A single stack instance of an accelerator stage
+ */
+export interface DeploymentPlanStack {
+  readonly stackName: string;
+  readonly account: string;
+  readonly accountId: string;
+  readonly region: string;
+  readonly resources: DeploymentPlanResource[];
+}
+
+/**
+ * All stack instances of an accelerator stage
+ */
+export interface DeploymentPlanStage {
+  readonly stage: string;
+  readonly stacks: DeploymentPlanStack[];
+}
+
+/**
+ * The machine-readable deployment plan
+ */
+export interface DeploymentPlanOutput {
+  readonly partition: string;
+  readonly homeRegion: string;
+  readonly globalRegion: string;
+  readonly enabledRegions: string[];
+  readonly stages: DeploymentPlanStage[];
+}
+
+/**
+ * Generates an offline deployment plan from the accelerator configuration.
+ *
+ * The plan resolves every deployment target against the accounts and regions
+ * defined in the configuration and reports, per accelerator stage, the stacks
+ * that would be deployed with the main logical resources of each stack. Supporting
+ * resources such as custom resource providers, SSM parameters and policies attached
+ * to the listed resources are not reported. No AWS API calls are made:
+ * account IDs are read from accounts-config.yaml, from an optional mapping file,
+ * or generated as placeholders.
+ */
+export class DeploymentPlan {
+  /**
+   * CLI command used to generate the plan
+   */
+  static readonly COMMAND = 'plan';
+
+  /**
+   * Stages in the order they are executed by the pipeline
+   */
+  static readonly STAGES: AcceleratorStage[] = [
+    AcceleratorStage.PREPARE,
+    AcceleratorStage.ACCOUNTS,
+    AcceleratorStage.ORGANIZATIONS,
+    AcceleratorStage.SECURITY_AUDIT,
+    AcceleratorStage.KEY,
+    AcceleratorStage.LOGGING,
+    AcceleratorStage.DEPENDENCIES,
+    AcceleratorStage.SECURITY,
+    AcceleratorStage.SECURITY_RESOURCES,
+    AcceleratorStage.OPERATIONS,
+    AcceleratorStage.NETWORK_PREP,
+    AcceleratorStage.NETWORK_VPC,
+    AcceleratorStage.NETWORK_VPC_ENDPOINTS,
+    AcceleratorStage.NETWORK_VPC_DNS,
+    AcceleratorStage.NETWORK_ASSOCIATIONS,
+    AcceleratorStage.NETWORK_ASSOCIATIONS_GWLB,
+    AcceleratorStage.CUSTOMIZATIONS,
+    AcceleratorStage.RESOURCE_POLICY_ENFORCEMENT,
+    AcceleratorStage.FINALIZE,
+  ];
+
+  private constructor(
+    private readonly props: DeploymentPlanProps,
+    private readonly accountsConfig: AccountsConfig,
+    private readonly globalConfig: GlobalConfig,
+    private readonly iamConfig: IamConfig,
+    private readonly networkConfig: NetworkConfig,
+    private readonly organizationConfig: OrganizationConfig,
+    private readonly securityConfig: SecurityConfig,
+    private readonly customizationsConfig: CustomizationsConfig,
+  ) {}
+
+  /**
+   * Loads the configuration without AWS credentials and returns a plan generator
+   * @param props {@link DeploymentPlanProps}
+   * @returns DeploymentPlan
+   */
+  static async load(props: DeploymentPlanProps): Promise<DeploymentPlan> {
+    if (props.stage && !DeploymentPlan.STAGES.includes(props.stage as AcceleratorStage)) {
+      throw new Error(`Stage ${props.stage} is not supported by the plan command`);
+    }
+
+    let accountsConfig = props.accountsConfig;
+    if (!accountsConfig) {
+      accountsConfig = AccountsConfig.load(props.configDirPath);
+      DeploymentPlan.loadMockAccountIds(accountsConfig, props.accountIdsPath);
+    }
+
+    //
+    // SSM parameter replacements are resolved to their keys since they cannot be read offline,
+    // static replacements are resolved to their configured values
+    //
+    const homeRegion = GlobalConfig.loadRawGlobalConfig(props.configDirPath).homeRegion;
+    const replacementsConfig = getReplacementsConfig(props.configDirPath, accountsConfig);
+    await replacementsConfig.loadReplacementValues({ region: homeRegion }, false);
+    for (const item of replacementsConfig.globalReplacements as ParameterReplacementConfigV2[]) {
+      if (!item.path && item.type !== 'SSM' && item.value) {
+        replacementsConfig.placeholders[item.key] = item.value;
+      }
+    }
+
+    const customizationsConfig = fs.existsSync(path.join(props.configDirPath, CustomizationsConfig.FILENAME))
+      ? CustomizationsConfig.load(props.configDirPath, replacementsConfig)
+      : new CustomizationsConfig();
+
+    return new DeploymentPlan(
+      props,
+      accountsConfig,
+      GlobalConfig.load(props.configDirPath, replacementsConfig),
+      IamConfig.load(props.configDirPath, replacementsConfig),
+      NetworkConfig.load(props.configDirPath, replacementsConfig),
+      OrganizationConfig.load(props.configDirPath, replacementsConfig),
+      SecurityConfig.load(props.configDirPath, replacementsConfig),
+      customizationsConfig,
+    );
+  }
+
+  /**
+   * Populates the account ID lookup of the accounts config without calling AWS Organizations.
+   *
+   * IDs are taken, in order of precedence, from the accountIds property of accounts-config.yaml,
+   * from the optional JSON mapping file (keyed by account name or email), or generated as
+   * deterministic placeholders.
+   * @param accountsConfig
+   * @param accountIdsPath
+   */
+  static loadMockAccountIds(accountsConfig: AccountsConfig, accountIdsPath?: string) {
+    let accountIdMap: Record<string, string> = {};
+    if (accountIdsPath) {
+      if (!fs.existsSync(accountIdsPath)) {
+        throw new Error(`Account ID mapping file ${accountIdsPath} not found`);
+      }
+      accountIdMap = JSON.parse(fs.readFileSync(accountIdsPath, 'utf8'));
+    }
+
+    const accountIds = accountsConfig.accountIds ?? [];
+    const accounts = [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts];
+    accounts.forEach((account, index) => {
+      if (accountIds.find(item => item.email === account.email)) {
+        return;
+      }
+      const accountId = accountIdMap[account.name] ?? accountIdMap[account.email] ?? `${MOCK_ACCOUNT_ID_BASE + index}`;
+      logger.debug(`Using account ID ${accountId} for account ${account.name}`);
+      accountIds.push({ email: account.email, accountId });
+    });
+    accountsConfig.accountIds = accountIds;
+  }
+
+  /**
+   * Generates the deployment plan
+   * @returns DeploymentPlanOutput
+   */
+  generate(): DeploymentPlanOutput {
+    const stages = this.props.stage
+      ? DeploymentPlan.STAGES.filter(stage => stage === this.props.stage)
+      : DeploymentPlan.STAGES;
+
+    return {
+      partition: this.props.partition,
+      homeRegion: this.globalConfig.homeRegion,
+      globalRegion: this.props.globalRegion,
+      enabledRegions: this.globalConfig.enabledRegions,
+      stages: stages.map(stage => {
+        return {
+          stage,
+          stacks: this.getStageEnvironments(stage).map(environment =>
+            this.getStack(stage, environment.account, environment.region),
+          ),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Returns the account and region pairs a stage is deployed to,
+   * mirroring the execution order of the Accelerator engine
+   * @param stage
+   * @returns
+   */
+  private getStageEnvironments(stage: AcceleratorStage): { account: string; region: string }[] {
+    const managementAccount = this.accountsConfig.getManagementAccount().name;
+    const auditAccount = this.accountsConfig.getAuditAccount().name;
+    const enabledRegions = this.globalConfig.enabledRegions;
+
+    switch (stage) {
+      case AcceleratorStage.PREPARE:
+        return [{ account: managementAccount, region: this.globalConfig.homeRegion }];
+      case AcceleratorStage.ACCOUNTS:
+      case AcceleratorStage.FINALIZE:
+        return [{ account: managementAccount, region: this.props.globalRegion }];
+      case AcceleratorStage.ORGANIZATIONS:
+        return enabledRegions.map(region => ({ account: managementAccount, region }));
+      case AcceleratorStage.SECURITY_AUDIT:
+        return enabledRegions.map(region => ({ account: auditAccount, region }));
+      default:
+        if (this.props.enableSingleAccountMode) {
+          return enabledRegions.map(region => ({ account: managementAccount, region }));
+        }
+        return this.accountsConfig
+          .getActiveAccounts()
+          .flatMap(account => enabledRegions.map(region => ({ account: account.name, region })));
+    }
+  }
+
+  private getStack(stage: AcceleratorStage, account: string, region: string): DeploymentPlanStack {
+    const accountId = this.accountsConfig.getAccountId(account);
+    return {
+      stackName: `${this.props.stackNames[stage]}-${accountId}-${region}`,
+      account,
+      accountId,
+      region,
+      resources: this.getResources(stage, account, region),
+    };
+  }
+
+  private getResources(stage: AcceleratorStage, account: string, region: string): DeploymentPlanResource[] {
+    switch (stage) {
+      case AcceleratorStage.PREPARE:
+        return this.getPrepareResources();
+      case AcceleratorStage.ACCOUNTS:
+        return this.getAccountsResources();
+      case AcceleratorStage.ORGANIZATIONS:
+        return this.getOrganizationsResources(region);
+      case AcceleratorStage.SECURITY_AUDIT:
+        return this.getSecurityAuditResources(region);
+      case AcceleratorStage.KEY:
+        return this.getKeyResources(account, region);
+      case AcceleratorStage.LOGGING:
+        return this.getLoggingResources(account, region);
+      case AcceleratorStage.DEPENDENCIES:
+        return this.getDependenciesResources(region);
+      case AcceleratorStage.SECURITY:
+        return this.getSecurityServiceResources(account, region);
+      case AcceleratorStage.SECURITY_RESOURCES:
+        return this.getSecurityResources(account, region);
+      case AcceleratorStage.OPERATIONS:
+        return this.getOperationsResources(account, region);
+      case AcceleratorStage.NETWORK_PREP:
+        return this.getNetworkPrepResources(account, region);
+      case AcceleratorStage.NETWORK_VPC:
+        return this.getNetworkVpcResources(account, region);
+      case AcceleratorStage.NETWORK_VPC_ENDPOINTS:
+        return this.getNetworkVpcEndpointsResources(account, region);
+      case AcceleratorStage.NETWORK_VPC_DNS:
+        return this.getNetworkVpcDnsResources(account, region);
+      case AcceleratorStage.NETWORK_ASSOCIATIONS:
+        return this.getNetworkAssociationsResources(account, region);
+      case AcceleratorStage.NETWORK_ASSOCIATIONS_GWLB:
+        return this.getNetworkAssociationsGwlbResources(account, region);
+      case AcceleratorStage.CUSTOMIZATIONS:
+        return this.getCustomizationsResources(account, region);
+      case AcceleratorStage.RESOURCE_POLICY_ENFORCEMENT:
+        return this.getResourcePolicyEnforcementResources(account, region);
+      case AcceleratorStage.FINALIZE:
+        return this.getFinalizeResources();
+      default:
+        return [];
+    }
+  }
+
+  private getPrepareResources(): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    if (this.organizationConfig.enable) {
+      for (const organizationalUnit of this.organizationConfig.organizationalUnits) {
+        if (!organizationalUnit.ignore) {
+          resources.push({ type: 'OrganizationalUnit', name: organizationalUnit.name });
+        }
+      }
+    }
+    for (const account of this.accountsConfig.getAccounts(this.props.enableSingleAccountMode)) {
+      resources.push({ type: 'Account', name: account.name });
+    }
+    return resources;
+  }
+
+  private getAccountsResources(): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    if (this.organizationConfig.enable) {
+      for (const serviceControlPolicy of this.organizationConfig.serviceControlPolicies) {
+        resources.push({ type: 'ServiceControlPolicy', name: serviceControlPolicy.name });
+      }
+    }
+    return resources;
+  }
+
+  private getOrganizationsResources(region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    if (!this.organizationConfig.enable || region !== this.globalConfig.homeRegion) {
+      return resources;
+    }
+    for (const taggingPolicy of this.organizationConfig.taggingPolicies) {
+      resources.push({ type: 'TaggingPolicy', name: taggingPolicy.name });
+    }
+    for (const backupPolicy of this.organizationConfig.backupPolicies) {
+      resources.push({ type: 'BackupPolicy', name: backupPolicy.name });
+    }
+    for (const aiServicesOptOutPolicy of this.organizationConfig.aiServicesOptOutPolicies ?? []) {
+      resources.push({ type: 'AiServicesOptOutPolicy', name: aiServicesOptOutPolicy.name });
+    }
+    for (const resourceControlPolicy of this.organizationConfig.resourceControlPolicies ?? []) {
+      resources.push({ type: 'ResourceControlPolicy', name: resourceControlPolicy.name });
+    }
+    for (const chatbotPolicy of this.organizationConfig.chatbotPolicies ?? []) {
+      resources.push({ type: 'ChatbotPolicy', name: chatbotPolicy.name });
+    }
+    for (const declarativePolicy of this.organizationConfig.declarativePolicies ?? []) {
+      resources.push({ type: 'DeclarativePolicy', name: declarativePolicy.name });
+    }
+    return resources;
+  }
+
+  private getSecurityAuditResources(region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    const services = this.securityConfig.centralSecurityServices;
+    const delegatedServices: [string, { enable: boolean; excludeRegions?: Region[] } | undefined][] = [
+      ['Macie', services.macie],
+      ['GuardDuty', services.guardduty],
+      ['AuditManager', services.auditManager],
+      ['Detective', services.detective],
+      ['Inspector', services.inspector],
+      ['SecurityHub', services.securityHub],
+    ];
+    for (const [name, service] of delegatedServices) {
+      if (this.isServiceEnabled(service, region)) {
+        resources.push({ type: 'SecurityServiceAdministration', name });
+      }
+    }
+    if (
+      this.isServiceEnabled(services.securityHub, region) &&
+      services.securityHub.regionAggregation &&
+      region === this.globalConfig.homeRegion
+    ) {
+      for (const policy of services.securityHub.configurationPolicies ?? []) {
+        resources.push({ type: 'SecurityHubConfigurationPolicy', name: policy.name });
+      }
+    }
+    if (!services.ssmAutomation.excludeRegions?.includes(region as Region)) {
+      for (const documentSet of services.ssmAutomation.documentSets ?? []) {
+        resources.push(...documentSet.documents.map(document => ({ type: 'SsmDocument', name: document.name })));
+      }
+    }
+    const accessAnalyzer = this.securityConfig.accessAnalyzer;
+    if (accessAnalyzer.enable) {
+      if (region === this.globalConfig.homeRegion) {
+        resources.push({ type: 'AccessAnalyzer', name: 'AccessAnalyzer' });
+      }
+      for (const analyzer of accessAnalyzer.analyzers ?? []) {
+        if (
+          analyzer.type === 'ORGANIZATION_UNUSED_ACCESS'
+            ? region === this.globalConfig.homeRegion
+            : !analyzer.excludeRegions?.includes(region as Region)
+        ) {
+          resources.push({ type: 'AccessAnalyzer', name: analyzer.name });
+        }
+      }
+    }
+    for (const snsSubscription of services.snsSubscriptions ?? []) {
+      resources.push({ type: 'SnsTopic', name: `${snsSubscription.level}Notifications` });
+    }
+    return resources;
+  }
+
+  private getKeyResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    if (account !== this.accountsConfig.getAuditAccount().name) {
+      return resources;
+    }
+    resources.push({ type: 'KmsKey', name: 'AcceleratorKey' });
+    //
+    // The role other accounts use to read the key ARN is global and only deployed in the home region
+    //
+    if (region === this.globalConfig.homeRegion) {
+      resources.push({ type: 'IamRole', name: 'CrossAccountAcceleratorSsmParamAccessRole' });
+    }
+    return resources;
+  }
+
+  private getLoggingResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    for (const keyItem of this.securityConfig.keyManagementService?.keySets ?? []) {
+      if (this.isIncluded(keyItem.deploymentTargets, account, region)) {
+        resources.push({ type: 'KmsKey', name: keyItem.name });
+      }
+    }
+    const snsTopics = this.globalConfig.snsTopics;
+    if (snsTopics && this.isIncluded(snsTopics.deploymentTargets, account, region)) {
+      for (const topic of snsTopics.topics) {
+        resources.push({ type: 'SnsTopic', name: topic.name });
+      }
+    }
+    return resources;
+  }
+
+  private getDependenciesResources(region: string): DeploymentPlanResource[] {
+    return region === this.globalConfig.homeRegion ? [{ type: 'IamRole', name: 'PutSsmParameterRole' }] : [];
+  }
+
+  private getSecurityServiceResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    const services = this.securityConfig.centralSecurityServices;
+    if (this.isServiceEnabled(services.macie, region)) {
+      resources.push({ type: 'SecurityServiceExport', name: 'Macie' });
+    }
+    if (this.isServiceEnabled(services.guardduty, region) && services.guardduty.exportConfiguration.enable) {
+      resources.push({ type: 'SecurityServiceExport', name: 'GuardDuty' });
+    }
+    if (this.isServiceEnabled(services.inspector, region) && services.inspector?.exportConfiguration?.enable) {
+      resources.push({ type: 'SecurityServiceExport', name: 'Inspector' });
+    }
+    if (this.isServiceEnabled(services.securityHub, region)) {
+      for (const standard of services.securityHub.standards) {
+        if (!standard.deploymentTargets || this.isIncluded(standard.deploymentTargets, account, region)) {
+          resources.push({ type: 'SecurityHubStandard', name: standard.name });
+        }
+      }
+    }
+    const ebsEncryption = services.ebsDefaultVolumeEncryption;
+    if (
+      ebsEncryption.enable &&
+      (ebsEncryption.excludeRegions
+        ? !ebsEncryption.excludeRegions.includes(region as Region)
+        : !ebsEncryption.deploymentTargets || this.isIncluded(ebsEncryption.deploymentTargets, account, region))
+    ) {
+      resources.push({ type: 'EbsDefaultEncryption', name: 'EbsDefaultVolumeEncryption' });
+    }
+    if (region === this.globalConfig.homeRegion) {
+      if (!this.props.enableSingleAccountMode) {
+        resources.push({ type: 'IamPasswordPolicy', name: 'IamPasswordPolicy' });
+      }
+      const securityLake = this.globalConfig.logging.securityLake;
+      if (securityLake?.enable && account === securityLake.delegatedAdminAccount) {
+        resources.push({ type: 'SecurityLake', name: 'SecurityLake' });
+        for (const subscriber of securityLake.subscribers ?? []) {
+          resources.push({ type: 'SecurityLakeSubscriber', name: subscriber.name });
+        }
+      }
+    }
+    if (this.securityConfig.awsConfig.aggregation?.enable && account === this.getConfigAdminAccount()) {
+      resources.push({ type: 'ConfigAggregator', name: 'EnableConfigAggregation' });
+    }
+    return resources;
+  }
+
+  private getSecurityResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    for (const ruleSet of this.securityConfig.awsConfig.ruleSets) {
+      if (this.isIncluded(ruleSet.deploymentTargets, account, region)) {
+        for (const rule of ruleSet.rules) {
+          resources.push({ type: 'ConfigRule', name: rule.name });
+        }
+      }
+    }
+    const configAdminAccount = this.getConfigAdminAccount();
+    for (const conformancePack of this.securityConfig.awsConfig.conformancePacks ?? []) {
+      if (conformancePack.organization) {
+        if (
+          account === configAdminAccount &&
+          !conformancePack.organization.excludeRegions?.includes(region as Region)
+        ) {
+          resources.push({ type: 'OrganizationConformancePack', name: conformancePack.name });
+        }
+      } else if (
+        conformancePack.deploymentTargets &&
+        this.isIncluded(conformancePack.deploymentTargets, account, region)
+      ) {
+        resources.push({ type: 'ConformancePack', name: conformancePack.name });
+      }
+    }
+    for (const metricSet of this.securityConfig.cloudWatch.metricSets) {
+      if (this.isIncluded(metricSet.deploymentTargets, account, region, metricSet.regions)) {
+        for (const metric of metricSet.metrics) {
+          resources.push({ type: 'MetricFilter', name: metric.filterName });
+        }
+      }
+    }
+    for (const alarmSet of this.securityConfig.cloudWatch.alarmSets) {
+      if (this.isIncluded(alarmSet.deploymentTargets, account, region, alarmSet.regions)) {
+        for (const alarm of alarmSet.alarms) {
+          resources.push({ type: 'CloudWatchAlarm', name: alarm.alarmName });
+        }
+        for (const compositeAlarm of alarmSet.compositeAlarms ?? []) {
+          resources.push({ type: 'CloudWatchCompositeAlarm', name: compositeAlarm.alarmName });
+        }
+      }
+    }
+    for (const logGroup of this.securityConfig.cloudWatch.logGroups ?? []) {
+      if (this.isIncluded(logGroup.deploymentTargets, account, region)) {
+        resources.push({ type: 'LogGroup', name: logGroup.logGroupName });
+      }
+    }
+    return resources;
+  }
+
+  private getOperationsResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    //
+    // IAM resources are global and only deployed in the home region
+    //
+    if (region === this.globalConfig.homeRegion) {
+      for (const policySet of this.iamConfig.policySets) {
+        if (this.isIncluded(policySet.deploymentTargets, account, region)) {
+          resources.push(...policySet.policies.map(policy => ({ type: 'IamPolicy', name: policy.name })));
+        }
+      }
+      for (const roleSet of this.iamConfig.roleSets) {
+        if (this.isIncluded(roleSet.deploymentTargets, account, region)) {
+          resources.push(...roleSet.roles.map(role => ({ type: 'IamRole', name: role.name })));
+        }
+      }
+      for (const groupSet of this.iamConfig.groupSets) {
+        if (this.isIncluded(groupSet.deploymentTargets, account, region)) {
+          resources.push(...groupSet.groups.map(group => ({ type: 'IamGroup', name: group.name })));
+        }
+      }
+      for (const userSet of this.iamConfig.userSets) {
+        if (this.isIncluded(userSet.deploymentTargets, account, region)) {
+          resources.push(...userSet.users.map(user => ({ type: 'IamUser', name: user.username })));
+        }
+      }
+    }
+    for (const vault of this.globalConfig.backup?.vaults ?? []) {
+      if (this.isIncluded(vault.deploymentTargets, account, region)) {
+        resources.push({ type: 'BackupVault', name: vault.name });
+      }
+    }
+    for (const plan of this.globalConfig.backup?.plans ?? []) {
+      if (this.isIncluded(plan.deploymentTargets, account, region)) {
+        resources.push({ type: 'BackupPlan', name: plan.name });
+      }
+    }
+    for (const ssmParametersItem of this.globalConfig.ssmParameters ?? []) {
+      if (this.isIncluded(ssmParametersItem.deploymentTargets, account, region)) {
+        resources.push(
+          ...ssmParametersItem.parameters.map(parameter => ({ type: 'SsmParameter', name: parameter.path })),
+        );
+      }
+    }
+    return resources;
+  }
+
+  private getNetworkPrepResources(account: string, region: string): DeploymentPlanResource[] {
+    return this.networkConfig.transitGateways
+      .filter(tgwItem => tgwItem.account === account && tgwItem.region === region)
+      .map(tgwItem => ({ type: 'TransitGateway', name: tgwItem.name }));
+  }
+
+  private getNetworkVpcResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    for (const vpcItem of this.getVpcs(account, region)) {
+      resources.push({ type: 'Vpc', name: vpcItem.name });
+      for (const subnetItem of vpcItem.subnets ?? []) {
+        resources.push({ type: 'Subnet', name: `${vpcItem.name}/${subnetItem.name}` });
+      }
+    }
+    return resources;
+  }
+
+  private getNetworkVpcEndpointsResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    const vpcs = this.getVpcs(account, region);
+    for (const vpcItem of vpcs) {
+      for (const endpoint of vpcItem.gatewayEndpoints?.endpoints ?? []) {
+        resources.push({ type: 'GatewayEndpoint', name: `${vpcItem.name}/${endpoint.service}` });
+      }
+      for (const endpoint of vpcItem.interfaceEndpoints?.endpoints ?? []) {
+        resources.push({ type: 'InterfaceEndpoint', name: `${vpcItem.name}/${endpoint.service}` });
+      }
+    }
+    for (const firewall of this.networkConfig.centralNetworkServices?.networkFirewall?.firewalls ?? []) {
+      if (vpcs.some(vpcItem => vpcItem.name === firewall.vpc)) {
+        resources.push({ type: 'NetworkFirewall', name: firewall.name });
+      }
+    }
+    return resources;
+  }
+
+  private getNetworkVpcDnsResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    //
+    // Central interface endpoints are resolved through private hosted zones
+    //
+    for (const vpcItem of this.getVpcs(account, region)) {
+      if (vpcItem.interfaceEndpoints?.central) {
+        for (const endpoint of vpcItem.interfaceEndpoints.endpoints) {
+          resources.push({ type: 'HostedZone', name: `${vpcItem.name}/${endpoint.service}` });
+        }
+      }
+    }
+    return resources;
+  }
+
+  private getNetworkAssociationsResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    //
+    // Transit gateway route table associations and propagations are created in the transit gateway account
+    //
+    for (const vpcItem of [...this.networkConfig.vpcs, ...(this.networkConfig.vpcTemplates ?? [])]) {
+      if (vpcItem.region !== region) {
+        continue;
+      }
+      for (const attachment of vpcItem.transitGatewayAttachments ?? []) {
+        if (attachment.transitGateway.account !== account) {
+          continue;
+        }
+        for (const routeTable of attachment.routeTableAssociations ?? []) {
+          resources.push({
+            type: 'TransitGatewayRouteTableAssociation',
+            name: `${vpcItem.name}/${attachment.name}/${routeTable}`,
+          });
+        }
+        for (const routeTable of attachment.routeTablePropagations ?? []) {
+          resources.push({
+            type: 'TransitGatewayRouteTablePropagation',
+            name: `${vpcItem.name}/${attachment.name}/${routeTable}`,
+          });
+        }
+      }
+    }
+    //
+    // Peering connections are requested from the account and region of the first VPC
+    //
+    for (const peering of this.networkConfig.vpcPeering ?? []) {
+      const requesterVpc = this.networkConfig.vpcs.find(vpcItem => vpcItem.name === peering.vpcs[0]);
+      if (requesterVpc?.account === account && requesterVpc.region === region) {
+        resources.push({ type: 'VpcPeeringConnection', name: peering.name });
+      }
+    }
+    for (const vpcItem of this.getVpcs(account, region)) {
+      for (const rule of vpcItem.resolverRules ?? []) {
+        resources.push({ type: 'ResolverRuleAssociation', name: `${vpcItem.name}/${rule}` });
+      }
+    }
+    return resources;
+  }
+
+  private getNetworkAssociationsGwlbResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    const vpcNames = this.getVpcs(account, region).map(vpcItem => vpcItem.name);
+    const isInScope = (item: { vpc: string; account?: string }) =>
+      vpcNames.includes(item.vpc) && (!item.account || item.account === account);
+
+    const firewalls = this.customizationsConfig.firewalls;
+    for (const instance of [...(firewalls?.instances ?? []), ...(firewalls?.managerInstances ?? [])]) {
+      if (isInScope(instance)) {
+        resources.push({ type: 'FirewallInstance', name: instance.name });
+      }
+    }
+    for (const autoscalingGroup of firewalls?.autoscalingGroups ?? []) {
+      if (isInScope(autoscalingGroup)) {
+        resources.push({ type: 'FirewallAutoScalingGroup', name: autoscalingGroup.name });
+      }
+    }
+    for (const gwlb of this.networkConfig.centralNetworkServices?.gatewayLoadBalancers ?? []) {
+      for (const endpoint of gwlb.endpoints) {
+        if (isInScope(endpoint)) {
+          resources.push({ type: 'GatewayLoadBalancerEndpoint', name: `${endpoint.vpc}/${endpoint.name}` });
+        }
+      }
+    }
+    return resources;
+  }
+
+  private getCustomizationsResources(account: string, region: string): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    const customizations = this.customizationsConfig.customizations;
+    for (const stack of customizations?.cloudFormationStacks ?? []) {
+      if (this.isIncluded(stack.deploymentTargets, account, region, stack.regions)) {
+        resources.push({ type: 'CloudFormationStack', name: stack.name });
+      }
+    }
+    //
+    // Stack sets are managed from the management account home region
+    //
+    if (account === this.accountsConfig.getManagementAccount().name && region === this.globalConfig.homeRegion) {
+      for (const stackSet of customizations?.cloudFormationStackSets ?? []) {
+        resources.push({ type: 'CloudFormationStackSet', name: stackSet.name });
+      }
+    }
+    for (const application of this.customizationsConfig.applications ?? []) {
+      if (this.isIncluded(application.deploymentTargets, account, region)) {
+        resources.push({ type: 'Application', name: application.name });
+      }
+    }
+    return resources;
+  }
+
+  private getResourcePolicyEnforcementResources(account: string, region: string): DeploymentPlanResource[] {
+    const resourcePolicyEnforcement = this.securityConfig.resourcePolicyEnforcement;
+    if (
+      !resourcePolicyEnforcement?.enable ||
+      !resourcePolicyEnforcement.policySets.some(policySet =>
+        this.isIncluded(policySet.deploymentTargets, account, region),
+      )
+    ) {
+      return [];
+    }
+    return [{ type: 'ConfigRule', name: ResourcePolicyEnforcementConfig.DEFAULT_RULE_NAME }];
+  }
+
+  private getFinalizeResources(): DeploymentPlanResource[] {
+    const resources: DeploymentPlanResource[] = [];
+    if (!this.organizationConfig.enable) {
+      return resources;
+    }
+    //
+    // Service control policies are updated with dynamic parameters once every account is deployed
+    //
+    if (this.props.partition !== 'aws-cn') {
+      for (const serviceControlPolicy of this.organizationConfig.serviceControlPolicies) {
+        resources.push({ type: 'ServiceControlPolicy', name: serviceControlPolicy.name });
+      }
+    }
+    if (this.securityConfig.centralSecurityServices.scpRevertChangesConfig?.enable) {
+      resources.push({ type: 'EventBridgeRule', name: 'RevertScpChanges' });
+    }
+    if (this.organizationConfig.quarantineNewAccounts?.enable && this.props.partition === 'aws') {
+      resources.push({ type: 'EventBridgeRule', name: 'DetachQuarantineScp' });
+    }
+    return resources;
+  }
+
+  /**
+   * Returns the VPCs and VPC templates deployed to an account and region
+   * @param account
+   * @param region
+   * @returns
+   */
+  private getVpcs(account: string, region: string): (VpcConfig | VpcTemplatesConfig)[] {
+    return [
+      ...this.networkConfig.vpcs.filter(vpcItem => vpcItem.account === account && vpcItem.region === region),
+      ...(this.networkConfig.vpcTemplates ?? []).filter(
+        vpcItem => vpcItem.region === region && this.isIncluded(vpcItem.deploymentTargets, account, region),
+      ),
+    ];
+  }
+
+  /**
+   * Returns the name of the AWS Config aggregation account
+   * @returns
+   */
+  private getConfigAdminAccount(): string {
+    const aggregation = this.securityConfig.awsConfig.aggregation;
+    return aggregation?.enable && aggregation.delegatedAdminAccount
+      ? aggregation.delegatedAdminAccount
+      : this.accountsConfig.getManagementAccount().name;
+  }
+
+  /**
+   * Checks whether a central security service is enabled and not excluded from a region
+   * @param service
+   * @param region
+   * @returns
+   */
+  private isServiceEnabled(service: { enable: boolean; excludeRegions?: Region[] } | undefined, region: string) {
+    return !!service?.enable && !service.excludeRegions?.includes(region as Region);
+  }
+
+  /**
+   * Evaluates deployment targets for an account and region using the custom stack helper
+   * @param deploymentTargets
+   * @param account
+   * @param region
+   * @param regions Optional explicit list of regions the item is limited to
+   * @returns
+   */
+  private isIncluded(
+    deploymentTargets: DeploymentTargets,
+    account: string,
+    region: string,
+    regions?: string[],
+  ): boolean {
+    if (regions && !regions.includes(region)) {
+      return false;
+    }
+    return isIncluded(
+      deploymentTargets,
+      region,
+      this.accountsConfig.getAccountId(account),
+      this.accountsConfig,
+      this.organizationConfig,
+    );
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { createLogger, setRetryStrategy, StackDiffSummary, throttlingBackOff } from '@aws-accelerator/utils';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import * as fs from 'fs';
+import mri from 'mri';
+import * as path from 'path';
+
+const logger = createLogger(['diff-report']);
+
+/**
+ * The structured differences of a single stack instance
+ */
+export interface StackDiffReportEntry extends StackDiffSummary {
+  readonly stackName: string;
+  readonly stage?: string;
+  readonly accountId?: string;
+  readonly region?: string;
+}
+
+/**
+ * Totals of the changes across all stacks
+ */
+export interface DiffReportTotals {
+  readonly stacks: number;
+  readonly add: number;
+  readonly modify: number;
+  readonly replace: number;
+  readonly remove: number;
+  readonly iamChanges: number;
+  readonly securityGroupChanges: number;
+}
+
+/**
+ * The consolidated change report of the pipeline Review stage
+ */
+export interface DiffReportOutput {
+  readonly generatedAt: string;
+  readonly totals: DiffReportTotals;
+  readonly stacks: StackDiffReportEntry[];
+}
+
+/**
+ * Consolidates the structured differences written by the diff command for every stack
+ * into a single JSON and HTML change report.
+ */
+export class DiffReport {
+  /**
+   * Suffix of the structured difference file written next to each stack diff
+   */
+  static readonly FILE_SUFFIX = '.diff.json';
+
+  private constructor(private readonly entries: StackDiffReportEntry[]) {}
+
+  /**
+   * Loads the structured differences of every stack found under a directory
+   * @param dirPath
+   * @returns DiffReport
+   */
+  static load(dirPath: string): DiffReport {
+    const entries = DiffReport.findFiles(dirPath).map(
+      filePath => JSON.parse(fs.readFileSync(filePath, 'utf8')) as StackDiffReportEntry,
+    );
+    return new DiffReport(entries.sort((a, b) => a.stackName.localeCompare(b.stackName)));
+  }
+
+  /**
+   * Generates the change report of the stacks with differences
+   * @returns DiffReportOutput
+   */
+  generate(): DiffReportOutput {
+    const stacks = this.entries.filter(entry => entry.differenceCount > 0);
+    const countChanges = (changeType: string) =>
+      stacks.reduce(
+        (count, stack) => count + stack.resources.filter(resource => resource.changeType === changeType).length,
+        0,
+      );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      totals: {
+        stacks: stacks.length,
+        add: countChanges('ADD'),
+        modify: countChanges('MODIFY'),
+        replace: countChanges('REPLACE'),
+        remove: countChanges('REMOVE'),
+        // Header rows are not counted
+        iamChanges: stacks.reduce(
+          (count, stack) =>
+            count +
+            Math.max(0, stack.iamStatementChanges.length - 1) +
+            Math.max(0, stack.iamManagedPolicyChanges.length - 1),
+          0,
+        ),
+        securityGroupChanges: stacks.reduce(
+          (count, stack) => count + Math.max(0, stack.securityGroupChanges.length - 1),
+          0,
+        ),
+      },
+      stacks,
+    };
+  }
+
+  /**
+   * Renders the change report as a self-contained HTML document
+   * @param report
+   * @returns
+   */
+  static toHtml(report: DiffReportOutput): string {
+    const securityStacks = report.stacks.filter(
+      stack =>
+        stack.iamStatementChanges.length > 0 ||
+        stack.iamManagedPolicyChanges.length > 0 ||
+        stack.securityGroupChanges.length > 0,
+    );
+    const lines = [
+      '<!DOCTYPE html>',
+      '<html><head><meta charset="utf-8"><title>Accelerator change report</title>',
+      '<style>',
+      'body{font-family:sans-serif;margin:2em}table{border-collapse:collapse;margin-bottom:1em}',
+      'th,td{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top;white-space:pre-wrap}',
+      '.ADD{color:#1d8102}.MODIFY{color:#8d6605}.REPLACE,.REMOVE,.broadened{color:#d13212;font-weight:bold}',
+      '</style></head><body>',
+      '<h1>Accelerator change report</h1>',
+      `<p>Generated at ${escapeHtml(report.generatedAt)}</p>`,
+      '<h2>Summary</h2>',
+      renderTable(
+        ['Stacks', 'Added', 'Modified', 'Replaced', 'Removed', 'IAM changes', 'Security group changes'],
+        [
+          [
+            report.totals.stacks,
+            report.totals.add,
+            report.totals.modify,
+            report.totals.replace,
+            report.totals.remove,
+            report.totals.iamChanges,
+            report.totals.securityGroupChanges,
+          ].map(String),
+        ],
+      ),
+      renderTable(
+        ['Stack', 'Stage', 'Account', 'Region', 'Added', 'Modified', 'Replaced', 'Removed'],
+        report.stacks.map(stack => [
+          `<a href="#${escapeHtml(stack.stackName)}">${escapeHtml(stack.stackName)}</a>`,
+          ...[stack.stage, stack.accountId, stack.region].map(value => escapeHtml(value ?? '')),
+          ...['ADD', 'MODIFY', 'REPLACE', 'REMOVE'].map(changeType =>
+            String(stack.resources.filter(resource => resource.changeType === changeType).length),
+          ),
+        ]),
+        false,
+      ),
+    ];
+
+    if (securityStacks.length > 0) {
+      lines.push('<h2>IAM and security group changes</h2>');
+      for (const stack of securityStacks) {
+        lines.push(`<h3>${escapeHtml(stack.stackName)}</h3>`);
+        if (stack.permissionsBroadened) {
+          lines.push('<p class="broadened">These changes broaden permissions or network access</p>');
+        }
+        for (const rows of [
+          stack.iamStatementChanges,
+          stack.iamManagedPolicyChanges,
+          stack.securityGroupChanges,
+        ].filter(item => item.length > 0)) {
+          lines.push(renderTable(rows[0], rows.slice(1)));
+        }
+      }
+    }
+
+    lines.push('<h2>Resource changes</h2>');
+    for (const stack of report.stacks) {
+      lines.push(`<h3 id="${escapeHtml(stack.stackName)}">${escapeHtml(stack.stackName)}</h3>`);
+      lines.push(
+        renderTable(
+          ['Change', 'Logical ID', 'Type', 'Path'],
+          stack.resources.map(resource => [
+            `<span class="${resource.changeType}">${resource.changeType}</span>`,
+            escapeHtml(resource.logicalId),
+            escapeHtml(resource.resourceType),
+            escapeHtml(resource.path ?? ''),
+          ]),
+          false,
+        ),
+      );
+    }
+    lines.push('</body></html>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Uploads the JSON and HTML change report to an S3 bucket
+   * @param report
+   * @param props
+   * @returns The AWS console URL of the HTML report
+   */
+  static async upload(
+    report: DiffReportOutput,
+    props: { bucketName: string; prefix: string; region: string; partition: string },
+  ): Promise<string> {
+    const s3Client = new S3Client({ region: props.region, retryStrategy: setRetryStrategy() });
+    const objects = [
+      { key: `${props.prefix}/diff-report.json`, body: JSON.stringify(report, null, 2), type: 'application/json' },
+      { key: `${props.prefix}/index.html`, body: DiffReport.toHtml(report), type: 'text/html' },
+    ];
+    for (const object of objects) {
+      await throttlingBackOff(() =>
+        s3Client.send(
+          new PutObjectCommand({
+            Bucket: props.bucketName,
+            Key: object.key,
+            Body: object.body,
+            ContentType: object.type,
+          }),
+        ),
+      );
+    }
+
+    return `${getConsoleUrl(props.partition)}/s3/object/${props.bucketName}?region=${props.region}&prefix=${
+      objects[1].key
+    }`;
+  }
+
+  private static findFiles(dirPath: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...DiffReport.findFiles(entryPath));
+      } else if (entry.name.endsWith(DiffReport.FILE_SUFFIX)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+}
+
+function renderTable(header: string[], rows: string[][], escape = true): string {
+  const cell = (value: string) => (escape ? escapeHtml(value) : value);
+  return [
+    '<table>',
+    `<tr>${header.map(value => `<th>${escapeHtml(value)}</th>`).join('')}</tr>`,
+    ...rows.map(row => `<tr>${row.map(value => `<td>${cell(value)}</td>`).join('')}</tr>`),
+    '</table>',
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getConsoleUrl(partition: string): string {
+  switch (partition) {
+    case 'aws-cn':
+      return 'https://console.amazonaws.cn';
+    case 'aws-us-gov':
+      return 'https://console.amazonaws-us-gov.com';
+    default:
+      return 'https://console.aws.amazon.com';
+  }
+}
+
+if (require.main === module) {
+  (async () => {
+    const usage = `Usage: diff-report.ts --dir DIFF_DIRECTORY --bucket BUCKET --prefix PREFIX --partition PARTITION --url-file URL_FILE`;
+    const args = mri(process.argv.slice(2), {
+      string: ['dir', 'bucket', 'prefix', 'partition', 'url-file'],
+    });
+    if (!args['dir'] || !args['bucket'] || !args['prefix'] || !args['url-file']) {
+      throw new Error(usage);
+    }
+
+    const report = DiffReport.load(args['dir']).generate();
+    const reportUrl = await DiffReport.upload(report, {
+      bucketName: args['bucket'],
+      prefix: args['prefix'],
+      region: process.env['AWS_REGION']!,
+      partition: args['partition'] ?? 'aws',
+    });
+    fs.writeFileSync(args['url-file'], reportUrl);
+    logger.info(`Change report of ${report.totals.stacks} stacks uploaded to ${reportUrl}`);
+  })().catch(err => {
+    logger.error(err.message);
+    process.exit(1);
+  });
+}
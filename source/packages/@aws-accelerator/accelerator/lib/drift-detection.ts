@@ -0,0 +1,436 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { AccountsConfig, GlobalConfig } from '@aws-accelerator/config';
+import {
+  chunkArray,
+  createLogger,
+  delay,
+  getCrossAccountCredentials,
+  setRetryStrategy,
+  throttlingBackOff,
+} from '@aws-accelerator/utils';
+import {
+  CloudFormationClient,
+  DescribeStackDriftDetectionStatusCommand,
+  DescribeStackDriftDetectionStatusCommandOutput,
+  DescribeStackResourceDriftsCommand,
+  DetectStackDriftCommand,
+  StackResourceDrift,
+} from '@aws-sdk/client-cloudformation';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { DeploymentPlan, DeploymentPlanStack } from './deployment-plan';
+
+const logger = createLogger(['drift-detection']);
+
+/**
+ * Interval between drift detection status checks of a stack
+ */
+const DETECTION_STATUS_INTERVAL_MS = 5000;
+
+/**
+ * Maximum number of drift detection status checks of a stack before the detection is reported as timed out
+ */
+const DETECTION_STATUS_MAX_ATTEMPTS = 120;
+
+/**
+ * Properties for detecting drift of the accelerator stacks
+ */
+export interface StackDriftDetectionProps {
+  /**
+   * The directory containing the accelerator configuration files
+   */
+  readonly configDirPath: string;
+  /**
+   * The AWS partition of the accelerator stacks
+   */
+  readonly partition: string;
+  /**
+   * The global region of the partition
+   */
+  readonly globalRegion: string;
+  /**
+   * Map of accelerator stage to CloudFormation stack name prefix
+   */
+  readonly stackNames: Record<string, string>;
+  /**
+   * Single account deployment mode
+   */
+  readonly enableSingleAccountMode: boolean;
+  /**
+   * Accelerator S3 bucket name prefix
+   */
+  readonly bucketPrefix: string;
+  /**
+   * Accounts configuration with account IDs loaded from AWS Organizations
+   */
+  readonly accountsConfig: AccountsConfig;
+  /**
+   * Global configuration
+   */
+  readonly globalConfig: GlobalConfig;
+}
+
+/**
+ * A property of a resource whose actual value differs from the template
+ */
+export interface DriftedPropertyDifference {
+  readonly propertyPath: string;
+  readonly expectedValue: string;
+  readonly actualValue: string;
+  readonly differenceType: string;
+}
+
+/**
+ * A resource that was modified or deleted outside of CloudFormation
+ */
+export interface DriftedResource {
+  readonly logicalResourceId: string;
+  readonly physicalResourceId?: string;
+  readonly resourceType: string;
+  readonly driftStatus: string;
+  readonly propertyDifferences: DriftedPropertyDifference[];
+}
+
+/**
+ * The drift detection result of a single stack
+ */
+export interface StackDriftResult {
+  readonly stackName: string;
+  readonly account: string;
+  readonly accountId: string;
+  readonly region: string;
+  readonly detectionStatus: string;
+  readonly detectionStatusReason?: string;
+  readonly driftStatus: string;
+  readonly resources: DriftedResource[];
+}
+
+/**
+ * The consolidated drift report of all accelerator stacks
+ */
+export interface DriftReport {
+  readonly generatedAt: string;
+  readonly partition: string;
+  readonly stacks: StackDriftResult[];
+}
+
+/**
+ * Temporary credentials of an account
+ */
+interface StackCredentials {
+  readonly accessKeyId: string;
+  readonly secretAccessKey: string;
+  readonly sessionToken?: string;
+}
+
+/**
+ * Detects drift of every deployed accelerator stack.
+ *
+ * The stacks are enumerated from the deployment plan of the configuration, and drift
+ * detection runs in parallel in each account and region, up to the maximum number of
+ * concurrent stacks. Stacks that are not deployed are skipped.
+ */
+export class StackDriftDetection {
+  /**
+   * CLI command used to detect drift
+   */
+  static readonly COMMAND = 'drift';
+
+  /**
+   * Central log bucket prefix drift reports are stored under
+   */
+  static readonly REPORT_PREFIX = 'drift-reports';
+
+  private readonly credentials = new Map<string, Promise<StackCredentials | undefined>>();
+
+  constructor(private readonly props: StackDriftDetectionProps) {}
+
+  /**
+   * Detects drift of the accelerator stacks
+   * @returns DriftReport
+   */
+  async detect(): Promise<DriftReport> {
+    const deploymentPlan = await DeploymentPlan.load({
+      configDirPath: this.props.configDirPath,
+      partition: this.props.partition,
+      globalRegion: this.props.globalRegion,
+      stackNames: this.props.stackNames,
+      enableSingleAccountMode: this.props.enableSingleAccountMode,
+      accountsConfig: this.props.accountsConfig,
+    });
+    const stacks = this.getActiveAccountStacks(deploymentPlan.generate().stages.flatMap(stage => stage.stacks));
+    const maxConcurrentStacks = this.props.globalConfig.acceleratorSettings?.maxConcurrentStacks ?? 250;
+
+    const results: StackDriftResult[] = [];
+    for (const chunk of chunkArray(stacks, maxConcurrentStacks)) {
+      for (const result of await Promise.all(chunk.map(stack => this.detectStackDrift(stack)))) {
+        if (result) {
+          results.push(result);
+        }
+      }
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      partition: this.props.partition,
+      stacks: results,
+    };
+  }
+
+  /**
+   * Stores the drift report in the central log bucket
+   * @param report
+   * @returns The S3 URI of the report
+   */
+  async writeReport(report: DriftReport): Promise<string> {
+    const logArchiveAccountId = this.props.accountsConfig.getLogArchiveAccountId();
+    const region = this.props.globalConfig.logging.centralizedLoggingRegion ?? this.props.globalConfig.homeRegion;
+    const bucketName = this.getCentralLogBucketName(logArchiveAccountId, region);
+    const key = `${StackDriftDetection.REPORT_PREFIX}/${report.generatedAt}.json`;
+
+    const s3Client = new S3Client({
+      region,
+      credentials: await this.getCredentials(logArchiveAccountId),
+      retryStrategy: setRetryStrategy(),
+    });
+    await throttlingBackOff(() =>
+      s3Client.send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: key,
+          Body: JSON.stringify(report, null, 2),
+          ContentType: 'application/json',
+        }),
+      ),
+    );
+
+    return `s3://${bucketName}/${key}`;
+  }
+
+  /**
+   * Returns the stacks of a drift report that have drifted
+   * @param report
+   * @returns
+   */
+  static getDriftedStacks(report: DriftReport): StackDriftResult[] {
+    return report.stacks.filter(stack => stack.driftStatus === 'DRIFTED');
+  }
+
+  /**
+   * Detects drift of a single stack. Errors of the stack, such as denied access or a role that
+   * cannot be assumed, are reported as a failed detection so the other stacks are still checked.
+   * @param stack
+   * @returns The drift result, or undefined when the stack is not deployed
+   */
+  private async detectStackDrift(stack: DeploymentPlanStack): Promise<StackDriftResult | undefined> {
+    try {
+      return await this.detectDeployedStackDrift(stack);
+    } catch (e: unknown) {
+      const reason = e instanceof Error ? e.message : String(e);
+      logger.warn(`Drift detection of stack ${stack.stackName} failed: ${reason}`);
+      return {
+        stackName: stack.stackName,
+        account: stack.account,
+        accountId: stack.accountId,
+        region: stack.region,
+        detectionStatus: 'DETECTION_FAILED',
+        detectionStatusReason: reason,
+        driftStatus: 'UNKNOWN',
+        resources: [],
+      };
+    }
+  }
+
+  /**
+   * Starts drift detection of a single stack and waits for the result
+   * @param stack
+   * @returns The drift result, or undefined when the stack is not deployed
+   */
+  private async detectDeployedStackDrift(stack: DeploymentPlanStack): Promise<StackDriftResult | undefined> {
+    const cloudFormationClient = new CloudFormationClient({
+      region: stack.region,
+      credentials: await this.getCredentials(stack.accountId),
+      retryStrategy: setRetryStrategy(),
+    });
+
+    let driftDetectionId: string | undefined;
+    try {
+      const response = await throttlingBackOff(() =>
+        cloudFormationClient.send(new DetectStackDriftCommand({ StackName: stack.stackName })),
+      );
+      driftDetectionId = response.StackDriftDetectionId;
+    } catch (e: unknown) {
+      // Stacks that were never deployed, or are not in a stable state, cannot be checked
+      if (e instanceof Error && e.name === 'ValidationError') {
+        logger.info(`Skipping drift detection of stack ${stack.stackName}: ${e.message}`);
+        return undefined;
+      }
+      throw e;
+    }
+
+    let status: DescribeStackDriftDetectionStatusCommandOutput | undefined;
+    for (let attempt = 0; attempt < DETECTION_STATUS_MAX_ATTEMPTS; attempt++) {
+      status = await throttlingBackOff(() =>
+        cloudFormationClient.send(
+          new DescribeStackDriftDetectionStatusCommand({ StackDriftDetectionId: driftDetectionId }),
+        ),
+      );
+      if (status.DetectionStatus !== 'DETECTION_IN_PROGRESS') {
+        break;
+      }
+      await delay(DETECTION_STATUS_INTERVAL_MS);
+    }
+    if (!status || status.DetectionStatus === 'DETECTION_IN_PROGRESS') {
+      logger.warn(
+        `Drift detection of stack ${stack.stackName} did not complete after ${DETECTION_STATUS_MAX_ATTEMPTS} status checks`,
+      );
+      return {
+        stackName: stack.stackName,
+        account: stack.account,
+        accountId: stack.accountId,
+        region: stack.region,
+        detectionStatus: 'DETECTION_TIMED_OUT',
+        driftStatus: 'UNKNOWN',
+        resources: [],
+      };
+    }
+    if (status.DetectionStatus === 'DETECTION_FAILED') {
+      logger.warn(`Drift detection of stack ${stack.stackName} failed: ${status.DetectionStatusReason}`);
+    }
+
+    const resources =
+      status.StackDriftStatus === 'DRIFTED'
+        ? await this.getDriftedResources(cloudFormationClient, stack.stackName)
+        : [];
+    for (const resource of resources) {
+      logger.warn(
+        `Stack ${stack.stackName} resource ${resource.logicalResourceId} (${resource.resourceType}) is ${resource.driftStatus}`,
+      );
+    }
+
+    return {
+      stackName: stack.stackName,
+      account: stack.account,
+      accountId: stack.accountId,
+      region: stack.region,
+      detectionStatus: status.DetectionStatus ?? 'UNKNOWN',
+      detectionStatusReason: status.DetectionStatusReason,
+      driftStatus: status.StackDriftStatus ?? 'UNKNOWN',
+      resources,
+    };
+  }
+
+  /**
+   * Returns the stacks of accounts that are active. Stacks of closed, suspended or decommissioned
+   * accounts are skipped, their credentials cannot be assumed.
+   * @param stacks
+   * @returns
+   */
+  private getActiveAccountStacks(stacks: DeploymentPlanStack[]): DeploymentPlanStack[] {
+    const activeAccountIds = this.props.accountsConfig.getAccountIds();
+    const decommissionedAccountNames = this.props.accountsConfig
+      .getDecommissionedAccounts()
+      .map(account => account.name);
+
+    return stacks.filter(stack => {
+      if (!activeAccountIds.includes(stack.accountId) || decommissionedAccountNames.includes(stack.account)) {
+        logger.info(`Skipping drift detection of stack ${stack.stackName}: account ${stack.account} is not active`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Returns the modified and deleted resources of a drifted stack
+   * @param cloudFormationClient
+   * @param stackName
+   * @returns
+   */
+  private async getDriftedResources(
+    cloudFormationClient: CloudFormationClient,
+    stackName: string,
+  ): Promise<DriftedResource[]> {
+    const drifts: StackResourceDrift[] = [];
+    let nextToken: string | undefined = undefined;
+    do {
+      const page = await throttlingBackOff(() =>
+        cloudFormationClient.send(
+          new DescribeStackResourceDriftsCommand({
+            StackName: stackName,
+            StackResourceDriftStatusFilters: ['MODIFIED', 'DELETED'],
+            NextToken: nextToken,
+          }),
+        ),
+      );
+      drifts.push(...(page.StackResourceDrifts ?? []));
+      nextToken = page.NextToken;
+    } while (nextToken);
+
+    return drifts.map(drift => ({
+      logicalResourceId: drift.LogicalResourceId!,
+      physicalResourceId: drift.PhysicalResourceId,
+      resourceType: drift.ResourceType!,
+      driftStatus: drift.StackResourceDriftStatus!,
+      propertyDifferences: (drift.PropertyDifferences ?? []).map(difference => ({
+        propertyPath: difference.PropertyPath!,
+        expectedValue: difference.ExpectedValue!,
+        actualValue: difference.ActualValue!,
+        differenceType: difference.DifferenceType!,
+      })),
+    }));
+  }
+
+  /**
+   * Returns the credentials used in an account. The management account uses the
+   * credentials of the pipeline, other accounts assume the management account access role.
+   * @param accountId
+   * @returns
+   */
+  private getCredentials(accountId: string): Promise<StackCredentials | undefined> {
+    if (accountId === this.props.accountsConfig.getManagementAccountId()) {
+      return Promise.resolve(undefined);
+    }
+
+    let credentials = this.credentials.get(accountId);
+    if (!credentials) {
+      credentials = getCrossAccountCredentials(
+        accountId,
+        this.props.globalRegion,
+        this.props.partition,
+        this.props.globalConfig.managementAccountAccessRole,
+      ).then(assumeRoleCredential => ({
+        accessKeyId: assumeRoleCredential.Credentials!.AccessKeyId!,
+        secretAccessKey: assumeRoleCredential.Credentials!.SecretAccessKey!,
+        sessionToken: assumeRoleCredential.Credentials!.SessionToken,
+      }));
+      this.credentials.set(accountId, credentials);
+    }
+    return credentials;
+  }
+
+  /**
+   * Returns the name of the central log bucket
+   * @param logArchiveAccountId
+   * @param region
+   * @returns
+   */
+  private getCentralLogBucketName(logArchiveAccountId: string, region: string): string {
+    const importedBucket = this.props.globalConfig.logging.centralLogBucket?.importedBucket;
+    if (importedBucket) {
+      return importedBucket.name.replace('${REGION}', region).replace('${ACCOUNT_ID}', logArchiveAccountId);
+    }
+    return `${this.props.bucketPrefix}-central-logs-${logArchiveAccountId}-${region}`;
+  }
+}
@@ -344,14 +344,12 @@ async function onCreateUpdateFunction(
     } catch {
       accountId = '';
     }
-    await putAccountConfigInTable(
-      'workload',
-      account,
-      configTableName,
-      accountId,
-      commitId,
-      account.organizationalUnit,
-    );
+    // Decommissioned accounts are moved to the account decommissioning OU
+    const ouName =
+      account.decommission && accountsConfig.accountDecommissioning
+        ? accountsConfig.accountDecommissioning.organizationalUnit
+        : account.organizationalUnit;
+    await putAccountConfigInTable('workload', account, configTableName, accountId, commitId, ouName);
   }
   return {
     PhysicalResourceId: commitId,
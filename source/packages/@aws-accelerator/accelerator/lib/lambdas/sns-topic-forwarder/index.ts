@@ -11,8 +11,8 @@
  *  and limitations under the License.
  */
 
-import { SNSClient, PublishCommand, PublishCommandInput } from '@aws-sdk/client-sns';
-import { SNSEvent } from 'aws-lambda';
+import { SNSClient, PublishCommand, PublishCommandInput, MessageAttributeValue } from '@aws-sdk/client-sns';
+import { SNSEvent, SNSMessageAttributes } from 'aws-lambda';
 import { throttlingBackOff } from '@aws-accelerator/utils';
 
 const partition: string = process.env['PARTITION'] ?? 'aws';
@@ -45,8 +45,34 @@ export async function handler(event: SNSEvent): Promise<void> {
   const params: PublishCommandInput = {
     Subject: subject,
     Message: message,
+    MessageAttributes: getMessageAttributes(snsNotification.MessageAttributes),
     TopicArn: destinationArn,
   };
   const response = await throttlingBackOff(() => snsClient.send(new PublishCommand(params)));
   console.log(response);
 }
+
+/**
+ * Convert the message attributes of a notification to publish message attributes,
+ * so subscription filter policies of the central topic match the forwarded message
+ *
+ * @param messageAttributes
+ * @returns
+ */
+export function getMessageAttributes(
+  messageAttributes: SNSMessageAttributes | undefined,
+): Record<string, MessageAttributeValue> | undefined {
+  const entries = Object.entries(messageAttributes ?? {});
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    entries.map(([name, attribute]) => [
+      name,
+      attribute.Type === 'Binary'
+        ? { DataType: attribute.Type, BinaryValue: Buffer.from(attribute.Value, 'base64') }
+        : { DataType: attribute.Type, StringValue: attribute.Value },
+    ]),
+  );
+}
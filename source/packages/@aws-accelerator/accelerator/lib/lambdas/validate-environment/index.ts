@@ -88,6 +88,7 @@ const ctAccountsToAdd: DDBItems = [];
 const orgAccountsToAdd: DDBItems = [];
 let mandatoryAccounts: DDBItems = [];
 let workloadAccounts: DDBItems = [];
+let organizationalUnitLifecycleActions: DDBItems = [];
 let organizationAccounts: AWS.Organizations.Account[] = [];
 let configAllOuKeys: ConfigOrganizationalUnitKeys[] = [];
 let configActiveOuKeys: ConfigOrganizationalUnitKeys[] = [];
@@ -165,6 +166,13 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
         console.debug('Ignored OU List', configIgnoredOuKeys);
 
         await getAwsOrganizationalUnitKeys(await getRootId(), '');
+        // report OUs renamed, moved or deleted by the create organizational units step
+        organizationalUnitLifecycleActions = await getConfigFromTableForCommit(
+          configTableName,
+          'organizationalUnitLifecycle',
+          commitId,
+        );
+        reportOrganizationalUnitLifecycleActions();
         // get accounts from organizations
         organizationAccounts = await getOrganizationAccounts(configActiveOuKeys);
       }
@@ -209,8 +217,14 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
           }
         }
       }
+      const validateDecommissionedAccountsErrors = validateDecommissionedAccounts();
+      validationErrors.push(...validateDecommissionedAccountsErrors);
+
       if (workloadAccounts) {
         for (const workloadAccount of workloadAccounts) {
+          if (isDecommissionedAccount(workloadAccount)) {
+            continue;
+          }
           const awsOuKey = configAllOuKeys.find(ouKeyItem => ouKeyItem.acceleratorKey === workloadAccount['ouName']);
           if (awsOuKey?.ignore === false) {
             const organizationAccount = organizationAccounts.find(
@@ -540,6 +554,10 @@ async function validateControlTower() {
     for (const workloadAccount of workloadAccounts) {
       const accountConfig = JSON.parse(workloadAccount['dataBag']);
       const accountName = accountConfig['name'];
+      if (isDecommissionedAccount(workloadAccount)) {
+        console.log(`Skipping Control Tower enrollment checks for decommissioned account ${accountName}`);
+        continue;
+      }
       const account = organizationAccounts.find(oa => oa.Email == workloadAccount['acceleratorKey']);
 
       if (!account) {
@@ -577,6 +595,27 @@ async function validateControlTower() {
   }
 }
 
+function isDecommissionedAccount(account: DDBItem): boolean {
+  return JSON.parse(account['dataBag'])['decommission'] === true;
+}
+
+function validateDecommissionedAccounts(): string[] {
+  const errors: string[] = [];
+  for (const workloadAccount of workloadAccounts.filter(item => isDecommissionedAccount(item))) {
+    const account = organizationAccounts.find(item => item.Email == workloadAccount['acceleratorKey']);
+    if (!account) {
+      errors.push(
+        `Decommissioned account ${workloadAccount['acceleratorKey']} was not found in the organization. Remove the account from the accounts configuration if it was closed and has left the organization.`,
+      );
+      continue;
+    }
+    console.log(
+      `Decommissioned account ${workloadAccount['acceleratorKey']} with id ${account.Id} is in ${account.Status} status and is moved to OU ${workloadAccount['ouName']}`,
+    );
+  }
+  return errors;
+}
+
 async function getOuName(name: string): Promise<string> {
   const result = name.split('/').pop();
   if (result === undefined) {
@@ -681,6 +720,37 @@ async function validateOrganizationalUnitsExist(
   return errors;
 }
 
+function reportOrganizationalUnitLifecycleActions() {
+  for (const item of organizationalUnitLifecycleActions) {
+    switch (item['lifecycleAction']) {
+      case 'rename':
+        console.log(
+          `Organizational Unit ${item['previousName'] ?? item['previousAwsKey']} with id ${
+            item['awsKey']
+          } was renamed to ${item['acceleratorKey']}`,
+        );
+        break;
+      case 'move':
+        console.log(
+          `Organizational Unit ${item['previousName'] ?? item['previousAwsKey']} with id ${
+            item['previousAwsKey']
+          } was moved to ${item['acceleratorKey']} with id ${item['awsKey']}`,
+        );
+        break;
+      case 'delete':
+        console.log(
+          `Organizational Unit ${item['acceleratorKey']} with id ${item['awsKey']} was removed from the configuration and deleted`,
+        );
+        break;
+      case 'skip':
+        console.warn(
+          `Organizational Unit ${item['acceleratorKey']} with id ${item['awsKey']} was removed from the configuration but not deleted because ${item['skipReason']}. Move or remove its accounts and child OUs, or deregister it from Control Tower, to delete it.`,
+        );
+        break;
+    }
+  }
+}
+
 async function validateOrganizationalUnitsAreRegistered(
   organizationalUnitKeys: ConfigOrganizationalUnitKeys[],
 ): Promise<string[]> {
@@ -689,6 +759,17 @@ async function validateOrganizationalUnitsAreRegistered(
   if (deregisteredOrganizationalUnits.length > 0) {
     for (const item of deregisteredOrganizationalUnits) {
       console.log(`Organizational Unit ${item.acceleratorKey} may not be registered in Control Tower`);
+      const lifecycleAction = organizationalUnitLifecycleActions.find(
+        action => action['awsKey'] === item.awsKey && ['rename', 'move'].includes(action['lifecycleAction']),
+      );
+      if (lifecycleAction) {
+        errors.push(
+          `Organizational Unit ${item.acceleratorKey} was ${
+            lifecycleAction['lifecycleAction'] === 'rename' ? 'renamed' : 'moved'
+          } by the accelerator and must be re-registered in Control Tower. Re-register OU in Control Tower to resolve.`,
+        );
+        continue;
+      }
       errors.push(
         `Organizational Unit ${item.acceleratorKey} may not be registered in Control Tower. Re-register OU in Control Tower to resolve.`,
       );
@@ -24,6 +24,7 @@ import { Bucket, BucketEncryptionType, ServiceLinkedRole } from '@aws-accelerato
 
 import { AcceleratorStage } from './accelerator-stage';
 import * as config_repository from './config-repository';
+import { StackDriftDetection } from './drift-detection';
 import { AcceleratorToolkitCommand } from './toolkit';
 import { Repository } from '@aws-cdk-extensions/cdk-extensions';
 
@@ -38,6 +39,7 @@ export interface AcceleratorPipelineProps {
   readonly sourceRepositoryName: string;
   readonly sourceBranchName: string;
   readonly enableApprovalStage: boolean;
+  readonly enableDriftDetection: boolean;
   readonly qualifier?: string;
   readonly managementAccountId?: string;
   readonly managementAccountRoleName?: string;
@@ -63,6 +65,26 @@ export interface AcceleratorPipelineProps {
    * User defined pre-existing config repository branch name
    */
   readonly configRepositoryBranchName: string;
+  /**
+   * Config repository location, one of codecommit, s3 or codestar
+   */
+  readonly configRepositoryLocation: string;
+  /**
+   * Owner of the config repository hosted behind a CodeStar connection
+   */
+  readonly configRepositoryOwner?: string;
+  /**
+   * CodeStar connection ARN used to access the config repository
+   */
+  readonly configRepositoryConnectionArn?: string;
+  /**
+   * S3 bucket name hosting the zipped config, the bucket must have versioning enabled
+   */
+  readonly configS3BucketName?: string;
+  /**
+   * S3 object key of the zipped config
+   */
+  readonly configS3ObjectKey?: string;
   /**
    * Accelerator resource name prefixes
    */
@@ -125,6 +147,7 @@ export class AcceleratorPipeline extends Construct {
   private readonly buildOutput: codepipeline.Artifact;
   private readonly acceleratorRepoArtifact: codepipeline.Artifact;
   private readonly configRepoArtifact: codepipeline.Artifact;
+  private readonly configCommitIdVariable: string;
 
   private readonly pipeline: codepipeline.Pipeline;
   private readonly props: AcceleratorPipelineProps;
@@ -202,10 +225,13 @@ export class AcceleratorPipeline extends Construct {
     });
 
     // When non default config repository name provided
-    let configRepository: cdk.aws_codecommit.IRepository | Repository;
+    let configRepository: cdk.aws_codecommit.IRepository | Repository | undefined;
     let configRepositoryBranchName = 'main';
 
-    if (props.useExistingConfigRepo) {
+    if (props.configRepositoryLocation !== 'codecommit') {
+      // S3 and CodeStar connection config sources are always managed outside the accelerator
+      configRepositoryBranchName = props.configRepositoryBranchName ?? 'main';
+    } else if (props.useExistingConfigRepo) {
       configRepository = cdk.aws_codecommit.Repository.fromRepositoryName(
         this,
         'ConfigRepository',
@@ -245,6 +271,10 @@ export class AcceleratorPipeline extends Construct {
     this.acceleratorRepoArtifact = new codepipeline.Artifact('Source');
     this.configRepoArtifact = new codepipeline.Artifact('Config');
 
+    // S3 sources have no commit, the object version is used to identify the config instead
+    this.configCommitIdVariable =
+      props.configRepositoryLocation === 's3' ? '#{Config-Vars.VersionId}' : '#{Config-Vars.CommitId}';
+
     let sourceAction:
       | cdk.aws_codepipeline_actions.CodeCommitSourceAction
       | cdk.aws_codepipeline_actions.GitHubSourceAction;
@@ -271,17 +301,7 @@ export class AcceleratorPipeline extends Construct {
 
     this.pipeline.addStage({
       stageName: 'Source',
-      actions: [
-        sourceAction,
-        new codepipeline_actions.CodeCommitSourceAction({
-          actionName: 'Configuration',
-          repository: configRepository,
-          branch: configRepositoryBranchName,
-          output: this.configRepoArtifact,
-          trigger: codepipeline_actions.CodeCommitTrigger.NONE,
-          variablesNamespace: 'Config-Vars',
-        }),
-      ],
+      actions: [sourceAction, this.createConfigSourceAction(configRepository, configRepositoryBranchName)],
     });
 
     /**
@@ -415,6 +435,9 @@ export class AcceleratorPipeline extends Construct {
       timeout: cdk.Duration.hours(8),
       buildSpec: codebuild.BuildSpec.fromObject({
         version: '0.2',
+        env: {
+          'exported-variables': ['DIFF_REPORT_URL'],
+        },
         phases: {
           install: {
             'runtime-versions': {
@@ -427,10 +450,10 @@ export class AcceleratorPipeline extends Construct {
               'cd source',
               `if [ "prepare" = "\${ACCELERATOR_STAGE}" ]; then set -e && yarn run ts-node  packages/@aws-accelerator/accelerator/lib/prerequisites.ts --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --minimal; fi`,
               'cd packages/@aws-accelerator/accelerator',
-              `if [ -z "\${ACCELERATOR_STAGE}" ]; then for STAGE in "key" "logging" "organizations" "security-audit" "network-prep" "security" "operations" "network-vpc" "security-resources" "network-associations" "customizations" "finalize" "bootstrap"; do set -e && yarn run ts-node --transpile-only cdk.ts synth --require-approval never --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --stage $STAGE; done; fi`,
+              `if [ -z "\${ACCELERATOR_STAGE}" ] && [ "drift" != "\${CDK_OPTIONS}" ]; then for STAGE in "key" "logging" "organizations" "security-audit" "network-prep" "security" "operations" "network-vpc" "security-resources" "network-associations" "customizations" "finalize" "bootstrap"; do set -e && yarn run ts-node --transpile-only cdk.ts synth --require-approval never --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --stage $STAGE; done; fi`,
               `if [ ! -z "\${ACCELERATOR_STAGE}" ]; then yarn run ts-node --transpile-only cdk.ts synth --stage $ACCELERATOR_STAGE --require-approval never --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION}; fi`,
               `if [ "diff" != "\${CDK_OPTIONS}" ]; then yarn run ts-node --transpile-only cdk.ts --require-approval never $CDK_OPTIONS --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --app cdk.out; fi`,
-              `if [ "diff" = "\${CDK_OPTIONS}" ]; then for STAGE in "key" "logging" "organizations" "security-audit" "network-prep" "security" "operations" "network-vpc" "security-resources" "network-associations" "customizations" "finalize" "bootstrap"; do set -e && yarn run ts-node --transpile-only cdk.ts --require-approval never $CDK_OPTIONS --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --app cdk.out --stage $STAGE; done; find ./cdk.out -type f -name "*.diff" -exec cat "{}" \\;;  fi`,
+              `if [ "diff" = "\${CDK_OPTIONS}" ]; then for STAGE in "key" "logging" "organizations" "security-audit" "network-prep" "security" "operations" "network-vpc" "security-resources" "network-associations" "customizations" "finalize" "bootstrap"; do set -e && yarn run ts-node --transpile-only cdk.ts --require-approval never $CDK_OPTIONS --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION} --app cdk.out --stage $STAGE; done; find ./cdk.out -type f -name "*.diff" -exec cat "{}" \\;; yarn run ts-node --transpile-only lib/diff-report.ts --dir cdk.out --bucket $DIFF_REPORT_BUCKET --prefix $DIFF_REPORT_PREFIX --partition ${cdk.Aws.PARTITION} --url-file diff-report-url.txt && export DIFF_REPORT_URL=$(cat diff-report-url.txt);  fi`,
               `if [ "prepare" = "\${ACCELERATOR_STAGE}" ]; then cd ../../../ && set -e && yarn run ts-node  packages/@aws-accelerator/accelerator/lib/prerequisites.ts --config-dir $CODEBUILD_SRC_DIR_Config --partition ${cdk.Aws.PARTITION}; fi`,
             ],
           },
@@ -531,6 +554,15 @@ export class AcceleratorPipeline extends Construct {
       actions: [this.createToolkitStage({ actionName: 'Bootstrap', command: `bootstrap` })],
     });
 
+    //
+    // Detect drift of the deployed stacks before any changes are reviewed or deployed
+    if (this.props.enableDriftDetection) {
+      this.pipeline.addStage({
+        stageName: 'DriftDetection',
+        actions: [this.createToolkitStage({ actionName: 'Drift_Detection', command: 'drift' })],
+      });
+    }
+
     //
     // Add review stage based on parameter
     this.addReviewStage();
@@ -688,11 +720,28 @@ export class AcceleratorPipeline extends Construct {
       this.pipeline.addStage({
         stageName: 'Review',
         actions: [
-          this.createToolkitStage({ actionName: 'Diff', command: 'diff', runOrder: 1 }),
+          this.createToolkitStage({
+            actionName: 'Diff',
+            command: 'diff',
+            runOrder: 1,
+            variablesNamespace: 'Diff-Vars',
+            environmentVariables: {
+              DIFF_REPORT_BUCKET: {
+                type: codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+                value: this.pipeline.artifactBucket.bucketName,
+              },
+              DIFF_REPORT_PREFIX: {
+                type: codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+                value: 'diff-reports/#{codepipeline.PipelineExecutionId}',
+              },
+            },
+          }),
           new codepipeline_actions.ManualApprovalAction({
             actionName: 'Approve',
             runOrder: 2,
-            additionalInformation: 'See previous stage (Diff) for changes.',
+            additionalInformation:
+              'See previous stage (Diff) for changes. The change report summarizes the changes of every stack.',
+            externalEntityLink: '#{Diff-Vars.DIFF_REPORT_URL}',
             notificationTopic,
             notifyEmails,
           }),
@@ -701,16 +750,62 @@ export class AcceleratorPipeline extends Construct {
     }
   }
 
+  /**
+   * Create the config source action for the configured config repository location
+   * @param configRepository
+   * @param configRepositoryBranchName
+   * @returns
+   */
+  private createConfigSourceAction(
+    configRepository: cdk.aws_codecommit.IRepository | Repository | undefined,
+    configRepositoryBranchName: string,
+  ): codepipeline.IAction {
+    switch (this.props.configRepositoryLocation) {
+      case 's3':
+        return new codepipeline_actions.S3SourceAction({
+          actionName: 'Configuration',
+          bucket: cdk.aws_s3.Bucket.fromBucketName(this, 'ConfigBucket', this.props.configS3BucketName!),
+          bucketKey: this.props.configS3ObjectKey!,
+          output: this.configRepoArtifact,
+          trigger: codepipeline_actions.S3Trigger.NONE,
+          variablesNamespace: 'Config-Vars',
+        });
+      case 'codestar':
+        return new codepipeline_actions.CodeStarConnectionsSourceAction({
+          actionName: 'Configuration',
+          connectionArn: this.props.configRepositoryConnectionArn!,
+          owner: this.props.configRepositoryOwner!,
+          repo: this.props.configRepositoryName,
+          branch: configRepositoryBranchName,
+          output: this.configRepoArtifact,
+          triggerOnPush: false,
+          variablesNamespace: 'Config-Vars',
+        });
+      default:
+        return new codepipeline_actions.CodeCommitSourceAction({
+          actionName: 'Configuration',
+          repository: configRepository!,
+          branch: configRepositoryBranchName,
+          output: this.configRepoArtifact,
+          trigger: codepipeline_actions.CodeCommitTrigger.NONE,
+          variablesNamespace: 'Config-Vars',
+        });
+    }
+  }
+
   private createToolkitStage(stageProps: {
     actionName: string;
     command: string;
     stage?: string;
     runOrder?: number;
+    variablesNamespace?: string;
+    environmentVariables?: { [name: string]: codebuild.BuildEnvironmentVariable };
   }): codepipeline_actions.CodeBuildAction {
     let cdkOptions;
     if (
       stageProps.command === AcceleratorToolkitCommand.BOOTSTRAP.toString() ||
-      stageProps.command === AcceleratorToolkitCommand.DIFF.toString()
+      stageProps.command === AcceleratorToolkitCommand.DIFF.toString() ||
+      stageProps.command === StackDriftDetection.COMMAND
     ) {
       cdkOptions = stageProps.command;
     } else {
@@ -726,8 +821,9 @@ export class AcceleratorPipeline extends Construct {
       },
       CONFIG_COMMIT_ID: {
         type: codebuild.BuildEnvironmentVariableType.PLAINTEXT,
-        value: '#{Config-Vars.CommitId}',
+        value: this.configCommitIdVariable,
       },
+      ...stageProps.environmentVariables,
     };
 
     if (stageProps.stage) {
@@ -740,6 +836,7 @@ export class AcceleratorPipeline extends Construct {
     return new codepipeline_actions.CodeBuildAction({
       actionName: stageProps.actionName,
       runOrder: stageProps.runOrder,
+      variablesNamespace: stageProps.variablesNamespace,
       project: this.toolkitProject,
       input: this.buildOutput,
       extraInputs: [this.configRepoArtifact],
@@ -125,7 +125,7 @@ export class ScpResource {
           props,
           scp,
           serviceControlPolicy.name,
-          serviceControlPolicy.deploymentTargets.accounts ?? [],
+          props.accountsConfig.getDeploymentTargetAccountNames(serviceControlPolicy.deploymentTargets),
         );
 
         scpItems.push({ name: serviceControlPolicy.name, id: scp.id });
@@ -154,8 +154,9 @@ export class ScpResource {
     });
 
     if (
-      serviceControlPolicy.name == props.organizationConfig.quarantineNewAccounts?.scpPolicyName &&
-      props.partition == 'aws'
+      (serviceControlPolicy.name == props.organizationConfig.quarantineNewAccounts?.scpPolicyName &&
+        props.partition == 'aws') ||
+      this.isBudgetActionScp(props, serviceControlPolicy.name)
     ) {
       this.stack.addSsmParameter({
         logicalId: pascalCase(`SsmParam${scp.name}ScpPolicyId`),
@@ -167,6 +168,20 @@ export class ScpResource {
     return scp;
   }
 
+  /**
+   * Function to check if the SCP is applied by a budget action, the SCP id is then looked up by the operations stack
+   * @param props {@link AccountsStackProps}
+   * @param policyName
+   * @returns
+   */
+  private isBudgetActionScp(props: AcceleratorStackProps, policyName: string): boolean {
+    return (props.globalConfig.reports?.budgets ?? []).some(budget =>
+      (budget.actions ?? []).some(
+        action => action.actionType === 'APPLY_SCP_POLICY' && action.policyName === policyName,
+      ),
+    );
+  }
+
   /**
    * Function to attach scp to Organization units
    * @param props {@link AccountsStackProps}
@@ -228,6 +243,52 @@ export class ScpResource {
     }
   }
 
+  /**
+   * Function to attach the account decommissioning scp to decommissioned accounts
+   * @param scpItems {@link scpItem}
+   * @param props {@link AccountsStackProps}
+   */
+  public attachDecommissionScp(scpItems: scpItem[], props: AcceleratorStackProps) {
+    const decommissioning = props.accountsConfig.accountDecommissioning;
+    const decommissionScpItem = scpItems.find(item => item.name === decommissioning?.scpPolicyName);
+    if (!decommissioning || !decommissionScpItem) {
+      return;
+    }
+    const serviceControlPolicy = props.organizationConfig.serviceControlPolicies.find(
+      item => item.name === decommissionScpItem.name,
+    );
+
+    for (const account of props.accountsConfig.getDecommissionedAccounts()) {
+      // Closed accounts that were removed from the organization no longer need the scp
+      if (!props.accountsConfig.isAccountIdLoaded(account.name)) {
+        continue;
+      }
+      // The scp is already attached when the account is a deployment target of the policy
+      if (
+        serviceControlPolicy &&
+        props.accountsConfig
+          .getDeploymentTargetAccountNames(serviceControlPolicy.deploymentTargets)
+          .includes(account.name)
+      ) {
+        continue;
+      }
+      this.logger.info(
+        `Attaching account decommissioning service control policy (${decommissionScpItem.name}) to account (${account.name})`,
+      );
+
+      new PolicyAttachment(this.stack, pascalCase(`Attach_${decommissionScpItem.name}_${account.name}`), {
+        policyId: decommissionScpItem.id,
+        targetId: props.accountsConfig.getAccountId(account.name),
+        type: PolicyType.SERVICE_CONTROL_POLICY,
+        strategy: serviceControlPolicy?.strategy,
+        configPolicyNames: this.stack.getScpNamesForTarget(account.name, 'account'),
+        acceleratorPrefix: props.prefixes.accelerator,
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+  }
+
   /**
    * Function to configure EventBridge Rule to revert SCP changes made outside of the solution
    * @param props {@link AccountsStackProps}
@@ -356,6 +356,19 @@ export abstract class AcceleratorStack extends cdk.Stack {
     }
   }
 
+  /**
+   * Function to get the organization conformance pack delivery bucket name
+   * @returns
+   *
+   * @remarks
+   * The bucket is created in the log archive account in every region an organization conformance pack is deployed to
+   */
+  protected getConformancePackDeliveryBucketName(): string {
+    return `${
+      this.acceleratorResourceNames.bucketPrefixes.conformancePackDelivery
+    }-${this.props.accountsConfig.getLogArchiveAccountId()}-${cdk.Stack.of(this).region}`;
+  }
+
   /**
    * Function to get Central Log bucket name
    * @returns
@@ -1143,7 +1156,8 @@ export abstract class AcceleratorStack extends cdk.Stack {
     // Explicit Allows
     if (
       this.isAccountIncluded(deploymentTargets.accounts) ||
-      this.isOrganizationalUnitIncluded(deploymentTargets.organizationalUnits)
+      this.isOrganizationalUnitIncluded(deploymentTargets.organizationalUnits) ||
+      this.isAccountSelected(deploymentTargets)
     ) {
       return true;
     }
@@ -1214,6 +1228,10 @@ export abstract class AcceleratorStack extends cdk.Stack {
 
     accountNames.push(...this.getAccountNamesFromDeploymentTargetAccountNames(deploymentTargets.accounts));
 
+    accountNames.push(
+      ...this.props.accountsConfig.getAccountsFromSelectors(deploymentTargets).map(account => account.name),
+    );
+
     return [...new Set(accountNames)];
   }
 
@@ -1289,6 +1307,10 @@ export abstract class AcceleratorStack extends cdk.Stack {
 
     this.appendAccountIdsFromDeploymentTargetAccounts(deploymentTargets, accountIds);
 
+    for (const account of this.props.accountsConfig.getAccountsFromSelectors(deploymentTargets)) {
+      this._addAccountId(accountIds, this.props.accountsConfig.getAccountId(account.name));
+    }
+
     const excludedAccountIds = this.getExcludedAccountIds(deploymentTargets);
     const filteredAccountIds = accountIds.filter(item => !excludedAccountIds.includes(item));
 
@@ -1439,6 +1461,18 @@ export abstract class AcceleratorStack extends cdk.Stack {
     return false;
   }
 
+  /**
+   * Function to check whether the stack account is matched by the attribute selectors
+   * (accountTags, accountNamePattern, nestedOrganizationalUnits) of a deployment target
+   * @param deploymentTargets
+   * @returns
+   */
+  protected isAccountSelected(deploymentTargets: DeploymentTargets): boolean {
+    return this.props.accountsConfig.isAccountSelected(deploymentTargets, cdk.Stack.of(this).account, ou =>
+      this.props.organizationConfig.isIgnored(ou),
+    );
+  }
+
   /**
    * Function to get S3 life cycle rules
    * @param lifecycleRules
@@ -1507,9 +1541,35 @@ export abstract class AcceleratorStack extends cdk.Stack {
           scps.push(serviceControlPolicy.name);
         }
       }
-      if (targetType === 'account' && serviceControlPolicy.deploymentTargets.accounts) {
-        if (serviceControlPolicy.deploymentTargets.accounts.indexOf(targetName) !== -1) {
-          scps.push(serviceControlPolicy.name);
+      if (
+        targetType === 'account' &&
+        this.props.accountsConfig
+          .getDeploymentTargetAccountNames(serviceControlPolicy.deploymentTargets)
+          .includes(targetName)
+      ) {
+        scps.push(serviceControlPolicy.name);
+      }
+    }
+    // Decommissioned accounts also keep the account decommissioning scp
+    const decommissioning = this.props.accountsConfig.accountDecommissioning;
+    if (
+      targetType === 'account' &&
+      decommissioning &&
+      !scps.includes(decommissioning.scpPolicyName) &&
+      this.props.accountsConfig.getDecommissionedAccounts().find(account => account.name === targetName)
+    ) {
+      scps.push(decommissioning.scpPolicyName);
+    }
+    // Budget action targets also keep the scp the budget action attaches
+    for (const budget of this.props.globalConfig.reports?.budgets ?? []) {
+      for (const action of budget.actions ?? []) {
+        const actionTargets = targetType === 'ou' ? action.targets.organizationalUnits : action.targets.accounts;
+        if (
+          action.actionType === 'APPLY_SCP_POLICY' &&
+          !scps.includes(action.policyName) &&
+          actionTargets?.includes(targetName)
+        ) {
+          scps.push(action.policyName);
         }
       }
     }
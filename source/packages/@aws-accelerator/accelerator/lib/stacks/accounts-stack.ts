@@ -13,7 +13,8 @@
 
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
-import { MoveAccountRule } from '@aws-accelerator/constructs';
+import { pascalCase } from 'pascal-case';
+import { AccountTags, CloseAccount, MoveAccountRule } from '@aws-accelerator/constructs';
 import { AcceleratorStack, AcceleratorStackProps, NagSuppressionRuleIds } from './accelerator-stack';
 import { ScpResource } from '../resources/scp-resource';
 import { KmsKeyResource } from '../resources/kms-key-resource';
@@ -82,6 +83,17 @@ export class AccountsStack extends AcceleratorStack {
       //
       scpResource.configureAndAttachQuarantineScp(scpItems, props);
 
+      //
+      // Attach account decommissioning scp and close decommissioned accounts
+      //
+      scpResource.attachDecommissionScp(scpItems, props);
+      this.closeDecommissionedAccounts(props);
+
+      //
+      // Apply account tags
+      //
+      this.createAccountTags(props);
+
       //
       // End of Stack functionality
       //
@@ -101,6 +113,58 @@ export class AccountsStack extends AcceleratorStack {
     this.logger.info('Completed stack synthesis');
   }
 
+  /**
+   * Function to apply the tags defined in accounts-config.yaml to each account
+   * @param props {@link AccountsStackProps}
+   *
+   * @remarks
+   * Tags are only managed when Organizations is enabled. Accounts without tags are skipped.
+   */
+  private createAccountTags(props: AccountsStackProps) {
+    if (!props.organizationConfig.enable) {
+      return;
+    }
+
+    for (const account of [...props.accountsConfig.mandatoryAccounts, ...props.accountsConfig.workloadAccounts]) {
+      if (!account.tags || account.tags.length === 0) {
+        continue;
+      }
+      this.logger.info(`Applying tags to account ${account.name}`);
+      new AccountTags(this, pascalCase(`${account.name}AccountTags`), {
+        accountId: props.accountsConfig.getAccountId(account.name),
+        tags: account.tags,
+        kmsKey: this.keyResource.cloudwatchKey,
+        logRetentionInDays: props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+  }
+
+  /**
+   * Function to close decommissioned accounts
+   * @param props {@link AccountsStackProps}
+   *
+   * @remarks
+   * Accounts are only closed when closeAccount is enabled in the account decommissioning configuration.
+   */
+  private closeDecommissionedAccounts(props: AccountsStackProps) {
+    if (!props.organizationConfig.enable || !props.accountsConfig.accountDecommissioning?.closeAccount) {
+      return;
+    }
+
+    for (const account of props.accountsConfig.getDecommissionedAccounts()) {
+      if (!props.accountsConfig.isAccountIdLoaded(account.name)) {
+        this.logger.warn(`Decommissioned account ${account.name} was removed from the organization`);
+        continue;
+      }
+      this.logger.info(`Closing decommissioned account ${account.name}`);
+      new CloseAccount(this, pascalCase(`${account.name}CloseAccount`), {
+        accountId: props.accountsConfig.getAccountId(account.name),
+        kmsKey: this.keyResource.cloudwatchKey,
+        logRetentionInDays: props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+  }
+
   /**
    * Function to create MoveAccountRule
    * @param props {@link AccountsStackProps}
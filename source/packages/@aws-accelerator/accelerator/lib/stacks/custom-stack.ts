@@ -98,7 +98,13 @@ export function isIncluded(
   // Explicit Allows
   if (
     isAccountIncluded(deploymentTargets.accounts, accountId, accountsConfig, organizationConfig) ||
-    isOrganizationalUnitIncluded(deploymentTargets.organizationalUnits, accountId, accountsConfig, organizationConfig)
+    isOrganizationalUnitIncluded(
+      deploymentTargets.organizationalUnits,
+      accountId,
+      accountsConfig,
+      organizationConfig,
+    ) ||
+    accountsConfig.isAccountSelected(deploymentTargets, accountId, ou => organizationConfig.isIgnored(ou))
   ) {
     return true;
   }
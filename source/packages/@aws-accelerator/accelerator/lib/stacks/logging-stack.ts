@@ -16,9 +16,11 @@ import * as iam from 'aws-cdk-lib/aws-iam';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
 import { pascalCase } from 'pascal-case';
+import * as fs from 'fs';
 import path from 'path';
 
 import {
+  SnsSubscriptionConfig,
   SnsTopicConfig,
   VpcFlowLogsConfig,
   CloudWatchLogsExclusionConfig,
@@ -26,6 +28,7 @@ import {
   ElbLogBucketConfig,
   AccessLogBucketConfig,
   AssetBucketConfig,
+  Region,
 } from '@aws-accelerator/config';
 import * as t from '@aws-accelerator/config/lib/common-types/types';
 import {
@@ -93,6 +96,8 @@ export class LoggingStack extends AcceleratorStack {
   private snsForwarderFunction: cdk.aws_lambda.IFunction | undefined;
   private importedCentralLogBucket: cdk.aws_s3.IBucket | undefined;
   private importedCentralLogBucketKey: cdk.aws_kms.IKey | undefined;
+  private keySetKeys: { [name: string]: cdk.aws_kms.IKey } = {};
+  private snsTopicKeys = new Set<cdk.aws_kms.IKey>();
 
   constructor(scope: Construct, id: string, props: AcceleratorStackProps) {
     super(scope, id, props);
@@ -198,6 +203,11 @@ export class LoggingStack extends AcceleratorStack {
     //
     this.createMetadataBucket(serverAccessLogsBucket);
 
+    //
+    // Create organization conformance pack delivery bucket
+    //
+    this.createConformancePackDeliveryBucket(serverAccessLogsBucket);
+
     //
     // Create SSM Parameters
     //
@@ -667,9 +677,12 @@ export class LoggingStack extends AcceleratorStack {
     ) {
       this.createCentralSnsKey();
 
+      const topics: { name: string; topic: cdk.aws_sns.Topic; key: cdk.aws_kms.IKey }[] = [];
       for (const snsTopic of props.globalConfig.snsTopics?.topics ?? []) {
-        this.createLoggingAccountSnsTopic(snsTopic, this.centralSnsKey!);
+        const key = this.getSnsTopicKey(snsTopic, this.centralSnsKey!, true);
+        topics.push({ name: snsTopic.name, topic: this.createLoggingAccountSnsTopic(snsTopic, key), key });
       }
+      this.grantBackupVaultNotifications(topics);
     }
 
     if (
@@ -678,9 +691,166 @@ export class LoggingStack extends AcceleratorStack {
     ) {
       const snsKey = this.createSnsKey();
       this.createSnsForwarderFunction();
+      const topics: { name: string; topic: cdk.aws_sns.Topic; key: cdk.aws_kms.IKey }[] = [];
       for (const snsTopic of props.globalConfig.snsTopics?.topics ?? []) {
-        this.createSnsTopic(snsTopic, snsKey);
+        const key = this.getSnsTopicKey(snsTopic, snsKey, false);
+        topics.push({ name: snsTopic.name, topic: this.createSnsTopic(snsTopic, key), key });
       }
+      this.grantBackupVaultNotifications(topics);
+      this.grantCostAnomalyNotifications(topics);
+    }
+  }
+
+  /**
+   * Function to get the key of an SNS topic. Topics may use a key from the security-config keySets
+   * instead of the accelerator SNS topic key, in which case the key policy is extended to allow
+   * the same principals as the accelerator SNS topic key.
+   * @param snsTopic {@link SnsTopicConfig}
+   * @param defaultKey cdk.aws_kms.IKey
+   * @param central boolean Whether the topic is the central topic in the Log Archive account
+   * @returns cdk.aws_kms.IKey
+   */
+  private getSnsTopicKey(snsTopic: SnsTopicConfig, defaultKey: cdk.aws_kms.IKey, central: boolean): cdk.aws_kms.IKey {
+    if (!snsTopic.kmsKey) {
+      return defaultKey;
+    }
+    const key = this.keySetKeys[snsTopic.kmsKey];
+    if (!key) {
+      this.logger.error(`KMS key ${snsTopic.kmsKey} for SNS topic ${snsTopic.name} is not deployed to this account`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+    if (this.snsTopicKeys.has(key)) {
+      return key;
+    }
+    this.snsTopicKeys.add(key);
+
+    key.addToResourcePolicy(
+      new cdk.aws_iam.PolicyStatement({
+        sid: 'sns',
+        principals: [new cdk.aws_iam.ServicePrincipal('sns.amazonaws.com')],
+        actions: ['kms:GenerateDataKey', 'kms:Decrypt'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: central
+            ? { ...this.getPrincipalOrgIdCondition(this.organizationId) }
+            : { 'aws:SourceAccount': cdk.Stack.of(this).account },
+        },
+      }),
+    );
+    key.addToResourcePolicy(
+      new cdk.aws_iam.PolicyStatement({
+        sid: 'cloudwatch',
+        principals: [
+          new cdk.aws_iam.ServicePrincipal('cloudwatch.amazonaws.com'),
+          new cdk.aws_iam.ServicePrincipal('events.amazonaws.com'),
+        ],
+        actions: ['kms:GenerateDataKey', 'kms:Decrypt'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: {
+            'aws:SourceAccount': cdk.Stack.of(this).account,
+          },
+        },
+      }),
+    );
+    if (central) {
+      // Allow the SNS topic forwarder functions of all accounts to publish to the central topic
+      key.addToResourcePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'crossaccount',
+          principals: [new cdk.aws_iam.AnyPrincipal()],
+          actions: ['kms:GenerateDataKey', 'kms:Decrypt'],
+          resources: ['*'],
+          conditions: {
+            StringEquals: {
+              ...this.getPrincipalOrgIdCondition(this.organizationId),
+              'kms:ViaService': `sns.${cdk.Stack.of(this).region}.amazonaws.com`,
+            },
+          },
+        }),
+      );
+    }
+
+    return key;
+  }
+
+  /**
+   * Function to allow AWS Backup to publish notifications of the vaults deployed to this account
+   * @param topics SNS topics created in this stack
+   * @param snsKey cdk.aws_kms.IKey
+   */
+  private grantBackupVaultNotifications(
+    topics: { name: string; topic: cdk.aws_sns.Topic; key: cdk.aws_kms.IKey }[],
+  ): void {
+    const notificationTopicNames = (this.props.globalConfig.backup?.vaults ?? [])
+      .filter(vault => vault.notifications && this.isIncluded(vault.deploymentTargets))
+      .map(vault => vault.notifications!.snsTopic);
+    const notificationTopics = topics.filter(item => notificationTopicNames.includes(item.name));
+    if (notificationTopics.length === 0) {
+      return;
+    }
+
+    const backupPrincipal = new cdk.aws_iam.ServicePrincipal('backup.amazonaws.com');
+    for (const key of new Set(notificationTopics.map(item => item.key))) {
+      key.addToResourcePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'backup',
+          principals: [backupPrincipal],
+          actions: ['kms:GenerateDataKey', 'kms:Decrypt'],
+          resources: ['*'],
+          conditions: {
+            StringEquals: {
+              'aws:SourceAccount': cdk.Stack.of(this).account,
+            },
+          },
+        }),
+      );
+    }
+    for (const item of notificationTopics) {
+      item.topic.grantPublish(backupPrincipal);
+    }
+  }
+
+  /**
+   * Function to allow Cost Anomaly Detection to publish to the management account home region SNS topics
+   * referenced by the anomaly subscriptions
+   * @param topics
+   */
+  private grantCostAnomalyNotifications(
+    topics: { name: string; topic: cdk.aws_sns.Topic; key: cdk.aws_kms.IKey }[],
+  ): void {
+    if (
+      cdk.Stack.of(this).account !== this.props.accountsConfig.getManagementAccountId() ||
+      cdk.Stack.of(this).region !== this.props.globalConfig.homeRegion
+    ) {
+      return;
+    }
+    const notificationTopicNames = (this.props.globalConfig.reports?.costAnomalyDetection?.subscriptions ?? [])
+      .filter(subscription => subscription.snsTopic)
+      .map(subscription => subscription.snsTopic!);
+    const notificationTopics = topics.filter(item => notificationTopicNames.includes(item.name));
+    if (notificationTopics.length === 0) {
+      return;
+    }
+
+    const costAlertsPrincipal = new cdk.aws_iam.ServicePrincipal('costalerts.amazonaws.com');
+    for (const key of new Set(notificationTopics.map(item => item.key))) {
+      key.addToResourcePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'costalerts',
+          principals: [costAlertsPrincipal],
+          actions: ['kms:GenerateDataKey', 'kms:Decrypt'],
+          resources: ['*'],
+          conditions: {
+            StringEquals: {
+              'aws:SourceAccount': cdk.Stack.of(this).account,
+            },
+          },
+        }),
+      );
+    }
+    for (const item of notificationTopics) {
+      item.topic.grantPublish(costAlertsPrincipal);
     }
   }
 
@@ -1427,6 +1597,7 @@ export class LoggingStack extends AcceleratorStack {
         enableKeyRotation: keyItem.enableKeyRotation,
         removalPolicy: keyItem.removalPolicy as cdk.RemovalPolicy,
       });
+      this.keySetKeys[keyItem.name] = key;
       // Add dependency on service-linked roles
       // This is required for KMS keys to reference SLRs
       // in their key policies
@@ -1534,6 +1705,21 @@ export class LoggingStack extends AcceleratorStack {
       }
     }
 
+    if (this.props.securityConfig.centralSecurityServices.inspector?.exportConfiguration?.enable) {
+      let inspectorPrefix: string | undefined = 'inspector';
+      if (
+        this.props.securityConfig.centralSecurityServices.inspector.exportConfiguration.overrideInspectorPrefix
+          ?.useCustomPrefix
+      ) {
+        inspectorPrefix =
+          this.props.securityConfig.centralSecurityServices.inspector.exportConfiguration.overrideInspectorPrefix
+            .customOverride ?? undefined;
+      }
+      if (inspectorPrefix) {
+        bucketPrefixes.push(inspectorPrefix);
+      }
+    }
+
     if (this.props.securityConfig.centralSecurityServices.auditManager?.enable) {
       awsPrincipalAccesses.push({
         name: 'AuditManager',
@@ -1551,6 +1737,20 @@ export class LoggingStack extends AcceleratorStack {
       });
     }
 
+    if (
+      (this.props.securityConfig.awsConfig.conformancePacks ?? []).some(
+        conformancePack => conformancePack.deploymentTargets,
+      )
+    ) {
+      this.logger.debug(`Grant AWS Config conformance packs access to Central Logs Bucket.`);
+      awsPrincipalAccesses.push({
+        name: 'ConfigConformancePacks',
+        principal: 'config-conforms.amazonaws.com',
+        accessType: BucketAccessType.NO_ACCESS,
+      });
+      bucketPrefixes.push('config-conformance-packs');
+    }
+
     return { awsPrincipalAccesses: awsPrincipalAccesses, bucketPrefixes: bucketPrefixes };
   }
 
@@ -2088,9 +2288,10 @@ export class LoggingStack extends AcceleratorStack {
       topicName: `${this.props.prefixes.snsTopicName}-${snsTopic.name}`,
       masterKey: snsKey,
     });
-    for (const email of snsTopic.emailAddresses) {
+    for (const email of snsTopic.emailAddresses ?? []) {
       topic.addSubscription(new cdk.aws_sns_subscriptions.EmailSubscription(email));
     }
+    this.createSnsTopicSubscriptions(snsTopic, topic);
 
     topic.grantPublish({
       grantPrincipal: new cdk.aws_iam.ServicePrincipal('cloudwatch.amazonaws.com'),
@@ -2107,6 +2308,97 @@ export class LoggingStack extends AcceleratorStack {
     return topic;
   }
 
+  /**
+   * Function to create the https, sqs, lambda and sms subscriptions of a central SNS topic
+   * @param snsTopic {@link SnsTopicConfig}
+   * @param topic cdk.aws_sns.Topic
+   */
+  private createSnsTopicSubscriptions(snsTopic: SnsTopicConfig, topic: cdk.aws_sns.Topic): void {
+    for (const [index, subscription] of (snsTopic.subscriptions ?? []).entries()) {
+      const subscriptionId = `${pascalCase(snsTopic.name)}SNSTopic${pascalCase(
+        subscription.protocol!,
+      )}Subscription${index}`;
+      const retryPolicy = subscription.deliveryRetryPolicy;
+      new cdk.aws_sns.CfnSubscription(this, subscriptionId, {
+        topicArn: topic.topicArn,
+        protocol: subscription.protocol!,
+        endpoint: subscription.endpoint!,
+        filterPolicy: subscription.filterPolicy
+          ? JSON.parse(fs.readFileSync(path.join(this.props.configDirPath, subscription.filterPolicy), 'utf8'))
+          : undefined,
+        filterPolicyScope: subscription.filterPolicyScope,
+        rawMessageDelivery: subscription.rawMessageDelivery,
+        deliveryPolicy: retryPolicy
+          ? {
+              healthyRetryPolicy: {
+                numRetries: retryPolicy.numRetries,
+                minDelayTarget: retryPolicy.minDelayTarget,
+                maxDelayTarget: retryPolicy.maxDelayTarget,
+                backoffFunction: retryPolicy.backoffFunction,
+              },
+            }
+          : undefined,
+      });
+
+      if (subscription.protocol === 'sqs' || subscription.protocol === 'lambda') {
+        this.grantSnsTopicSubscriptionAccess(subscriptionId, subscription, topic);
+      }
+    }
+  }
+
+  /**
+   * Function to allow a central SNS topic to send messages to the SQS queue, or invoke the Lambda function,
+   * of a subscription. Endpoints in other accounts must allow the topic in their own resource policies.
+   * @param subscriptionId string
+   * @param subscription {@link SnsSubscriptionConfig}
+   * @param topic cdk.aws_sns.Topic
+   */
+  private grantSnsTopicSubscriptionAccess(
+    subscriptionId: string,
+    subscription: SnsSubscriptionConfig,
+    topic: cdk.aws_sns.Topic,
+  ): void {
+    const endpointArn = cdk.Arn.split(subscription.endpoint!, cdk.ArnFormat.COLON_RESOURCE_NAME);
+    if (endpointArn.account !== cdk.Stack.of(this).account) {
+      this.logger.warn(
+        `The ${subscription.protocol} subscription endpoint ${subscription.endpoint} must allow the SNS topic ${topic.topicName} in its resource policy`,
+      );
+      return;
+    }
+
+    if (subscription.protocol === 'lambda') {
+      new cdk.aws_lambda.CfnPermission(this, `${subscriptionId}Permission`, {
+        action: 'lambda:InvokeFunction',
+        functionName: subscription.endpoint!,
+        principal: 'sns.amazonaws.com',
+        sourceArn: topic.topicArn,
+      });
+    } else {
+      new cdk.aws_sqs.CfnQueuePolicy(this, `${subscriptionId}QueuePolicy`, {
+        queues: [
+          `https://sqs.${endpointArn.region}.${cdk.Stack.of(this).urlSuffix}/${endpointArn.account}/${
+            endpointArn.resource
+          }`,
+        ],
+        policyDocument: new iam.PolicyDocument({
+          statements: [
+            new iam.PolicyStatement({
+              sid: 'AllowSnsTopicSendMessage',
+              principals: [new iam.ServicePrincipal('sns.amazonaws.com')],
+              actions: ['sqs:SendMessage'],
+              resources: [subscription.endpoint!],
+              conditions: {
+                ArnEquals: {
+                  'aws:SourceArn': topic.topicArn,
+                },
+              },
+            }),
+          ],
+        }),
+      });
+    }
+  }
+
   private createSnsForwarderFunction() {
     const centralSnsKeyArn = new SsmParameterLookup(this, 'LookupCentralSnsKeyArnParameter', {
       name: this.acceleratorResourceNames.parameters.snsTopicCmkArn,
@@ -2179,6 +2471,27 @@ export class LoggingStack extends AcceleratorStack {
         resources: [centralSnsKeyArn],
       }),
     );
+
+    // Central topics may be encrypted with keys from the security-config keySets
+    if (this.props.globalConfig.snsTopics?.topics.some(snsTopic => snsTopic.kmsKey)) {
+      this.snsForwarderFunction.addToRolePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'kmsKeySets',
+          effect: cdk.aws_iam.Effect.ALLOW,
+          actions: ['kms:Decrypt', 'kms:GenerateDataKey'],
+          resources: [
+            `arn:${cdk.Stack.of(this).partition}:kms:${
+              cdk.Stack.of(this).region
+            }:${this.props.accountsConfig.getLogArchiveAccountId()}:key/*`,
+          ],
+          conditions: {
+            StringEquals: {
+              'kms:ViaService': `sns.${cdk.Stack.of(this).region}.amazonaws.com`,
+            },
+          },
+        }),
+      );
+    }
   }
 
   private createSnsTopic(snsTopic: SnsTopicConfig, snsKey: cdk.aws_kms.IKey): cdk.aws_sns.Topic {
@@ -2829,6 +3142,78 @@ export class LoggingStack extends AcceleratorStack {
    * Function to create Server access logs bucket
    * @param serverAccessLogsBucket {@link cdk.aws_s3.IBucket} | undefined
    */
+  /**
+   * Function to create the delivery bucket of organization conformance packs in the log archive account
+   * @param serverAccessLogsBucket {@link cdk.aws_s3.IBucket}
+   *
+   * @remarks
+   * The conformance pack service-linked role of every organization account stores the conformance pack templates
+   * in the bucket. Organization conformance pack delivery buckets must start with awsconfigconforms,
+   * which is why the central logs bucket cannot be used.
+   */
+  private createConformancePackDeliveryBucket(serverAccessLogsBucket?: cdk.aws_s3.IBucket) {
+    if (
+      cdk.Stack.of(this).account !== this.props.accountsConfig.getLogArchiveAccountId() ||
+      !(this.props.securityConfig.awsConfig.conformancePacks ?? []).some(
+        conformancePack =>
+          conformancePack.organization &&
+          !(conformancePack.organization.excludeRegions ?? []).includes(cdk.Stack.of(this).region as Region),
+      )
+    ) {
+      return;
+    }
+
+    this.logger.debug(`Create AWS Config organization conformance pack delivery bucket.`);
+    const deliveryBucket = new Bucket(this, 'ConformancePackDeliveryBucket', {
+      encryptionType: BucketEncryptionType.SSE_S3,
+      s3BucketName: this.getConformancePackDeliveryBucketName(),
+      serverAccessLogsBucket,
+    });
+
+    const bucket = deliveryBucket.getS3Bucket();
+    const conditions = {
+      StringEquals: {
+        ...this.getPrincipalOrgIdCondition(this.organizationId),
+      },
+      ArnLike: {
+        'aws:PrincipalArn': `arn:${
+          cdk.Stack.of(this).partition
+        }:iam::*:role/aws-service-role/config-conforms.amazonaws.com/AWSServiceRoleForConfigConforms`,
+      },
+    };
+    bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        sid: 'AllowConfigConformsGetPutObject',
+        actions: ['s3:GetObject', 's3:PutObject'],
+        resources: [bucket.arnForObjects('*')],
+        principals: [new cdk.aws_iam.AnyPrincipal()],
+        conditions,
+      }),
+    );
+    bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        sid: 'AllowConfigConformsGetBucketAcl',
+        actions: ['s3:GetBucketAcl'],
+        resources: [bucket.bucketArn],
+        principals: [new cdk.aws_iam.AnyPrincipal()],
+        conditions,
+      }),
+    );
+
+    if (!serverAccessLogsBucket) {
+      // AwsSolutions-S1: The S3 Bucket has server access logs disabled
+      this.nagSuppressionInputs.push({
+        id: NagSuppressionRuleIds.S1,
+        details: [
+          {
+            path: `/${this.stackName}/ConformancePackDeliveryBucket/Resource/Resource`,
+            reason: 'Due to configuration settings, server access logs have been disabled.',
+          },
+        ],
+      });
+    }
+  }
+
   private createMetadataBucket(serverAccessLogsBucket?: cdk.aws_s3.IBucket) {
     if (this.props.globalConfig.acceleratorMetadata?.enable) {
       if (
@@ -212,7 +212,7 @@ export class NaclResources {
     //
     if (nonEmptyString.is(target)) {
       this.stack.addLogs(LogLevel.INFO, `Evaluate IP Target ${target}`);
-      if (target.includes('::')) {
+      if (target.includes(':')) {
         return { ipv6CidrBlock: target };
       } else {
         return { cidrBlock: target };
@@ -242,7 +242,9 @@ export class NaclResources {
         throw new Error(`Configuration validation failed at runtime.`);
       }
 
-      if (subnetConfigItem.ipamAllocation) {
+      if (target.ipv6 || subnetConfigItem.ipv6Only) {
+        return { ipv6CidrBlock: subnetConfigItem.ipv6CidrBlock };
+      } else if (subnetConfigItem.ipamAllocation) {
         const subnetItem = getSubnet(subnetMap, vpcItem.name, subnetConfigItem.name) as Subnet;
         return { cidrBlock: subnetItem.ipv4CidrBlock };
       } else {
@@ -133,7 +133,14 @@ export class RouteEntryResources {
         pascalCase(`${vpcItem.name}Vpc`) +
         pascalCase(`${routeTableItem.name}RouteTable`) +
         pascalCase(routeTableEntryItem.name);
-      const entryTypes = ['transitGateway', 'internetGateway', 'natGateway', 'virtualPrivateGateway', 'localGateway'];
+      const entryTypes = [
+        'transitGateway',
+        'internetGateway',
+        'egressOnlyIgw',
+        'natGateway',
+        'virtualPrivateGateway',
+        'localGateway',
+      ];
 
       // Check if using a prefix list or CIDR as the destination
       if (routeTableEntryItem.type && entryTypes.includes(routeTableEntryItem.type)) {
@@ -196,6 +203,21 @@ export class RouteEntryResources {
             );
             routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, igwRoute);
             break;
+          // Route: Egress-only Internet Gateway
+          case 'egressOnlyIgw':
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Adding Egress-only Internet Gateway Route Table Entry ${routeTableEntryItem.name}`,
+            );
+            const eigwRoute = routeTable.addEgressOnlyInternetGatewayRoute(
+              routeId,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, eigwRoute);
+            break;
           case 'virtualPrivateGateway':
             this.stack.addLogs(
               LogLevel.INFO,
@@ -257,9 +279,13 @@ export class RouteEntryResources {
       destinationPrefixListId = prefixList.prefixListId;
     } else {
       const subnetKey = `${vpcName}_${routeTableEntryItem.destination}`;
-      destination = subnetMap.get(subnetKey)
-        ? getSubnet(subnetMap, vpcName, routeTableEntryItem.destination!).ipv4CidrBlock
-        : routeTableEntryItem.destination;
+      if (subnetMap.get(subnetKey)) {
+        const subnet = getSubnet(subnetMap, vpcName, routeTableEntryItem.destination!) as Subnet;
+        // IPv6-only subnets do not have an IPv4 CIDR block
+        destination = subnet.ipv4CidrBlock || subnet.ipv6CidrBlock;
+      } else {
+        destination = routeTableEntryItem.destination;
+      }
     }
     return [destination, destinationPrefixListId];
   }
@@ -241,6 +241,10 @@ export class SubnetResources {
         basePool,
         ipamAllocation: subnetItem.ipamAllocation,
         ipv4CidrBlock: subnetItem.ipv4CidrBlock,
+        ipv6CidrBlock: subnetItem.ipv6CidrBlock,
+        ipv6Only: subnetItem.ipv6Only,
+        assignIpv6OnCreation: subnetItem.assignIpv6OnCreation,
+        enableDns64: subnetItem.enableDns64,
         kmsKey: this.stack.cloudwatchKey,
         logRetentionInDays: this.stack.logRetention,
         mapPublicIpOnLaunch: subnetItem.mapPublicIpOnLaunch,
@@ -18,6 +18,7 @@ import {
   Ec2FirewallInstanceConfig,
   VpcConfig,
   VpcFlowLogsConfig,
+  VpcIpv6Config,
   VpcTemplatesConfig,
 } from '@aws-accelerator/config';
 import {
@@ -476,6 +477,9 @@ export class VpcResources {
       if (options.vpcItem.internetGateway && !internetGatewayId) {
         vpc.addInternetGateway();
       }
+      if (options.vpcItem.egressOnlyIgw) {
+        vpc.addEgressOnlyInternetGateway();
+      }
       if (options.vpcItem.virtualPrivateGateway && !virtualPrivateGatewayId) {
         vpc.addVirtualPrivateGateway(options.vpcItem.virtualPrivateGateway.asn);
       }
@@ -490,6 +494,7 @@ export class VpcResources {
         name: options.vpcItem.name,
         ipv4CidrBlock: options.cidr,
         internetGateway: options.vpcItem.internetGateway,
+        egressOnlyInternetGateway: options.vpcItem.egressOnlyIgw,
         dhcpOptions: options.dhcpOptionsIds.get(options.vpcItem.dhcpOptions ?? ''),
         enableDnsHostnames: options.vpcItem.enableDnsHostnames ?? true,
         enableDnsSupport: options.vpcItem.enableDnsSupport ?? true,
@@ -557,9 +562,49 @@ export class VpcResources {
         additionalCidrs.push({ ipv4IpamPoolId: poolId, ipv4NetmaskLength: alloc.netmaskLength });
       }
     }
+
+    for (const ipv6Cidr of vpcItem.ipv6Cidrs ?? []) {
+      this.stack.addLogs(LogLevel.INFO, `Adding IPv6 CIDR to VPC ${vpcItem.name}`);
+      vpc.addCidr(this.getIpv6CidrOptions(vpcItem, ipv6Cidr, ipamPoolMap));
+    }
     return additionalCidrs;
   }
 
+  /**
+   * Returns the VPC CIDR block options for a given IPv6 CIDR configuration
+   * @param vpcItem
+   * @param ipv6Cidr
+   * @param ipamPoolMap
+   * @returns
+   */
+  private getIpv6CidrOptions(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    ipv6Cidr: VpcIpv6Config,
+    ipamPoolMap: Map<string, string>,
+  ): {
+    amazonProvidedIpv6CidrBlock?: boolean;
+    ipv6CidrBlock?: string;
+    ipv6IpamPoolId?: string;
+    ipv6NetmaskLength?: number;
+    ipv6Pool?: string;
+  } {
+    if (ipv6Cidr.ipamAllocation) {
+      const poolId = ipamPoolMap.get(ipv6Cidr.ipamAllocation.ipamPoolName);
+      if (!poolId) {
+        this.stack.addLogs(
+          LogLevel.ERROR,
+          `${vpcItem.name}: unable to locate IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName}`,
+        );
+        throw new Error(`Configuration validation failed at runtime.`);
+      }
+      return { ipv6IpamPoolId: poolId, ipv6NetmaskLength: ipv6Cidr.ipamAllocation.netmaskLength };
+    }
+    if (ipv6Cidr.cidrBlock) {
+      return { ipv6CidrBlock: ipv6Cidr.cidrBlock, ipv6Pool: ipv6Cidr.byoipPoolId };
+    }
+    return { amazonProvidedIpv6CidrBlock: true };
+  }
+
   /**
    * Add central endpoint tags to the given VPC if useCentralEndpoints is enabled
    * @param vpc
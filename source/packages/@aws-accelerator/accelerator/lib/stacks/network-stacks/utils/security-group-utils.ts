@@ -204,6 +204,9 @@ export function containsAllIngressRule(ingressRules: SecurityGroupIngressRulePro
     if (ingressRule.cidrIp && ingressRule.cidrIp === '0.0.0.0/0') {
       allIngressRule = true;
     }
+    if (ingressRule.cidrIpv6 && ingressRule.cidrIpv6 === '::/0') {
+      allIngressRule = true;
+    }
   }
   return allIngressRule;
 }
@@ -734,7 +737,7 @@ function processIpSource(
   props: { ipProtocol: string; fromPort?: number; toPort?: number; description?: string },
 ): SecurityGroupRuleProps {
   logger.info(`Evaluate IP Source ${source}`);
-  if (source.includes('::')) {
+  if (source.includes(':')) {
     return {
       cidrIpv6: source,
       ...props,
@@ -770,7 +773,12 @@ function processSubnetSource(
     // Locate the Subnet
     const subnetConfigItem = getSubnetConfig(vpcItem, subnet);
 
-    if (subnetConfigItem.ipamAllocation) {
+    if (source.ipv6 || subnetConfigItem.ipv6Only) {
+      subnetRules.push({
+        cidrIpv6: subnetConfigItem.ipv6CidrBlock,
+        ...props,
+      });
+    } else if (subnetConfigItem.ipamAllocation) {
       const subnetItem = getSubnet(subnetMap, vpcItem.name, subnetConfigItem.name);
       subnetRules.push({
         cidrIp: subnetItem.ipv4CidrBlock,
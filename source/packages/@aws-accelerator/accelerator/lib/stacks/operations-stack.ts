@@ -17,6 +17,8 @@ import * as path from 'path';
 
 import {
   AseaResourceType,
+  BudgetActionConfig,
+  BudgetReportConfig,
   Ec2FirewallAutoScalingGroupConfig,
   Ec2FirewallConfig,
   Ec2FirewallInstanceConfig,
@@ -34,10 +36,12 @@ import { SsmResourceType } from '@aws-accelerator/utils';
 import {
   Bucket,
   BucketEncryptionType,
+  BudgetActionDefinition,
   BudgetDefinition,
   Inventory,
   KeyLookup,
   LimitsDefinition,
+  SsmParameterLookup,
   SsmSessionManagerPolicy,
   UsersGroupsMetadata,
   WarmAccount,
@@ -76,6 +80,11 @@ export class OperationsStack extends AcceleratorStack {
    */
   private roles: { [name: string]: cdk.aws_iam.IRole } = {};
 
+  /**
+   * List of all the defined AWS Backup Vaults
+   */
+  private backupVaults: { [name: string]: cdk.aws_backup.IBackupVault } = {};
+
   /**
    * List of all the defined IAM Groups
    */
@@ -173,6 +182,11 @@ export class OperationsStack extends AcceleratorStack {
     //
     this.addBackupVaults();
 
+    //
+    // Backup Plans
+    //
+    this.addBackupPlans();
+
     if (
       this.props.globalConfig.ssmInventory?.enable &&
       this.isIncluded(this.props.globalConfig.ssmInventory.deploymentTargets)
@@ -758,10 +772,10 @@ export class OperationsStack extends AcceleratorStack {
       for (const budget of this.props.globalConfig.reports.budgets ?? []) {
         if (this.isIncluded(budget.deploymentTargets ?? [])) {
           this.logger.info(`Add budget ${budget.name}`);
-          new BudgetDefinition(this, `${budget.name}BudgetDefinition`, {
+          const budgetDefinition = new BudgetDefinition(this, `${budget.name}BudgetDefinition`, {
             kmsKey: this.cloudwatchKey,
             logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
-            amount: budget.amount,
+            amount: this.getBudgetAmount(budget),
             includeCredit: budget.includeCredit,
             includeDiscount: budget.includeDiscount,
             includeOtherSubscription: budget.includeOtherSubscription,
@@ -778,12 +792,128 @@ export class OperationsStack extends AcceleratorStack {
             useAmortized: budget.useAmortized,
             useBlended: budget.useBlended,
             unit: budget.unit,
+            linkedAccountIds: this.getBudgetLinkedAccountIds(budget),
+            actions: budget.actions?.map(action => this.getBudgetActionDefinition(budget, action)),
           });
+
+          // IAM budget actions reference the roles, groups and users by name
+          for (const action of budget.actions ?? []) {
+            const targets = [
+              ...(action.targets.roles ?? []).map(name => this.roles[name]),
+              ...(action.targets.groups ?? []).map(name => this.groups[name]),
+              ...(action.targets.users ?? []).map(name => this.users[name]),
+            ];
+            targets.filter(target => target).forEach(target => budgetDefinition.node.addDependency(target));
+          }
         }
       }
+
+      if (this.props.globalConfig.reports.budgets.some(budget => budget.actions?.length)) {
+        // AwsSolutions-IAM5: The IAM entity contains wildcard permissions and does not have a cdk_nag rule suppression with evidence for those permission.
+        this.nagSuppressionInputs.push({
+          id: NagSuppressionRuleIds.IAM5,
+          details: this.props.globalConfig.reports.budgets
+            .filter(budget => budget.actions?.length && this.isIncluded(budget.deploymentTargets ?? []))
+            .map(budget => ({
+              path: `${this.stackName}/${budget.name}BudgetDefinition/ActionExecutionRole/DefaultPolicy/Resource`,
+              reason: 'AWS Budgets attaches the policy of the budget actions to targets that are resolved at runtime',
+            })),
+        });
+      }
     }
   }
 
+  /**
+   * Returns the budget amount, which may be provided as a string through replacements
+   * @param budget
+   * @returns
+   */
+  private getBudgetAmount(budget: BudgetReportConfig): number {
+    const amount = Number(budget.amount);
+    if (typeof budget.amount === 'string' && (budget.amount.trim() === '' || isNaN(amount))) {
+      this.logger.error(`Budget ${budget.name} amount ${budget.amount} is not a number.`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+    return amount;
+  }
+
+  /**
+   * Returns the ids of the accounts tracked by the budget
+   * @param budget
+   * @returns
+   */
+  private getBudgetLinkedAccountIds(budget: BudgetReportConfig): string[] | undefined {
+    if (!budget.linkedAccounts) {
+      return undefined;
+    }
+
+    const accountIds = this.getAccountIdsFromDeploymentTarget(budget.linkedAccounts);
+    if (accountIds.length === 0) {
+      // An empty linked account filter tracks the costs of the whole organization
+      this.logger.error(`Budget ${budget.name} linked accounts do not resolve to any account.`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+    return accountIds;
+  }
+
+  /**
+   * Returns the budget action definition of a budget action configuration
+   * @param budget
+   * @param action
+   * @returns
+   */
+  private getBudgetActionDefinition(budget: BudgetReportConfig, action: BudgetActionConfig): BudgetActionDefinition {
+    const definition = {
+      actionType: action.actionType,
+      notificationType: action.notificationType,
+      thresholdType: action.thresholdType,
+      threshold: action.threshold,
+      approvalModel: action.approvalModel,
+      subscriptionType: action.subscriptionType,
+      recipients: action.recipients,
+    };
+
+    if (action.actionType === 'APPLY_SCP_POLICY') {
+      // SCPs are created in the global region of the management account
+      const parameterName = this.getSsmPath(SsmResourceType.SCP, [action.policyName]);
+      const policyId =
+        cdk.Stack.of(this).region === this.props.globalRegion
+          ? cdk.aws_ssm.StringParameter.valueForStringParameter(this, parameterName)
+          : new SsmParameterLookup(this, pascalCase(`SsmParamLookup${budget.name}${action.policyName}ScpPolicyId`), {
+              name: parameterName,
+              accountId: cdk.Stack.of(this).account,
+              parameterRegion: this.props.globalRegion,
+              kmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+              acceleratorPrefix: this.props.prefixes.accelerator,
+            }).value;
+
+      return {
+        ...definition,
+        policyId,
+        targetIds: [
+          ...(action.targets.accounts ?? []).map(account => this.props.accountsConfig.getAccountId(account)),
+          ...(action.targets.organizationalUnits ?? []).map(ou =>
+            this.props.organizationConfig.getOrganizationalUnitId(ou),
+          ),
+        ],
+      };
+    }
+
+    if (!this.policies[action.policyName]) {
+      this.logger.error(`Policy ${action.policyName} of budget ${budget.name} action is not deployed to this account.`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+
+    return {
+      ...definition,
+      policyArn: this.policies[action.policyName].managedPolicyArn,
+      roles: action.targets.roles,
+      groups: action.targets.groups,
+      users: action.targets.users,
+    };
+  }
+
   /**
    * Adds Backup Vaults as defined in the global-config.yaml. These Vaults can
    * be referenced in AWS Organizations Backup Policies
@@ -802,34 +932,216 @@ export class OperationsStack extends AcceleratorStack {
           });
         }
 
-        const vaultPolicy = this.getBackupVaultAccessPolicy(vault);
-        new cdk.aws_backup.BackupVault(this, `BackupVault_${vault.name}`, {
+        const copySourceAccountIds = this.getBackupVaultCopySourceAccountIds(vault);
+        if (copySourceAccountIds.length > 0) {
+          // Recovery points copied from other accounts are re-encrypted with the key of this vault
+          backupKey.addToResourcePolicy(
+            new cdk.aws_iam.PolicyStatement({
+              sid: pascalCase(`${vault.name}CrossAccountCopy`),
+              principals: copySourceAccountIds.map(accountId => new cdk.aws_iam.AccountPrincipal(accountId)),
+              actions: [
+                'kms:CreateGrant',
+                'kms:Decrypt',
+                'kms:DescribeKey',
+                'kms:Encrypt',
+                'kms:GenerateDataKey*',
+                'kms:ReEncrypt*',
+              ],
+              resources: ['*'],
+            }),
+          );
+        }
+
+        const vaultPolicy = this.getBackupVaultAccessPolicy(vault, copySourceAccountIds);
+        this.backupVaults[vault.name] = new cdk.aws_backup.BackupVault(this, `BackupVault_${vault.name}`, {
           accessPolicy: vaultPolicy,
           backupVaultName: vault.name,
           encryptionKey: backupKey,
+          lockConfiguration: this.getBackupVaultLockConfiguration(vault),
+          notificationTopic: vault.notifications
+            ? cdk.aws_sns.Topic.fromTopicArn(
+                this,
+                pascalCase(`BackupVault_${vault.name}_NotificationTopic`),
+                cdk.Stack.of(this).formatArn({
+                  service: 'sns',
+                  resource: `${this.props.prefixes.snsTopicName}-${vault.notifications.snsTopic}`,
+                  arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
+                }),
+              )
+            : undefined,
+          notificationEvents: vault.notifications?.events?.map(event => event as cdk.aws_backup.BackupVaultEvents),
+        });
+      }
+    }
+  }
+
+  private getBackupVaultLockConfiguration(vault: VaultConfig): cdk.aws_backup.LockConfiguration | undefined {
+    if (!vault.lock) {
+      return undefined;
+    }
+
+    return {
+      minRetention: cdk.Duration.days(vault.lock.minRetentionDays),
+      maxRetention: vault.lock.maxRetentionDays ? cdk.Duration.days(vault.lock.maxRetentionDays) : undefined,
+      // Vault Lock is only immutable in compliance mode, which requires a cooling-off period
+      changeableFor:
+        vault.lock.mode === 'compliance' && vault.lock.changeableForDays
+          ? cdk.Duration.days(vault.lock.changeableForDays)
+          : undefined,
+    };
+  }
+
+  /**
+   * Adds Backup Plans as defined in the global-config.yaml. Plans store recovery points
+   * in a vault created by this stack and may copy them to vaults in other accounts and regions.
+   */
+  private addBackupPlans() {
+    for (const plan of this.props.globalConfig.backup?.plans ?? []) {
+      if (!this.isIncluded(plan.deploymentTargets)) {
+        continue;
+      }
+      this.logger.info(`Adding Backup plan ${plan.name}`);
+
+      const backupVault =
+        this.backupVaults[plan.vault] ??
+        cdk.aws_backup.BackupVault.fromBackupVaultName(this, pascalCase(`BackupPlan_${plan.name}_Vault`), plan.vault);
+
+      const backupPlan = new cdk.aws_backup.BackupPlan(this, pascalCase(`BackupPlan_${plan.name}`), {
+        backupPlanName: plan.name,
+        backupVault,
+      });
+
+      for (const rule of plan.rules) {
+        backupPlan.addRule(
+          new cdk.aws_backup.BackupPlanRule({
+            ruleName: rule.name,
+            scheduleExpression: rule.scheduleExpression
+              ? cdk.aws_events.Schedule.expression(rule.scheduleExpression)
+              : undefined,
+            startWindow: rule.startWindowMinutes ? cdk.Duration.minutes(rule.startWindowMinutes) : undefined,
+            completionWindow: rule.completionWindowMinutes
+              ? cdk.Duration.minutes(rule.completionWindowMinutes)
+              : undefined,
+            enableContinuousBackup: rule.enableContinuousBackup,
+            moveToColdStorageAfter: rule.lifecycle?.moveToColdStorageAfterDays
+              ? cdk.Duration.days(rule.lifecycle.moveToColdStorageAfterDays)
+              : undefined,
+            deleteAfter: rule.lifecycle?.deleteAfterDays
+              ? cdk.Duration.days(rule.lifecycle.deleteAfterDays)
+              : undefined,
+            copyActions: (rule.copyActions ?? []).map((copyAction, index) => ({
+              destinationBackupVault: cdk.aws_backup.BackupVault.fromBackupVaultArn(
+                this,
+                pascalCase(`BackupPlan_${plan.name}_${rule.name}_CopyAction${index}`),
+                cdk.Stack.of(this).formatArn({
+                  service: 'backup',
+                  account: copyAction.account
+                    ? this.props.accountsConfig.getAccountId(copyAction.account)
+                    : cdk.Stack.of(this).account,
+                  region: copyAction.region ?? cdk.Stack.of(this).region,
+                  resource: 'backup-vault',
+                  resourceName: copyAction.vault,
+                  arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+                }),
+              ),
+              moveToColdStorageAfter: copyAction.lifecycle?.moveToColdStorageAfterDays
+                ? cdk.Duration.days(copyAction.lifecycle.moveToColdStorageAfterDays)
+                : undefined,
+              deleteAfter: copyAction.lifecycle?.deleteAfterDays
+                ? cdk.Duration.days(copyAction.lifecycle.deleteAfterDays)
+                : undefined,
+            })),
+          }),
+        );
+      }
+
+      for (const selection of plan.selections) {
+        const selectionId = pascalCase(`${selection.name}Selection`);
+        backupPlan.addSelection(selectionId, {
+          backupSelectionName: selection.name,
+          resources: [
+            ...(selection.tags ?? []).map(tag => cdk.aws_backup.BackupResource.fromTag(tag.key, tag.value)),
+            ...(selection.resources ?? []).map(resource => cdk.aws_backup.BackupResource.fromArn(resource)),
+          ],
+        });
+
+        // AwsSolutions-IAM4: The IAM user, role, or group uses AWS managed policies
+        // rule suppression with evidence for this permission.
+        this.nagSuppressionInputs.push({
+          id: NagSuppressionRuleIds.IAM4,
+          details: [
+            {
+              path: `${this.stackName}/${backupPlan.node.id}/${selectionId}/Role/Resource`,
+              reason: 'AWS Backup selection role uses the AWS managed backup service role policy',
+            },
+          ],
         });
       }
     }
   }
 
-  private getBackupVaultAccessPolicy(vault: VaultConfig) {
+  private getBackupVaultAccessPolicy(vault: VaultConfig, copySourceAccountIds: string[]) {
+    // Create a statements list using the PolicyStatement factory
+    const statements: cdk.aws_iam.PolicyStatement[] = [];
     if (vault.policy) {
       const policyDocument = JSON.parse(
         this.generatePolicyReplacements(path.join(this.props.configDirPath, vault.policy), false, this.organizationId),
       );
 
-      // Create a statements list using the PolicyStatement factory
-      const statements: cdk.aws_iam.PolicyStatement[] = [];
       for (const statement of policyDocument.Statement) {
         statements.push(cdk.aws_iam.PolicyStatement.fromJson(statement));
       }
+    }
 
-      return new cdk.aws_iam.PolicyDocument({
-        statements: statements,
-      });
-    } else {
+    if (copySourceAccountIds.length > 0) {
+      statements.push(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'AllowCrossAccountCopy',
+          principals: copySourceAccountIds.map(accountId => new cdk.aws_iam.AccountPrincipal(accountId)),
+          actions: ['backup:CopyIntoBackupVault'],
+          resources: ['*'],
+        }),
+      );
+    }
+
+    if (statements.length === 0) {
       return undefined;
     }
+
+    return new cdk.aws_iam.PolicyDocument({
+      statements: statements,
+    });
+  }
+
+  /**
+   * Returns the ids of the accounts whose backup plans copy recovery points into the vault in this account and region
+   * @param vault
+   * @returns
+   */
+  private getBackupVaultCopySourceAccountIds(vault: VaultConfig): string[] {
+    const accountId = cdk.Stack.of(this).account;
+    const region = cdk.Stack.of(this).region;
+    const sourceAccountIds = new Set<string>();
+
+    for (const plan of this.props.globalConfig.backup?.plans ?? []) {
+      const planRegions = this.getRegionsFromDeploymentTarget(plan.deploymentTargets);
+      const copyActions = plan.rules.flatMap(rule => rule.copyActions ?? []);
+      const isCopyDestination = copyActions.some(
+        copyAction =>
+          copyAction.vault === vault.name &&
+          copyAction.account !== undefined &&
+          this.props.accountsConfig.getAccountId(copyAction.account) === accountId &&
+          (copyAction.region ?? region) === region &&
+          (copyAction.region !== undefined || planRegions.includes(region)),
+      );
+      if (isCopyDestination) {
+        this.getAccountIdsFromDeploymentTarget(plan.deploymentTargets)
+          .filter(item => item !== accountId)
+          .forEach(item => sourceAccountIds.add(item));
+      }
+    }
+
+    return [...sourceAccountIds];
   }
 
   private enableInventory() {
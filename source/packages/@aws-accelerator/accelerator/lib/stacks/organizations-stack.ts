@@ -16,18 +16,28 @@ import { Construct } from 'constructs';
 import { pascalCase } from 'pascal-case';
 import * as path from 'path';
 
-import { IdentityCenterAssignmentConfig, IdentityCenterPermissionSetConfig, Region } from '@aws-accelerator/config';
+import {
+  CostCategoryRuleConfig,
+  DeploymentTargets,
+  IdentityCenterAssignmentConfig,
+  IdentityCenterPermissionSetConfig,
+  Region,
+} from '@aws-accelerator/config';
 import {
   AuditManagerOrganizationAdminAccount,
   Bucket,
   BucketEncryptionType,
   BucketReplicationProps,
+  CostAllocationTags,
+  CostAnomalyDetection,
   DetectiveOrganizationAdminAccount,
   EnableAwsServiceAccess,
+  EnableCrossAccountBackup,
   EnablePolicyType,
   EnableSharingWithAwsOrganization,
   FMSOrganizationAdminAccount,
   GuardDutyOrganizationAdminAccount,
+  InspectorOrganizationAdminAccount,
   IpamOrganizationAdminAccount,
   MacieOrganizationAdminAccount,
   Policy,
@@ -37,6 +47,7 @@ import {
   RegisterDelegatedAdministrator,
   ReportDefinition,
   SecurityHubOrganizationAdminAccount,
+  SecurityLakeOrganizationAdminAccount,
   IdentityCenterInstance,
   IdentityCenterOrganizationAdminAccount,
   PutSsmParameter,
@@ -120,11 +131,32 @@ export class OrganizationsStack extends AcceleratorStack {
       //
       this.addBackupPolicies();
 
+      //
+      // Enable AWS Backup cross-account backup
+      //
+      this.enableCrossAccountBackup();
+
+      //
+      // Enable AI services opt-out, resource control, chatbot and declarative policies
+      //
+      this.addOrganizationPolicies();
+
       //
       // Enable Cost and Usage Reports
       //
       this.addCostAndUsageReport();
 
+      //
+      // Enable Cost Anomaly Detection
+      //
+      this.addCostAnomalyDetection();
+
+      //
+      // Add cost categories and activate cost allocation tags
+      //
+      this.addCostCategories();
+      this.addCostAllocationTags();
+
       //
       // IAM Access Analyzer (Does not have a native service enabler)
       //
@@ -156,6 +188,9 @@ export class OrganizationsStack extends AcceleratorStack {
       //Enable Config Recorder Delegated Admin
       this.enableConfigRecorderDelegatedAdminAccount();
 
+      //Enable Config organization conformance packs
+      this.enableConfigMultiAccountSetup();
+
       // Enable Control Tower controls
       this.enableControlTowerControls();
     }
@@ -172,9 +207,15 @@ export class OrganizationsStack extends AcceleratorStack {
     //Detective Config
     this.enableDetectiveDelegatedAdminAccount(securityAdminAccountId);
 
+    //Inspector Config
+    this.enableInspectorDelegatedAdminAccount(securityAdminAccountId);
+
     //SecurityHub Config
     this.enableSecurityHubDelegatedAdminAccount(securityAdminAccountId);
 
+    //Security Lake Config
+    this.enableSecurityLakeDelegatedAdminAccount();
+
     //
     // Tagging Policies Config
     //
@@ -261,7 +302,35 @@ export class OrganizationsStack extends AcceleratorStack {
               policyId: policy.id,
               targetId: this.stackProperties.organizationConfig.getOrganizationalUnitId(orgUnit),
               type: PolicyType.BACKUP_POLICY,
-              configPolicyNames: this.getScpNamesForTarget(orgUnit, 'ou'),
+              configPolicyNames: this.getPolicyNamesForTarget(
+                this.stackProperties.organizationConfig.backupPolicies,
+                orgUnit,
+                'ou',
+              ),
+              acceleratorPrefix: this.props.prefixes.accelerator,
+              kmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.logRetention,
+            },
+          );
+
+          backupPolicyAttachment.node.addDependency(policy);
+        }
+
+        for (const account of this.stackProperties.accountsConfig.getDeploymentTargetAccountNames(
+          backupPolicies.deploymentTargets,
+        )) {
+          const backupPolicyAttachment = new PolicyAttachment(
+            this,
+            pascalCase(`Attach_${backupPolicies.name}_${account}`),
+            {
+              policyId: policy.id,
+              targetId: this.stackProperties.accountsConfig.getAccountId(account),
+              type: PolicyType.BACKUP_POLICY,
+              configPolicyNames: this.getPolicyNamesForTarget(
+                this.stackProperties.organizationConfig.backupPolicies,
+                account,
+                'account',
+              ),
               acceleratorPrefix: this.props.prefixes.accelerator,
               kmsKey: this.cloudwatchKey,
               logRetentionInDays: this.logRetention,
@@ -274,6 +343,147 @@ export class OrganizationsStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to enable AWS Backup cross-account backup when a backup plan copies recovery points to another account
+   */
+  private enableCrossAccountBackup() {
+    const hasCrossAccountCopyActions = (this.stackProperties.globalConfig.backup?.plans ?? []).some(plan =>
+      plan.rules.some(rule => (rule.copyActions ?? []).some(copyAction => copyAction.account !== undefined)),
+    );
+    if (!hasCrossAccountCopyActions) {
+      return;
+    }
+    this.logger.info(`Enabling AWS Backup cross-account backup`);
+
+    const enableBackupServiceAccess = new EnableAwsServiceAccess(this, 'EnableOrganizationsBackup', {
+      servicePrincipal: 'backup.amazonaws.com',
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.logRetention,
+    });
+
+    const enableCrossAccountBackup = new EnableCrossAccountBackup(this, 'EnableCrossAccountBackup', {
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.logRetention,
+    });
+    enableCrossAccountBackup.node.addDependency(enableBackupServiceAccess);
+  }
+
+  /**
+   * Function to add AI services opt-out, resource control, chatbot and declarative policies.
+   * Policies removed from the configuration are detached and deleted by their custom resources.
+   */
+  private addOrganizationPolicies() {
+    const organizationPolicies = [
+      {
+        policies: this.stackProperties.organizationConfig.aiServicesOptOutPolicies ?? [],
+        policyType: PolicyType.AISERVICES_OPT_OUT_POLICY,
+        enablePolicyType: PolicyTypeEnum.AISERVICES_OPT_OUT_POLICY,
+        enablePolicyTypeId: 'enablePolicyTypeAiServicesOptOut',
+      },
+      {
+        policies: this.stackProperties.organizationConfig.resourceControlPolicies ?? [],
+        policyType: PolicyType.RESOURCE_CONTROL_POLICY,
+        enablePolicyType: PolicyTypeEnum.RESOURCE_CONTROL_POLICY,
+        enablePolicyTypeId: 'enablePolicyTypeResourceControl',
+      },
+      {
+        policies: this.stackProperties.organizationConfig.chatbotPolicies ?? [],
+        policyType: PolicyType.CHATBOT_POLICY,
+        enablePolicyType: PolicyTypeEnum.CHATBOT_POLICY,
+        enablePolicyTypeId: 'enablePolicyTypeChatbot',
+      },
+      {
+        policies: this.stackProperties.organizationConfig.declarativePolicies ?? [],
+        policyType: PolicyType.DECLARATIVE_POLICY_EC2,
+        enablePolicyType: PolicyTypeEnum.DECLARATIVE_POLICY_EC2,
+        enablePolicyTypeId: 'enablePolicyTypeDeclarative',
+      },
+    ];
+
+    for (const organizationPolicy of organizationPolicies.filter(item => item.policies.length > 0)) {
+      this.logger.info(`Adding ${organizationPolicy.policyType} policies`);
+
+      const enablePolicyType = new EnablePolicyType(this, organizationPolicy.enablePolicyTypeId, {
+        policyType: organizationPolicy.enablePolicyType,
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.logRetention,
+      });
+
+      for (const policyItem of organizationPolicy.policies) {
+        const policy = new Policy(this, pascalCase(`${organizationPolicy.policyType}_${policyItem.name}`), {
+          description: policyItem.description,
+          name: policyItem.name,
+          partition: this.props.partition,
+          path: this.generatePolicyReplacements(
+            path.join(this.stackProperties.configDirPath, policyItem.policy),
+            true,
+            this.organizationId,
+          ),
+          type: organizationPolicy.policyType,
+          acceleratorPrefix: this.props.prefixes.accelerator,
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.logRetention,
+        });
+        policy.node.addDependency(enablePolicyType);
+
+        const targets = [
+          ...(policyItem.deploymentTargets.organizationalUnits ?? []).map(orgUnit => ({
+            name: orgUnit,
+            id: this.stackProperties.organizationConfig.getOrganizationalUnitId(orgUnit),
+            type: 'ou' as const,
+          })),
+          ...this.stackProperties.accountsConfig
+            .getDeploymentTargetAccountNames(policyItem.deploymentTargets)
+            .map(account => ({
+              name: account,
+              id: this.stackProperties.accountsConfig.getAccountId(account),
+              type: 'account' as const,
+            })),
+        ];
+        for (const target of targets) {
+          const policyAttachment = new PolicyAttachment(
+            this,
+            pascalCase(`Attach_${organizationPolicy.policyType}_${policyItem.name}_${target.name}`),
+            {
+              policyId: policy.id,
+              targetId: target.id,
+              type: organizationPolicy.policyType,
+              configPolicyNames: this.getPolicyNamesForTarget(organizationPolicy.policies, target.name, target.type),
+              acceleratorPrefix: this.props.prefixes.accelerator,
+              kmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.logRetention,
+            },
+          );
+          policyAttachment.node.addDependency(policy);
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to get the names of the given policies that target the organization unit or account.
+   * Attachments detach the accelerator managed policies of their policy type that are not in this list.
+   * @param policies
+   * @param targetName
+   * @param targetType
+   * @returns
+   */
+  private getPolicyNamesForTarget(
+    policies: { name: string; deploymentTargets: DeploymentTargets }[],
+    targetName: string,
+    targetType: 'ou' | 'account',
+  ): string[] {
+    return policies
+      .filter(policy =>
+        targetType === 'ou'
+          ? (policy.deploymentTargets.organizationalUnits ?? []).includes(targetName)
+          : this.stackProperties.accountsConfig
+              .getDeploymentTargetAccountNames(policy.deploymentTargets)
+              .includes(targetName),
+      )
+      .map(policy => policy.name);
+  }
+
   /**
    * Function to add Cost and Usage Report
    */
@@ -343,6 +553,137 @@ export class OrganizationsStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to add Cost Anomaly Detection monitors and subscriptions
+   */
+  private addCostAnomalyDetection() {
+    const costAnomalyDetection = this.stackProperties.globalConfig.reports?.costAnomalyDetection;
+    if (!costAnomalyDetection || this.props.partition == 'aws-us-gov') {
+      return;
+    }
+    this.logger.info('Adding Cost Anomaly Detection');
+
+    new CostAnomalyDetection(this, 'CostAnomalyDetection', {
+      monitors: costAnomalyDetection.monitors.map(monitor => ({
+        name: monitor.name,
+        type: monitor.type,
+        linkedAccountIds: monitor.accounts?.map(account => this.stackProperties.accountsConfig.getAccountId(account)),
+        key: monitor.key,
+        values: monitor.values,
+      })),
+      subscriptions: costAnomalyDetection.subscriptions?.map(subscription => ({
+        name: subscription.name,
+        frequency: subscription.frequency,
+        monitorNames: subscription.monitors,
+        totalImpactAbsolute: subscription.thresholdExpression.totalImpactAbsolute,
+        totalImpactPercentage: subscription.thresholdExpression.totalImpactPercentage,
+        operator: subscription.thresholdExpression.operator,
+        snsTopicArn: subscription.snsTopic
+          ? cdk.Stack.of(this).formatArn({
+              service: 'sns',
+              resource: `${this.props.prefixes.snsTopicName}-${subscription.snsTopic}`,
+              arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
+            })
+          : undefined,
+        emailAddresses: subscription.emailAddresses,
+      })),
+    });
+  }
+
+  /**
+   * Function to add cost category definitions
+   */
+  private addCostCategories() {
+    if (this.props.partition == 'aws-us-gov') {
+      return;
+    }
+
+    for (const costCategory of this.stackProperties.globalConfig.reports?.costCategories ?? []) {
+      this.logger.info(`Adding cost category ${costCategory.name}`);
+
+      new cdk.aws_ce.CfnCostCategory(this, pascalCase(`${costCategory.name}CostCategory`), {
+        name: costCategory.name,
+        ruleVersion: 'CostCategoryExpression.v1',
+        defaultValue: costCategory.defaultValue,
+        rules: JSON.stringify(costCategory.rules.map(rule => this.getCostCategoryRule(costCategory.name, rule))),
+      });
+    }
+  }
+
+  /**
+   * Returns the cost category rule definition of a cost category rule configuration. Account names and
+   * organizational unit paths are resolved to linked account ids.
+   * @param costCategoryName
+   * @param rule
+   * @returns
+   */
+  private getCostCategoryRule(costCategoryName: string, rule: CostCategoryRuleConfig) {
+    if (rule.inheritedTagKey) {
+      return {
+        Type: 'INHERITED_VALUE',
+        InheritedValue: { DimensionName: 'TAG', DimensionKey: rule.inheritedTagKey },
+      };
+    }
+
+    const expressions = [];
+    if (rule.accounts || rule.organizationalUnits) {
+      const linkedAccountIds = this.getAccountIdsFromDeploymentTarget({
+        organizationalUnits: rule.organizationalUnits ?? [],
+        accounts: rule.accounts ?? [],
+        excludedRegions: [],
+        excludedAccounts: [],
+        accountTags: undefined,
+        accountNamePattern: undefined,
+        nestedOrganizationalUnits: true,
+      });
+      if (linkedAccountIds.length === 0) {
+        this.logger.error(
+          `Rule ${rule.value} of cost category ${costCategoryName} linked accounts do not resolve to any account.`,
+        );
+        throw new Error(`Configuration validation failed at runtime.`);
+      }
+      expressions.push({ Dimensions: { Key: 'LINKED_ACCOUNT', Values: linkedAccountIds } });
+    }
+    if (rule.tag) {
+      expressions.push({ Tags: { Key: rule.tag.key, Values: rule.tag.values } });
+    }
+
+    return {
+      Type: 'REGULAR',
+      Value: rule.value,
+      Rule: expressions.length > 1 ? { And: expressions } : expressions[0],
+    };
+  }
+
+  /**
+   * Function to activate user-defined cost allocation tags
+   */
+  private addCostAllocationTags() {
+    const costAllocationTags = this.stackProperties.globalConfig.reports?.costAllocationTags;
+    if (!costAllocationTags || this.props.partition == 'aws-us-gov') {
+      return;
+    }
+    this.logger.info('Activating cost allocation tags');
+
+    const costAllocationTagsResource = new CostAllocationTags(this, 'CostAllocationTags', {
+      tagKeys: costAllocationTags,
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.logRetention,
+    });
+
+    //
+    // Report cost allocation tag drift in the stack outputs
+    //
+    new cdk.CfnOutput(this, 'UnmanagedCostAllocationTagsOutput', {
+      value: costAllocationTagsResource.unmanagedTagKeys,
+      description: 'Cost allocation tags that are active but not defined in the configuration',
+    });
+    new cdk.CfnOutput(this, 'FailedCostAllocationTagsOutput', {
+      value: costAllocationTagsResource.failedTagKeys,
+      description: 'Cost allocation tags defined in the configuration that could not be activated',
+    });
+  }
+
   /**
    * Function to Enable Service Access for access-analyzer.amazonaws.com'
    */
@@ -482,6 +823,49 @@ export class OrganizationsStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to enable AWS Config multi-account setup, required to deploy organization conformance packs.
+   * When a Config delegated admin account is configured, it is also registered for multi-account setup
+   * so that organization conformance packs can be deployed from it.
+   */
+  private enableConfigMultiAccountSetup() {
+    if (
+      !(this.stackProperties.securityConfig.awsConfig.conformancePacks ?? []).some(
+        conformancePack => conformancePack.organization,
+      )
+    ) {
+      return;
+    }
+    this.logger.debug('enableConfigMultiAccountSetup');
+    const enableConfigMultiAccountSetupAccess = new EnableAwsServiceAccess(
+      this,
+      'EnableConfigMultiAccountSetupAccess',
+      {
+        servicePrincipal: 'config-multiaccountsetup.amazonaws.com',
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.logRetention,
+      },
+    );
+
+    // Registered with Control Tower enabled as well, since organization conformance packs
+    // are deployed from the Config delegated admin account in both cases
+    const aggregation = this.stackProperties.securityConfig.awsConfig.aggregation;
+    if (aggregation?.enable && aggregation.delegatedAdminAccount) {
+      const registerConfigMultiAccountSetupDelegatedAdministrator = new RegisterDelegatedAdministrator(
+        this,
+        'RegisterConfigMultiAccountSetupDelegatedAdministrator',
+        {
+          accountId: this.stackProperties.accountsConfig.getAccountId(aggregation.delegatedAdminAccount),
+          servicePrincipal: 'config-multiaccountsetup.amazonaws.com',
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.logRetention,
+        },
+      );
+
+      registerConfigMultiAccountSetupDelegatedAdministrator.node.addDependency(enableConfigMultiAccountSetupAccess);
+    }
+  }
+
   /**
    * Function to enable Macie delegated admin account
    * @param adminAccountId
@@ -612,6 +996,63 @@ export class OrganizationsStack extends AcceleratorStack {
       }
     }
   }
+  /**
+   * Function to enable Inspector delegated admin account
+   * @param adminAccountId
+   */
+  private enableInspectorDelegatedAdminAccount(adminAccountId: string) {
+    if (this.stackProperties.securityConfig.centralSecurityServices.inspector?.enable) {
+      if (
+        this.stackProperties.securityConfig.centralSecurityServices.inspector?.excludeRegions.indexOf(
+          cdk.Stack.of(this).region as Region,
+        ) == -1
+      ) {
+        this.logger.debug(
+          `Starts inspector admin account delegation to the account with email ${
+            this.stackProperties.accountsConfig.getAuditAccount().email
+          } account in ${cdk.Stack.of(this).region} region`,
+        );
+
+        this.logger.debug(`Inspector Admin Account ID is ${adminAccountId}`);
+        new InspectorOrganizationAdminAccount(this, 'InspectorOrganizationAdminAccount', {
+          adminAccountId,
+          logRetentionInDays: this.logRetention,
+          kmsKey: this.cloudwatchKey,
+        });
+      } else {
+        this.logger.debug(
+          `${cdk.Stack.of(this).region} region was in inspector excluded list so ignoring this region for ${
+            this.stackProperties.accountsConfig.getAuditAccount().email
+          } account`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to enable Security Lake delegated admin account
+   */
+  private enableSecurityLakeDelegatedAdminAccount() {
+    const securityLakeConfig = this.stackProperties.globalConfig.logging.securityLake;
+    if (securityLakeConfig?.enable) {
+      if ((securityLakeConfig.excludeRegions ?? []).indexOf(cdk.Stack.of(this).region as Region) == -1) {
+        const adminAccountId = this.stackProperties.accountsConfig.getAccountId(
+          securityLakeConfig.delegatedAdminAccount,
+        );
+        this.logger.debug(`Security Lake Admin Account ID is ${adminAccountId}`);
+        new SecurityLakeOrganizationAdminAccount(this, 'SecurityLakeOrganizationAdminAccount', {
+          adminAccountId,
+          logRetentionInDays: this.logRetention,
+          kmsKey: this.cloudwatchKey,
+        });
+      } else {
+        this.logger.debug(
+          `${cdk.Stack.of(this).region} region was in Security Lake excluded list so ignoring this region`,
+        );
+      }
+    }
+  }
+
   /**
    * Function to enable SecurityHub delegated admin account
    * @param adminAccountId
@@ -680,7 +1121,33 @@ export class OrganizationsStack extends AcceleratorStack {
               policyId: policy.id,
               targetId: this.stackProperties.organizationConfig.getOrganizationalUnitId(orgUnit),
               type: PolicyType.TAG_POLICY,
-              configPolicyNames: this.getScpNamesForTarget(orgUnit, 'ou'),
+              configPolicyNames: this.getPolicyNamesForTarget(
+                this.stackProperties.organizationConfig.taggingPolicies,
+                orgUnit,
+                'ou',
+              ),
+              acceleratorPrefix: this.props.prefixes.accelerator,
+              kmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.logRetention,
+            },
+          );
+          tagPolicyAttachment.node.addDependency(policy);
+        }
+        for (const account of this.stackProperties.accountsConfig.getDeploymentTargetAccountNames(
+          taggingPolicy.deploymentTargets,
+        )) {
+          const tagPolicyAttachment = new PolicyAttachment(
+            this,
+            pascalCase(`Attach_${taggingPolicy.name}_${account}`),
+            {
+              policyId: policy.id,
+              targetId: this.stackProperties.accountsConfig.getAccountId(account),
+              type: PolicyType.TAG_POLICY,
+              configPolicyNames: this.getPolicyNamesForTarget(
+                this.stackProperties.organizationConfig.taggingPolicies,
+                account,
+                'account',
+              ),
               acceleratorPrefix: this.props.prefixes.accelerator,
               kmsKey: this.cloudwatchKey,
               logRetentionInDays: this.logRetention,
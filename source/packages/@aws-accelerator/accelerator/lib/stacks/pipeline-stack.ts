@@ -24,6 +24,7 @@ export interface PipelineStackProps extends cdk.StackProps {
   readonly sourceRepositoryName: string;
   readonly sourceBranchName: string;
   readonly enableApprovalStage: boolean;
+  readonly enableDriftDetection: boolean;
   readonly qualifier?: string;
   readonly managementAccountId?: string;
   readonly managementAccountRoleName?: string;
@@ -49,6 +50,26 @@ export interface PipelineStackProps extends cdk.StackProps {
    * User defined pre-existing config repository branch name
    */
   readonly configRepositoryBranchName: string;
+  /**
+   * Config repository location, one of codecommit, s3 or codestar
+   */
+  readonly configRepositoryLocation: string;
+  /**
+   * Owner of the config repository hosted behind a CodeStar connection
+   */
+  readonly configRepositoryOwner?: string;
+  /**
+   * CodeStar connection ARN used to access the config repository
+   */
+  readonly configRepositoryConnectionArn?: string;
+  /**
+   * S3 bucket name hosting the zipped config, the bucket must have versioning enabled
+   */
+  readonly configS3BucketName?: string;
+  /**
+   * S3 object key of the zipped config
+   */
+  readonly configS3ObjectKey?: string;
   /**
    * Accelerator resource name prefixes
    */
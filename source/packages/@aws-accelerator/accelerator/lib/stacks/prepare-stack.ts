@@ -208,6 +208,7 @@ export class PrepareStack extends AcceleratorStack {
           commitId,
           controlTowerEnabled: props.globalConfig.controlTower.enable,
           organizationsEnabled: props.organizationConfig.enable,
+          deleteRemovedOus: props.organizationConfig.deleteRemovedOus,
           kmsKey: cloudwatchKey,
           logRetentionInDays: props.globalConfig.cloudwatchLogRetentionInDays,
         });
@@ -848,10 +849,11 @@ export class PrepareStack extends AcceleratorStack {
     scpItem: ServiceControlPolicyConfig,
     serviceControlPolicies: serviceControlPolicyType[],
   ) {
-    if (scpItem.deploymentTargets.accounts && scpItem.deploymentTargets.accounts.length > 0) {
+    const accounts = this.props.accountsConfig.getDeploymentTargetAccountNames(scpItem.deploymentTargets);
+    if (accounts.length > 0) {
       const targets: { name: string; id: string }[] = [];
 
-      scpItem.deploymentTargets.accounts.forEach(item => {
+      accounts.forEach(item => {
         try {
           targets.push({ name: item, id: this.props.accountsConfig.getAccountId(item) });
         } catch {
@@ -240,7 +240,7 @@ export class ResourcePolicyEnforcementStack extends AcceleratorStack {
 
   /**
    * Get the nearest policy set that can be applied to current account. The priority is ordered by
-   *  1. Account level matching
+   *  1. Account level matching, by account name or attribute selectors
    *  2. Organizational Unit level matching
    *  3. Root
    * @param policySets
@@ -252,8 +252,10 @@ export class ResourcePolicyEnforcementStack extends AcceleratorStack {
     rootPolicySet: ResourcePolicySetConfig | undefined,
   ): ResourcePolicySetConfig | undefined {
     // Find most specific matching policy set -> account level policy set
-    const accountLevelPolicySet = policySets.find(policySet =>
-      this.isAccountIncluded(policySet.deploymentTargets.accounts),
+    const accountLevelPolicySet = policySets.find(
+      policySet =>
+        this.isAccountIncluded(policySet.deploymentTargets.accounts) ||
+        this.isAccountSelected(policySet.deploymentTargets),
     );
     if (accountLevelPolicySet) return accountLevelPolicySet;
 
@@ -18,7 +18,15 @@ import * as yaml from 'js-yaml';
 import { pascalCase } from 'pascal-case';
 import * as path from 'path';
 
-import { ResourcePolicyEnforcementConfig, GuardDutyConfig, Region } from '@aws-accelerator/config';
+import {
+  AccessAnalyzerArchiveRuleConfig,
+  ResourcePolicyEnforcementConfig,
+  GuardDutyConfig,
+  InspectorConfig,
+  Region,
+  SecurityHubAutomationRuleConfig,
+  SecurityHubConfig,
+} from '@aws-accelerator/config';
 import {
   Bucket,
   BucketEncryptionType,
@@ -30,8 +38,11 @@ import {
   GuardDutyMembers,
   DetectiveGraphConfig,
   DetectiveMembers,
+  InspectorMembers,
   MacieMembers,
+  SecurityHubConfigurationPolicy,
   SecurityHubMembers,
+  SecurityHubProductIntegration,
   SecurityHubRegionAggregation,
   RemediationSsmDocument,
 } from '@aws-accelerator/constructs';
@@ -88,6 +99,11 @@ export class SecurityAuditStack extends AcceleratorStack {
     //
     this.configureDetective();
 
+    //
+    // Inspector configuration
+    //
+    this.configureInspector(this.props.securityConfig.centralSecurityServices.inspector);
+
     //
     // SecurityHub configuration
     //
@@ -183,22 +199,59 @@ export class SecurityAuditStack extends AcceleratorStack {
 
       // Determine S3 and EKS protection
       const [s3Protection, eksProtection] = this.processGuardDutyProtectionConfig(guardDutyConfig);
+      // Determine the extended protection plans, undefined when not configured
+      const malwareProtection = this.isGuardDutyFeatureEnabled(guardDutyConfig.malwareProtection);
+      const rdsProtection = this.isGuardDutyFeatureEnabled(guardDutyConfig.rdsProtection);
+      const lambdaProtection = this.isGuardDutyFeatureEnabled(guardDutyConfig.lambdaProtection);
+      const runtimeMonitoring = this.isGuardDutyFeatureEnabled(guardDutyConfig.runtimeMonitoring);
+      const runtimeMonitoringAgentManagement = guardDutyConfig.runtimeMonitoring
+        ? {
+            eksAddon: guardDutyConfig.runtimeMonitoring.eksAddonManagement ?? false,
+            ecsFargate: guardDutyConfig.runtimeMonitoring.ecsFargateAgentManagement ?? false,
+            ec2: guardDutyConfig.runtimeMonitoring.ec2AgentManagement ?? false,
+          }
+        : undefined;
       // Determine whether to update export frequency
       const updateExportFrequency =
         guardDutyConfig.exportConfiguration.enable && guardDutyConfig.exportConfiguration.overrideExisting;
+      const findingPublishingFrequency =
+        guardDutyConfig.findingPublishingFrequency ??
+        (updateExportFrequency ? guardDutyConfig.exportConfiguration.exportFrequency : undefined);
 
       const guardDutyMembers = new GuardDutyMembers(this, 'GuardDutyMembers', {
         enableS3Protection: s3Protection,
         enableEksProtection: eksProtection,
+        enableMalwareProtection: malwareProtection,
+        enableRdsProtection: rdsProtection,
+        enableLambdaProtection: lambdaProtection,
+        enableRuntimeMonitoring: runtimeMonitoring,
+        runtimeMonitoringAgentManagement,
+        autoEnableOrganizationMembers: guardDutyConfig.autoEnableOrganizationMembers,
+        featureAutoEnable: {
+          s3Protection: guardDutyConfig.s3Protection.autoEnable,
+          eksProtection: guardDutyConfig.eksProtection?.autoEnable,
+          malwareProtection: guardDutyConfig.malwareProtection?.autoEnable,
+          rdsProtection: guardDutyConfig.rdsProtection?.autoEnable,
+          lambdaProtection: guardDutyConfig.lambdaProtection?.autoEnable,
+          runtimeMonitoring: guardDutyConfig.runtimeMonitoring?.autoEnable,
+        },
         kmsKey: this.cloudwatchKey,
         logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
       });
 
-      if (s3Protection || eksProtection || updateExportFrequency) {
+      const extendedProtection = [malwareProtection, rdsProtection, lambdaProtection, runtimeMonitoring].some(
+        item => item !== undefined,
+      );
+      if (s3Protection || eksProtection || extendedProtection || findingPublishingFrequency) {
         new GuardDutyDetectorConfig(this, 'GuardDutyDetectorConfig', {
-          exportFrequency: updateExportFrequency ? guardDutyConfig.exportConfiguration.exportFrequency : undefined,
+          exportFrequency: findingPublishingFrequency,
           enableS3Protection: s3Protection,
           enableEksProtection: eksProtection,
+          enableMalwareProtection: malwareProtection,
+          enableRdsProtection: rdsProtection,
+          enableLambdaProtection: lambdaProtection,
+          enableRuntimeMonitoring: runtimeMonitoring,
+          runtimeMonitoringAgentManagement,
           kmsKey: this.cloudwatchKey,
           logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
         }).node.addDependency(guardDutyMembers);
@@ -233,6 +286,21 @@ export class SecurityAuditStack extends AcceleratorStack {
     return [s3Protection, eksProtection];
   }
 
+  /**
+   * Determine whether a GuardDuty protection plan is enabled in this region
+   * @param featureConfig
+   * @returns boolean | undefined, undefined when the protection plan is not configured
+   */
+  private isGuardDutyFeatureEnabled(featureConfig?: {
+    enable: boolean;
+    excludeRegions?: Region[];
+  }): boolean | undefined {
+    if (!featureConfig) {
+      return undefined;
+    }
+    return featureConfig.enable && !(featureConfig.excludeRegions ?? []).includes(cdk.Stack.of(this).region as Region);
+  }
+
   /**
    * Function to configure Audit manager
    */
@@ -362,6 +430,27 @@ export class SecurityAuditStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to configure Inspector
+   * @param inspectorConfig InspectorConfig
+   */
+  private configureInspector(inspectorConfig?: InspectorConfig) {
+    this.logger.debug(`centralSecurityServices.inspector?.enable: ${inspectorConfig?.enable}`);
+
+    if (inspectorConfig?.enable && inspectorConfig.excludeRegions.indexOf(cdk.Stack.of(this).region as Region) === -1) {
+      this.logger.info('Enabling Inspector for all existing accounts');
+
+      new InspectorMembers(this, 'InspectorMembers', {
+        enableEc2Scanning: inspectorConfig.ec2Scanning ?? true,
+        enableEcrScanning: inspectorConfig.ecrScanning ?? true,
+        enableLambdaScanning: inspectorConfig.lambdaScanning ?? true,
+        enableLambdaCodeScanning: inspectorConfig.lambdaCodeScanning ?? false,
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+  }
+
   /**
    * Function to configure SecurityHub
    */
@@ -377,10 +466,16 @@ export class SecurityAuditStack extends AcceleratorStack {
     ) {
       this.logger.info('Adding SecurityHub ');
 
-      new SecurityHubMembers(this, 'SecurityHubMembers', {
+      const securityHubMembers = new SecurityHubMembers(this, 'SecurityHubMembers', {
+        autoEnable: !this.props.securityConfig.centralSecurityServices.securityHub.configurationPolicies?.length,
         kmsKey: this.cloudwatchKey,
         logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
       });
+
+      this.configureSecurityHubAutomationRules(
+        this.props.securityConfig.centralSecurityServices.securityHub.automationRules ?? [],
+        securityHubMembers,
+      );
     }
 
     this.logger.debug(
@@ -393,10 +488,113 @@ export class SecurityAuditStack extends AcceleratorStack {
     ) {
       this.logger.info('Enabling region aggregation for SecurityHub in the Home Region');
 
-      new SecurityHubRegionAggregation(this, 'SecurityHubRegionAggregation', {
+      const regionAggregation = new SecurityHubRegionAggregation(this, 'SecurityHubRegionAggregation', {
         kmsKey: this.cloudwatchKey,
         logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
       });
+
+      this.configureSecurityHubConfigurationPolicies(
+        this.props.securityConfig.centralSecurityServices.securityHub,
+        regionAggregation,
+      );
+    }
+  }
+
+  /**
+   * Function to configure SecurityHub automation rules
+   * @param automationRules SecurityHubAutomationRuleConfig[]
+   * @param securityHubMembers SecurityHubMembers
+   */
+  private configureSecurityHubAutomationRules(
+    automationRules: SecurityHubAutomationRuleConfig[],
+    securityHubMembers: SecurityHubMembers,
+  ) {
+    for (const rule of automationRules) {
+      if ((rule.excludeRegions ?? []).includes(cdk.Stack.of(this).region as Region)) {
+        continue;
+      }
+      this.logger.info(`Adding SecurityHub automation rule ${rule.name}`);
+
+      const criteria: { [key: string]: { comparison: string; value: string }[] } = {};
+      for (const criteriaItem of rule.criteria) {
+        const key = criteriaItem.key.charAt(0).toLowerCase() + criteriaItem.key.slice(1);
+        criteria[key] = criteriaItem.values.map(value => ({ comparison: criteriaItem.comparison, value }));
+      }
+
+      const automationRule = new cdk.aws_securityhub.CfnAutomationRule(
+        this,
+        pascalCase(`SecurityHubAutomationRule${rule.name}`),
+        {
+          ruleName: rule.name,
+          description: rule.description,
+          ruleOrder: rule.order,
+          ruleStatus: rule.enable ? 'ENABLED' : 'DISABLED',
+          isTerminal: rule.isTerminal ?? false,
+          criteria,
+          actions: [
+            {
+              type: 'FINDING_FIELDS_UPDATE',
+              findingFieldsUpdate: {
+                severity: rule.actions.severityLabel ? { label: rule.actions.severityLabel } : undefined,
+                workflow: rule.actions.workflowStatus ? { status: rule.actions.workflowStatus } : undefined,
+                note: rule.actions.note ? { text: rule.actions.note, updatedBy: {} } : undefined,
+              },
+            },
+          ],
+        },
+      );
+      // The NoteUpdate UpdatedBy property is modelled as JSON in this CDK version, override with the string value
+      if (rule.actions.note) {
+        automationRule.addPropertyOverride(
+          'Actions.0.FindingFieldsUpdate.Note.UpdatedBy',
+          this.props.prefixes.accelerator,
+        );
+      }
+      automationRule.node.addDependency(securityHubMembers);
+    }
+  }
+
+  /**
+   * Function to configure SecurityHub central configuration policies
+   * @param securityHubConfig SecurityHubConfig
+   * @param regionAggregation SecurityHubRegionAggregation
+   */
+  private configureSecurityHubConfigurationPolicies(
+    securityHubConfig: SecurityHubConfig,
+    regionAggregation: SecurityHubRegionAggregation,
+  ) {
+    for (const policy of securityHubConfig.configurationPolicies ?? []) {
+      this.logger.info(`Adding SecurityHub configuration policy ${policy.name}`);
+
+      // Disabled controls and control parameters are defined with the standards of the policy
+      const standards = securityHubConfig.standards.filter(standard =>
+        (policy.standards ?? []).includes(standard.name),
+      );
+      const targetIds = [
+        ...(policy.deploymentTargets.organizationalUnits ?? []).map(ou =>
+          this.props.organizationConfig.getOrganizationalUnitId(ou),
+        ),
+        ...this.props.accountsConfig
+          .getDeploymentTargetAccountNames(policy.deploymentTargets)
+          .map(account => this.props.accountsConfig.getAccountId(account)),
+      ];
+
+      const configurationPolicy = new SecurityHubConfigurationPolicy(
+        this,
+        pascalCase(`SecurityHubConfigurationPolicy${policy.name}`),
+        {
+          name: policy.name,
+          description: policy.description,
+          serviceEnabled: policy.enable,
+          standards: standards.map(standard => standard.name),
+          controlsToDisable: [...new Set(standards.flatMap(standard => standard.controlsToDisable ?? []))],
+          controlParameters: standards.flatMap(standard => standard.controlParameters ?? []),
+          targetIds,
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+        },
+      );
+      configurationPolicy.node.addDependency(regionAggregation);
     }
   }
 
@@ -448,16 +646,92 @@ export class SecurityAuditStack extends AcceleratorStack {
    * Function to configure IAM Analyzer
    */
   private configureIamAnalyzer() {
-    this.logger.debug(`accessAnalyzer.enable: ${this.props.securityConfig.accessAnalyzer.enable}`);
-    if (
-      this.props.securityConfig.accessAnalyzer.enable &&
-      this.props.globalConfig.homeRegion === cdk.Stack.of(this).region
-    ) {
+    const accessAnalyzerConfig = this.props.securityConfig.accessAnalyzer;
+    this.logger.debug(`accessAnalyzer.enable: ${accessAnalyzerConfig.enable}`);
+    if (!accessAnalyzerConfig.enable) {
+      return;
+    }
+
+    let hasAnalyzer = false;
+    if (this.props.globalConfig.homeRegion === cdk.Stack.of(this).region) {
       this.logger.info('Adding IAM Access Analyzer ');
       new cdk.aws_accessanalyzer.CfnAnalyzer(this, 'AccessAnalyzer', {
         type: 'ORGANIZATION',
+        archiveRules: this.getAccessAnalyzerArchiveRules(accessAnalyzerConfig.archiveRules ?? []),
       });
+      hasAnalyzer = true;
+    }
+
+    for (const analyzerConfig of accessAnalyzerConfig.analyzers ?? []) {
+      // Unused access analyzers are only created in the home region, IAM is a global service
+      if (
+        analyzerConfig.type === 'ORGANIZATION_UNUSED_ACCESS'
+          ? this.props.globalConfig.homeRegion !== cdk.Stack.of(this).region
+          : (analyzerConfig.excludeRegions ?? []).includes(cdk.Stack.of(this).region as Region)
+      ) {
+        continue;
+      }
+      this.logger.info(`Adding IAM Access Analyzer ${analyzerConfig.name}`);
+      const analyzer = new cdk.aws_accessanalyzer.CfnAnalyzer(
+        this,
+        pascalCase(`AccessAnalyzer${analyzerConfig.name}`),
+        {
+          analyzerName: analyzerConfig.name,
+          type: analyzerConfig.type,
+          archiveRules: this.getAccessAnalyzerArchiveRules(analyzerConfig.archiveRules ?? []),
+        },
+      );
+      // The AnalyzerConfiguration property is not available in this CDK version
+      if (analyzerConfig.unusedAccessAge) {
+        analyzer.addPropertyOverride(
+          'AnalyzerConfiguration.UnusedAccessConfiguration.UnusedAccessAge',
+          analyzerConfig.unusedAccessAge,
+        );
+      }
+      hasAnalyzer = true;
+    }
+
+    const securityHubConfig = this.props.securityConfig.centralSecurityServices.securityHub;
+    if (
+      hasAnalyzer &&
+      accessAnalyzerConfig.securityHubIntegration &&
+      securityHubConfig.enable &&
+      !securityHubConfig.excludeRegions.includes(cdk.Stack.of(this).region as Region)
+    ) {
+      this.logger.info('Enabling IAM Access Analyzer findings import into SecurityHub');
+      const productIntegration = new SecurityHubProductIntegration(this, 'AccessAnalyzerSecurityHubIntegration', {
+        productName: 'aws/access-analyzer',
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+      const securityHubMembers = this.node.tryFindChild('SecurityHubMembers');
+      if (securityHubMembers) {
+        productIntegration.node.addDependency(securityHubMembers);
+      }
+    }
+  }
+
+  /**
+   * Function to get the IAM Access Analyzer archive rules
+   * @param archiveRules AccessAnalyzerArchiveRuleConfig[]
+   * @returns cdk.aws_accessanalyzer.CfnAnalyzer.ArchiveRuleProperty[] | undefined
+   */
+  private getAccessAnalyzerArchiveRules(
+    archiveRules: AccessAnalyzerArchiveRuleConfig[],
+  ): cdk.aws_accessanalyzer.CfnAnalyzer.ArchiveRuleProperty[] | undefined {
+    if (archiveRules.length === 0) {
+      return undefined;
     }
+    return archiveRules.map(archiveRule => ({
+      ruleName: archiveRule.name,
+      filter: archiveRule.filters.map(filter => ({
+        property: filter.key,
+        eq: filter.eq,
+        neq: filter.neq,
+        contains: filter.contains,
+        exists: filter.exists,
+      })),
+    }));
   }
 
   /**
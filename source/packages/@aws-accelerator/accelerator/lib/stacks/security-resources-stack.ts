@@ -15,12 +15,17 @@ import * as cdk from 'aws-cdk-lib';
 import { NagSuppressions } from 'cdk-nag';
 import { pascalCase } from 'change-case';
 import { Construct } from 'constructs';
+import * as fs from 'fs';
 import path from 'path';
 import { Tag as ConfigRuleTag } from '@aws-sdk/client-config-service';
 import {
   AccountCloudTrailConfig,
+  AlarmConfig,
+  AlarmDimensionConfig,
   AwsConfigRuleSet,
+  CompositeAlarmConfig,
   ConfigRule,
+  ConformancePackConfig,
   Region,
   Tag,
   IsPublicSsmDoc,
@@ -28,6 +33,8 @@ import {
 
 import {
   ConfigServiceRecorder,
+  ConfigServiceRecorderRecordingGroup,
+  ConfigServiceRecorderRecordingMode,
   CloudWatchLogGroups,
   ConfigServiceTags,
   SsmSessionManagerSettings,
@@ -52,6 +59,11 @@ enum ACCEL_LOOKUP_TYPE {
   REMEDIATION_FUNCTION_NAME = 'RemediationFunctionName',
 }
 
+/**
+ * AWS Config global resource types, recorded in a single region when globalResourceTypes is HOME_REGION
+ */
+const CONFIG_GLOBAL_RESOURCE_TYPES = ['AWS::IAM::Group', 'AWS::IAM::Policy', 'AWS::IAM::Role', 'AWS::IAM::User'];
+
 interface RemediationParameters {
   [key: string]: {
     StaticValue?: {
@@ -118,6 +130,11 @@ export class SecurityResourcesStack extends AcceleratorStack {
     //
     this.setupAwsConfigRules();
 
+    //
+    // Config Conformance Packs
+    //
+    this.setupConformancePacks();
+
     //
     // Configure Account CloudTrail Logs
     //
@@ -370,6 +387,9 @@ export class SecurityResourcesStack extends AcceleratorStack {
    * Function to configure CW alarms
    */
   private configureCloudwatchAlarm() {
+    const alarms = new Map<string, cdk.aws_cloudwatch.IAlarm>();
+    const compositeAlarms: CompositeAlarmConfig[] = [];
+
     for (const alarmSetItem of this.props.securityConfig.cloudWatch.alarmSets ?? []) {
       if (!alarmSetItem.regions?.includes(cdk.Stack.of(this).region)) {
         continue;
@@ -380,56 +400,228 @@ export class SecurityResourcesStack extends AcceleratorStack {
       }
 
       for (const alarmItem of alarmSetItem.alarms ?? []) {
+        const topic = this.getAlarmSnsTopic(alarmItem.alarmName, alarmItem.snsTopicName, alarmItem.snsAlertLevel);
+
+        if (alarmItem.metrics || alarmItem.anomalyDetection) {
+          alarms.set(alarmItem.alarmName, this.createMetricMathAlarm(alarmItem, topic));
+          continue;
+        }
+
         const alarm = new cdk.aws_cloudwatch.Alarm(this, pascalCase(alarmItem.alarmName), {
           alarmName: alarmItem.alarmName,
           alarmDescription: alarmItem.alarmDescription,
           metric: new cdk.aws_cloudwatch.Metric({
-            metricName: alarmItem.metricName,
-            namespace: alarmItem.namespace,
+            metricName: alarmItem.metricName!,
+            namespace: alarmItem.namespace!,
             period: cdk.Duration.seconds(alarmItem.period),
             statistic: alarmItem.statistic,
+            dimensionsMap: this.getAlarmDimensionsMap(alarmItem.dimensions),
           }),
           comparisonOperator: this.getComparisonOperator(alarmItem.comparisonOperator),
           evaluationPeriods: alarmItem.evaluationPeriods,
-          threshold: alarmItem.threshold,
+          threshold: alarmItem.threshold!,
           treatMissingData: this.getTreatMissingData(alarmItem.treatMissingData),
         });
 
-        if (this.props.globalConfig.snsTopics) {
-          alarm.addAlarmAction(
-            new cdk.aws_cloudwatch_actions.SnsAction(
-              cdk.aws_sns.Topic.fromTopicArn(
-                this,
-                `${pascalCase(alarmItem.alarmName)}Topic`,
-                cdk.Stack.of(this).formatArn({
-                  service: 'sns',
-                  region: cdk.Stack.of(this).region,
-                  account: cdk.Stack.of(this).account,
-                  resource: `${this.props.prefixes.snsTopicName}-${alarmItem.snsTopicName}`,
-                  arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
-                }),
-              ),
-            ),
-          );
-        } else {
-          alarm.addAlarmAction(
-            new cdk.aws_cloudwatch_actions.SnsAction(
-              cdk.aws_sns.Topic.fromTopicArn(
-                this,
-                `${pascalCase(alarmItem.alarmName)}Topic`,
-                cdk.Stack.of(this).formatArn({
-                  service: 'sns',
-                  region: cdk.Stack.of(this).region,
-                  account: this.props.accountsConfig.getAuditAccountId(),
-                  resource: `${this.props.prefixes.snsTopicName}-${alarmItem.snsAlertLevel}Notifications`,
-                  arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
-                }),
-              ),
-            ),
-          );
+        const snsAction = new cdk.aws_cloudwatch_actions.SnsAction(topic);
+        alarm.addAlarmAction(snsAction);
+        if (alarmItem.okActions) {
+          alarm.addOkAction(snsAction);
         }
+        if (alarmItem.insufficientDataActions) {
+          alarm.addInsufficientDataAction(snsAction);
+        }
+        alarms.set(alarmItem.alarmName, alarm);
+      }
+
+      compositeAlarms.push(...(alarmSetItem.compositeAlarms ?? []));
+    }
+
+    //
+    // Composite alarms are created once every child alarm of the stack exists,
+    // composite alarms referencing other composite alarms are created after them
+    //
+    let pendingCompositeAlarms = compositeAlarms;
+    while (pendingCompositeAlarms.length > 0) {
+      const readyCompositeAlarms = pendingCompositeAlarms.filter(compositeAlarmItem =>
+        compositeAlarmItem.alarmRules.every(alarmRule => alarms.has(alarmRule.alarmName)),
+      );
+      if (readyCompositeAlarms.length === 0) {
+        this.logger.error(
+          `Composite alarms ${pendingCompositeAlarms
+            .map(compositeAlarmItem => compositeAlarmItem.alarmName)
+            .join(', ')} reference undefined or cyclic child alarms`,
+        );
+        throw new Error(`Configuration validation failed at runtime.`);
+      }
+
+      for (const compositeAlarmItem of readyCompositeAlarms) {
+        alarms.set(compositeAlarmItem.alarmName, this.createCompositeAlarm(compositeAlarmItem, alarms));
+      }
+      pendingCompositeAlarms = pendingCompositeAlarms.filter(
+        compositeAlarmItem => !readyCompositeAlarms.includes(compositeAlarmItem),
+      );
+    }
+  }
+
+  /**
+   * Function to create a CloudWatch composite alarm from its child alarms
+   * @param compositeAlarmItem
+   * @param alarms
+   * @returns
+   */
+  private createCompositeAlarm(
+    compositeAlarmItem: CompositeAlarmConfig,
+    alarms: Map<string, cdk.aws_cloudwatch.IAlarm>,
+  ): cdk.aws_cloudwatch.IAlarm {
+    const alarmRules = compositeAlarmItem.alarmRules.map(alarmRule =>
+      cdk.aws_cloudwatch.AlarmRule.fromAlarm(
+        alarms.get(alarmRule.alarmName)!,
+        cdk.aws_cloudwatch.AlarmState[alarmRule.state],
+      ),
+    );
+    const compositeAlarm = new cdk.aws_cloudwatch.CompositeAlarm(this, pascalCase(compositeAlarmItem.alarmName), {
+      compositeAlarmName: compositeAlarmItem.alarmName,
+      alarmDescription: compositeAlarmItem.alarmDescription,
+      alarmRule:
+        compositeAlarmItem.operator === 'AND'
+          ? cdk.aws_cloudwatch.AlarmRule.allOf(...alarmRules)
+          : cdk.aws_cloudwatch.AlarmRule.anyOf(...alarmRules),
+    });
+
+    if (compositeAlarmItem.snsTopicName) {
+      const snsAction = new cdk.aws_cloudwatch_actions.SnsAction(
+        this.getAlarmSnsTopic(compositeAlarmItem.alarmName, compositeAlarmItem.snsTopicName),
+      );
+      compositeAlarm.addAlarmAction(snsAction);
+      if (compositeAlarmItem.okActions) {
+        compositeAlarm.addOkAction(snsAction);
+      }
+      if (compositeAlarmItem.insufficientDataActions) {
+        compositeAlarm.addInsufficientDataAction(snsAction);
       }
     }
+    return compositeAlarm;
+  }
+
+  /**
+   * Function to create a CloudWatch alarm on metric math expressions or an anomaly detection band
+   * @param alarmItem
+   * @param topic
+   * @returns
+   */
+  private createMetricMathAlarm(alarmItem: AlarmConfig, topic: cdk.aws_sns.ITopic): cdk.aws_cloudwatch.IAlarm {
+    let metrics: cdk.aws_cloudwatch.CfnAlarm.MetricDataQueryProperty[];
+    if (alarmItem.metrics) {
+      const hasReturnData = alarmItem.metrics.some(metric => metric.returnData === true);
+      metrics = alarmItem.metrics.map((metric, index) => ({
+        id: metric.id,
+        label: metric.label,
+        expression: metric.expression,
+        metricStat: metric.metricName
+          ? {
+              metric: {
+                metricName: metric.metricName,
+                namespace: metric.namespace,
+                dimensions: metric.dimensions,
+              },
+              period: metric.period ?? alarmItem.period,
+              stat: metric.statistic!,
+            }
+          : undefined,
+        returnData: hasReturnData ? metric.returnData ?? false : index === alarmItem.metrics!.length - 1,
+      }));
+    } else {
+      metrics = [
+        {
+          id: 'm1',
+          metricStat: {
+            metric: {
+              metricName: alarmItem.metricName,
+              namespace: alarmItem.namespace,
+              dimensions: alarmItem.dimensions,
+            },
+            period: alarmItem.period,
+            stat: alarmItem.statistic!,
+          },
+          returnData: true,
+        },
+      ];
+    }
+
+    let thresholdMetricId: string | undefined;
+    if (alarmItem.anomalyDetection) {
+      const metricId = alarmItem.anomalyDetection.metricId ?? metrics.find(metric => metric.returnData)!.id;
+      thresholdMetricId = 'anomalyDetectionBand';
+      metrics.push({
+        id: thresholdMetricId,
+        expression: `ANOMALY_DETECTION_BAND(${metricId}, ${alarmItem.anomalyDetection.bandWidth})`,
+        returnData: true,
+      });
+    }
+
+    const alarm = new cdk.aws_cloudwatch.CfnAlarm(this, pascalCase(alarmItem.alarmName), {
+      alarmName: alarmItem.alarmName,
+      alarmDescription: alarmItem.alarmDescription,
+      metrics,
+      comparisonOperator: alarmItem.comparisonOperator,
+      evaluationPeriods: alarmItem.evaluationPeriods,
+      threshold: alarmItem.threshold,
+      thresholdMetricId,
+      treatMissingData: alarmItem.treatMissingData,
+      alarmActions: [topic.topicArn],
+      okActions: alarmItem.okActions ? [topic.topicArn] : undefined,
+      insufficientDataActions: alarmItem.insufficientDataActions ? [topic.topicArn] : undefined,
+    });
+
+    return cdk.aws_cloudwatch.Alarm.fromAlarmArn(this, `${pascalCase(alarmItem.alarmName)}Reference`, alarm.attrArn);
+  }
+
+  /**
+   * Function to get the SNS topic notified by a CloudWatch alarm
+   * @param alarmName
+   * @param snsTopicName
+   * @param snsAlertLevel
+   * @returns
+   */
+  private getAlarmSnsTopic(alarmName: string, snsTopicName?: string, snsAlertLevel?: string): cdk.aws_sns.ITopic {
+    if (this.props.globalConfig.snsTopics) {
+      return cdk.aws_sns.Topic.fromTopicArn(
+        this,
+        `${pascalCase(alarmName)}Topic`,
+        cdk.Stack.of(this).formatArn({
+          service: 'sns',
+          region: cdk.Stack.of(this).region,
+          account: cdk.Stack.of(this).account,
+          resource: `${this.props.prefixes.snsTopicName}-${snsTopicName}`,
+          arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
+        }),
+      );
+    } else {
+      return cdk.aws_sns.Topic.fromTopicArn(
+        this,
+        `${pascalCase(alarmName)}Topic`,
+        cdk.Stack.of(this).formatArn({
+          service: 'sns',
+          region: cdk.Stack.of(this).region,
+          account: this.props.accountsConfig.getAuditAccountId(),
+          resource: `${this.props.prefixes.snsTopicName}-${snsAlertLevel}Notifications`,
+          arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Function to convert CloudWatch alarm dimensions to a dimensions map
+   * @param dimensions
+   * @returns
+   */
+  private getAlarmDimensionsMap(dimensions?: AlarmDimensionConfig[]): { [name: string]: string } | undefined {
+    if (!dimensions) {
+      return undefined;
+    }
+    return Object.fromEntries(dimensions.map(dimension => [dimension.name, dimension.value]));
   }
 
   private configureCloudwatchLogGroups() {
@@ -469,6 +661,7 @@ export class SecurityResourcesStack extends AcceleratorStack {
     ) {
       // declaring variable here as this value is called twice and synth can run into duplicate construct name error
       const configRecorderRoleArn = this.createConfigRecorderRole();
+      const recorderSettings = this.getConfigRecorderSettings();
       /**
        * These resources are deprecated
        * They eventually will be removed and only
@@ -478,11 +671,32 @@ export class SecurityResourcesStack extends AcceleratorStack {
       if (!this.props.securityConfig.awsConfig.overrideExisting) {
         this.configRecorder = new cdk.aws_config.CfnConfigurationRecorder(this, 'ConfigRecorder', {
           roleArn: configRecorderRoleArn,
-          recordingGroup: {
-            allSupported: true,
-            includeGlobalResourceTypes: true,
-          },
+          recordingGroup: recorderSettings.recordingGroup
+            ? {
+                allSupported: recorderSettings.recordingGroup.allSupported,
+                includeGlobalResourceTypes: recorderSettings.recordingGroup.includeGlobalResourceTypes,
+                resourceTypes: recorderSettings.recordingGroup.resourceTypes,
+                exclusionByResourceTypes: recorderSettings.recordingGroup.exclusionResourceTypes
+                  ? { resourceTypes: recorderSettings.recordingGroup.exclusionResourceTypes }
+                  : undefined,
+                recordingStrategy: { useOnly: recorderSettings.recordingGroup.recordingStrategy },
+              }
+            : {
+                allSupported: true,
+                includeGlobalResourceTypes: true,
+              },
         });
+        // The RecordingMode property is not available in this CDK version
+        if (recorderSettings.recordingMode) {
+          this.configRecorder.addPropertyOverride('RecordingMode', {
+            RecordingFrequency: recorderSettings.recordingMode.recordingFrequency,
+            RecordingModeOverrides: recorderSettings.recordingMode.recordingModeOverrides?.map(override => ({
+              Description: override.description,
+              ResourceTypes: override.resourceTypes,
+              RecordingFrequency: override.recordingFrequency,
+            })),
+          });
+        }
 
         this.deliveryChannel = new cdk.aws_config.CfnDeliveryChannel(this, 'ConfigDeliveryChannel', {
           s3BucketName: `${this.centralLogsBucketName}`,
@@ -502,6 +716,8 @@ export class SecurityResourcesStack extends AcceleratorStack {
           lambdaKmsKey: this.lambdaKey,
           partition: this.partition,
           acceleratorPrefix: this.props.prefixes.accelerator,
+          recordingGroup: recorderSettings.recordingGroup,
+          recordingMode: recorderSettings.recordingMode,
         });
 
         if (this.configRecorder && this.deliveryChannel) {
@@ -588,6 +804,64 @@ export class SecurityResourcesStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to get the AWS Config recorder settings of the current account and region.
+   * The last recorder settings entry targeting the account is applied.
+   * @returns
+   */
+  private getConfigRecorderSettings(): {
+    recordingGroup?: ConfigServiceRecorderRecordingGroup;
+    recordingMode?: ConfigServiceRecorderRecordingMode;
+  } {
+    const settings = (this.props.securityConfig.awsConfig.recorderSettings ?? [])
+      .filter(item => this.isIncluded(item.deploymentTargets))
+      .pop();
+    if (!settings) {
+      return {};
+    }
+
+    let recordingGroup: ConfigServiceRecorderRecordingGroup | undefined;
+    if (settings.recordingGroup) {
+      const globalResourceTypes = settings.recordingGroup.globalResourceTypes ?? 'ALL_REGIONS';
+      const recordGlobalResourceTypes =
+        globalResourceTypes === 'ALL_REGIONS' ||
+        (globalResourceTypes === 'HOME_REGION' && cdk.Stack.of(this).region === this.props.globalConfig.homeRegion);
+      const resourceTypes = settings.recordingGroup.resourceTypes ?? [];
+
+      switch (settings.recordingGroup.recordingStrategy) {
+        case 'ALL_SUPPORTED_RESOURCE_TYPES':
+          recordingGroup = {
+            allSupported: true,
+            includeGlobalResourceTypes: recordGlobalResourceTypes,
+            recordingStrategy: 'ALL_SUPPORTED_RESOURCE_TYPES',
+          };
+          break;
+        case 'INCLUSION_BY_RESOURCE_TYPES':
+          recordingGroup = {
+            allSupported: false,
+            includeGlobalResourceTypes: false,
+            recordingStrategy: 'INCLUSION_BY_RESOURCE_TYPES',
+            resourceTypes: recordGlobalResourceTypes
+              ? resourceTypes
+              : resourceTypes.filter(resourceType => !CONFIG_GLOBAL_RESOURCE_TYPES.includes(resourceType)),
+          };
+          break;
+        case 'EXCLUSION_BY_RESOURCE_TYPES':
+          recordingGroup = {
+            allSupported: false,
+            includeGlobalResourceTypes: false,
+            recordingStrategy: 'EXCLUSION_BY_RESOURCE_TYPES',
+            exclusionResourceTypes: recordGlobalResourceTypes
+              ? resourceTypes
+              : [...new Set([...resourceTypes, ...CONFIG_GLOBAL_RESOURCE_TYPES])],
+          };
+          break;
+      }
+    }
+
+    return { recordingGroup, recordingMode: settings.recordingMode };
+  }
+
   private createConfigRecorderRole() {
     if (this.props.useExistingRoles === true) {
       return `arn:${cdk.Stack.of(this).partition}:iam::${cdk.Stack.of(this).account}:role/${
@@ -940,6 +1214,115 @@ export class SecurityResourcesStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to setup AWS Config conformance packs
+   */
+  private setupConformancePacks() {
+    for (const pack of this.props.securityConfig.awsConfig.conformancePacks ?? []) {
+      if (pack.organization) {
+        this.createOrganizationConformancePack(pack);
+      } else if (pack.deploymentTargets && this.isIncluded(pack.deploymentTargets)) {
+        this.createConformancePack(pack);
+      }
+    }
+  }
+
+  /**
+   * Function to create an account conformance pack, delivering conformance pack templates to the central logs bucket
+   * @param pack {@link ConformancePackConfig}
+   */
+  private createConformancePack(pack: ConformancePackConfig) {
+    this.logger.info(`Creating conformance pack ${pack.name}`);
+    const conformancePack = new cdk.aws_config.CfnConformancePack(this, pascalCase(`${pack.name}ConformancePack`), {
+      conformancePackName: pack.name,
+      templateBody: this.getConformancePackTemplateBody(pack),
+      templateS3Uri: pack.templateS3Uri,
+      conformancePackInputParameters: this.getConformancePackInputParameters(pack),
+      deliveryS3Bucket: this.centralLogsBucketName,
+      deliveryS3KeyPrefix: `config-conformance-packs/${cdk.Stack.of(this).account}`,
+    });
+
+    if (this.configRecorder) {
+      conformancePack.node.addDependency(this.configRecorder);
+    }
+  }
+
+  /**
+   * Function to create an organization conformance pack. Organization conformance packs are deployed
+   * from the AWS Config delegated administrator account, or the management account when no delegated
+   * administrator is configured.
+   *
+   * AWS Config requires organization conformance pack delivery buckets to be prefixed with `awsconfigconforms`,
+   * so conformance pack templates are delivered to the conformance pack delivery bucket of the log archive account
+   * instead of the central logs bucket.
+   * @param pack {@link ConformancePackConfig}
+   */
+  private createOrganizationConformancePack(pack: ConformancePackConfig) {
+    const aggregation = this.props.securityConfig.awsConfig.aggregation;
+    const configAdminAccountId =
+      aggregation?.enable && aggregation.delegatedAdminAccount
+        ? this.props.accountsConfig.getAccountId(aggregation.delegatedAdminAccount)
+        : this.props.accountsConfig.getManagementAccountId();
+
+    if (
+      cdk.Stack.of(this).account !== configAdminAccountId ||
+      (pack.organization?.excludeRegions ?? []).includes(cdk.Stack.of(this).region as Region)
+    ) {
+      return;
+    }
+
+    this.logger.info(`Creating organization conformance pack ${pack.name}`);
+    const excludedAccounts = (pack.organization?.excludedAccounts ?? []).map(account =>
+      this.props.accountsConfig.getAccountId(account),
+    );
+    const conformancePack = new cdk.aws_config.CfnOrganizationConformancePack(
+      this,
+      pascalCase(`${pack.name}OrganizationConformancePack`),
+      {
+        organizationConformancePackName: pack.name,
+        templateBody: this.getConformancePackTemplateBody(pack),
+        templateS3Uri: pack.templateS3Uri,
+        conformancePackInputParameters: this.getConformancePackInputParameters(pack),
+        excludedAccounts: excludedAccounts.length > 0 ? excludedAccounts : undefined,
+        deliveryS3Bucket: this.getConformancePackDeliveryBucketName(),
+        deliveryS3KeyPrefix: 'config-conformance-packs',
+      },
+    );
+
+    if (this.configRecorder) {
+      conformancePack.node.addDependency(this.configRecorder);
+    }
+  }
+
+  /**
+   * Function to read the conformance pack template body from the configuration repository
+   * @param pack {@link ConformancePackConfig}
+   * @returns string | undefined
+   */
+  private getConformancePackTemplateBody(pack: ConformancePackConfig): string | undefined {
+    if (!pack.templateBody) {
+      return undefined;
+    }
+    return fs.readFileSync(path.join(this.props.configDirPath, pack.templateBody), 'utf8');
+  }
+
+  /**
+   * Function to prepare conformance pack input parameters, resolving any lookup replacements
+   * @param pack {@link ConformancePackConfig}
+   * @returns cdk.aws_config.CfnConformancePack.ConformancePackInputParameterProperty[] | undefined
+   */
+  private getConformancePackInputParameters(
+    pack: ConformancePackConfig,
+  ): cdk.aws_config.CfnConformancePack.ConformancePackInputParameterProperty[] | undefined {
+    if (!pack.inputParameters) {
+      return undefined;
+    }
+    return Object.entries(this.getRuleParameters(pack.name, pack.inputParameters)).map(([key, value]) => ({
+      parameterName: key,
+      parameterValue: value,
+    }));
+  }
+
   private getComparisonOperator(comparisonOperator: string): cdk.aws_cloudwatch.ComparisonOperator {
     if (comparisonOperator === 'GreaterThanOrEqualToThreshold') {
       return cdk.aws_cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD;
@@ -20,9 +20,12 @@ import {
   AcceleratorMetadata,
   EbsDefaultEncryption,
   GuardDutyPublishingDestination,
+  InspectorFindingsExport,
   MacieExportConfigClassification,
   PasswordPolicy,
   SecurityHubStandards,
+  SecurityLake,
+  SecurityLakeSubscriber,
   ConfigAggregation,
 } from '@aws-accelerator/constructs';
 
@@ -73,6 +76,16 @@ export class SecurityStack extends AcceleratorStack {
     //
     this.configureGuardDuty();
 
+    //
+    // Inspector configuration
+    //
+    this.configureInspector();
+
+    //
+    // Security Lake configuration
+    //
+    this.configureSecurityLake();
+
     //
     // SecurityHub configuration
     //
@@ -195,6 +208,133 @@ export class SecurityStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to configure Inspector
+   */
+  private configureInspector() {
+    const inspectorConfig = this.props.securityConfig.centralSecurityServices.inspector;
+    if (
+      inspectorConfig?.enable &&
+      inspectorConfig.exportConfiguration?.enable &&
+      inspectorConfig.excludeRegions.indexOf(cdk.Stack.of(this).region as Region) === -1
+    ) {
+      // Validate Delegated Admin Account name is part of account config
+      this.validateDelegatedAdminAccountName('Inspector');
+      let destinationPrefix = 'inspector';
+      if (inspectorConfig.exportConfiguration.overrideInspectorPrefix?.useCustomPrefix) {
+        destinationPrefix = inspectorConfig.exportConfiguration.overrideInspectorPrefix.customOverride ?? '';
+      }
+
+      new InspectorFindingsExport(this, 'InspectorFindingsExport', {
+        bucketName: this.centralLogsBucketName,
+        bucketKmsKey: this.centralLogsBucketKey,
+        keyPrefix: `${destinationPrefix}/${cdk.Stack.of(this).account}/${cdk.Stack.of(this).region}/`,
+      });
+    }
+  }
+
+  /**
+   * Function to configure Security Lake in the Security Lake delegated admin account home region
+   */
+  private configureSecurityLake() {
+    const securityLakeConfig = this.props.globalConfig.logging.securityLake;
+    if (
+      !securityLakeConfig?.enable ||
+      cdk.Stack.of(this).region !== this.props.globalConfig.homeRegion ||
+      cdk.Stack.of(this).account !== this.props.accountsConfig.getAccountId(securityLakeConfig.delegatedAdminAccount)
+    ) {
+      return;
+    }
+
+    const sources = securityLakeConfig.sources ?? ['CLOUD_TRAIL_MGMT', 'VPC_FLOW', 'ROUTE53', 'SH_FINDINGS'];
+    const lifecycle = this.getSecurityLakeLifecycle();
+
+    const securityLake = new SecurityLake(this, 'SecurityLake', {
+      regions: this.props.globalConfig.enabledRegions.filter(
+        region => !(securityLakeConfig.excludeRegions ?? []).includes(region),
+      ),
+      sources,
+      accountIds: this.props.accountsConfig.getAccountIds(),
+      expirationDays: lifecycle.expirationDays,
+      transitions: lifecycle.transitions,
+      rollupRegions: (securityLakeConfig.rollupRegions ?? []).map(rollupRegion => ({
+        region: rollupRegion.region,
+        contributingRegions: rollupRegion.contributingRegions,
+      })),
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+    });
+
+    for (const subscriber of securityLakeConfig.subscribers ?? []) {
+      const securityLakeSubscriber = new SecurityLakeSubscriber(
+        this,
+        pascalCase(`SecurityLakeSubscriber${subscriber.name}`),
+        {
+          subscriberName: subscriber.name,
+          subscriberDescription: subscriber.description,
+          accountId: this.props.accountsConfig.containsAccount(subscriber.account)
+            ? this.props.accountsConfig.getAccountId(subscriber.account)
+            : subscriber.account,
+          externalId: subscriber.externalId,
+          accessType: subscriber.accessType,
+          sources: subscriber.sources ?? sources,
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+        },
+      );
+      securityLakeSubscriber.node.addDependency(securityLake);
+    }
+
+    // AwsSolutions-IAM4: The IAM user, role, or group uses AWS managed policies
+    this.nagSuppressionInputs.push({
+      id: NagSuppressionRuleIds.IAM4,
+      details: [
+        {
+          path: `${this.stackName}/SecurityLake/MetaStoreManagerRole/Resource`,
+          reason: 'Security Lake meta store manager managed role required.',
+        },
+      ],
+    });
+
+    // AwsSolutions-IAM5: The IAM entity contains wildcard permissions
+    if ((securityLakeConfig.rollupRegions ?? []).length > 0) {
+      this.nagSuppressionInputs.push({
+        id: NagSuppressionRuleIds.IAM5,
+        details: [
+          {
+            path: `${this.stackName}/SecurityLake/ReplicationRole/Resource`,
+            reason: 'Security Lake bucket names are generated by the service.',
+          },
+        ],
+      });
+    }
+  }
+
+  /**
+   * Function to get the Security Lake lifecycle settings.
+   * The first enabled central log bucket lifecycle rule without a prefix is applied to the data lake,
+   * otherwise the central log bucket default lifecycle is used.
+   * @returns
+   */
+  private getSecurityLakeLifecycle(): {
+    expirationDays: number | undefined;
+    transitions: { days: number; storageClass: string }[];
+  } {
+    const lifecycleRules = this.props.globalConfig.logging.centralLogBucket?.lifecycleRules;
+    if (!lifecycleRules) {
+      return { expirationDays: 1825, transitions: [{ days: 365, storageClass: 'DEEP_ARCHIVE' }] };
+    }
+
+    const lifecycleRule = lifecycleRules.find(rule => rule.enabled !== false && !rule.prefix);
+    return {
+      expirationDays: lifecycleRule?.expiration,
+      transitions: (lifecycleRule?.transitions ?? []).map(transition => ({
+        days: transition.transitionAfter,
+        storageClass: transition.storageClass,
+      })),
+    };
+  }
+
   /**
    * Function to initialize SecurityHub standards
    * @returns
@@ -232,11 +372,20 @@ export class SecurityStack extends AcceleratorStack {
       // Validate Delegated Admin Account name is part of account config
       this.validateDelegatedAdminAccountName('SecurityHub');
 
+      // Standards of accounts associated with a central configuration policy are managed by the delegated admin
+      const centrallyConfigured = (
+        this.props.securityConfig.centralSecurityServices.securityHub.configurationPolicies ?? []
+      ).some(policy => this.isIncluded(policy.deploymentTargets));
+      if (centrallyConfigured) {
+        this.logger.info('SecurityHub standards are managed by a central configuration policy');
+      }
+
       const standards = this.initializeSecurityHubStandards();
 
       if (standards.length > 0) {
         new SecurityHubStandards(this, 'SecurityHubStandards', {
           standards,
+          centrallyConfigured,
           kmsKey: this.cloudwatchKey,
           logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
         });
@@ -34,11 +34,12 @@ import {
   OrganizationConfig,
 } from '@aws-accelerator/config';
 import { getReplacementsConfig } from '../utils/app-utils';
-import { createLogger, getCloudFormationTemplate, printStackDiff } from '@aws-accelerator/utils';
+import { createLogger, getCloudFormationTemplate, getStackDiffSummary, printStackDiff } from '@aws-accelerator/utils';
 import { isBeforeBootstrapStage } from '../utils/app-utils';
 
 import { AcceleratorStackNames } from './accelerator';
 import { AcceleratorStage } from './accelerator-stage';
+import { DiffReport, StackDiffReportEntry } from './diff-report';
 import { isIncluded } from './stacks/custom-stack';
 
 const logger = createLogger(['toolkit']);
@@ -817,6 +818,22 @@ export class AcceleratorToolkit {
       stream,
     );
     await stream.close();
+
+    //
+    // Structured differences consolidated into the change report of the Review stage
+    //
+    const entry: StackDiffReportEntry = {
+      stackName: stack,
+      stage: options.stage,
+      accountId: options.accountId,
+      region: options.region,
+      ...getStackDiffSummary(
+        path.join(savePath, `${stack}.json`),
+        path.join(savePath, `${stack}.template.json`),
+        false,
+      ),
+    };
+    fs.writeFileSync(path.join(savePath, `${stack}${DiffReport.FILE_SUFFIX}`), JSON.stringify(entry));
   }
 
   private static async setOutputDirectory(
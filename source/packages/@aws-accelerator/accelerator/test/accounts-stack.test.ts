@@ -13,7 +13,8 @@
 
 import { AcceleratorSynthStacks } from './accelerator-synth-stacks';
 import { AcceleratorStage } from '../lib/accelerator-stage';
-import { describe } from '@jest/globals';
+import { describe, test } from '@jest/globals';
+import { Template } from 'aws-cdk-lib/assertions';
 import { snapShotTest } from './snapshot-test';
 
 const testNamePrefix = 'Construct(AccountsStack): ';
@@ -30,3 +31,19 @@ describe('AccountsStack us-west-2', () => {
   const stack = acceleratorTestStacks.stacks.get(`Management-us-west-2`)!;
   snapShotTest('Construct(AccountsStackUsWest2): ', stack);
 });
+
+describe('AccountsStack decommissioned accounts', () => {
+  const acceleratorTestStacks = new AcceleratorSynthStacks(AcceleratorStage.ACCOUNTS, 'aws', 'us-east-1');
+  const stack = acceleratorTestStacks.stacks.get(`Management-us-east-1`)!;
+
+  test('lockdown scp is attached and the account is closed', () => {
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('Custom::AttachPolicy', {
+      targetId: '666666666666',
+      configPolicyNames: ['Quarantine'],
+    });
+    template.resourceCountIs('Custom::OrganizationsCloseAccount', 1);
+    template.hasResourceProperties('Custom::OrganizationsCloseAccount', { accountId: '666666666666' });
+  });
+});
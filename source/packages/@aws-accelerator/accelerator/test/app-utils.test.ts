@@ -154,6 +154,46 @@ describe('test setAcceleratorEnvironment', () => {
     );
     expect(setAcceleratorEnvironmentReturn.configRepositoryName).toBe('test-config');
   });
+  test('setAcceleratorEnvironment s3 config location', () => {
+    const setAcceleratorEnvironmentReturn = setAcceleratorEnvironment(
+      {
+        CONFIG_REPOSITORY_LOCATION: 's3',
+        EXISTING_CONFIG_S3_BUCKET_NAME: 'test-config-bucket',
+        EXISTING_CONFIG_S3_OBJECT_KEY: 'aws-accelerator-config.zip',
+      },
+      prefixes,
+      'prepare',
+    );
+    expect(setAcceleratorEnvironmentReturn.configRepositoryLocation).toBe('s3');
+    expect(setAcceleratorEnvironmentReturn.configS3BucketName).toBe('test-config-bucket');
+    expect(setAcceleratorEnvironmentReturn.configS3ObjectKey).toBe('aws-accelerator-config.zip');
+  });
+  test('setAcceleratorEnvironment codestar config location', () => {
+    const setAcceleratorEnvironmentReturn = setAcceleratorEnvironment(
+      {
+        CONFIG_REPOSITORY_LOCATION: 'codestar',
+        EXISTING_CONFIG_REPOSITORY_CONNECTION_ARN:
+          'arn:aws:codestar-connections:us-east-1:111111111111:connection/00000000-0000-0000-0000-000000000000',
+        EXISTING_CONFIG_REPOSITORY_OWNER: 'example-org',
+        EXISTING_CONFIG_REPOSITORY_NAME: 'test-config',
+        EXISTING_CONFIG_REPOSITORY_BRANCH_NAME: 'test',
+      },
+      prefixes,
+      'prepare',
+    );
+    expect(setAcceleratorEnvironmentReturn.configRepositoryName).toBe('test-config');
+    expect(setAcceleratorEnvironmentReturn.configRepositoryOwner).toBe('example-org');
+  });
+  test('setAcceleratorEnvironment config location error', () => {
+    function configLocationError() {
+      setAcceleratorEnvironment({ CONFIG_REPOSITORY_LOCATION: 's3' }, prefixes, 'prepare');
+    }
+    expect(configLocationError).toThrowError(
+      new Error(
+        'Missing environment variables [EXISTING_CONFIG_S3_BUCKET_NAME, EXISTING_CONFIG_S3_OBJECT_KEY], required when CONFIG_REPOSITORY_LOCATION environment is set to s3',
+      ),
+    );
+  });
   test('setAcceleratorEnvironment checkMandatoryEnvVariables error', () => {
     function checkMandatoryEnvVariablesError() {
       setAcceleratorEnvironment(
@@ -0,0 +1,129 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { AccountsConfig } from '@aws-accelerator/config';
+import { describe, expect, test } from '@jest/globals';
+import * as path from 'path';
+import { AcceleratorStage } from '../lib/accelerator-stage';
+import { DeploymentPlan, DeploymentPlanOutput } from '../lib/deployment-plan';
+
+const configDirPath = path.join(__dirname, 'configs/all-enabled');
+const stackNames: Record<string, string> = Object.fromEntries(
+  DeploymentPlan.STAGES.map(stage => [stage, `AWSAccelerator-${stage}`]),
+);
+
+async function generatePlan(stage?: string, planConfigDirPath = configDirPath): Promise<DeploymentPlanOutput> {
+  const deploymentPlan = await DeploymentPlan.load({
+    configDirPath: planConfigDirPath,
+    partition: 'aws',
+    globalRegion: 'us-east-1',
+    stackNames,
+    enableSingleAccountMode: false,
+    stage,
+  });
+  return deploymentPlan.generate();
+}
+
+describe('DeploymentPlan', () => {
+  test('plans every stage in pipeline order', async () => {
+    const plan = await generatePlan();
+
+    expect(plan.homeRegion).toBe('us-east-1');
+    expect(plan.stages.map(item => item.stage)).toEqual(DeploymentPlan.STAGES);
+    // Every stage reports the resources of its stacks
+    expect(
+      plan.stages.filter(item => item.stacks.every(stack => stack.resources.length === 0)).map(item => item.stage),
+    ).toEqual([]);
+  });
+
+  test('lists the resources of the security and network association stages', async () => {
+    const plan = await generatePlan();
+    const getResources = (stage: AcceleratorStage, account: string) =>
+      plan.stages
+        .find(item => item.stage === stage)
+        ?.stacks.find(item => item.account === account && item.region === 'us-east-1')?.resources;
+
+    expect(getResources(AcceleratorStage.KEY, 'Audit')).toContainEqual({ type: 'KmsKey', name: 'AcceleratorKey' });
+    expect(getResources(AcceleratorStage.KEY, 'Network')).toEqual([]);
+    expect(getResources(AcceleratorStage.SECURITY_AUDIT, 'Audit')).toContainEqual({
+      type: 'SecurityServiceAdministration',
+      name: 'GuardDuty',
+    });
+    expect(getResources(AcceleratorStage.SECURITY, 'SharedServices')).toContainEqual({
+      type: 'SecurityServiceExport',
+      name: 'Macie',
+    });
+    expect(getResources(AcceleratorStage.NETWORK_ASSOCIATIONS, 'Network')).toContainEqual({
+      type: 'TransitGatewayRouteTableAssociation',
+      name: 'Network-Endpoints/Network-Endpoints/Network-Main-Shared',
+    });
+    expect(getResources(AcceleratorStage.FINALIZE, 'Management')).toContainEqual({
+      type: 'ServiceControlPolicy',
+      name: 'Quarantine',
+    });
+  });
+
+  test('deploys management account stages to the management account only', async () => {
+    const plan = await generatePlan(AcceleratorStage.PREPARE);
+    const prepare = plan.stages[0];
+
+    expect(prepare.stacks).toHaveLength(1);
+    expect(prepare.stacks[0].stackName).toBe('AWSAccelerator-prepare-111111111111-us-east-1');
+    expect(prepare.stacks[0].resources).toContainEqual({ type: 'Account', name: 'SharedServices' });
+  });
+
+  test('resolves explicitly placed network resources', async () => {
+    const plan = await generatePlan(AcceleratorStage.NETWORK_PREP);
+    const networkHomeRegion = plan.stages[0].stacks.find(
+      item => item.account === 'Network' && item.region === 'us-east-1',
+    );
+    const networkWest = plan.stages[0].stacks.find(item => item.account === 'Network' && item.region === 'us-west-2');
+
+    expect(networkHomeRegion?.resources).toContainEqual({ type: 'TransitGateway', name: 'Network-Main' });
+    expect(networkWest?.resources).not.toContainEqual({ type: 'TransitGateway', name: 'Network-Main' });
+  });
+
+  test('plans unused access analyzers in the home region only', async () => {
+    const plan = await generatePlan(AcceleratorStage.SECURITY_AUDIT, path.join(__dirname, 'configs/snapshot-only'));
+    const auditHomeRegion = plan.stages[0].stacks.find(item => item.account === 'Audit' && item.region === 'us-east-1');
+    const auditWest = plan.stages[0].stacks.find(item => item.account === 'Audit' && item.region === 'us-west-2');
+
+    expect(auditHomeRegion?.resources).toContainEqual({ type: 'AccessAnalyzer', name: 'UnusedAccess' });
+    expect(auditWest?.resources).not.toContainEqual({ type: 'AccessAnalyzer', name: 'UnusedAccess' });
+  });
+
+  test('skips decommissioned accounts in account stages', async () => {
+    const plan = await generatePlan(AcceleratorStage.SECURITY, path.join(__dirname, 'configs/snapshot-only'));
+    const accounts = new Set(plan.stages[0].stacks.map(item => item.account));
+
+    expect(accounts).toContain('SharedServices');
+    expect(accounts).not.toContain('GovCloudWorkloadAccount01');
+  });
+
+  test('rejects unsupported stages', async () => {
+    await expect(generatePlan(AcceleratorStage.PIPELINE)).rejects.toThrow();
+  });
+});
+
+describe('loadMockAccountIds', () => {
+  test('generates placeholder account IDs when none are provided', () => {
+    const accountsConfig = AccountsConfig.load(configDirPath);
+    accountsConfig.accountIds = undefined;
+    DeploymentPlan.loadMockAccountIds(accountsConfig);
+
+    expect(accountsConfig.getManagementAccountId()).toBe('100000000000');
+    expect(new Set(accountsConfig.accountIds!.map(item => item.accountId)).size).toBe(
+      accountsConfig.getAccounts(false).length,
+    );
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiffReport, StackDiffReportEntry } from '../lib/diff-report';
+
+const changedStack: StackDiffReportEntry = {
+  stackName: 'AWSAccelerator-SecurityStack-111111111111-us-east-1',
+  stage: 'security',
+  accountId: '111111111111',
+  region: 'us-east-1',
+  differenceCount: 3,
+  resources: [
+    { logicalId: 'Role<Admin>', resourceType: 'AWS::IAM::Role', changeType: 'ADD' },
+    { logicalId: 'Bucket', resourceType: 'AWS::S3::Bucket', changeType: 'REPLACE' },
+    { logicalId: 'SecurityGroup', resourceType: 'AWS::EC2::SecurityGroup', changeType: 'MODIFY' },
+  ],
+  iamStatementChanges: [
+    ['', 'Resource', 'Effect', 'Action', 'Principal', 'Condition'],
+    ['+', '*', 'Allow', 's3:*', 'AWS:${Role<Admin>}', ''],
+  ],
+  iamManagedPolicyChanges: [
+    ['', 'Resource', 'Managed Policy ARN'],
+    ['+', '${Role<Admin>}', 'arn:${AWS::Partition}:iam::aws:policy/ReadOnlyAccess'],
+  ],
+  securityGroupChanges: [],
+  permissionsBroadened: true,
+};
+
+const unchangedStack: StackDiffReportEntry = {
+  stackName: 'AWSAccelerator-LoggingStack-111111111111-us-east-1',
+  stage: 'logging',
+  accountId: '111111111111',
+  region: 'us-east-1',
+  differenceCount: 0,
+  resources: [],
+  iamStatementChanges: [],
+  iamManagedPolicyChanges: [],
+  securityGroupChanges: [],
+  permissionsBroadened: false,
+};
+
+let s3Mock: AwsClientStub<S3Client>;
+let diffDirPath: string;
+
+describe('DiffReport', () => {
+  beforeEach(() => {
+    s3Mock = mockClient(S3Client);
+    diffDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-report-'));
+    fs.mkdirSync(path.join(diffDirPath, 'assembly'));
+    fs.writeFileSync(
+      path.join(diffDirPath, 'assembly', `${changedStack.stackName}${DiffReport.FILE_SUFFIX}`),
+      JSON.stringify(changedStack),
+    );
+    fs.writeFileSync(
+      path.join(diffDirPath, `${unchangedStack.stackName}${DiffReport.FILE_SUFFIX}`),
+      JSON.stringify(unchangedStack),
+    );
+    fs.writeFileSync(path.join(diffDirPath, `${unchangedStack.stackName}.diff`), 'There were no differences');
+  });
+
+  afterEach(() => {
+    s3Mock.reset();
+    fs.rmSync(diffDirPath, { recursive: true, force: true });
+  });
+
+  test('only reports stacks with differences', () => {
+    const report = DiffReport.load(diffDirPath).generate();
+    expect(report.stacks.map(stack => stack.stackName)).toEqual([changedStack.stackName]);
+    expect(report.totals).toEqual({
+      stacks: 1,
+      add: 1,
+      modify: 1,
+      replace: 1,
+      remove: 0,
+      iamChanges: 2,
+      securityGroupChanges: 0,
+    });
+  });
+
+  test('renders escaped HTML', () => {
+    const html = DiffReport.toHtml(DiffReport.load(diffDirPath).generate());
+    expect(html).toContain('Role&lt;Admin&gt;');
+    expect(html).not.toContain('Role<Admin>');
+    expect(html).toContain('These changes broaden permissions or network access');
+    expect(html).toContain('<th>Managed Policy ARN</th>');
+    expect(html).not.toContain(unchangedStack.stackName);
+  });
+
+  test('uploads the JSON and HTML report', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+    const report = DiffReport.load(diffDirPath).generate();
+    const reportUrl = await DiffReport.upload(report, {
+      bucketName: 'artifact-bucket',
+      prefix: 'diff-reports/execution-id',
+      region: 'us-east-1',
+      partition: 'aws',
+    });
+
+    const keys = s3Mock.commandCalls(PutObjectCommand).map(call => call.args[0].input.Key);
+    expect(keys).toEqual(['diff-reports/execution-id/diff-report.json', 'diff-reports/execution-id/index.html']);
+    expect(reportUrl).toBe(
+      'https://console.aws.amazon.com/s3/object/artifact-bucket?region=us-east-1&prefix=diff-reports/execution-id/index.html',
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { AccountsConfig, GlobalConfig } from '@aws-accelerator/config';
+import {
+  CloudFormationClient,
+  DescribeStackDriftDetectionStatusCommand,
+  DescribeStackResourceDriftsCommand,
+  DetectStackDriftCommand,
+} from '@aws-sdk/client-cloudformation';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import * as path from 'path';
+import { AcceleratorStage } from '../lib/accelerator-stage';
+import { DeploymentPlan } from '../lib/deployment-plan';
+import { StackDriftDetection } from '../lib/drift-detection';
+
+const configDirPath = path.join(__dirname, 'configs/all-enabled');
+const stackNames: Record<string, string> = Object.fromEntries(
+  DeploymentPlan.STAGES.map(stage => [stage, `AWSAccelerator-${stage}`]),
+);
+const driftedStackName = 'AWSAccelerator-network-vpc-555555555555-us-east-1';
+
+let cloudFormationMock: AwsClientStub<CloudFormationClient>;
+let s3Mock: AwsClientStub<S3Client>;
+let stsMock: AwsClientStub<STSClient>;
+
+function getDriftDetection(suspendedAccountId?: string): StackDriftDetection {
+  const accountsConfig = AccountsConfig.load(configDirPath);
+  DeploymentPlan.loadMockAccountIds(accountsConfig);
+  accountsConfig.accountIds = accountsConfig.accountIds?.map(item =>
+    item.accountId === suspendedAccountId ? { ...item, status: 'SUSPENDED' } : item,
+  );
+  return new StackDriftDetection({
+    configDirPath,
+    partition: 'aws',
+    globalRegion: 'us-east-1',
+    stackNames,
+    enableSingleAccountMode: false,
+    bucketPrefix: 'aws-accelerator',
+    accountsConfig,
+    globalConfig: GlobalConfig.loadRawGlobalConfig(configDirPath),
+  });
+}
+
+describe('StackDriftDetection', () => {
+  beforeEach(() => {
+    cloudFormationMock = mockClient(CloudFormationClient);
+    s3Mock = mockClient(S3Client);
+    stsMock = mockClient(STSClient);
+
+    stsMock.on(AssumeRoleCommand).resolves({
+      Credentials: {
+        AccessKeyId: 'AccessKeyId',
+        SecretAccessKey: 'SecretAccessKey',
+        SessionToken: 'SessionToken',
+        Expiration: new Date(),
+      },
+    });
+    cloudFormationMock.on(DetectStackDriftCommand).callsFake(input => {
+      if (input.StackName.startsWith(stackNames[AcceleratorStage.FINALIZE])) {
+        return Promise.reject(
+          Object.assign(new Error(`Stack with id ${input.StackName} does not exist`), { name: 'ValidationError' }),
+        );
+      }
+      return Promise.resolve({ StackDriftDetectionId: input.StackName });
+    });
+    cloudFormationMock.on(DescribeStackDriftDetectionStatusCommand).callsFake(input =>
+      Promise.resolve({
+        StackDriftDetectionId: input.StackDriftDetectionId,
+        DetectionStatus: 'DETECTION_COMPLETE',
+        StackDriftStatus: input.StackDriftDetectionId === driftedStackName ? 'DRIFTED' : 'IN_SYNC',
+      }),
+    );
+    cloudFormationMock.on(DescribeStackResourceDriftsCommand, { StackName: driftedStackName }).resolves({
+      StackResourceDrifts: [
+        {
+          StackId: driftedStackName,
+          LogicalResourceId: 'VpcNetworkInspection',
+          PhysicalResourceId: 'vpc-0123456789',
+          ResourceType: 'AWS::EC2::VPC',
+          StackResourceDriftStatus: 'MODIFIED',
+          Timestamp: new Date(),
+          PropertyDifferences: [
+            {
+              PropertyPath: '/EnableDnsSupport',
+              ExpectedValue: 'true',
+              ActualValue: 'false',
+              DifferenceType: 'NOT_EQUAL',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    cloudFormationMock.reset();
+    s3Mock.reset();
+    stsMock.reset();
+  });
+
+  test('reports drifted resources and skips stacks that are not deployed', async () => {
+    const report = await getDriftDetection().detect();
+
+    expect(report.stacks.length).toBeGreaterThan(0);
+    expect(report.stacks.find(stack => stack.stackName.startsWith(stackNames[AcceleratorStage.FINALIZE]))).toBe(
+      undefined,
+    );
+    expect(StackDriftDetection.getDriftedStacks(report)).toEqual([
+      {
+        stackName: driftedStackName,
+        account: 'Network',
+        accountId: '555555555555',
+        region: 'us-east-1',
+        detectionStatus: 'DETECTION_COMPLETE',
+        driftStatus: 'DRIFTED',
+        resources: [
+          {
+            logicalResourceId: 'VpcNetworkInspection',
+            physicalResourceId: 'vpc-0123456789',
+            resourceType: 'AWS::EC2::VPC',
+            driftStatus: 'MODIFIED',
+            propertyDifferences: [
+              {
+                propertyPath: '/EnableDnsSupport',
+                expectedValue: 'true',
+                actualValue: 'false',
+                differenceType: 'NOT_EQUAL',
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('skips stacks of accounts that are not active', async () => {
+    const report = await getDriftDetection('555555555555').detect();
+
+    expect(report.stacks.length).toBeGreaterThan(0);
+    expect(report.stacks.find(stack => stack.accountId === '555555555555')).toBe(undefined);
+    expect(
+      stsMock.commandCalls(AssumeRoleCommand).find(call => call.args[0].input.RoleArn?.includes('555555555555')),
+    ).toBe(undefined);
+  });
+
+  test('reports stacks that cannot be checked as failed', async () => {
+    stsMock
+      .on(AssumeRoleCommand, { RoleArn: 'arn:aws:iam::555555555555:role/AWSControlTowerExecution' })
+      .rejects(Object.assign(new Error('Access denied'), { name: 'AccessDenied' }));
+
+    const report = await getDriftDetection().detect();
+
+    const failedStacks = report.stacks.filter(stack => stack.accountId === '555555555555');
+    expect(failedStacks.length).toBeGreaterThan(0);
+    for (const stack of failedStacks) {
+      expect(stack).toMatchObject({
+        detectionStatus: 'DETECTION_FAILED',
+        detectionStatusReason: 'Access denied',
+        driftStatus: 'UNKNOWN',
+        resources: [],
+      });
+    }
+    expect(report.stacks.find(stack => stack.driftStatus === 'IN_SYNC')).toBeDefined();
+  });
+
+  test('stores the report in the central log bucket', async () => {
+    const driftDetection = getDriftDetection();
+    const report = await driftDetection.detect();
+
+    const reportLocation = await driftDetection.writeReport(report);
+
+    expect(reportLocation).toBe(
+      `s3://aws-accelerator-central-logs-333333333333-us-west-2/drift-reports/${report.generatedAt}.json`,
+    );
+    expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input).toMatchObject({
+      Bucket: 'aws-accelerator-central-logs-333333333333-us-west-2',
+      Key: `drift-reports/${report.generatedAt}.json`,
+    });
+  });
+});
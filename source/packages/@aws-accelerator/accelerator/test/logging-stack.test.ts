@@ -11,9 +11,10 @@
  *  and limitations under the License.
  */
 
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { AcceleratorStage } from '../lib/accelerator-stage';
 import { AcceleratorSynthStacks } from './accelerator-synth-stacks';
-import { describe } from '@jest/globals';
+import { describe, test } from '@jest/globals';
 import { snapShotTest } from './snapshot-test';
 
 const testNamePrefix = 'Construct(LoggingStack): ';
@@ -43,3 +44,20 @@ const centralizedRegionTestStack = centralizedRegionTestStacks.stacks.get(`LogAr
 describe('LoggingStack', () => {
   snapShotTest(testNamePrefix, centralizedRegionTestStack);
 });
+
+const managementStack = acceleratorTestStacks.stacks.get(`Management-us-east-1`)!;
+
+describe('LoggingStack cost anomaly notifications', () => {
+  test(`${testNamePrefix} Cost Anomaly Detection can publish to the subscription SNS topic`, () => {
+    Template.fromStack(managementStack).hasResourceProperties('AWS::SNS::TopicPolicy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'sns:Publish',
+            Principal: { Service: 'costalerts.amazonaws.com' },
+          }),
+        ]),
+      },
+    });
+  });
+});
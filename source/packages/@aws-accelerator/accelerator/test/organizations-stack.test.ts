@@ -73,8 +73,39 @@ describe('tagging policies', () => {
     template.hasResourceProperties('Custom::AttachPolicy', { targetId: 'r-asdf', type: 'TAG_POLICY' });
 
     // 2 policies for backup and tagging policies, 1 target -> 2 attachments
-    template.resourceCountIs('Custom::CreatePolicy', 2);
-    template.resourceCountIs('Custom::AttachPolicy', 2);
+    // 4 organization policies, 5 targets -> 5 attachments
+    template.resourceCountIs('Custom::CreatePolicy', 6);
+    template.resourceCountIs('Custom::AttachPolicy', 7);
+  });
+});
+
+describe('organization policies', () => {
+  test('policy types are enabled and policies attached to their targets', () => {
+    const template = Template.fromStack(stack);
+
+    for (const policyType of [
+      'AISERVICES_OPT_OUT_POLICY',
+      'RESOURCE_CONTROL_POLICY',
+      'CHATBOT_POLICY',
+      'DECLARATIVE_POLICY_EC2',
+    ]) {
+      template.hasResourceProperties('Custom::EnablePolicyType', { policyType });
+    }
+    template.hasResourceProperties('Custom::CreatePolicy', {
+      name: 'AiServicesOptOutPolicy',
+      type: 'AISERVICES_OPT_OUT_POLICY',
+    });
+    template.hasResourceProperties('Custom::AttachPolicy', { targetId: 'r-asdf', type: 'AISERVICES_OPT_OUT_POLICY' });
+    template.hasResourceProperties('Custom::CreatePolicy', {
+      name: 'EnforceSecureTransport',
+      type: 'RESOURCE_CONTROL_POLICY',
+    });
+    template.hasResourceProperties('Custom::AttachPolicy', {
+      targetId: '111111111111',
+      type: 'RESOURCE_CONTROL_POLICY',
+    });
+    template.hasResourceProperties('Custom::CreatePolicy', { name: 'ChatbotPolicy', type: 'CHATBOT_POLICY' });
+    template.hasResourceProperties('Custom::CreatePolicy', { name: 'Ec2Baseline', type: 'DECLARATIVE_POLICY_EC2' });
   });
 });
 
@@ -23,12 +23,13 @@ const testNamePrefix = 'Construct(PipelineStack): ';
  * Pipeline Stack
  */
 const app = new cdk.App();
-const stack = new PipelineStack(app, 'PipelineStack', {
+const pipelineStackProps = {
   sourceRepository: 'codecommit',
   sourceRepositoryOwner: 'awslabs',
   sourceRepositoryName: 'accelerator-source',
   sourceBranchName: 'main',
   enableApprovalStage: true,
+  enableDriftDetection: true,
   qualifier: 'aws-accelerator',
   managementAccountId: app.account,
   managementAccountRoleName: 'AcceleratorAccountAccessRole',
@@ -44,6 +45,7 @@ const stack = new PipelineStack(app, 'PipelineStack', {
   useExistingConfigRepo: false,
   configRepositoryName: 'aws-accelerator-config',
   configRepositoryBranchName: 'main',
+  configRepositoryLocation: 'codecommit',
   prefixes: {
     accelerator: 'AWSAccelerator',
     kmsAlias: 'alias/accelerator',
@@ -57,8 +59,39 @@ const stack = new PipelineStack(app, 'PipelineStack', {
   },
   enableSingleAccountMode: false,
   pipelineAccountId: '000000000000',
+};
+const stack = new PipelineStack(app, 'PipelineStack', pipelineStackProps);
+
+/**
+ * Pipeline Stack with the config in an S3 bucket
+ */
+const s3ConfigStack = new PipelineStack(app, 'S3ConfigPipelineStack', {
+  ...pipelineStackProps,
+  configRepositoryLocation: 's3',
+  configS3BucketName: 'accelerator-config-bucket',
+  configS3ObjectKey: 'aws-accelerator-config.zip',
+});
+
+/**
+ * Pipeline Stack with the config in a repository behind a CodeStar connection
+ */
+const codeStarConfigStack = new PipelineStack(app, 'CodeStarConfigPipelineStack', {
+  ...pipelineStackProps,
+  useExistingConfigRepo: true,
+  configRepositoryLocation: 'codestar',
+  configRepositoryOwner: 'example-org',
+  configRepositoryConnectionArn:
+    'arn:aws:codestar-connections:us-east-1:000000000000:connection/00000000-0000-0000-0000-000000000000',
 });
 
 describe('PipelineStack', () => {
   snapShotTest(testNamePrefix, stack);
 });
+
+describe('S3ConfigPipelineStack', () => {
+  snapShotTest(testNamePrefix, s3ConfigStack);
+});
+
+describe('CodeStarConfigPipelineStack', () => {
+  snapShotTest(testNamePrefix, codeStarConfigStack);
+});
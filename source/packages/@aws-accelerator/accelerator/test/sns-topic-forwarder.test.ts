@@ -0,0 +1,38 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { getMessageAttributes } from '../lib/lambdas/sns-topic-forwarder/index';
+
+describe('sns-topic-forwarder', () => {
+  test('returns undefined when the notification has no message attributes', () => {
+    expect(getMessageAttributes(undefined)).toBeUndefined();
+    expect(getMessageAttributes({})).toBeUndefined();
+  });
+
+  test('converts string, number and binary message attributes', () => {
+    expect(
+      getMessageAttributes({
+        severity: { Type: 'String', Value: 'HIGH' },
+        count: { Type: 'Number', Value: '3' },
+        accounts: { Type: 'String.Array', Value: '["111111111111","222222222222"]' },
+        payload: { Type: 'Binary', Value: Buffer.from('accelerator').toString('base64') },
+      }),
+    ).toEqual({
+      severity: { DataType: 'String', StringValue: 'HIGH' },
+      count: { DataType: 'Number', StringValue: '3' },
+      accounts: { DataType: 'String.Array', StringValue: '["111111111111","222222222222"]' },
+      payload: { DataType: 'Binary', BinaryValue: Buffer.from('accelerator') },
+    });
+  });
+});
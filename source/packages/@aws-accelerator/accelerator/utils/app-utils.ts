@@ -136,6 +136,12 @@ export interface AcceleratorEnvironment {
    * @default 'main'
    */
   configRepositoryBranchName: string;
+  /**
+   * Accelerator configuration repository location, one of codecommit, s3 or codestar
+   *
+   * @default 'codecommit'
+   */
+  configRepositoryLocation: string;
   /**
    * Whether or not Control Tower is enabled in the accelerator environment
    */
@@ -146,6 +152,12 @@ export interface AcceleratorEnvironment {
    * @default true
    */
   enableApprovalStage: boolean;
+  /**
+   * Whether or not to enable the drift detection pipeline stage
+   *
+   * @default false
+   */
+  enableDriftDetection: boolean;
   /**
    * Whether or not to enable single account mode
    */
@@ -192,6 +204,22 @@ export interface AcceleratorEnvironment {
    * Configuration git commit ID
    */
   configCommitId?: string;
+  /**
+   * Owner of the configuration repository hosted behind a CodeStar connection
+   */
+  configRepositoryOwner?: string;
+  /**
+   * CodeStar connection ARN used to access the configuration repository
+   */
+  configRepositoryConnectionArn?: string;
+  /**
+   * S3 bucket name hosting the zipped accelerator configuration
+   */
+  configS3BucketName?: string;
+  /**
+   * S3 object key of the zipped accelerator configuration
+   */
+  configS3ObjectKey?: string;
   /**
    * AWS account ID for management account
    */
@@ -322,10 +350,13 @@ export function setAcceleratorEnvironment(
   // Check for mandatory environment variables in PIPELINE stage
   checkMandatoryEnvVariables(env, stage);
 
-  // Set config repo name
+  // Check config repository location settings
+  checkConfigRepositoryLocation(env);
+
+  // Set config repo name, repositories behind a CodeStar connection always pre-exist
   const configRepositoryName = setConfigRepoName(
     resourcePrefixes.repoName,
-    env['USE_EXISTING_CONFIG_REPO'],
+    env['CONFIG_REPOSITORY_LOCATION'] === 'codestar' ? 'Yes' : env['USE_EXISTING_CONFIG_REPO'],
     env['EXISTING_CONFIG_REPOSITORY_NAME'],
     env['EXISTING_CONFIG_REPOSITORY_BRANCH_NAME'],
     env['ACCELERATOR_QUALIFIER'],
@@ -338,10 +369,12 @@ export function setAcceleratorEnvironment(
     auditAccountEmail: env['AUDIT_ACCOUNT_EMAIL'] ?? '',
     configRepositoryName,
     configRepositoryBranchName: env['EXISTING_CONFIG_REPOSITORY_BRANCH_NAME'] ?? 'main',
+    configRepositoryLocation: env['CONFIG_REPOSITORY_LOCATION'] ?? 'codecommit',
     controlTowerEnabled: env['CONTROL_TOWER_ENABLED'] ?? '',
     enableApprovalStage: env['ACCELERATOR_ENABLE_APPROVAL_STAGE']
       ? env['ACCELERATOR_ENABLE_APPROVAL_STAGE'] === 'Yes'
       : true,
+    enableDriftDetection: env['ACCELERATOR_ENABLE_DRIFT_DETECTION'] === 'Yes',
     enableSingleAccountMode: env['ACCELERATOR_ENABLE_SINGLE_ACCOUNT_MODE'] === 'true',
     logArchiveAccountEmail: env['LOG_ARCHIVE_ACCOUNT_EMAIL'] ?? '',
     managementAccountEmail: env['MANAGEMENT_ACCOUNT_EMAIL'] ?? '',
@@ -352,6 +385,10 @@ export function setAcceleratorEnvironment(
     useExistingConfigRepo: env['USE_EXISTING_CONFIG_REPO'] === 'Yes',
     approvalStageNotifyEmailList: env['APPROVAL_STAGE_NOTIFY_EMAIL_LIST'],
     configCommitId: env['CONFIG_COMMIT_ID'],
+    configRepositoryOwner: env['EXISTING_CONFIG_REPOSITORY_OWNER'],
+    configRepositoryConnectionArn: env['EXISTING_CONFIG_REPOSITORY_CONNECTION_ARN'],
+    configS3BucketName: env['EXISTING_CONFIG_S3_BUCKET_NAME'],
+    configS3ObjectKey: env['EXISTING_CONFIG_S3_OBJECT_KEY'],
     managementAccountId: env['MANAGEMENT_ACCOUNT_ID'],
     managementAccountRoleName: env['MANAGEMENT_ACCOUNT_ROLE_NAME'],
     managementCrossAccountRoleName: env['MANAGEMENT_CROSS_ACCOUNT_ROLE_NAME'],
@@ -359,6 +396,42 @@ export function setAcceleratorEnvironment(
   };
 }
 
+/**
+ * Checks that the environment variables required by the configured config repository location are set
+ * and throws an error if any are missing
+ * @param env
+ */
+function checkConfigRepositoryLocation(env: NodeJS.ProcessEnv) {
+  const location = env['CONFIG_REPOSITORY_LOCATION'] ?? 'codecommit';
+  const requiredVariables: { [location: string]: string[] } = {
+    codecommit: [],
+    s3: ['EXISTING_CONFIG_S3_BUCKET_NAME', 'EXISTING_CONFIG_S3_OBJECT_KEY'],
+    codestar: [
+      'EXISTING_CONFIG_REPOSITORY_CONNECTION_ARN',
+      'EXISTING_CONFIG_REPOSITORY_OWNER',
+      'EXISTING_CONFIG_REPOSITORY_NAME',
+      'EXISTING_CONFIG_REPOSITORY_BRANCH_NAME',
+    ],
+  };
+
+  if (!requiredVariables[location]) {
+    throw new Error(
+      `Invalid CONFIG_REPOSITORY_LOCATION environment variable value ${location}, valid values are [${Object.keys(
+        requiredVariables,
+      ).join(', ')}]`,
+    );
+  }
+
+  const missingVariables = requiredVariables[location].filter(variable => !env[variable]);
+  if (missingVariables.length > 0) {
+    throw new Error(
+      `Missing environment variables [${missingVariables.join(
+        ', ',
+      )}], required when CONFIG_REPOSITORY_LOCATION environment is set to ${location}`,
+    );
+  }
+}
+
 /**
  * Checks for mandatory environment variables based on accelerator stage and throws
  * an error if any are missing
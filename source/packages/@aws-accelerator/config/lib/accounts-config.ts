@@ -31,6 +31,9 @@ export class AccountsConfigTypes {
     email: t.nonEmptyString,
     organizationalUnit: t.optional(t.nonEmptyString),
     warm: t.optional(t.boolean),
+    tags: t.optional(t.array(t.tag)),
+    metadata: t.optional(t.dictionary(t.nonEmptyString, t.nonEmptyString)),
+    decommission: t.optional(t.boolean),
   });
 
   static readonly govCloudAccountConfig = t.interface({
@@ -39,6 +42,9 @@ export class AccountsConfigTypes {
     email: t.nonEmptyString,
     organizationalUnit: t.optional(t.nonEmptyString),
     enableGovCloud: t.optional(t.boolean),
+    tags: t.optional(t.array(t.tag)),
+    metadata: t.optional(t.dictionary(t.nonEmptyString, t.nonEmptyString)),
+    decommission: t.optional(t.boolean),
   });
 
   static readonly accountIdConfig = t.interface({
@@ -46,13 +52,38 @@ export class AccountsConfigTypes {
     accountId: t.nonEmptyString,
   });
 
+  static readonly accountDecommissioningConfig = t.interface({
+    organizationalUnit: t.nonEmptyString,
+    scpPolicyName: t.nonEmptyString,
+    closeAccount: t.optional(t.boolean),
+  });
+
   static readonly accountsConfig = t.interface({
     mandatoryAccounts: t.array(t.union([this.accountConfig, this.govCloudAccountConfig])),
     workloadAccounts: t.array(t.union([this.accountConfig, this.govCloudAccountConfig])),
     accountIds: t.optional(t.array(this.accountIdConfig)),
+    accountDecommissioning: t.optional(this.accountDecommissioningConfig),
   });
 }
 
+/**
+ * Result of evaluating a deployment target against an account
+ */
+export interface DeploymentTargetMatch {
+  /**
+   * The account name
+   */
+  readonly account: string;
+  /**
+   * Whether the account is targeted
+   */
+  readonly included: boolean;
+  /**
+   * The reasons the account is targeted or excluded
+   */
+  readonly reasons: string[];
+}
+
 export class AccountIdConfig implements t.TypeOf<typeof AccountsConfigTypes.accountIdConfig> {
   readonly email: string = '';
   readonly accountId: string = '';
@@ -71,6 +102,13 @@ export class AccountIdConfig implements t.TypeOf<typeof AccountsConfigTypes.acco
  *   email: example-email+workload01@example.com
  *   organizationalUnit: Workloads
  *   warm: true
+ *   tags:
+ *     - key: CostCenter
+ *       value: '100'
+ *     - key: Environment
+ *       value: Production
+ *   metadata:
+ *     owner: workload-team@example.com
  * ```
  */
 export class AccountConfig implements t.TypeOf<typeof AccountsConfigTypes.accountConfig> {
@@ -120,6 +158,35 @@ export class AccountConfig implements t.TypeOf<typeof AccountsConfigTypes.accoun
    * been provisioned
    */
   readonly warm: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) A list of tags to apply to the account in AWS Organizations.
+   *
+   * Tags are applied during the accounts stage and kept in sync on every pipeline run.
+   * Tags removed from the configuration are removed from the account. Tags that were not
+   * defined in the configuration are not modified.
+   *
+   * Tag keys and values are validated against the tagging policies defined in organization-config.yaml
+   * that target the account.
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Free-form key/value metadata for the account.
+   *
+   * Metadata is not applied to any AWS resource. It can be used to record information such as
+   * owners or data classification alongside the account definition.
+   */
+  readonly metadata: { [key: string]: string } | undefined = undefined;
+  /**
+   * (OPTIONAL) Decommission the account.
+   *
+   * Decommissioned accounts are moved to the organizational unit defined in
+   * {@link AccountDecommissioningConfig}, the lockdown service control policy is attached
+   * and the account is optionally closed. The accelerator no longer deploys stacks to the account.
+   *
+   * Mandatory accounts cannot be decommissioned. Remove the account from the configuration
+   * once it has left the organization.
+   */
+  readonly decommission: boolean | undefined = undefined;
 }
 
 /**
@@ -135,6 +202,9 @@ export class AccountConfig implements t.TypeOf<typeof AccountsConfigTypes.accoun
  *   email: example-email+workload01@example.com
  *   organizationalUnit: Workloads
  *   enableGovCloud: true
+ *   tags:
+ *     - key: CostCenter
+ *       value: '100'
  * ```
  */
 export class GovCloudAccountConfig implements t.TypeOf<typeof AccountsConfigTypes.govCloudAccountConfig> {
@@ -189,7 +259,70 @@ export class GovCloudAccountConfig implements t.TypeOf<typeof AccountsConfigType
    * should be created.
    */
   readonly enableGovCloud: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) A list of tags to apply to the account in AWS Organizations.
+   *
+   * Tags are applied during the accounts stage and kept in sync on every pipeline run.
+   * Tags removed from the configuration are removed from the account. Tags that were not
+   * defined in the configuration are not modified.
+   *
+   * Tag keys and values are validated against the tagging policies defined in organization-config.yaml
+   * that target the account.
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Free-form key/value metadata for the account.
+   *
+   * Metadata is not applied to any AWS resource. It can be used to record information such as
+   * owners or data classification alongside the account definition.
+   */
+  readonly metadata: { [key: string]: string } | undefined = undefined;
+  /**
+   * (OPTIONAL) Decommission the account.
+   *
+   * Decommissioned accounts are moved to the organizational unit defined in
+   * {@link AccountDecommissioningConfig}, the lockdown service control policy is attached
+   * and the account is optionally closed. The accelerator no longer deploys stacks to the account.
+   *
+   * Mandatory accounts cannot be decommissioned. Remove the account from the configuration
+   * once it has left the organization.
+   */
+  readonly decommission: boolean | undefined = undefined;
+}
+/**
+ * *{@link AccountsConfig} / {@link AccountDecommissioningConfig}*
+ *
+ * Account decommissioning configuration
+ * Defines how accounts with `decommission: true` are taken out of service.
+ *
+ * @example
+ * ```
+ * accountDecommissioning:
+ *   organizationalUnit: Suspended
+ *   scpPolicyName: DecommissionedAccountLockdown
+ *   closeAccount: true
+ * ```
+ */
+export class AccountDecommissioningConfig implements t.TypeOf<typeof AccountsConfigTypes.accountDecommissioningConfig> {
+  /**
+   * The friendly name of the Organizational Unit that decommissioned accounts are moved to.
+   * This Organizational Unit must exist in the organization-config.yaml file.
+   */
+  readonly organizationalUnit: string = '';
+  /**
+   * The name of the service control policy that is attached to decommissioned accounts
+   * to lock them down. The policy must be defined in the organization-config.yaml file.
+   */
+  readonly scpPolicyName: string = '';
+  /**
+   * (OPTIONAL) Close decommissioned accounts with the AWS Organizations CloseAccount API.
+   * Closed accounts are suspended and leave the organization after the post-closure period.
+   *
+   * Default value is false
+   */
+  readonly closeAccount: boolean | undefined = undefined;
 }
+
 /**
  *
  */
@@ -230,6 +363,13 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
    */
   public accountIds: AccountIdConfig[] | undefined = undefined;
 
+  /**
+   * (OPTIONAL) Account decommissioning configuration
+   *
+   * @see AccountDecommissioningConfig
+   */
+  readonly accountDecommissioning: AccountDecommissioningConfig | undefined = undefined;
+
   /**
    *
    * @param props
@@ -251,6 +391,9 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
           email: props.managementAccountEmail,
           organizationalUnit: 'Root',
           warm: false,
+          tags: undefined,
+          metadata: undefined,
+          decommission: undefined,
         },
         {
           name: AccountsConfig.LOG_ARCHIVE_ACCOUNT,
@@ -259,6 +402,9 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
           email: props.logArchiveAccountEmail,
           organizationalUnit: 'Security',
           warm: false,
+          tags: undefined,
+          metadata: undefined,
+          decommission: undefined,
         },
         {
           name: AccountsConfig.AUDIT_ACCOUNT,
@@ -267,6 +413,9 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
           email: props.auditAccountEmail,
           organizationalUnit: 'Security',
           warm: false,
+          tags: undefined,
+          metadata: undefined,
+          decommission: undefined,
         },
       ];
     }
@@ -279,6 +428,12 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
     }
   }
 
+  // Helper function to check that an account is not suspended or pending closure, accounts without a status are not
+  // read from AWS Organizations and are treated as active
+  private isAccountIdActive(accountId: AccountIdConfig | undefined): boolean {
+    return !accountId?.status || accountId.status === 'ACTIVE';
+  }
+
   /**
    *
    * @param dir
@@ -382,6 +537,17 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
     throw new Error('configuration validation failed.');
   }
 
+  /**
+   * Returns whether the ID of the account was loaded. Closed accounts are removed from AWS Organizations
+   * after the post-closure period and no longer have an account ID.
+   * @param name
+   * @returns
+   */
+  public isAccountIdLoaded(name: string): boolean {
+    const email = this.getAccount(name).email;
+    return !!this.accountIds?.find(item => item.email === email);
+  }
+
   public getAccountNameById(accountId: string): string | undefined {
     const email = this.accountIds?.find(item => item.accountId === accountId)?.email;
     const accounts = this.getAccounts(false);
@@ -396,20 +562,15 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
     throw new Error('configuration validation failed.');
   }
 
+  /**
+   * Returns the IDs of the accounts that are in service: accounts that are not decommissioned
+   * and that are not suspended or pending closure in AWS Organizations
+   * @returns
+   */
   public getAccountIds(): string[] {
-    const accountEmails = [...this.mandatoryAccounts, ...this.workloadAccounts].map(account => account.email);
+    const accountEmails = this.getActiveAccounts().map(account => account.email);
     const lzaAccounts =
-      this.accountIds?.filter(item => {
-        if (accountEmails.includes(item.email)) {
-          if (!item.status) {
-            return true;
-          }
-          if (item.status === 'ACTIVE') {
-            return true;
-          }
-        }
-        return false;
-      }) ?? [];
+      this.accountIds?.filter(item => accountEmails.includes(item.email) && this.isAccountIdActive(item)) ?? [];
     return lzaAccounts.map(account => account.accountId);
   }
 
@@ -441,17 +602,40 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
     }
   }
 
+  /**
+   * Returns the accounts that are not decommissioned
+   * @returns
+   */
+  public getActiveAccounts(): (AccountConfig | GovCloudAccountConfig)[] {
+    return [...this.mandatoryAccounts, ...this.workloadAccounts].filter(account => !account.decommission);
+  }
+
+  /**
+   * Returns the accounts that are decommissioned
+   * @returns
+   */
+  public getDecommissionedAccounts(): (AccountConfig | GovCloudAccountConfig)[] {
+    return [...this.mandatoryAccounts, ...this.workloadAccounts].filter(account => account.decommission);
+  }
+
+  /**
+   * Returns the IDs of the accounts targeted by a deployment target. Decommissioned accounts, and accounts
+   * that are suspended or pending closure in AWS Organizations, are not included.
+   * @param deploymentTargets
+   * @returns
+   */
   public getAccountIdsFromDeploymentTarget(deploymentTargets: t.DeploymentTargets): string[] {
     const accountIds: string[] = [];
+    const activeAccounts = this.getActiveAccounts();
 
     for (const ou of deploymentTargets.organizationalUnits ?? []) {
       if (ou === 'Root') {
-        for (const account of [...this.mandatoryAccounts, ...this.workloadAccounts]) {
+        for (const account of activeAccounts) {
           const accountId = this.getAccountId(account.name);
           this._addAccountId(accountIds, accountId);
         }
       } else {
-        for (const account of [...this.mandatoryAccounts, ...this.workloadAccounts]) {
+        for (const account of activeAccounts) {
           if (ou === account.organizationalUnit) {
             const accountId = this.getAccountId(account.name);
             this._addAccountId(accountIds, accountId);
@@ -461,16 +645,188 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
     }
 
     for (const account of deploymentTargets.accounts ?? []) {
+      if (this.getAccount(account).decommission) {
+        continue;
+      }
       const accountId = this.getAccountId(account);
       this._addAccountId(accountIds, accountId);
     }
 
+    for (const account of this.getAccountsFromSelectors(deploymentTargets)) {
+      if (account.decommission) {
+        continue;
+      }
+      this._addAccountId(accountIds, this.getAccountId(account.name));
+    }
+
     const excludedAccountIds = this.getExcludedAccountIds(deploymentTargets);
-    const filteredAccountIds = accountIds.filter(item => !excludedAccountIds.includes(item));
+    const filteredAccountIds = accountIds.filter(
+      item =>
+        !excludedAccountIds.includes(item) &&
+        this.isAccountIdActive(this.accountIds?.find(accountIdItem => accountIdItem.accountId === item)),
+    );
 
     return filteredAccountIds;
   }
 
+  /**
+   * Returns the accounts selected by the attribute selectors of a deployment target:
+   * `accountTags`, `accountNamePattern` and `nestedOrganizationalUnits`.
+   *
+   * Accounts targeted by `organizationalUnits` and `accounts` are not included unless
+   * a selector also matches them, and `excludedAccounts` is not applied.
+   * @param deploymentTargets
+   * @returns
+   */
+  public getAccountsFromSelectors(deploymentTargets: t.DeploymentTargets): (AccountConfig | GovCloudAccountConfig)[] {
+    return [...this.mandatoryAccounts, ...this.workloadAccounts].filter(
+      account => this.getSelectorMatchReasons(account, deploymentTargets).length > 0,
+    );
+  }
+
+  /**
+   * Checks whether an account is matched by the attribute selectors of a deployment target.
+   *
+   * Accounts that are members of an ignored organizational unit are not selected.
+   * @param deploymentTargets
+   * @param accountId
+   * @param isIgnored Function that returns true when an organizational unit is ignored
+   * @returns
+   */
+  public isAccountSelected(
+    deploymentTargets: t.DeploymentTargets,
+    accountId: string,
+    isIgnored: (organizationalUnit: string) => boolean,
+  ): boolean {
+    const account = this.getAccountsFromSelectors(deploymentTargets).find(
+      item => this.getAccountId(item.name) === accountId,
+    );
+
+    if (!account) {
+      return false;
+    }
+    if (isIgnored(account.organizationalUnit)) {
+      logger.info(`Account ${account.name} was not included as it is a member of an ignored organizational unit.`);
+      return false;
+    }
+    logger.info(`${account.name} account included by deployment target selectors`);
+    return true;
+  }
+
+  /**
+   * Returns the names of the accounts a deployment target is attached to individually, for resources
+   * attached to organizational units and accounts such as organization policies.
+   *
+   * These are the accounts listed in `accounts` and the accounts matched by the attribute selectors.
+   * Selected accounts that are members of a targeted organizational unit, or of a unit nested under one,
+   * are left out since the attachment to the organizational unit already applies to them.
+   * @param deploymentTargets
+   * @returns
+   */
+  public getDeploymentTargetAccountNames(deploymentTargets: t.DeploymentTargets): string[] {
+    const organizationalUnits = deploymentTargets.organizationalUnits ?? [];
+    const selectedAccountNames = this.getAccountsFromSelectors(deploymentTargets)
+      .filter(
+        account =>
+          !organizationalUnits.some(
+            ou =>
+              ou === 'Root' || account.organizationalUnit === ou || account.organizationalUnit?.startsWith(`${ou}/`),
+          ) && !deploymentTargets.excludedAccounts?.includes(account.name),
+      )
+      .map(account => account.name);
+
+    return [...new Set([...(deploymentTargets.accounts ?? []), ...selectedAccountNames])];
+  }
+
+  /**
+   * Explains, for every account, whether and why it is targeted by a deployment target
+   * @param deploymentTargets
+   * @returns
+   */
+  public getDeploymentTargetReport(deploymentTargets: t.DeploymentTargets): DeploymentTargetMatch[] {
+    return [...this.mandatoryAccounts, ...this.workloadAccounts].map(account => {
+      const reasons: string[] = [];
+      for (const ou of deploymentTargets.organizationalUnits ?? []) {
+        if (ou === 'Root') {
+          reasons.push('organizationalUnits includes Root');
+        } else if (ou === account.organizationalUnit) {
+          reasons.push(`organizationalUnits includes ${ou}`);
+        }
+      }
+      if (deploymentTargets.accounts?.includes(account.name)) {
+        reasons.push('accounts includes the account');
+      }
+      reasons.push(...this.getSelectorMatchReasons(account, deploymentTargets));
+
+      if (deploymentTargets.excludedAccounts?.includes(account.name)) {
+        return { account: account.name, included: false, reasons: ['excludedAccounts includes the account'] };
+      }
+      return { account: account.name, included: reasons.length > 0, reasons };
+    });
+  }
+
+  /**
+   * Returns the reasons an account is matched by the attribute selectors of a deployment target
+   * @param account
+   * @param deploymentTargets
+   * @returns
+   */
+  private getSelectorMatchReasons(
+    account: AccountConfig | GovCloudAccountConfig,
+    deploymentTargets: t.DeploymentTargets,
+  ): string[] {
+    const reasons: string[] = [];
+
+    if (deploymentTargets.nestedOrganizationalUnits) {
+      const parentOu = (deploymentTargets.organizationalUnits ?? []).find(ou =>
+        account.organizationalUnit?.startsWith(`${ou}/`),
+      );
+      if (parentOu) {
+        reasons.push(`organizationalUnit ${account.organizationalUnit} is nested under ${parentOu}`);
+      }
+    }
+
+    if (
+      deploymentTargets.accountNamePattern &&
+      AccountsConfig.getAccountNamePatternRegex(deploymentTargets.accountNamePattern).test(account.name)
+    ) {
+      reasons.push(`account name matches accountNamePattern ${deploymentTargets.accountNamePattern}`);
+    }
+
+    const accountTags = Object.entries(deploymentTargets.accountTags ?? {});
+    if (
+      accountTags.length > 0 &&
+      accountTags.every(([key, value]) =>
+        account.tags?.find(tag => tag.key === key && (value === '*' || tag.value === value)),
+      )
+    ) {
+      reasons.push(`account tags match accountTags ${accountTags.map(([key, value]) => `${key}=${value}`).join(',')}`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Converts an account name pattern with `*` and `?` wildcards to a regular expression
+   * @param pattern
+   * @returns
+   */
+  public static getAccountNamePatternRegex(pattern: string): RegExp {
+    const expression = pattern
+      .split('')
+      .map(character => {
+        if (character === '*') {
+          return '.*';
+        }
+        if (character === '?') {
+          return '.';
+        }
+        return character.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${expression}$`);
+  }
+
   public getExcludedAccountIds(deploymentTargets: t.DeploymentTargets): string[] {
     const accountIds: string[] = [];
 
@@ -11,6 +11,7 @@
  *  and limitations under the License.
  */
 
+export * from './json-schema';
 export * from './parse';
 export * from './reporter';
 export * from './types';
@@ -0,0 +1,235 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as t from 'io-ts';
+import { CidrType, DefaultedType, EnumType, OptionalType, SizedType, WithSize } from './types';
+
+/**
+ * JSON Schema (draft-07) document generated from an io-ts type
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  enum?: ReadonlyArray<string | number>;
+  const?: string | number | boolean;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  propertyNames?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  definitions?: { [key: string]: JsonSchema };
+}
+
+/**
+ * Descriptions of a named io-ts type and its properties
+ */
+export interface JsonSchemaDescription {
+  readonly description?: string;
+  readonly properties: { [key: string]: string };
+}
+
+/**
+ * Options used to convert io-ts types to JSON Schema
+ */
+export interface JsonSchemaOptions {
+  /**
+   * Named types that are emitted once in `definitions` and referenced with `$ref`
+   */
+  readonly definitions: Map<t.Any, string>;
+  /**
+   * Descriptions of named types, keyed by the definition name
+   */
+  readonly descriptions: { [key: string]: JsonSchemaDescription };
+}
+
+/**
+ * Matches an IPv4 CIDR range, for example 10.0.0.0/16
+ */
+const IPV4_CIDR_PATTERN =
+  '^((25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])\\.){3}(25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])/(3[0-2]|[12]?[0-9])$';
+
+/**
+ * Convert an io-ts type to a JSON Schema document. Named types that are reachable
+ * from the root type are emitted in the `definitions` section of the document.
+ *
+ * @param type The root io-ts type
+ * @param title The title of the document, usually the configuration file name
+ * @param options Named types and their descriptions
+ * @returns
+ */
+export function toJsonSchema(type: t.Any, title: string, options: JsonSchemaOptions): JsonSchema {
+  const definitions: { [key: string]: JsonSchema } = {};
+  const rootName = options.definitions.get(type);
+  const root = new JsonSchemaConverter(options, definitions).convertType(type, false);
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title,
+    ...(rootName ? definitions[rootName] : root),
+    definitions: Object.fromEntries(
+      Object.keys(definitions)
+        .filter(name => name !== rootName)
+        .sort()
+        .map(name => [name, definitions[name]]),
+    ),
+  };
+}
+
+class JsonSchemaConverter {
+  constructor(
+    private readonly options: JsonSchemaOptions,
+    private readonly definitions: { [key: string]: JsonSchema },
+  ) {}
+
+  /**
+   * Convert a type, referencing the type definition when the type is named
+   * @param type
+   * @param reference Whether a named type is referenced instead of inlined
+   * @returns
+   */
+  convertType(type: t.Any, reference = true): JsonSchema {
+    const name = this.options.definitions.get(type) ?? (type instanceof t.RecursiveType ? type.name : undefined);
+    if (!name) {
+      return this.convertAnonymousType(type);
+    }
+
+    if (!this.definitions[name]) {
+      // Register the definition before converting it to support recursive types
+      this.definitions[name] = {};
+      const description = this.options.descriptions[name]?.description;
+      const schema = this.convertAnonymousType(type, name);
+      this.definitions[name] = description ? { description, ...schema } : schema;
+    }
+
+    return reference ? { $ref: `#/definitions/${name}` } : this.definitions[name];
+  }
+
+  private convertAnonymousType(type: t.Any, name?: string): JsonSchema {
+    // Optional and defaulted values also accept null, for example an empty YAML key
+    if (type instanceof OptionalType) {
+      return { anyOf: [this.convertType(type.type), { type: 'null' }] };
+    }
+    if (type instanceof DefaultedType) {
+      return { anyOf: [this.convertType(type.type), { type: 'null' }], default: type.defaultValue };
+    }
+    if (type instanceof SizedType) {
+      return this.convertSizedType(type);
+    }
+    if (type instanceof EnumType) {
+      return { type: typeof type.values[0] === 'number' ? 'number' : 'string', enum: type.values };
+    }
+    if (type instanceof CidrType) {
+      return { type: 'string', pattern: IPV4_CIDR_PATTERN };
+    }
+    if (type instanceof t.InterfaceType || type instanceof t.PartialType) {
+      return this.convertProps(type.props, type instanceof t.InterfaceType, name);
+    }
+    if (type instanceof t.ArrayType || type instanceof t.ReadonlyArrayType) {
+      return { type: 'array', items: this.convertType(type.type) };
+    }
+    if (type instanceof t.DictionaryType) {
+      const propertyNames = this.convertType(type.domain);
+      return {
+        type: 'object',
+        ...(Object.keys(propertyNames).some(key => key !== 'type') ? { propertyNames } : {}),
+        additionalProperties: this.convertType(type.codomain),
+      };
+    }
+    if (type instanceof t.UnionType) {
+      return this.convertUnionType(type.types);
+    }
+    if (type instanceof t.IntersectionType) {
+      return { allOf: type.types.map((item: t.Any) => this.convertType(item)) };
+    }
+    if (type instanceof t.LiteralType) {
+      return { const: type.value };
+    }
+    if (type instanceof t.RecursiveType || type instanceof t.RefinementType || type instanceof t.ReadonlyType) {
+      return this.convertType(type.type);
+    }
+    if (type instanceof t.ExactType) {
+      return this.convertType(type.type);
+    }
+    if (type instanceof t.StringType) {
+      return { type: 'string' };
+    }
+    if (type instanceof t.NumberType) {
+      return { type: 'number' };
+    }
+    if (type instanceof t.BooleanType) {
+      return { type: 'boolean' };
+    }
+    if (type instanceof t.NullType) {
+      return { type: 'null' };
+    }
+    if (type instanceof t.UnknownType || type instanceof t.AnyType) {
+      return {};
+    }
+
+    throw new Error(`Unable to convert io-ts type ${type.name} to JSON Schema`);
+  }
+
+  private convertProps(props: t.Props, hasRequiredProps: boolean, name?: string): JsonSchema {
+    const descriptions = name ? this.options.descriptions[name]?.properties ?? {} : {};
+    const properties: { [key: string]: JsonSchema } = {};
+    const required: string[] = [];
+
+    for (const [key, propType] of Object.entries(props)) {
+      const property = this.convertType(propType);
+      properties[key] = descriptions[key] ? { description: descriptions[key], ...property } : property;
+      if (hasRequiredProps && !(propType instanceof OptionalType) && !(propType instanceof DefaultedType)) {
+        required.push(key);
+      }
+    }
+
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+  }
+
+  private convertSizedType(type: SizedType<WithSize, t.Type<WithSize>>): JsonSchema {
+    const schema = this.convertType(type.type);
+    const [minKey, maxKey] =
+      schema.type === 'string'
+        ? ['minLength', 'maxLength']
+        : schema.type === 'array'
+        ? ['minItems', 'maxItems']
+        : ['minimum', 'maximum'];
+
+    return {
+      ...schema,
+      ...(type.min ? { [minKey]: type.min } : {}),
+      ...(type.max ? { [maxKey]: type.max } : {}),
+    };
+  }
+
+  private convertUnionType(types: t.Any[]): JsonSchema {
+    const members = types.filter(item => !(item instanceof t.UndefinedType));
+    if (members.every(item => item instanceof t.LiteralType)) {
+      return { enum: members.map(item => (item as t.LiteralType<string | number>).value) };
+    }
+
+    return { anyOf: members.map(item => this.convertType(item)) };
+  }
+}
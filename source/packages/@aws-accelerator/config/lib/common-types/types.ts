@@ -234,6 +234,9 @@ export const deploymentTargets = t.interface({
   accounts: optional(t.array(nonEmptyString)),
   excludedRegions: optional(t.array(nonEmptyString)),
   excludedAccounts: optional(t.array(nonEmptyString)),
+  accountTags: optional(t.dictionary(nonEmptyString, t.string)),
+  accountNamePattern: optional(nonEmptyString),
+  nestedOrganizationalUnits: optional(t.boolean),
 });
 
 /**
@@ -256,6 +259,21 @@ export const deploymentTargets = t.interface({
  *   excludedAccounts:
  *     - Management
  * ```
+ *
+ * Accounts can also be selected by attribute. The following example
+ * would deploy a resource to every account tagged `env: prod` and
+ * every account whose name starts with `app-`:
+ * @example
+ * ```
+ * deploymentTargets:
+ *   accountTags:
+ *     env: prod
+ *   accountNamePattern: app-*
+ * ```
+ *
+ * Organization policies are attached to selected accounts individually, unless the
+ * account is already covered by one of the `organizationalUnits`. Control Tower
+ * controls do not support selectors.
  */
 export class DeploymentTargets implements t.TypeOf<typeof deploymentTargets> {
   /**
@@ -265,8 +283,7 @@ export class DeploymentTargets implements t.TypeOf<typeof deploymentTargets> {
    *
    * @remarks
    * Any nested OUs that you would like to deploy resources to must be explicitly
-   * defined in this property. Deployment targets will not automatically deploy to
-   * nested OUs.
+   * defined in this property, unless `nestedOrganizationalUnits` is enabled.
    */
   readonly organizationalUnits: string[] = [];
   /**
@@ -285,6 +302,32 @@ export class DeploymentTargets implements t.TypeOf<typeof deploymentTargets> {
    * Use this property to explicitly define one or more accounts to exclude from deployment.
    */
   readonly excludedAccounts: string[] = [];
+  /**
+   * (OPTIONAL) Use this property to select accounts by the tags defined in accounts-config.yaml.
+   * An account is selected when it has every listed tag key with the listed value.
+   * A value of `*` matches any value of the tag key.
+   *
+   * @remarks
+   * Selected accounts are added to the accounts targeted by `organizationalUnits` and `accounts`.
+   * `excludedAccounts` and `excludedRegions` still apply.
+   */
+  readonly accountTags: { [key: string]: string } | undefined = undefined;
+  /**
+   * (OPTIONAL) Use this property to select accounts whose name matches a pattern.
+   * The pattern supports the `*` (any characters) and `?` (single character) wildcards.
+   *
+   * @remarks
+   * Selected accounts are added to the accounts targeted by `organizationalUnits` and `accounts`.
+   * `excludedAccounts` and `excludedRegions` still apply.
+   */
+  readonly accountNamePattern: string | undefined = undefined;
+  /**
+   * (OPTIONAL) When enabled, accounts in OUs nested under the organizational units defined
+   * in `organizationalUnits` are also targeted.
+   *
+   * @default false
+   */
+  readonly nestedOrganizationalUnits: boolean | undefined = undefined;
 }
 
 /**
@@ -25,6 +25,7 @@ import * as t from './common-types';
 import { AccountsConfig } from './accounts-config';
 import { ReplacementsConfig } from './replacements-config';
 import { OrganizationConfig } from './organization-config';
+import { SecurityConfigTypes, SnsSubscriptionConfig } from './security-config';
 
 const logger = createLogger(['global-config']);
 /**
@@ -157,6 +158,36 @@ export abstract class GlobalConfigTypes {
     replaceLogDestinationArn: t.optional(t.nonEmptyString),
   });
 
+  static readonly securityLakeSourceEnum = t.enums('SecurityLakeSource', [
+    'CLOUD_TRAIL_MGMT',
+    'VPC_FLOW',
+    'ROUTE53',
+    'SH_FINDINGS',
+  ]);
+
+  static readonly securityLakeRollupRegionConfig = t.interface({
+    region: t.region,
+    contributingRegions: t.array(t.region),
+  });
+
+  static readonly securityLakeSubscriberConfig = t.interface({
+    name: t.nonEmptyString,
+    description: t.optional(t.nonEmptyString),
+    account: t.nonEmptyString,
+    externalId: t.nonEmptyString,
+    accessType: t.enums('SecurityLakeAccessType', ['S3', 'LAKEFORMATION']),
+    sources: t.optional(t.array(this.securityLakeSourceEnum)),
+  });
+
+  static readonly securityLakeConfig = t.interface({
+    enable: t.boolean,
+    delegatedAdminAccount: t.nonEmptyString,
+    excludeRegions: t.optional(t.array(t.region)),
+    sources: t.optional(t.array(this.securityLakeSourceEnum)),
+    rollupRegions: t.optional(t.array(this.securityLakeRollupRegionConfig)),
+    subscribers: t.optional(t.array(this.securityLakeSubscriberConfig)),
+  });
+
   static readonly loggingConfig = t.interface({
     account: t.nonEmptyString,
     centralizedLoggingRegion: t.optional(t.nonEmptyString),
@@ -167,6 +198,7 @@ export abstract class GlobalConfigTypes {
     centralLogBucket: t.optional(GlobalConfigTypes.centralLogBucketConfig),
     elbLogBucket: t.optional(GlobalConfigTypes.elbLogBucketConfig),
     cloudwatchLogs: t.optional(GlobalConfigTypes.cloudwatchLogsConfig),
+    securityLake: t.optional(GlobalConfigTypes.securityLakeConfig),
   });
 
   static readonly artifactTypeEnum = t.enums('ArtifactType', ['REDSHIFT', 'QUICKSIGHT', 'ATHENA']);
@@ -194,8 +226,28 @@ export abstract class GlobalConfigTypes {
     subscriptionType: t.enums('SubscriptionType', ['EMAIL', 'SNS']),
   });
 
+  static readonly budgetActionTargetsConfig = t.interface({
+    accounts: t.optional(t.array(t.nonEmptyString)),
+    organizationalUnits: t.optional(t.array(t.nonEmptyString)),
+    roles: t.optional(t.array(t.nonEmptyString)),
+    groups: t.optional(t.array(t.nonEmptyString)),
+    users: t.optional(t.array(t.nonEmptyString)),
+  });
+
+  static readonly budgetActionConfig = t.interface({
+    actionType: t.enums('BudgetActionType', ['APPLY_SCP_POLICY', 'APPLY_IAM_POLICY']),
+    notificationType: t.enums('NotificationType', ['ACTUAL', 'FORECASTED']),
+    thresholdType: t.enums('ThresholdType', ['PERCENTAGE', 'ABSOLUTE_VALUE']),
+    threshold: t.number,
+    approvalModel: t.enums('ApprovalModel', ['AUTOMATIC', 'MANUAL']),
+    policyName: t.nonEmptyString,
+    targets: this.budgetActionTargetsConfig,
+    subscriptionType: t.enums('SubscriptionType', ['EMAIL', 'SNS']),
+    recipients: t.array(t.nonEmptyString),
+  });
+
   static readonly budgetConfig = t.interface({
-    amount: t.number,
+    amount: t.union([t.number, t.nonEmptyString]),
     name: t.nonEmptyString,
     type: t.enums('NotificationType', [
       'USAGE',
@@ -219,6 +271,8 @@ export abstract class GlobalConfigTypes {
     useBlended: t.optional(t.boolean),
     unit: t.optional(t.nonEmptyString),
     notifications: t.optional(t.array(this.notificationConfig)),
+    linkedAccounts: t.optional(t.deploymentTargets),
+    actions: t.optional(t.array(this.budgetActionConfig)),
     deploymentTargets: t.optional(t.deploymentTargets),
   });
 
@@ -230,24 +284,147 @@ export abstract class GlobalConfigTypes {
     regions: t.optional(t.array(t.region)),
   });
 
+  static readonly costAnomalyMonitorConfig = t.interface({
+    name: t.nonEmptyString,
+    type: t.enums('CostAnomalyMonitorType', ['SERVICE', 'LINKED_ACCOUNT', 'COST_CATEGORY', 'TAG']),
+    accounts: t.optional(t.array(t.nonEmptyString)),
+    key: t.optional(t.nonEmptyString),
+    values: t.optional(t.array(t.nonEmptyString)),
+  });
+
+  static readonly costAnomalyThresholdExpressionConfig = t.interface({
+    totalImpactAbsolute: t.optional(t.number),
+    totalImpactPercentage: t.optional(t.number),
+    operator: t.optional(t.enums('CostAnomalyThresholdOperator', ['AND', 'OR'])),
+  });
+
+  static readonly costAnomalySubscriptionConfig = t.interface({
+    name: t.nonEmptyString,
+    frequency: t.enums('CostAnomalySubscriptionFrequency', ['DAILY', 'IMMEDIATE', 'WEEKLY']),
+    monitors: t.array(t.nonEmptyString),
+    thresholdExpression: this.costAnomalyThresholdExpressionConfig,
+    snsTopic: t.optional(t.nonEmptyString),
+    emailAddresses: t.optional(t.array(t.nonEmptyString)),
+  });
+
+  static readonly costAnomalyDetectionConfig = t.interface({
+    monitors: t.array(this.costAnomalyMonitorConfig),
+    subscriptions: t.optional(t.array(this.costAnomalySubscriptionConfig)),
+  });
+
+  static readonly costCategoryTagConfig = t.interface({
+    key: t.nonEmptyString,
+    values: t.array(t.nonEmptyString),
+  });
+
+  static readonly costCategoryRuleConfig = t.interface({
+    value: t.nonEmptyString,
+    accounts: t.optional(t.array(t.nonEmptyString)),
+    organizationalUnits: t.optional(t.array(t.nonEmptyString)),
+    tag: t.optional(this.costCategoryTagConfig),
+    inheritedTagKey: t.optional(t.nonEmptyString),
+  });
+
+  static readonly costCategoryConfig = t.interface({
+    name: t.nonEmptyString,
+    defaultValue: t.optional(t.nonEmptyString),
+    rules: t.array(this.costCategoryRuleConfig),
+  });
+
   static readonly reportConfig = t.interface({
     costAndUsageReport: t.optional(this.costAndUsageReportConfig),
     budgets: t.optional(t.array(this.budgetConfig)),
+    costAnomalyDetection: t.optional(this.costAnomalyDetectionConfig),
+    costCategories: t.optional(t.array(this.costCategoryConfig)),
+    costAllocationTags: t.optional(t.array(t.nonEmptyString)),
+  });
+
+  static readonly backupVaultLockConfig = t.interface({
+    mode: t.enums('BackupVaultLockMode', ['governance', 'compliance']),
+    minRetentionDays: t.number,
+    maxRetentionDays: t.optional(t.number),
+    changeableForDays: t.optional(t.number),
+  });
+
+  static readonly backupVaultEventEnum = t.enums('BackupVaultEvent', [
+    'BACKUP_JOB_STARTED',
+    'BACKUP_JOB_COMPLETED',
+    'BACKUP_JOB_SUCCESSFUL',
+    'BACKUP_JOB_FAILED',
+    'BACKUP_JOB_EXPIRED',
+    'RESTORE_JOB_STARTED',
+    'RESTORE_JOB_COMPLETED',
+    'RESTORE_JOB_SUCCESSFUL',
+    'RESTORE_JOB_FAILED',
+    'COPY_JOB_STARTED',
+    'COPY_JOB_SUCCESSFUL',
+    'COPY_JOB_FAILED',
+    'RECOVERY_POINT_MODIFIED',
+    'BACKUP_PLAN_CREATED',
+    'BACKUP_PLAN_MODIFIED',
+    'S3_BACKUP_OBJECT_FAILED',
+    'S3_RESTORE_OBJECT_FAILED',
+  ]);
+
+  static readonly backupVaultNotificationConfig = t.interface({
+    snsTopic: t.nonEmptyString,
+    events: t.optional(t.array(this.backupVaultEventEnum)),
   });
 
   static readonly vaultConfig = t.interface({
     name: t.nonEmptyString,
     deploymentTargets: t.deploymentTargets,
     policy: t.optional(t.nonEmptyString),
+    lock: t.optional(this.backupVaultLockConfig),
+    notifications: t.optional(this.backupVaultNotificationConfig),
+  });
+
+  static readonly backupLifecycleConfig = t.interface({
+    moveToColdStorageAfterDays: t.optional(t.number),
+    deleteAfterDays: t.optional(t.number),
+  });
+
+  static readonly backupCopyActionConfig = t.interface({
+    vault: t.nonEmptyString,
+    account: t.optional(t.nonEmptyString),
+    region: t.optional(t.region),
+    lifecycle: t.optional(this.backupLifecycleConfig),
+  });
+
+  static readonly backupPlanRuleConfig = t.interface({
+    name: t.nonEmptyString,
+    scheduleExpression: t.optional(t.nonEmptyString),
+    startWindowMinutes: t.optional(t.number),
+    completionWindowMinutes: t.optional(t.number),
+    enableContinuousBackup: t.optional(t.boolean),
+    lifecycle: t.optional(this.backupLifecycleConfig),
+    copyActions: t.optional(t.array(this.backupCopyActionConfig)),
+  });
+
+  static readonly backupSelectionConfig = t.interface({
+    name: t.nonEmptyString,
+    tags: t.optional(t.array(t.tag)),
+    resources: t.optional(t.array(t.nonEmptyString)),
+  });
+
+  static readonly backupPlanConfig = t.interface({
+    name: t.nonEmptyString,
+    vault: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+    rules: t.array(this.backupPlanRuleConfig),
+    selections: t.array(this.backupSelectionConfig),
   });
 
   static readonly backupConfig = t.interface({
     vaults: t.array(this.vaultConfig),
+    plans: t.optional(t.array(this.backupPlanConfig)),
   });
 
   static readonly snsTopicConfig = t.interface({
     name: t.nonEmptyString,
-    emailAddresses: t.array(t.nonEmptyString),
+    emailAddresses: t.optional(t.array(t.nonEmptyString)),
+    subscriptions: t.optional(t.array(SecurityConfigTypes.snsSubscriptionConfig)),
+    kmsKey: t.optional(t.nonEmptyString),
   });
 
   static readonly snsConfig = t.interface({
@@ -278,6 +455,8 @@ export abstract class GlobalConfigTypes {
   });
   static readonly acceleratorSettingsConfig = t.interface({
     maxConcurrentStacks: t.optional(t.number),
+    detectDrift: t.optional(t.boolean),
+    failOnDrift: t.optional(t.boolean),
   });
 
   static readonly lambdaConfig = t.type({
@@ -1396,6 +1575,139 @@ export class CloudWatchLogsConfig implements t.TypeOf<typeof GlobalConfigTypes.c
   readonly replaceLogDestinationArn: string | undefined = undefined;
 }
 
+/**
+ * *{@link GlobalConfig} / {@link LoggingConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeRollupRegionConfig}*
+ *
+ * Amazon Security Lake rollup region configuration.
+ * Data from the contributing regions is replicated to the rollup region.
+ *
+ * @example
+ * ```
+ * - region: us-east-1
+ *   contributingRegions:
+ *     - us-west-2
+ * ```
+ */
+export class SecurityLakeRollupRegionConfig
+  implements t.TypeOf<typeof GlobalConfigTypes.securityLakeRollupRegionConfig>
+{
+  /**
+   * The rollup region that data from the contributing regions is replicated to
+   */
+  readonly region: t.Region = 'us-east-1';
+  /**
+   * List of regions whose data is replicated to the rollup region
+   */
+  readonly contributingRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link GlobalConfig} / {@link LoggingConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeSubscriberConfig}*
+ *
+ * Amazon Security Lake subscriber configuration.
+ * Subscribers are created in the home region of the Security Lake delegated administrator account.
+ *
+ * @example
+ * ```
+ * - name: siem
+ *   description: SIEM log ingestion
+ *   account: Audit
+ *   externalId: siem-external-id
+ *   accessType: S3
+ *   sources:
+ *     - CLOUD_TRAIL_MGMT
+ *     - SH_FINDINGS
+ * ```
+ */
+export class SecurityLakeSubscriberConfig implements t.TypeOf<typeof GlobalConfigTypes.securityLakeSubscriberConfig> {
+  /**
+   * The name of the subscriber
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) The description of the subscriber
+   */
+  readonly description: string | undefined = undefined;
+  /**
+   * The subscriber account. Either an account name from accounts-config.yaml, or a 12-digit AWS account ID for subscribers outside the organization
+   */
+  readonly account: string = '';
+  /**
+   * The external ID the subscriber uses to assume the Security Lake subscriber role
+   */
+  readonly externalId: string = '';
+  /**
+   * The access type granted to the subscriber.
+   * `S3` grants data access to the Security Lake buckets, `LAKEFORMATION` grants query access through AWS Lake Formation.
+   */
+  readonly accessType: 'S3' | 'LAKEFORMATION' = 'S3';
+  /**
+   * (OPTIONAL) The log sources the subscriber has access to. When undefined, the subscriber has access to all configured sources
+   */
+  readonly sources: t.TypeOf<typeof GlobalConfigTypes.securityLakeSourceEnum>[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link LoggingConfig} / {@link SecurityLakeConfig}*
+ *
+ * Amazon Security Lake configuration.
+ * Security Lake is enabled organization-wide from the delegated administrator account,
+ * which must be either the log archive or the audit account.
+ * The data lake lifecycle matches the central log bucket lifecycle rules, see {@link CentralLogBucketConfig}.
+ *
+ * @example
+ * ```
+ * securityLake:
+ *   enable: true
+ *   delegatedAdminAccount: LogArchive
+ *   sources:
+ *     - CLOUD_TRAIL_MGMT
+ *     - VPC_FLOW
+ *     - ROUTE53
+ *     - SH_FINDINGS
+ *   rollupRegions:
+ *     - region: us-east-1
+ *       contributingRegions:
+ *         - us-west-2
+ *   subscribers:
+ *     - name: siem
+ *       account: Audit
+ *       externalId: siem-external-id
+ *       accessType: S3
+ * ```
+ */
+export class SecurityLakeConfig implements t.TypeOf<typeof GlobalConfigTypes.securityLakeConfig> {
+  /**
+   * Indicates whether Amazon Security Lake is enabled.
+   */
+  readonly enable: boolean = false;
+  /**
+   * The Security Lake delegated administrator account name. Must be either the log archive or the audit account.
+   */
+  readonly delegatedAdminAccount: string = 'LogArchive';
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from Security Lake. Security Lake is enabled in all other enabledRegions.
+   */
+  readonly excludeRegions: t.Region[] | undefined = undefined;
+  /**
+   * (OPTIONAL) The AWS log sources collected across the organization.
+   * When undefined, CloudTrail management events, VPC flow logs, Route 53 resolver query logs and Security Hub findings are collected.
+   */
+  readonly sources: t.TypeOf<typeof GlobalConfigTypes.securityLakeSourceEnum>[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Rollup region configuration
+   *
+   * @see {@link SecurityLakeRollupRegionConfig}
+   */
+  readonly rollupRegions: SecurityLakeRollupRegionConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Security Lake subscribers
+   *
+   * @see {@link SecurityLakeSubscriberConfig}
+   */
+  readonly subscribers: SecurityLakeSubscriberConfig[] | undefined = undefined;
+}
+
 /**
  * *{@link GlobalConfig} / {@link LoggingConfig}*
  *
@@ -1455,6 +1767,12 @@ export class LoggingConfig implements t.TypeOf<typeof GlobalConfigTypes.loggingC
    * CloudWatch Logging configuration.
    */
   readonly cloudwatchLogs: CloudWatchLogsConfig | undefined = undefined;
+  /**
+   * Amazon Security Lake configuration.
+   *
+   * @see {@link SecurityLakeConfig}
+   */
+  readonly securityLake: SecurityLakeConfig | undefined = undefined;
 }
 
 /**
@@ -1577,14 +1895,46 @@ export class CostAndUsageReportConfig implements t.TypeOf<typeof GlobalConfigTyp
  *          - myemail+pa1-budg@example.com
  *          - myemail+pa2-budg@example.com
  * ```
+ * Budget tracking the accounts of an OU from the management account
+ * ```
+ * budgets:
+ *     - name: sandbox-budget
+ *       timeUnit: MONTHLY
+ *       type: COST
+ *       amount: {{ SandboxBudgetAmount }}
+ *       unit: USD
+ *       linkedAccounts:
+ *         organizationalUnits:
+ *           - Sandbox
+ *       actions:
+ *         - actionType: APPLY_SCP_POLICY
+ *           notificationType: ACTUAL
+ *           thresholdType: PERCENTAGE
+ *           threshold: 100
+ *           approvalModel: AUTOMATIC
+ *           policyName: DenyAllExceptBilling
+ *           targets:
+ *             organizationalUnits:
+ *               - Sandbox
+ *           subscriptionType: EMAIL
+ *           recipients:
+ *             - myemail+pa1-budg@example.com
+ *       deploymentTargets:
+ *         accounts:
+ *           - Management
+ * ```
  */
 export class BudgetReportConfig implements t.TypeOf<typeof GlobalConfigTypes.budgetConfig> {
   /**
    * The cost or usage amount that's associated with a budget forecast, actual spend, or budget threshold.
    *
+   * @remarks
+   * The amount can be provided through a replacement defined in replacements-config.yaml, for example
+   * `amount: {{ WorkloadsBudgetAmount }}`, to use a different amount for each environment.
+   *
    * @default 2000
    */
-  readonly amount = 2000;
+  readonly amount: number | string = 2000;
   /**
    * The name of a budget. The value must be unique within an account. BudgetName can't include : and \ characters. If you don't include value for BudgetName in the template, Billing and Cost Management assigns your budget a randomly generated name.
    */
@@ -1683,6 +2033,21 @@ export class BudgetReportConfig implements t.TypeOf<typeof GlobalConfigTypes.bud
    * The comparison that's used for the notification that's associated with a budget.
    */
   readonly notifications: NotificationConfig[] | undefined = [new NotificationConfig()];
+  /**
+   * (OPTIONAL) OU's and accounts whose costs are tracked by the budget
+   *
+   * @remarks
+   * The budget is filtered by the linked accounts resolved from these targets. Linked account filters are only
+   * supported by budgets deployed to the management account, so `deploymentTargets` must only target the
+   * management account when this property is used.
+   */
+  readonly linkedAccounts: t.DeploymentTargets | undefined = undefined;
+  /**
+   * (OPTIONAL) Actions that run when the budget threshold of the action is exceeded
+   *
+   * @see {@link BudgetActionConfig}
+   */
+  readonly actions: BudgetActionConfig[] | undefined = undefined;
   /**
    * List of OU's and accounts to be configured for Budgets configuration
    */
@@ -1745,6 +2110,120 @@ export class NotificationConfig implements t.TypeOf<typeof GlobalConfigTypes.not
   readonly recipients: string[] | undefined = [];
 }
 
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link BudgetReportConfig} / {@link BudgetActionConfig} / {@link BudgetActionTargetsConfig}*
+ *
+ * Budget action targets configuration
+ *
+ * @example
+ * SCP targets
+ * ```
+ * targets:
+ *   accounts:
+ *     - Workload01
+ *   organizationalUnits:
+ *     - Sandbox
+ * ```
+ * IAM targets
+ * ```
+ * targets:
+ *   roles:
+ *     - Developer
+ * ```
+ */
+export class BudgetActionTargetsConfig implements t.TypeOf<typeof GlobalConfigTypes.budgetActionTargetsConfig> {
+  /**
+   * Accounts the service control policy is attached to, used with APPLY_SCP_POLICY actions
+   */
+  readonly accounts: string[] | undefined = undefined;
+  /**
+   * Organizational units the service control policy is attached to, used with APPLY_SCP_POLICY actions
+   */
+  readonly organizationalUnits: string[] | undefined = undefined;
+  /**
+   * IAM roles the IAM policy is attached to, used with APPLY_IAM_POLICY actions
+   */
+  readonly roles: string[] | undefined = undefined;
+  /**
+   * IAM groups the IAM policy is attached to, used with APPLY_IAM_POLICY actions
+   */
+  readonly groups: string[] | undefined = undefined;
+  /**
+   * IAM users the IAM policy is attached to, used with APPLY_IAM_POLICY actions
+   */
+  readonly users: string[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link BudgetReportConfig} / {@link BudgetActionConfig}*
+ *
+ * Budget action configuration
+ *
+ * @remarks
+ * APPLY_SCP_POLICY actions attach a service control policy defined in organization-config.yaml to accounts or
+ * organizational units, and are only supported by budgets deployed to the management account.
+ * APPLY_IAM_POLICY actions attach a customer managed policy defined in iam-config.yaml to roles, groups or users
+ * of the account the budget is deployed to.
+ *
+ * @example
+ * ```
+ * actions:
+ *   - actionType: APPLY_SCP_POLICY
+ *     notificationType: ACTUAL
+ *     thresholdType: PERCENTAGE
+ *     threshold: 100
+ *     approvalModel: MANUAL
+ *     policyName: DenyAllExceptBilling
+ *     targets:
+ *       organizationalUnits:
+ *         - Sandbox
+ *     subscriptionType: EMAIL
+ *     recipients:
+ *       - myemail+pa1-budg@example.com
+ * ```
+ */
+export class BudgetActionConfig implements t.TypeOf<typeof GlobalConfigTypes.budgetActionConfig> {
+  /**
+   * The type of action, either attach a service control policy or an IAM policy
+   */
+  readonly actionType: 'APPLY_SCP_POLICY' | 'APPLY_IAM_POLICY' = 'APPLY_SCP_POLICY';
+  /**
+   * Whether the action runs on the actual or forecasted spend
+   */
+  readonly notificationType: 'ACTUAL' | 'FORECASTED' = 'ACTUAL';
+  /**
+   * The type of threshold of the action
+   */
+  readonly thresholdType: 'PERCENTAGE' | 'ABSOLUTE_VALUE' = 'PERCENTAGE';
+  /**
+   * The threshold that runs the action when it is exceeded
+   */
+  readonly threshold: number = 100;
+  /**
+   * Whether the action runs automatically or waits for an approval in the AWS Budgets console
+   */
+  readonly approvalModel: 'AUTOMATIC' | 'MANUAL' = 'MANUAL';
+  /**
+   * The name of the service control policy defined in organization-config.yaml, or of the customer managed policy
+   * defined in iam-config.yaml, to attach
+   */
+  readonly policyName: string = '';
+  /**
+   * The targets the policy is attached to
+   *
+   * @see {@link BudgetActionTargetsConfig}
+   */
+  readonly targets: BudgetActionTargetsConfig = new BudgetActionTargetsConfig();
+  /**
+   * The type of notification that AWS sends to the subscribers of the action.
+   */
+  readonly subscriptionType: 'EMAIL' | 'SNS' = 'EMAIL';
+  /**
+   * The recipients list that AWS sends action notifications to, either an SNS topic or an email.
+   */
+  readonly recipients: string[] = [];
+}
+
 /**
  * {@link GlobalConfig} / {@link ReportConfig}
  *
@@ -1829,68 +2308,712 @@ export class ReportConfig implements t.TypeOf<typeof GlobalConfigTypes.reportCon
    * ```
    */
   readonly budgets: BudgetReportConfig[] = [];
+  /**
+   * (OPTIONAL) Cost Anomaly Detection configuration
+   *
+   * @see {@link CostAnomalyDetectionConfig}
+   */
+  readonly costAnomalyDetection: CostAnomalyDetectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Cost category definitions, deployed to the management account
+   *
+   * @see {@link CostCategoryConfig}
+   */
+  readonly costCategories: CostCategoryConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) User-defined tag keys to activate as cost allocation tags in the management account
+   *
+   * @remarks
+   * A tag key can only be activated once it has been applied to a resource. Tag keys removed from this list are
+   * deactivated. Tag keys that were deactivated outside of the accelerator are activated again. Tag keys that are
+   * active but not in this list, and tag keys that could not be activated, are reported in the
+   * UnmanagedCostAllocationTagsOutput and FailedCostAllocationTagsOutput outputs of the organizations stack.
+   * A maximum of 500 tag keys can be activated.
+   *
+   * @example
+   * ```
+   * costAllocationTags:
+   *   - CostCenter
+   *   - Project
+   * ```
+   */
+  readonly costAllocationTags: string[] | undefined = undefined;
 }
 
 /**
- * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig}*
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostCategoryConfig} / {@link CostCategoryRuleConfig} / {@link CostCategoryTagConfig}*
  *
- * AWS Backup vault configuration
+ * Cost category rule tag configuration
  *
  * @example
  * ```
- * - name: BackupVault
- *   deploymentTargets:
- *     organizationalUnits:
- *      - Root
- *   policy: policies/backup-vault-policy.json
+ * tag:
+ *   key: Project
+ *   values:
+ *     - phoenix
  * ```
  */
-export class VaultConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultConfig> {
+export class CostCategoryTagConfig implements t.TypeOf<typeof GlobalConfigTypes.costCategoryTagConfig> {
   /**
-   * Name that will be used to create the vault.
-   */
-  readonly name = 'BackupVault';
-
-  /**
-   * Which OU's or Accounts the vault will be deployed to
+   * The tag key
    */
-  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
-
+  readonly key: string = '';
   /**
-   * The path to a JSON file defining Backup Vault access policy
+   * The tag values
    */
-  readonly policy: string = '';
+  readonly values: string[] = [];
 }
 
 /**
- * *{@link GlobalConfig} / {@link BackupConfig}*
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostCategoryConfig} / {@link CostCategoryRuleConfig}*
  *
- * AWS Backup configuration
+ * Cost category rule configuration
+ *
+ * @remarks
+ * `accounts` and `organizationalUnits` are resolved to the linked account ids of the accounts at synth time.
+ * Organizational units are referenced by their path, for example `Workloads/Production`, and include the accounts
+ * of nested organizational units. When `tag` is also defined, the rule matches the costs of the linked accounts
+ * that are tagged with the tag. `inheritedTagKey` defines a rule whose value is inherited from the tag key, and
+ * cannot be combined with the other properties.
  *
  * @example
  * ```
- * backup:
- *   vaults:
- *     - name: BackupVault
- *       deploymentTargets:
- *         organizationalUnits:
- *           - Root
+ * rules:
+ *   - value: Platform
+ *     organizationalUnits:
+ *       - Infrastructure
+ *   - value: Phoenix
+ *     accounts:
+ *       - Workload01
+ *     tag:
+ *       key: Project
+ *       values:
+ *         - phoenix
+ *   - value: Team
+ *     inheritedTagKey: Team
  * ```
  */
-export class BackupConfig implements t.TypeOf<typeof GlobalConfigTypes.backupConfig> {
+export class CostCategoryRuleConfig implements t.TypeOf<typeof GlobalConfigTypes.costCategoryRuleConfig> {
   /**
-   * List of AWS Backup Vaults
+   * The cost category value assigned to the costs matched by the rule
    */
-  readonly vaults: VaultConfig[] = [];
+  readonly value: string = '';
+  /**
+   * (OPTIONAL) The names of the accounts matched by the rule
+   */
+  readonly accounts: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) The paths of the organizational units whose accounts are matched by the rule
+   */
+  readonly organizationalUnits: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) The tag matched by the rule
+   *
+   * @see {@link CostCategoryTagConfig}
+   */
+  readonly tag: CostCategoryTagConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) The tag key the cost category value is inherited from
+   */
+  readonly inheritedTagKey: string | undefined = undefined;
 }
 
 /**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostCategoryConfig}*
  *
- * *{@link GlobalConfig} / {@link SnsConfig} / {@link SnsTopicConfig}*
- *
- * SNS Topics Configuration
+ * Cost category configuration. Rules are evaluated in order, and costs that are not matched by any rule
+ * are assigned the `defaultValue`.
  *
- * To send CloudWatch Alarms and SecurityHub notifications
+ * @example
+ * ```
+ * costCategories:
+ *   - name: BusinessUnit
+ *     defaultValue: Unallocated
+ *     rules:
+ *       - value: Platform
+ *         organizationalUnits:
+ *           - Infrastructure
+ * ```
+ */
+export class CostCategoryConfig implements t.TypeOf<typeof GlobalConfigTypes.costCategoryConfig> {
+  /**
+   * The name of the cost category
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) The value assigned to the costs that are not matched by any rule
+   */
+  readonly defaultValue: string | undefined = undefined;
+  /**
+   * The rules of the cost category
+   *
+   * @see {@link CostCategoryRuleConfig}
+   */
+  readonly rules: CostCategoryRuleConfig[] = [];
+}
+
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostAnomalyDetectionConfig} / {@link CostAnomalyMonitorConfig}*
+ *
+ * Cost Anomaly Detection monitor configuration
+ *
+ * @remarks
+ * SERVICE monitors evaluate each AWS service individually, only one SERVICE monitor can be created.
+ * LINKED_ACCOUNT monitors evaluate the total spend of up to 10 `accounts`.
+ * COST_CATEGORY monitors evaluate the spend of the cost category `key` with the given `values`.
+ * TAG monitors evaluate the spend of the resources tagged with the tag `key` and the given `values`.
+ *
+ * @example
+ * ```
+ * monitors:
+ *   - name: services
+ *     type: SERVICE
+ *   - name: workloads
+ *     type: LINKED_ACCOUNT
+ *     accounts:
+ *       - Workload01
+ *       - Workload02
+ *   - name: cost-center
+ *     type: TAG
+ *     key: CostCenter
+ *     values:
+ *       - '1234'
+ * ```
+ */
+export class CostAnomalyMonitorConfig implements t.TypeOf<typeof GlobalConfigTypes.costAnomalyMonitorConfig> {
+  /**
+   * The name of the monitor
+   */
+  readonly name: string = '';
+  /**
+   * The dimension the monitor evaluates
+   */
+  readonly type: 'SERVICE' | 'LINKED_ACCOUNT' | 'COST_CATEGORY' | 'TAG' = 'SERVICE';
+  /**
+   * The accounts evaluated by LINKED_ACCOUNT monitors
+   */
+  readonly accounts: string[] | undefined = undefined;
+  /**
+   * The cost category name of COST_CATEGORY monitors, or the tag key of TAG monitors
+   */
+  readonly key: string | undefined = undefined;
+  /**
+   * The cost category values of COST_CATEGORY monitors, or the tag values of TAG monitors
+   */
+  readonly values: string[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostAnomalyDetectionConfig} / {@link CostAnomalySubscriptionConfig} / {@link CostAnomalyThresholdExpressionConfig}*
+ *
+ * Cost Anomaly Detection subscription threshold configuration
+ *
+ * @remarks
+ * At least one of `totalImpactAbsolute` and `totalImpactPercentage` must be provided. When both are provided,
+ * `operator` defines whether an anomaly must exceed both thresholds or either one of them.
+ *
+ * @example
+ * ```
+ * thresholdExpression:
+ *   totalImpactAbsolute: 100
+ *   totalImpactPercentage: 20
+ *   operator: AND
+ * ```
+ */
+export class CostAnomalyThresholdExpressionConfig
+  implements t.TypeOf<typeof GlobalConfigTypes.costAnomalyThresholdExpressionConfig>
+{
+  /**
+   * The minimum total impact of an anomaly, in dollars
+   */
+  readonly totalImpactAbsolute: number | undefined = undefined;
+  /**
+   * The minimum total impact of an anomaly, as a percentage of the expected spend
+   */
+  readonly totalImpactPercentage: number | undefined = undefined;
+  /**
+   * The operator combining both thresholds
+   *
+   * @default OR
+   */
+  readonly operator: 'AND' | 'OR' | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostAnomalyDetectionConfig} / {@link CostAnomalySubscriptionConfig}*
+ *
+ * Cost Anomaly Detection subscription configuration
+ *
+ * @remarks
+ * Alerts delivered to an SNS topic must use the IMMEDIATE frequency, and alerts delivered to email addresses
+ * must use the DAILY or WEEKLY frequency. The SNS topic must be defined in {@link SnsConfig} and deployed to
+ * the management account.
+ *
+ * @example
+ * ```
+ * subscriptions:
+ *   - name: immediate-alerts
+ *     frequency: IMMEDIATE
+ *     monitors:
+ *       - services
+ *     thresholdExpression:
+ *       totalImpactAbsolute: 100
+ *     snsTopic: Security
+ * ```
+ */
+export class CostAnomalySubscriptionConfig implements t.TypeOf<typeof GlobalConfigTypes.costAnomalySubscriptionConfig> {
+  /**
+   * The name of the subscription
+   */
+  readonly name: string = '';
+  /**
+   * The frequency the alerts are sent at
+   */
+  readonly frequency: 'DAILY' | 'IMMEDIATE' | 'WEEKLY' = 'DAILY';
+  /**
+   * The names of the monitors the subscription receives alerts for
+   */
+  readonly monitors: string[] = [];
+  /**
+   * The threshold an anomaly must exceed to send an alert
+   *
+   * @see {@link CostAnomalyThresholdExpressionConfig}
+   */
+  readonly thresholdExpression: CostAnomalyThresholdExpressionConfig = new CostAnomalyThresholdExpressionConfig();
+  /**
+   * (OPTIONAL) The name of the SNS topic alerts are delivered to
+   */
+  readonly snsTopic: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Email addresses alerts are delivered to
+   */
+  readonly emailAddresses: string[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link ReportConfig} / {@link CostAnomalyDetectionConfig}*
+ *
+ * Cost Anomaly Detection configuration. Monitors and subscriptions are deployed to the management account.
+ *
+ * @example
+ * ```
+ * costAnomalyDetection:
+ *   monitors:
+ *     - name: services
+ *       type: SERVICE
+ *   subscriptions:
+ *     - name: daily-summary
+ *       frequency: DAILY
+ *       monitors:
+ *         - services
+ *       thresholdExpression:
+ *         totalImpactPercentage: 10
+ *       emailAddresses:
+ *         - finops@example.com
+ * ```
+ */
+export class CostAnomalyDetectionConfig implements t.TypeOf<typeof GlobalConfigTypes.costAnomalyDetectionConfig> {
+  /**
+   * List of anomaly monitors
+   *
+   * @see {@link CostAnomalyMonitorConfig}
+   */
+  readonly monitors: CostAnomalyMonitorConfig[] = [];
+  /**
+   * (OPTIONAL) List of alert subscriptions
+   *
+   * @see {@link CostAnomalySubscriptionConfig}
+   */
+  readonly subscriptions: CostAnomalySubscriptionConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig} / {@link BackupVaultLockConfig}*
+ *
+ * AWS Backup Vault Lock configuration
+ *
+ * @remarks
+ * In `governance` mode the lock can be removed by users with sufficient IAM permissions.
+ * In `compliance` mode the lock becomes immutable once `changeableForDays` have elapsed,
+ * after which neither the lock nor the vault can be deleted.
+ *
+ * @example
+ * ```
+ * lock:
+ *   mode: compliance
+ *   minRetentionDays: 7
+ *   maxRetentionDays: 365
+ *   changeableForDays: 3
+ * ```
+ */
+export class BackupVaultLockConfig implements t.TypeOf<typeof GlobalConfigTypes.backupVaultLockConfig> {
+  /**
+   * The Vault Lock mode, either `governance` or `compliance`
+   */
+  readonly mode: 'governance' | 'compliance' = 'governance';
+
+  /**
+   * The minimum number of days recovery points are retained in the vault
+   */
+  readonly minRetentionDays: number = 1;
+
+  /**
+   * The maximum number of days recovery points are retained in the vault
+   */
+  readonly maxRetentionDays: number | undefined = undefined;
+
+  /**
+   * The number of days before the lock becomes immutable. Required for `compliance` mode, minimum 3 days.
+   */
+  readonly changeableForDays: number | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig} / {@link BackupVaultNotificationConfig}*
+ *
+ * AWS Backup vault notification configuration
+ *
+ * @example
+ * ```
+ * notifications:
+ *   snsTopic: Security
+ *   events:
+ *     - BACKUP_JOB_FAILED
+ *     - COPY_JOB_FAILED
+ * ```
+ */
+export class BackupVaultNotificationConfig implements t.TypeOf<typeof GlobalConfigTypes.backupVaultNotificationConfig> {
+  /**
+   * The name of an SNS topic defined in `snsTopics`. The topic must be deployed to the same accounts as the vault.
+   */
+  readonly snsTopic: string = '';
+
+  /**
+   * The vault events to send notifications for
+   *
+   * @default all vault events
+   */
+  readonly events: t.TypeOf<typeof GlobalConfigTypes.backupVaultEventEnum>[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig}*
+ *
+ * AWS Backup vault configuration
+ *
+ * @example
+ * ```
+ * - name: BackupVault
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *      - Root
+ *   policy: policies/backup-vault-policy.json
+ *   lock:
+ *     mode: governance
+ *     minRetentionDays: 7
+ *   notifications:
+ *     snsTopic: Security
+ * ```
+ */
+export class VaultConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultConfig> {
+  /**
+   * Name that will be used to create the vault.
+   */
+  readonly name = 'BackupVault';
+
+  /**
+   * Which OU's or Accounts the vault will be deployed to
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+
+  /**
+   * The path to a JSON file defining Backup Vault access policy
+   *
+   * @remarks
+   * Vaults that receive copies from other accounts must allow `backup:CopyIntoBackupVault` in this policy.
+   */
+  readonly policy: string = '';
+
+  /**
+   * Backup Vault Lock configuration
+   *
+   * @see {@link BackupVaultLockConfig}
+   */
+  readonly lock: BackupVaultLockConfig | undefined = undefined;
+
+  /**
+   * Backup vault notification configuration
+   *
+   * @see {@link BackupVaultNotificationConfig}
+   */
+  readonly notifications: BackupVaultNotificationConfig | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupPlanRuleConfig} / {@link BackupLifecycleConfig}*
+ *
+ * AWS Backup recovery point lifecycle configuration
+ *
+ * @example
+ * ```
+ * lifecycle:
+ *   moveToColdStorageAfterDays: 30
+ *   deleteAfterDays: 365
+ * ```
+ */
+export class BackupLifecycleConfig implements t.TypeOf<typeof GlobalConfigTypes.backupLifecycleConfig> {
+  /**
+   * The number of days after creation that a recovery point is moved to cold storage
+   */
+  readonly moveToColdStorageAfterDays: number | undefined = undefined;
+
+  /**
+   * The number of days after creation that a recovery point is deleted.
+   * Must be at least 90 days greater than `moveToColdStorageAfterDays`.
+   */
+  readonly deleteAfterDays: number | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupPlanRuleConfig} / {@link BackupCopyActionConfig}*
+ *
+ * AWS Backup copy action configuration
+ *
+ * @example
+ * ```
+ * - vault: CentralBackupVault
+ *   account: SharedServices
+ *   region: us-west-2
+ *   lifecycle:
+ *     deleteAfterDays: 365
+ * ```
+ */
+export class BackupCopyActionConfig implements t.TypeOf<typeof GlobalConfigTypes.backupCopyActionConfig> {
+  /**
+   * The name of the destination vault. The vault must be defined in `backup.vaults`
+   * and deployed to the destination account and region.
+   */
+  readonly vault: string = '';
+
+  /**
+   * The friendly name of the destination account
+   *
+   * @default the account of the backup plan
+   */
+  readonly account: string | undefined = undefined;
+
+  /**
+   * The destination region
+   *
+   * @default the region of the backup plan
+   */
+  readonly region: t.Region | undefined = undefined;
+
+  /**
+   * The lifecycle of the copied recovery points
+   *
+   * @see {@link BackupLifecycleConfig}
+   */
+  readonly lifecycle: BackupLifecycleConfig | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupPlanRuleConfig}*
+ *
+ * AWS Backup plan rule configuration
+ *
+ * @example
+ * ```
+ * - name: Daily
+ *   scheduleExpression: cron(0 5 ? * * *)
+ *   startWindowMinutes: 60
+ *   completionWindowMinutes: 480
+ *   lifecycle:
+ *     deleteAfterDays: 35
+ *   copyActions:
+ *     - vault: CentralBackupVault
+ *       account: SharedServices
+ * ```
+ */
+export class BackupPlanRuleConfig implements t.TypeOf<typeof GlobalConfigTypes.backupPlanRuleConfig> {
+  /**
+   * The name of the rule
+   */
+  readonly name: string = '';
+
+  /**
+   * A CRON expression specifying when AWS Backup initiates a backup job
+   *
+   * @default no schedule
+   */
+  readonly scheduleExpression: string | undefined = undefined;
+
+  /**
+   * The number of minutes after a backup is scheduled before the job is canceled if it doesn't start successfully
+   */
+  readonly startWindowMinutes: number | undefined = undefined;
+
+  /**
+   * The number of minutes after a backup job is started before it must be completed
+   */
+  readonly completionWindowMinutes: number | undefined = undefined;
+
+  /**
+   * Enables continuous backup and point-in-time restores (PITR)
+   */
+  readonly enableContinuousBackup: boolean | undefined = undefined;
+
+  /**
+   * The lifecycle of the recovery points created by this rule
+   *
+   * @see {@link BackupLifecycleConfig}
+   */
+  readonly lifecycle: BackupLifecycleConfig | undefined = undefined;
+
+  /**
+   * Copies of the recovery points created by this rule
+   *
+   * @see {@link BackupCopyActionConfig}
+   */
+  readonly copyActions: BackupCopyActionConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupSelectionConfig}*
+ *
+ * AWS Backup resource selection configuration. Resources matching any of the tags or ARNs are backed up.
+ *
+ * @example
+ * ```
+ * - name: TaggedResources
+ *   tags:
+ *     - key: backup
+ *       value: daily
+ * ```
+ */
+export class BackupSelectionConfig implements t.TypeOf<typeof GlobalConfigTypes.backupSelectionConfig> {
+  /**
+   * The name of the selection
+   */
+  readonly name: string = '';
+
+  /**
+   * Resources with any of these tags are selected
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+
+  /**
+   * Resource ARNs to select. Wildcards are supported, for example `arn:aws:dynamodb:*:*:table/*`.
+   */
+  readonly resources: string[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig}*
+ *
+ * AWS Backup plan configuration
+ *
+ * @example
+ * ```
+ * - name: DailyBackupPlan
+ *   vault: BackupVault
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ *   rules:
+ *     - name: Daily
+ *       scheduleExpression: cron(0 5 ? * * *)
+ *       lifecycle:
+ *         deleteAfterDays: 35
+ *   selections:
+ *     - name: TaggedResources
+ *       tags:
+ *         - key: backup
+ *           value: daily
+ * ```
+ */
+export class BackupPlanConfig implements t.TypeOf<typeof GlobalConfigTypes.backupPlanConfig> {
+  /**
+   * Name that will be used to create the backup plan
+   */
+  readonly name: string = '';
+
+  /**
+   * The name of the vault the backup plan stores recovery points in.
+   * The vault must be defined in `backup.vaults` and deployed to all deployment targets of the plan.
+   */
+  readonly vault: string = '';
+
+  /**
+   * Which OU's or Accounts the backup plan will be deployed to
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+
+  /**
+   * The backup plan rules
+   *
+   * @see {@link BackupPlanRuleConfig}
+   */
+  readonly rules: BackupPlanRuleConfig[] = [];
+
+  /**
+   * The resources backed up by the plan
+   *
+   * @see {@link BackupSelectionConfig}
+   */
+  readonly selections: BackupSelectionConfig[] = [];
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig}*
+ *
+ * AWS Backup configuration
+ *
+ * @example
+ * ```
+ * backup:
+ *   vaults:
+ *     - name: BackupVault
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ *   plans:
+ *     - name: DailyBackupPlan
+ *       vault: BackupVault
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ *       rules:
+ *         - name: Daily
+ *           scheduleExpression: cron(0 5 ? * * *)
+ *       selections:
+ *         - name: TaggedResources
+ *           tags:
+ *             - key: backup
+ *               value: daily
+ * ```
+ */
+export class BackupConfig implements t.TypeOf<typeof GlobalConfigTypes.backupConfig> {
+  /**
+   * List of AWS Backup Vaults
+   */
+  readonly vaults: VaultConfig[] = [];
+
+  /**
+   * List of AWS Backup plans
+   *
+   * @see {@link BackupPlanConfig}
+   */
+  readonly plans: BackupPlanConfig[] | undefined = undefined;
+}
+
+/**
+ *
+ * *{@link GlobalConfig} / {@link SnsConfig} / {@link SnsTopicConfig}*
+ *
+ * SNS Topics Configuration
+ *
+ * To send CloudWatch Alarms and SecurityHub notifications
  * you will need to configure at least one SNS Topic
  * For SecurityHub notification you will need
  * to set the deployment target to Root in order
@@ -1906,6 +3029,10 @@ export class BackupConfig implements t.TypeOf<typeof GlobalConfigTypes.backupCon
  *     - name: Security
  *       emailAddresses:
  *         - SecurityNotifications@example.com
+ *       subscriptions:
+ *         - protocol: https
+ *           endpoint: https://soc.example.com/webhook
+ *       kmsKey: SnsKey
  * ```
  */
 export class SnsTopicConfig implements t.TypeOf<typeof GlobalConfigTypes.snsTopicConfig> {
@@ -1933,7 +3060,23 @@ export class SnsTopicConfig implements t.TypeOf<typeof GlobalConfigTypes.snsTopi
   /**
    * List of email address for notification
    */
-  readonly emailAddresses = [];
+  readonly emailAddresses: string[] = [];
+
+  /**
+   * List of https, sqs, lambda and sms subscriptions. Subscriptions are created on the topic in the
+   * Log Archive account, which receives the messages forwarded from all other accounts.
+   *
+   * @see {@link SnsSubscriptionConfig}
+   */
+  readonly subscriptions: SnsSubscriptionConfig[] | undefined = undefined;
+
+  /**
+   * The name of a key defined in security-config.yaml `keyManagementService.keySets` used to encrypt the topic.
+   * The key must be deployed to the Log Archive account and the deployment targets of the SNS topics.
+   *
+   * @default the accelerator SNS topic key
+   */
+  readonly kmsKey: string | undefined = undefined;
 }
 
 /**
@@ -1992,6 +3135,8 @@ export class AcceleratorMetadataConfig implements t.TypeOf<typeof GlobalConfigTy
  * ```
  * acceleratorSettings:
  *  maxConcurrentStacks: 250
+ *  detectDrift: true
+ *  failOnDrift: false
  * ```
  *
  */
@@ -2006,6 +3151,23 @@ export class AcceleratorSettingsConfig implements t.TypeOf<typeof GlobalConfigTy
    * If no value is specified it defaults to 250
    */
   readonly maxConcurrentStacks: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Run CloudFormation drift detection on every accelerator stack before the deployment stages
+   *
+   * @remarks
+   * A consolidated drift report, listing the drifted resources and their expected and actual property values,
+   * is stored in the `drift-reports` prefix of the central log bucket.
+   * The drift detection stage is added to the pipeline only when the `EnableDriftDetection` parameter
+   * of the installer stack is set to `Yes`. Stacks that cannot be checked are reported as `DETECTION_FAILED`.
+   * If no value is specified it defaults to false
+   */
+  readonly detectDrift: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Stop the pipeline before the deployment stages when drift is detected on any accelerator stack.
+   * Requires `detectDrift` to be enabled.
+   * If no value is specified it defaults to false
+   */
+  readonly failOnDrift: boolean | undefined = undefined;
 }
 /**
  * *{@link GlobalConfig} / {@link SsmInventoryConfig}*
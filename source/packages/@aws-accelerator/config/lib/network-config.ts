@@ -199,6 +199,7 @@ export class NetworkConfigTypes {
       'networkInterface',
       'virtualPrivateGateway',
       'vpcPeering',
+      'egressOnlyIgw',
     ],
     'Value should be a route table target type',
   );
@@ -230,11 +231,22 @@ export class NetworkConfigTypes {
     netmaskLength: t.number,
   });
 
+  static readonly vpcIpv6Config = t.interface({
+    amazonProvided: t.optional(t.boolean),
+    byoipPoolId: t.optional(t.nonEmptyString),
+    cidrBlock: t.optional(t.nonEmptyString),
+    ipamAllocation: t.optional(this.ipamAllocationConfig),
+  });
+
   static readonly subnetConfig = t.interface({
     name: t.nonEmptyString,
     availabilityZone: t.optional(t.union([t.nonEmptyString, t.number])),
     routeTable: t.optional(t.nonEmptyString),
     ipv4CidrBlock: t.optional(t.nonEmptyString),
+    ipv6CidrBlock: t.optional(t.nonEmptyString),
+    ipv6Only: t.optional(t.boolean),
+    assignIpv6OnCreation: t.optional(t.boolean),
+    enableDns64: t.optional(t.boolean),
     mapPublicIpOnLaunch: t.optional(t.boolean),
     ipamAllocation: t.optional(this.ipamAllocationConfig),
     shareTargets: t.optional(t.shareTargets),
@@ -346,6 +358,7 @@ export class NetworkConfigTypes {
     account: t.nonEmptyString,
     vpc: t.nonEmptyString,
     subnets: t.array(t.nonEmptyString),
+    ipv6: t.optional(t.boolean),
   });
 
   static readonly securityGroupSourceConfig = t.interface({
@@ -388,6 +401,7 @@ export class NetworkConfigTypes {
     vpc: t.nonEmptyString,
     subnet: t.nonEmptyString,
     region: t.optional(t.region),
+    ipv6: t.optional(t.boolean),
   });
 
   static readonly networkAclInboundRuleConfig = t.interface({
@@ -573,7 +587,9 @@ export class NetworkConfigTypes {
     instanceTenancy: t.optional(this.instanceTenancyTypeEnum),
     interfaceEndpoints: t.optional(this.interfaceEndpointConfig),
     internetGateway: t.optional(t.boolean),
+    egressOnlyIgw: t.optional(t.boolean),
     ipamAllocations: t.optional(t.array(this.ipamAllocationConfig)),
+    ipv6Cidrs: t.optional(t.array(this.vpcIpv6Config)),
     natGateways: t.optional(t.array(this.natGatewayConfig)),
     useCentralEndpoints: t.optional(t.boolean),
     securityGroups: t.optional(t.array(this.securityGroupConfig)),
@@ -605,7 +621,9 @@ export class NetworkConfigTypes {
     instanceTenancy: t.optional(this.instanceTenancyTypeEnum),
     interfaceEndpoints: t.optional(this.interfaceEndpointConfig),
     internetGateway: t.optional(t.boolean),
+    egressOnlyIgw: t.optional(t.boolean),
     ipamAllocations: t.optional(t.array(this.ipamAllocationConfig)),
+    ipv6Cidrs: t.optional(t.array(this.vpcIpv6Config)),
     natGateways: t.optional(t.array(this.natGatewayConfig)),
     useCentralEndpoints: t.optional(t.boolean),
     securityGroups: t.optional(t.array(this.securityGroupConfig)),
@@ -2207,6 +2225,22 @@ export class IpamConfig implements t.TypeOf<typeof NetworkConfigTypes.ipamConfig
  *   destination: 10.0.0.0/16
  *   type: networkInterface
  *   target: eni-0123456789abcdef
+ * ```
+ *
+ * Egress-only Internet Gateway with IPv6 CIDR destination:
+ * ```
+ * - name: EigwRoute
+ *   destination: ::/0
+ *   type: egressOnlyIgw
+ * ```
+ *
+ * NAT64 through a NAT Gateway:
+ * ```
+ * - name: Nat64Route
+ *   destination: 64:ff9b::/96
+ *   type: natGateway
+ *   target: Nat-A
+ * ```
  *
  */
 export class RouteTableEntryConfig implements t.TypeOf<typeof NetworkConfigTypes.routeTableEntryConfig> {
@@ -2223,7 +2257,9 @@ export class RouteTableEntryConfig implements t.TypeOf<typeof NetworkConfigTypes
    * (OPTIONAL) The destination CIDR block or dynamic subnet reference for the route table entry.
    *
    * @remarks
-   * You can either use CIDR notation (i.e. 10.0.0.0/16) or target a subnet by referencing its logical `name` property.
+   * You can either use CIDR notation (i.e. 10.0.0.0/16 or ::/0) or target a subnet by referencing its logical `name` property.
+   * IPv6 CIDR destinations are supported for route entry types `transitGateway`, `natGateway`, `internetGateway`,
+   * `egressOnlyIgw`, `virtualPrivateGateway` and `localGateway`.
    * If referencing a subnet name, the subnet MUST be defined in the same VPC. This feature is intended for ingress routing scenarios
    * where a gateway route table must target a Gateway Load Balancer or Network Firewall endpoint in a dynamic IPAM-created subnet.
    * @see {@link SubnetConfig} and {@link RouteTableConfig}.
@@ -2266,7 +2302,7 @@ export class RouteTableEntryConfig implements t.TypeOf<typeof NetworkConfigTypes
    *
    * This is the logical `name` property of other target types as defined in network-config.yaml.
    *
-   * Note: Leave undefined for route entry type `internetGateway` or `virtualPrivateGateway`.
+   * Note: Leave undefined for route entry type `internetGateway`, `egressOnlyIgw` or `virtualPrivateGateway`.
    */
   readonly target: string | undefined = undefined;
   /**
@@ -2365,6 +2401,27 @@ export class RouteTableConfig implements t.TypeOf<typeof NetworkConfigTypes.rout
  *     netmaskLength: 26
  *   tags: []
  * ```
+ * Dual-stack:
+ * ```
+ * - name: accelerator-dual-stack-subnet-a
+ *   availabilityZone: a
+ *   routeTable: accelerator-cidr-subnet-a
+ *   ipv4CidrBlock: 10.0.0.0/26
+ *   ipv6CidrBlock: 2001:db8:1234:1a00::/64
+ *   assignIpv6OnCreation: true
+ *   tags: []
+ * ```
+ * IPv6-only with DNS64:
+ * ```
+ * - name: accelerator-ipv6-subnet-a
+ *   availabilityZone: a
+ *   routeTable: accelerator-cidr-subnet-a
+ *   ipv6CidrBlock: 2001:db8:1234:1a01::/64
+ *   ipv6Only: true
+ *   assignIpv6OnCreation: true
+ *   enableDns64: true
+ *   tags: []
+ * ```
  */
 export class SubnetConfig implements t.TypeOf<typeof NetworkConfigTypes.subnetConfig> {
   /**
@@ -2412,6 +2469,52 @@ export class SubnetConfig implements t.TypeOf<typeof NetworkConfigTypes.subnetCo
    * Use CIDR notation, i.e. 10.0.0.0/16
    */
   readonly ipv4CidrBlock: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPv6 CIDR block to associate with the subnet.
+   *
+   * @remarks
+   * **CAUTION**: changing this property after initial deployment will cause a subnet recreation.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Use CIDR notation with a /64 prefix, i.e. 2001:db8:1234:1a00::/64. The CIDR must be within
+   * one of the static `cidrBlock` values of the VPC `ipv6Cidrs`.
+   *
+   * NOTE: Only static values are supported. Unlike IPv4, subnet IPv6 CIDRs cannot be allocated with `ipamAllocation`
+   * or from an Amazon-provided or IPAM-allocated VPC range, and configurations that do so fail validation.
+   * For the same reason, subnets of VPC templates deployed to more than one account cannot define this property.
+   *
+   * @see {@link VpcIpv6Config}
+   */
+  readonly ipv6CidrBlock: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Set `true` to create an IPv6-only subnet.
+   *
+   * @remarks
+   * **CAUTION**: changing this property after initial deployment will cause a subnet recreation.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * IPv6-only subnets must define `ipv6CidrBlock` and must not define `ipv4CidrBlock` or `ipamAllocation`.
+   */
+  readonly ipv6Only: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Set `true` to automatically assign an IPv6 address to network interfaces created in the subnet.
+   *
+   * @remarks
+   * Requires `ipv6CidrBlock` to be defined.
+   */
+  readonly assignIpv6OnCreation: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Set `true` to enable DNS64 for the subnet.
+   *
+   * @remarks
+   * With DNS64, the Route 53 Resolver returns synthesized IPv6 addresses for IPv4-only destinations.
+   * Combine with a `64:ff9b::/96` route entry targeting a NAT gateway to enable NAT64 for IPv6-only workloads.
+   *
+   * Requires `ipv6CidrBlock` to be defined.
+   *
+   * @see {@link RouteTableEntryConfig}
+   */
+  readonly enableDns64: boolean | undefined = undefined;
   /**
    * (OPTIONAL) Configure automatic mapping of public IPs.
    *
@@ -3055,6 +3158,13 @@ export class SubnetSourceConfig implements t.TypeOf<typeof NetworkConfigTypes.su
    * @see {@link SubnetConfig}
    */
   readonly subnets: string[] = [];
+  /**
+   * (OPTIONAL) Set `true` to reference the IPv6 CIDR blocks of the subnets instead of their IPv4 CIDR blocks.
+   *
+   * @remarks
+   * IPv6-only subnets are always referenced by their IPv6 CIDR block.
+   */
+  readonly ipv6: boolean | undefined = undefined;
 }
 
 /**
@@ -3488,6 +3598,13 @@ export class NetworkAclSubnetSelection implements t.TypeOf<typeof NetworkConfigT
    * than the one in which this VPC is deployed.
    */
   readonly region: t.Region | undefined = undefined;
+  /**
+   * (OPTIONAL) Set `true` to reference the IPv6 CIDR block of the subnet instead of its IPv4 CIDR block.
+   *
+   * @remarks
+   * IPv6-only subnets are always referenced by their IPv6 CIDR block.
+   */
+  readonly ipv6: boolean | undefined = undefined;
 }
 
 /**
@@ -3731,6 +3848,70 @@ export class IpamAllocationConfig implements t.TypeOf<typeof NetworkConfigTypes.
   readonly netmaskLength: number = 24;
 }
 
+/**
+ * *{@link NetworkConfig} / {@link VpcConfig} | {@link VpcTemplatesConfig} / {@link VpcIpv6Config}*
+ *
+ * {@link https://docs.aws.amazon.com/vpc/latest/userguide/vpc-cidr-blocks.html#vpc-sizing-ipv6 | VPC IPv6 CIDR block} configuration.
+ * Use this configuration to associate an IPv6 CIDR block with your VPC.
+ * Define exactly one of `amazonProvided`, `cidrBlock` or `ipamAllocation`.
+ *
+ * @example
+ * Amazon-provided IPv6 CIDR:
+ * ```
+ * - amazonProvided: true
+ * ```
+ * Bring your own IP (BYOIP) IPv6 CIDR:
+ * ```
+ * - byoipPoolId: ipv6pool-ec2-0123456789abcdef0
+ *   cidrBlock: 2001:db8:1234:1a00::/56
+ * ```
+ * IPAM allocation:
+ * ```
+ * - ipamAllocation:
+ *     ipamPoolName: accelerator-regional-ipv6-pool
+ *     netmaskLength: 56
+ * ```
+ */
+export class VpcIpv6Config implements t.TypeOf<typeof NetworkConfigTypes.vpcIpv6Config> {
+  /**
+   * (OPTIONAL) Set `true` to request an Amazon-provided /56 IPv6 CIDR block.
+   *
+   * @remarks
+   * **CAUTION**: Changing this property value after initial deployment causes the VPC CIDR block to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * NOTE: Amazon-provided CIDR blocks are not known before deployment, so subnets cannot define `ipv6CidrBlock`
+   * from them. Subnet IPv6 CIDRs require a static `cidrBlock`.
+   */
+  readonly amazonProvided: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) The ID of the BYOIP IPv6 address pool to allocate `cidrBlock` from.
+   *
+   * @remarks
+   * Must be defined with `cidrBlock`.
+   */
+  readonly byoipPoolId: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPv6 CIDR block to allocate from the BYOIP pool defined in `byoipPoolId`.
+   *
+   * @remarks
+   * **CAUTION**: Changing this property value after initial deployment causes the VPC CIDR block to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Use CIDR notation, i.e. 2001:db8:1234:1a00::/56
+   */
+  readonly cidrBlock: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPAM allocation configuration for the IPv6 CIDR block.
+   *
+   * @remarks
+   * The referenced IPAM pool must have an `addressFamily` of `ipv6`.
+   *
+   * @see {@link IpamAllocationConfig}
+   */
+  readonly ipamAllocation: IpamAllocationConfig | undefined = undefined;
+}
+
 /**
  * *{@link NetworkConfig} / {@link DhcpOptsConfig}*
  *
@@ -4781,6 +4962,14 @@ export class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>
    * Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Internet_Gateway.html | internet gateway} should be added to the VPC
    */
   readonly internetGateway: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/egress-only-internet-gateway.html | egress-only internet gateway}
+   * should be added to the VPC.
+   *
+   * @remarks
+   * Egress-only internet gateways allow outbound-only IPv6 traffic. Target it with route entry type `egressOnlyIgw`.
+   */
+  readonly egressOnlyIgw: boolean | undefined = undefined;
   /**
    * Enable DNS hostname support for the VPC.
    *
@@ -4821,6 +5010,18 @@ export class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>
    *
    */
   readonly ipamAllocations: IpamAllocationConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of IPv6 CIDR block configurations.
+   *
+   * @see {@link VpcIpv6Config}
+   *
+   * @remarks
+   * Use this property to create a dual-stack VPC. The VPC must still define an IPv4 CIDR
+   * using `cidrs` or `ipamAllocations`.
+   *
+   * NOTE: Expanding a VPC with additional CIDRs is subject to {@link https://docs.aws.amazon.com/vpc/latest/userguide/vpc-cidr-blocks.html#add-cidr-block-restrictions | these restrictions}.
+   */
+  readonly ipv6Cidrs: VpcIpv6Config[] | undefined = undefined;
 
   /**
    * (OPTIONAL) A list of DNS query log configuration names.
@@ -5092,6 +5293,17 @@ export class VpcTemplatesConfig implements t.TypeOf<typeof NetworkConfigTypes.vp
    * @see {@link IpamPoolConfig}
    */
   readonly ipamAllocations: IpamAllocationConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of IPv6 CIDR block configurations.
+   *
+   * @see {@link VpcIpv6Config}
+   *
+   * @remarks
+   * Use this property to create dual-stack VPCs. The VPC template must still define an IPv4 CIDR
+   * using `cidrs` or `ipamAllocations`. Amazon-provided or IPAM-allocated CIDRs are recommended
+   * for templates, since a static CIDR cannot be reused across accounts.
+   */
+  readonly ipv6Cidrs: VpcIpv6Config[] | undefined = undefined;
 
   /**
    * (OPTIONAL) Determine if the all traffic ingress and egress rules are deleted
@@ -5138,6 +5350,14 @@ export class VpcTemplatesConfig implements t.TypeOf<typeof NetworkConfigTypes.vp
    * Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Internet_Gateway.html | internet gateway} should be added to the VPC
    */
   readonly internetGateway: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/egress-only-internet-gateway.html | egress-only internet gateway}
+   * should be added to the VPC.
+   *
+   * @remarks
+   * Egress-only internet gateways allow outbound-only IPv6 traffic. Target it with route entry type `egressOnlyIgw`.
+   */
+  readonly egressOnlyIgw: boolean | undefined = undefined;
   /**
    * Enable DNS hostname support for the VPC.
    *
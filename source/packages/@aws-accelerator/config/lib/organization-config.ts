@@ -30,6 +30,8 @@ export abstract class OrganizationConfigTypes {
   static readonly organizationalUnitConfig = t.interface({
     name: t.nonEmptyString,
     ignore: t.optional(t.boolean),
+    id: t.optional(t.nonEmptyString),
+    previousName: t.optional(t.nonEmptyString),
   });
 
   static readonly organizationalUnitIdConfig = t.interface({
@@ -66,6 +68,34 @@ export abstract class OrganizationConfigTypes {
     deploymentTargets: t.deploymentTargets,
   });
 
+  static readonly aiServicesOptOutPolicyConfig = t.interface({
+    name: t.nonEmptyString,
+    description: t.nonEmptyString,
+    policy: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+  });
+
+  static readonly resourceControlPolicyConfig = t.interface({
+    name: t.nonEmptyString,
+    description: t.nonEmptyString,
+    policy: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+  });
+
+  static readonly chatbotPolicyConfig = t.interface({
+    name: t.nonEmptyString,
+    description: t.nonEmptyString,
+    policy: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+  });
+
+  static readonly declarativePolicyConfig = t.interface({
+    name: t.nonEmptyString,
+    description: t.nonEmptyString,
+    policy: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+  });
+
   static readonly organizationConfig = t.interface({
     enable: t.boolean,
     organizationalUnits: t.array(this.organizationalUnitConfig),
@@ -73,6 +103,11 @@ export abstract class OrganizationConfigTypes {
     serviceControlPolicies: t.array(this.serviceControlPolicyConfig),
     taggingPolicies: t.array(this.tagPolicyConfig),
     backupPolicies: t.array(this.backupPolicyConfig),
+    aiServicesOptOutPolicies: t.optional(t.array(this.aiServicesOptOutPolicyConfig)),
+    resourceControlPolicies: t.optional(t.array(this.resourceControlPolicyConfig)),
+    chatbotPolicies: t.optional(t.array(this.chatbotPolicyConfig)),
+    declarativePolicies: t.optional(t.array(this.declarativePolicyConfig)),
+    deleteRemovedOus: t.optional(t.boolean),
   });
 }
 
@@ -87,6 +122,8 @@ export abstract class OrganizationConfigTypes {
  *   - name: Sandbox
  *   - name: Suspended
  *     ignore: true
+ *   - name: Workloads/Production
+ *     previousName: Production
  * ```
  */
 export abstract class OrganizationalUnitConfig
@@ -111,6 +148,33 @@ export abstract class OrganizationalUnitConfig
    * Default value is false
    */
   readonly ignore: boolean | undefined = undefined;
+  /**
+   * Optional id of the existing OU, for example ou-abcd-12345678.
+   * Use this property to keep track of an OU when it is renamed or moved,
+   * independent of the name it currently has in AWS Organizations.
+   */
+  readonly id: string | undefined = undefined;
+  /**
+   * Optional previous name and nested path of the OU.
+   * When the OU named here exists and the OU in `name` does not, the accelerator
+   * renames the existing OU if the parent is unchanged. Otherwise the OU is moved:
+   * AWS Organizations cannot move an OU, so the OU is created under the new parent,
+   * its accounts and child OUs are moved to it and the previous OU is deleted.
+   *
+   * When AWS Control Tower is enabled, renamed and moved OUs must be re-registered
+   * in Control Tower. The accelerator pipeline stops at the validation stage until
+   * the OU is re-registered. OUs registered in Control Tower are not moved: the
+   * pipeline fails until the OU, and its child OUs, are deregistered in Control Tower.
+   *
+   * @example
+   * ```
+   * organizationalUnits:
+   *   - name: Workloads
+   *   - name: Workloads/Production
+   *     previousName: Production
+   * ```
+   */
+  readonly previousName: string | undefined = undefined;
 }
 
 /**
@@ -297,6 +361,167 @@ export abstract class BackupPolicyConfig implements t.TypeOf<typeof Organization
   readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
 }
 
+/**
+ * *{@link OrganizationConfig} / {@link AiServicesOptOutPolicyConfig}*
+ *
+ * Organization AI services opt-out policy
+ *
+ * AI services opt-out policies control whether AWS AI services can store and use content
+ * processed by those services for the development and continuous improvement of AWS services.
+ *
+ * @example
+ * ```
+ * aiServicesOptOutPolicies:
+ *   - name: AiServicesOptOutPolicy
+ *     description: Opt out of AI services content use
+ *     policy: ai-services-opt-out-policies/opt-out-all.json
+ *     deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ * ```
+ */
+export abstract class AiServicesOptOutPolicyConfig
+  implements t.TypeOf<typeof OrganizationConfigTypes.aiServicesOptOutPolicyConfig>
+{
+  /**
+   * The friendly name to assign to the policy.
+   * The regex pattern that is used to validate this parameter is a string of any of the characters in the ASCII character range.
+   */
+  readonly name: string = '';
+  /**
+   * A description to assign to the policy.
+   */
+  readonly description: string = '';
+  /**
+   * AI services opt-out policy definition json file. This file must be present in config repository
+   */
+  readonly policy: string = '';
+  /**
+   * AI services opt-out policy deployment targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
+/**
+ * *{@link OrganizationConfig} / {@link ResourceControlPolicyConfig}*
+ *
+ * Organization resource control policy (RCP)
+ *
+ * Resource control policies define the maximum available permissions for resources
+ * in the accounts of your organization, regardless of the principal making the request.
+ *
+ * @example
+ * ```
+ * resourceControlPolicies:
+ *   - name: EnforceSecureTransport
+ *     description: Deny access to resources over insecure transport
+ *     policy: resource-control-policies/enforce-secure-transport.json
+ *     deploymentTargets:
+ *         organizationalUnits:
+ *           - Infrastructure
+ * ```
+ */
+export abstract class ResourceControlPolicyConfig
+  implements t.TypeOf<typeof OrganizationConfigTypes.resourceControlPolicyConfig>
+{
+  /**
+   * The friendly name to assign to the policy.
+   * The regex pattern that is used to validate this parameter is a string of any of the characters in the ASCII character range.
+   */
+  readonly name: string = '';
+  /**
+   * A description to assign to the policy.
+   */
+  readonly description: string = '';
+  /**
+   * Resource control policy definition json file. This file must be present in config repository
+   */
+  readonly policy: string = '';
+  /**
+   * Resource control policy deployment targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
+/**
+ * *{@link OrganizationConfig} / {@link ChatbotPolicyConfig}*
+ *
+ * Organization chatbot policy
+ *
+ * Chatbot policies control access to your accounts from chat applications such as Slack and Microsoft Teams.
+ *
+ * @example
+ * ```
+ * chatbotPolicies:
+ *   - name: ChatbotPolicy
+ *     description: Restrict chat applications to read-only access
+ *     policy: chatbot-policies/read-only.json
+ *     deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ * ```
+ */
+export abstract class ChatbotPolicyConfig implements t.TypeOf<typeof OrganizationConfigTypes.chatbotPolicyConfig> {
+  /**
+   * The friendly name to assign to the policy.
+   * The regex pattern that is used to validate this parameter is a string of any of the characters in the ASCII character range.
+   */
+  readonly name: string = '';
+  /**
+   * A description to assign to the policy.
+   */
+  readonly description: string = '';
+  /**
+   * Chatbot policy definition json file. This file must be present in config repository
+   */
+  readonly policy: string = '';
+  /**
+   * Chatbot policy deployment targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
+/**
+ * *{@link OrganizationConfig} / {@link DeclarativePolicyConfig}*
+ *
+ * Organization declarative policy for EC2
+ *
+ * Declarative policies enforce the baseline configuration of Amazon EC2 and related services,
+ * such as blocking public access to VPCs and AMIs, across the accounts of your organization.
+ *
+ * @example
+ * ```
+ * declarativePolicies:
+ *   - name: Ec2Baseline
+ *     description: EC2 baseline configuration
+ *     policy: declarative-policies/ec2-baseline.json
+ *     deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ * ```
+ */
+export abstract class DeclarativePolicyConfig
+  implements t.TypeOf<typeof OrganizationConfigTypes.declarativePolicyConfig>
+{
+  /**
+   * The friendly name to assign to the policy.
+   * The regex pattern that is used to validate this parameter is a string of any of the characters in the ASCII character range.
+   */
+  readonly name: string = '';
+  /**
+   * A description to assign to the policy.
+   */
+  readonly description: string = '';
+  /**
+   * Declarative policy definition json file. This file must be present in config repository
+   */
+  readonly policy: string = '';
+  /**
+   * Declarative policy deployment targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
 /**
  * Organization configuration
  */
@@ -337,10 +562,14 @@ export class OrganizationConfig implements t.TypeOf<typeof OrganizationConfigTyp
     {
       name: 'Security',
       ignore: undefined,
+      id: undefined,
+      previousName: undefined,
     },
     {
       name: 'Infrastructure',
       ignore: undefined,
+      id: undefined,
+      previousName: undefined,
     },
   ];
 
@@ -422,6 +651,94 @@ export class OrganizationConfig implements t.TypeOf<typeof OrganizationConfigTyp
    */
   readonly backupPolicies: BackupPolicyConfig[] = [];
 
+  /**
+   * A Record of AI services opt-out policy configurations
+   *
+   * @see AiServicesOptOutPolicyConfig
+   *
+   * @example
+   * ```
+   * aiServicesOptOutPolicies:
+   *   - name: AiServicesOptOutPolicy
+   *     description: Opt out of AI services content use
+   *     policy: ai-services-opt-out-policies/opt-out-all.json
+   *     deploymentTargets:
+   *         organizationalUnits:
+   *           - Root
+   * ```
+   */
+  readonly aiServicesOptOutPolicies: AiServicesOptOutPolicyConfig[] | undefined = undefined;
+
+  /**
+   * A Record of resource control policy (RCP) configurations
+   *
+   * @see ResourceControlPolicyConfig
+   *
+   * @example
+   * ```
+   * resourceControlPolicies:
+   *   - name: EnforceSecureTransport
+   *     description: Deny access to resources over insecure transport
+   *     policy: resource-control-policies/enforce-secure-transport.json
+   *     deploymentTargets:
+   *         organizationalUnits:
+   *           - Infrastructure
+   * ```
+   */
+  readonly resourceControlPolicies: ResourceControlPolicyConfig[] | undefined = undefined;
+
+  /**
+   * A Record of chatbot policy configurations
+   *
+   * @see ChatbotPolicyConfig
+   *
+   * @example
+   * ```
+   * chatbotPolicies:
+   *   - name: ChatbotPolicy
+   *     description: Restrict chat applications to read-only access
+   *     policy: chatbot-policies/read-only.json
+   *     deploymentTargets:
+   *         organizationalUnits:
+   *           - Root
+   * ```
+   */
+  readonly chatbotPolicies: ChatbotPolicyConfig[] | undefined = undefined;
+
+  /**
+   * A Record of EC2 declarative policy configurations
+   *
+   * @see DeclarativePolicyConfig
+   *
+   * @example
+   * ```
+   * declarativePolicies:
+   *   - name: Ec2Baseline
+   *     description: EC2 baseline configuration
+   *     policy: declarative-policies/ec2-baseline.json
+   *     deploymentTargets:
+   *         organizationalUnits:
+   *           - Root
+   * ```
+   */
+  readonly declarativePolicies: DeclarativePolicyConfig[] | undefined = undefined;
+
+  /**
+   * Delete OUs that exist in AWS Organizations but were removed from the configuration.
+   * Only OUs that a previous configuration listed are deleted, OUs created outside of the
+   * accelerator are never deleted. Only OUs without accounts and without child OUs are deleted. When AWS Control Tower
+   * is enabled, OUs registered in Control Tower are not deleted either. Skipped OUs are
+   * reported by the accelerator validation stage.
+   *
+   * Default value is false
+   *
+   * @example
+   * ```
+   * deleteRemovedOus: true
+   * ```
+   */
+  readonly deleteRemovedOus: boolean | undefined = undefined;
+
   /**
    *
    * @param values
@@ -26,14 +26,31 @@ const logger = createLogger(['security-config']);
  * AWS Accelerator SecurityConfig Types
  */
 export class SecurityConfigTypes {
+  /**
+   * SNS subscription delivery retry policy configuration
+   */
+  static readonly snsDeliveryRetryPolicyConfig = t.interface({
+    numRetries: t.number,
+    minDelayTarget: t.number,
+    maxDelayTarget: t.number,
+    backoffFunction: t.optional(t.enums('SnsBackoffFunction', ['linear', 'arithmetic', 'geometric', 'exponential'])),
+  });
+
   /**
    * SNS notification subscription configuration.
+   * The level and email subscriptions of the security config are
    * ***Deprecated***
-   * Replaced by snsTopics in global config
+   * Replaced by snsTopics in global config, whose subscriptions use the protocol and endpoint
    */
   static readonly snsSubscriptionConfig = t.interface({
-    level: t.nonEmptyString,
-    email: t.nonEmptyString,
+    level: t.optional(t.nonEmptyString),
+    email: t.optional(t.nonEmptyString),
+    protocol: t.optional(t.enums('SnsSubscriptionProtocol', ['https', 'sqs', 'lambda', 'sms'])),
+    endpoint: t.optional(t.nonEmptyString),
+    filterPolicy: t.optional(t.nonEmptyString),
+    filterPolicyScope: t.optional(t.enums('SnsFilterPolicyScope', ['MessageAttributes', 'MessageBody'])),
+    rawMessageDelivery: t.optional(t.boolean),
+    deliveryRetryPolicy: t.optional(this.snsDeliveryRetryPolicyConfig),
   });
 
   /**
@@ -131,31 +148,45 @@ export class SecurityConfigTypes {
   });
 
   /**
-   * AWS GuardDuty S3 Protection configuration.
+   * AWS GuardDuty organization auto-enable types
+   */
+  static readonly guardDutyAutoEnableTypeEnum = t.enums('GuardDutyAutoEnableType', ['ALL', 'NEW', 'NONE']);
+
+  /**
+   * AWS GuardDuty protection plan configuration, shared by the S3, EKS, Malware, RDS and Lambda protection plans.
    */
-  static readonly guardDutyS3ProtectionConfig = t.interface({
+  static readonly guardDutyProtectionConfig = t.interface({
     /**
-     * Indicates whether AWS GuardDuty S3 Protection enabled.
+     * Indicates whether the AWS GuardDuty protection plan enabled.
      */
     enable: t.boolean,
     /**
-     * List of AWS Region names to be excluded from configuring Amazon GuardDuty S3 Protection
+     * List of AWS Region names to be excluded from configuring the Amazon GuardDuty protection plan
      */
     excludeRegions: t.optional(t.array(t.region)),
+    /**
+     * Which organization member accounts have the AWS GuardDuty protection plan enabled automatically
+     */
+    autoEnable: t.optional(this.guardDutyAutoEnableTypeEnum),
   });
 
   /**
-   * AWS GuardDuty S3 Protection configuration.
+   * AWS GuardDuty Runtime Monitoring configuration.
    */
-  static readonly guardDutyEksProtectionConfig = t.interface({
+  static readonly guardDutyRuntimeMonitoringConfig = t.interface({
+    ...this.guardDutyProtectionConfig.props,
     /**
-     * Indicates whether AWS GuardDuty EKS Protection enabled.
+     * Indicates whether GuardDuty manages the security agent add-on for Amazon EKS clusters
      */
-    enable: t.boolean,
+    eksAddonManagement: t.optional(t.boolean),
     /**
-     * List of AWS Region names to be excluded from configuring Amazon GuardDuty EKS Protection
+     * Indicates whether GuardDuty manages the security agent for Amazon ECS Fargate tasks
      */
-    excludeRegions: t.optional(t.array(t.region)),
+    ecsFargateAgentManagement: t.optional(t.boolean),
+    /**
+     * Indicates whether GuardDuty manages the security agent for Amazon EC2 instances
+     */
+    ec2AgentManagement: t.optional(t.boolean),
   });
 
   /**
@@ -200,11 +231,37 @@ export class SecurityConfigTypes {
     /**
      * AWS GuardDuty S3 Protection
      */
-    s3Protection: this.guardDutyS3ProtectionConfig,
+    s3Protection: this.guardDutyProtectionConfig,
     /**
      * AWS EKS Protection
      */
-    eksProtection: t.optional(this.guardDutyEksProtectionConfig),
+    eksProtection: t.optional(this.guardDutyProtectionConfig),
+    /**
+     * AWS GuardDuty Malware Protection
+     */
+    malwareProtection: t.optional(this.guardDutyProtectionConfig),
+    /**
+     * AWS GuardDuty RDS Protection
+     */
+    rdsProtection: t.optional(this.guardDutyProtectionConfig),
+    /**
+     * AWS GuardDuty Lambda Protection
+     */
+    lambdaProtection: t.optional(this.guardDutyProtectionConfig),
+    /**
+     * AWS GuardDuty Runtime Monitoring
+     */
+    runtimeMonitoring: t.optional(this.guardDutyRuntimeMonitoringConfig),
+    /**
+     * Which organization member accounts have AWS GuardDuty enabled automatically
+     */
+    autoEnableOrganizationMembers: t.optional(this.guardDutyAutoEnableTypeEnum),
+    /**
+     * How frequently updated findings are published by the detectors
+     */
+    findingPublishingFrequency: t.optional(
+      t.enums('FindingPublishingFrequencyType', ['FIFTEEN_MINUTES', 'ONE_HOUR', 'SIX_HOURS']),
+    ),
     /**
      * AWS GuardDuty Export Findings configuration.
      */
@@ -265,6 +322,95 @@ export class SecurityConfigTypes {
     excludeRegions: t.optional(t.array(t.region)),
   });
 
+  /**
+   * Amazon Inspector Export Findings configuration.
+   */
+  static readonly inspectorExportFindingsConfig = t.interface({
+    /**
+     * Indicates whether Amazon Inspector Export Findings enabled.
+     */
+    enable: t.boolean,
+    /**
+     * Boolean to determine whether or not to remove Inspector Prefix for logging.
+     */
+    overrideInspectorPrefix: t.optional(t.prefixConfig),
+  });
+
+  /**
+   * Amazon Inspector configuration
+   */
+  static readonly inspectorConfig = t.interface({
+    /**
+     * Indicates whether Amazon Inspector is enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon Inspector
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+    /**
+     * Indicates whether Amazon EC2 scanning is enabled.
+     */
+    ec2Scanning: t.optional(t.boolean),
+    /**
+     * Indicates whether Amazon ECR scanning is enabled.
+     */
+    ecrScanning: t.optional(t.boolean),
+    /**
+     * Indicates whether AWS Lambda standard scanning is enabled.
+     */
+    lambdaScanning: t.optional(t.boolean),
+    /**
+     * Indicates whether AWS Lambda code scanning is enabled.
+     */
+    lambdaCodeScanning: t.optional(t.boolean),
+    /**
+     * Amazon Inspector Export Findings configuration.
+     */
+    exportConfiguration: t.optional(this.inspectorExportFindingsConfig),
+  });
+
+  /**
+   * AWS Security Hub control parameter configuration
+   */
+  static readonly securityHubControlParameterConfig = t.interface({
+    /**
+     * The name of the control parameter
+     */
+    name: t.nonEmptyString,
+    /**
+     * The data type of the control parameter value
+     */
+    valueType: t.enums('SecurityHubControlParameterValueType', [
+      'Boolean',
+      'Double',
+      'Enum',
+      'EnumList',
+      'Integer',
+      'IntegerList',
+      'String',
+      'StringList',
+    ]),
+    /**
+     * The value of the control parameter, a list for list value types
+     */
+    value: t.union([t.string, t.number, t.boolean, t.array(t.union([t.string, t.number]))]),
+  });
+
+  /**
+   * AWS Security Hub control parameters configuration
+   */
+  static readonly securityHubControlParametersConfig = t.interface({
+    /**
+     * The security control ID
+     */
+    controlId: t.nonEmptyString,
+    /**
+     * The control parameters to override
+     */
+    parameters: t.array(this.securityHubControlParameterConfig),
+  });
+
   /**
    * AWS Security Hub standards configuration
    */
@@ -297,6 +443,145 @@ export class SecurityConfigTypes {
      * An array of control names to be disabled for the given security standards
      */
     controlsToDisable: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * Control parameter overrides for the given security standard
+     */
+    controlParameters: t.optional(t.array(this.securityHubControlParametersConfig)),
+  });
+
+  /**
+   * AWS Security Hub automation rule string filter configuration
+   */
+  static readonly securityHubAutomationRuleCriteriaConfig = t.interface({
+    /**
+     * The finding field to filter on
+     */
+    key: t.enums('SecurityHubAutomationRuleCriteriaKey', [
+      'AwsAccountId',
+      'CompanyName',
+      'ComplianceAssociatedStandardsId',
+      'ComplianceSecurityControlId',
+      'ComplianceStatus',
+      'Description',
+      'GeneratorId',
+      'Id',
+      'NoteText',
+      'NoteUpdatedBy',
+      'ProductArn',
+      'ProductName',
+      'RecordState',
+      'RelatedFindingsId',
+      'RelatedFindingsProductArn',
+      'ResourceId',
+      'ResourcePartition',
+      'ResourceRegion',
+      'ResourceType',
+      'SeverityLabel',
+      'SourceUrl',
+      'Title',
+      'Type',
+      'VerificationState',
+      'WorkflowStatus',
+    ]),
+    /**
+     * The condition to apply to the finding field
+     */
+    comparison: t.enums('SecurityHubAutomationRuleComparison', [
+      'EQUALS',
+      'PREFIX',
+      'NOT_EQUALS',
+      'PREFIX_NOT_EQUALS',
+      'CONTAINS',
+      'NOT_CONTAINS',
+    ]),
+    /**
+     * The values to compare the finding field with
+     */
+    values: t.array(t.nonEmptyString),
+  });
+
+  /**
+   * AWS Security Hub automation rule actions configuration
+   */
+  static readonly securityHubAutomationRuleActionsConfig = t.interface({
+    /**
+     * The updated severity label of the matching findings
+     */
+    severityLabel: t.optional(
+      t.enums('SecurityHubSeverityLabel', ['INFORMATIONAL', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL']),
+    ),
+    /**
+     * The updated workflow status of the matching findings
+     */
+    workflowStatus: t.optional(t.enums('SecurityHubWorkflowStatus', ['NEW', 'NOTIFIED', 'RESOLVED', 'SUPPRESSED'])),
+    /**
+     * The note added to the matching findings
+     */
+    note: t.optional(t.nonEmptyString),
+  });
+
+  /**
+   * AWS Security Hub automation rule configuration
+   */
+  static readonly securityHubAutomationRuleConfig = t.interface({
+    /**
+     * The name of the automation rule
+     */
+    name: t.nonEmptyString,
+    /**
+     * The description of the automation rule
+     */
+    description: t.nonEmptyString,
+    /**
+     * Indicates whether the automation rule is enabled
+     */
+    enable: t.boolean,
+    /**
+     * The order in which the automation rule is applied
+     */
+    order: t.number,
+    /**
+     * Indicates whether lower order rules are skipped for the matching findings
+     */
+    isTerminal: t.optional(t.boolean),
+    /**
+     * The finding criteria of the automation rule
+     */
+    criteria: t.array(this.securityHubAutomationRuleCriteriaConfig),
+    /**
+     * The finding updates applied by the automation rule
+     */
+    actions: this.securityHubAutomationRuleActionsConfig,
+    /**
+     * List of AWS Region names to be excluded from configuring the automation rule
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
+  /**
+   * AWS Security Hub central configuration policy configuration
+   */
+  static readonly securityHubConfigurationPolicyConfig = t.interface({
+    /**
+     * The name of the configuration policy
+     */
+    name: t.nonEmptyString,
+    /**
+     * The description of the configuration policy
+     */
+    description: t.optional(t.nonEmptyString),
+    /**
+     * Indicates whether Security Hub is enabled in the associated accounts
+     */
+    enable: t.boolean,
+    /**
+     * The names of the standards enabled by the configuration policy
+     */
+    standards: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * The deployment targets the configuration policy is associated with
+     */
+    deploymentTargets: t.deploymentTargets,
   });
 
   static readonly securityHubLoggingCloudwatchConfig = t.interface({
@@ -315,6 +600,8 @@ export class SecurityConfigTypes {
     excludeRegions: t.optional(t.array(t.region)),
     standards: t.array(this.securityHubStandardConfig),
     logging: t.optional(this.securityHubLoggingConfig),
+    automationRules: t.optional(t.array(this.securityHubAutomationRuleConfig)),
+    configurationPolicies: t.optional(t.array(this.securityHubConfigurationPolicyConfig)),
   });
 
   static readonly ebsDefaultVolumeEncryptionConfig = t.interface({
@@ -350,6 +637,7 @@ export class SecurityConfigTypes {
     guardduty: SecurityConfigTypes.guardDutyConfig,
     auditManager: t.optional(SecurityConfigTypes.auditManagerConfig),
     detective: t.optional(SecurityConfigTypes.detectiveConfig),
+    inspector: t.optional(SecurityConfigTypes.inspectorConfig),
     securityHub: SecurityConfigTypes.securityHubConfig,
     ssmAutomation: this.ssmAutomationConfig,
   });
@@ -438,8 +726,37 @@ export class SecurityConfigTypes {
     networkPerimeter: t.optional(SecurityConfigTypes.networkPerimeterConfig),
   });
 
+  static readonly accessAnalyzerTypeEnum = t.enums('AccessAnalyzerType', [
+    'ORGANIZATION',
+    'ORGANIZATION_UNUSED_ACCESS',
+  ]);
+
+  static readonly accessAnalyzerArchiveRuleFilterConfig = t.interface({
+    key: t.nonEmptyString,
+    eq: t.optional(t.array(t.nonEmptyString)),
+    neq: t.optional(t.array(t.nonEmptyString)),
+    contains: t.optional(t.array(t.nonEmptyString)),
+    exists: t.optional(t.boolean),
+  });
+
+  static readonly accessAnalyzerArchiveRuleConfig = t.interface({
+    name: t.nonEmptyString,
+    filters: t.array(SecurityConfigTypes.accessAnalyzerArchiveRuleFilterConfig),
+  });
+
+  static readonly accessAnalyzerAnalyzerConfig = t.interface({
+    name: t.nonEmptyString,
+    type: SecurityConfigTypes.accessAnalyzerTypeEnum,
+    unusedAccessAge: t.optional(t.number),
+    archiveRules: t.optional(t.array(SecurityConfigTypes.accessAnalyzerArchiveRuleConfig)),
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
   static readonly accessAnalyzerConfig = t.interface({
     enable: t.boolean,
+    archiveRules: t.optional(t.array(SecurityConfigTypes.accessAnalyzerArchiveRuleConfig)),
+    analyzers: t.optional(t.array(SecurityConfigTypes.accessAnalyzerAnalyzerConfig)),
+    securityHubIntegration: t.optional(t.boolean),
   });
 
   static readonly iamPasswordPolicyConfig = t.interface({
@@ -567,13 +884,66 @@ export class SecurityConfigTypes {
     delegatedAdminAccount: t.optional(t.nonEmptyString),
   });
 
+  static readonly conformancePackOrganizationConfig = t.interface({
+    excludedAccounts: t.optional(t.array(t.nonEmptyString)),
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
+  static readonly conformancePackConfig = t.interface({
+    name: t.nonEmptyString,
+    templateBody: t.optional(t.nonEmptyString),
+    templateS3Uri: t.optional(t.nonEmptyString),
+    inputParameters: t.optional(t.dictionary(t.nonEmptyString, t.nonEmptyString)),
+    deploymentTargets: t.optional(t.deploymentTargets),
+    organization: t.optional(this.conformancePackOrganizationConfig),
+  });
+
+  static readonly awsConfigRecordingStrategyEnum = t.enums('AwsConfigRecordingStrategy', [
+    'ALL_SUPPORTED_RESOURCE_TYPES',
+    'INCLUSION_BY_RESOURCE_TYPES',
+    'EXCLUSION_BY_RESOURCE_TYPES',
+  ]);
+
+  static readonly awsConfigGlobalResourceTypesEnum = t.enums('AwsConfigGlobalResourceTypes', [
+    'ALL_REGIONS',
+    'HOME_REGION',
+    'NONE',
+  ]);
+
+  static readonly awsConfigRecordingFrequencyEnum = t.enums('AwsConfigRecordingFrequency', ['CONTINUOUS', 'DAILY']);
+
+  static readonly awsConfigRecordingGroupConfig = t.interface({
+    recordingStrategy: this.awsConfigRecordingStrategyEnum,
+    resourceTypes: t.optional(t.array(t.nonEmptyString)),
+    globalResourceTypes: t.optional(this.awsConfigGlobalResourceTypesEnum),
+  });
+
+  static readonly awsConfigRecordingModeOverrideConfig = t.interface({
+    description: t.optional(t.nonEmptyString),
+    resourceTypes: t.array(t.nonEmptyString),
+    recordingFrequency: this.awsConfigRecordingFrequencyEnum,
+  });
+
+  static readonly awsConfigRecordingModeConfig = t.interface({
+    recordingFrequency: this.awsConfigRecordingFrequencyEnum,
+    recordingModeOverrides: t.optional(t.array(this.awsConfigRecordingModeOverrideConfig)),
+  });
+
+  static readonly awsConfigRecorderSettingsConfig = t.interface({
+    deploymentTargets: t.deploymentTargets,
+    recordingGroup: t.optional(this.awsConfigRecordingGroupConfig),
+    recordingMode: t.optional(this.awsConfigRecordingModeConfig),
+  });
+
   static readonly awsConfig = t.interface({
     enableConfigurationRecorder: t.boolean,
     // enableDeliveryChannel deprecated
     enableDeliveryChannel: t.optional(t.boolean),
     overrideExisting: t.optional(t.boolean),
+    recorderSettings: t.optional(t.array(this.awsConfigRecorderSettingsConfig)),
     aggregation: t.optional(this.awsConfigAggregation),
     ruleSets: t.array(this.awsConfigRuleSet),
+    conformancePacks: t.optional(t.array(this.conformancePackConfig)),
   });
 
   static readonly metricConfig = t.interface({
@@ -591,25 +961,70 @@ export class SecurityConfigTypes {
     metrics: t.array(this.metricConfig),
   });
 
+  static readonly alarmDimensionConfig = t.interface({
+    name: t.nonEmptyString,
+    value: t.nonEmptyString,
+  });
+
+  static readonly alarmMetricConfig = t.interface({
+    id: t.nonEmptyString,
+    expression: t.optional(t.nonEmptyString),
+    metricName: t.optional(t.nonEmptyString),
+    namespace: t.optional(t.nonEmptyString),
+    statistic: t.optional(t.nonEmptyString),
+    period: t.optional(t.number),
+    dimensions: t.optional(t.array(this.alarmDimensionConfig)),
+    label: t.optional(t.nonEmptyString),
+    returnData: t.optional(t.boolean),
+  });
+
+  static readonly alarmAnomalyDetectionConfig = t.interface({
+    bandWidth: t.number,
+    metricId: t.optional(t.nonEmptyString),
+  });
+
   static readonly alarmConfig = t.interface({
     alarmName: t.nonEmptyString,
     alarmDescription: t.nonEmptyString,
     snsAlertLevel: t.optional(t.nonEmptyString), // Deprecated
     snsTopicName: t.optional(t.nonEmptyString),
-    metricName: t.nonEmptyString,
-    namespace: t.nonEmptyString,
+    metricName: t.optional(t.nonEmptyString),
+    namespace: t.optional(t.nonEmptyString),
+    dimensions: t.optional(t.array(this.alarmDimensionConfig)),
+    metrics: t.optional(t.array(this.alarmMetricConfig)),
+    anomalyDetection: t.optional(this.alarmAnomalyDetectionConfig),
     comparisonOperator: t.nonEmptyString,
     evaluationPeriods: t.number,
     period: t.number,
-    statistic: t.nonEmptyString,
-    threshold: t.number,
+    statistic: t.optional(t.nonEmptyString),
+    threshold: t.optional(t.number),
     treatMissingData: t.nonEmptyString,
+    okActions: t.optional(t.boolean),
+    insufficientDataActions: t.optional(t.boolean),
+  });
+
+  static readonly compositeAlarmStateEnum = t.enums('CompositeAlarmState', ['ALARM', 'OK', 'INSUFFICIENT_DATA']);
+
+  static readonly compositeAlarmRuleConfig = t.interface({
+    alarmName: t.nonEmptyString,
+    state: this.compositeAlarmStateEnum,
+  });
+
+  static readonly compositeAlarmConfig = t.interface({
+    alarmName: t.nonEmptyString,
+    alarmDescription: t.nonEmptyString,
+    snsTopicName: t.optional(t.nonEmptyString),
+    operator: t.enums('CompositeAlarmOperator', ['AND', 'OR']),
+    alarmRules: t.array(this.compositeAlarmRuleConfig),
+    okActions: t.optional(t.boolean),
+    insufficientDataActions: t.optional(t.boolean),
   });
 
   static readonly alarmSetConfig = t.interface({
     regions: t.optional(t.array(t.nonEmptyString)),
     deploymentTargets: t.deploymentTargets,
     alarms: t.array(this.alarmConfig),
+    compositeAlarms: t.optional(t.array(this.compositeAlarmConfig)),
   });
 
   static readonly encryptionConfig = t.interface({
@@ -914,7 +1329,7 @@ export class MacieConfig implements t.TypeOf<typeof SecurityConfigTypes.macieCon
  * excludeRegions: []
  * ```
  */
-export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyS3ProtectionConfig> {
+export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyProtectionConfig> {
   /**
    * Indicates whether AWS GuardDuty S3 Protection enabled.
    */
@@ -923,6 +1338,14 @@ export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConf
    * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty S3 Protection
    */
   readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty S3 Protection enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
+   */
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
 }
 
 /**
@@ -938,7 +1361,7 @@ export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConf
  * excludeRegions: []
  * ```
  */
-export class GuardDutyEksProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyEksProtectionConfig> {
+export class GuardDutyEksProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyProtectionConfig> {
   /**
    * Indicates whether AWS GuardDuty EKS Protection enabled.
    */
@@ -947,94 +1370,307 @@ export class GuardDutyEksProtectionConfig implements t.TypeOf<typeof SecurityCon
    * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty EKS Protection
    */
   readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty EKS Protection enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
+   */
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyExportFindingsConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyMalwareProtectionConfig}*
  *
- * {@link https://docs.aws.amazon.com/guardduty/latest/ug/guardduty_exportfindings.html} | AWS GuardDuty Export Findings configuration.
- * Use this configuration to export Amazon GuardDuty findings to Amazon CloudWatch Events, and, optionally, to an Amazon S3 bucket.
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/malware-protection.html} | AWS GuardDuty Malware Protection configuration.
+ * Use this configuration to enable Malware Protection for EC2 with Amazon GuardDuty to scan the EBS volumes attached to
+ * EC2 instances and container workloads that are potentially compromised.
  *
  * @example
  * ```
  * enable: true
- * overrideExisting: true
- * destinationType: S3
- * exportFrequency: FIFTEEN_MINUTES
+ * excludeRegions: []
+ * autoEnable: ALL
  * ```
  */
-export class GuardDutyExportFindingsConfig
-  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyExportFindingsConfig>
+export class GuardDutyMalwareProtectionConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyProtectionConfig>
 {
   /**
-   * Indicates whether AWS GuardDuty Export Findings enabled.
+   * Indicates whether AWS GuardDuty Malware Protection enabled.
    */
   readonly enable = false;
   /**
-   * (OPTIONAL) Indicates whether AWS GuardDuty Export Findings can be overwritten.
-   */
-  readonly overrideExisting = false;
-  /**
-   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
-   */
-  readonly destinationType = 'S3';
-  /**
-   * An enum value that specifies how frequently findings are exported, such as to CloudWatch Events.
-   * Possible values FIFTEEN_MINUTES, ONE_HOUR, or SIX_HOURS
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty Malware Protection
    */
-  readonly exportFrequency = 'FIFTEEN_MINUTES';
+  readonly excludeRegions: t.Region[] = [];
   /**
-   * (OPTIONAL) AWS GuardDuty Prefix for centralized logging path.
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty Malware Protection enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
    */
-  readonly overrideGuardDutyPrefix: t.PrefixConfig | undefined = undefined;
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig}*
- *
- * AWS GuardDuty configuration
- * Use this configuration to enable Amazon GuardDuty for an AWS Organization, as well as other modular
- * feature protections.
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyRdsProtectionConfig}*
  *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/rds-protection.html} | AWS GuardDuty RDS Protection configuration.
+ * Use this configuration to enable RDS Protection with Amazon GuardDuty to profile and monitor login activity to
+ * Amazon Aurora databases for potentially suspicious login behavior.
  *
  * @example
  * ```
- * guardduty:
- *   enable: true
- *   excludeRegions: []
- *   s3Protection:
- *     enable: true
- *     excludeRegions: []
- *   eksProtection:
- *     enable: true
- *     excludedRegions: []
- *   exportConfiguration:
- *     enable: true
- *     overrideExisting: true
- *     destinationType: S3
- *     exportFrequency: FIFTEEN_MINUTES
- *   lifecycleRules: []
+ * enable: true
+ * excludeRegions: []
+ * autoEnable: NEW
  * ```
  */
-export class GuardDutyConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyConfig> {
+export class GuardDutyRdsProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyProtectionConfig> {
   /**
-   * Indicates whether AWS GuardDuty enabled.
+   * Indicates whether AWS GuardDuty RDS Protection enabled.
    */
   readonly enable = false;
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty RDS Protection
    */
   readonly excludeRegions: t.Region[] = [];
   /**
-   * AWS GuardDuty S3 Protection configuration.
-   * @type object
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty RDS Protection enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
    */
-  readonly s3Protection: GuardDutyS3ProtectionConfig = new GuardDutyS3ProtectionConfig();
-  /**
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyLambdaProtectionConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/lambda-protection.html} | AWS GuardDuty Lambda Protection configuration.
+ * Use this configuration to enable Lambda Protection with Amazon GuardDuty to monitor the network activity logs of
+ * AWS Lambda function invocations for potential security threats.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * autoEnable: NEW
+ * ```
+ */
+export class GuardDutyLambdaProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyProtectionConfig> {
+  /**
+   * Indicates whether AWS GuardDuty Lambda Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty Lambda Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty Lambda Protection enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
+   */
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyRuntimeMonitoringConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/runtime-monitoring.html} | AWS GuardDuty Runtime Monitoring configuration.
+ * Use this configuration to enable Runtime Monitoring with Amazon GuardDuty to detect runtime threats on Amazon EKS clusters,
+ * Amazon ECS Fargate tasks and Amazon EC2 instances. GuardDuty can optionally manage the security agent for each resource type.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * autoEnable: ALL
+ * eksAddonManagement: true
+ * ecsFargateAgentManagement: true
+ * ec2AgentManagement: false
+ * ```
+ */
+export class GuardDutyRuntimeMonitoringConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyRuntimeMonitoringConfig>
+{
+  /**
+   * Indicates whether AWS GuardDuty Runtime Monitoring enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty Runtime Monitoring
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty Runtime Monitoring enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to NEW when the protection is enabled.
+   */
+  readonly autoEnable: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty automatically deploys and updates the security agent add-on on Amazon EKS clusters.
+   */
+  readonly eksAddonManagement: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty automatically manages the security agent for Amazon ECS Fargate tasks.
+   */
+  readonly ecsFargateAgentManagement: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty automatically deploys the security agent to Amazon EC2 instances using SSM.
+   */
+  readonly ec2AgentManagement: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyExportFindingsConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/guardduty_exportfindings.html} | AWS GuardDuty Export Findings configuration.
+ * Use this configuration to export Amazon GuardDuty findings to Amazon CloudWatch Events, and, optionally, to an Amazon S3 bucket.
+ *
+ * @example
+ * ```
+ * enable: true
+ * overrideExisting: true
+ * destinationType: S3
+ * exportFrequency: FIFTEEN_MINUTES
+ * ```
+ */
+export class GuardDutyExportFindingsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyExportFindingsConfig>
+{
+  /**
+   * Indicates whether AWS GuardDuty Export Findings enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) Indicates whether AWS GuardDuty Export Findings can be overwritten.
+   */
+  readonly overrideExisting = false;
+  /**
+   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
+   */
+  readonly destinationType = 'S3';
+  /**
+   * An enum value that specifies how frequently findings are exported, such as to CloudWatch Events.
+   * Possible values FIFTEEN_MINUTES, ONE_HOUR, or SIX_HOURS
+   */
+  readonly exportFrequency = 'FIFTEEN_MINUTES';
+  /**
+   * (OPTIONAL) AWS GuardDuty Prefix for centralized logging path.
+   */
+  readonly overrideGuardDutyPrefix: t.PrefixConfig | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig}*
+ *
+ * AWS GuardDuty configuration
+ * Use this configuration to enable Amazon GuardDuty for an AWS Organization, as well as other modular
+ * feature protections.
+ *
+ *
+ * @example
+ * ```
+ * guardduty:
+ *   enable: true
+ *   excludeRegions: []
+ *   s3Protection:
+ *     enable: true
+ *     excludeRegions: []
+ *   eksProtection:
+ *     enable: true
+ *     excludedRegions: []
+ *   malwareProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   rdsProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   lambdaProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   runtimeMonitoring:
+ *     enable: true
+ *     excludeRegions: []
+ *     eksAddonManagement: true
+ *     ecsFargateAgentManagement: true
+ *     ec2AgentManagement: true
+ *   autoEnableOrganizationMembers: ALL
+ *   findingPublishingFrequency: FIFTEEN_MINUTES
+ *   exportConfiguration:
+ *     enable: true
+ *     overrideExisting: true
+ *     destinationType: S3
+ *     exportFrequency: FIFTEEN_MINUTES
+ *   lifecycleRules: []
+ * ```
+ */
+export class GuardDutyConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyConfig> {
+  /**
+   * Indicates whether AWS GuardDuty enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * AWS GuardDuty S3 Protection configuration.
+   * @type object
+   */
+  readonly s3Protection: GuardDutyS3ProtectionConfig = new GuardDutyS3ProtectionConfig();
+  /**
    * (OPTIONAL) AWS GuardDuty EKS Protection configuration.
    * @type object
    */
   readonly eksProtection: GuardDutyEksProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty Malware Protection configuration.
+   * @type object
+   */
+  readonly malwareProtection: GuardDutyMalwareProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty RDS Protection configuration.
+   * @type object
+   */
+  readonly rdsProtection: GuardDutyRdsProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty Lambda Protection configuration.
+   * @type object
+   */
+  readonly lambdaProtection: GuardDutyLambdaProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty Runtime Monitoring configuration.
+   * @type object
+   */
+  readonly runtimeMonitoring: GuardDutyRuntimeMonitoringConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Which organization member accounts have AWS GuardDuty enabled automatically.
+   *
+   * @remarks
+   * Possible values are ALL (all accounts, including existing), NEW (accounts added to the organization) or NONE.
+   * Defaults to ALL.
+   */
+  readonly autoEnableOrganizationMembers: t.TypeOf<typeof SecurityConfigTypes.guardDutyAutoEnableTypeEnum> | undefined =
+    undefined;
+  /**
+   * (OPTIONAL) How frequently updated findings are published by the delegated administrator and member detectors.
+   *
+   * @remarks
+   * Possible values FIFTEEN_MINUTES, ONE_HOUR, or SIX_HOURS. When not set, the export configuration
+   * `exportFrequency` is used if `overrideExisting` is enabled, otherwise the detector setting is left unchanged.
+   */
+  readonly findingPublishingFrequency: 'FIFTEEN_MINUTES' | 'ONE_HOUR' | 'SIX_HOURS' | undefined = undefined;
   /**
    * AWS GuardDuty Export Findings configuration.
    * @type object
@@ -1134,6 +1770,97 @@ export class DetectiveConfig implements t.TypeOf<typeof SecurityConfigTypes.dete
   readonly excludeRegions: t.Region[] = [];
 }
 
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link InspectorConfig} / {@link InspectorExportFindingsConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/inspector/latest/user/eventbridge-integration.html} | Amazon Inspector Export Findings configuration.
+ * Use this configuration to continuously export Amazon Inspector findings to the centralized logging bucket.
+ * New and updated findings of every account and region are delivered through an Amazon EventBridge rule and
+ * a Kinesis Data Firehose delivery stream under the `inspector/<account id>/<region>/` prefix.
+ *
+ * @example
+ * ```
+ * enable: true
+ * ```
+ */
+export class InspectorExportFindingsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.inspectorExportFindingsConfig>
+{
+  /**
+   * Indicates whether Amazon Inspector Export Findings enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) Amazon Inspector Prefix for centralized logging path.
+   */
+  readonly overrideInspectorPrefix: t.PrefixConfig | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link InspectorConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/inspector/latest/user/what-is-inspector.html} | Amazon Inspector configuration
+ * Use this configuration to enable Amazon Inspector for an AWS Organization. Amazon Inspector continually scans
+ * Amazon EC2 instances, Amazon ECR container images, and AWS Lambda functions for software vulnerabilities and
+ * unintended network exposure.
+ *
+ * @example
+ * ```
+ * inspector:
+ *   enable: true
+ *   excludeRegions: []
+ *   ec2Scanning: true
+ *   ecrScanning: true
+ *   lambdaScanning: true
+ *   lambdaCodeScanning: false
+ *   exportConfiguration:
+ *     enable: true
+ * ```
+ */
+export class InspectorConfig implements t.TypeOf<typeof SecurityConfigTypes.inspectorConfig> {
+  /**
+   * Indicates whether Amazon Inspector is enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon Inspector. Please ensure any regions enabled in the global configuration that do not support Amazon Inspector are added to the excluded regions list. {@link https://aws.amazon.com/about-aws/global-infrastructure/regional-product-services/ | Supported services by region}.
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Indicates whether Amazon EC2 scanning is enabled for all member accounts.
+   *
+   * @default true
+   */
+  readonly ec2Scanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether Amazon ECR scanning is enabled for all member accounts.
+   *
+   * @default true
+   */
+  readonly ecrScanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether AWS Lambda standard scanning is enabled for all member accounts.
+   *
+   * @default true
+   */
+  readonly lambdaScanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether AWS Lambda code scanning is enabled for all member accounts.
+   *
+   * @remarks
+   * Lambda code scanning requires `lambdaScanning` to be enabled.
+   *
+   * @default false
+   */
+  readonly lambdaCodeScanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Amazon Inspector Export Findings configuration.
+   *
+   * @see {@link InspectorExportFindingsConfig}
+   */
+  readonly exportConfiguration: InspectorExportFindingsConfig | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig}*
  *
@@ -1177,6 +1904,268 @@ export class SecurityHubStandardConfig implements t.TypeOf<typeof SecurityConfig
    * (OPTIONAL) An array of control names to be disabled for the given security standards
    */
   readonly controlsToDisable: string[] = [];
+  /**
+   * (OPTIONAL) Control parameter overrides for the given security standard
+   *
+   * @remarks
+   * Control parameters are applied through the Security Hub central configuration policies that enable this standard.
+   *
+   * @see {@link SecurityHubControlParametersConfig}
+   */
+  readonly controlParameters: SecurityHubControlParametersConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig} / {@link SecurityHubControlParametersConfig} / {@link SecurityHubControlParameterConfig}*
+ *
+ * AWS Security Hub control parameter configuration.
+ *
+ * @example
+ * ```
+ * name: MinimumPasswordLength
+ * valueType: Integer
+ * value: 16
+ * ```
+ */
+export class SecurityHubControlParameterConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubControlParameterConfig>
+{
+  /**
+   * The name of the control parameter
+   */
+  readonly name: string = '';
+  /**
+   * The data type of the control parameter value
+   *
+   * @remarks
+   * Possible values are Boolean, Double, Enum, EnumList, Integer, IntegerList, String and StringList
+   */
+  readonly valueType: t.TypeOf<typeof SecurityConfigTypes.securityHubControlParameterConfig>['valueType'] = 'String';
+  /**
+   * The value of the control parameter. Provide a list for EnumList, IntegerList and StringList value types.
+   */
+  readonly value: string | number | boolean | (string | number)[] = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig} / {@link SecurityHubControlParametersConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/custom-control-parameters.html} | AWS Security Hub control parameters configuration.
+ * Use this configuration to customize the parameters of a security control.
+ *
+ * @example
+ * ```
+ * - controlId: IAM.7
+ *   parameters:
+ *     - name: MinimumPasswordLength
+ *       valueType: Integer
+ *       value: 16
+ * ```
+ */
+export class SecurityHubControlParametersConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubControlParametersConfig>
+{
+  /**
+   * The security control ID
+   */
+  readonly controlId: string = '';
+  /**
+   * The control parameters to override
+   *
+   * @see {@link SecurityHubControlParameterConfig}
+   */
+  readonly parameters: SecurityHubControlParameterConfig[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubAutomationRuleConfig} / {@link SecurityHubAutomationRuleCriteriaConfig}*
+ *
+ * AWS Security Hub automation rule criteria configuration.
+ * Findings match the rule when they match every criteria.
+ *
+ * @example
+ * ```
+ * - key: SeverityLabel
+ *   comparison: EQUALS
+ *   values:
+ *     - LOW
+ *     - INFORMATIONAL
+ * ```
+ */
+export class SecurityHubAutomationRuleCriteriaConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleCriteriaConfig>
+{
+  /**
+   * The finding field to filter on
+   */
+  readonly key: t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleCriteriaConfig>['key'] = 'AwsAccountId';
+  /**
+   * The condition to apply to the finding field
+   *
+   * @remarks
+   * Possible values are EQUALS, PREFIX, NOT_EQUALS, PREFIX_NOT_EQUALS, CONTAINS and NOT_CONTAINS
+   */
+  readonly comparison: t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleCriteriaConfig>['comparison'] =
+    'EQUALS';
+  /**
+   * The values to compare the finding field with
+   */
+  readonly values: string[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubAutomationRuleConfig} / {@link SecurityHubAutomationRuleActionsConfig}*
+ *
+ * AWS Security Hub automation rule actions configuration.
+ * Set the workflow status to SUPPRESSED to suppress the matching findings.
+ *
+ * @example
+ * ```
+ * severityLabel: LOW
+ * workflowStatus: SUPPRESSED
+ * note: Suppressed by the Accelerator
+ * ```
+ */
+export class SecurityHubAutomationRuleActionsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleActionsConfig>
+{
+  /**
+   * (OPTIONAL) The updated severity label of the matching findings
+   */
+  readonly severityLabel: 'INFORMATIONAL' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | undefined = undefined;
+  /**
+   * (OPTIONAL) The updated workflow status of the matching findings
+   */
+  readonly workflowStatus: 'NEW' | 'NOTIFIED' | 'RESOLVED' | 'SUPPRESSED' | undefined = undefined;
+  /**
+   * (OPTIONAL) The note added to the matching findings
+   */
+  readonly note: string | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubAutomationRuleConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/automation-rules.html} | AWS Security Hub automation rule configuration.
+ * Use this configuration to update or suppress findings that match criteria. Automation rules are created
+ * in the delegated administrator account and apply to the findings of all member accounts.
+ *
+ * @example
+ * ```
+ * - name: SuppressSandboxFindings
+ *   description: Suppress low severity findings of the sandbox account
+ *   enable: true
+ *   order: 1
+ *   isTerminal: false
+ *   criteria:
+ *     - key: AwsAccountId
+ *       comparison: EQUALS
+ *       values:
+ *         - '111111111111'
+ *     - key: SeverityLabel
+ *       comparison: EQUALS
+ *       values:
+ *         - LOW
+ *   actions:
+ *     workflowStatus: SUPPRESSED
+ *     note: Sandbox findings are suppressed
+ *   excludeRegions: []
+ * ```
+ */
+export class SecurityHubAutomationRuleConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleConfig>
+{
+  /**
+   * The name of the automation rule
+   */
+  readonly name: string = '';
+  /**
+   * The description of the automation rule
+   */
+  readonly description: string = '';
+  /**
+   * Indicates whether the automation rule is enabled
+   */
+  readonly enable: boolean = true;
+  /**
+   * The order in which the automation rule is applied, between 1 and 1000. Rules with a lower order are applied first.
+   */
+  readonly order: number = 1;
+  /**
+   * (OPTIONAL) Indicates whether lower order rules are skipped for the matching findings
+   */
+  readonly isTerminal: boolean | undefined = undefined;
+  /**
+   * The finding criteria of the automation rule
+   *
+   * @see {@link SecurityHubAutomationRuleCriteriaConfig}
+   */
+  readonly criteria: SecurityHubAutomationRuleCriteriaConfig[] = [];
+  /**
+   * The finding updates applied by the automation rule
+   *
+   * @see {@link SecurityHubAutomationRuleActionsConfig}
+   */
+  readonly actions: SecurityHubAutomationRuleActionsConfig = new SecurityHubAutomationRuleActionsConfig();
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring the automation rule
+   */
+  readonly excludeRegions: t.Region[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubConfigurationPolicyConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/configuration-policies-overview.html} | AWS Security Hub central configuration policy configuration.
+ * Use this configuration to centrally configure Security Hub, its standards, disabled controls and control parameters
+ * for organizational units and accounts from the delegated administrator in the home region.
+ * The disabled controls and control parameters of the policy are taken from the `controlsToDisable` and `controlParameters`
+ * of the referenced {@link SecurityHubStandardConfig | standards}.
+ *
+ * @remarks
+ * Central configuration requires Security Hub region aggregation to be enabled.
+ * Standards are no longer configured locally in the accounts included in the policy deployment targets.
+ * When the last configuration policy is removed, the organization is switched back to local configuration
+ * and new organization accounts are enabled automatically again.
+ *
+ * @example
+ * ```
+ * - name: Baseline
+ *   description: Baseline Security Hub configuration
+ *   enable: true
+ *   standards:
+ *     - AWS Foundational Security Best Practices v1.0.0
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Root
+ * ```
+ */
+export class SecurityHubConfigurationPolicyConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubConfigurationPolicyConfig>
+{
+  /**
+   * The name of the configuration policy
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) The description of the configuration policy
+   */
+  readonly description: string | undefined = undefined;
+  /**
+   * Indicates whether Security Hub is enabled in the associated accounts
+   */
+  readonly enable: boolean = true;
+  /**
+   * (OPTIONAL) The names of the standards enabled by the configuration policy.
+   *
+   * @remarks
+   * The standards must be defined in the Security Hub `standards` configuration.
+   */
+  readonly standards: string[] | undefined = undefined;
+  /**
+   * The deployment targets the configuration policy is associated with
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
 }
 /**
  * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubLoggingConfig} / {@link SecurityHubLoggingCloudwatchConfig}*
@@ -1238,6 +2227,26 @@ export class SecurityHubLoggingConfig implements t.TypeOf<typeof SecurityConfigT
  *   logging:
  *     cloudWatch:
  *       enable: true
+ *   automationRules:
+ *     - name: SuppressInformationalFindings
+ *       description: Suppress informational findings
+ *       enable: true
+ *       order: 1
+ *       criteria:
+ *         - key: SeverityLabel
+ *           comparison: EQUALS
+ *           values:
+ *             - INFORMATIONAL
+ *       actions:
+ *         workflowStatus: SUPPRESSED
+ *   configurationPolicies:
+ *     - name: Baseline
+ *       enable: true
+ *       standards:
+ *         - AWS Foundational Security Best Practices v1.0.0
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
  * ```
  */
 export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.securityHubConfig> {
@@ -1283,6 +2292,56 @@ export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.se
    * Please note, this option can be toggled but log group with `/${acceleratorPrefix}-SecurityHub` will remain in the account for every enabled region and will need to be manually deleted. This is designed to ensure no accidental loss of data occurs.
    */
   readonly logging: SecurityHubLoggingConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Security Hub automation rules configuration
+   *
+   * @see {@link SecurityHubAutomationRuleConfig}
+   */
+  readonly automationRules: SecurityHubAutomationRuleConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Security Hub central configuration policies
+   *
+   * @see {@link SecurityHubConfigurationPolicyConfig}
+   */
+  readonly configurationPolicies: SecurityHubConfigurationPolicyConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SnsSubscriptionConfig} / {@link SnsDeliveryRetryPolicyConfig}*
+ *
+ * SNS HTTP/S delivery retry policy configuration
+ *
+ * @example
+ * ```
+ * deliveryRetryPolicy:
+ *   numRetries: 10
+ *   minDelayTarget: 5
+ *   maxDelayTarget: 60
+ *   backoffFunction: exponential
+ * ```
+ */
+export class SnsDeliveryRetryPolicyConfig implements t.TypeOf<typeof SecurityConfigTypes.snsDeliveryRetryPolicyConfig> {
+  /**
+   * The total number of delivery retries
+   */
+  readonly numRetries: number = 3;
+
+  /**
+   * The minimum delay between retries, in seconds
+   */
+  readonly minDelayTarget: number = 20;
+
+  /**
+   * The maximum delay between retries, in seconds
+   */
+  readonly maxDelayTarget: number = 20;
+
+  /**
+   * The backoff function used between retries
+   *
+   * @default linear
+   */
+  readonly backoffFunction: 'linear' | 'arithmetic' | 'geometric' | 'exponential' | undefined = undefined;
 }
 
 /**
@@ -1290,9 +2349,16 @@ export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.se
  *
  * AWS SNS Notification subscription configuration
  * ***Deprecated***
- * Replaced by snsTopics in global config
+ * The level and email subscriptions of the security config are replaced by snsTopics in global config.
+ * The subscriptions of the global config snsTopics use the protocol, endpoint and delivery properties.
+ *
+ * @remarks
+ * SQS queues and Lambda functions in the Log Archive account are granted access to the topic, the accelerator
+ * manages the queue policy of those SQS queues. SQS queues and Lambda functions in other accounts must allow
+ * the topic in the Log Archive account to send messages or invoke the function in their resource policies.
  *
  * @example
+ * Security config
  * ```
  * snsSubscriptions:
  *     - level: High
@@ -1302,16 +2368,59 @@ export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.se
  *     - level: Low
  *       email: <notify-low>@example.com
  * ```
+ * Global config snsTopics
+ * ```
+ * subscriptions:
+ *   - protocol: https
+ *     endpoint: https://soc.example.com/webhook
+ *     filterPolicy: sns-filter-policies/high-severity.json
+ *     deliveryRetryPolicy:
+ *       numRetries: 10
+ *       minDelayTarget: 5
+ *       maxDelayTarget: 60
+ *   - protocol: sqs
+ *     endpoint: arn:aws:sqs:us-east-1:111111111111:soc-queue
+ *     rawMessageDelivery: true
+ * ```
  */
 export class SnsSubscriptionConfig implements t.TypeOf<typeof SecurityConfigTypes.snsSubscriptionConfig> {
   /**
-   * Notification level high, medium or low
+   * Notification level high, medium or low. Required by the security config snsSubscriptions.
    */
   readonly level: string = '';
   /**
-   * Subscribing email address
+   * Subscribing email address. Required by the security config snsSubscriptions.
    */
   readonly email: string = '';
+  /**
+   * The subscription protocol. Required by the global config snsTopics subscriptions.
+   */
+  readonly protocol: 'https' | 'sqs' | 'lambda' | 'sms' | undefined = undefined;
+  /**
+   * The subscription endpoint. An HTTPS URL, SQS queue ARN, Lambda function ARN or phone number in E.164 format.
+   * Required by the global config snsTopics subscriptions.
+   */
+  readonly endpoint: string | undefined = undefined;
+  /**
+   * The path to a JSON file defining the subscription filter policy
+   */
+  readonly filterPolicy: string | undefined = undefined;
+  /**
+   * Whether the filter policy applies to the message attributes or the message body
+   *
+   * @default MessageAttributes
+   */
+  readonly filterPolicyScope: 'MessageAttributes' | 'MessageBody' | undefined = undefined;
+  /**
+   * Deliver messages without the SNS JSON envelope. Only supported by the https and sqs protocols.
+   */
+  readonly rawMessageDelivery: boolean | undefined = undefined;
+  /**
+   * Delivery retry policy. Only supported by the https protocol.
+   *
+   * @see {@link SnsDeliveryRetryPolicyConfig}
+   */
+  readonly deliveryRetryPolicy: SnsDeliveryRetryPolicyConfig | undefined = undefined;
 }
 
 /**
@@ -1491,6 +2600,13 @@ export class SsmAutomationConfig implements t.TypeOf<typeof SecurityConfigTypes.
  *     excludeRegions: []
  *     policyFindingsPublishingFrequency: FIFTEEN_MINUTES
  *     publishSensitiveDataFindings: true
+ *   inspector:
+ *     enable: true
+ *     excludeRegions: []
+ *     ec2Scanning: true
+ *     ecrScanning: true
+ *     lambdaScanning: true
+ *     lambdaCodeScanning: false
  *   snsSubscriptions: []
  *   securityHub:
  *     enable: true
@@ -1535,7 +2651,7 @@ export class CentralSecurityServicesConfig
    * Designated administrator account name for accelerator security services.
    * AWS organizations designate a member account as a delegated administrator for the
    * organization users and roles from that account can perform administrative actions for security services like
-   * Macie, GuardDuty, Detective and Security Hub. Without designated administrator account administrative tasks for
+   * Macie, GuardDuty, Detective, Inspector and Security Hub. Without designated administrator account administrative tasks for
    * security services are performed only by users or roles in the organization's management account.
    * This helps you to separate management of the organization from management of these security services.
    * Accelerator use Audit account as designated administrator account.
@@ -1645,6 +2761,12 @@ export class CentralSecurityServicesConfig
    * (OPTIONAL) Amazon Detective Configuration
    */
   readonly detective: DetectiveConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Amazon Inspector Configuration
+   *
+   * @see {@link InspectorConfig}
+   */
+  readonly inspector: InspectorConfig | undefined = undefined;
   /**
    * AWS Security Hub configuration
    *
@@ -1705,6 +2827,139 @@ export class CentralSecurityServicesConfig
   readonly ssmAutomation: SsmAutomationConfig = new SsmAutomationConfig();
 }
 
+/**
+ * *{@link SecurityConfig} / {@link AccessAnalyzerConfig} / {@link AccessAnalyzerArchiveRuleConfig} / {@link AccessAnalyzerArchiveRuleFilterConfig}*
+ *
+ * AWS AccessAnalyzer archive rule filter configuration.
+ * Each filter must define exactly one of eq, neq, contains or exists.
+ *
+ * @example
+ * ```
+ * - key: principal.AWS
+ *   eq:
+ *     - "{{ TrustedPartnerAccountId }}"
+ * ```
+ */
+export class AccessAnalyzerArchiveRuleFilterConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerArchiveRuleFilterConfig>
+{
+  /**
+   * The finding property to filter on
+   *
+   * @remarks
+   * External access analyzers support the keys action, condition.*, error, id, isPublic, principal.AWS, principal.CanonicalUser,
+   * principal.Federated, principal.Service, resource, resourceOwnerAccount, resourceType and status.
+   * Unused access analyzers support the keys error, findingType, id, resource, resourceOwnerAccount, resourceType and status.
+   *
+   * @see {@link https://docs.aws.amazon.com/IAM/latest/UserGuide/access-analyzer-reference-filter-keys.html}
+   */
+  readonly key: string = '';
+  /**
+   * (OPTIONAL) Archive findings where the property equals one of the values
+   */
+  readonly eq: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Archive findings where the property does not equal any of the values
+   */
+  readonly neq: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Archive findings where the property contains one of the values
+   */
+  readonly contains: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Archive findings where the property exists, or does not exist when false
+   */
+  readonly exists: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AccessAnalyzerConfig} / {@link AccessAnalyzerArchiveRuleConfig}*
+ *
+ * AWS AccessAnalyzer archive rule configuration.
+ * New and existing findings that match every filter of the rule are archived automatically.
+ *
+ * @example
+ * ```
+ * - name: TrustedPartnerAccess
+ *   filters:
+ *     - key: principal.AWS
+ *       eq:
+ *         - "{{ TrustedPartnerAccountId }}"
+ *     - key: resourceType
+ *       eq:
+ *         - AWS::S3::Bucket
+ * ```
+ */
+export class AccessAnalyzerArchiveRuleConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerArchiveRuleConfig>
+{
+  /**
+   * The name of the archive rule
+   */
+  readonly name: string = '';
+  /**
+   * The filter criteria of the archive rule
+   *
+   * @see {@link AccessAnalyzerArchiveRuleFilterConfig}
+   */
+  readonly filters: AccessAnalyzerArchiveRuleFilterConfig[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AccessAnalyzerConfig} / {@link AccessAnalyzerAnalyzerConfig}*
+ *
+ * AWS AccessAnalyzer additional analyzer configuration.
+ * Analyzers are created in the audit (delegated administrator) account. ORGANIZATION analyzers are created in every
+ * enabled region, except the excluded regions, ORGANIZATION_UNUSED_ACCESS analyzers are created in the home region only.
+ *
+ * @example
+ * ```
+ * - name: UnusedAccess
+ *   type: ORGANIZATION_UNUSED_ACCESS
+ *   unusedAccessAge: 90
+ *   archiveRules:
+ *     - name: BreakGlassRoles
+ *       filters:
+ *         - key: resource
+ *           contains:
+ *             - BreakGlass
+ * ```
+ */
+export class AccessAnalyzerAnalyzerConfig implements t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerAnalyzerConfig> {
+  /**
+   * The name of the analyzer
+   */
+  readonly name: string = '';
+  /**
+   * The type of the analyzer
+   *
+   * @remarks
+   * ORGANIZATION analyzers report external access findings, ORGANIZATION_UNUSED_ACCESS analyzers report unused roles, access keys, passwords and permissions.
+   * Unused access analyzers are charged per IAM role and user analyzed, IAM is a global service so they are only created in the home region.
+   */
+  readonly type: t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerTypeEnum> = 'ORGANIZATION';
+  /**
+   * (OPTIONAL) The number of days after which access is considered unused, between 1 and 365
+   *
+   * @remarks
+   * Required for ORGANIZATION_UNUSED_ACCESS analyzers and not supported for ORGANIZATION analyzers.
+   */
+  readonly unusedAccessAge: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Archive rules of the analyzer
+   *
+   * @see {@link AccessAnalyzerArchiveRuleConfig}
+   */
+  readonly archiveRules: AccessAnalyzerArchiveRuleConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Regions where the analyzer is not created
+   *
+   * @remarks
+   * Not supported for ORGANIZATION_UNUSED_ACCESS analyzers, they are only created in the home region.
+   */
+  readonly excludeRegions: t.Region[] | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link AccessAnalyzerConfig}*
  *
@@ -1714,6 +2969,17 @@ export class CentralSecurityServicesConfig
  * ```
  * accessAnalyzer:
  *   enable: true
+ *   archiveRules:
+ *     - name: TrustedPartnerAccess
+ *       filters:
+ *         - key: principal.AWS
+ *           eq:
+ *             - "{{ TrustedPartnerAccountId }}"
+ *   analyzers:
+ *     - name: UnusedAccess
+ *       type: ORGANIZATION_UNUSED_ACCESS
+ *       unusedAccessAge: 90
+ *   securityHubIntegration: true
  * ```
  */
 export class AccessAnalyzerConfig implements t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerConfig> {
@@ -1724,6 +2990,26 @@ export class AccessAnalyzerConfig implements t.TypeOf<typeof SecurityConfigTypes
    * Note: Once enabled, IAM Access Analyzer examines policies and reports a list of findings for resources that grant public or cross-account access from outside your AWS Organizations in the IAM console and through APIs.
    */
   readonly enable = false;
+  /**
+   * (OPTIONAL) Archive rules of the organization analyzer created in the home region
+   *
+   * @see {@link AccessAnalyzerArchiveRuleConfig}
+   */
+  readonly archiveRules: AccessAnalyzerArchiveRuleConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Additional analyzers, such as organization unused access analyzers
+   *
+   * @see {@link AccessAnalyzerAnalyzerConfig}
+   */
+  readonly analyzers: AccessAnalyzerAnalyzerConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether AccessAnalyzer findings are imported into AWS Security Hub
+   *
+   * @remarks
+   * Requires Security Hub to be enabled. Findings are imported in the audit account in each region with an analyzer,
+   * and are aggregated into the home region when Security Hub region aggregation is enabled.
+   */
+  readonly securityHubIntegration: boolean | undefined = undefined;
 }
 
 /**
@@ -2114,77 +3400,323 @@ export class ConfigRule implements t.TypeOf<typeof SecurityConfigTypes.configRul
     },
   };
   /**
-   * A remediation for the config rule, auto remediation to automatically remediate noncompliant resources.
+   * A remediation for the config rule, auto remediation to automatically remediate noncompliant resources.
+   */
+  readonly remediation: ConfigRuleRemediation = new ConfigRuleRemediation();
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRuleSet}*
+ *
+ * List of AWS Config rules
+ *
+ * @example
+ * ```
+ * - deploymentTargets:
+ *     organizationalUnits:
+ *       - Root
+ *   rules:
+ *     - name: accelerator-iam-user-group-membership-check
+ *       complianceResourceTypes:
+ *         - AWS::IAM::User
+ *       identifier: IAM_USER_GROUP_MEMBERSHIP_CHECK
+ * ```
+ */
+export class AwsConfigRuleSet implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRuleSet> {
+  /**
+   * Config ruleset deployment target.
+   *
+   * To configure AWS Config rules into Root and Infrastructure organizational units, you need to provide below value for this parameter.
+   *
+   * @example
+   * ```
+   * - deploymentTargets:
+   *         organizationalUnits:
+   *           - Root
+   *           - Infrastructure
+   * ```
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+  /**
+   * AWS Config rule set
+   *
+   * Following example will create a custom rule named accelerator-attach-ec2-instance-profile with remediation
+   * and a managed rule named accelerator-iam-user-group-membership-check without remediation
+   *
+   * @example
+   * ```
+   * rules:
+   *         - name: accelerator-attach-ec2-instance-profile
+   *           type: Custom
+   *           description: Custom role to remediate ec2 instance profile to EC2 instances
+   *           inputParameters:
+   *           customRule:
+   *             lambda:
+   *               sourceFilePath: custom-config-rules/attach-ec2-instance-profile.zip
+   *               handler: index.handler
+   *               runtime: nodejsXX.x
+   *               timeout: 3
+   *             periodic: true
+   *             maximumExecutionFrequency: Six_Hours
+   *             configurationChanges: true
+   *             triggeringResources:
+   *               lookupType: ResourceTypes
+   *               lookupKey: ResourceTypes
+   *               lookupValue:
+   *                 - AWS::EC2::Instance
+   *          - name: accelerator-iam-user-group-membership-check
+   *           complianceResourceTypes:
+   *             - AWS::IAM::User
+   *           identifier: IAM_USER_GROUP_MEMBERSHIP_CHECK
+   * ```
+   */
+  readonly rules: ConfigRule[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link ConformancePackConfig} / {@link ConformancePackOrganizationConfig}*
+ *
+ * Organization-wide deployment settings for an AWS Config conformance pack.
+ * Organization conformance packs are deployed from the AWS Config delegated administrator account
+ * (or the management account when no delegated administrator is configured) to every account in the organization.
+ *
+ * @example
+ * ```
+ * organization:
+ *   excludedAccounts:
+ *     - Management
+ *   excludeRegions:
+ *     - us-west-1
+ * ```
+ */
+export class ConformancePackOrganizationConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.conformancePackOrganizationConfig>
+{
+  /**
+   * (OPTIONAL) List of account names, from accounts-config.yaml, that the organization conformance pack is not deployed to
+   */
+  readonly excludedAccounts: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from the organization conformance pack deployment
+   */
+  readonly excludeRegions: t.Region[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link ConformancePackConfig}*
+ *
+ * AWS Config conformance pack configuration.
+ * A conformance pack is deployed either to the accounts and regions selected by `deploymentTargets`,
+ * or organization-wide when `organization` is defined.
+ *
+ * @example
+ * Conformance pack deployed to the selected accounts:
+ * ```
+ * - name: accelerator-operational-best-practices-for-cis
+ *   templateBody: conformance-packs/operational-best-practices-for-cis.yaml
+ *   inputParameters:
+ *     AccessKeysRotatedParamMaxAccessKeyAge: '90'
+ *     S3BucketKmsKeyArn: ${ACCEL_LOOKUP::KMS}
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Root
+ * ```
+ * Organization conformance pack:
+ * ```
+ * - name: accelerator-operational-best-practices-for-nist
+ *   templateS3Uri: s3://example-bucket/conformance-packs/nist.yaml
+ *   organization:
+ *     excludedAccounts:
+ *       - Management
+ * ```
+ */
+export class ConformancePackConfig implements t.TypeOf<typeof SecurityConfigTypes.conformancePackConfig> {
+  /**
+   * A name for the conformance pack.
+   *
+   * @remarks
+   * Note: Changing this value of a conformance pack will trigger a new resource creation.
+   */
+  readonly name = '';
+  /**
+   * (OPTIONAL) The conformance pack template file path. This file must be available in the config repository.
+   *
+   * @remarks
+   * Either `templateBody` or `templateS3Uri` must be provided. The template can be up to 51,200 bytes.
+   */
+  readonly templateBody: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The S3 URI of the conformance pack template, for example `s3://bucket/key`.
+   * The bucket must be accessible to AWS Config in the deploying account.
+   *
+   * @remarks
+   * Either `templateBody` or `templateS3Uri` must be provided.
+   */
+  readonly templateS3Uri: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Input parameter values that are passed to the conformance pack template.
+   * Parameter values support the same `${ACCEL_LOOKUP::...}` replacements as config rule input parameters.
+   */
+  readonly inputParameters: { [key: string]: string } | undefined = undefined;
+  /**
+   * (OPTIONAL) Conformance pack deployment targets.
+   *
+   * @remarks
+   * Either `deploymentTargets` or `organization` must be provided.
+   */
+  readonly deploymentTargets: t.DeploymentTargets | undefined = undefined;
+  /**
+   * (OPTIONAL) Deploy the conformance pack as an organization conformance pack.
+   *
+   * @see {@link ConformancePackOrganizationConfig}
+   */
+  readonly organization: ConformancePackOrganizationConfig | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRecorderSettingsConfig} / {@link AwsConfigRecordingGroupConfig}*
+ *
+ * AWS Config recorder recording group configuration.
+ *
+ * @example
+ * ```
+ * recordingStrategy: EXCLUSION_BY_RESOURCE_TYPES
+ * resourceTypes:
+ *   - AWS::EC2::NetworkInterface
+ *   - AWS::EC2::Volume
+ * globalResourceTypes: HOME_REGION
+ * ```
+ */
+export class AwsConfigRecordingGroupConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingGroupConfig>
+{
+  /**
+   * The resource types recorded by the config recorder
+   *
+   * @remarks
+   * ALL_SUPPORTED_RESOURCE_TYPES records every supported resource type, INCLUSION_BY_RESOURCE_TYPES records only the listed resourceTypes
+   * and EXCLUSION_BY_RESOURCE_TYPES records every supported resource type except the listed resourceTypes.
    */
-  readonly remediation: ConfigRuleRemediation = new ConfigRuleRemediation();
+  readonly recordingStrategy: t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingStrategyEnum> =
+    'ALL_SUPPORTED_RESOURCE_TYPES';
+  /**
+   * (OPTIONAL) The resource types to include or exclude, for example AWS::EC2::Instance
+   *
+   * @remarks
+   * Required for the INCLUSION_BY_RESOURCE_TYPES and EXCLUSION_BY_RESOURCE_TYPES recording strategies.
+   */
+  readonly resourceTypes: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Regions where the global IAM resource types (AWS::IAM::User, AWS::IAM::Group, AWS::IAM::Role and AWS::IAM::Policy) are recorded
+   *
+   * @remarks
+   * Recording global resource types only in the home region avoids duplicate configuration items across regions. Defaults to ALL_REGIONS.
+   * With the INCLUSION_BY_RESOURCE_TYPES strategy only the global resource types listed in resourceTypes are recorded.
+   */
+  readonly globalResourceTypes: t.TypeOf<typeof SecurityConfigTypes.awsConfigGlobalResourceTypesEnum> | undefined =
+    undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRuleSet}*
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRecorderSettingsConfig} / {@link AwsConfigRecordingModeConfig} / {@link AwsConfigRecordingModeOverrideConfig}*
  *
- * List of AWS Config rules
+ * AWS Config recorder recording mode override configuration.
  *
  * @example
  * ```
- * - deploymentTargets:
- *     organizationalUnits:
- *       - Root
- *   rules:
- *     - name: accelerator-iam-user-group-membership-check
- *       complianceResourceTypes:
- *         - AWS::IAM::User
- *       identifier: IAM_USER_GROUP_MEMBERSHIP_CHECK
+ * - description: Record security groups continuously
+ *   resourceTypes:
+ *     - AWS::EC2::SecurityGroup
+ *   recordingFrequency: CONTINUOUS
  * ```
  */
-export class AwsConfigRuleSet implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRuleSet> {
+export class AwsConfigRecordingModeOverrideConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingModeOverrideConfig>
+{
   /**
-   * Config ruleset deployment target.
+   * (OPTIONAL) The description of the override
+   */
+  readonly description: string | undefined = undefined;
+  /**
+   * The resource types the override applies to
+   */
+  readonly resourceTypes: string[] = [];
+  /**
+   * The recording frequency of the resource types
+   */
+  readonly recordingFrequency: t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingFrequencyEnum> = 'CONTINUOUS';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRecorderSettingsConfig} / {@link AwsConfigRecordingModeConfig}*
+ *
+ * AWS Config recorder recording mode configuration.
+ *
+ * @example
+ * ```
+ * recordingFrequency: DAILY
+ * recordingModeOverrides:
+ *   - description: Record security groups continuously
+ *     resourceTypes:
+ *       - AWS::EC2::SecurityGroup
+ *     recordingFrequency: CONTINUOUS
+ * ```
+ */
+export class AwsConfigRecordingModeConfig implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingModeConfig> {
+  /**
+   * The default recording frequency of the config recorder
    *
-   * To configure AWS Config rules into Root and Infrastructure organizational units, you need to provide below value for this parameter.
+   * @remarks
+   * DAILY recording creates at most one configuration item per resource per day, which reduces cost for resources that change frequently.
+   */
+  readonly recordingFrequency: t.TypeOf<typeof SecurityConfigTypes.awsConfigRecordingFrequencyEnum> = 'CONTINUOUS';
+  /**
+   * (OPTIONAL) Recording frequency overrides for specific resource types
    *
-   * @example
-   * ```
-   * - deploymentTargets:
-   *         organizationalUnits:
-   *           - Root
-   *           - Infrastructure
-   * ```
+   * @see {@link AwsConfigRecordingModeOverrideConfig}
+   */
+  readonly recordingModeOverrides: AwsConfigRecordingModeOverrideConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link AwsConfigRecorderSettingsConfig}*
+ *
+ * AWS Config recorder settings configuration.
+ * The settings are applied to the existing config recorder of the targeted accounts, the recorder is not recreated.
+ *
+ * @example
+ * ```
+ * - deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ *   recordingGroup:
+ *     recordingStrategy: EXCLUSION_BY_RESOURCE_TYPES
+ *     resourceTypes:
+ *       - AWS::EC2::NetworkInterface
+ *     globalResourceTypes: HOME_REGION
+ *   recordingMode:
+ *     recordingFrequency: DAILY
+ * ```
+ */
+export class AwsConfigRecorderSettingsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.awsConfigRecorderSettingsConfig>
+{
+  /**
+   * The accounts and regions the settings are applied to
    */
   readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
   /**
-   * AWS Config rule set
+   * (OPTIONAL) The recording group of the config recorder, defaults to all supported resource types
    *
-   * Following example will create a custom rule named accelerator-attach-ec2-instance-profile with remediation
-   * and a managed rule named accelerator-iam-user-group-membership-check without remediation
+   * @see {@link AwsConfigRecordingGroupConfig}
+   */
+  readonly recordingGroup: AwsConfigRecordingGroupConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) The recording mode of the config recorder, defaults to continuous recording
    *
-   * @example
-   * ```
-   * rules:
-   *         - name: accelerator-attach-ec2-instance-profile
-   *           type: Custom
-   *           description: Custom role to remediate ec2 instance profile to EC2 instances
-   *           inputParameters:
-   *           customRule:
-   *             lambda:
-   *               sourceFilePath: custom-config-rules/attach-ec2-instance-profile.zip
-   *               handler: index.handler
-   *               runtime: nodejsXX.x
-   *               timeout: 3
-   *             periodic: true
-   *             maximumExecutionFrequency: Six_Hours
-   *             configurationChanges: true
-   *             triggeringResources:
-   *               lookupType: ResourceTypes
-   *               lookupKey: ResourceTypes
-   *               lookupValue:
-   *                 - AWS::EC2::Instance
-   *          - name: accelerator-iam-user-group-membership-check
-   *           complianceResourceTypes:
-   *             - AWS::IAM::User
-   *           identifier: IAM_USER_GROUP_MEMBERSHIP_CHECK
-   * ```
+   * @see {@link AwsConfigRecordingModeConfig}
    */
-  readonly rules: ConfigRule[] = [];
+  readonly recordingMode: AwsConfigRecordingModeConfig | undefined = undefined;
 }
 
 /**
@@ -2199,6 +3731,15 @@ export class AwsConfigRuleSet implements t.TypeOf<typeof SecurityConfigTypes.aws
  *   ** enableDeliveryChannel DEPRECATED
  *   enableDeliveryChannel: true
  *   overrideExisting: false
+ *   recorderSettings:
+ *     - deploymentTargets:
+ *         organizationalUnits:
+ *           - Infrastructure
+ *       recordingGroup:
+ *         recordingStrategy: ALL_SUPPORTED_RESOURCE_TYPES
+ *         globalResourceTypes: HOME_REGION
+ *       recordingMode:
+ *         recordingFrequency: DAILY
  *   aggregation:
  *     enable: true
  *     delegatedAdminAccount: LogArchive
@@ -2211,6 +3752,12 @@ export class AwsConfigRuleSet implements t.TypeOf<typeof SecurityConfigTypes.aws
  *           complianceResourceTypes:
  *             - AWS::IAM::User
  *           identifier: IAM_USER_GROUP_MEMBERSHIP_CHECK
+ *   conformancePacks:
+ *     - name: accelerator-operational-best-practices-for-cis
+ *       templateBody: conformance-packs/operational-best-practices-for-cis.yaml
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
  * ```
  */
 export class AwsConfig implements t.TypeOf<typeof SecurityConfigTypes.awsConfig> {
@@ -2244,6 +3791,16 @@ export class AwsConfig implements t.TypeOf<typeof SecurityConfigTypes.awsConfig>
    * iam permission for the iam role name {acceleratorPrefix}Config
    */
   readonly overrideExisting: boolean | undefined;
+  /**
+   * (OPTIONAL) Config recorder recording group and recording mode settings
+   *
+   * @remarks
+   * When more than one entry targets an account, the last matching entry is applied.
+   * Accounts and regions that are not targeted record all supported resource types continuously, including global resource types.
+   *
+   * @see {@link AwsConfigRecorderSettingsConfig}
+   */
+  readonly recorderSettings: AwsConfigRecorderSettingsConfig[] | undefined = undefined;
   /**
    * Config Recorder Aggregation configuration
    */
@@ -2252,6 +3809,12 @@ export class AwsConfig implements t.TypeOf<typeof SecurityConfigTypes.awsConfig>
    * AWS Config rule sets
    */
   readonly ruleSets: AwsConfigRuleSet[] = [];
+  /**
+   * (OPTIONAL) AWS Config conformance packs
+   *
+   * @see {@link ConformancePackConfig}
+   */
+  readonly conformancePacks: ConformancePackConfig[] | undefined = undefined;
 }
 
 /**
@@ -2358,6 +3921,115 @@ export class MetricSetConfig implements t.TypeOf<typeof SecurityConfigTypes.metr
   readonly metrics: MetricConfig[] = [];
 }
 
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AlarmConfig} / {@link AlarmDimensionConfig}*
+ *
+ * AWS CloudWatch Alarm metric dimension
+ *
+ * @example
+ * ```
+ * - name: FunctionName
+ *   value: MyFunction
+ * ```
+ */
+export class AlarmDimensionConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmDimensionConfig> {
+  /**
+   * Name of the dimension
+   */
+  readonly name: string = '';
+  /**
+   * Value of the dimension
+   */
+  readonly value: string = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AlarmConfig} / {@link AlarmMetricConfig}*
+ *
+ * AWS CloudWatch Alarm metric or metric math expression.
+ * Each entry defines exactly one of metricName or expression.
+ *
+ * @example
+ * ```
+ * - id: errors
+ *   metricName: Errors
+ *   namespace: AWS/Lambda
+ *   statistic: Sum
+ *   returnData: false
+ * - id: invocations
+ *   metricName: Invocations
+ *   namespace: AWS/Lambda
+ *   statistic: Sum
+ *   returnData: false
+ * - id: errorRate
+ *   expression: 100 * errors / invocations
+ *   label: Error rate
+ * ```
+ */
+export class AlarmMetricConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmMetricConfig> {
+  /**
+   * Identifier of the metric, referenced by expressions. Must start with a lowercase letter.
+   */
+  readonly id: string = '';
+  /**
+   * (OPTIONAL) Metric math expression
+   *
+   * @see {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/using-metric-math.html}
+   */
+  readonly expression: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Name of the metric
+   */
+  readonly metricName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Namespace of the metric, required with metricName
+   */
+  readonly namespace: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Statistic of the metric, required with metricName
+   */
+  readonly statistic: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Period of the metric in seconds, defaults to the alarm period
+   */
+  readonly period: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Dimensions of the metric
+   *
+   * @see {@link AlarmDimensionConfig}
+   */
+  readonly dimensions: AlarmDimensionConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Label of the metric or expression
+   */
+  readonly label: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether the metric or expression is the alarm metric. Defaults to true for the last entry and false for the others.
+   */
+  readonly returnData: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AlarmConfig} / {@link AlarmAnomalyDetectionConfig}*
+ *
+ * AWS CloudWatch Alarm anomaly detection band
+ *
+ * @example
+ * ```
+ * bandWidth: 2
+ * ```
+ */
+export class AlarmAnomalyDetectionConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmAnomalyDetectionConfig> {
+  /**
+   * Width of the anomaly detection band in standard deviations
+   */
+  readonly bandWidth: number = 2;
+  /**
+   * (OPTIONAL) Id of the metric the band is computed for, when the alarm defines metrics. Defaults to the metric that returns data.
+   */
+  readonly metricId: string | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AlarmConfig}*
  *
@@ -2377,6 +4049,25 @@ export class MetricSetConfig implements t.TypeOf<typeof SecurityConfigTypes.metr
  *   threshold: 1
  *   treatMissingData: notBreaching
  * ```
+ * Anomaly detection alarm for a single resource:
+ * ```
+ * - alarmName: NatGatewayTrafficAnomaly
+ *   alarmDescription: Unexpected NAT gateway traffic
+ *   snsTopicName: Alarms
+ *   metricName: BytesOutToDestination
+ *   namespace: AWS/NATGateway
+ *   dimensions:
+ *     - name: NatGatewayId
+ *       value: nat-0123456789abcdef0
+ *   anomalyDetection:
+ *     bandWidth: 2
+ *   comparisonOperator: GreaterThanUpperThreshold
+ *   evaluationPeriods: 3
+ *   period: 300
+ *   statistic: Sum
+ *   treatMissingData: notBreaching
+ *   okActions: true
+ * ```
  */
 export class AlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmConfig> {
   /**
@@ -2398,13 +4089,43 @@ export class AlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmCon
    */
   readonly snsTopicName: string = '';
   /**
-   * Name of the metric.
+   * (OPTIONAL) Name of the metric.
+   *
+   * @remarks
+   * Required unless metrics is defined.
    */
-  readonly metricName: string = '';
+  readonly metricName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Namespace of the metric.
+   *
+   * @remarks
+   * Required with metricName.
+   */
+  readonly namespace: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Dimensions of the metric, used to alarm on a single resource
+   *
+   * @see {@link AlarmDimensionConfig}
+   */
+  readonly dimensions: AlarmDimensionConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Metrics and metric math expressions of the alarm, used instead of metricName.
+   *
+   * @remarks
+   * Exactly one metric or expression must return data and is compared with the threshold, or with the anomaly detection band.
+   *
+   * @see {@link AlarmMetricConfig}
+   */
+  readonly metrics: AlarmMetricConfig[] | undefined = undefined;
   /**
-   * Namespace of the metric.
+   * (OPTIONAL) Anomaly detection band configuration, used instead of threshold.
+   *
+   * @remarks
+   * The comparisonOperator must be LessThanLowerOrGreaterThanUpperThreshold, GreaterThanUpperThreshold or LessThanLowerThreshold.
+   *
+   * @see {@link AlarmAnomalyDetectionConfig}
    */
-  readonly namespace: string = '';
+  readonly anomalyDetection: AlarmAnomalyDetectionConfig | undefined = undefined;
   /**
    * Comparison to use to check if metric is breaching
    */
@@ -2415,10 +4136,13 @@ export class AlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmCon
   readonly evaluationPeriods: number = 1;
   /**
    * The period over which the specified statistic is applied.
+   *
+   * @remarks
+   * Also used as the period of metrics that do not define one.
    */
   readonly period: number = 300;
   /**
-   * What functions to use for aggregating.
+   * (OPTIONAL) What functions to use for aggregating.
    *
    * Can be one of the following:
    * -  “Minimum” | “min”
@@ -2427,16 +4151,105 @@ export class AlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmCon
    * -  “Sum” | “sum”
    * -  “SampleCount | “n”
    * -  “pNN.NN”
+   *
+   * @remarks
+   * Required with metricName.
    */
-  readonly statistic: string = '';
+  readonly statistic: string | undefined = undefined;
   /**
-   * The value against which the specified statistic is compared.
+   * (OPTIONAL) The value against which the specified statistic is compared.
+   *
+   * @remarks
+   * Required unless anomalyDetection is defined.
    */
-  readonly threshold: number = 1;
+  readonly threshold: number | undefined = undefined;
   /**
    * Sets how this alarm is to handle missing data points.
    */
   readonly treatMissingData: string = '';
+  /**
+   * (OPTIONAL) Indicates whether a notification is also sent when the alarm returns to the OK state
+   */
+  readonly okActions: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether a notification is also sent when the alarm enters the INSUFFICIENT_DATA state
+   */
+  readonly insufficientDataActions: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link CompositeAlarmConfig} / {@link CompositeAlarmRuleConfig}*
+ *
+ * AWS CloudWatch composite alarm rule
+ *
+ * @example
+ * ```
+ * - alarmName: CIS-1.1-RootAccountUsage
+ *   state: ALARM
+ * ```
+ */
+export class CompositeAlarmRuleConfig implements t.TypeOf<typeof SecurityConfigTypes.compositeAlarmRuleConfig> {
+  /**
+   * Name of the child alarm, defined in an alarm set with the same regions and deployment targets
+   */
+  readonly alarmName: string = '';
+  /**
+   * The state of the child alarm that satisfies the rule
+   */
+  readonly state: t.TypeOf<typeof SecurityConfigTypes.compositeAlarmStateEnum> = 'ALARM';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link CompositeAlarmConfig}*
+ *
+ * AWS CloudWatch composite alarm, combining the states of other alarms
+ *
+ * @example
+ * ```
+ * - alarmName: RootOrConsoleSignIn
+ *   alarmDescription: Root account usage or console sign-in without MFA
+ *   snsTopicName: Security
+ *   operator: OR
+ *   alarmRules:
+ *     - alarmName: CIS-1.1-RootAccountUsage
+ *       state: ALARM
+ *     - alarmName: CIS-3.2-ConsoleSigninWithoutMFA
+ *       state: ALARM
+ *   okActions: true
+ * ```
+ */
+export class CompositeAlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.compositeAlarmConfig> {
+  /**
+   * Name of the composite alarm
+   */
+  readonly alarmName: string = '';
+  /**
+   * Description for the composite alarm
+   */
+  readonly alarmDescription: string = '';
+  /**
+   * (OPTIONAL) SNS Topic Name
+   * SNS Topic Name from global config
+   */
+  readonly snsTopicName: string | undefined = undefined;
+  /**
+   * The operator combining the alarm rules
+   */
+  readonly operator: 'AND' | 'OR' = 'OR';
+  /**
+   * The child alarm rules
+   *
+   * @see {@link CompositeAlarmRuleConfig}
+   */
+  readonly alarmRules: CompositeAlarmRuleConfig[] = [];
+  /**
+   * (OPTIONAL) Indicates whether a notification is also sent when the composite alarm returns to the OK state
+   */
+  readonly okActions: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether a notification is also sent when the composite alarm enters the INSUFFICIENT_DATA state
+   */
+  readonly insufficientDataActions: boolean | undefined = undefined;
 }
 
 /**
@@ -2498,6 +4311,12 @@ export class AlarmSetConfig implements t.TypeOf<typeof SecurityConfigTypes.alarm
    * ```
    */
   readonly alarms: AlarmConfig[] = [];
+  /**
+   * (OPTIONAL) List of AWS CloudWatch composite alarms
+   *
+   * @see {@link CompositeAlarmConfig}
+   */
+  readonly compositeAlarms: CompositeAlarmConfig[] | undefined = undefined;
 }
 
 /**
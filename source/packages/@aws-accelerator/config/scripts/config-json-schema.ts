@@ -0,0 +1,224 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as ioTs from 'io-ts';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { AccountsConfig, AccountsConfigTypes } from '../lib/accounts-config';
+import * as t from '../lib/common-types';
+import * as CommonTypes from '../lib/common-types/types';
+import { CustomizationsConfig, CustomizationsConfigTypes } from '../lib/customizations-config';
+import { GlobalConfig, GlobalConfigTypes } from '../lib/global-config';
+import { IamConfig, IamConfigTypes } from '../lib/iam-config';
+import { NetworkConfig, NetworkConfigTypes } from '../lib/network-config';
+import { OrganizationConfig, OrganizationConfigTypes } from '../lib/organization-config';
+import { ReplacementsConfig, ReplacementsConfigTypes } from '../lib/replacements-config';
+import { SecurityConfig, SecurityConfigTypes } from '../lib/security-config';
+
+/**
+ * Generates JSON Schema documents for the accelerator configuration files. The schema
+ * documents can be used by editors, such as the VS Code YAML language server, to validate
+ * configuration files before they are committed.
+ *
+ * Descriptions are read from the TSDoc of the classes implementing each io-ts type,
+ * so the generator must run against the TypeScript sources of this package.
+ */
+export class ConfigJsonSchema {
+  /**
+   * Directory containing the generated schema documents
+   */
+  static readonly SCHEMA_DIR = path.join(__dirname, '..', 'schema');
+
+  /**
+   * Directory containing the TypeScript sources of the configuration files
+   */
+  static readonly SOURCE_DIR = path.join(__dirname, '..', 'lib');
+
+  /**
+   * The root io-ts type of each configuration file
+   */
+  static readonly CONFIG_FILES: { fileName: string; type: t.Any }[] = [
+    { fileName: AccountsConfig.FILENAME, type: AccountsConfigTypes.accountsConfig },
+    { fileName: CustomizationsConfig.FILENAME, type: CustomizationsConfigTypes.customizationsConfig },
+    { fileName: GlobalConfig.FILENAME, type: GlobalConfigTypes.globalConfig },
+    { fileName: IamConfig.FILENAME, type: IamConfigTypes.iamConfig },
+    { fileName: NetworkConfig.FILENAME, type: NetworkConfigTypes.networkConfig },
+    { fileName: OrganizationConfig.FILENAME, type: OrganizationConfigTypes.organizationConfig },
+    { fileName: ReplacementsConfig.FILENAME, type: ReplacementsConfigTypes.replacementsConfig },
+    { fileName: SecurityConfig.FILENAME, type: SecurityConfigTypes.securityConfig },
+  ];
+
+  /**
+   * Classes holding the named io-ts types of each configuration file
+   */
+  private static readonly CONFIG_TYPES: { name: string }[] = [
+    AccountsConfigTypes,
+    CustomizationsConfigTypes,
+    GlobalConfigTypes,
+    IamConfigTypes,
+    NetworkConfigTypes,
+    OrganizationConfigTypes,
+    ReplacementsConfigTypes,
+    SecurityConfigTypes,
+  ];
+
+  /**
+   * Returns the schema document file name of a configuration file
+   * @param fileName
+   * @returns
+   */
+  static getSchemaFileName(fileName: string): string {
+    return fileName.replace(/\.yaml$/, '.schema.json');
+  }
+
+  /**
+   * Generate the schema documents of all configuration files
+   * @returns Schema documents keyed by schema file name
+   */
+  static generate(): { [key: string]: t.JsonSchema } {
+    const options: t.JsonSchemaOptions = {
+      definitions: ConfigJsonSchema.getDefinitions(),
+      descriptions: ConfigJsonSchema.getDescriptions(),
+    };
+
+    return Object.fromEntries(
+      ConfigJsonSchema.CONFIG_FILES.map(configFile => [
+        ConfigJsonSchema.getSchemaFileName(configFile.fileName),
+        t.toJsonSchema(configFile.type, configFile.fileName, options),
+      ]),
+    );
+  }
+
+  /**
+   * Write the schema documents of all configuration files
+   * @param schemaDir
+   */
+  static write(schemaDir = ConfigJsonSchema.SCHEMA_DIR) {
+    fs.mkdirSync(schemaDir, { recursive: true });
+    for (const [fileName, schema] of Object.entries(ConfigJsonSchema.generate())) {
+      fs.writeFileSync(path.join(schemaDir, fileName), `${JSON.stringify(schema, null, 2)}\n`);
+    }
+  }
+
+  /**
+   * Name the io-ts types exported by the common types module and the configuration type classes
+   * @returns
+   */
+  private static getDefinitions(): Map<t.Any, string> {
+    const definitions = new Map<t.Any, string>();
+    const ioTsTypes: unknown[] = Object.values(ioTs);
+
+    for (const [key, value] of Object.entries(CommonTypes)) {
+      if (value instanceof ioTs.Type && !ioTsTypes.includes(value) && !definitions.has(value)) {
+        definitions.set(value, key);
+      }
+    }
+    for (const configTypes of ConfigJsonSchema.CONFIG_TYPES) {
+      for (const [key, value] of Object.entries<unknown>(configTypes)) {
+        if (value instanceof ioTs.Type && !definitions.has(value)) {
+          definitions.set(value, `${configTypes.name}.${key}`);
+        }
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Read the TSDoc of every class that implements a named io-ts type
+   * @returns
+   */
+  private static getDescriptions(): { [key: string]: t.JsonSchemaDescription } {
+    const descriptions: { [key: string]: t.JsonSchemaDescription } = {};
+    const sourceFiles = [
+      path.join(ConfigJsonSchema.SOURCE_DIR, 'common-types', 'types.ts'),
+      ...fs
+        .readdirSync(ConfigJsonSchema.SOURCE_DIR)
+        .filter(fileName => fileName.endsWith('-config.ts'))
+        .map(fileName => path.join(ConfigJsonSchema.SOURCE_DIR, fileName)),
+    ];
+
+    for (const sourceFile of sourceFiles) {
+      const source = ts.createSourceFile(sourceFile, fs.readFileSync(sourceFile, 'utf8'), ts.ScriptTarget.Latest, true);
+      for (const statement of source.statements.filter(ts.isClassDeclaration)) {
+        const name = getImplementedTypeName(statement);
+        if (!name) {
+          continue;
+        }
+
+        const properties: { [key: string]: string } = {};
+        for (const member of statement.members.filter(ts.isPropertyDeclaration)) {
+          const description = getDescription(source, member);
+          if (description) {
+            properties[member.name.getText(source)] = description;
+          }
+        }
+        descriptions[name] = { description: getDescription(source, statement), properties };
+      }
+    }
+
+    return descriptions;
+  }
+}
+
+/**
+ * Returns the name of the io-ts type a class implements, for example
+ * `NetworkConfigTypes.vpcConfig` for `implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>`
+ * @param node
+ * @returns
+ */
+function getImplementedTypeName(node: ts.ClassDeclaration): string | undefined {
+  for (const heritageClause of node.heritageClauses ?? []) {
+    for (const heritageType of heritageClause.types) {
+      const typeArgument = heritageType.typeArguments?.[0];
+      if (heritageType.expression.getText().endsWith('TypeOf') && typeArgument && ts.isTypeQueryNode(typeArgument)) {
+        // Drop the common types module namespace, for example t.deploymentTargets
+        return typeArgument.exprName.getText().replace(/^t\./, '');
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the TSDoc summary of a node, without block tags and with inline links replaced by their text
+ * @param source
+ * @param node
+ * @returns
+ */
+function getDescription(source: ts.SourceFile, node: ts.Node): string | undefined {
+  const comment = (ts.getLeadingCommentRanges(source.text, node.getFullStart()) ?? [])
+    .map(range => source.text.slice(range.pos, range.end))
+    .filter(text => text.startsWith('/**'))
+    .pop();
+  if (!comment) {
+    return undefined;
+  }
+
+  const lines = comment
+    .replace(/^\/\*\*|\*\/$/g, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*\* ?/, '').trimEnd());
+  const blockTagIndex = lines.findIndex(line => line.trimStart().startsWith('@'));
+
+  return (blockTagIndex === -1 ? lines : lines.slice(0, blockTagIndex))
+    .join('\n')
+    .replace(/\{@link\s+(?:[^}|]+\|\s*)?([^}]+?)\s*\}/g, '$1')
+    .trim();
+}
+
+if (require.main === module) {
+  ConfigJsonSchema.write();
+}
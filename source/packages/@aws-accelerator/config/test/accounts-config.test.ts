@@ -12,7 +12,14 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { AccountIdConfig, AccountConfig, GovCloudAccountConfig, AccountsConfig } from '../lib/accounts-config';
+import {
+  AccountIdConfig,
+  AccountConfig,
+  GovCloudAccountConfig,
+  AccountsConfig,
+  AccountsConfigTypes,
+} from '../lib/accounts-config';
+import { parse } from '../lib/common-types';
 import * as path from 'path';
 
 const accountsConfigObject = {
@@ -24,6 +31,9 @@ const accountsConfigObject = {
       email: 'some-management-account@example.com',
       organizationalUnit: 'Root',
       warm: false,
+      tags: undefined,
+      metadata: undefined,
+      decommission: undefined,
     },
     {
       name: 'LogArchive',
@@ -32,6 +42,9 @@ const accountsConfigObject = {
       email: 'some-logarchive-account@example.com',
       organizationalUnit: 'Security',
       warm: false,
+      tags: undefined,
+      metadata: undefined,
+      decommission: undefined,
     },
     {
       name: 'Audit',
@@ -40,6 +53,9 @@ const accountsConfigObject = {
       email: 'some-audit-account@example.com',
       organizationalUnit: 'Security',
       warm: false,
+      tags: undefined,
+      metadata: undefined,
+      decommission: undefined,
     },
   ],
   workloadAccounts: [
@@ -49,6 +65,9 @@ const accountsConfigObject = {
       email: 'shared-services@example.com',
       organizationalUnit: 'Infrastructure',
       warm: false,
+      tags: undefined,
+      metadata: undefined,
+      decommission: undefined,
     },
     {
       name: 'Network',
@@ -56,6 +75,9 @@ const accountsConfigObject = {
       email: 'network@example.com',
       organizationalUnit: 'Infrastructure',
       warm: false,
+      tags: undefined,
+      metadata: undefined,
+      decommission: undefined,
     },
   ],
   accountIds: [
@@ -74,6 +96,7 @@ const accountsConfigObject = {
     },
     { email: 'network@example.com', accountId: '555555555555' },
   ],
+  accountDecommissioning: undefined,
 };
 
 describe('accounts-config', () => {
@@ -93,6 +116,8 @@ describe('accounts-config', () => {
       expect(accountConfig.description).toEqual('');
       expect(accountConfig.email).toEqual('');
       expect(accountConfig.organizationalUnit).toEqual('');
+      expect(accountConfig.tags).toBe(undefined);
+      expect(accountConfig.metadata).toBe(undefined);
     });
   });
   describe('GovCloudAccountConfig', () => {
@@ -102,6 +127,7 @@ describe('accounts-config', () => {
       expect(govCloudAccountConfig.email).toEqual('');
       expect(govCloudAccountConfig.organizationalUnit).toEqual('');
       expect(govCloudAccountConfig.enableGovCloud).toBe(undefined);
+      expect(govCloudAccountConfig.tags).toBe(undefined);
     });
   });
   describe('AccountsConfig', () => {
@@ -124,10 +150,14 @@ describe('accounts-config', () => {
             description: undefined,
             organizationalUnit: undefined,
             warm: undefined,
+            tags: undefined,
+            metadata: undefined,
+            decommission: undefined,
           },
         ],
         workloadAccounts: [govCloudAccountConfig],
         accountIds: [],
+        accountDecommissioning: undefined,
       },
     );
     const configC = new AccountsConfig(
@@ -147,6 +177,147 @@ describe('accounts-config', () => {
       expect(configA.anyGovCloudAccounts()).toBe(false);
       expect(configB.anyGovCloudAccounts()).toBe(true);
     });
+    it('accepts account tags and metadata', () => {
+      expect(() =>
+        parse(AccountsConfigTypes.accountConfig, {
+          name: 'Workload01',
+          email: 'workload01@example.com',
+          organizationalUnit: 'Workloads',
+          tags: [{ key: 'CostCenter', value: '100' }],
+          metadata: { owner: 'workload-team@example.com' },
+        }),
+      ).not.toThrow();
+      expect(() =>
+        parse(AccountsConfigTypes.accountConfig, {
+          name: 'Workload01',
+          email: 'workload01@example.com',
+          tags: [{ key: 'CostCenter' }],
+        }),
+      ).toThrow();
+    });
+    it('resolves deployment target selectors', () => {
+      const configD = new AccountsConfig(
+        {
+          managementAccountEmail: 'some-management-account@example.com',
+          logArchiveAccountEmail: 'some-logarchive-account@example.com',
+          auditAccountEmail: 'some-audit-account@example.com',
+        },
+        {
+          ...accountsConfigObject,
+          workloadAccounts: [
+            {
+              ...accountsConfigObject.workloadAccounts[0],
+              organizationalUnit: 'Infrastructure/Shared',
+              tags: [{ key: 'Environment', value: 'Prod' }],
+            },
+            accountsConfigObject.workloadAccounts[1],
+          ],
+        },
+      );
+      const deploymentTargets = {
+        organizationalUnits: [],
+        accounts: [],
+        excludedRegions: [],
+        excludedAccounts: [],
+        accountTags: undefined,
+        accountNamePattern: undefined,
+        nestedOrganizationalUnits: undefined,
+      };
+
+      expect(
+        configD.getAccountsFromSelectors({ ...deploymentTargets, accountTags: { Environment: 'Prod' } }),
+      ).toHaveLength(1);
+      expect(
+        configD.getAccountsFromSelectors({ ...deploymentTargets, accountTags: { Environment: '*' } }),
+      ).toHaveLength(1);
+      expect(configD.getAccountsFromSelectors({ ...deploymentTargets, accountTags: { Environment: 'Dev' } })).toEqual(
+        [],
+      );
+      expect(
+        configD.getAccountIdsFromDeploymentTarget({ ...deploymentTargets, accountNamePattern: 'Shared*' }),
+      ).toEqual(['444444444444']);
+      expect(
+        configD.getAccountIdsFromDeploymentTarget({
+          ...deploymentTargets,
+          organizationalUnits: ['Infrastructure'],
+          nestedOrganizationalUnits: true,
+          excludedAccounts: ['Network'],
+        }),
+      ).toEqual(['444444444444']);
+      expect(
+        configD
+          .getDeploymentTargetReport({
+            ...deploymentTargets,
+            accountNamePattern: 'Net*',
+            excludedAccounts: ['Network'],
+          })
+          .find(item => item.account === 'Network'),
+      ).toEqual({ account: 'Network', included: false, reasons: ['excludedAccounts includes the account'] });
+      expect(
+        configD.getDeploymentTargetAccountNames({
+          ...deploymentTargets,
+          accounts: ['Network'],
+          accountTags: { Environment: 'Prod' },
+        }),
+      ).toEqual(['Network', 'SharedServices']);
+      expect(
+        configD.getDeploymentTargetAccountNames({
+          ...deploymentTargets,
+          organizationalUnits: ['Infrastructure'],
+          accountTags: { Environment: 'Prod' },
+        }),
+      ).toEqual([]);
+      expect(AccountsConfig.getAccountNamePatternRegex('Workload-?.prod').test('Workload-1.prod')).toBe(true);
+      expect(AccountsConfig.getAccountNamePatternRegex('Workload-?.prod').test('Workload-1xprod')).toBe(false);
+    });
+    it('excludes decommissioned and closed accounts', () => {
+      const configE = new AccountsConfig(
+        {
+          managementAccountEmail: 'some-management-account@example.com',
+          logArchiveAccountEmail: 'some-logarchive-account@example.com',
+          auditAccountEmail: 'some-audit-account@example.com',
+        },
+        {
+          ...accountsConfigObject,
+          workloadAccounts: [
+            { ...accountsConfigObject.workloadAccounts[0], decommission: true },
+            accountsConfigObject.workloadAccounts[1],
+          ],
+          accountIds: accountsConfigObject.accountIds.map(item =>
+            item.accountId === '555555555555' ? { ...item, status: 'SUSPENDED' } : item,
+          ),
+        },
+      );
+
+      expect(configE.getAccountIds()).toEqual(['111111111111', '222222222222', '333333333333']);
+      expect(
+        configE.getAccountIdsFromDeploymentTarget({
+          organizationalUnits: ['Infrastructure'],
+          accounts: ['SharedServices', 'Network', 'Audit'],
+          excludedRegions: [],
+          excludedAccounts: [],
+          accountTags: undefined,
+          accountNamePattern: undefined,
+          nestedOrganizationalUnits: undefined,
+        }),
+      ).toEqual(['222222222222']);
+    });
+    it('checks whether the account ID was loaded', () => {
+      const configF = new AccountsConfig(
+        {
+          managementAccountEmail: 'some-management-account@example.com',
+          logArchiveAccountEmail: 'some-logarchive-account@example.com',
+          auditAccountEmail: 'some-audit-account@example.com',
+        },
+        {
+          ...accountsConfigObject,
+          accountIds: accountsConfigObject.accountIds.filter(item => item.accountId !== '555555555555'),
+        },
+      );
+
+      expect(configF.isAccountIdLoaded('SharedServices')).toBe(true);
+      expect(configF.isAccountIdLoaded('Network')).toBe(false);
+    });
     it('has govcloud enabled', () => {
       expect(configB.isGovCloudEnabled(accountConfig)).toBe(false);
     });
@@ -159,6 +330,9 @@ describe('accounts-config', () => {
         name: 'Management',
         organizationalUnit: 'Root',
         warm: false,
+        tags: undefined,
+        metadata: undefined,
+        decommission: undefined,
       });
 
       expect(configC.getLogArchiveAccountId()).toBe('333333333333');
@@ -169,6 +343,9 @@ describe('accounts-config', () => {
         email: 'some-logarchive-account@example.com',
         organizationalUnit: 'Security',
         warm: false,
+        tags: undefined,
+        metadata: undefined,
+        decommission: undefined,
       });
 
       expect(configC.getAuditAccount()).toStrictEqual({
@@ -178,6 +355,9 @@ describe('accounts-config', () => {
         email: 'some-audit-account@example.com',
         organizationalUnit: 'Security',
         warm: false,
+        tags: undefined,
+        metadata: undefined,
+        decommission: undefined,
       });
       expect(configC.getAuditAccountId()).toBe('222222222222');
     });
@@ -211,5 +391,15 @@ describe('accounts-config', () => {
       const loadedConfig = AccountsConfig.load(path.resolve('../accelerator/test/configs/snapshot-only'));
       expect(loadedConfig && typeof loadedConfig === 'object').toBe(true);
     });
+
+    it('gets decommissioned accounts', () => {
+      const loadedConfig = AccountsConfig.load(path.resolve('../accelerator/test/configs/snapshot-only'));
+      expect(loadedConfig.accountDecommissioning?.organizationalUnit).toEqual('SecureWorkloads');
+      expect(loadedConfig.getDecommissionedAccounts().map(account => account.name)).toEqual([
+        'GovCloudWorkloadAccount01',
+      ]);
+      expect(loadedConfig.getActiveAccounts().map(account => account.name)).not.toContain('GovCloudWorkloadAccount01');
+      expect(configC.getDecommissionedAccounts()).toEqual([]);
+    });
   });
 });
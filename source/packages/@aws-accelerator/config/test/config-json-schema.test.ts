@@ -0,0 +1,92 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import Ajv from 'ajv';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import * as t from '../lib/common-types';
+import { ConfigJsonSchema } from '../scripts/config-json-schema';
+
+const configDir = path.resolve('../accelerator/test/configs/snapshot-only');
+
+describe('config-json-schema', () => {
+  const schemas = ConfigJsonSchema.generate();
+
+  it('matches the generated schema files', () => {
+    // Run `yarn generate-schema` in the config package when this test fails after changing a config type
+    expect(fs.readdirSync(ConfigJsonSchema.SCHEMA_DIR).sort()).toEqual(Object.keys(schemas).sort());
+    for (const [fileName, schema] of Object.entries(schemas)) {
+      expect(JSON.parse(fs.readFileSync(path.join(ConfigJsonSchema.SCHEMA_DIR, fileName), 'utf8'))).toEqual(schema);
+    }
+  });
+
+  it('converts the common types', () => {
+    const options = { definitions: new Map<t.Any, string>([[t.region, 'region']]), descriptions: {} };
+    const schema = t.toJsonSchema(
+      t.interface({
+        region: t.region,
+        name: t.nonEmptyString,
+        type: t.enums('Type', ['a', 'b']),
+        deploymentTargets: t.optional(t.deploymentTargets),
+      }),
+      'test.yaml',
+      options,
+    );
+
+    expect(schema.required).toEqual(['region', 'name', 'type']);
+    expect(schema.properties?.['region']).toEqual({ $ref: '#/definitions/region' });
+    expect(schema.properties?.['name']).toEqual({ type: 'string', minLength: 1 });
+    expect(schema.properties?.['type']).toEqual({ type: 'string', enum: ['a', 'b'] });
+    expect(schema.properties?.['deploymentTargets']?.anyOf?.[0].properties?.['accountTags']).toEqual({
+      anyOf: [
+        {
+          type: 'object',
+          propertyNames: { type: 'string', minLength: 1 },
+          additionalProperties: { type: 'string' },
+        },
+        { type: 'null' },
+      ],
+    });
+    expect(schema.definitions?.['region'].enum).toContain('us-east-1');
+  });
+
+  it('reads descriptions from the config classes', () => {
+    const deploymentTargets = schemas['network-config.schema.json'].definitions?.['deploymentTargets'];
+
+    expect(deploymentTargets?.description).toContain('Deployment targets configuration.');
+    expect(deploymentTargets?.properties?.['accounts'].description).toEqual(
+      'Use this property to define one or more accounts as a deployment target.',
+    );
+  });
+
+  it('validates the config files', () => {
+    const ajv = new Ajv({ strict: false });
+
+    const loadConfigFile = (fileName: string) =>
+      yaml.load(fs.readFileSync(path.join(configDir, fileName), 'utf8')) as { [key: string]: unknown };
+
+    for (const configFile of ConfigJsonSchema.CONFIG_FILES) {
+      const validate = ajv.compile(schemas[ConfigJsonSchema.getSchemaFileName(configFile.fileName)]);
+
+      expect(validate(loadConfigFile(configFile.fileName))).toBe(true);
+      ajv.removeSchema();
+    }
+
+    const validateGlobalConfig = ajv.compile(schemas['global-config.schema.json']);
+    expect(validateGlobalConfig({ ...loadConfigFile('global-config.yaml'), enabledRegions: ['us-moon-1'] })).toBe(
+      false,
+    );
+  });
+});
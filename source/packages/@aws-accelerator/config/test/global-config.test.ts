@@ -15,6 +15,15 @@ import {
   GlobalConfig,
   CostAndUsageReportConfig,
   BudgetReportConfig,
+  BudgetActionConfig,
+  BudgetActionTargetsConfig,
+  CostAnomalyDetectionConfig,
+  CostAnomalyMonitorConfig,
+  CostAnomalySubscriptionConfig,
+  CostAnomalyThresholdExpressionConfig,
+  CostCategoryConfig,
+  CostCategoryRuleConfig,
+  CostCategoryTagConfig,
   ServiceQuotaLimitsConfig,
   SsmParameterConfig,
   SsmParametersConfig,
@@ -24,6 +33,8 @@ import {
   SnsConfig,
   SnsTopicConfig,
   BackupConfig,
+  BackupPlanConfig,
+  BackupVaultLockConfig,
   VaultConfig,
   ReportConfig,
   externalLandingZoneResourcesConfig,
@@ -34,7 +45,11 @@ import {
   ElbLogBucketConfig,
   CloudWatchLogsExclusionConfig,
   CloudWatchLogsConfig,
+  SecurityLakeConfig,
+  SecurityLakeRollupRegionConfig,
+  SecurityLakeSubscriberConfig,
 } from '../lib/global-config';
+import { SnsDeliveryRetryPolicyConfig, SnsSubscriptionConfig } from '../lib/security-config';
 import { describe, it, expect } from '@jest/globals';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -62,6 +77,31 @@ describe('GlobalConfig', () => {
       //   ]);
     });
 
+    it('loads backup plans', () => {
+      const globalConfigFromFile = GlobalConfig.load(path.resolve('../accelerator/test/configs/snapshot-only'));
+      const vault = globalConfigFromFile.backup?.vaults.find(item => item.name === 'BackupVault');
+      const plan = globalConfigFromFile.backup?.plans?.at(0);
+
+      expect(vault?.lock?.mode).toBe('governance');
+      expect(vault?.notifications?.snsTopic).toBe('Security');
+      expect(plan?.vault).toBe('BackupVault');
+      expect(plan?.rules.at(0)?.copyActions?.at(0)?.account).toBe('Management');
+      expect(plan?.selections.at(0)?.tags).toEqual([{ key: 'backup', value: 'daily' }]);
+      expect(new BackupPlanConfig().rules).toEqual([]);
+      expect(new BackupVaultLockConfig().changeableForDays).toBe(undefined);
+    });
+
+    it('loads SNS topic subscriptions', () => {
+      const globalConfigFromFile = GlobalConfig.load(path.resolve('../accelerator/test/configs/snapshot-only'));
+      const snsTopic = globalConfigFromFile.snsTopics?.topics.find(item => item.name === 'Security');
+
+      expect(snsTopic?.kmsKey).toBe('key1');
+      expect(snsTopic?.subscriptions?.map(item => item.protocol)).toEqual(['https', 'sqs', 'lambda']);
+      expect(snsTopic?.subscriptions?.at(0)?.deliveryRetryPolicy?.backoffFunction).toBe('exponential');
+      expect(new SnsSubscriptionConfig().filterPolicy).toBe(undefined);
+      expect(new SnsDeliveryRetryPolicyConfig().numRetries).toBe(3);
+    });
+
     it('loads from string', () => {
       const buffer = fs.readFileSync(
         path.join('../accelerator/test/configs/snapshot-only', GlobalConfig.FILENAME),
@@ -108,6 +148,49 @@ describe('GlobalConfig', () => {
       expect(brConfig.includeCredit).toBe(false);
       expect(brConfig.useAmortized).toBe(false);
       expect(brConfig.useBlended).toBe(false);
+      expect(brConfig.linkedAccounts).toBe(undefined);
+      expect(brConfig.actions).toBe(undefined);
+    });
+
+    it('tests BudgetActionConfig', () => {
+      const budgetActionConfig = new BudgetActionConfig();
+      expect(budgetActionConfig.actionType).toEqual('APPLY_SCP_POLICY');
+      expect(budgetActionConfig.notificationType).toEqual('ACTUAL');
+      expect(budgetActionConfig.thresholdType).toEqual('PERCENTAGE');
+      expect(budgetActionConfig.threshold).toEqual(100);
+      expect(budgetActionConfig.approvalModel).toEqual('MANUAL');
+      expect(budgetActionConfig.policyName).toEqual('');
+      expect(budgetActionConfig.targets).toEqual(new BudgetActionTargetsConfig());
+      expect(budgetActionConfig.subscriptionType).toEqual('EMAIL');
+      expect(budgetActionConfig.recipients).toEqual([]);
+    });
+
+    it('tests CostAnomalyDetectionConfig', () => {
+      expect(new ReportConfig().costAnomalyDetection).toBe(undefined);
+      expect(new CostAnomalyDetectionConfig().monitors).toEqual([]);
+      expect(new CostAnomalyDetectionConfig().subscriptions).toBe(undefined);
+      expect(new CostAnomalyMonitorConfig().type).toEqual('SERVICE');
+      expect(new CostAnomalyMonitorConfig().accounts).toBe(undefined);
+      const subscription = new CostAnomalySubscriptionConfig();
+      expect(subscription.frequency).toEqual('DAILY');
+      expect(subscription.monitors).toEqual([]);
+      expect(subscription.thresholdExpression).toEqual(new CostAnomalyThresholdExpressionConfig());
+      expect(subscription.snsTopic).toBe(undefined);
+      expect(subscription.emailAddresses).toBe(undefined);
+    });
+
+    it('tests CostCategoryConfig', () => {
+      expect(new ReportConfig().costCategories).toBe(undefined);
+      expect(new ReportConfig().costAllocationTags).toBe(undefined);
+      expect(new CostCategoryConfig().defaultValue).toBe(undefined);
+      expect(new CostCategoryConfig().rules).toEqual([]);
+      const rule = new CostCategoryRuleConfig();
+      expect(rule.value).toEqual('');
+      expect(rule.accounts).toBe(undefined);
+      expect(rule.organizationalUnits).toBe(undefined);
+      expect(rule.tag).toBe(undefined);
+      expect(rule.inheritedTagKey).toBe(undefined);
+      expect(new CostCategoryTagConfig().values).toEqual([]);
     });
 
     it('tests ServiceQuotaLimitsConfig', () => {
@@ -128,6 +211,10 @@ describe('GlobalConfig', () => {
       expect(new ElbLogBucketConfig().lifecycleRules).toEqual(undefined);
       expect(new CloudWatchLogsExclusionConfig().regions).toEqual(undefined);
       expect(new CloudWatchLogsConfig().enable).toEqual(undefined);
+      expect(new SecurityLakeConfig().enable).toBe(false);
+      expect(new SecurityLakeConfig().sources).toEqual(undefined);
+      expect(new SecurityLakeRollupRegionConfig().contributingRegions).toEqual([]);
+      expect(new SecurityLakeSubscriberConfig().accessType).toEqual('S3');
 
       expect(new centralizeCdkBucketsConfig().enable).toEqual(true);
       expect(new AccountCloudTrailConfig().regions).toEqual([]);
@@ -139,6 +226,8 @@ describe('GlobalConfig', () => {
       expect(new SsmInventoryConfig().enable).toBeFalsy;
 
       expect(new AcceleratorSettingsConfig().maxConcurrentStacks).toBeUndefined;
+      expect(new AcceleratorSettingsConfig().detectDrift).toBe(undefined);
+      expect(new AcceleratorSettingsConfig().failOnDrift).toBe(undefined);
 
       expect(new AcceleratorMetadataConfig().enable).toBeFalsy;
       expect(new SnsConfig().topics).toEqual([]);
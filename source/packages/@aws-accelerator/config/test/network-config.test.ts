@@ -46,6 +46,7 @@ import {
   ResolverEndpointConfig,
   ResolverRuleConfig,
   VpcTemplatesConfig,
+  VpcIpv6Config,
 } from '../lib/network-config';
 
 import { VpcFlowLogsConfig } from '../lib/common-types/types';
@@ -187,6 +188,10 @@ describe('NetworkConfig', () => {
 
       const vpcTemplatesConfig = new VpcTemplatesConfig();
       expect(vpcTemplatesConfig.name).toEqual('');
+      expect(vpcTemplatesConfig.ipv6Cidrs).toEqual(undefined);
+
+      const vpcIpv6Config = new VpcIpv6Config();
+      expect(vpcIpv6Config.amazonProvided).toEqual(undefined);
     });
   });
 });
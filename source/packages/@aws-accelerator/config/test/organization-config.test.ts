@@ -26,6 +26,26 @@ describe('OrganizationConfig', () => {
       expect(organizationConfig.enable).toBe(true);
     });
 
+    it('loads organization policies', () => {
+      expect(organizationConfigFromFile.aiServicesOptOutPolicies?.map(policy => policy.name)).toEqual([
+        'AiServicesOptOutPolicy',
+      ]);
+      expect(organizationConfigFromFile.resourceControlPolicies?.[0].deploymentTargets.accounts).toEqual([
+        'Management',
+      ]);
+      expect(organizationConfigFromFile.chatbotPolicies?.[0].policy).toEqual('chatbot-policies/slack-only.json');
+      expect(organizationConfigFromFile.declarativePolicies?.[0].name).toEqual('Ec2Baseline');
+      expect(organizationConfig.resourceControlPolicies).toBe(undefined);
+    });
+
+    it('loads organizational unit lifecycle', () => {
+      expect(organizationConfigFromFile.deleteRemovedOus).toBe(true);
+      expect(
+        organizationConfigFromFile.organizationalUnits.find(ou => ou.name === 'SecureWorkloads')?.previousName,
+      ).toEqual('Workloads');
+      expect(organizationConfig.deleteRemovedOus).toBe(undefined);
+    });
+
     it('gets organization lookup', () => {
       expect(() => {
         organizationConfigFromFile.getOrganizationalUnitId('hello');
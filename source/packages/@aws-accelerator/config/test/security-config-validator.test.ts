@@ -0,0 +1,291 @@
+/**
+ *  Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import { AccountsConfig } from '../lib/accounts-config';
+import { GlobalConfig } from '../lib/global-config';
+import { OrganizationConfig } from '../lib/organization-config';
+import { AlarmSetConfig, SecurityConfig, SecurityHubConfig } from '../lib/security-config';
+import { SecurityConfigValidator } from '../validator/security-config-validator';
+
+const configDir = path.resolve('../accelerator/test/configs/snapshot-only');
+const accountsConfig = AccountsConfig.load(configDir);
+const organizationConfig = OrganizationConfig.load(configDir);
+
+/**
+ * Config type with its readonly properties made writable, so tests can change the loaded content
+ */
+type Writable<T> = { -readonly [K in keyof T]: Writable<T[K]> };
+
+/**
+ * Load a snapshot-only config file as plain YAML content
+ * @param fileName
+ * @returns
+ */
+function loadContent<T>(fileName: string): Writable<T> {
+  return yaml.load(fs.readFileSync(path.join(configDir, fileName), 'utf8')) as Writable<T>;
+}
+
+/**
+ * Runs the security config validator against the snapshot-only configs after applying the given changes
+ * to the security config content and the loaded global config
+ * @param updateSecurityConfig
+ * @param updateGlobalConfig
+ * @returns the validation error message
+ */
+function validate(
+  updateSecurityConfig: (content: Writable<SecurityConfig>) => void,
+  updateGlobalConfig: (globalConfig: Writable<GlobalConfig>) => void = () => undefined,
+): string {
+  const securityContent = loadContent<SecurityConfig>(SecurityConfig.FILENAME);
+  updateSecurityConfig(securityContent);
+  const securityConfig = SecurityConfig.loadFromString(yaml.dump(securityContent))!;
+  const globalConfig = GlobalConfig.load(configDir);
+  updateGlobalConfig(globalConfig as Writable<GlobalConfig>);
+
+  try {
+    new SecurityConfigValidator(securityConfig, accountsConfig, globalConfig, organizationConfig, undefined, configDir);
+  } catch (e) {
+    return `${e}`;
+  }
+  return '';
+}
+
+/**
+ * Runs the security config validator after applying the given changes to the Security Hub configuration
+ * @param update
+ * @returns the validation error message
+ */
+function validateSecurityHub(update: (securityHub: Writable<SecurityHubConfig>) => void): string {
+  return validate(content => update(content.centralSecurityServices.securityHub));
+}
+
+/**
+ * Runs the security config validator after applying the given changes to the alarm set with composite alarms
+ * @param update
+ * @param updateGlobalConfig
+ * @returns the validation error message
+ */
+function validateCompositeAlarmSet(
+  update: (alarmSet: Writable<AlarmSetConfig>) => void,
+  updateGlobalConfig?: (globalConfig: Writable<GlobalConfig>) => void,
+): string {
+  return validate(
+    content => update(content.cloudWatch.alarmSets.find(alarmSet => alarmSet.compositeAlarms)!),
+    updateGlobalConfig,
+  );
+}
+
+describe('SecurityConfigValidator', () => {
+  describe('Security Hub automation rules', () => {
+    it('accepts the snapshot automation rules', () => {
+      expect(validateSecurityHub(() => undefined)).not.toMatch(/automation rule/);
+    });
+
+    it('rejects duplicate rule names', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.automationRules![1].name = securityHub.automationRules![0].name;
+      });
+      expect(message).toMatch('Duplicate Security Hub automation rule name SuppressSandboxLowFindings');
+    });
+
+    it('rejects an order outside of 1 to 1000', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.automationRules![0].order = 1001;
+      });
+      expect(message).toMatch(
+        'Security Hub automation rule SuppressSandboxLowFindings order must be an integer between 1 and 1000.',
+      );
+    });
+
+    it('rejects rules without criteria', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.automationRules![1].criteria = [];
+      });
+      expect(message).toMatch('Security Hub automation rule ElevateRootUsage must define at least one criteria.');
+    });
+
+    it('rejects duplicate criteria keys', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.automationRules![0].criteria[1].key = 'SeverityLabel';
+      });
+      expect(message).toMatch('Security Hub automation rule SuppressSandboxLowFindings has duplicate criteria keys.');
+    });
+
+    it('rejects rules without actions', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.automationRules![1].actions = {
+          severityLabel: undefined,
+          workflowStatus: undefined,
+          note: undefined,
+        };
+      });
+      expect(message).toMatch(
+        'Security Hub automation rule ElevateRootUsage must define at least one of severityLabel, workflowStatus or note actions.',
+      );
+    });
+  });
+
+  describe('Security Hub configuration policies', () => {
+    it('accepts the snapshot configuration policies', () => {
+      expect(validateSecurityHub(() => undefined)).not.toMatch(/configuration polic/);
+    });
+
+    it('requires region aggregation', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.regionAggregation = false;
+      });
+      expect(message).toMatch('Security Hub configurationPolicies require regionAggregation to be enabled.');
+    });
+
+    it('rejects duplicate policy names', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.configurationPolicies!.push({ ...securityHub.configurationPolicies![0] });
+      });
+      expect(message).toMatch('Duplicate Security Hub configuration policy name InfrastructureBaseline.');
+    });
+
+    it('rejects standards missing from the standards list', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.configurationPolicies![0].standards = ['NIST Special Publication 800-53 Revision 5'];
+      });
+      expect(message).toMatch(
+        'Security Hub configuration policy InfrastructureBaseline standard NIST Special Publication 800-53 Revision 5 is not defined in the Security Hub standards list.',
+      );
+    });
+
+    it('rejects standards of disabled policies', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.configurationPolicies![0].enable = false;
+      });
+      expect(message).toMatch(
+        'Security Hub configuration policy InfrastructureBaseline cannot enable standards when Security Hub is disabled.',
+      );
+    });
+
+    it('rejects unknown deployment targets', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.configurationPolicies![0].deploymentTargets = {
+          ...securityHub.configurationPolicies![0].deploymentTargets,
+          organizationalUnits: ['MissingOu'],
+          accounts: ['MissingAccount'],
+        };
+      });
+      expect(message).toMatch(
+        'Deployment target OU MissingOu for Security Hub configuration policy InfrastructureBaseline does not exists in organization-config.yaml file.',
+      );
+      expect(message).toMatch(
+        'Deployment target account MissingAccount for Security Hub configuration policy InfrastructureBaseline does not exists in accounts-config.yaml file.',
+      );
+    });
+  });
+
+  describe('Security Hub control parameters', () => {
+    it('accepts the snapshot control parameters', () => {
+      expect(validateSecurityHub(() => undefined)).not.toMatch(/Security Hub standard/);
+    });
+
+    it('requires the standard to be used by a configuration policy', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.configurationPolicies = [];
+      });
+      expect(message).toMatch(
+        'Security Hub standard AWS Foundational Security Best Practices v1.0.0 defines controlParameters but is not used by any configurationPolicies.',
+      );
+    });
+
+    it('rejects duplicate and disabled controls', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.standards[0].controlParameters![1].controlId = 'IAM.7';
+        securityHub.standards[0].controlsToDisable.push('IAM.7');
+      });
+      expect(message).toMatch(
+        'Security Hub standard AWS Foundational Security Best Practices v1.0.0 has duplicate controlParameters controlId values.',
+      );
+      expect(message).toMatch(
+        'Security Hub standard AWS Foundational Security Best Practices v1.0.0 control IAM.7 is disabled and cannot define controlParameters.',
+      );
+    });
+
+    it('rejects values not matching the value type', () => {
+      const message = validateSecurityHub(securityHub => {
+        securityHub.standards[0].controlParameters![1].parameters[0].value = 'nodejs18.x';
+      });
+      expect(message).toMatch(
+        'Security Hub standard AWS Foundational Security Best Practices v1.0.0 control Lambda.2 parameter runtime value must be a list for value type StringList.',
+      );
+    });
+  });
+
+  describe('CloudWatch composite alarms', () => {
+    it('accepts composite alarms referencing composite alarms defined after them', () => {
+      const message = validateCompositeAlarmSet(alarmSet => {
+        alarmSet.compositeAlarms!.unshift({
+          ...alarmSet.compositeAlarms![0],
+          alarmName: 'RootOrConsoleSigninEscalation',
+          alarmDescription: 'Root account usage or console sign-in without MFA escalation',
+          operator: 'AND',
+          alarmRules: [{ alarmName: 'RootOrConsoleSigninWithoutMFA', state: 'ALARM' }],
+        });
+      });
+      expect(message).not.toMatch(/Composite alarm/);
+    });
+
+    it('rejects cyclic composite alarm references', () => {
+      const message = validateCompositeAlarmSet(alarmSet => {
+        alarmSet.compositeAlarms!.push({
+          ...alarmSet.compositeAlarms![0],
+          alarmName: 'RootOrConsoleSigninEscalation',
+          alarmDescription: 'Root account usage or console sign-in without MFA escalation',
+          operator: 'AND',
+          alarmRules: [{ alarmName: 'RootOrConsoleSigninWithoutMFA', state: 'ALARM' }],
+        });
+        alarmSet.compositeAlarms![0].alarmRules.push({ alarmName: 'RootOrConsoleSigninEscalation', state: 'ALARM' });
+      });
+      expect(message).toMatch(
+        'Composite alarm: RootOrConsoleSigninWithoutMFA references itself through its child alarms.',
+      );
+      expect(message).toMatch(
+        'Composite alarm: RootOrConsoleSigninEscalation references itself through its child alarms.',
+      );
+    });
+
+    it('rejects alarm set regions excluded from the SNS topics', () => {
+      const message = validateCompositeAlarmSet(
+        () => undefined,
+        globalConfig => {
+          globalConfig.snsTopics!.deploymentTargets.excludedRegions = ['us-east-1'];
+        },
+      );
+      expect(message).toMatch(/use snsTopicName but the global config snsTopics are excluded from regions us-east-1\./);
+    });
+  });
+
+  describe('Access Analyzer analyzers', () => {
+    it('accepts the snapshot analyzers', () => {
+      expect(validate(() => undefined)).not.toMatch(/Access Analyzer/);
+    });
+
+    it('rejects excludeRegions on unused access analyzers', () => {
+      const message = validate(content => {
+        content.accessAnalyzer.analyzers![0].excludeRegions = ['us-west-2'];
+      });
+      expect(message).toMatch(
+        'Access Analyzer analyzer UnusedAccess of type ORGANIZATION_UNUSED_ACCESS is only created in the home region and does not support excludeRegions.',
+      );
+    });
+  });
+});
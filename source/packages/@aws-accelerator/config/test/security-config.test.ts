@@ -21,6 +21,8 @@ import {
   AuditManagerDefaultReportsDestinationConfig,
   AuditManagerConfig,
   DetectiveConfig,
+  InspectorConfig,
+  InspectorExportFindingsConfig,
   SecurityHubStandardConfig,
   SecurityHubLoggingCloudwatchConfig,
   SecurityHubLoggingConfig,
@@ -30,6 +32,8 @@ import {
   AwsConfigAggregation,
   ConfigRule,
   AwsConfigRuleSet,
+  ConformancePackConfig,
+  ConformancePackOrganizationConfig,
   MetricConfig,
   MetricSetConfig,
   AlarmConfig,
@@ -56,6 +60,10 @@ describe('SecurityConfig', () => {
 
     expect(new DetectiveConfig().enable).toBe(false);
 
+    expect(new InspectorConfig().enable).toBe(false);
+
+    expect(new InspectorExportFindingsConfig().enable).toBe(false);
+
     expect(new SecurityHubStandardConfig().enable).toBe(true);
 
     expect(new SecurityHubLoggingCloudwatchConfig().enable).toBe(true);
@@ -74,6 +82,15 @@ describe('SecurityConfig', () => {
 
     expect(new AwsConfigRuleSet().rules).toStrictEqual([]);
 
+    expect(new ConformancePackConfig().name).toBe('');
+
+    expect(new ConformancePackOrganizationConfig().excludedAccounts).toBe(undefined);
+
+    expect(securityConfigFromFile.awsConfig.conformancePacks?.map(pack => pack.name)).toStrictEqual([
+      'accelerator-operational-best-practices-for-s3',
+      'accelerator-organization-operational-best-practices-for-s3',
+    ]);
+
     expect(new MetricConfig().filterName).toBe('');
 
     expect(new MetricSetConfig().regions).toBeUndefined;
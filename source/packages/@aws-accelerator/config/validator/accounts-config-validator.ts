@@ -13,11 +13,32 @@
 
 import { createLogger } from '@aws-accelerator/utils';
 import * as emailValidator from 'email-validator';
-import { AccountsConfig } from '../lib/accounts-config';
-import { OrganizationConfig } from '../lib/organization-config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountConfig, AccountsConfig, GovCloudAccountConfig } from '../lib/accounts-config';
+import { OrganizationConfig, TaggingPolicyConfig } from '../lib/organization-config';
+import { CommonValidatorFunctions } from './common/common-validator-functions';
+
+/**
+ * Tag policy document, only the assign operators of the tag keys are evaluated
+ * Ref: https://docs.aws.amazon.com/organizations/latest/userguide/orgs_manage_policies_example-tag-policies.html
+ */
+type TagPolicyDocument = {
+  tags?: {
+    [policyKey: string]: {
+      tag_key?: { '@@assign'?: string };
+      tag_value?: { '@@assign'?: string | string[] };
+    };
+  };
+};
+
+type TaggingPolicyRules = {
+  policy: TaggingPolicyConfig;
+  rules: { key: string; values?: string[] }[];
+};
 
 export class AccountsConfigValidator {
-  constructor(values: AccountsConfig, organizationConfig: OrganizationConfig) {
+  constructor(values: AccountsConfig, organizationConfig: OrganizationConfig, configDir: string) {
     const ouIdNames: string[] = ['Root'];
 
     const errors: string[] = [];
@@ -46,6 +67,33 @@ export class AccountsConfigValidator {
     // Email validation
     //
     this.validateEmails(values, errors);
+    //
+    // Validate account tags
+    //
+    this.validateAccountTags(values, organizationConfig, configDir, errors);
+    //
+    // Validate decommissioned accounts
+    //
+    this.validateAccountDecommissioning(values, organizationConfig, errors);
+    //
+    // Closed accounts are removed from the organization after the post-closure period
+    //
+    for (const account of values.getDecommissionedAccounts()) {
+      if ((values.accountIds ?? []).length > 0 && !values.isAccountIdLoaded(account.name)) {
+        logger.warn(
+          `Decommissioned account ${account.name} was removed from the organization and can be removed from ${AccountsConfig.FILENAME} file.`,
+        );
+      }
+    }
+    //
+    // Validate deployment target selectors of organization policies
+    //
+    CommonValidatorFunctions.validateDeploymentTargetSelectors(
+      OrganizationConfig.FILENAME,
+      organizationConfig,
+      values,
+      errors,
+    );
 
     if (errors.length) {
       throw new Error(`${AccountsConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -155,6 +203,171 @@ export class AccountsConfigValidator {
     }
   }
 
+  /**
+   * Function to validate decommissioned accounts and the account decommissioning configuration
+   * @param values
+   * @param organizationConfig
+   * @param errors
+   */
+  private validateAccountDecommissioning(
+    values: AccountsConfig,
+    organizationConfig: OrganizationConfig,
+    errors: string[],
+  ) {
+    for (const account of values.mandatoryAccounts.filter(item => item.decommission)) {
+      errors.push(`Mandatory account ${account.name} cannot be decommissioned.`);
+    }
+
+    const decommissioning = values.accountDecommissioning;
+    if (!decommissioning) {
+      for (const account of values.workloadAccounts.filter(item => item.decommission)) {
+        errors.push(
+          `Account ${account.name} is decommissioned but accountDecommissioning is not defined in accounts-config.yaml file.`,
+        );
+      }
+      return;
+    }
+
+    const ou = organizationConfig.organizationalUnits.find(item => item.name === decommissioning.organizationalUnit);
+    if (!ou) {
+      errors.push(
+        `Account decommissioning OU ${decommissioning.organizationalUnit} does not exist in organization-config.yaml file.`,
+      );
+    } else if (ou.ignore) {
+      errors.push(
+        `Account decommissioning OU ${decommissioning.organizationalUnit} is ignored. Decommissioned accounts must be moved to an OU that is not ignored.`,
+      );
+    }
+
+    if (!organizationConfig.serviceControlPolicies.find(item => item.name === decommissioning.scpPolicyName)) {
+      errors.push(
+        `Account decommissioning service control policy ${decommissioning.scpPolicyName} does not exist in organization-config.yaml file.`,
+      );
+    }
+  }
+
+  /**
+   * Function to validate account tags are unique and compliant with the tagging policies targeting the account
+   * @param values
+   * @param organizationConfig
+   * @param configDir
+   * @param errors
+   */
+  private validateAccountTags(
+    values: AccountsConfig,
+    organizationConfig: OrganizationConfig,
+    configDir: string,
+    errors: string[],
+  ) {
+    const taggingPolicies = this.getTaggingPolicyRules(organizationConfig, configDir);
+
+    for (const account of [...values.mandatoryAccounts, ...values.workloadAccounts]) {
+      const tagKeys = (account.tags ?? []).map(tag => tag.key);
+      if (new Set(tagKeys.map(key => key.toLowerCase())).size !== tagKeys.length) {
+        errors.push(`Duplicate tag keys defined for account ${account.name} [${tagKeys}].`);
+      }
+      if (tagKeys.some(key => key.toLowerCase().startsWith('aws:'))) {
+        errors.push(`Tag keys for account ${account.name} cannot use the reserved aws: prefix.`);
+      }
+
+      for (const taggingPolicy of taggingPolicies) {
+        if (!this.isTaggingPolicyTarget(taggingPolicy.policy, account, values)) {
+          continue;
+        }
+        for (const tag of account.tags ?? []) {
+          const rule = taggingPolicy.rules.find(item => item.key.toLowerCase() === tag.key.toLowerCase());
+          if (!rule) {
+            continue;
+          }
+          if (rule.key !== tag.key) {
+            errors.push(
+              `Tag key ${tag.key} for account ${account.name} does not match the capitalization ${rule.key} required by tagging policy ${taggingPolicy.policy.name}.`,
+            );
+          }
+          if (rule.values && !rule.values.some(allowedValue => this.isTagValueAllowed(allowedValue, tag.value))) {
+            errors.push(
+              `Tag ${tag.key} for account ${account.name} has value ${tag.value} which is not allowed by tagging policy ${taggingPolicy.policy.name}. Allowed values: [${rule.values}].`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to load the tag key and value rules from the tagging policy files
+   * @param organizationConfig
+   * @param configDir
+   * @returns
+   */
+  private getTaggingPolicyRules(organizationConfig: OrganizationConfig, configDir: string): TaggingPolicyRules[] {
+    const taggingPolicies: TaggingPolicyRules[] = [];
+
+    for (const taggingPolicy of organizationConfig.taggingPolicies ?? []) {
+      const policyPath = path.join(configDir, taggingPolicy.policy);
+      if (!fs.existsSync(policyPath)) {
+        // Missing policy files are reported by the organization config validator
+        continue;
+      }
+
+      let policyDocument: TagPolicyDocument;
+      try {
+        policyDocument = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+      } catch (e) {
+        // Policy files containing replacement variables cannot be evaluated
+        continue;
+      }
+
+      const rules: TaggingPolicyRules['rules'] = [];
+      for (const [policyKey, tagPolicy] of Object.entries(policyDocument.tags ?? {})) {
+        const tagValues = tagPolicy.tag_value?.['@@assign'];
+        rules.push({
+          key: tagPolicy.tag_key?.['@@assign'] ?? policyKey,
+          values: tagValues ? ([] as string[]).concat(tagValues) : undefined,
+        });
+      }
+      taggingPolicies.push({ policy: taggingPolicy, rules });
+    }
+    return taggingPolicies;
+  }
+
+  /**
+   * Function to check if a tagging policy is attached to the account, one of its parent OUs,
+   * or selects the account with its attribute selectors
+   * @param taggingPolicy
+   * @param account
+   * @param values
+   * @returns
+   */
+  private isTaggingPolicyTarget(
+    taggingPolicy: TaggingPolicyConfig,
+    account: AccountConfig | GovCloudAccountConfig,
+    values: AccountsConfig,
+  ): boolean {
+    if (taggingPolicy.deploymentTargets.excludedAccounts?.includes(account.name)) {
+      return false;
+    }
+    if (values.getDeploymentTargetAccountNames(taggingPolicy.deploymentTargets).includes(account.name)) {
+      return true;
+    }
+    return (taggingPolicy.deploymentTargets.organizationalUnits ?? []).some(
+      ou => ou === 'Root' || ou === account.organizationalUnit || account.organizationalUnit?.startsWith(`${ou}/`),
+    );
+  }
+
+  /**
+   * Function to check a tag value against an allowed tagging policy value, which may end with a wildcard
+   * @param allowedValue
+   * @param value
+   * @returns
+   */
+  private isTagValueAllowed(allowedValue: string, value: string): boolean {
+    if (allowedValue.endsWith('*')) {
+      return value.startsWith(allowedValue.slice(0, -1));
+    }
+    return allowedValue === value;
+  }
+
   /**
    * Prepare list of OU ids from organization config file
    * @param configDir
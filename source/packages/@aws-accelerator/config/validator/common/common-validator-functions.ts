@@ -12,6 +12,7 @@
  */
 import fs from 'fs';
 import path from 'path';
+import { createLogger } from '@aws-accelerator/utils';
 import { AccountsConfig } from '../../lib/accounts-config';
 import * as t from '../../lib/common-types';
 import { GlobalConfig } from '../../lib/global-config';
@@ -52,6 +53,8 @@ export class CommonValidatorFunctions {
       accountNames.push(account);
     }
 
+    accountNames.push(...accountsConfig.getAccountsFromSelectors(deploymentTargets).map(account => account.name));
+
     const filterAccountNames = accountNames.filter(item => !deploymentTargets.excludedAccounts?.includes(item));
 
     return [...new Set(filterAccountNames)];
@@ -86,6 +89,12 @@ export class CommonValidatorFunctions {
       accountNames.push(account);
     }
 
+    if (CommonValidatorFunctions.hasSelectors(targets)) {
+      accountNames.push(
+        ...accountsConfig.getAccountsFromSelectors(targets as t.DeploymentTargets).map(account => account.name),
+      );
+    }
+
     const filterAccountNames = t.deploymentTargets.is(targets)
       ? accountNames.filter(item => !targets.excludedAccounts?.includes(item))
       : accountNames;
@@ -93,6 +102,105 @@ export class CommonValidatorFunctions {
     return [...new Set(filterAccountNames)];
   }
 
+  /**
+   * Function to check if a target object defines any deployment target selectors
+   * @param targets
+   * @returns
+   */
+  public static hasSelectors(targets: t.DeploymentTargets | t.ShareTargets): boolean {
+    const deploymentTargets = targets as t.DeploymentTargets;
+    return (
+      deploymentTargets.accountTags !== undefined ||
+      deploymentTargets.accountNamePattern !== undefined ||
+      deploymentTargets.nestedOrganizationalUnits !== undefined
+    );
+  }
+
+  /**
+   * Function to validate the selectors of every deploymentTargets object in a configuration file
+   * and log a report of the accounts each selector-based deployment target resolves to
+   * @param configFileName
+   * @param values
+   * @param accountsConfig
+   * @param errors
+   */
+  public static validateDeploymentTargetSelectors(
+    configFileName: string,
+    values: unknown,
+    accountsConfig: AccountsConfig,
+    errors: string[],
+  ) {
+    const logger = createLogger(['deployment-target-selectors']);
+    const accountTagKeys = [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts].flatMap(
+      account => account.tags?.map(tag => tag.key) ?? [],
+    );
+
+    for (const { location, deploymentTargets } of CommonValidatorFunctions.findDeploymentTargets(values, '')) {
+      if (!CommonValidatorFunctions.hasSelectors(deploymentTargets)) {
+        continue;
+      }
+
+      if (deploymentTargets.nestedOrganizationalUnits && (deploymentTargets.organizationalUnits ?? []).length === 0) {
+        errors.push(
+          `[${configFileName}${location}] nestedOrganizationalUnits is enabled but no organizationalUnits are defined.`,
+        );
+      }
+      if (deploymentTargets.accountNamePattern && !/^[\w\-.*?+=,@]+$/.test(deploymentTargets.accountNamePattern)) {
+        errors.push(
+          `[${configFileName}${location}] accountNamePattern ${deploymentTargets.accountNamePattern} contains invalid characters. Only account name characters and the * and ? wildcards are supported.`,
+        );
+      }
+      if (deploymentTargets.accountTags && Object.keys(deploymentTargets.accountTags).length === 0) {
+        errors.push(`[${configFileName}${location}] accountTags must define at least one tag.`);
+      }
+      for (const key of Object.keys(deploymentTargets.accountTags ?? {})) {
+        if (!accountTagKeys.includes(key)) {
+          logger.warn(`[${configFileName}${location}] accountTags key ${key} is not defined on any account.`);
+        }
+      }
+
+      //
+      // Debug report explaining the accounts the deployment target resolves to
+      //
+      for (const match of accountsConfig.getDeploymentTargetReport(deploymentTargets)) {
+        if (match.reasons.length > 0) {
+          logger.debug(
+            `[${configFileName}${location}] ${match.account} ${
+              match.included ? 'included' : 'excluded'
+            }: ${match.reasons.join('; ')}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to recursively find every deploymentTargets object within a configuration object
+   * @param values
+   * @param location
+   * @returns
+   */
+  private static findDeploymentTargets(
+    values: unknown,
+    location: string,
+  ): { location: string; deploymentTargets: t.DeploymentTargets }[] {
+    const results: { location: string; deploymentTargets: t.DeploymentTargets }[] = [];
+    if (Array.isArray(values)) {
+      values.forEach((item, index) => {
+        results.push(...CommonValidatorFunctions.findDeploymentTargets(item, `${location}[${index}]`));
+      });
+    } else if (values && typeof values === 'object') {
+      for (const [key, value] of Object.entries(values)) {
+        if (key === 'deploymentTargets' && value && typeof value === 'object') {
+          results.push({ location: `${location}.${key}`, deploymentTargets: value as t.DeploymentTargets });
+        } else {
+          results.push(...CommonValidatorFunctions.findDeploymentTargets(value, `${location}.${key}`));
+        }
+      }
+    }
+    return results;
+  }
+
   /**
    * Function that will retrieve the regions from the deploymentTargets object that is passed in.
    * @param target {@link t.DeploymentTargets}
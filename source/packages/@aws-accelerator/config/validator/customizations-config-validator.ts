@@ -88,6 +88,15 @@ export class CustomizationsConfigValidator {
 
     // Validate firewalls
     new FirewallValidator(values, networkConfig, securityConfig, accountsConfig, configDir, helpers, errors);
+    //
+    // Validate deployment target selectors
+    //
+    CommonValidatorFunctions.validateDeploymentTargetSelectors(
+      CustomizationsConfig.FILENAME,
+      values,
+      accountsConfig,
+      errors,
+    );
 
     if (errors.length) {
       throw new Error(`${CustomizationsConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -17,9 +17,9 @@ import fs from 'fs';
 import path from 'path';
 import winston from 'winston';
 import { AccountsConfig } from '../lib/accounts-config';
-import { GlobalConfig } from '../lib/global-config';
+import { BackupLifecycleConfig, BackupVaultLockConfig, GlobalConfig } from '../lib/global-config';
 import { IamConfig } from '../lib/iam-config';
-import { SecurityConfig } from '../lib/security-config';
+import { SecurityConfig, SnsSubscriptionConfig } from '../lib/security-config';
 import { OrganizationConfig } from '../lib/organization-config';
 import { CommonValidatorFunctions } from './common/common-validator-functions';
 import { DeploymentTargets } from '../lib/common-types';
@@ -69,6 +69,28 @@ export class GlobalConfigValidator {
     // budget notification email validation
     //
     this.validateBudgetNotificationEmailIds(values, errors);
+    //
+    // budget linked accounts and actions validation
+    //
+    this.validateBudgetLinkedAccountsAndActions(
+      values,
+      accountsConfig,
+      iamConfig,
+      organizationConfig,
+      ouIdNames,
+      accountNames,
+      errors,
+    );
+
+    //
+    // Cost Anomaly Detection validation
+    //
+    this.validateCostAnomalyDetection(values, accountsConfig, accountNames, errors);
+    //
+    // Cost categories and cost allocation tags validation
+    //
+    this.validateCostCategories(values, ouIdNames, accountNames, errors);
+    this.validateCostAllocationTags(values, errors);
 
     //
     // Validate CentralLogs bucket policies.
@@ -105,9 +127,13 @@ export class GlobalConfigValidator {
     //
     this.validateCloudTrailSettings(values, errors);
     //
+    // Security Lake settings validation
+    //
+    this.validateSecurityLake(values, accountsConfig, accountNames, errors);
+    //
     // snsTopics settings validation
     //
-    this.validateSnsTopics(values, logger, errors);
+    this.validateSnsTopics(configDir, values, accountsConfig, securityConfig, logger, errors);
     //
     // central log bucket resource policy attachment validation
     //
@@ -136,12 +162,16 @@ export class GlobalConfigValidator {
     //
     // AWS Backup validation
     //
-    this.validateAwsBackup(configDir, values, errors);
+    this.validateAwsBackup(configDir, values, accountsConfig, accountNames, errors);
 
     //
     // Max concurrency validation
     //
     this.validateMaxConcurrency(values, errors);
+    //
+    // Drift detection validation
+    //
+    this.validateDriftDetection(values, errors);
 
     //
     // Validate deployment targets
@@ -169,6 +199,10 @@ export class GlobalConfigValidator {
     //
     this.validateS3ConfigDeploymentTargetOUs(values, ouIdNames, errors);
     this.validateS3ConfigDeploymentTargetAccounts(values, accountNames, errors);
+    //
+    // Validate deployment target selectors
+    //
+    CommonValidatorFunctions.validateDeploymentTargetSelectors(GlobalConfig.FILENAME, values, accountsConfig, errors);
 
     if (errors.length) {
       throw new Error(`${GlobalConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -254,6 +288,81 @@ export class GlobalConfigValidator {
     }
   }
 
+  /**
+   * Function to validate Security Lake settings
+   * @param values
+   * @param accountsConfig
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityLake(
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const securityLake = values.logging.securityLake;
+    if (!securityLake?.enable) {
+      return;
+    }
+
+    const allowedAdminAccounts = [accountsConfig.getLogArchiveAccount().name, accountsConfig.getAuditAccount().name];
+    if (!allowedAdminAccounts.includes(securityLake.delegatedAdminAccount)) {
+      errors.push(
+        `Security Lake delegatedAdminAccount ${
+          securityLake.delegatedAdminAccount
+        } must be one of [${allowedAdminAccounts.toString()}].`,
+      );
+    }
+
+    const securityLakeRegions = values.enabledRegions.filter(
+      region => !(securityLake.excludeRegions ?? []).includes(region),
+    );
+    if (!securityLakeRegions.includes(values.homeRegion)) {
+      errors.push(`Security Lake excludeRegions cannot include the home region ${values.homeRegion}.`);
+    }
+
+    const rollupRegions = (securityLake.rollupRegions ?? []).map(rollupRegion => rollupRegion.region);
+    const contributingRegions: string[] = [];
+    for (const rollupRegion of securityLake.rollupRegions ?? []) {
+      for (const region of [rollupRegion.region, ...rollupRegion.contributingRegions]) {
+        if (!securityLakeRegions.includes(region)) {
+          errors.push(`Security Lake rollup configuration region ${region} is not a Security Lake enabled region.`);
+        }
+      }
+      for (const region of rollupRegion.contributingRegions) {
+        if (rollupRegions.includes(region)) {
+          errors.push(`Security Lake region ${region} cannot be both a rollup region and a contributing region.`);
+        }
+        if (contributingRegions.includes(region)) {
+          errors.push(`Security Lake contributing region ${region} is defined for more than one rollup region.`);
+        }
+        contributingRegions.push(region);
+      }
+    }
+
+    const sources = securityLake.sources ?? ['CLOUD_TRAIL_MGMT', 'VPC_FLOW', 'ROUTE53', 'SH_FINDINGS'];
+    const subscriberNames: string[] = [];
+    for (const subscriber of securityLake.subscribers ?? []) {
+      if (subscriberNames.includes(subscriber.name)) {
+        errors.push(`Duplicate Security Lake subscriber name ${subscriber.name}.`);
+      }
+      subscriberNames.push(subscriber.name);
+      if (!accountNames.includes(subscriber.account) && !/^\d{12}$/.test(subscriber.account)) {
+        errors.push(
+          `Security Lake subscriber ${subscriber.name} account ${subscriber.account} must be an account name from accounts-config.yaml or a 12-digit account ID.`,
+        );
+      }
+      for (const source of subscriber.sources ?? []) {
+        if (!sources.includes(source)) {
+          errors.push(
+            `Security Lake subscriber ${subscriber.name} source ${source} is not a configured Security Lake source.`,
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Function to validate budget subscriber address
    * @param values
@@ -270,6 +379,310 @@ export class GlobalConfigValidator {
     }
   }
 
+  /**
+   * Function to validate budget linked accounts and actions
+   * Budgets filtered by linked accounts and budgets with SCP actions must only be deployed to the management account
+   * @param values
+   * @param accountsConfig
+   * @param iamConfig
+   * @param organizationConfig
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateBudgetLinkedAccountsAndActions(
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    iamConfig: IamConfig,
+    organizationConfig: OrganizationConfig,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const managementAccountName = accountsConfig.getManagementAccount().name;
+    const scpNames = organizationConfig.serviceControlPolicies.map(scp => scp.name);
+    const iamPolicyNames = (iamConfig.policySets ?? []).flatMap(policySet =>
+      policySet.policies.map(policy => policy.name),
+    );
+
+    for (const budget of values.reports?.budgets ?? []) {
+      const isManagementAccountOnly =
+        (budget.deploymentTargets?.organizationalUnits ?? []).length === 0 &&
+        (budget.deploymentTargets?.accounts ?? []).length > 0 &&
+        budget.deploymentTargets!.accounts.every(account => account === managementAccountName);
+
+      if (budget.linkedAccounts) {
+        if (!isManagementAccountOnly) {
+          errors.push(
+            `Budget ${budget.name} tracks linked accounts and must only target the ${managementAccountName} account in deploymentTargets.`,
+          );
+        }
+        for (const ou of budget.linkedAccounts.organizationalUnits ?? []) {
+          if (!ouIdNames.includes(ou)) {
+            errors.push(`Linked OU ${ou} for budget ${budget.name} does not exist in organization-config.yaml file.`);
+          }
+        }
+        for (const account of [
+          ...(budget.linkedAccounts.accounts ?? []),
+          ...(budget.linkedAccounts.excludedAccounts ?? []),
+        ]) {
+          if (!accountNames.includes(account)) {
+            errors.push(
+              `Linked account ${account} for budget ${budget.name} does not exist in accounts-config.yaml file.`,
+            );
+          }
+        }
+      }
+
+      for (const action of budget.actions ?? []) {
+        const scpTargets = [...(action.targets.accounts ?? []), ...(action.targets.organizationalUnits ?? [])];
+        const iamTargets = [
+          ...(action.targets.roles ?? []),
+          ...(action.targets.groups ?? []),
+          ...(action.targets.users ?? []),
+        ];
+
+        if (action.actionType === 'APPLY_SCP_POLICY') {
+          if (!isManagementAccountOnly) {
+            errors.push(
+              `Budget ${budget.name} has an APPLY_SCP_POLICY action and must only target the ${managementAccountName} account in deploymentTargets.`,
+            );
+          }
+          if (!scpNames.includes(action.policyName)) {
+            errors.push(
+              `Service control policy ${action.policyName} of budget ${budget.name} action does not exist in organization-config.yaml file.`,
+            );
+          }
+          if (scpTargets.length === 0 || iamTargets.length > 0) {
+            errors.push(
+              `APPLY_SCP_POLICY action of budget ${budget.name} must only target accounts and organizational units.`,
+            );
+          }
+          for (const ou of action.targets.organizationalUnits ?? []) {
+            if (!ouIdNames.includes(ou) || ou === 'Root') {
+              errors.push(
+                `Target OU ${ou} of budget ${budget.name} action does not exist in organization-config.yaml file.`,
+              );
+            }
+          }
+          for (const account of action.targets.accounts ?? []) {
+            if (!accountNames.includes(account)) {
+              errors.push(
+                `Target account ${account} of budget ${budget.name} action does not exist in accounts-config.yaml file.`,
+              );
+            }
+          }
+        } else {
+          if (!iamPolicyNames.includes(action.policyName)) {
+            errors.push(
+              `IAM policy ${action.policyName} of budget ${budget.name} action does not exist in iam-config.yaml file.`,
+            );
+          }
+          if (iamTargets.length === 0 || scpTargets.length > 0) {
+            errors.push(`APPLY_IAM_POLICY action of budget ${budget.name} must only target roles, groups and users.`);
+          }
+        }
+
+        if (action.subscriptionType === 'EMAIL') {
+          for (const recipient of action.recipients) {
+            if (!emailValidator.validate(recipient)) {
+              errors.push(`Invalid budget action notification email ${recipient}.`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate Cost Anomaly Detection monitors and subscriptions
+   * @param values
+   * @param accountsConfig
+   * @param accountNames
+   * @param errors
+   */
+  private validateCostAnomalyDetection(
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const costAnomalyDetection = values.reports?.costAnomalyDetection;
+    if (!costAnomalyDetection) {
+      return;
+    }
+
+    const monitorNames = costAnomalyDetection.monitors.map(monitor => monitor.name);
+    if (new Set(monitorNames).size !== monitorNames.length) {
+      errors.push(`Duplicate Cost Anomaly Detection monitor names defined [${monitorNames}].`);
+    }
+    if (costAnomalyDetection.monitors.filter(monitor => monitor.type === 'SERVICE').length > 1) {
+      errors.push(`Only one SERVICE Cost Anomaly Detection monitor can be defined.`);
+    }
+    for (const monitor of costAnomalyDetection.monitors) {
+      if (monitor.type === 'LINKED_ACCOUNT') {
+        if ((monitor.accounts ?? []).length < 1 || (monitor.accounts ?? []).length > 10) {
+          errors.push(`Cost Anomaly Detection monitor ${monitor.name} must define between 1 and 10 accounts.`);
+        }
+        for (const account of monitor.accounts ?? []) {
+          if (!accountNames.includes(account)) {
+            errors.push(
+              `Account ${account} of Cost Anomaly Detection monitor ${monitor.name} does not exist in accounts-config.yaml file.`,
+            );
+          }
+        }
+      } else if (monitor.accounts) {
+        errors.push(`Cost Anomaly Detection monitor ${monitor.name} of type ${monitor.type} cannot define accounts.`);
+      }
+      if (monitor.type === 'COST_CATEGORY' || monitor.type === 'TAG') {
+        if (!monitor.key || (monitor.values ?? []).length === 0) {
+          errors.push(
+            `Cost Anomaly Detection monitor ${monitor.name} of type ${monitor.type} must define a key and values.`,
+          );
+        }
+      } else if (monitor.key || monitor.values) {
+        errors.push(
+          `Cost Anomaly Detection monitor ${monitor.name} of type ${monitor.type} cannot define a key or values.`,
+        );
+      }
+    }
+
+    const subscriptionNames = (costAnomalyDetection.subscriptions ?? []).map(subscription => subscription.name);
+    if (new Set(subscriptionNames).size !== subscriptionNames.length) {
+      errors.push(`Duplicate Cost Anomaly Detection subscription names defined [${subscriptionNames}].`);
+    }
+    const managementAccountEnvironment = `${accountsConfig.getManagementAccount().name}-${values.homeRegion}`;
+    const snsTopicEnvironments = values.snsTopics?.deploymentTargets
+      ? CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(
+          accountsConfig,
+          values.snsTopics.deploymentTargets,
+          values,
+        )
+      : [];
+    for (const subscription of costAnomalyDetection.subscriptions ?? []) {
+      if (subscription.monitors.length === 0) {
+        errors.push(`Cost Anomaly Detection subscription ${subscription.name} must define at least one monitor.`);
+      }
+      for (const monitor of subscription.monitors) {
+        if (!monitorNames.includes(monitor)) {
+          errors.push(
+            `Monitor ${monitor} of Cost Anomaly Detection subscription ${subscription.name} does not exist in monitors.`,
+          );
+        }
+      }
+      if (
+        subscription.thresholdExpression.totalImpactAbsolute === undefined &&
+        subscription.thresholdExpression.totalImpactPercentage === undefined
+      ) {
+        errors.push(
+          `Cost Anomaly Detection subscription ${subscription.name} must define totalImpactAbsolute or totalImpactPercentage.`,
+        );
+      }
+      if (!subscription.snsTopic && (subscription.emailAddresses ?? []).length === 0) {
+        errors.push(
+          `Cost Anomaly Detection subscription ${subscription.name} must define an snsTopic or emailAddresses.`,
+        );
+      }
+      if (subscription.snsTopic) {
+        if (subscription.frequency !== 'IMMEDIATE') {
+          errors.push(`Cost Anomaly Detection subscription ${subscription.name} with an snsTopic must be IMMEDIATE.`);
+        }
+        if (!values.snsTopics?.topics.find(topic => topic.name === subscription.snsTopic)) {
+          errors.push(
+            `SNS topic ${subscription.snsTopic} of Cost Anomaly Detection subscription ${subscription.name} does not exist in snsTopics.`,
+          );
+        } else if (!snsTopicEnvironments.includes(managementAccountEnvironment)) {
+          errors.push(
+            `SNS topic ${subscription.snsTopic} of Cost Anomaly Detection subscription ${subscription.name} must be deployed to the management account home region.`,
+          );
+        }
+      }
+      if ((subscription.emailAddresses ?? []).length > 0) {
+        if (subscription.frequency === 'IMMEDIATE') {
+          errors.push(
+            `Cost Anomaly Detection subscription ${subscription.name} with emailAddresses must be DAILY or WEEKLY.`,
+          );
+        }
+        for (const emailAddress of subscription.emailAddresses ?? []) {
+          if (!emailValidator.validate(emailAddress)) {
+            errors.push(`Invalid Cost Anomaly Detection subscription email ${emailAddress}.`);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate cost category definitions
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateCostCategories(values: GlobalConfig, ouIdNames: string[], accountNames: string[], errors: string[]) {
+    const costCategoryNames = (values.reports?.costCategories ?? []).map(costCategory => costCategory.name);
+    if (new Set(costCategoryNames).size !== costCategoryNames.length) {
+      errors.push(`Duplicate cost category names defined [${costCategoryNames}].`);
+    }
+
+    for (const costCategory of values.reports?.costCategories ?? []) {
+      if (costCategory.rules.length === 0) {
+        errors.push(`Cost category ${costCategory.name} must define at least one rule.`);
+      }
+      for (const rule of costCategory.rules) {
+        const hasLinkedAccounts = (rule.accounts ?? []).length > 0 || (rule.organizationalUnits ?? []).length > 0;
+        if (rule.inheritedTagKey && (hasLinkedAccounts || rule.tag)) {
+          errors.push(
+            `Rule ${rule.value} of cost category ${costCategory.name} cannot combine inheritedTagKey with accounts, organizationalUnits or tag.`,
+          );
+        } else if (!rule.inheritedTagKey && !hasLinkedAccounts && !rule.tag) {
+          errors.push(
+            `Rule ${rule.value} of cost category ${costCategory.name} must define accounts, organizationalUnits, tag or inheritedTagKey.`,
+          );
+        }
+        for (const account of rule.accounts ?? []) {
+          if (!accountNames.includes(account)) {
+            errors.push(
+              `Account ${account} of cost category ${costCategory.name} rule ${rule.value} does not exist in accounts-config.yaml file.`,
+            );
+          }
+        }
+        for (const ou of rule.organizationalUnits ?? []) {
+          if (!ouIdNames.includes(ou)) {
+            errors.push(
+              `OU ${ou} of cost category ${costCategory.name} rule ${rule.value} does not exist in organization-config.yaml file.`,
+            );
+          }
+        }
+        if (rule.tag && rule.tag.values.length === 0) {
+          errors.push(
+            `Tag ${rule.tag.key} of cost category ${costCategory.name} rule ${rule.value} must define values.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate cost allocation tag keys
+   * @param values
+   * @param errors
+   */
+  private validateCostAllocationTags(values: GlobalConfig, errors: string[]) {
+    const tagKeys = values.reports?.costAllocationTags ?? [];
+    if (tagKeys.length > 500) {
+      errors.push(`A maximum of 500 cost allocation tags can be activated, ${tagKeys.length} are defined.`);
+    }
+    if (new Set(tagKeys).size !== tagKeys.length) {
+      errors.push(`Duplicate cost allocation tags defined [${tagKeys}].`);
+    }
+    for (const tagKey of tagKeys) {
+      if (tagKey.startsWith('aws:')) {
+        errors.push(`Cost allocation tag ${tagKey} is an AWS generated tag, only user-defined tags can be activated.`);
+      }
+    }
+  }
+
   /**
    * Function to validate budget notification email address
    * @param values
@@ -800,17 +1213,138 @@ export class GlobalConfigValidator {
     }
   }
 
-  private validateSnsTopics(values: GlobalConfig, logger: winston.Logger, errors: string[]) {
+  private validateSnsTopics(
+    configDir: string,
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    securityConfig: SecurityConfig,
+    logger: winston.Logger,
+    errors: string[],
+  ) {
     if (values.snsTopics) {
       for (const snsTopic of values.snsTopics.topics ?? []) {
-        logger.info(`email count: ${snsTopic.emailAddresses.length}`);
-        if (snsTopic.emailAddresses.length < 1) {
-          errors.push(`Must be at least one email address for the snsTopic named ${snsTopic.name}`);
+        logger.info(`email count: ${snsTopic.emailAddresses?.length ?? 0}`);
+        if ((snsTopic.emailAddresses ?? []).length < 1 && (snsTopic.subscriptions ?? []).length < 1) {
+          errors.push(`Must be at least one email address or subscription for the snsTopic named ${snsTopic.name}`);
+        }
+        for (const subscription of snsTopic.subscriptions ?? []) {
+          this.validateSnsTopicSubscription(configDir, snsTopic.name, subscription, errors);
+        }
+        if (snsTopic.kmsKey) {
+          this.validateSnsTopicKey(values, accountsConfig, securityConfig, snsTopic.name, snsTopic.kmsKey, errors);
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate SNS topic subscription endpoints, filter policies and protocol specific settings
+   * @param configDir string
+   * @param topicName string
+   * @param subscription {@link SnsSubscriptionConfig}
+   * @param errors string[]
+   */
+  private validateSnsTopicSubscription(
+    configDir: string,
+    topicName: string,
+    subscription: SnsSubscriptionConfig,
+    errors: string[],
+  ) {
+    if (subscription.level || subscription.email) {
+      errors.push(
+        `level and email are only supported by the security config snsSubscriptions, use emailAddresses for the snsTopic named ${topicName}`,
+      );
+    }
+    if (!subscription.protocol || !subscription.endpoint) {
+      errors.push(`Subscriptions of the snsTopic named ${topicName} must define a protocol and an endpoint`);
+      return;
+    }
+    const endpointPatterns = {
+      https: /^https:\/\/\S+$/,
+      sqs: /^arn:[\w-]+:sqs:[\w-]+:\d{12}:\S+$/,
+      lambda: /^arn:[\w-]+:lambda:[\w-]+:\d{12}:function:\S+$/,
+      sms: /^\+[1-9]\d{1,14}$/,
+    };
+    if (!endpointPatterns[subscription.protocol].test(subscription.endpoint)) {
+      errors.push(
+        `Invalid ${subscription.protocol} subscription endpoint ${subscription.endpoint} for the snsTopic named ${topicName}`,
+      );
+    }
+    if (subscription.rawMessageDelivery && !['https', 'sqs'].includes(subscription.protocol)) {
+      errors.push(
+        `rawMessageDelivery is not supported by the ${subscription.protocol} subscription ${subscription.endpoint} for the snsTopic named ${topicName}`,
+      );
+    }
+    if (subscription.deliveryRetryPolicy && subscription.protocol !== 'https') {
+      errors.push(
+        `deliveryRetryPolicy is only supported by https subscriptions, subscription ${subscription.endpoint} for the snsTopic named ${topicName}`,
+      );
+    }
+    if (subscription.filterPolicy) {
+      if (!fs.existsSync(path.join(configDir, subscription.filterPolicy))) {
+        errors.push(
+          `Filter policy file ${subscription.filterPolicy} for the snsTopic named ${topicName} not found !!!`,
+        );
+      } else {
+        try {
+          JSON.parse(fs.readFileSync(path.join(configDir, subscription.filterPolicy), 'utf8'));
+        } catch (e) {
+          errors.push(
+            `Filter policy file ${subscription.filterPolicy} for the snsTopic named ${topicName} is not valid JSON`,
+          );
         }
       }
     }
   }
 
+  /**
+   * Function to validate that the SNS topic key is deployed to every account and region the topic is deployed to
+   * @param values {@link GlobalConfig}
+   * @param accountsConfig {@link AccountsConfig}
+   * @param securityConfig {@link SecurityConfig}
+   * @param topicName string
+   * @param keyName string
+   * @param errors string[]
+   */
+  private validateSnsTopicKey(
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    securityConfig: SecurityConfig,
+    topicName: string,
+    keyName: string,
+    errors: string[],
+  ) {
+    const key = securityConfig.keyManagementService?.keySets.find(item => item.name === keyName);
+    if (!key) {
+      errors.push(
+        `KMS key ${keyName} for the snsTopic named ${topicName} is not defined in keyManagementService.keySets`,
+      );
+      return;
+    }
+
+    const snsTopicsDeploymentTargets = values.snsTopics!.deploymentTargets;
+    const topicEnvironments = [
+      ...CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(
+        accountsConfig,
+        snsTopicsDeploymentTargets,
+        values,
+      ),
+      ...CommonValidatorFunctions.getRegionsFromDeploymentTarget(snsTopicsDeploymentTargets, values).map(
+        region => `${accountsConfig.getLogArchiveAccount().name}-${region}`,
+      ),
+    ];
+    const keyEnvironments = CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(
+      accountsConfig,
+      key.deploymentTargets,
+      values,
+    );
+    if (!CommonValidatorFunctions.compareDeploymentEnvironments(topicEnvironments, keyEnvironments).match) {
+      errors.push(
+        `KMS key ${keyName} for the snsTopic named ${topicName} must be deployed to the Log Archive account and the snsTopics deployment targets`,
+      );
+    }
+  }
+
   private validateSessionManager(values: GlobalConfig, iamConfig: IamConfig, errors: string[]) {
     const iamRoleNames: string[] = [];
     for (const roleSet of iamConfig.roleSets) {
@@ -1100,6 +1634,13 @@ export class GlobalConfigValidator {
           `Control Tower controls can only be deployed to Organizational Units. Please remove all account deployment targets from ${control.identifier}`,
         );
       }
+
+      // Check deploymentTargets does not contain account selectors
+      if (control.deploymentTargets && CommonValidatorFunctions.hasSelectors(control.deploymentTargets)) {
+        errors.push(
+          `Control Tower controls can only be deployed to Organizational Units. Please remove accountTags, accountNamePattern and nestedOrganizationalUnits from ${control.identifier}`,
+        );
+      }
     }
   }
 
@@ -1119,13 +1660,177 @@ export class GlobalConfigValidator {
     }
   }
 
-  private validateAwsBackup(configDir: string, values: GlobalConfig, errors: string[]) {
+  private validateAwsBackup(
+    configDir: string,
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const snsTopicNames = values.snsTopics?.topics?.map(topic => topic.name) ?? [];
+    const snsTopicEnvironments = values.snsTopics
+      ? CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(
+          accountsConfig,
+          values.snsTopics.deploymentTargets,
+          values,
+        )
+      : [];
     for (const vault of values.backup?.vaults ?? []) {
       if (vault?.policy) {
         if (!fs.existsSync(path.join(configDir, vault.policy))) {
           errors.push(`Policy definition file for Backup Vault ${vault.name} not found !!!`);
         }
       }
+      this.validateBackupVaultLock(vault.name, vault.lock, errors);
+      if (vault.notifications && !snsTopicNames.includes(vault.notifications.snsTopic)) {
+        errors.push(
+          `Backup Vault ${vault.name} notifications SNS topic ${vault.notifications.snsTopic} is not defined in snsTopics.`,
+        );
+      } else if (
+        vault.notifications &&
+        !CommonValidatorFunctions.compareDeploymentEnvironments(
+          CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(accountsConfig, vault.deploymentTargets, values),
+          snsTopicEnvironments,
+        ).match
+      ) {
+        errors.push(
+          `Backup Vault ${vault.name} notifications require snsTopics deployment targets to include the Backup Vault deployment targets.`,
+        );
+      }
+    }
+
+    this.validateBackupPlans(values, accountsConfig, accountNames, errors);
+  }
+
+  /**
+   * Function to validate AWS Backup Vault Lock settings
+   * @param vaultName string
+   * @param lock {@link BackupVaultLockConfig}
+   * @param errors string[]
+   */
+  private validateBackupVaultLock(vaultName: string, lock: BackupVaultLockConfig | undefined, errors: string[]) {
+    if (!lock) {
+      return;
+    }
+    if (lock.mode === 'compliance' && lock.changeableForDays === undefined) {
+      errors.push(`Backup Vault ${vaultName} lock in compliance mode requires changeableForDays.`);
+    }
+    if (lock.mode === 'governance' && lock.changeableForDays !== undefined) {
+      errors.push(`Backup Vault ${vaultName} lock in governance mode cannot set changeableForDays.`);
+    }
+    if (lock.changeableForDays !== undefined && lock.changeableForDays < 3) {
+      errors.push(`Backup Vault ${vaultName} lock changeableForDays must be at least 3 days.`);
+    }
+    if (lock.maxRetentionDays !== undefined && lock.maxRetentionDays < lock.minRetentionDays) {
+      errors.push(`Backup Vault ${vaultName} lock maxRetentionDays must be greater than or equal to minRetentionDays.`);
+    }
+  }
+
+  /**
+   * Function to validate AWS Backup plans. Plans and copy actions must reference vaults
+   * that are deployed to the same accounts and regions.
+   * @param values {@link GlobalConfig}
+   * @param accountsConfig {@link AccountsConfig}
+   * @param accountNames string[]
+   * @param errors string[]
+   */
+  private validateBackupPlans(
+    values: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const vaultEnvironments = new Map<string, string[]>();
+    for (const vault of values.backup?.vaults ?? []) {
+      vaultEnvironments.set(
+        vault.name,
+        CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(accountsConfig, vault.deploymentTargets, values),
+      );
+    }
+
+    const planNames = (values.backup?.plans ?? []).map(plan => plan.name);
+    if (new Set(planNames).size !== planNames.length) {
+      errors.push(`Duplicate Backup plan names defined: ${planNames}`);
+    }
+
+    for (const plan of values.backup?.plans ?? []) {
+      const planEnvironments = CommonValidatorFunctions.getEnvironmentsFromDeploymentTarget(
+        accountsConfig,
+        plan.deploymentTargets,
+        values,
+      );
+      const planAccountNames = CommonValidatorFunctions.getAccountNamesFromDeploymentTargets(
+        accountsConfig,
+        plan.deploymentTargets,
+      );
+      const planRegions = CommonValidatorFunctions.getRegionsFromDeploymentTarget(plan.deploymentTargets, values);
+      const environments = vaultEnvironments.get(plan.vault);
+      if (!environments) {
+        errors.push(`Backup plan ${plan.name} references Backup Vault ${plan.vault} that is not defined.`);
+      } else if (!CommonValidatorFunctions.compareDeploymentEnvironments(planEnvironments, environments).match) {
+        errors.push(
+          `Backup plan ${plan.name} deployment targets must be a subset of Backup Vault ${plan.vault} deployment targets.`,
+        );
+      }
+
+      if (plan.selections.length === 0) {
+        errors.push(`Backup plan ${plan.name} must define at least one resource selection.`);
+      }
+      for (const selection of plan.selections) {
+        if ((selection.tags ?? []).length === 0 && (selection.resources ?? []).length === 0) {
+          errors.push(`Backup plan ${plan.name} selection ${selection.name} must define tags or resources.`);
+        }
+      }
+
+      for (const rule of plan.rules) {
+        this.validateBackupLifecycle(`Backup plan ${plan.name} rule ${rule.name}`, rule.lifecycle, errors);
+        for (const copyAction of rule.copyActions ?? []) {
+          const source = `Backup plan ${plan.name} rule ${rule.name} copy action to ${copyAction.vault}`;
+          this.validateBackupLifecycle(source, copyAction.lifecycle, errors);
+
+          if (copyAction.account && !accountNames.includes(copyAction.account)) {
+            errors.push(`${source} references account ${copyAction.account} that is not defined in accounts-config.`);
+            continue;
+          }
+          if (copyAction.region && !values.enabledRegions.includes(copyAction.region)) {
+            errors.push(`${source} references region ${copyAction.region} that is not enabled.`);
+            continue;
+          }
+
+          const copyEnvironments = vaultEnvironments.get(copyAction.vault);
+          if (!copyEnvironments) {
+            errors.push(`${source} references Backup Vault ${copyAction.vault} that is not defined.`);
+            continue;
+          }
+          const destinations: string[] = [];
+          for (const account of planAccountNames) {
+            for (const region of planRegions) {
+              destinations.push(`${copyAction.account ?? account}-${copyAction.region ?? region}`);
+            }
+          }
+          if (!CommonValidatorFunctions.compareDeploymentEnvironments(destinations, copyEnvironments).match) {
+            errors.push(
+              `${source} requires the destination vault to be deployed to the destination account and region.`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate AWS Backup lifecycle settings
+   * @param source string
+   * @param lifecycle {@link BackupLifecycleConfig}
+   * @param errors string[]
+   */
+  private validateBackupLifecycle(source: string, lifecycle: BackupLifecycleConfig | undefined, errors: string[]) {
+    if (
+      lifecycle?.moveToColdStorageAfterDays !== undefined &&
+      lifecycle.deleteAfterDays !== undefined &&
+      lifecycle.deleteAfterDays < lifecycle.moveToColdStorageAfterDays + 90
+    ) {
+      errors.push(`${source} deleteAfterDays must be at least 90 days greater than moveToColdStorageAfterDays.`);
     }
   }
 
@@ -1142,6 +1847,17 @@ export class GlobalConfigValidator {
     }
   }
 
+  /**
+   * Function to validate drift detection settings
+   * @param values
+   * @param errors
+   */
+  private validateDriftDetection(values: GlobalConfig, errors: string[]) {
+    if (values.acceleratorSettings?.failOnDrift && !values.acceleratorSettings.detectDrift) {
+      errors.push(`acceleratorSettings.failOnDrift requires acceleratorSettings.detectDrift to be enabled.`);
+    }
+  }
+
   /**
    * Function to validate Deployment targets account name for security services
    * @param values
@@ -96,6 +96,10 @@ export class IamConfigValidator {
 
     // Validate Managed active directory
     new ManagedActiveDirectoryValidator(values, vpcSubnetLists, ouIdNames, accountNames, errors);
+    //
+    // Validate deployment target selectors
+    //
+    CommonValidatorFunctions.validateDeploymentTargetSelectors(IamConfig.FILENAME, values, accountsConfig, errors);
 
     if (errors.length) {
       throw new Error(`${IamConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -32,6 +32,7 @@ import {
 } from '../../lib/network-config';
 import { NetworkValidatorFunctions } from './network-validator-functions';
 import * as cdk from 'aws-cdk-lib';
+import { IPv6CidrRange } from 'ip-num';
 
 /**
  * Class to validate Vpcs
@@ -333,6 +334,9 @@ export class VpcValidator {
       errors.push(
         `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} does not have a destination defined`,
       );
+    } else if (helpers.isValidIpv6Cidr(routeTableEntryItem.destination)) {
+      // Validate IPv6 destination
+      this.validateRouteEntryIpv6Destination(routeTableEntryItem, routeTableName, vpcItem, errors);
     } else {
       if (!helpers.isValidIpv4Cidr(routeTableEntryItem.destination)) {
         // Check if subnet exists in the VPC
@@ -351,6 +355,41 @@ export class VpcValidator {
     }
   }
 
+  /**
+   * Validate route entry IPv6 destination CIDR is supported by the route entry type
+   * @param routeTableEntryItem
+   * @param routeTableName
+   * @param vpcItem
+   * @param errors
+   */
+  private validateRouteEntryIpv6Destination(
+    routeTableEntryItem: RouteTableEntryConfig,
+    routeTableName: string,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    errors: string[],
+  ) {
+    if (
+      ![
+        'egressOnlyIgw',
+        'internetGateway',
+        'localGateway',
+        'natGateway',
+        'transitGateway',
+        'virtualPrivateGateway',
+      ].includes(routeTableEntryItem.type!)
+    ) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} destination "${routeTableEntryItem.destination}" is not valid. Route entry type ${routeTableEntryItem.type} does not support IPv6 destinations`,
+      );
+    }
+    // NAT gateways only support IPv6 destinations for NAT64
+    if (routeTableEntryItem.type === 'natGateway' && routeTableEntryItem.destination !== '64:ff9b::/96') {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} destination "${routeTableEntryItem.destination}" is not valid. NAT gateway IPv6 routes must use the NAT64 destination 64:ff9b::/96`,
+      );
+    }
+  }
+
   /**
    * Validate IGW routes are associated with a VPC with an IGW attached
    * @param routeTableEntryItem
@@ -370,6 +409,33 @@ export class VpcValidator {
     }
   }
 
+  /**
+   * Validate egress-only IGW routes are associated with a VPC with an egress-only IGW attached
+   * @param routeTableEntryItem
+   * @param routeTableName
+   * @param vpcItem
+   * @param helpers
+   * @param errors
+   */
+  private validateEigwRouteEntry(
+    routeTableEntryItem: RouteTableEntryConfig,
+    routeTableName: string,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    if (!vpcItem.egressOnlyIgw) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} is targeting an egress-only IGW, but no egress-only IGW is attached to the VPC`,
+      );
+    }
+    if (routeTableEntryItem.destination && !helpers.isValidIpv6Cidr(routeTableEntryItem.destination)) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} destination "${routeTableEntryItem.destination}" is not valid. Egress-only IGW routes must use an IPv6 CIDR destination`,
+      );
+    }
+  }
+
   /**
    * Validate VGW routes are associated with a VPC with an Virtual Private Gateway attached
    * @param routeTableEntryItem
@@ -652,6 +718,11 @@ export class VpcValidator {
           this.validateIgwRouteEntry(entry, routeTableItem.name, vpcItem, errors);
         }
 
+        // Validate egress-only IGW route
+        if (entry.type && entry.type === 'egressOnlyIgw') {
+          this.validateEigwRouteEntry(entry, routeTableItem.name, vpcItem, helpers, errors);
+        }
+
         // Validate VGW route
         if (entry.type && entry.type === 'virtualPrivateGateway') {
           this.validateVgwRouteEntry(entry, routeTableItem.name, vpcItem, errors);
@@ -830,6 +901,62 @@ export class VpcValidator {
     });
   }
 
+  /**
+   * Validate VPC IPv6 CIDR blocks
+   * @param vpcItem
+   * @param values
+   * @param helpers
+   * @param errors
+   */
+  private validateVpcIpv6Cidrs(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    values: NetworkConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    vpcItem.ipv6Cidrs?.forEach((ipv6Cidr, index) => {
+      // Validate exactly one allocation method is defined
+      const methods = [ipv6Cidr.amazonProvided, ipv6Cidr.cidrBlock, ipv6Cidr.ipamAllocation].filter(item => !!item);
+      if (methods.length !== 1) {
+        errors.push(
+          `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: must define exactly one of amazonProvided, cidrBlock, or ipamAllocation properties`,
+        );
+      }
+      // Validate BYOIP configuration
+      if (ipv6Cidr.cidrBlock && !helpers.isValidIpv6Cidr(ipv6Cidr.cidrBlock)) {
+        errors.push(
+          `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: CIDR "${ipv6Cidr.cidrBlock}" is invalid. Value must be a valid IPv6 CIDR range`,
+        );
+      }
+      if (!!ipv6Cidr.cidrBlock !== !!ipv6Cidr.byoipPoolId) {
+        errors.push(
+          `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: cidrBlock and byoipPoolId properties must be defined together`,
+        );
+      }
+      // Validate IPAM configuration
+      if (ipv6Cidr.ipamAllocation) {
+        const ipamPool = values.centralNetworkServices?.ipams
+          ?.flatMap(ipam => ipam.pools ?? [])
+          .find(pool => pool.name === ipv6Cidr.ipamAllocation!.ipamPoolName);
+        if (!ipamPool) {
+          errors.push(
+            `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: target IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName} is not defined`,
+          );
+        } else if (ipamPool.addressFamily !== 'ipv6') {
+          errors.push(
+            `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: target IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName} must have an addressFamily of ipv6`,
+          );
+        }
+        const netmaskLength = ipv6Cidr.ipamAllocation.netmaskLength;
+        if (netmaskLength < 44 || netmaskLength > 60 || netmaskLength % 4 !== 0) {
+          errors.push(
+            `[VPC ${vpcItem.name} ipv6Cidrs item ${index}]: netmaskLength must be a multiple of 4 between 44 and 60`,
+          );
+        }
+      }
+    });
+  }
+
   /**
    * Function to validate conditional dependencies for Outpost and Local Gateway configurations.
    * @param values
@@ -886,6 +1013,10 @@ export class VpcValidator {
         //
         this.validateIpamAllocations(vpcItem, values, errors);
         //
+        // Validate IPv6 CIDRs
+        //
+        this.validateVpcIpv6Cidrs(vpcItem, values, helpers, errors);
+        //
         // Validate NAT gateways
         //
         this.validateNatGateways(vpcItem, helpers, errors);
@@ -1446,9 +1577,9 @@ export class VpcValidator {
       nacl.inboundRules?.forEach(inbound => {
         if (typeof inbound.source === 'string') {
           // Validate CIDR source
-          if (!helpers.isValidIpv4Cidr(inbound.source)) {
+          if (!helpers.isValidIpv4Cidr(inbound.source) && !helpers.isValidIpv6Cidr(inbound.source)) {
             errors.push(
-              `[VPC ${vpcItem.name} NACL ${nacl.name} inbound rule ${inbound.rule}]: source "${inbound.source}" is invalid. Source must be a valid IPv4 CIDR or subnet selection`,
+              `[VPC ${vpcItem.name} NACL ${nacl.name} inbound rule ${inbound.rule}]: source "${inbound.source}" is invalid. Source must be a valid IPv4 CIDR, IPv6 CIDR, or subnet selection`,
             );
           }
         }
@@ -1457,9 +1588,9 @@ export class VpcValidator {
       nacl.outboundRules?.forEach(outbound => {
         if (typeof outbound.destination === 'string') {
           // Validate CIDR source
-          if (!helpers.isValidIpv4Cidr(outbound.destination)) {
+          if (!helpers.isValidIpv4Cidr(outbound.destination) && !helpers.isValidIpv6Cidr(outbound.destination)) {
             errors.push(
-              `[VPC ${vpcItem.name} NACL ${nacl.name} outbound rule ${outbound.rule}]: destination "${outbound.destination}" is invalid. Destination must be a valid IPv4 CIDR or subnet selection`,
+              `[VPC ${vpcItem.name} NACL ${nacl.name} outbound rule ${outbound.rule}]: destination "${outbound.destination}" is invalid. Destination must be a valid IPv4 CIDR, IPv6 CIDR, or subnet selection`,
             );
           }
         }
@@ -1489,10 +1620,15 @@ export class VpcValidator {
             );
           } else {
             // Validate subnet
-            if (!helpers.getSubnet(vpc, inbound.source.subnet)) {
+            const subnetItem = helpers.getSubnet(vpc, inbound.source.subnet);
+            if (!subnetItem) {
               errors.push(
                 `[VPC ${vpcItem.name} NACL ${nacl.name} inbound rule ${inbound.rule}]: subnet "${inbound.source.subnet}" does not exist in source VPC "${inbound.source.vpc}"`,
               );
+            } else if (inbound.source.ipv6 && !subnetItem.ipv6CidrBlock) {
+              errors.push(
+                `[VPC ${vpcItem.name} NACL ${nacl.name} inbound rule ${inbound.rule}]: subnet "${inbound.source.subnet}" in source VPC "${inbound.source.vpc}" does not have an ipv6CidrBlock defined`,
+              );
             }
             // Validate account target
             const vpcAccountNames = helpers.getVpcAccountNames(vpc);
@@ -1540,10 +1676,15 @@ export class VpcValidator {
             );
           } else {
             // Validate subnet
-            if (!helpers.getSubnet(vpc, outbound.destination.subnet)) {
+            const subnetItem = helpers.getSubnet(vpc, outbound.destination.subnet);
+            if (!subnetItem) {
               errors.push(
                 `[VPC ${vpcItem.name} NACL ${nacl.name} outbound rule ${outbound.rule}]: subnet "${outbound.destination.subnet}" does not exist in destination VPC "${outbound.destination.vpc}"`,
               );
+            } else if (outbound.destination.ipv6 && !subnetItem.ipv6CidrBlock) {
+              errors.push(
+                `[VPC ${vpcItem.name} NACL ${nacl.name} outbound rule ${outbound.rule}]: subnet "${outbound.destination.subnet}" in destination VPC "${outbound.destination.vpc}" does not have an ipv6CidrBlock defined`,
+              );
             }
             // Validate account target
             const vpcAccountNames = helpers.getVpcAccountNames(vpc);
@@ -1935,9 +2076,9 @@ export class VpcValidator {
         // Validate inbound sources
         inbound.sources.forEach(inboundSource => {
           if (typeof inboundSource === 'string') {
-            if (!helpers.isValidIpv4Cidr(inboundSource)) {
+            if (!helpers.isValidIpv4Cidr(inboundSource) && !helpers.isValidIpv6Cidr(inboundSource)) {
               errors.push(
-                `[VPC ${vpcItem.name} security group ${group.name}]: inbound rule source "${inboundSource}" is invalid. Value must be a valid IPv4 CIDR, subnet reference, security group reference, or prefix list reference`,
+                `[VPC ${vpcItem.name} security group ${group.name}]: inbound rule source "${inboundSource}" is invalid. Value must be a valid IPv4 CIDR, IPv6 CIDR, subnet reference, security group reference, or prefix list reference`,
               );
             }
           }
@@ -1947,9 +2088,9 @@ export class VpcValidator {
       group.outboundRules.forEach(outbound => {
         outbound.sources.forEach(outboundSource => {
           if (typeof outboundSource === 'string') {
-            if (!helpers.isValidIpv4Cidr(outboundSource)) {
+            if (!helpers.isValidIpv4Cidr(outboundSource) && !helpers.isValidIpv6Cidr(outboundSource)) {
               errors.push(
-                `[VPC ${vpcItem.name} security group ${group.name}]: outbound rule source "${outboundSource}" is invalid. Value must be a valid IPv4 CIDR, subnet reference, security group reference, or prefix list reference`,
+                `[VPC ${vpcItem.name} security group ${group.name}]: outbound rule source "${outboundSource}" is invalid. Value must be a valid IPv4 CIDR, IPv6 CIDR, subnet reference, security group reference, or prefix list reference`,
               );
             }
           }
@@ -1988,6 +2129,12 @@ export class VpcValidator {
                     `[VPC ${vpcItem.name} security group ${group.name}]: subnet "${subnet}" does not exist in source VPC "${source.vpc}"`,
                   );
                 } else {
+                  // Check IPv6 subnet source condition
+                  if (source.ipv6 && !subnetItem.ipv6CidrBlock) {
+                    errors.push(
+                      `[VPC ${vpcItem.name} security group ${group.name}]: subnet "${subnet}" in source VPC "${source.vpc}" does not have an ipv6CidrBlock defined`,
+                    );
+                  }
                   // Check cross-account IPAM subnet condition
                   const sourceVpcAccountNames = helpers.getVpcAccountNames(vpcItem);
                   if (
@@ -2045,6 +2192,12 @@ export class VpcValidator {
                     `[VPC ${vpcItem.name} security group ${group.name}]: subnet "${subnet}" does not exist in source VPC "${source.vpc}"`,
                   );
                 } else {
+                  // Check IPv6 subnet source condition
+                  if (source.ipv6 && !subnetItem.ipv6CidrBlock) {
+                    errors.push(
+                      `[VPC ${vpcItem.name} security group ${group.name}]: subnet "${subnet}" in source VPC "${source.vpc}" does not have an ipv6CidrBlock defined`,
+                    );
+                  }
                   // Check cross-account IPAM subnet condition
                   const sourceVpcAccountNames = helpers.getVpcAccountNames(vpcItem);
                   if (
@@ -2393,11 +2546,27 @@ export class VpcValidator {
           `[VPC ${vpcItem.name} subnet ${subnet.name}]: cannot define both ipv4CidrBlock and ipamAllocation properties`,
         );
       }
-      if (!subnet.ipv4CidrBlock && !subnet.ipamAllocation) {
+      if (!subnet.ipv4CidrBlock && !subnet.ipamAllocation && !subnet.ipv6Only) {
         errors.push(
           `[VPC ${vpcItem.name} subnet ${subnet.name}]: must define either ipv4CidrBlock or ipamAllocation property`,
         );
       }
+      // Validate IPv6 properties
+      if (subnet.ipv6Only && (subnet.ipv4CidrBlock || subnet.ipamAllocation)) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6Only subnets cannot define ipv4CidrBlock or ipamAllocation properties`,
+        );
+      }
+      if (subnet.ipv6CidrBlock && subnet.ipamAllocation) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: cannot define both ipv6CidrBlock and ipamAllocation properties`,
+        );
+      }
+      if (!subnet.ipv6CidrBlock && (subnet.ipv6Only || subnet.assignIpv6OnCreation || subnet.enableDns64)) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6CidrBlock must be defined when using ipv6Only, assignIpv6OnCreation, or enableDns64 properties`,
+        );
+      }
       // Validate an AZ is assigned
       if (subnet.availabilityZone && subnet.outpost) {
         errors.push(
@@ -2438,9 +2607,60 @@ export class VpcValidator {
           );
         }
       }
+      if (subnet.ipv6CidrBlock) {
+        this.validateSubnetIpv6Cidr(vpcItem, subnet, helpers, errors);
+      }
     });
   }
 
+  /**
+   * Validate subnet IPv6 CIDR
+   * @param vpcItem
+   * @param subnet
+   * @param helpers
+   * @param errors
+   */
+  private validateSubnetIpv6Cidr(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    subnet: SubnetConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    if (!helpers.isValidIpv6Cidr(subnet.ipv6CidrBlock!) || subnet.ipv6CidrBlock!.split('/')[1] !== '64') {
+      errors.push(
+        `[VPC ${vpcItem.name} subnet ${subnet.name}]: CIDR "${subnet.ipv6CidrBlock}" is invalid. Value must be a valid /64 IPv6 CIDR range`,
+      );
+      return;
+    }
+    if (!vpcItem.ipv6Cidrs || vpcItem.ipv6Cidrs.length === 0) {
+      errors.push(
+        `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6CidrBlock is defined, but the VPC does not define any ipv6Cidrs`,
+      );
+      return;
+    }
+    // Subnet IPv6 CIDRs are static, so they cannot fit the different ranges of VPCs deployed by a template
+    if (!NetworkConfigTypes.vpcConfig.is(vpcItem) && helpers.getVpcAccountNames(vpcItem).length > 1) {
+      errors.push(
+        `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6CidrBlock is not supported for VPC templates deployed to more than one account. Only static subnet IPv6 CIDRs are supported and each VPC is assigned a different IPv6 range`,
+      );
+    }
+    // Subnet IPv6 CIDRs are static, so they must be allocated from a static VPC IPv6 CIDR
+    const vpcCidrs = vpcItem.ipv6Cidrs
+      .map(item => item.cidrBlock)
+      .filter(cidr => cidr && helpers.isValidIpv6Cidr(cidr)) as string[];
+    if (vpcCidrs.length === 0) {
+      errors.push(
+        `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6CidrBlock requires a static cidrBlock in the VPC ipv6Cidrs. Subnet IPv6 CIDRs cannot be allocated from amazonProvided or ipamAllocation VPC ranges`,
+      );
+      return;
+    }
+    if (!vpcCidrs.some(cidr => IPv6CidrRange.fromCidr(cidr).contains(IPv6CidrRange.fromCidr(subnet.ipv6CidrBlock!)))) {
+      errors.push(
+        `[VPC ${vpcItem.name} subnet ${subnet.name}]: CIDR "${subnet.ipv6CidrBlock}" is not within any of the VPC ipv6Cidrs static cidrBlock values`,
+      );
+    }
+  }
+
   /**
    * Validate subnet route table associations
    * @param vpcItem
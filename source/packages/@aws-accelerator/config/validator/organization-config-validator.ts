@@ -34,9 +34,18 @@ export class OrganizationConfigValidator {
     // Validate presence of backup policy file
     this.validateBackupPolicyFile(configDir, values, errors);
 
+    // Validate presence and content of AI services opt-out, resource control, chatbot and declarative policy files
+    this.validatePolicyFiles(configDir, values.aiServicesOptOutPolicies ?? [], 'AI services opt-out', errors);
+    this.validatePolicyFiles(configDir, values.resourceControlPolicies ?? [], 'resource control', errors);
+    this.validatePolicyFiles(configDir, values.chatbotPolicies ?? [], 'chatbot', errors);
+    this.validatePolicyFiles(configDir, values.declarativePolicies ?? [], 'declarative', errors);
+
     // Validate definition of static parameter in policy file
     this.validateSCPParameters(configDir, values, replacementsConfig, errors);
 
+    // Validate OU ids and previous names used to rename or move OUs
+    this.validateOrganizationalUnitLifecycle(values, errors);
+
     if (errors.length) {
       throw new Error(`${OrganizationConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
     }
@@ -124,6 +133,76 @@ export class OrganizationConfigValidator {
     }
   }
 
+  /**
+   * Function to validate policy file existence and JSON content
+   * @param configDir
+   * @param policies
+   * @param policyType
+   * @param errors
+   */
+  private validatePolicyFiles(
+    configDir: string,
+    policies: { name: string; policy: string }[],
+    policyType: string,
+    errors: string[],
+  ) {
+    for (const policy of policies) {
+      const policyPath = path.join(configDir, policy.policy);
+      if (!fs.existsSync(policyPath)) {
+        errors.push(`Invalid policy file ${policy.policy} for ${policyType} policy ${policy.name} !!!`);
+        continue;
+      }
+
+      try {
+        JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+      } catch (e) {
+        errors.push(`Policy file ${policy.policy} for ${policyType} policy ${policy.name} is not valid JSON: ${e}`);
+      }
+    }
+  }
+
+  /**
+   * Function to validate OU ids and previous names used to rename or move OUs
+   * @param values
+   * @param errors
+   */
+  private validateOrganizationalUnitLifecycle(values: OrganizationConfig, errors: string[]) {
+    const ouNames = values.organizationalUnits.map(ou => ou.name);
+    const ouIds: string[] = [];
+    const previousNames: string[] = [];
+
+    for (const ou of values.organizationalUnits) {
+      const parentName = ou.name.split('/').slice(0, -1).join('/');
+      if (parentName && !ouNames.includes(parentName)) {
+        errors.push(`Organizational unit ${ou.name} parent ${parentName} does not exist in the organizational units.`);
+      }
+
+      if (ou.id) {
+        if (!/^ou-[0-9a-z]{4,32}-[a-z0-9]{8,32}$/.test(ou.id)) {
+          errors.push(`Organizational unit ${ou.name} id ${ou.id} is not a valid organizational unit id.`);
+        }
+        if (ouIds.includes(ou.id)) {
+          errors.push(`Organizational unit id ${ou.id} is configured for more than one organizational unit.`);
+        }
+        ouIds.push(ou.id);
+      }
+
+      if (ou.previousName) {
+        if (ouNames.includes(ou.previousName)) {
+          errors.push(
+            `Organizational unit ${ou.name} previous name ${ou.previousName} is the name of an organizational unit in the configuration.`,
+          );
+        }
+        if (previousNames.includes(ou.previousName)) {
+          errors.push(
+            `Organizational unit previous name ${ou.previousName} is configured for more than one organizational unit.`,
+          );
+        }
+        previousNames.push(ou.previousName);
+      }
+    }
+  }
+
   /**
    * Function to validate if static parameter in policy file is defined in replacements config
    * @param configDir
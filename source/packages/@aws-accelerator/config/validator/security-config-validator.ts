@@ -89,6 +89,18 @@ export class SecurityConfigValidator {
     this.macieLifecycleRules(values, errors);
     this.guarddutyLifecycleRules(values, errors);
 
+    //
+    // Validate GuardDuty protection plans
+    this.validateGuardDutyProtectionPlans(values, errors);
+
+    //
+    // Validate Inspector configuration
+    this.validateInspectorConfiguration(values, errors);
+
+    //
+    // Validate SNS subscriptions
+    this.validateSnsSubscriptions(values, errors);
+
     //
     // Validate Config rule assets
     for (const ruleSet of values.awsConfig.ruleSets ?? []) {
@@ -99,11 +111,22 @@ export class SecurityConfigValidator {
     }
     this.validateConfigRuleNames(values.awsConfig, accountsConfig, globalConfig, errors);
     //
+    // Validate Config conformance packs
+    this.validateConformancePacks(configDir, values, ouIdNames, accountNames, errors);
+    //
+    // Validate Config recorder settings
+    this.validateConfigRecorderSettings(values, ouIdNames, accountNames, errors);
+    //
     // Validate SNS Topics for CloudWatch Alarms
     const snsTopicNames = this.getSnsTopicNames(globalConfig);
     for (const alarm of values.cloudWatch.alarmSets ?? []) {
       this.validateSnsTopics(globalConfig, alarm, snsTopicNames, errors);
     }
+    //
+    // Validate CloudWatch alarm metrics, anomaly detection and composite alarms
+    this.validateCloudWatchAlarms(values, errors);
+    this.validateCloudWatchCompositeAlarms(values, snsTopicNames, errors);
+    this.validateCloudWatchAlarmSnsTopicTargets(values, globalConfig, accountsConfig, errors);
 
     this.validateSecurityHubNotifications(
       snsTopicNames,
@@ -112,6 +135,15 @@ export class SecurityConfigValidator {
       errors,
     );
 
+    //
+    // Validate Security Hub automation rules and central configuration
+    this.validateSecurityHubAutomationRules(values, errors);
+    this.validateSecurityHubConfigurationPolicies(values, ouIdNames, accountNames, errors);
+    this.validateSecurityHubControlParameters(values, errors);
+    //
+    // Validate Access Analyzer analyzers and archive rules
+    this.validateAccessAnalyzer(values, globalConfig, errors);
+
     this.validateAwsConfigAggregation(globalConfig, accountNames, values, errors);
 
     this.validateAwsCloudWatchLogGroups(values, errors);
@@ -120,6 +152,10 @@ export class SecurityConfigValidator {
     this.validateResourcePolicyParameters(configDir, values, replacementsConfig, errors);
 
     this.validateConfigRuleCmkDependency(values, globalConfig, accountsConfig, errors);
+    //
+    // Validate deployment target selectors
+    //
+    CommonValidatorFunctions.validateDeploymentTargetSelectors(SecurityConfig.FILENAME, values, accountsConfig, errors);
 
     if (errors.length) {
       throw new Error(`${SecurityConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -159,6 +195,258 @@ export class SecurityConfigValidator {
     return accountNames;
   }
 
+  /**
+   * Validate CloudWatch alarm metrics, metric math expressions and anomaly detection bands
+   * @param values
+   * @param errors
+   */
+  private validateCloudWatchAlarms(values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>, errors: string[]) {
+    const bandComparisonOperators = [
+      'LessThanLowerOrGreaterThanUpperThreshold',
+      'GreaterThanUpperThreshold',
+      'LessThanLowerThreshold',
+    ];
+
+    for (const alarmSet of values.cloudWatch.alarmSets ?? []) {
+      const alarmNames = [
+        ...alarmSet.alarms.map(alarm => alarm.alarmName),
+        ...(alarmSet.compositeAlarms ?? []).map(alarm => alarm.alarmName),
+      ];
+      if (this.hasDuplicates(alarmNames)) {
+        errors.push(`CloudWatch alarm set has duplicate alarm names. Alarm names must be unique.`);
+      }
+
+      for (const alarm of alarmSet.alarms) {
+        if ((alarm.metricName && alarm.metrics) || (!alarm.metricName && !alarm.metrics)) {
+          errors.push(`Alarm: ${alarm.alarmName} must define exactly one of metricName or metrics.`);
+        }
+        if (alarm.metricName && (!alarm.namespace || !alarm.statistic)) {
+          errors.push(`Alarm: ${alarm.alarmName} must define namespace and statistic with metricName.`);
+        }
+        if (alarm.metrics && (alarm.namespace || alarm.statistic || alarm.dimensions)) {
+          errors.push(
+            `Alarm: ${alarm.alarmName} namespace, statistic and dimensions must be defined on the metrics entries when metrics is defined.`,
+          );
+        }
+
+        const metricIds = (alarm.metrics ?? []).map(metric => metric.id);
+        if (alarm.metrics) {
+          this.validateCloudWatchAlarmMetrics(alarm.alarmName, alarm.metrics, errors);
+        }
+
+        if (alarm.anomalyDetection) {
+          if (alarm.threshold !== undefined) {
+            errors.push(`Alarm: ${alarm.alarmName} cannot define both threshold and anomalyDetection.`);
+          }
+          if (!bandComparisonOperators.includes(alarm.comparisonOperator)) {
+            errors.push(
+              `Alarm: ${alarm.alarmName} comparisonOperator must be one of ${bandComparisonOperators.join(
+                ', ',
+              )} with anomalyDetection.`,
+            );
+          }
+          if (alarm.anomalyDetection.bandWidth <= 0) {
+            errors.push(`Alarm: ${alarm.alarmName} anomalyDetection bandWidth must be greater than 0.`);
+          }
+          if (alarm.anomalyDetection.metricId && !metricIds.includes(alarm.anomalyDetection.metricId)) {
+            errors.push(
+              `Alarm: ${alarm.alarmName} anomalyDetection metricId ${alarm.anomalyDetection.metricId} is not defined in metrics.`,
+            );
+          }
+        } else if (alarm.threshold === undefined) {
+          errors.push(`Alarm: ${alarm.alarmName} must define threshold unless anomalyDetection is defined.`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate CloudWatch alarm metrics and metric math expressions
+   * @param alarmName
+   * @param metrics
+   * @param errors
+   */
+  private validateCloudWatchAlarmMetrics(
+    alarmName: string,
+    metrics: t.TypeOf<typeof SecurityConfigTypes.alarmMetricConfig>[],
+    errors: string[],
+  ) {
+    if (metrics.length === 0) {
+      errors.push(`Alarm: ${alarmName} metrics must define at least one metric.`);
+      return;
+    }
+    if (this.hasDuplicates(metrics.map(metric => metric.id))) {
+      errors.push(`Alarm: ${alarmName} metrics have duplicate ids.`);
+    }
+    for (const metric of metrics) {
+      if (!/^[a-z][a-zA-Z0-9_]*$/.test(metric.id)) {
+        errors.push(
+          `Alarm: ${alarmName} metric id ${metric.id} must start with a lowercase letter and contain only letters, numbers and underscores.`,
+        );
+      }
+      if ((metric.metricName && metric.expression) || (!metric.metricName && !metric.expression)) {
+        errors.push(`Alarm: ${alarmName} metric ${metric.id} must define exactly one of metricName or expression.`);
+      }
+      if (metric.metricName && (!metric.namespace || !metric.statistic)) {
+        errors.push(`Alarm: ${alarmName} metric ${metric.id} must define namespace and statistic with metricName.`);
+      }
+      if (metric.expression && (metric.namespace || metric.statistic || metric.dimensions)) {
+        errors.push(
+          `Alarm: ${alarmName} metric ${metric.id} namespace, statistic and dimensions are not supported with expression.`,
+        );
+      }
+    }
+    if (metrics.filter(metric => metric.returnData === true).length > 1) {
+      errors.push(`Alarm: ${alarmName} metrics must have only one entry with returnData set to true.`);
+    }
+  }
+
+  /**
+   * Validate CloudWatch composite alarms and their child alarms.
+   * Child alarms must be defined in the same alarm set, or in an alarm set with the same deployment targets and regions.
+   * @param values
+   * @param snsTopicNames
+   * @param errors
+   */
+  private validateCloudWatchCompositeAlarms(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    snsTopicNames: string[],
+    errors: string[],
+  ) {
+    const alarmSets = values.cloudWatch.alarmSets ?? [];
+    const compositeChildAlarmNames = new Map<string, string[]>(
+      alarmSets
+        .flatMap(alarmSet => alarmSet.compositeAlarms ?? [])
+        .map(compositeAlarm => [compositeAlarm.alarmName, compositeAlarm.alarmRules.map(rule => rule.alarmName)]),
+    );
+
+    for (const alarmSet of alarmSets) {
+      const childAlarmNames = alarmSets
+        .filter(
+          item =>
+            item === alarmSet ||
+            (JSON.stringify(item.deploymentTargets) === JSON.stringify(alarmSet.deploymentTargets) &&
+              (alarmSet.regions ?? []).every(region => (item.regions ?? []).includes(region))),
+        )
+        .flatMap(item => [
+          ...item.alarms.map(alarm => alarm.alarmName),
+          ...(item.compositeAlarms ?? []).map(alarm => alarm.alarmName),
+        ]);
+
+      for (const compositeAlarm of alarmSet.compositeAlarms ?? []) {
+        if (compositeAlarm.alarmRules.length === 0) {
+          errors.push(`Composite alarm: ${compositeAlarm.alarmName} must define at least one alarm rule.`);
+        }
+        if (this.hasCyclicCompositeAlarmReference(compositeAlarm.alarmName, compositeChildAlarmNames)) {
+          errors.push(`Composite alarm: ${compositeAlarm.alarmName} references itself through its child alarms.`);
+        }
+        for (const alarmRule of compositeAlarm.alarmRules) {
+          if (alarmRule.alarmName === compositeAlarm.alarmName) {
+            errors.push(`Composite alarm: ${compositeAlarm.alarmName} cannot reference itself.`);
+          } else if (!childAlarmNames.includes(alarmRule.alarmName)) {
+            errors.push(
+              `Composite alarm: ${compositeAlarm.alarmName} child alarm ${alarmRule.alarmName} is not defined in an alarm set with the same deployment targets and regions.`,
+            );
+          }
+        }
+        if (compositeAlarm.snsTopicName && !snsTopicNames.includes(compositeAlarm.snsTopicName)) {
+          errors.push(
+            `Composite alarm: ${compositeAlarm.alarmName} is configured to use snsTopicName ${compositeAlarm.snsTopicName} and the topic is not configured in the global config.`,
+          );
+        }
+        if (!compositeAlarm.snsTopicName && (compositeAlarm.okActions || compositeAlarm.insufficientDataActions)) {
+          errors.push(
+            `Composite alarm: ${compositeAlarm.alarmName} must define snsTopicName to use okActions or insufficientDataActions.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether a composite alarm references itself through the composite alarms among its child alarms
+   * @param alarmName
+   * @param compositeChildAlarmNames
+   * @returns
+   */
+  private hasCyclicCompositeAlarmReference(
+    alarmName: string,
+    compositeChildAlarmNames: Map<string, string[]>,
+  ): boolean {
+    const visitedAlarmNames: string[] = [];
+    const pendingAlarmNames = (compositeChildAlarmNames.get(alarmName) ?? []).filter(name => name !== alarmName);
+    while (pendingAlarmNames.length > 0) {
+      const childAlarmName = pendingAlarmNames.pop()!;
+      if (childAlarmName === alarmName) {
+        return true;
+      }
+      if (visitedAlarmNames.includes(childAlarmName)) {
+        continue;
+      }
+      visitedAlarmNames.push(childAlarmName);
+      pendingAlarmNames.push(...(compositeChildAlarmNames.get(childAlarmName) ?? []));
+    }
+    return false;
+  }
+
+  /**
+   * Validate that the SNS topics referenced by CloudWatch alarms are deployed to the alarm set deployment targets
+   * and regions
+   * @param values
+   * @param globalConfig
+   * @param accountsConfig
+   * @param errors
+   */
+  private validateCloudWatchAlarmSnsTopicTargets(
+    values: SecurityConfig,
+    globalConfig: GlobalConfig,
+    accountsConfig: AccountsConfig,
+    errors: string[],
+  ) {
+    if (!globalConfig.snsTopics) {
+      return;
+    }
+    const topicDeploymentTargets = globalConfig.snsTopics.deploymentTargets;
+    // SNS topics are always deployed to the Log Archive account
+    const topicAccountNames = [
+      accountsConfig.getLogArchiveAccount().name,
+      ...CommonValidatorFunctions.getAccountNamesFromDeploymentTargets(accountsConfig, topicDeploymentTargets),
+    ];
+
+    for (const alarmSet of values.cloudWatch.alarmSets ?? []) {
+      const alarmNames = [...alarmSet.alarms, ...(alarmSet.compositeAlarms ?? [])]
+        .filter(alarm => alarm.snsTopicName)
+        .map(alarm => alarm.alarmName);
+      if (alarmNames.length === 0) {
+        continue;
+      }
+      const missingAccountNames = CommonValidatorFunctions.getAccountNamesFromDeploymentTargets(
+        accountsConfig,
+        alarmSet.deploymentTargets,
+      ).filter(accountName => !topicAccountNames.includes(accountName));
+      if (missingAccountNames.length > 0) {
+        errors.push(
+          `Alarms: ${alarmNames.join(
+            ', ',
+          )} use snsTopicName but the global config snsTopics are not deployed to accounts ${missingAccountNames.join(
+            ', ',
+          )}.`,
+        );
+      }
+
+      const excludedRegions = (topicDeploymentTargets.excludedRegions ?? []).filter(region =>
+        (alarmSet.regions ?? []).includes(region),
+      );
+      if (excludedRegions.length > 0) {
+        errors.push(
+          `Alarms: ${alarmNames.join(
+            ', ',
+          )} use snsTopicName but the global config snsTopics are excluded from regions ${excludedRegions.join(', ')}.`,
+        );
+      }
+    }
+  }
+
   /**
    * Prepare list of SNS Topic names from the global config file
    * @param configDir
@@ -199,6 +487,341 @@ export class SecurityConfigValidator {
     }
   }
 
+  /**
+   * Validate GuardDuty protection plans and finding publishing frequency
+   * @param values
+   * @param errors
+   */
+  private validateGuardDutyProtectionPlans(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    errors: string[],
+  ) {
+    const guardDutyConfig = values.centralSecurityServices.guardduty;
+    const protectionPlans = {
+      s3Protection: guardDutyConfig.s3Protection,
+      eksProtection: guardDutyConfig.eksProtection,
+      malwareProtection: guardDutyConfig.malwareProtection,
+      rdsProtection: guardDutyConfig.rdsProtection,
+      lambdaProtection: guardDutyConfig.lambdaProtection,
+      runtimeMonitoring: guardDutyConfig.runtimeMonitoring,
+    };
+
+    for (const [name, protectionPlan] of Object.entries(protectionPlans)) {
+      if (
+        protectionPlan &&
+        !protectionPlan.enable &&
+        protectionPlan.autoEnable &&
+        protectionPlan.autoEnable !== 'NONE'
+      ) {
+        errors.push(
+          `GuardDuty ${name} autoEnable is set to ${protectionPlan.autoEnable} but the protection plan is not enabled. Set autoEnable to NONE or enable the protection plan.`,
+        );
+      }
+    }
+
+    const runtimeMonitoring = guardDutyConfig.runtimeMonitoring;
+    if (
+      runtimeMonitoring &&
+      !runtimeMonitoring.enable &&
+      (runtimeMonitoring.eksAddonManagement ||
+        runtimeMonitoring.ecsFargateAgentManagement ||
+        runtimeMonitoring.ec2AgentManagement)
+    ) {
+      errors.push('GuardDuty runtimeMonitoring must be enabled to configure automated agent management.');
+    }
+
+    if (
+      guardDutyConfig.findingPublishingFrequency &&
+      guardDutyConfig.exportConfiguration.enable &&
+      guardDutyConfig.exportConfiguration.overrideExisting &&
+      guardDutyConfig.findingPublishingFrequency !== guardDutyConfig.exportConfiguration.exportFrequency
+    ) {
+      errors.push(
+        `GuardDuty findingPublishingFrequency ${guardDutyConfig.findingPublishingFrequency} conflicts with exportConfiguration exportFrequency ${guardDutyConfig.exportConfiguration.exportFrequency}.`,
+      );
+    }
+  }
+
+  /**
+   * Validate Security Hub automation rules
+   * @param values
+   * @param errors
+   */
+  private validateSecurityHubAutomationRules(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    errors: string[],
+  ) {
+    const ruleNames: string[] = [];
+    for (const rule of values.centralSecurityServices.securityHub.automationRules ?? []) {
+      if (ruleNames.includes(rule.name)) {
+        errors.push(`Duplicate Security Hub automation rule name ${rule.name}. Automation rule names must be unique.`);
+      }
+      ruleNames.push(rule.name);
+
+      if (!Number.isInteger(rule.order) || rule.order < 1 || rule.order > 1000) {
+        errors.push(`Security Hub automation rule ${rule.name} order must be an integer between 1 and 1000.`);
+      }
+      if (rule.criteria.length === 0) {
+        errors.push(`Security Hub automation rule ${rule.name} must define at least one criteria.`);
+      }
+      const criteriaKeys = rule.criteria.map(criteria => criteria.key);
+      if (this.hasDuplicates(criteriaKeys)) {
+        errors.push(`Security Hub automation rule ${rule.name} has duplicate criteria keys. Combine their values.`);
+      }
+      if (!rule.actions.severityLabel && !rule.actions.workflowStatus && !rule.actions.note) {
+        errors.push(
+          `Security Hub automation rule ${rule.name} must define at least one of severityLabel, workflowStatus or note actions.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate Security Hub central configuration policies
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityHubConfigurationPolicies(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const securityHub = values.centralSecurityServices.securityHub;
+    const standardNames = securityHub.standards.map(standard => standard.name);
+    const policyNames: string[] = [];
+
+    if ((securityHub.configurationPolicies ?? []).length > 0 && !securityHub.regionAggregation) {
+      errors.push('Security Hub configurationPolicies require regionAggregation to be enabled.');
+    }
+
+    for (const policy of securityHub.configurationPolicies ?? []) {
+      if (policyNames.includes(policy.name)) {
+        errors.push(
+          `Duplicate Security Hub configuration policy name ${policy.name}. Configuration policy names must be unique.`,
+        );
+      }
+      policyNames.push(policy.name);
+
+      for (const standardName of policy.standards ?? []) {
+        if (!standardNames.includes(standardName)) {
+          errors.push(
+            `Security Hub configuration policy ${policy.name} standard ${standardName} is not defined in the Security Hub standards list.`,
+          );
+        }
+      }
+      if (!policy.enable && (policy.standards ?? []).length > 0) {
+        errors.push(
+          `Security Hub configuration policy ${policy.name} cannot enable standards when Security Hub is disabled.`,
+        );
+      }
+
+      for (const ou of policy.deploymentTargets.organizationalUnits ?? []) {
+        if (ouIdNames.indexOf(ou) === -1) {
+          errors.push(
+            `Deployment target OU ${ou} for Security Hub configuration policy ${policy.name} does not exists in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of policy.deploymentTargets.accounts ?? []) {
+        if (accountNames.indexOf(account) === -1) {
+          errors.push(
+            `Deployment target account ${account} for Security Hub configuration policy ${policy.name} does not exists in accounts-config.yaml file.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate Security Hub control parameter overrides
+   * @param values
+   * @param errors
+   */
+  private validateSecurityHubControlParameters(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    errors: string[],
+  ) {
+    const securityHub = values.centralSecurityServices.securityHub;
+    const policyStandardNames = (securityHub.configurationPolicies ?? []).flatMap(policy => policy.standards ?? []);
+
+    for (const standard of securityHub.standards) {
+      if (!standard.controlParameters) {
+        continue;
+      }
+      if (!policyStandardNames.includes(standard.name)) {
+        errors.push(
+          `Security Hub standard ${standard.name} defines controlParameters but is not used by any configurationPolicies. Control parameters are applied through configuration policies.`,
+        );
+      }
+
+      const controlIds = standard.controlParameters.map(control => control.controlId);
+      if (this.hasDuplicates(controlIds)) {
+        errors.push(`Security Hub standard ${standard.name} has duplicate controlParameters controlId values.`);
+      }
+
+      for (const control of standard.controlParameters) {
+        if ((standard.controlsToDisable ?? []).includes(control.controlId)) {
+          errors.push(
+            `Security Hub standard ${standard.name} control ${control.controlId} is disabled and cannot define controlParameters.`,
+          );
+        }
+        for (const parameter of control.parameters) {
+          const isList = parameter.valueType.endsWith('List');
+          if (isList !== Array.isArray(parameter.value)) {
+            errors.push(
+              `Security Hub standard ${standard.name} control ${control.controlId} parameter ${
+                parameter.name
+              } value must ${isList ? '' : 'not '}be a list for value type ${parameter.valueType}.`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate Access Analyzer analyzers and archive rules
+   * @param values
+   * @param globalConfig
+   * @param errors
+   */
+  private validateAccessAnalyzer(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    globalConfig: GlobalConfig,
+    errors: string[],
+  ) {
+    const accessAnalyzer = values.accessAnalyzer;
+    if (!accessAnalyzer.enable) {
+      if (accessAnalyzer.archiveRules || accessAnalyzer.analyzers || accessAnalyzer.securityHubIntegration) {
+        errors.push(
+          `Access Analyzer archiveRules, analyzers and securityHubIntegration can only be configured when accessAnalyzer is enabled.`,
+        );
+      }
+      return;
+    }
+
+    if (accessAnalyzer.securityHubIntegration && !values.centralSecurityServices.securityHub.enable) {
+      errors.push(`Access Analyzer securityHubIntegration requires Security Hub to be enabled.`);
+    }
+
+    this.validateAccessAnalyzerArchiveRules(
+      'organization analyzer',
+      'ORGANIZATION',
+      accessAnalyzer.archiveRules,
+      errors,
+    );
+
+    const analyzers = accessAnalyzer.analyzers ?? [];
+    if (this.hasDuplicates(analyzers.map(analyzer => analyzer.name))) {
+      errors.push(`Access Analyzer analyzers have duplicate names. Analyzer names must be unique.`);
+    }
+
+    for (const analyzer of analyzers) {
+      if (analyzer.type === 'ORGANIZATION_UNUSED_ACCESS') {
+        if (
+          analyzer.unusedAccessAge === undefined ||
+          !Number.isInteger(analyzer.unusedAccessAge) ||
+          analyzer.unusedAccessAge < 1 ||
+          analyzer.unusedAccessAge > 365
+        ) {
+          errors.push(
+            `Access Analyzer analyzer ${analyzer.name} of type ORGANIZATION_UNUSED_ACCESS must define an unusedAccessAge integer between 1 and 365.`,
+          );
+        }
+      } else if (analyzer.unusedAccessAge !== undefined) {
+        errors.push(
+          `Access Analyzer analyzer ${analyzer.name} unusedAccessAge is only supported for ORGANIZATION_UNUSED_ACCESS analyzers.`,
+        );
+      }
+
+      if (analyzer.type === 'ORGANIZATION_UNUSED_ACCESS' && analyzer.excludeRegions) {
+        errors.push(
+          `Access Analyzer analyzer ${analyzer.name} of type ORGANIZATION_UNUSED_ACCESS is only created in the home region and does not support excludeRegions.`,
+        );
+      } else if (globalConfig.enabledRegions.every(region => (analyzer.excludeRegions ?? []).includes(region))) {
+        errors.push(`Access Analyzer analyzer ${analyzer.name} excludes every enabled region.`);
+      }
+
+      this.validateAccessAnalyzerArchiveRules(
+        `analyzer ${analyzer.name}`,
+        analyzer.type,
+        analyzer.archiveRules,
+        errors,
+      );
+    }
+  }
+
+  /**
+   * Validate Access Analyzer archive rule filters
+   * @param analyzerName
+   * @param analyzerType
+   * @param archiveRules
+   * @param errors
+   */
+  private validateAccessAnalyzerArchiveRules(
+    analyzerName: string,
+    analyzerType: t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerTypeEnum>,
+    archiveRules: t.TypeOf<typeof SecurityConfigTypes.accessAnalyzerArchiveRuleConfig>[] | undefined,
+    errors: string[],
+  ) {
+    const commonFilterKeys = ['error', 'id', 'resource', 'resourceOwnerAccount', 'resourceType', 'status'];
+    const filterKeys =
+      analyzerType === 'ORGANIZATION_UNUSED_ACCESS'
+        ? [...commonFilterKeys, 'findingType']
+        : [
+            ...commonFilterKeys,
+            'action',
+            'isPublic',
+            'principal.AWS',
+            'principal.CanonicalUser',
+            'principal.Federated',
+            'principal.Service',
+          ];
+
+    if (this.hasDuplicates((archiveRules ?? []).map(rule => rule.name))) {
+      errors.push(`Access Analyzer ${analyzerName} has duplicate archive rule names.`);
+    }
+
+    for (const rule of archiveRules ?? []) {
+      if (rule.filters.length === 0) {
+        errors.push(`Access Analyzer ${analyzerName} archive rule ${rule.name} must define at least one filter.`);
+      }
+      if (this.hasDuplicates(rule.filters.map(filter => filter.key))) {
+        errors.push(`Access Analyzer ${analyzerName} archive rule ${rule.name} has duplicate filter keys.`);
+      }
+
+      for (const filter of rule.filters) {
+        const isConditionKey = analyzerType === 'ORGANIZATION' && filter.key.startsWith('condition.');
+        if (!filterKeys.includes(filter.key) && !isConditionKey) {
+          errors.push(
+            `Access Analyzer ${analyzerName} archive rule ${rule.name} filter key ${
+              filter.key
+            } is invalid for ${analyzerType} analyzers. Valid keys are ${filterKeys.join(', ')}${
+              analyzerType === 'ORGANIZATION' ? ' and condition.*' : ''
+            }.`,
+          );
+        }
+
+        const operators = [filter.eq, filter.neq, filter.contains, filter.exists].filter(item => item !== undefined);
+        if (operators.length !== 1) {
+          errors.push(
+            `Access Analyzer ${analyzerName} archive rule ${rule.name} filter ${filter.key} must define exactly one of eq, neq, contains or exists.`,
+          );
+        }
+        for (const filterValues of [filter.eq, filter.neq, filter.contains]) {
+          if (filterValues && (filterValues.length === 0 || filterValues.length > 20)) {
+            errors.push(
+              `Access Analyzer ${analyzerName} archive rule ${rule.name} filter ${filter.key} must define between 1 and 20 values.`,
+            );
+          }
+        }
+      }
+    }
+  }
+
   /**
    * Validate S3 lifecycle expiration to be smaller than noncurrentVersionExpiration
    */
@@ -216,6 +839,52 @@ export class SecurityConfigValidator {
     }
   }
 
+  /**
+   * Validate Inspector scan type configuration
+   * @param values
+   * @param errors
+   */
+  private validateInspectorConfiguration(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    errors: string[],
+  ) {
+    const inspector = values.centralSecurityServices.inspector;
+    if (!inspector?.enable) {
+      return;
+    }
+    if (inspector.lambdaCodeScanning && inspector.lambdaScanning === false) {
+      errors.push(
+        'Inspector lambdaCodeScanning requires lambdaScanning to be enabled. Please enable lambdaScanning or disable lambdaCodeScanning',
+      );
+    }
+    if (
+      inspector.exportConfiguration?.overrideInspectorPrefix?.useCustomPrefix &&
+      !inspector.exportConfiguration.overrideInspectorPrefix.customOverride
+    ) {
+      errors.push(
+        'Inspector exportConfiguration overrideInspectorPrefix must define customOverride when useCustomPrefix is true',
+      );
+    }
+  }
+
+  /**
+   * Validate that the security config SNS subscriptions define a level and an email address
+   * @param values
+   * @param errors
+   */
+  private validateSnsSubscriptions(values: SecurityConfig, errors: string[]) {
+    for (const snsSubscription of values.centralSecurityServices.snsSubscriptions ?? []) {
+      if (!snsSubscription.level || !snsSubscription.email) {
+        errors.push('snsSubscriptions must define a level and an email address');
+      }
+      if (snsSubscription.protocol || snsSubscription.endpoint) {
+        errors.push(
+          `snsSubscriptions level ${snsSubscription.level} only supports email subscriptions, use the global config snsTopics for ${snsSubscription.protocol} subscriptions`,
+        );
+      }
+    }
+  }
+
   /**
    * Function to get SSM document names
    * @param values
@@ -674,6 +1343,175 @@ export class SecurityConfigValidator {
     }
   }
 
+  /**
+   * Function to validate AWS Config conformance packs
+   * @param configDir
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateConformancePacks(
+    configDir: string,
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const packNames: string[] = [];
+    for (const pack of values.awsConfig.conformancePacks ?? []) {
+      if (packNames.includes(pack.name)) {
+        errors.push(`Duplicate conformance pack name ${pack.name}. Conformance pack names must be unique.`);
+      }
+      packNames.push(pack.name);
+
+      if (!/^[a-zA-Z][-a-zA-Z0-9]*$/.test(pack.name) || pack.name.length > 128) {
+        errors.push(
+          `Conformance pack name ${pack.name} is invalid. Names must start with a letter, contain only alphanumeric characters and hyphens, and be at most 128 characters long.`,
+        );
+      }
+
+      //
+      // Validate template source
+      if ((pack.templateBody && pack.templateS3Uri) || (!pack.templateBody && !pack.templateS3Uri)) {
+        errors.push(`Conformance pack ${pack.name} must define exactly one of templateBody or templateS3Uri.`);
+      }
+      if (pack.templateBody) {
+        const templatePath = path.join(configDir, pack.templateBody);
+        if (!fs.existsSync(templatePath)) {
+          errors.push(`Conformance pack ${pack.name} template file ${pack.templateBody} not found`);
+        } else if (fs.statSync(templatePath).size > 51200) {
+          errors.push(
+            `Conformance pack ${pack.name} template file ${pack.templateBody} exceeds the maximum template body size of 51200 bytes. Please use templateS3Uri instead.`,
+          );
+        }
+      }
+      if (pack.templateS3Uri && !pack.templateS3Uri.startsWith('s3://')) {
+        errors.push(`Conformance pack ${pack.name} templateS3Uri ${pack.templateS3Uri} must start with s3://`);
+      }
+
+      //
+      // Validate deployment scope
+      if ((pack.deploymentTargets && pack.organization) || (!pack.deploymentTargets && !pack.organization)) {
+        errors.push(`Conformance pack ${pack.name} must define exactly one of deploymentTargets or organization.`);
+      }
+      for (const ou of pack.deploymentTargets?.organizationalUnits ?? []) {
+        if (ouIdNames.indexOf(ou) === -1) {
+          errors.push(
+            `Deployment target OU ${ou} for conformance pack ${pack.name} does not exists in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of [
+        ...(pack.deploymentTargets?.accounts ?? []),
+        ...(pack.organization?.excludedAccounts ?? []),
+      ]) {
+        if (accountNames.indexOf(account) === -1) {
+          errors.push(
+            `Account ${account} for conformance pack ${pack.name} does not exists in accounts-config.yaml file.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate AWS Config recorder recording group and recording mode settings
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateConfigRecorderSettings(
+    values: t.TypeOf<typeof SecurityConfigTypes.securityConfig>,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const recorderSettings = values.awsConfig.recorderSettings ?? [];
+    if (recorderSettings.length > 0 && !values.awsConfig.enableConfigurationRecorder) {
+      errors.push(`AWS Config recorderSettings can only be configured when enableConfigurationRecorder is true.`);
+    }
+
+    const isResourceType = (resourceType: string) => /^AWS::[A-Za-z0-9]+::[A-Za-z0-9]+$/.test(resourceType);
+
+    recorderSettings.forEach((settings, index) => {
+      const settingsName = `AWS Config recorderSettings[${index}]`;
+      for (const ou of settings.deploymentTargets.organizationalUnits ?? []) {
+        if (ouIdNames.indexOf(ou) === -1) {
+          errors.push(
+            `Deployment target OU ${ou} for ${settingsName} does not exists in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of [
+        ...(settings.deploymentTargets.accounts ?? []),
+        ...(settings.deploymentTargets.excludedAccounts ?? []),
+      ]) {
+        if (accountNames.indexOf(account) === -1) {
+          errors.push(`Account ${account} for ${settingsName} does not exists in accounts-config.yaml file.`);
+        }
+      }
+
+      if (!settings.recordingGroup && !settings.recordingMode) {
+        errors.push(`${settingsName} must define at least one of recordingGroup or recordingMode.`);
+      }
+
+      const recordingGroup = settings.recordingGroup;
+      if (recordingGroup) {
+        const resourceTypes = recordingGroup.resourceTypes ?? [];
+        if (recordingGroup.recordingStrategy === 'ALL_SUPPORTED_RESOURCE_TYPES' && resourceTypes.length > 0) {
+          errors.push(
+            `${settingsName} recordingGroup resourceTypes cannot be defined with ALL_SUPPORTED_RESOURCE_TYPES.`,
+          );
+        }
+        if (recordingGroup.recordingStrategy !== 'ALL_SUPPORTED_RESOURCE_TYPES' && resourceTypes.length === 0) {
+          errors.push(
+            `${settingsName} recordingGroup resourceTypes must be defined with ${recordingGroup.recordingStrategy}.`,
+          );
+        }
+        if (this.hasDuplicates(resourceTypes)) {
+          errors.push(`${settingsName} recordingGroup has duplicate resourceTypes.`);
+        }
+        for (const resourceType of resourceTypes.filter(item => !isResourceType(item))) {
+          errors.push(`${settingsName} recordingGroup resource type ${resourceType} is invalid.`);
+        }
+        if (
+          recordingGroup.recordingStrategy === 'INCLUSION_BY_RESOURCE_TYPES' &&
+          recordingGroup.globalResourceTypes === 'HOME_REGION' &&
+          resourceTypes.length > 0 &&
+          resourceTypes.every(resourceType => resourceType.startsWith('AWS::IAM::'))
+        ) {
+          errors.push(
+            `${settingsName} recordingGroup must include a regional resource type when global resource types are only recorded in the home region.`,
+          );
+        }
+      }
+
+      const recordingMode = settings.recordingMode;
+      if (recordingMode) {
+        const overrideResourceTypes: string[] = [];
+        for (const override of recordingMode.recordingModeOverrides ?? []) {
+          if (override.resourceTypes.length === 0) {
+            errors.push(`${settingsName} recordingModeOverrides must define at least one resource type.`);
+          }
+          if (override.recordingFrequency === recordingMode.recordingFrequency) {
+            errors.push(
+              `${settingsName} recordingModeOverrides recordingFrequency ${override.recordingFrequency} must differ from the default recordingFrequency.`,
+            );
+          }
+          for (const resourceType of override.resourceTypes.filter(item => !isResourceType(item))) {
+            errors.push(`${settingsName} recordingModeOverrides resource type ${resourceType} is invalid.`);
+          }
+          overrideResourceTypes.push(...override.resourceTypes);
+        }
+        if (this.hasDuplicates(overrideResourceTypes)) {
+          errors.push(`${settingsName} recordingModeOverrides define the same resource type more than once.`);
+        }
+      }
+    });
+  }
+
   /**
    * Function to validate if AWS Config Rule names are unique to the environments they're deployed to respectively.
    * @param ruleSet
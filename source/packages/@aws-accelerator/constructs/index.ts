@@ -12,7 +12,10 @@
  */
 
 export * from './lib/aws-accelerator/get-accelerator-metadata';
+export * from './lib/aws-backup/enable-cross-account-backup';
 export * from './lib/aws-budgets/budget-definition';
+export * from './lib/aws-ce/cost-allocation-tags';
+export * from './lib/aws-ce/cost-anomaly-detection';
 export * from './lib/aws-cloudformation/get-resource-type';
 export * from './lib/aws-cloudwatch-logs/cloudwatch-destination';
 export * from './lib/aws-cloudwatch-logs/cloudwatch-log-group';
@@ -74,6 +77,12 @@ export * from './lib/aws-guardduty/guardduty-detector-config';
 export * from './lib/aws-guardduty/guardduty-members';
 export * from './lib/aws-guardduty/guardduty-organization-admin-account';
 export * from './lib/aws-guardduty/guardduty-publishing-destination';
+export * from './lib/aws-inspector/inspector-findings-export';
+export * from './lib/aws-inspector/inspector-members';
+export * from './lib/aws-inspector/inspector-organization-admin-account';
+export * from './lib/aws-securitylake/security-lake';
+export * from './lib/aws-securitylake/security-lake-organization-admin-account';
+export * from './lib/aws-securitylake/security-lake-subscriber';
 export * from './lib/aws-auditmanager/auditmanager-organization-admin-account';
 export * from './lib/aws-auditmanager/auditmanager-reports-destination';
 export * from './lib/aws-detective/detective-members';
@@ -98,6 +107,8 @@ export * from './lib/aws-networkfirewall/firewall';
 export * from './lib/aws-networkfirewall/policy';
 export * from './lib/aws-networkfirewall/rule-group';
 export * from './lib/aws-organizations/account';
+export * from './lib/aws-organizations/account-tags';
+export * from './lib/aws-organizations/close-account';
 export * from './lib/aws-organizations/create-accounts';
 export * from './lib/aws-organizations/enable-aws-service-access';
 export * from './lib/aws-organizations/enable-policy-type';
@@ -129,6 +140,8 @@ export * from './lib/aws-s3/validate-bucket';
 export * from './lib/aws-securityhub/securityhub-members';
 export * from './lib/aws-securityhub/securityhub-organization-admin-account';
 export * from './lib/aws-securityhub/securityhub-standards';
+export * from './lib/aws-securityhub/securityhub-configuration-policy';
+export * from './lib/aws-securityhub/securityhub-product-integration';
 export * from './lib/aws-securityhub/securityhub-region-aggregation';
 export * from './lib/aws-servicecatalog/get-portfolio-id';
 export * from './lib/aws-service-quota/limits-service-quota-definition';
@@ -0,0 +1,83 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+
+/**
+ * Initialized EnableCrossAccountBackup properties
+ */
+export interface EnableCrossAccountBackupProps {
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to enable AWS Backup cross-account backup for the organization
+ */
+export class EnableCrossAccountBackup extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: EnableCrossAccountBackupProps) {
+    super(scope, id);
+
+    const ENABLE_CROSS_ACCOUNT_BACKUP = 'Custom::BackupEnableCrossAccountBackup';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, ENABLE_CROSS_ACCOUNT_BACKUP, {
+      codeDirectory: path.join(__dirname, 'enable-cross-account-backup/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      description: 'AWS Backup cross-account backup enablement',
+      policyStatements: [
+        {
+          Effect: 'Allow',
+          Action: ['backup:DescribeGlobalSettings', 'backup:UpdateGlobalSettings'],
+          Resource: '*',
+        },
+        {
+          Effect: 'Allow',
+          Action: ['organizations:DescribeOrganization'],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: ENABLE_CROSS_ACCOUNT_BACKUP,
+      serviceToken: provider.serviceToken,
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { BackupClient, DescribeGlobalSettingsCommand, UpdateGlobalSettingsCommand } from '@aws-sdk/client-backup';
+
+/**
+ * enable-cross-account-backup - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const backupClient = new BackupClient({ customUserAgent: solutionId, retryStrategy: setRetryStrategy() });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      await setCrossAccountBackup(backupClient, true);
+
+      return {
+        PhysicalResourceId: 'cross-account-backup',
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      await setCrossAccountBackup(backupClient, false);
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Function to set the AWS Backup cross-account backup global setting
+ * @param backupClient {@link BackupClient}
+ * @param enabled boolean
+ */
+async function setCrossAccountBackup(backupClient: BackupClient, enabled: boolean): Promise<void> {
+  const response = await throttlingBackOff(() => backupClient.send(new DescribeGlobalSettingsCommand({})));
+  if (response.GlobalSettings?.['isCrossAccountBackupEnabled'] === `${enabled}`) {
+    console.log(`Cross-account backup is already ${enabled ? 'enabled' : 'disabled'}`);
+    return;
+  }
+
+  console.log(`${enabled ? 'Enabling' : 'Disabling'} cross-account backup`);
+  await throttlingBackOff(() =>
+    backupClient.send(
+      new UpdateGlobalSettingsCommand({ GlobalSettings: { isCrossAccountBackupEnabled: `${enabled}` } }),
+    ),
+  );
+}
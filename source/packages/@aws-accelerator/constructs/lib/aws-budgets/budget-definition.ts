@@ -93,6 +93,15 @@ export interface BudgetDefinitionProps {
    * The unit of measurement that's used for the budget forecast, actual spend, or budget threshold, such as USD or GBP.
    */
   readonly unit: Unit;
+  /**
+   * The linked account ids whose costs are tracked by the budget, when undefined the budget tracks the account
+   * the budget is created in, or the whole organization for the management account.
+   */
+  readonly linkedAccountIds?: string[];
+  /**
+   * List of actions that run when the budget threshold of the action is exceeded.
+   */
+  readonly actions?: BudgetActionDefinition[];
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -112,6 +121,61 @@ export interface SubscribersDefination {
   readonly address: string;
 }
 
+export interface BudgetActionDefinition {
+  /**
+   * The type of action, either attach a service control policy or an IAM policy.
+   */
+  readonly actionType: 'APPLY_SCP_POLICY' | 'APPLY_IAM_POLICY';
+  /**
+   * Whether the action runs on the actual or forecasted spend.
+   */
+  readonly notificationType: 'ACTUAL' | 'FORECASTED';
+  /**
+   * The type of threshold of the action.
+   */
+  readonly thresholdType: 'PERCENTAGE' | 'ABSOLUTE_VALUE';
+  /**
+   * The threshold that runs the action when it is exceeded.
+   */
+  readonly threshold: number;
+  /**
+   * Whether the action runs automatically or waits for an approval.
+   */
+  readonly approvalModel: 'AUTOMATIC' | 'MANUAL';
+  /**
+   * The service control policy id, for APPLY_SCP_POLICY actions.
+   */
+  readonly policyId?: string;
+  /**
+   * The account and organizational unit ids the service control policy is attached to, for APPLY_SCP_POLICY actions.
+   */
+  readonly targetIds?: string[];
+  /**
+   * The IAM policy arn, for APPLY_IAM_POLICY actions.
+   */
+  readonly policyArn?: string;
+  /**
+   * The IAM role names the IAM policy is attached to, for APPLY_IAM_POLICY actions.
+   */
+  readonly roles?: string[];
+  /**
+   * The IAM group names the IAM policy is attached to, for APPLY_IAM_POLICY actions.
+   */
+  readonly groups?: string[];
+  /**
+   * The IAM user names the IAM policy is attached to, for APPLY_IAM_POLICY actions.
+   */
+  readonly users?: string[];
+  /**
+   * The type of notification that AWS sends to the subscribers of the action.
+   */
+  readonly subscriptionType: 'EMAIL' | 'SNS';
+  /**
+   * The recipients list that AWS sends action notifications to.
+   */
+  readonly recipients: string[];
+}
+
 export class BudgetDefinition extends cdk.Resource {
   readonly id!: string;
   constructor(scope: Construct, id: string, props: BudgetDefinitionProps) {
@@ -171,11 +235,27 @@ export class BudgetDefinition extends cdk.Resource {
       'sa-east-1',
     ];
 
+    const costFilters = props.linkedAccountIds ? { LinkedAccount: props.linkedAccountIds } : undefined;
+    const executionRole = props.actions?.length ? this.createActionExecutionRole(props.actions) : undefined;
+
     if (awsBudgetsSupportedRegions.includes(cdk.Stack.of(this).region)) {
-      new cdk.aws_budgets.CfnBudget(this, `${budget.budgetName}`, {
-        budget,
+      const cfnBudget = new cdk.aws_budgets.CfnBudget(this, `${budget.budgetName}`, {
+        budget: { ...budget, costFilters },
         notificationsWithSubscribers,
       });
+
+      (props.actions ?? []).forEach((action, index) => {
+        new cdk.aws_budgets.CfnBudgetsAction(this, `Action${index}`, {
+          budgetName: cfnBudget.ref,
+          actionType: action.actionType,
+          actionThreshold: { type: action.thresholdType, value: action.threshold },
+          approvalModel: action.approvalModel,
+          definition: this.getActionDefinition(action),
+          executionRoleArn: executionRole!.roleArn,
+          notificationType: action.notificationType,
+          subscribers: action.recipients.map(recipient => ({ type: action.subscriptionType, address: recipient })),
+        });
+      });
     } else {
       // Use custom resource
       const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, 'Custom::CrossRegionBudget', {
@@ -184,8 +264,26 @@ export class BudgetDefinition extends cdk.Resource {
         policyStatements: [
           {
             Effect: 'Allow',
-            Action: ['budgets:DeleteBudget', 'budgets:ModifyBudget', 'budgets:PutBudget'],
+            Action: [
+              'budgets:CreateBudgetAction',
+              'budgets:DeleteBudget',
+              'budgets:DeleteBudgetAction',
+              'budgets:DescribeBudgetActionsForBudget',
+              'budgets:ModifyBudget',
+              'budgets:PutBudget',
+              'budgets:UpdateBudgetAction',
+            ],
+            Resource: '*',
+          },
+          {
+            Effect: 'Allow',
+            Action: ['iam:PassRole'],
             Resource: '*',
+            Condition: {
+              StringEquals: {
+                'iam:PassedToService': 'budgets.amazonaws.com',
+              },
+            },
           },
         ],
       });
@@ -212,6 +310,19 @@ export class BudgetDefinition extends cdk.Resource {
             useAmortized: props.useAmortized,
             useBlended: props.useBlended,
             unit: props.unit,
+            costFilters,
+            actions: props.actions?.map(action => ({
+              actionType: action.actionType,
+              actionThreshold: { type: action.thresholdType, value: action.threshold },
+              approvalModel: action.approvalModel,
+              definition: this.getActionDefinition(action),
+              executionRoleArn: executionRole!.roleArn,
+              notificationType: action.notificationType,
+              subscribers: action.recipients.map(recipient => ({
+                type: action.subscriptionType,
+                address: recipient,
+              })),
+            })),
           },
         },
       });
@@ -234,6 +345,57 @@ export class BudgetDefinition extends cdk.Resource {
       this.id = resource.ref;
     }
   }
+  /**
+   * Create the role AWS Budgets assumes to run the budget actions
+   * @param actions
+   * @returns
+   */
+  private createActionExecutionRole(actions: BudgetActionDefinition[]): cdk.aws_iam.Role {
+    const role = new cdk.aws_iam.Role(this, 'ActionExecutionRole', {
+      assumedBy: new cdk.aws_iam.ServicePrincipal('budgets.amazonaws.com'),
+    });
+
+    if (actions.some(action => action.actionType === 'APPLY_SCP_POLICY')) {
+      role.addToPolicy(
+        new cdk.aws_iam.PolicyStatement({
+          actions: ['organizations:AttachPolicy', 'organizations:DetachPolicy'],
+          resources: ['*'],
+        }),
+      );
+    }
+    if (actions.some(action => action.actionType === 'APPLY_IAM_POLICY')) {
+      role.addToPolicy(
+        new cdk.aws_iam.PolicyStatement({
+          actions: [
+            'iam:AttachGroupPolicy',
+            'iam:AttachRolePolicy',
+            'iam:AttachUserPolicy',
+            'iam:DetachGroupPolicy',
+            'iam:DetachRolePolicy',
+            'iam:DetachUserPolicy',
+          ],
+          resources: ['*'],
+        }),
+      );
+    }
+
+    return role;
+  }
+
+  private getActionDefinition(action: BudgetActionDefinition) {
+    if (action.actionType === 'APPLY_SCP_POLICY') {
+      return { scpActionDefinition: { policyId: action.policyId!, targetIds: action.targetIds ?? [] } };
+    }
+    return {
+      iamActionDefinition: {
+        policyArn: action.policyArn!,
+        roles: action.roles,
+        groups: action.groups,
+        users: action.users,
+      },
+    };
+  }
+
   private getRecipients(notify: NotificationConfig) {
     const recipients: SubscribersDefination[] = [];
     for (const recipient of notify.recipients ?? []) {
@@ -36,6 +36,18 @@ interface SubscribersDefinition {
   readonly SubscriptionType: 'SNS' | 'EMAIL';
   readonly Address: string;
 }
+interface BudgetActionDefinition {
+  actionType: string;
+  actionThreshold: { type: string; value: string };
+  approvalModel: string;
+  definition: {
+    scpActionDefinition?: { policyId: string; targetIds: string[] };
+    iamActionDefinition?: { policyArn: string; roles?: string[]; groups?: string[]; users?: string[] };
+  };
+  executionRoleArn: string;
+  notificationType: string;
+  subscribers: { type: string; address: string }[];
+}
 interface BudgetDefinition {
   amount: number;
   includeCredit: string;
@@ -54,6 +66,8 @@ interface BudgetDefinition {
   useAmortized: string;
   useBlended: string;
   unit: string;
+  costFilters?: { [key: string]: string[] };
+  actions?: BudgetActionDefinition[];
 }
 
 export async function handler(
@@ -143,6 +157,7 @@ export async function handler(
             UseAmortized: useAmortized,
             UseBlended: useBlended,
           },
+          CostFilters: budgetDefinition.costFilters,
           LastUpdatedTime: new Date(),
         },
         NotificationsWithSubscribers: notifications,
@@ -150,6 +165,7 @@ export async function handler(
 
       //const createParams = paramsArr[0];
       await throttlingBackOff(() => budgetClient.createBudget(createParams).promise());
+      await putBudgetActions(budgetClient, awsAccountId, budgetDefinition);
 
       return {
         PhysicalResourceId: budgetDefinition.name,
@@ -182,10 +198,12 @@ export async function handler(
             UseAmortized: useAmortized,
             UseBlended: useBlended,
           },
+          CostFilters: budgetDefinition.costFilters,
           LastUpdatedTime: new Date(),
         },
       };
       await throttlingBackOff(() => budgetClient.updateBudget(updateParams).promise());
+      await putBudgetActions(budgetClient, awsAccountId, budgetDefinition);
 
       return {
         PhysicalResourceId: event.PhysicalResourceId,
@@ -223,3 +241,161 @@ export function getRecipients(notify: NotificationConfig) {
   }
   return recipients;
 }
+
+/**
+ * Reconcile the actions of a budget with the actions of the budget definition. Existing actions are matched to the
+ * definition by action type and policy, so actions that have already run or are pending approval keep their
+ * execution history unless they are removed from the definition.
+ * @param budgetClient
+ * @param accountId
+ * @param budgetDefinition
+ */
+async function putBudgetActions(budgetClient: AWS.Budgets, accountId: string, budgetDefinition: BudgetDefinition) {
+  const existingActions: AWS.Budgets.Action[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: AWS.Budgets.DescribeBudgetActionsForBudgetResponse = await throttlingBackOff(() =>
+      budgetClient
+        .describeBudgetActionsForBudget({
+          AccountId: accountId,
+          BudgetName: budgetDefinition.name,
+          NextToken: nextToken,
+        })
+        .promise(),
+    );
+    existingActions.push(...page.Actions);
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  for (const action of budgetDefinition.actions ?? []) {
+    const actionParameters = getBudgetActionParameters(action);
+    const existingActionIndex = existingActions.findIndex(
+      existingAction =>
+        existingAction.ActionType === action.actionType &&
+        getBudgetActionPolicy(existingAction.Definition) === getBudgetActionPolicy(actionParameters.Definition),
+    );
+
+    if (existingActionIndex === -1) {
+      console.log(`Creating ${action.actionType} budget action of budget ${budgetDefinition.name}`);
+      await throttlingBackOff(() =>
+        budgetClient
+          .createBudgetAction({
+            AccountId: accountId,
+            BudgetName: budgetDefinition.name,
+            ActionType: action.actionType,
+            ...actionParameters,
+          })
+          .promise(),
+      );
+      continue;
+    }
+
+    const [existingAction] = existingActions.splice(existingActionIndex, 1);
+    if (!isBudgetActionChanged(existingAction, actionParameters)) {
+      console.log(`Budget action ${existingAction.ActionId} of budget ${budgetDefinition.name} is up to date`);
+      continue;
+    }
+    console.log(`Updating budget action ${existingAction.ActionId} of budget ${budgetDefinition.name}`);
+    await throttlingBackOff(() =>
+      budgetClient
+        .updateBudgetAction({
+          AccountId: accountId,
+          BudgetName: budgetDefinition.name,
+          ActionId: existingAction.ActionId,
+          ...actionParameters,
+        })
+        .promise(),
+    );
+  }
+
+  // Actions left over were removed from the budget definition
+  for (const existingAction of existingActions) {
+    console.log(`Deleting budget action ${existingAction.ActionId} of budget ${budgetDefinition.name}`);
+    await throttlingBackOff(() =>
+      budgetClient
+        .deleteBudgetAction({
+          AccountId: accountId,
+          BudgetName: budgetDefinition.name,
+          ActionId: existingAction.ActionId,
+        })
+        .promise(),
+    );
+  }
+}
+
+/**
+ * Returns the budget action parameters shared by the create and update API calls
+ * @param action
+ * @returns
+ */
+function getBudgetActionParameters(action: BudgetActionDefinition) {
+  const scpActionDefinition = action.definition.scpActionDefinition;
+  const iamActionDefinition = action.definition.iamActionDefinition;
+  return {
+    ActionThreshold: {
+      ActionThresholdType: action.actionThreshold.type,
+      ActionThresholdValue: Number(action.actionThreshold.value),
+    },
+    ApprovalModel: action.approvalModel,
+    Definition: {
+      ScpActionDefinition: scpActionDefinition
+        ? { PolicyId: scpActionDefinition.policyId, TargetIds: scpActionDefinition.targetIds }
+        : undefined,
+      IamActionDefinition: iamActionDefinition
+        ? {
+            PolicyArn: iamActionDefinition.policyArn,
+            Roles: iamActionDefinition.roles,
+            Groups: iamActionDefinition.groups,
+            Users: iamActionDefinition.users,
+          }
+        : undefined,
+    },
+    ExecutionRoleArn: action.executionRoleArn,
+    NotificationType: action.notificationType,
+    Subscribers: action.subscribers.map(subscriber => ({
+      SubscriptionType: subscriber.type,
+      Address: subscriber.address,
+    })),
+  };
+}
+
+/**
+ * Returns the policy a budget action attaches
+ * @param definition
+ * @returns
+ */
+function getBudgetActionPolicy(definition: AWS.Budgets.Definition): string | undefined {
+  return definition.ScpActionDefinition?.PolicyId ?? definition.IamActionDefinition?.PolicyArn;
+}
+
+/**
+ * Compares an existing budget action with the budget action parameters of the budget definition
+ * @param existingAction
+ * @param actionParameters
+ * @returns
+ */
+function isBudgetActionChanged(
+  existingAction: AWS.Budgets.Action,
+  actionParameters: ReturnType<typeof getBudgetActionParameters>,
+): boolean {
+  const normalize = (
+    action: Pick<
+      AWS.Budgets.Action,
+      'ActionThreshold' | 'ApprovalModel' | 'Definition' | 'ExecutionRoleArn' | 'NotificationType' | 'Subscribers'
+    >,
+  ) =>
+    JSON.stringify({
+      ActionThresholdType: action.ActionThreshold.ActionThresholdType,
+      ActionThresholdValue: action.ActionThreshold.ActionThresholdValue,
+      ApprovalModel: action.ApprovalModel,
+      ScpTargetIds: [...(action.Definition.ScpActionDefinition?.TargetIds ?? [])].sort(),
+      IamRoles: [...(action.Definition.IamActionDefinition?.Roles ?? [])].sort(),
+      IamGroups: [...(action.Definition.IamActionDefinition?.Groups ?? [])].sort(),
+      IamUsers: [...(action.Definition.IamActionDefinition?.Users ?? [])].sort(),
+      ExecutionRoleArn: action.ExecutionRoleArn,
+      NotificationType: action.NotificationType,
+      Subscribers: action.Subscribers.map(subscriber => `${subscriber.SubscriptionType}:${subscriber.Address}`).sort(),
+    });
+
+  return normalize(existingAction) !== normalize(actionParameters);
+}
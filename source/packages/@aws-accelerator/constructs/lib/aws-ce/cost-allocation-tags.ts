@@ -0,0 +1,103 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Initialized CostAllocationTags properties
+ */
+export interface CostAllocationTagsProps {
+  /**
+   * The user-defined tag keys to activate as cost allocation tags
+   */
+  readonly tagKeys: string[];
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to activate user-defined cost allocation tags
+ */
+export class CostAllocationTags extends Construct {
+  public readonly id: string;
+  /**
+   * Comma separated tag keys that are active but not defined in the configuration
+   */
+  public readonly unmanagedTagKeys: string;
+  /**
+   * Comma separated tag keys of the configuration that could not be activated
+   */
+  public readonly failedTagKeys: string;
+
+  constructor(scope: Construct, id: string, props: CostAllocationTagsProps) {
+    super(scope, id);
+
+    const COST_ALLOCATION_TAGS = 'Custom::CostAllocationTags';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, COST_ALLOCATION_TAGS, {
+      codeDirectory: path.join(__dirname, 'cost-allocation-tags/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      description: 'Cost allocation tags activation',
+      policyStatements: [
+        {
+          Effect: 'Allow',
+          Action: ['ce:ListCostAllocationTags', 'ce:UpdateCostAllocationTagsStatus'],
+          Resource: '*',
+        },
+      ],
+    });
+
+    //
+    // Custom Resource definition. We want this resource to be evaluated on
+    // every CloudFormation update, so we generate a new uuid to force
+    // re-evaluation and report or correct any tag status drift.
+    //
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: COST_ALLOCATION_TAGS,
+      serviceToken: provider.serviceToken,
+      properties: {
+        partition: cdk.Aws.PARTITION,
+        tagKeys: props.tagKeys,
+        uuid: uuidv4(),
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+    this.unmanagedTagKeys = resource.getAttString('UnmanagedTagKeys');
+    this.failedTagKeys = resource.getAttString('FailedTagKeys');
+  }
+}
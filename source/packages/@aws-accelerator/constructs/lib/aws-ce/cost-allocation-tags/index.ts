@@ -0,0 +1,149 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  CostAllocationTag,
+  CostAllocationTagStatus,
+  CostExplorerClient,
+  ListCostAllocationTagsCommand,
+  UpdateCostAllocationTagsStatusCommand,
+} from '@aws-sdk/client-cost-explorer';
+
+/**
+ * The maximum number of tag keys accepted by a single UpdateCostAllocationTagsStatus call
+ */
+const MAX_TAG_KEYS_PER_UPDATE = 20;
+
+/**
+ * cost-allocation-tags - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Data?: { UnmanagedTagKeys: string; FailedTagKeys: string };
+      Status: string;
+    }
+  | undefined
+> {
+  const partition: string = event.ResourceProperties['partition'];
+  const tagKeys: string[] = event.ResourceProperties['tagKeys'] ?? [];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const costExplorerClient = new CostExplorerClient({
+    region: partition === 'aws-cn' ? 'cn-northwest-1' : 'us-east-1',
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      //
+      // Deactivate tag keys that were previously managed but are no longer defined in the configuration
+      //
+      const previousTagKeys: string[] =
+        event.RequestType === 'Update' ? event.OldResourceProperties['tagKeys'] ?? [] : ([] as string[]);
+      await updateTagStatus(
+        costExplorerClient,
+        previousTagKeys.filter(tagKey => !tagKeys.includes(tagKey)),
+        'Inactive',
+      );
+
+      //
+      // Activate tag keys that are not active and return the drift as resource attributes
+      //
+      const userDefinedTags = await getUserDefinedTags(costExplorerClient);
+      const unmanagedTagKeys = userDefinedTags
+        .filter(tag => tag.Status === 'Active' && !tagKeys.includes(tag.TagKey!))
+        .map(tag => tag.TagKey!);
+      if (unmanagedTagKeys.length > 0) {
+        console.warn(`Cost allocation tags ${unmanagedTagKeys} are active but not defined in the configuration`);
+      }
+      const inactiveTagKeys = tagKeys.filter(
+        tagKey => !userDefinedTags.find(tag => tag.TagKey === tagKey && tag.Status === 'Active'),
+      );
+      const failedTagKeys = await updateTagStatus(costExplorerClient, inactiveTagKeys, 'Active');
+
+      return {
+        PhysicalResourceId: 'cost-allocation-tags',
+        Data: {
+          UnmanagedTagKeys: unmanagedTagKeys.join(','),
+          FailedTagKeys: failedTagKeys.join(','),
+        },
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      await updateTagStatus(costExplorerClient, tagKeys, 'Inactive');
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Function to list the user-defined cost allocation tags
+ * @param costExplorerClient
+ * @returns
+ */
+async function getUserDefinedTags(costExplorerClient: CostExplorerClient): Promise<CostAllocationTag[]> {
+  const tags: CostAllocationTag[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      costExplorerClient.send(new ListCostAllocationTagsCommand({ Type: 'UserDefined', NextToken: nextToken })),
+    );
+    tags.push(...(page.CostAllocationTags ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  return tags;
+}
+
+/**
+ * Function to update the status of cost allocation tag keys in batches. Tag keys that are not yet known to
+ * Cost Explorer cannot be updated, those errors are logged and retried on the next deployment.
+ * @param costExplorerClient
+ * @param tagKeys
+ * @param status
+ * @returns The tag keys that could not be updated
+ */
+async function updateTagStatus(
+  costExplorerClient: CostExplorerClient,
+  tagKeys: string[],
+  status: CostAllocationTagStatus,
+): Promise<string[]> {
+  const failedTagKeys: string[] = [];
+  for (let index = 0; index < tagKeys.length; index += MAX_TAG_KEYS_PER_UPDATE) {
+    const batch = tagKeys.slice(index, index + MAX_TAG_KEYS_PER_UPDATE);
+    console.log(`Setting cost allocation tags ${batch} to ${status}`);
+    const response = await throttlingBackOff(() =>
+      costExplorerClient.send(
+        new UpdateCostAllocationTagsStatusCommand({
+          CostAllocationTagsStatus: batch.map(tagKey => ({ TagKey: tagKey, Status: status })),
+        }),
+      ),
+    );
+    for (const error of response.Errors ?? []) {
+      console.warn(`Unable to set cost allocation tag ${error.TagKey} to ${status}: ${error.Code} ${error.Message}`);
+      failedTagKeys.push(error.TagKey!);
+    }
+  }
+  return failedTagKeys;
+}
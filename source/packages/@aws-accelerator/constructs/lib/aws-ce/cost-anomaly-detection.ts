@@ -0,0 +1,162 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { pascalCase } from 'change-case';
+import { Construct } from 'constructs';
+
+type AnomalyMonitorType = 'SERVICE' | 'LINKED_ACCOUNT' | 'COST_CATEGORY' | 'TAG';
+
+type AnomalySubscriptionFrequency = 'DAILY' | 'IMMEDIATE' | 'WEEKLY';
+
+export interface AnomalyMonitorDefinition {
+  /**
+   * The name of the monitor.
+   */
+  readonly name: string;
+  /**
+   * The dimension the monitor evaluates.
+   */
+  readonly type: AnomalyMonitorType;
+  /**
+   * The account ids evaluated by LINKED_ACCOUNT monitors.
+   */
+  readonly linkedAccountIds?: string[];
+  /**
+   * The cost category name of COST_CATEGORY monitors, or the tag key of TAG monitors.
+   */
+  readonly key?: string;
+  /**
+   * The cost category values of COST_CATEGORY monitors, or the tag values of TAG monitors.
+   */
+  readonly values?: string[];
+}
+
+export interface AnomalySubscriptionDefinition {
+  /**
+   * The name of the subscription.
+   */
+  readonly name: string;
+  /**
+   * The frequency the alerts are sent at.
+   */
+  readonly frequency: AnomalySubscriptionFrequency;
+  /**
+   * The names of the monitors the subscription receives alerts for.
+   */
+  readonly monitorNames: string[];
+  /**
+   * The minimum total impact of an anomaly, in dollars.
+   */
+  readonly totalImpactAbsolute?: number;
+  /**
+   * The minimum total impact of an anomaly, as a percentage of the expected spend.
+   */
+  readonly totalImpactPercentage?: number;
+  /**
+   * The operator combining both thresholds.
+   *
+   * @default OR
+   */
+  readonly operator?: 'AND' | 'OR';
+  /**
+   * The arn of the SNS topic alerts are delivered to.
+   */
+  readonly snsTopicArn?: string;
+  /**
+   * Email addresses alerts are delivered to.
+   */
+  readonly emailAddresses?: string[];
+}
+
+export interface CostAnomalyDetectionProps {
+  /**
+   * List of anomaly monitors.
+   */
+  readonly monitors: AnomalyMonitorDefinition[];
+  /**
+   * List of alert subscriptions.
+   */
+  readonly subscriptions?: AnomalySubscriptionDefinition[];
+}
+
+/**
+ * Class to configure Cost Anomaly Detection monitors and alert subscriptions
+ */
+export class CostAnomalyDetection extends Construct {
+  readonly monitors: { [name: string]: cdk.aws_ce.CfnAnomalyMonitor } = {};
+
+  constructor(scope: Construct, id: string, props: CostAnomalyDetectionProps) {
+    super(scope, id);
+
+    for (const monitor of props.monitors) {
+      this.monitors[monitor.name] = new cdk.aws_ce.CfnAnomalyMonitor(this, pascalCase(`${monitor.name}Monitor`), {
+        monitorName: monitor.name,
+        monitorType: monitor.type === 'SERVICE' ? 'DIMENSIONAL' : 'CUSTOM',
+        monitorDimension: monitor.type === 'SERVICE' ? 'SERVICE' : undefined,
+        monitorSpecification:
+          monitor.type === 'SERVICE' ? undefined : JSON.stringify(this.getMonitorSpecification(monitor)),
+      });
+    }
+
+    for (const subscription of props.subscriptions ?? []) {
+      new cdk.aws_ce.CfnAnomalySubscription(this, pascalCase(`${subscription.name}Subscription`), {
+        subscriptionName: subscription.name,
+        frequency: subscription.frequency,
+        monitorArnList: subscription.monitorNames.map(name => this.monitors[name].attrMonitorArn),
+        subscribers: [
+          ...(subscription.snsTopicArn ? [{ type: 'SNS', address: subscription.snsTopicArn }] : []),
+          ...(subscription.emailAddresses ?? []).map(address => ({ type: 'EMAIL', address })),
+        ],
+        thresholdExpression: JSON.stringify(this.getThresholdExpression(subscription)),
+      });
+    }
+  }
+
+  /**
+   * Returns the cost explorer expression of a custom monitor
+   * @param monitor
+   * @returns
+   */
+  private getMonitorSpecification(monitor: AnomalyMonitorDefinition) {
+    switch (monitor.type) {
+      case 'LINKED_ACCOUNT':
+        return { Dimensions: { Key: 'LINKED_ACCOUNT', Values: monitor.linkedAccountIds ?? [] } };
+      case 'COST_CATEGORY':
+        return { CostCategories: { Key: monitor.key, Values: monitor.values ?? [] } };
+      default:
+        return { Tags: { Key: monitor.key, Values: monitor.values ?? [] } };
+    }
+  }
+
+  /**
+   * Returns the cost explorer expression of the subscription thresholds
+   * @param subscription
+   * @returns
+   */
+  private getThresholdExpression(subscription: AnomalySubscriptionDefinition) {
+    const expressions = [
+      { key: 'ANOMALY_TOTAL_IMPACT_ABSOLUTE', value: subscription.totalImpactAbsolute },
+      { key: 'ANOMALY_TOTAL_IMPACT_PERCENTAGE', value: subscription.totalImpactPercentage },
+    ]
+      .filter(item => item.value !== undefined)
+      .map(item => ({
+        Dimensions: { Key: item.key, MatchOptions: ['GREATER_THAN_OR_EQUAL'], Values: [item.value!.toString()] },
+      }));
+
+    if (expressions.length === 1) {
+      return expressions[0];
+    }
+    return subscription.operator === 'AND' ? { And: expressions } : { Or: expressions };
+  }
+}
@@ -15,6 +15,50 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 const path = require('path');
 
+/**
+ * Config recorder recording group, resolved for the target account and region
+ */
+export interface ConfigServiceRecorderRecordingGroup {
+  /**
+   * Whether to record all supported resource types
+   */
+  readonly allSupported: boolean;
+  /**
+   * Whether to record global resource types
+   */
+  readonly includeGlobalResourceTypes: boolean;
+  /**
+   * The recording strategy, ALL_SUPPORTED_RESOURCE_TYPES, INCLUSION_BY_RESOURCE_TYPES or EXCLUSION_BY_RESOURCE_TYPES
+   */
+  readonly recordingStrategy: string;
+  /**
+   * The resource types to record with the INCLUSION_BY_RESOURCE_TYPES strategy
+   */
+  readonly resourceTypes?: string[];
+  /**
+   * The resource types to exclude with the EXCLUSION_BY_RESOURCE_TYPES strategy
+   */
+  readonly exclusionResourceTypes?: string[];
+}
+
+/**
+ * Config recorder recording mode
+ */
+export interface ConfigServiceRecorderRecordingMode {
+  /**
+   * The default recording frequency, CONTINUOUS or DAILY
+   */
+  readonly recordingFrequency: string;
+  /**
+   * Recording frequency overrides for specific resource types
+   */
+  readonly recordingModeOverrides?: {
+    description?: string;
+    resourceTypes: string[];
+    recordingFrequency: string;
+  }[];
+}
+
 export interface ConfigServiceRecorderProps {
   /**
    * S3 Bucket Name for Delivery Channel
@@ -48,6 +92,14 @@ export interface ConfigServiceRecorderProps {
    * Accelerator prefix
    */
   readonly acceleratorPrefix: string;
+  /**
+   * Config recorder recording group, when undefined all supported resource types including global resource types are recorded
+   */
+  readonly recordingGroup?: ConfigServiceRecorderRecordingGroup;
+  /**
+   * Config recorder recording mode, when undefined resources are recorded continuously
+   */
+  readonly recordingMode?: ConfigServiceRecorderRecordingMode;
 }
 
 /**
@@ -135,6 +187,8 @@ export class ConfigServiceRecorder extends Construct {
         s3BucketName: props.s3BucketName,
         s3BucketKmsKeyArn: props.s3BucketKmsKey.keyArn,
         recorderRoleArn: props.configRecorderRoleArn,
+        recordingGroup: props.recordingGroup ? JSON.stringify(props.recordingGroup) : undefined,
+        recordingMode: props.recordingMode ? JSON.stringify(props.recordingMode) : undefined,
       },
     });
 
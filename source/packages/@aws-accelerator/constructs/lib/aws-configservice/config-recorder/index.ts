@@ -22,6 +22,8 @@ import {
   PutDeliveryChannelCommandInput,
   PutConfigurationRecorderCommand,
   PutConfigurationRecorderCommandInput,
+  RecordingGroup,
+  RecordingMode,
   StartConfigurationRecorderCommand,
   StopConfigurationRecorderCommand,
 } from '@aws-sdk/client-config-service';
@@ -56,6 +58,8 @@ export async function onCreate(event: AWSLambda.CloudFormationCustomResourceCrea
   const s3BucketName = event.ResourceProperties['s3BucketName'];
   const s3BucketKmsKeyArn = event.ResourceProperties['s3BucketKmsKeyArn'];
   const recorderRoleArn = event.ResourceProperties['recorderRoleArn'];
+  const recordingGroup = getRecordingGroup(event.ResourceProperties['recordingGroup']);
+  const recordingMode = getRecordingMode(event.ResourceProperties['recordingMode']);
 
   console.log('check config recorders');
   const configRecorders = await throttlingBackOff(() =>
@@ -79,7 +83,7 @@ export async function onCreate(event: AWSLambda.CloudFormationCustomResourceCrea
 
   let configRecorderName = existingConfigRecorderName;
 
-  configRecorderName = await createUpdateRecorder(recorderRoleArn);
+  configRecorderName = await createUpdateRecorder(recorderRoleArn, recordingGroup, recordingMode);
 
   await createUpdateDeliveryChannel(s3BucketName, s3BucketKmsKeyArn);
 
@@ -99,6 +103,8 @@ async function onUpdate(event: AWSLambda.CloudFormationCustomResourceUpdateEvent
   const s3BucketName = event.ResourceProperties['s3BucketName'];
   const s3BucketKmsKeyArn = event.ResourceProperties['s3BucketKmsKeyArn'];
   const recorderRoleArn = event.ResourceProperties['recorderRoleArn'];
+  const recordingGroup = getRecordingGroup(event.ResourceProperties['recordingGroup']);
+  const recordingMode = getRecordingMode(event.ResourceProperties['recordingMode']);
 
   const configRecorders = await throttlingBackOff(() =>
     configClient.send(new DescribeConfigurationRecordersCommand({})),
@@ -119,7 +125,7 @@ async function onUpdate(event: AWSLambda.CloudFormationCustomResourceUpdateEvent
   }
 
   let configRecorderName = existingConfigRecorderName;
-  configRecorderName = await createUpdateRecorder(recorderRoleArn);
+  configRecorderName = await createUpdateRecorder(recorderRoleArn, recordingGroup, recordingMode);
 
   await createUpdateDeliveryChannel(s3BucketName, s3BucketKmsKeyArn);
 
@@ -251,7 +257,47 @@ async function deleteDeliveryChannel() {
   }
 }
 
-async function createUpdateRecorder(recorderRoleArn: string): Promise<string> {
+/**
+ * Function to get the recording group from the resource property, defaults to all supported resource types
+ * @param recordingGroupProperty
+ * @returns
+ */
+function getRecordingGroup(recordingGroupProperty: string | undefined): RecordingGroup {
+  if (!recordingGroupProperty) {
+    return {
+      allSupported: true,
+      includeGlobalResourceTypes: true,
+    };
+  }
+  const recordingGroup = JSON.parse(recordingGroupProperty);
+  return {
+    allSupported: recordingGroup.allSupported,
+    includeGlobalResourceTypes: recordingGroup.includeGlobalResourceTypes,
+    resourceTypes: recordingGroup.resourceTypes,
+    exclusionByResourceTypes: recordingGroup.exclusionResourceTypes
+      ? { resourceTypes: recordingGroup.exclusionResourceTypes }
+      : undefined,
+    recordingStrategy: { useOnly: recordingGroup.recordingStrategy },
+  };
+}
+
+/**
+ * Function to get the recording mode from the resource property, defaults to continuous recording
+ * @param recordingModeProperty
+ * @returns
+ */
+function getRecordingMode(recordingModeProperty: string | undefined): RecordingMode {
+  if (!recordingModeProperty) {
+    return { recordingFrequency: 'CONTINUOUS' };
+  }
+  return JSON.parse(recordingModeProperty);
+}
+
+async function createUpdateRecorder(
+  recorderRoleArn: string,
+  recordingGroup: RecordingGroup,
+  recordingMode: RecordingMode,
+): Promise<string> {
   console.log('In create update recorder');
   const configRecorders = await throttlingBackOff(() =>
     configClient.send(new DescribeConfigurationRecordersCommand({})),
@@ -265,10 +311,8 @@ async function createUpdateRecorder(recorderRoleArn: string): Promise<string> {
     ConfigurationRecorder: {
       name: existingConfigRecorderName ?? 'default',
       roleARN: recorderRoleArn,
-      recordingGroup: {
-        allSupported: true,
-        includeGlobalResourceTypes: true,
-      },
+      recordingGroup,
+      recordingMode,
     },
   };
 
@@ -440,3 +440,65 @@ it('delete event delivery channel exist', async () => {
 
   expect(result.Status).toEqual('SUCCESS');
 });
+
+it('update event applies recording group and recording mode to existing recorder', async () => {
+  configMock.reset();
+  configMock.on(DescribeConfigurationRecordersCommand).resolves({
+    ConfigurationRecorders: [{ name: 'default' }],
+  });
+  configMock.on(DescribeDeliveryChannelStatusCommand).resolves({
+    DeliveryChannelsStatus: [{ name: 'default' }],
+  });
+
+  const result = await handler({
+    RequestType: 'Update',
+    ServiceToken: 'arn:aws:lambda:us-east-1:123456789012:function:AWSAccelerator-CustomFunction',
+    ResponseURL: '...',
+    StackId: 'arn:aws:cloudformation:us-east-1:123456789012:stack/AWSAccelerator-Stack',
+    RequestId: 'ef092572-5cb7-4a7b-9ca7-dfe495ba877a',
+    LogicalResourceId: 'LogicalId',
+    ResourceType: 'Custom::Resource',
+    PhysicalResourceId: 'efffffff-aaaa-bbbb-cccc-dddddddddddddd',
+    ResourceProperties: {
+      ServiceToken: 'arn:aws:lambda:us-east-1:123456789012:function:AWSAccelerator-CustomFunction',
+      s3BucketName: 'centralLogBucket-us-east-1-123456789012',
+      s3BucketKmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/166692b1-0f01-4261-8dcc-7ff477df12a9',
+      recorderRoleArn: 'arn:aws:iam::23456789012:role/AWSAccelerator-SecurityRe-ConfigRecorderRoleC4E33A-X0DGQJYIMPU3',
+      recordingGroup: JSON.stringify({
+        allSupported: false,
+        includeGlobalResourceTypes: false,
+        recordingStrategy: 'EXCLUSION_BY_RESOURCE_TYPES',
+        exclusionResourceTypes: ['AWS::EC2::NetworkInterface'],
+      }),
+      recordingMode: JSON.stringify({
+        recordingFrequency: 'DAILY',
+        recordingModeOverrides: [{ resourceTypes: ['AWS::EC2::SecurityGroup'], recordingFrequency: 'CONTINUOUS' }],
+      }),
+    },
+    OldResourceProperties: {
+      ServiceToken: 'arn:aws:lambda:us-east-1:123456789012:function:AWSAccelerator-CustomFunction',
+      s3BucketName: 'centralLogBucket-us-east-1-123456789012',
+      s3BucketKmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/166692b1-0f01-4261-8dcc-7ff477df12a9',
+      recorderRoleArn: 'arn:aws:iam::23456789012:role/AWSAccelerator-SecurityRe-ConfigRecorderRoleC4E33A-X0DGQJYIMPU3',
+    },
+  });
+
+  expect(result.Status).toEqual('SUCCESS');
+  const putRecorderCalls = configMock.commandCalls(PutConfigurationRecorderCommand);
+  expect(putRecorderCalls.length).toEqual(1);
+  expect(putRecorderCalls[0].args[0].input.ConfigurationRecorder).toEqual({
+    name: 'default',
+    roleARN: 'arn:aws:iam::23456789012:role/AWSAccelerator-SecurityRe-ConfigRecorderRoleC4E33A-X0DGQJYIMPU3',
+    recordingGroup: {
+      allSupported: false,
+      includeGlobalResourceTypes: false,
+      resourceTypes: undefined,
+      exclusionByResourceTypes: { resourceTypes: ['AWS::EC2::NetworkInterface'] },
+      recordingStrategy: { useOnly: 'EXCLUSION_BY_RESOURCE_TYPES' },
+    },
+    recordingMode: {
+      recordingFrequency: 'DAILY',
+      recordingModeOverrides: [{ resourceTypes: ['AWS::EC2::SecurityGroup'], recordingFrequency: 'CONTINUOUS' }],
+    },
+  });
+});
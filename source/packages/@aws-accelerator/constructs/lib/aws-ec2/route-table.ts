@@ -78,7 +78,7 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         transitGatewayId: transitGatewayId,
       });
     }
@@ -119,7 +119,7 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         natGatewayId: natGatewayId,
       });
     }
@@ -158,7 +158,7 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         localGatewayId: localGatewayId,
       });
     }
@@ -200,7 +200,7 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         gatewayId: this.vpc.internetGatewayId,
       });
     }
@@ -245,7 +245,7 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         gatewayId: this.vpc.virtualPrivateGatewayId,
       });
     }
@@ -257,6 +257,45 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
     return route;
   }
 
+  public addEgressOnlyInternetGatewayRoute(
+    id: string,
+    destination?: string,
+    destinationPrefixListId?: string,
+    logGroupKmsKey?: cdk.aws_kms.IKey,
+    logRetentionInDays?: number,
+  ): cdk.aws_ec2.CfnRoute | PrefixListRoute {
+    if (!this.vpc.egressOnlyInternetGatewayId) {
+      throw new Error('Attempting to add Egress-only Internet Gateway route without an EIGW defined.');
+    }
+
+    if (destinationPrefixListId) {
+      if (!logGroupKmsKey) {
+        throw new Error('Attempting to add prefix list route without specifying log group KMS key');
+      }
+      if (!logRetentionInDays) {
+        throw new Error('Attempting to add prefix list route without specifying log group retention period');
+      }
+
+      return new PrefixListRoute(this, id, {
+        routeTableId: this.routeTableId,
+        destinationPrefixListId,
+        logGroupKmsKey,
+        logRetentionInDays,
+        egressOnlyInternetGatewayId: this.vpc.egressOnlyInternetGatewayId,
+      });
+    }
+
+    if (!destination) {
+      throw new Error('Attempting to add CIDR route without specifying destination');
+    }
+
+    return new cdk.aws_ec2.CfnRoute(this, id, {
+      routeTableId: this.routeTableId,
+      ...this.getCidrDestination(destination),
+      egressOnlyInternetGatewayId: this.vpc.egressOnlyInternetGatewayId,
+    });
+  }
+
   public addGatewayAssociation(type: string): void {
     if (type === 'internetGateway') {
       const association = new cdk.aws_ec2.CfnGatewayRouteTableAssociation(this, 'GatewayAssociation', {
@@ -274,6 +313,20 @@ export abstract class RouteTableBase extends cdk.Resource implements IRouteTable
       this.vpc.addVirtualPrivateGatewayDependent(association);
     }
   }
+
+  /**
+   * Returns the IPv4 or IPv6 destination property of a CIDR route
+   * @param destination
+   * @returns
+   */
+  protected getCidrDestination(destination: string): {
+    destinationCidrBlock?: string;
+    destinationIpv6CidrBlock?: string;
+  } {
+    return destination.includes(':')
+      ? { destinationIpv6CidrBlock: destination }
+      : { destinationCidrBlock: destination };
+  }
 }
 
 export class ImportedRouteTable extends RouteTableBase {
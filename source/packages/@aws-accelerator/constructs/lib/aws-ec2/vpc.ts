@@ -70,6 +70,10 @@ export interface SubnetProps {
   readonly basePool?: string[];
   readonly ipamAllocation?: IpamAllocationConfig;
   readonly ipv4CidrBlock?: string;
+  readonly ipv6CidrBlock?: string;
+  readonly ipv6Only?: boolean;
+  readonly assignIpv6OnCreation?: boolean;
+  readonly enableDns64?: boolean;
   readonly kmsKey?: cdk.aws_kms.IKey;
   readonly logRetentionInDays?: number;
   readonly tags?: cdk.CfnTag[];
@@ -128,6 +132,7 @@ export class Subnet extends SubnetBase {
   public readonly availabilityZone?: string;
   public readonly availabilityZoneId?: string;
   public readonly ipv4CidrBlock: string;
+  public readonly ipv6CidrBlock?: string;
   public readonly mapPublicIpOnLaunch?: boolean;
   public readonly routeTable?: IRouteTable;
   public readonly subnetId: string;
@@ -143,16 +148,26 @@ export class Subnet extends SubnetBase {
     this.mapPublicIpOnLaunch = props.mapPublicIpOnLaunch;
     this.routeTable = props.routeTable;
     this.outpostArn = props.outpost?.arn;
+    this.ipv6CidrBlock = props.ipv6CidrBlock;
 
     // Determine if IPAM subnet or native
     let resource: cdk.aws_ec2.CfnSubnet | IpamSubnet;
 
-    if (props.ipv4CidrBlock) {
-      this.ipv4CidrBlock = props.ipv4CidrBlock;
+    if (props.ipv4CidrBlock || props.ipv6Only) {
+      if (props.ipv6Only && !props.ipv6CidrBlock) {
+        throw new Error(
+          `Error creating subnet ${props.name}: ipv6CidrBlock property must be defined for IPv6-only subnets`,
+        );
+      }
+      this.ipv4CidrBlock = props.ipv4CidrBlock ?? '';
 
       resource = new cdk.aws_ec2.CfnSubnet(this, 'Resource', {
         vpcId: props.vpc.vpcId,
         cidrBlock: props.ipv4CidrBlock,
+        ipv6CidrBlock: props.ipv6CidrBlock,
+        ipv6Native: props.ipv6Only,
+        assignIpv6AddressOnCreation: props.assignIpv6OnCreation,
+        enableDns64: props.enableDns64,
         availabilityZone: props.availabilityZone,
         availabilityZoneId: props.availabilityZoneId,
         mapPublicIpOnLaunch: props.mapPublicIpOnLaunch,
@@ -184,6 +199,9 @@ export class Subnet extends SubnetBase {
           `Error creating subnet ${props.name}: logRetentionInDays property must be defined if not specifying ipv4CidrBlock`,
         );
       }
+      if (props.ipv6CidrBlock) {
+        throw new Error(`Error creating subnet ${props.name}: ipv6CidrBlock is not supported with ipamAllocation`);
+      }
 
       resource = new IpamSubnet(this, 'Resource', {
         name: props.name,
@@ -590,6 +608,10 @@ export interface IVpc extends cdk.IResource {
    * The InternetGatewayId assigned to VPC
    */
   internetGatewayId?: string;
+  /**
+   * The EgressOnlyInternetGatewayId assigned to VPC
+   */
+  egressOnlyInternetGatewayId?: string;
   /**
    * The VirtualPrivateGatewayId assigned to VPC
    */
@@ -606,6 +628,7 @@ export interface VpcProps {
   readonly enableDnsSupport?: boolean;
   readonly instanceTenancy?: 'default' | 'dedicated';
   readonly internetGateway?: boolean;
+  readonly egressOnlyInternetGateway?: boolean;
   readonly ipv4CidrBlock?: string;
   readonly ipv4IpamPoolId?: string;
   readonly ipv4NetmaskLength?: number;
@@ -625,6 +648,7 @@ abstract class VpcBase extends cdk.Resource implements IVpc {
   public abstract readonly vpcId: string;
   public abstract readonly cidrs: cdk.aws_ec2.CfnVPCCidrBlock[];
   public internetGatewayId?: string;
+  public egressOnlyInternetGatewayId?: string;
   public virtualPrivateGatewayId?: string;
   protected internetGateway: cdk.aws_ec2.CfnInternetGateway | undefined;
   protected internetGatewayAttachment: cdk.aws_ec2.CfnVPCGatewayAttachment | undefined;
@@ -768,12 +792,18 @@ abstract class VpcBase extends cdk.Resource implements IVpc {
     ipv6NetmaskLength?: number;
     ipv6Pool?: string;
   }) {
+    // IPv6 CIDR blocks are numbered separately from IPv4 CIDR blocks,
+    // so adding an IPv4 CIDR does not change their logical IDs.
+    const isIpv6 = !!(options.amazonProvidedIpv6CidrBlock || options.ipv6CidrBlock || options.ipv6IpamPoolId);
+    const cidrCount = this.cidrs.filter(cidr => this.isIpv6CidrBlock(cidr) === isIpv6).length;
+    const logicalIdPrefix = isIpv6 ? 'VpcIpv6CidrBlock' : 'VpcCidrBlock';
+
     // This block is required for backwards compatibility
     // with a previous iteration. It appends a number to the
     // logical ID so more than two VPC CIDRs can be defined.
-    let logicalId = 'VpcCidrBlock';
-    if (this.cidrs.length > 0) {
-      logicalId = `VpcCidrBlock${this.cidrs.length}`;
+    let logicalId = logicalIdPrefix;
+    if (cidrCount > 0) {
+      logicalId = `${logicalIdPrefix}${cidrCount}`;
     }
 
     // Create a secondary VPC CIDR
@@ -785,12 +815,22 @@ abstract class VpcBase extends cdk.Resource implements IVpc {
         ipv4NetmaskLength: options.ipv4NetmaskLength,
         ipv6CidrBlock: options.ipv6CidrBlock,
         ipv6IpamPoolId: options.ipv6IpamPoolId,
+        ipv6NetmaskLength: options.ipv6NetmaskLength,
         ipv6Pool: options.ipv6Pool,
         vpcId: this.vpcId,
       }),
     );
   }
 
+  /**
+   * Returns true if the CIDR block is an IPv6 CIDR block
+   * @param cidr
+   * @returns
+   */
+  private isIpv6CidrBlock(cidr: cdk.aws_ec2.CfnVPCCidrBlock): boolean {
+    return !!(cidr.amazonProvidedIpv6CidrBlock || cidr.ipv6CidrBlock || cidr.ipv6IpamPoolId);
+  }
+
   addInternetGateway() {
     if (this.internetGatewayId) {
       throw new Error(`Internet Gateway is already configured to VPC ${this.name}`);
@@ -803,6 +843,16 @@ abstract class VpcBase extends cdk.Resource implements IVpc {
     this.internetGatewayId = this.internetGateway.ref;
   }
 
+  addEgressOnlyInternetGateway() {
+    if (this.egressOnlyInternetGatewayId) {
+      throw new Error(`Egress-only Internet Gateway is already configured to VPC ${this.name}`);
+    }
+    const egressOnlyInternetGateway = new cdk.aws_ec2.CfnEgressOnlyInternetGateway(this, 'EgressOnlyInternetGateway', {
+      vpcId: this.vpcId,
+    });
+    this.egressOnlyInternetGatewayId = egressOnlyInternetGateway.ref;
+  }
+
   addVirtualPrivateGateway(asn: number) {
     if (this.virtualPrivateGatewayId) {
       throw new Error(`Virtual Private Gateway is already configured to VPC ${this.name}`);
@@ -883,6 +933,10 @@ export class Vpc extends VpcBase {
       this.internetGatewayId = this.internetGateway.ref;
     }
 
+    if (props.egressOnlyInternetGateway) {
+      this.addEgressOnlyInternetGateway();
+    }
+
     if (props.virtualPrivateGateway) {
       this.virtualPrivateGateway = new cdk.aws_ec2.VpnGateway(this, `VirtualPrivateGateway`, {
         amazonSideAsn: props.virtualPrivateGateway.asn,
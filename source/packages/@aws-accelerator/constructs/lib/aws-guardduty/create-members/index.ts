@@ -26,6 +26,19 @@ import {
 } from '@aws-sdk/client-guardduty';
 import { OrganizationsClient, ListAccountsCommand } from '@aws-sdk/client-organizations';
 
+type AutoEnableType = 'ALL' | 'NEW' | 'NONE';
+
+interface OrganizationFeatureOptions {
+  readonly enableS3Protection: boolean;
+  readonly enableEksProtection: boolean;
+  readonly enableMalwareProtection?: boolean;
+  readonly enableRdsProtection?: boolean;
+  readonly enableLambdaProtection?: boolean;
+  readonly enableRuntimeMonitoring?: boolean;
+  readonly runtimeMonitoringAgentManagement?: { [key: string]: string };
+  readonly featureAutoEnable: { [key: string]: AutoEnableType };
+}
+
 /**
  * enable-guardduty - lambda handler
  *
@@ -43,6 +56,18 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
   const partition = event.ResourceProperties['partition'];
   const enableS3Protection: boolean = event.ResourceProperties['enableS3Protection'] === 'true';
   const enableEksProtection: boolean = event.ResourceProperties['enableEksProtection'] === 'true';
+  const featureOptions: OrganizationFeatureOptions = {
+    enableS3Protection,
+    enableEksProtection,
+    enableMalwareProtection: toOptionalBoolean(event.ResourceProperties['enableMalwareProtection']),
+    enableRdsProtection: toOptionalBoolean(event.ResourceProperties['enableRdsProtection']),
+    enableLambdaProtection: toOptionalBoolean(event.ResourceProperties['enableLambdaProtection']),
+    enableRuntimeMonitoring: toOptionalBoolean(event.ResourceProperties['enableRuntimeMonitoring']),
+    runtimeMonitoringAgentManagement: event.ResourceProperties['runtimeMonitoringAgentManagement'],
+    featureAutoEnable: event.ResourceProperties['featureAutoEnable'] ?? {},
+  };
+  const autoEnableOrganizationMembers: AutoEnableType =
+    event.ResourceProperties['autoEnableOrganizationMembers'] ?? 'ALL';
   const solutionId = process.env['SOLUTION_ID'];
   const chunkSize = process.env['CHUNK_SIZE'] ? parseInt(process.env['CHUNK_SIZE']) : 50;
 
@@ -89,11 +114,11 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
         );
       }
 
-      const features = getOrganizationFeaturesEnabled(enableS3Protection, enableEksProtection);
+      const features = getOrganizationFeatures(featureOptions);
 
       console.log('starting - UpdateOrganizationConfiguration');
       try {
-        await updateOrganizationConfiguration(guardDutyClient, detectorId!, features, 'ALL');
+        await updateOrganizationConfiguration(guardDutyClient, detectorId!, features, autoEnableOrganizationMembers);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } catch (e: any) {
         return { Status: 'Failure', StatusCode: e.statusCode };
@@ -103,7 +128,7 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
       return { Status: 'Success', StatusCode: 200 };
 
     case 'Delete':
-      const disabledFeatures = getOrganizationFeaturesEnabled(false, false);
+      const disabledFeatures = getOrganizationFeatures(featureOptions, true);
       try {
         await updateOrganizationConfiguration(guardDutyClient, detectorId!, disabledFeatures, 'NONE');
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -147,26 +172,77 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
   }
 }
 
-function convertBooleanToGuardDutyFormat(flag: boolean) {
+function toOptionalBoolean(value: string | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === 'true';
+}
+
+function convertBooleanToGuardDutyFormat(flag: boolean, autoEnable?: AutoEnableType): AutoEnableType {
   if (flag) {
-    return 'NEW';
+    return autoEnable ?? 'NEW';
   } else {
     return 'NONE';
   }
 }
 
-function getOrganizationFeaturesEnabled(s3DataEvents: boolean, eksAuditLogs: boolean) {
+function getOrganizationFeatures(options: OrganizationFeatureOptions, disable = false) {
   const featureList: OrganizationFeatureConfiguration[] = [];
+  const autoEnable = (flag: boolean, feature: string) =>
+    convertBooleanToGuardDutyFormat(flag && !disable, options.featureAutoEnable[feature]);
 
   featureList.push({
-    AutoEnable: convertBooleanToGuardDutyFormat(s3DataEvents),
+    AutoEnable: autoEnable(options.enableS3Protection, 's3Protection'),
     Name: 'S3_DATA_EVENTS',
   });
 
   featureList.push({
-    AutoEnable: convertBooleanToGuardDutyFormat(eksAuditLogs),
+    AutoEnable: autoEnable(options.enableEksProtection, 'eksProtection'),
     Name: 'EKS_AUDIT_LOGS',
   });
+
+  // Protection plans not present in the configuration are left unchanged
+  if (options.enableMalwareProtection !== undefined) {
+    featureList.push({
+      AutoEnable: autoEnable(options.enableMalwareProtection, 'malwareProtection'),
+      Name: 'EBS_MALWARE_PROTECTION',
+    });
+  }
+
+  if (options.enableRdsProtection !== undefined) {
+    featureList.push({
+      AutoEnable: autoEnable(options.enableRdsProtection, 'rdsProtection'),
+      Name: 'RDS_LOGIN_EVENTS',
+    });
+  }
+
+  if (options.enableLambdaProtection !== undefined) {
+    featureList.push({
+      AutoEnable: autoEnable(options.enableLambdaProtection, 'lambdaProtection'),
+      Name: 'LAMBDA_NETWORK_LOGS',
+    });
+  }
+
+  if (options.enableRuntimeMonitoring !== undefined) {
+    const runtimeMonitoring = options.enableRuntimeMonitoring;
+    const agentManagement = options.runtimeMonitoringAgentManagement ?? {};
+    featureList.push({
+      AutoEnable: autoEnable(runtimeMonitoring, 'runtimeMonitoring'),
+      Name: 'RUNTIME_MONITORING',
+      AdditionalConfiguration: [
+        {
+          AutoEnable: autoEnable(runtimeMonitoring && agentManagement['eksAddon'] === 'true', 'runtimeMonitoring'),
+          Name: 'EKS_ADDON_MANAGEMENT',
+        },
+        {
+          AutoEnable: autoEnable(runtimeMonitoring && agentManagement['ecsFargate'] === 'true', 'runtimeMonitoring'),
+          Name: 'ECS_FARGATE_AGENT_MANAGEMENT',
+        },
+        {
+          AutoEnable: autoEnable(runtimeMonitoring && agentManagement['ec2'] === 'true', 'runtimeMonitoring'),
+          Name: 'EC2_AGENT_MANAGEMENT',
+        },
+      ],
+    });
+  }
   return featureList;
 }
 
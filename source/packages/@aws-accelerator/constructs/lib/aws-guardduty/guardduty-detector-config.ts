@@ -23,6 +23,24 @@ export enum GuardDutyExportConfigDestinationTypes {
   S3 = 's3',
 }
 
+/**
+ * GuardDuty Runtime Monitoring automated agent management
+ */
+export interface GuardDutyRuntimeMonitoringAgentManagement {
+  /**
+   * Amazon EKS add-on management
+   */
+  readonly eksAddon: boolean;
+  /**
+   * Amazon ECS Fargate agent management
+   */
+  readonly ecsFargate: boolean;
+  /**
+   * Amazon EC2 agent management
+   */
+  readonly ec2: boolean;
+}
+
 /**
  * Initialized GuardDutyDetectorConfigProps properties
  */
@@ -35,6 +53,26 @@ export interface GuardDutyDetectorConfigProps {
    * EKS Protection
    */
   readonly enableEksProtection: boolean;
+  /**
+   * Malware Protection for EC2, not managed when undefined
+   */
+  readonly enableMalwareProtection?: boolean;
+  /**
+   * RDS Protection, not managed when undefined
+   */
+  readonly enableRdsProtection?: boolean;
+  /**
+   * Lambda Protection, not managed when undefined
+   */
+  readonly enableLambdaProtection?: boolean;
+  /**
+   * Runtime Monitoring, not managed when undefined
+   */
+  readonly enableRuntimeMonitoring?: boolean;
+  /**
+   * Runtime Monitoring automated agent management
+   */
+  readonly runtimeMonitoringAgentManagement?: GuardDutyRuntimeMonitoringAgentManagement;
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -77,6 +115,12 @@ export class GuardDutyDetectorConfig extends Construct {
           ],
           Resource: '*',
         },
+        {
+          Sid: 'ServiceLinkedRoleGuardDuty',
+          Effect: 'Allow',
+          Action: ['iam:CreateServiceLinkedRole', 'iam:GetRole'],
+          Resource: '*',
+        },
       ],
     });
 
@@ -87,6 +131,11 @@ export class GuardDutyDetectorConfig extends Construct {
         exportFrequency: props.exportFrequency,
         enableS3Protection: props.enableS3Protection,
         enableEksProtection: props.enableEksProtection,
+        enableMalwareProtection: props.enableMalwareProtection,
+        enableRdsProtection: props.enableRdsProtection,
+        enableLambdaProtection: props.enableLambdaProtection,
+        enableRuntimeMonitoring: props.enableRuntimeMonitoring,
+        runtimeMonitoringAgentManagement: props.runtimeMonitoringAgentManagement,
       },
     });
 
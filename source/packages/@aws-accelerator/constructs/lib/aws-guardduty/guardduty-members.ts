@@ -13,9 +13,27 @@
 
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
+import { GuardDutyRuntimeMonitoringAgentManagement } from './guardduty-detector-config';
 
 const path = require('path');
 
+/**
+ * GuardDuty organization auto-enable types
+ */
+export type GuardDutyAutoEnableType = 'ALL' | 'NEW' | 'NONE';
+
+/**
+ * Organization auto-enable settings of the GuardDuty protection plans
+ */
+export interface GuardDutyFeatureAutoEnable {
+  readonly s3Protection?: GuardDutyAutoEnableType;
+  readonly eksProtection?: GuardDutyAutoEnableType;
+  readonly malwareProtection?: GuardDutyAutoEnableType;
+  readonly rdsProtection?: GuardDutyAutoEnableType;
+  readonly lambdaProtection?: GuardDutyAutoEnableType;
+  readonly runtimeMonitoring?: GuardDutyAutoEnableType;
+}
+
 /**
  * Initialized GuardDutyMembersProps properties
  */
@@ -28,6 +46,35 @@ export interface GuardDutyMembersProps {
    * EKS Protection enable flag
    */
   readonly enableEksProtection: boolean;
+  /**
+   * Malware Protection for EC2 enable flag, not managed when undefined
+   */
+  readonly enableMalwareProtection?: boolean;
+  /**
+   * RDS Protection enable flag, not managed when undefined
+   */
+  readonly enableRdsProtection?: boolean;
+  /**
+   * Lambda Protection enable flag, not managed when undefined
+   */
+  readonly enableLambdaProtection?: boolean;
+  /**
+   * Runtime Monitoring enable flag, not managed when undefined
+   */
+  readonly enableRuntimeMonitoring?: boolean;
+  /**
+   * Runtime Monitoring automated agent management
+   */
+  readonly runtimeMonitoringAgentManagement?: GuardDutyRuntimeMonitoringAgentManagement;
+  /**
+   * Which organization member accounts have GuardDuty enabled automatically, defaults to ALL
+   */
+  readonly autoEnableOrganizationMembers?: GuardDutyAutoEnableType;
+  /**
+   * Which organization member accounts have each protection plan enabled automatically.
+   * Defaults to NEW for enabled protection plans
+   */
+  readonly featureAutoEnable?: GuardDutyFeatureAutoEnable;
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -99,6 +146,13 @@ export class GuardDutyMembers extends Construct {
         partition: cdk.Aws.PARTITION,
         enableS3Protection: props.enableS3Protection,
         enableEksProtection: props.enableEksProtection,
+        enableMalwareProtection: props.enableMalwareProtection,
+        enableRdsProtection: props.enableRdsProtection,
+        enableLambdaProtection: props.enableLambdaProtection,
+        enableRuntimeMonitoring: props.enableRuntimeMonitoring,
+        runtimeMonitoringAgentManagement: props.runtimeMonitoringAgentManagement,
+        autoEnableOrganizationMembers: props.autoEnableOrganizationMembers,
+        featureAutoEnable: props.featureAutoEnable,
       },
     });
 
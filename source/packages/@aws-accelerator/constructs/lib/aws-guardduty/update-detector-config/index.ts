@@ -14,10 +14,11 @@
 import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
 import {
   BadRequestException,
-  DataSourceConfigurations,
+  DetectorFeatureConfiguration,
   GuardDutyClient,
   ListDetectorsCommand,
   ListMembersCommand,
+  MemberFeaturesConfiguration,
   UpdateDetectorCommand,
   UpdateMemberDetectorsCommand,
 } from '@aws-sdk/client-guardduty';
@@ -31,6 +32,26 @@ interface UpdateDetectorOptions {
    * Enable S3 protection
    */
   readonly enableS3Protection: boolean;
+  /**
+   * Enable Malware Protection for EC2, not managed when undefined
+   */
+  readonly enableMalwareProtection?: boolean;
+  /**
+   * Enable RDS protection, not managed when undefined
+   */
+  readonly enableRdsProtection?: boolean;
+  /**
+   * Enable Lambda protection, not managed when undefined
+   */
+  readonly enableLambdaProtection?: boolean;
+  /**
+   * Enable Runtime Monitoring, not managed when undefined
+   */
+  readonly enableRuntimeMonitoring?: boolean;
+  /**
+   * Runtime Monitoring automated agent management
+   */
+  readonly runtimeMonitoringAgentManagement?: { eksAddon: boolean; ecsFargate: boolean; ec2: boolean };
   /**
    * Finding export frequency
    */
@@ -62,39 +83,33 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
 
   console.log(`S3 Protection Enable: ${options.enableS3Protection}`);
   console.log(`EKS Protection Enable: ${options.enableEksProtection}`);
+  console.log(`Malware Protection Enable: ${options.enableMalwareProtection}`);
+  console.log(`RDS Protection Enable: ${options.enableRdsProtection}`);
+  console.log(`Lambda Protection Enable: ${options.enableLambdaProtection}`);
+  console.log(`Runtime Monitoring Enable: ${options.enableRuntimeMonitoring}`);
 
   switch (event.RequestType) {
     case 'Create':
     case 'Update':
-      await updateMemberDetectors(guardDutyClient, detectorId, existingMemberAccountIds, options);
-      await updateMainDetector(guardDutyClient, detectorId, options);
+      await updateMemberDetectors(
+        guardDutyClient,
+        detectorId,
+        existingMemberAccountIds,
+        getMemberFeatures(getFeatures(options)),
+      );
+      await updateMainDetector(guardDutyClient, detectorId, options.exportFrequency, getFeatures(options));
 
       return { Status: 'Success', StatusCode: 200 };
 
     case 'Delete':
       console.log('starting - Delete');
-      const dataSourcesToRemove: DataSourceConfigurations = {};
-      dataSourcesToRemove.S3Logs = { Enable: false };
-      dataSourcesToRemove.Kubernetes = { AuditLogs: { Enable: false } };
-      await throttlingBackOff(() =>
-        guardDutyClient.send(
-          new UpdateDetectorCommand({
-            DetectorId: detectorId,
-            Enable: false,
-            FindingPublishingFrequency: options.exportFrequency,
-            DataSources: dataSourcesToRemove,
-          }),
-        ),
-      );
-
-      await throttlingBackOff(() =>
-        guardDutyClient.send(
-          new UpdateMemberDetectorsCommand({
-            DetectorId: detectorId,
-            AccountIds: existingMemberAccountIds,
-            DataSources: dataSourcesToRemove,
-          }),
-        ),
+      const featuresToRemove = getFeatures(options, true);
+      await updateMainDetector(guardDutyClient, detectorId, options.exportFrequency, featuresToRemove, false);
+      await updateMemberDetectors(
+        guardDutyClient,
+        detectorId,
+        existingMemberAccountIds,
+        getMemberFeatures(featuresToRemove),
       );
 
       return { Status: 'Success', StatusCode: 200 };
@@ -109,13 +124,115 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function setOptions(resourceProperties: { [key: string]: any }): UpdateDetectorOptions {
+  const agentManagement = resourceProperties['runtimeMonitoringAgentManagement'];
   return {
     enableEksProtection: resourceProperties['enableEksProtection'] === 'true',
     enableS3Protection: resourceProperties['enableS3Protection'] === 'true',
+    enableMalwareProtection: toOptionalBoolean(resourceProperties['enableMalwareProtection']),
+    enableRdsProtection: toOptionalBoolean(resourceProperties['enableRdsProtection']),
+    enableLambdaProtection: toOptionalBoolean(resourceProperties['enableLambdaProtection']),
+    enableRuntimeMonitoring: toOptionalBoolean(resourceProperties['enableRuntimeMonitoring']),
+    runtimeMonitoringAgentManagement: agentManagement
+      ? {
+          eksAddon: agentManagement['eksAddon'] === 'true',
+          ecsFargate: agentManagement['ecsFargate'] === 'true',
+          ec2: agentManagement['ec2'] === 'true',
+        }
+      : undefined,
     exportFrequency: resourceProperties['exportFrequency'],
   };
 }
 
+/**
+ * Convert an optional custom resource property to a boolean
+ * @param value string | undefined
+ * @returns boolean | undefined
+ */
+function toOptionalBoolean(value: string | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === 'true';
+}
+
+/**
+ * Get the detector feature configurations, only managed features are returned
+ * @param options UpdateDetectorOptions
+ * @param disable boolean
+ * @returns DetectorFeatureConfiguration[]
+ */
+function getFeatures(options: UpdateDetectorOptions, disable = false): DetectorFeatureConfiguration[] {
+  const toStatus = (enable: boolean) => (enable && !disable ? 'ENABLED' : 'DISABLED');
+  const features: DetectorFeatureConfiguration[] = [
+    { Name: 'S3_DATA_EVENTS', Status: toStatus(options.enableS3Protection) },
+    { Name: 'EKS_AUDIT_LOGS', Status: toStatus(options.enableEksProtection) },
+  ];
+
+  if (options.enableMalwareProtection !== undefined) {
+    features.push({ Name: 'EBS_MALWARE_PROTECTION', Status: toStatus(options.enableMalwareProtection) });
+  }
+  if (options.enableRdsProtection !== undefined) {
+    features.push({ Name: 'RDS_LOGIN_EVENTS', Status: toStatus(options.enableRdsProtection) });
+  }
+  if (options.enableLambdaProtection !== undefined) {
+    features.push({ Name: 'LAMBDA_NETWORK_LOGS', Status: toStatus(options.enableLambdaProtection) });
+  }
+  if (options.enableRuntimeMonitoring !== undefined) {
+    const runtimeMonitoring = options.enableRuntimeMonitoring;
+    const agentManagement = options.runtimeMonitoringAgentManagement;
+    features.push({
+      Name: 'RUNTIME_MONITORING',
+      Status: toStatus(runtimeMonitoring),
+      AdditionalConfiguration: [
+        { Name: 'EKS_ADDON_MANAGEMENT', Status: toStatus(runtimeMonitoring && !!agentManagement?.eksAddon) },
+        { Name: 'ECS_FARGATE_AGENT_MANAGEMENT', Status: toStatus(runtimeMonitoring && !!agentManagement?.ecsFargate) },
+        { Name: 'EC2_AGENT_MANAGEMENT', Status: toStatus(runtimeMonitoring && !!agentManagement?.ec2) },
+      ],
+    });
+  }
+
+  return features;
+}
+
+/**
+ * Get the member account feature configurations for the detector feature configurations
+ * @param features DetectorFeatureConfiguration[]
+ * @returns MemberFeaturesConfiguration[]
+ */
+function getMemberFeatures(features: DetectorFeatureConfiguration[]): MemberFeaturesConfiguration[] {
+  return features.map(feature => ({
+    Name: feature.Name,
+    Status: feature.Status,
+    AdditionalConfiguration: feature.AdditionalConfiguration?.map(item => ({ Name: item.Name, Status: item.Status })),
+  }));
+}
+
+/**
+ * Get the features to retry with when the region rejects the detector features. Only S3 protection is retried,
+ * as EKS protection is not available in every region. The update fails when any other protection plan is
+ * configured to be enabled, rather than silently dropping it.
+ * @param features DetectorFeatureConfiguration[] | MemberFeaturesConfiguration[]
+ * @param error BadRequestException
+ * @returns DetectorFeatureConfiguration[] | MemberFeaturesConfiguration[]
+ */
+function getFallbackFeatures<T extends DetectorFeatureConfiguration | MemberFeaturesConfiguration>(
+  features: T[],
+  error: BadRequestException,
+): T[] {
+  const droppedFeatures = features.filter(feature => feature.Name !== 'S3_DATA_EVENTS');
+  const droppedProtectionPlans = droppedFeatures.filter(
+    feature => feature.Status === 'ENABLED' && feature.Name !== 'EKS_AUDIT_LOGS',
+  );
+  if (droppedProtectionPlans.length > 0) {
+    throw new Error(
+      `Unable to enable GuardDuty features ${droppedProtectionPlans.map(feature => feature.Name)}: ${error.message}`,
+    );
+  }
+  console.warn(
+    `Retrying with only S3 protection, features ${droppedFeatures.map(feature => feature.Name)} are not updated: ${
+      error.message
+    }`,
+  );
+  return features.filter(feature => feature.Name === 'S3_DATA_EVENTS');
+}
+
 /**
  * Get existing GuardDuty detector ID
  * @param guardDutyClient GuardDutyClient
@@ -160,17 +277,17 @@ async function getMemberAccountIds(guardDutyClient: GuardDutyClient, detectorId:
  * @param guardDutyClient GuardDutyClient
  * @param detectorId string
  * @param existingMemberAccountIds string []
- * @param options UpdateDetectorOptions
+ * @param features MemberFeaturesConfiguration[]
  */
 async function updateMemberDetectors(
   guardDutyClient: GuardDutyClient,
   detectorId: string,
   existingMemberAccountIds: string[],
-  options: UpdateDetectorOptions,
+  features: MemberFeaturesConfiguration[],
 ) {
-  let dataSourcesToUpdate: DataSourceConfigurations = {};
-  dataSourcesToUpdate.S3Logs = { Enable: options.enableS3Protection };
-  dataSourcesToUpdate.Kubernetes = { AuditLogs: { Enable: options.enableEksProtection } };
+  if (existingMemberAccountIds.length === 0) {
+    return;
+  }
   console.log('starting - UpdateMembersCommand');
   try {
     await throttlingBackOff(() =>
@@ -178,20 +295,19 @@ async function updateMemberDetectors(
         new UpdateMemberDetectorsCommand({
           DetectorId: detectorId,
           AccountIds: existingMemberAccountIds,
-          DataSources: dataSourcesToUpdate,
+          Features: features,
         }),
       ),
     );
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  } catch (e: any) {
+  } catch (e: unknown) {
     if (e instanceof BadRequestException) {
-      dataSourcesToUpdate = { S3Logs: { Enable: options.enableS3Protection } };
+      const fallbackFeatures = getFallbackFeatures(features, e);
       await throttlingBackOff(() =>
         guardDutyClient.send(
           new UpdateMemberDetectorsCommand({
             DetectorId: detectorId,
             AccountIds: existingMemberAccountIds,
-            DataSources: dataSourcesToUpdate,
+            Features: fallbackFeatures,
           }),
         ),
       );
@@ -201,37 +317,43 @@ async function updateMemberDetectors(
   }
 }
 
+/**
+ * Update the delegated administrator detector configuration
+ * @param guardDutyClient GuardDutyClient
+ * @param detectorId string
+ * @param exportFrequency string | undefined
+ * @param features DetectorFeatureConfiguration[]
+ * @param enable boolean
+ */
 async function updateMainDetector(
   guardDutyClient: GuardDutyClient,
   detectorId: string,
-  options: UpdateDetectorOptions,
+  exportFrequency: string | undefined,
+  features: DetectorFeatureConfiguration[],
+  enable = true,
 ) {
-  let dataSourcesToUpdate: DataSourceConfigurations = {};
-  dataSourcesToUpdate.S3Logs = { Enable: options.enableS3Protection };
-  dataSourcesToUpdate.Kubernetes = { AuditLogs: { Enable: options.enableEksProtection } };
   console.log('starting - UpdateDetectorCommand');
   try {
     await throttlingBackOff(() =>
       guardDutyClient.send(
         new UpdateDetectorCommand({
           DetectorId: detectorId,
-          Enable: true,
-          FindingPublishingFrequency: options.exportFrequency,
-          DataSources: dataSourcesToUpdate,
+          Enable: enable,
+          FindingPublishingFrequency: exportFrequency,
+          Features: features,
         }),
       ),
     );
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  } catch (e: any) {
+  } catch (e: unknown) {
     if (e instanceof BadRequestException) {
-      dataSourcesToUpdate = { S3Logs: { Enable: options.enableS3Protection } };
+      const fallbackFeatures = getFallbackFeatures(features, e);
       await throttlingBackOff(() =>
         guardDutyClient.send(
           new UpdateDetectorCommand({
             DetectorId: detectorId,
-            Enable: true,
-            FindingPublishingFrequency: options.exportFrequency,
-            DataSources: dataSourcesToUpdate,
+            Enable: enable,
+            FindingPublishingFrequency: exportFrequency,
+            Features: fallbackFeatures,
           }),
         ),
       );
@@ -0,0 +1,235 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { chunkArray, setOrganizationsClient, setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AssociateMemberCommand,
+  DisableCommand,
+  DisassociateMemberCommand,
+  EnableCommand,
+  Inspector2Client,
+  ListMembersCommand,
+  ResourceScanType,
+  UpdateOrganizationConfigurationCommand,
+} from '@aws-sdk/client-inspector2';
+import { ListAccountsCommand, OrganizationsClient } from '@aws-sdk/client-organizations';
+
+/**
+ * Inspector scan type flags
+ */
+interface ScanTypes {
+  readonly ec2: boolean;
+  readonly ecr: boolean;
+  readonly lambda: boolean;
+  readonly lambdaCode: boolean;
+}
+
+/**
+ * enable-inspector-members - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const partition = event.ResourceProperties['partition'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const scanTypes = getScanTypes(event.ResourceProperties);
+  const solutionId = process.env['SOLUTION_ID'];
+  // Inspector Enable and Disable APIs accept up to 100 accounts per request
+  const chunkSize = process.env['CHUNK_SIZE'] ? parseInt(process.env['CHUNK_SIZE']) : 100;
+
+  const organizationsClient = setOrganizationsClient(partition, solutionId);
+  const inspectorClient = new Inspector2Client({
+    region: region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  console.log(`Inspector scan types: ${JSON.stringify(scanTypes)}`);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      const allAccountIds = await getOrganizationAccountIds(organizationsClient);
+      const memberAccountIds = await getMemberAccountIds(inspectorClient);
+
+      console.log('starting - AssociateMemberCommand');
+      for (const accountId of allAccountIds) {
+        if (accountId === adminAccountId || memberAccountIds.includes(accountId)) {
+          continue;
+        }
+        console.log(`Associating account ${accountId} as an Inspector member`);
+        await throttlingBackOff(() => inspectorClient.send(new AssociateMemberCommand({ accountId })));
+      }
+
+      console.log('starting - UpdateOrganizationConfigurationCommand');
+      await throttlingBackOff(() =>
+        inspectorClient.send(new UpdateOrganizationConfigurationCommand({ autoEnable: scanTypes })),
+      );
+
+      const resourceTypes = getResourceTypes(scanTypes);
+      const chunkedAccountIds = chunkArray(allAccountIds, chunkSize);
+      if (resourceTypes.length > 0) {
+        for (const accountIds of chunkedAccountIds) {
+          console.log(`Enabling Inspector scan types ${resourceTypes} for ${accountIds.length} accounts`);
+          await throttlingBackOff(() => inspectorClient.send(new EnableCommand({ accountIds, resourceTypes })));
+        }
+      }
+
+      //
+      // Disable scan types that were previously enabled but are no longer defined in the configuration
+      //
+      if (event.RequestType === 'Update') {
+        const previousResourceTypes = getResourceTypes(getScanTypes(event.OldResourceProperties));
+        const removedResourceTypes = previousResourceTypes.filter(item => !resourceTypes.includes(item));
+        if (removedResourceTypes.length > 0) {
+          await disableScanTypes(inspectorClient, chunkedAccountIds, removedResourceTypes);
+        }
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      console.log('starting - UpdateOrganizationConfigurationCommand');
+      await throttlingBackOff(() =>
+        inspectorClient.send(
+          new UpdateOrganizationConfigurationCommand({
+            autoEnable: { ec2: false, ecr: false, lambda: false, lambdaCode: false },
+          }),
+        ),
+      );
+
+      const existingMemberAccountIds = await getMemberAccountIds(inspectorClient);
+      if (existingMemberAccountIds.length > 0) {
+        await disableScanTypes(
+          inspectorClient,
+          chunkArray(existingMemberAccountIds, chunkSize),
+          getResourceTypes(scanTypes),
+        );
+
+        for (const accountId of existingMemberAccountIds) {
+          console.log(`Disassociating Inspector member account ${accountId}`);
+          await throttlingBackOff(() => inspectorClient.send(new DisassociateMemberCommand({ accountId })));
+        }
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Function to get the scan type flags from the resource properties
+ * @param resourceProperties
+ * @returns
+ */
+function getScanTypes(resourceProperties: { [key: string]: string }): ScanTypes {
+  return {
+    ec2: resourceProperties['enableEc2Scanning'] === 'true',
+    ecr: resourceProperties['enableEcrScanning'] === 'true',
+    lambda: resourceProperties['enableLambdaScanning'] === 'true',
+    lambdaCode: resourceProperties['enableLambdaCodeScanning'] === 'true',
+  };
+}
+
+/**
+ * Function to convert scan type flags to Inspector resource types
+ * @param scanTypes
+ * @returns
+ */
+function getResourceTypes(scanTypes: ScanTypes): ResourceScanType[] {
+  const resourceTypes: ResourceScanType[] = [];
+  if (scanTypes.ec2) {
+    resourceTypes.push('EC2');
+  }
+  if (scanTypes.ecr) {
+    resourceTypes.push('ECR');
+  }
+  if (scanTypes.lambda) {
+    resourceTypes.push('LAMBDA');
+  }
+  if (scanTypes.lambdaCode) {
+    resourceTypes.push('LAMBDA_CODE');
+  }
+  return resourceTypes;
+}
+
+/**
+ * Function to disable Inspector scan types for the given accounts
+ * @param inspectorClient
+ * @param chunkedAccountIds
+ * @param resourceTypes
+ */
+async function disableScanTypes(
+  inspectorClient: Inspector2Client,
+  chunkedAccountIds: string[][],
+  resourceTypes: ResourceScanType[],
+) {
+  if (resourceTypes.length === 0) {
+    return;
+  }
+  for (const accountIds of chunkedAccountIds) {
+    console.log(`Disabling Inspector scan types ${resourceTypes} for ${accountIds.length} accounts`);
+    await throttlingBackOff(() => inspectorClient.send(new DisableCommand({ accountIds, resourceTypes })));
+  }
+}
+
+/**
+ * Function to list all active accounts in the organization
+ * @param organizationsClient
+ * @returns
+ */
+async function getOrganizationAccountIds(organizationsClient: OrganizationsClient): Promise<string[]> {
+  const accountIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      organizationsClient.send(new ListAccountsCommand({ NextToken: nextToken })),
+    );
+    for (const account of page.Accounts ?? []) {
+      if (account.Status === 'ACTIVE') {
+        accountIds.push(account.Id!);
+      }
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  return accountIds;
+}
+
+/**
+ * Function to list the existing Inspector member accounts
+ * @param inspectorClient
+ * @returns
+ */
+async function getMemberAccountIds(inspectorClient: Inspector2Client): Promise<string[]> {
+  const accountIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      inspectorClient.send(new ListMembersCommand({ onlyAssociated: true, nextToken })),
+    );
+    for (const member of page.members ?? []) {
+      accountIds.push(member.accountId!);
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return accountIds;
+}
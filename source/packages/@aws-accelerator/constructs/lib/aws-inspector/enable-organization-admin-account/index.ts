@@ -0,0 +1,127 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { delay, setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DelegatedAdminAccount,
+  DisableDelegatedAdminAccountCommand,
+  EnableDelegatedAdminAccountCommand,
+  Inspector2Client,
+  ListDelegatedAdminAccountsCommand,
+} from '@aws-sdk/client-inspector2';
+
+/**
+ * enable-inspector - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const inspectorClient = new Inspector2Client({
+    region: region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  const inspectorAdminAccount = await getInspectorAdminAccount(inspectorClient, adminAccountId);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      if (inspectorAdminAccount.status) {
+        if (inspectorAdminAccount.accountId === adminAccountId) {
+          console.warn(
+            `Inspector admin account ${inspectorAdminAccount.accountId} is already an admin account as status is ${inspectorAdminAccount.status}, in ${region} region. No action needed`,
+          );
+          return { Status: 'Success', StatusCode: 200 };
+        } else {
+          throw new Error(
+            `Inspector delegated admin is already set to ${inspectorAdminAccount.accountId} account can not assign another delegated account`,
+          );
+        }
+      }
+
+      console.log(`Started enableDelegatedAdminAccount function in ${region} region for account ${adminAccountId}`);
+      let retries = 0;
+      while (retries < 10) {
+        await delay(retries ** 2 * 1000);
+        try {
+          await throttlingBackOff(() =>
+            inspectorClient.send(new EnableDelegatedAdminAccountCommand({ delegatedAdminAccountId: adminAccountId })),
+          );
+          break;
+        } catch (error) {
+          console.log(error);
+          retries = retries + 1;
+        }
+      }
+      if (retries === 10) {
+        throw new Error(`Failed to enable Inspector delegated admin account ${adminAccountId} in ${region} region`);
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      if (inspectorAdminAccount.accountId === adminAccountId) {
+        console.log(`Started disableDelegatedAdminAccount function in ${region} region for account ${adminAccountId}`);
+        await throttlingBackOff(() =>
+          inspectorClient.send(new DisableDelegatedAdminAccountCommand({ delegatedAdminAccountId: adminAccountId })),
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Function to get the current Inspector delegated admin account
+ * @param inspectorClient
+ * @param adminAccountId
+ * @returns
+ */
+async function getInspectorAdminAccount(
+  inspectorClient: Inspector2Client,
+  adminAccountId: string,
+): Promise<{ accountId: string | undefined; status: string | undefined }> {
+  const adminAccounts: DelegatedAdminAccount[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      inspectorClient.send(new ListDelegatedAdminAccountsCommand({ nextToken })),
+    );
+    adminAccounts.push(...(page.delegatedAdminAccounts ?? []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  if (adminAccounts.length === 0) {
+    return { accountId: undefined, status: undefined };
+  }
+  if (adminAccounts.length > 1) {
+    throw new Error('Multiple admin accounts for Inspector in organization');
+  }
+  if (adminAccounts[0].accountId === adminAccountId && adminAccounts[0].status === 'DISABLE_IN_PROGRESS') {
+    throw new Error(`Admin account ${adminAccounts[0].accountId} is in ${adminAccounts[0].status}`);
+  }
+
+  return { accountId: adminAccounts[0].accountId, status: adminAccounts[0].status };
+}
@@ -0,0 +1,122 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { NagSuppressions } from 'cdk-nag';
+import { Construct } from 'constructs';
+
+/**
+ * Initialized InspectorFindingsExportProps properties
+ */
+export interface InspectorFindingsExportProps {
+  /**
+   * Findings export destination bucket name
+   */
+  readonly bucketName: string;
+  /**
+   * Findings export destination bucket encryption key
+   */
+  readonly bucketKmsKey: cdk.aws_kms.IKey;
+  /**
+   * Findings export destination key prefix
+   */
+  readonly keyPrefix: string;
+}
+
+/**
+ * Class to continuously export Amazon Inspector findings.
+ *
+ * Amazon Inspector publishes every new and updated finding to EventBridge, the findings are delivered
+ * to the destination bucket through a Kinesis Data Firehose delivery stream.
+ */
+export class InspectorFindingsExport extends Construct {
+  public readonly deliveryStreamArn: string;
+
+  constructor(scope: Construct, id: string, props: InspectorFindingsExportProps) {
+    super(scope, id);
+
+    const bucketArn = `arn:${cdk.Stack.of(this).partition}:s3:::${props.bucketName}`;
+
+    // Access is based on least privileged apis
+    // Ref: https://docs.aws.amazon.com/firehose/latest/dev/controlling-access.html#using-iam-s3
+    const deliveryStreamRole = new cdk.aws_iam.Role(this, 'DeliveryStreamRole', {
+      assumedBy: new cdk.aws_iam.ServicePrincipal('firehose.amazonaws.com'),
+      description: 'Role used by Kinesis Firehose to deliver Amazon Inspector findings to the central bucket.',
+      // placing inline policy as firehose needs this from get-go or there might be a few initial failures
+      inlinePolicies: {
+        AccessS3Kms: new cdk.aws_iam.PolicyDocument({
+          statements: [
+            new cdk.aws_iam.PolicyStatement({
+              actions: [
+                's3:AbortMultipartUpload',
+                's3:GetBucketLocation',
+                's3:GetObject',
+                's3:ListBucket',
+                's3:ListBucketMultipartUploads',
+                's3:PutObject',
+              ],
+              resources: [bucketArn, `${bucketArn}/*`],
+            }),
+            new cdk.aws_iam.PolicyStatement({
+              actions: ['kms:Decrypt', 'kms:GenerateDataKey'],
+              resources: [props.bucketKmsKey.keyArn],
+            }),
+          ],
+        }),
+      },
+    });
+
+    const deliveryStream = new cdk.aws_kinesisfirehose.CfnDeliveryStream(this, 'DeliveryStream', {
+      deliveryStreamType: 'DirectPut',
+      deliveryStreamEncryptionConfigurationInput: {
+        keyType: 'AWS_OWNED_CMK',
+      },
+      extendedS3DestinationConfiguration: {
+        bucketArn,
+        roleArn: deliveryStreamRole.roleArn,
+        bufferingHints: {
+          intervalInSeconds: 300,
+          sizeInMBs: 5,
+        },
+        compressionFormat: 'GZIP',
+        encryptionConfiguration: {
+          kmsEncryptionConfig: {
+            awskmsKeyArn: props.bucketKmsKey.keyArn,
+          },
+        },
+        prefix: props.keyPrefix,
+        errorOutputPrefix: `${props.keyPrefix}processing-failed/`,
+      },
+    });
+    deliveryStream.node.addDependency(deliveryStreamRole);
+
+    new cdk.aws_events.Rule(this, 'FindingsRule', {
+      description: 'Delivers Amazon Inspector findings to the findings export delivery stream',
+      eventPattern: {
+        source: ['aws.inspector2'],
+        detailType: ['Inspector2 Finding'],
+      },
+      targets: [new cdk.aws_events_targets.KinesisFirehoseStream(deliveryStream)],
+    });
+
+    // DeliveryStreamRole AwsSolutions-IAM5: The IAM entity contains wildcard permissions and does not have a cdk_nag rule suppression with evidence for those permission.
+    NagSuppressions.addResourceSuppressions(deliveryStreamRole, [
+      {
+        id: 'AwsSolutions-IAM5',
+        reason: 'Bucket permissions are wildcards to put findings under the export prefix.',
+      },
+    ]);
+
+    this.deliveryStreamArn = deliveryStream.attrArn;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Initialized InspectorMembersProps properties
+ */
+export interface InspectorMembersProps {
+  /**
+   * Amazon EC2 scanning enable flag
+   */
+  readonly enableEc2Scanning: boolean;
+  /**
+   * Amazon ECR scanning enable flag
+   */
+  readonly enableEcrScanning: boolean;
+  /**
+   * AWS Lambda standard scanning enable flag
+   */
+  readonly enableLambdaScanning: boolean;
+  /**
+   * AWS Lambda code scanning enable flag
+   */
+  readonly enableLambdaCodeScanning: boolean;
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to Inspector Members
+ */
+export class InspectorMembers extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: InspectorMembersProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::InspectorCreateMembers';
+
+    const servicePrincipal = 'inspector2.amazonaws.com';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-members/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      timeout: cdk.Duration.minutes(15),
+      policyStatements: [
+        {
+          Sid: 'InspectorCreateMembersTaskOrganizationAction',
+          Effect: 'Allow',
+          Action: ['organizations:ListAccounts'],
+          Resource: '*',
+          Condition: {
+            StringLikeIfExists: {
+              'organizations:ServicePrincipal': [servicePrincipal],
+            },
+          },
+        },
+        {
+          Sid: 'InspectorCreateMembersTaskInspectorActions',
+          Effect: 'Allow',
+          Action: [
+            'inspector2:AssociateMember',
+            'inspector2:BatchGetAccountStatus',
+            'inspector2:Disable',
+            'inspector2:DisassociateMember',
+            'inspector2:Enable',
+            'inspector2:ListMembers',
+            'inspector2:UpdateOrganizationConfiguration',
+          ],
+          Resource: '*',
+        },
+        {
+          Sid: 'ServiceLinkedRoleInspector',
+          Effect: 'Allow',
+          Action: ['iam:CreateServiceLinkedRole'],
+          Resource: '*',
+          Condition: {
+            StringLike: {
+              'iam:AWSServiceName': [servicePrincipal, 'agentless.inspector2.amazonaws.com'],
+            },
+          },
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        partition: cdk.Aws.PARTITION,
+        adminAccountId: cdk.Stack.of(this).account,
+        enableEc2Scanning: props.enableEc2Scanning,
+        enableEcrScanning: props.enableEcrScanning,
+        enableLambdaScanning: props.enableLambdaScanning,
+        enableLambdaCodeScanning: props.enableLambdaCodeScanning,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
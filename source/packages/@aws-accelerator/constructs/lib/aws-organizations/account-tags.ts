@@ -0,0 +1,98 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Initialized AccountTags properties
+ */
+export interface AccountTagsProps {
+  /**
+   * The account ID to tag
+   */
+  readonly accountId: string;
+  /**
+   * The tags to apply to the account
+   */
+  readonly tags: cdk.CfnTag[];
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to apply tags to an AWS Organizations account
+ */
+export class AccountTags extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: AccountTagsProps) {
+    super(scope, id);
+
+    const ACCOUNT_TAGS = 'Custom::OrganizationsAccountTags';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, ACCOUNT_TAGS, {
+      codeDirectory: path.join(__dirname, 'account-tags/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      description: 'Organizations account tags',
+      policyStatements: [
+        {
+          Effect: 'Allow',
+          Action: ['organizations:ListTagsForResource', 'organizations:TagResource', 'organizations:UntagResource'],
+          Resource: '*',
+        },
+      ],
+    });
+
+    //
+    // Custom Resource definition. We want this resource to be evaluated on
+    // every CloudFormation update, so we generate a new uuid to force
+    // re-evaluation and correct any tag drift.
+    //
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: ACCOUNT_TAGS,
+      serviceToken: provider.serviceToken,
+      properties: {
+        accountId: props.accountId,
+        partition: cdk.Aws.PARTITION,
+        tags: props.tags.map(tag => ({ Key: tag.key, Value: tag.value })),
+        uuid: uuidv4(),
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
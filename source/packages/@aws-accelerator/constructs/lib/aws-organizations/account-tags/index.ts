@@ -0,0 +1,121 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setOrganizationsClient, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  ListTagsForResourceCommand,
+  OrganizationsClient,
+  Tag,
+  TagResourceCommand,
+  UntagResourceCommand,
+} from '@aws-sdk/client-organizations';
+
+/**
+ * account-tags - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const accountId: string = event.ResourceProperties['accountId'];
+  const partition: string = event.ResourceProperties['partition'];
+  const tags: Tag[] = event.ResourceProperties['tags'] ?? [];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const organizationsClient = setOrganizationsClient(partition, solutionId);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      //
+      // Remove tags that were previously managed but are no longer defined in the configuration
+      //
+      const previousTags: Tag[] =
+        event.RequestType === 'Update' ? event.OldResourceProperties['tags'] ?? [] : ([] as Tag[]);
+      const removedTagKeys = previousTags.map(tag => tag.Key!).filter(key => !tags.find(tag => tag.Key === key));
+      await untagAccount(organizationsClient, accountId, removedTagKeys);
+
+      //
+      // Apply tags that are missing or have drifted from the configuration
+      //
+      const existingTags = await getAccountTags(organizationsClient, accountId);
+      const changedTags = tags.filter(
+        tag => !existingTags.find(existingTag => existingTag.Key === tag.Key && existingTag.Value === tag.Value),
+      );
+      if (changedTags.length > 0) {
+        console.log(`Applying tags ${changedTags.map(tag => tag.Key)} to account ${accountId}`);
+        await throttlingBackOff(() =>
+          organizationsClient.send(new TagResourceCommand({ ResourceId: accountId, Tags: changedTags })),
+        );
+      }
+
+      return {
+        PhysicalResourceId: accountId,
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      await untagAccount(
+        organizationsClient,
+        accountId,
+        tags.map(tag => tag.Key!),
+      );
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Function to list the current tags of an account
+ * @param organizationsClient
+ * @param accountId
+ * @returns
+ */
+async function getAccountTags(organizationsClient: OrganizationsClient, accountId: string): Promise<Tag[]> {
+  const tags: Tag[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      organizationsClient.send(new ListTagsForResourceCommand({ ResourceId: accountId, NextToken: nextToken })),
+    );
+    tags.push(...(page.Tags ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  return tags;
+}
+
+/**
+ * Function to remove tags from an account
+ * @param organizationsClient
+ * @param accountId
+ * @param tagKeys
+ */
+async function untagAccount(organizationsClient: OrganizationsClient, accountId: string, tagKeys: string[]) {
+  if (tagKeys.length === 0) {
+    return;
+  }
+  console.log(`Removing tags ${tagKeys} from account ${accountId}`);
+  await throttlingBackOff(() =>
+    organizationsClient.send(new UntagResourceCommand({ ResourceId: accountId, TagKeys: tagKeys })),
+  );
+}
@@ -54,7 +54,7 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
       //
       // First detach all non config policies from target
       //
-      await detachNonConfigPolicies(organizationsClient, targetId, configPolicyNames, policyTagKey);
+      await detachNonConfigPolicies(organizationsClient, type, targetId, configPolicyNames, policyTagKey);
 
       //
       // Check if already exists, update and return the ID
@@ -164,19 +164,21 @@ async function getListPoliciesForTarget(
 
 async function detachNonConfigPolicies(
   organizationsClient: AWS.Organizations,
+  type: string,
   targetId: string,
   configPolicyNames: string[],
   policyTagKey: string,
 ): Promise<void> {
-  console.log(`Detaching non config policies from target ${targetId}`);
+  console.log(`Detaching non config ${type} policies from target ${targetId}`);
   console.log(`Config policies are ${configPolicyNames.join(',')}`);
   const attachedPolicies: { name: string; id: string }[] = [];
   let nextToken: string | undefined = undefined;
   do {
-    const page = await throttlingBackOff(() =>
-      organizationsClient
-        .listPoliciesForTarget({ Filter: 'SERVICE_CONTROL_POLICY', TargetId: targetId, NextToken: nextToken })
-        .promise(),
+    const page: AWS.Organizations.ListPoliciesForTargetResponse = await getListPoliciesForTarget(
+      organizationsClient,
+      type,
+      targetId,
+      nextToken,
     );
     for (const policy of page.Policies ?? []) {
       attachedPolicies.push({ name: policy.Name!, id: policy.Id! });
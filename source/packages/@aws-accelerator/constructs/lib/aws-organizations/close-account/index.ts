@@ -0,0 +1,92 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setOrganizationsClient, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AccountNotFoundException,
+  AccountStatus,
+  CloseAccountCommand,
+  DescribeAccountCommand,
+  OrganizationsClient,
+} from '@aws-sdk/client-organizations';
+
+/**
+ * close-account - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const accountId: string = event.ResourceProperties['accountId'];
+  const partition: string = event.ResourceProperties['partition'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const organizationsClient = setOrganizationsClient(partition, solutionId);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      const status = await getAccountStatus(organizationsClient, accountId);
+      //
+      // Accounts that are pending closure or suspended are already closed, accounts that are no longer found
+      // were removed from the organization after the post-closure period
+      //
+      if (status !== AccountStatus.ACTIVE) {
+        console.log(`Account ${accountId} is already closed with status ${status ?? 'REMOVED'}`);
+      } else {
+        console.log(`Closing account ${accountId}`);
+        await throttlingBackOff(() => organizationsClient.send(new CloseAccountCommand({ AccountId: accountId })));
+      }
+
+      return {
+        PhysicalResourceId: accountId,
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      // Closed accounts cannot be reopened with the Organizations API
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Function to get the status of an account, returns undefined when the account is no longer found
+ * @param organizationsClient {@link OrganizationsClient}
+ * @param accountId string
+ * @returns string | undefined
+ */
+async function getAccountStatus(
+  organizationsClient: OrganizationsClient,
+  accountId: string,
+): Promise<string | undefined> {
+  try {
+    const response = await throttlingBackOff(() =>
+      organizationsClient.send(new DescribeAccountCommand({ AccountId: accountId })),
+    );
+    return response.Account?.Status;
+  } catch (error) {
+    if (error instanceof AccountNotFoundException) {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -28,7 +28,26 @@ import {
   ListOrganizationalUnitsForParentCommandOutput,
   ListRootsCommand,
   ListRootsCommandOutput,
+  AttachPolicyCommand,
   CreateOrganizationalUnitCommand,
+  DeleteOrganizationalUnitCommand,
+  DetachPolicyCommand,
+  DescribeOrganizationalUnitCommand,
+  ListAccountsForParentCommand,
+  ListAccountsForParentCommandOutput,
+  ListParentsCommand,
+  ListPoliciesForTargetCommand,
+  ListPoliciesForTargetCommandOutput,
+  ListTagsForResourceCommand,
+  ListTagsForResourceCommandOutput,
+  MoveAccountCommand,
+  OrganizationalUnit,
+  OrganizationalUnitNotFoundException,
+  PolicySummary,
+  PolicyType,
+  Tag,
+  TagResourceCommand,
+  UpdateOrganizationalUnitCommand,
 } from '@aws-sdk/client-organizations';
 import { ConfiguredRetryStrategy } from '@aws-sdk/util-retry';
 
@@ -54,8 +73,10 @@ type OrganizationConfigRecord = {
   dataBag: string;
   awsKey: string;
   commitId: string;
+  previousAwsKey?: string;
 };
 type OrganizationConfigRecords = Array<OrganizationConfigRecord>;
+type OrganizationalUnitLifecycleAction = 'rename' | 'move' | 'delete' | 'skip';
 /**
  * create-organizational-units - lambda handler
  *
@@ -71,6 +92,8 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
   const configTableName = event.ResourceProperties['configTableName'];
   const commitId = event.ResourceProperties['commitId'];
   const organizationsEnabled = event.ResourceProperties['organizationsEnabled'];
+  const controlTowerEnabled = event.ResourceProperties['controlTowerEnabled'] === 'true';
+  const deleteRemovedOus = event.ResourceProperties['deleteRemovedOus'] === 'true';
   const partition = event.ResourceProperties['partition'];
   const organizationalUnitsToCreate: OrganizationConfigRecords = [];
   const solutionId = process.env['SOLUTION_ID'];
@@ -108,12 +131,13 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
         });
       }
       //read config from table
-      const organizationalUnitList = await getConfigFromTable(configTableName, commitId);
+      const organizationRecords = await getConfigFromTable(configTableName);
+      const organizationalUnitList = organizationRecords.filter(item => item.commitId == commitId);
       console.log(`Organizational Units retrieved from config table: ${JSON.stringify(organizationalUnitList)}`);
-      //build list of organizational units that need to be created
+      //build list of organizational units that need to be created or whose move has not completed
       if (organizationalUnitList) {
         for (const organizationalUnit of organizationalUnitList) {
-          if (!organizationalUnit.awsKey) {
+          if (!organizationalUnit.awsKey || organizationalUnit.previousAwsKey) {
             organizationalUnitsToCreate.push(organizationalUnit);
           }
         }
@@ -128,6 +152,22 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
       );
       console.log(`Sorted list of OU's to create ${JSON.stringify(sortedOrganizationalUnits)}`);
       for (const organizationalUnit of sortedOrganizationalUnits) {
+        const lifecycleResponse = await renameOrMoveOrganizationalUnit(
+          rootId,
+          organizationalUnit,
+          organizationalUnitList,
+          configTableName,
+          commitId,
+          controlTowerEnabled,
+        );
+        if (lifecycleResponse !== undefined) {
+          if (!lifecycleResponse) {
+            return {
+              Status: 'FAILURE',
+            };
+          }
+          continue;
+        }
         console.log(`Creating organizational unit ${organizationalUnit['acceleratorKey']}`);
         const createResponse = await createOrganizationalUnitFromPath(
           rootId,
@@ -140,6 +180,22 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
           };
         }
       }
+      //delete organizational units removed from the configuration
+      if (deleteRemovedOus) {
+        //only OUs tracked by an earlier configuration are deleted, OUs managed outside of the accelerator are kept
+        const removedOuIds = organizationRecords
+          .filter(item => item.commitId != commitId && item.awsKey)
+          .map(item => item.awsKey);
+        await deleteRemovedOrganizationalUnits(
+          rootId,
+          '',
+          organizationalUnitList,
+          removedOuIds,
+          configTableName,
+          commitId,
+          controlTowerEnabled,
+        );
+      }
       return {
         Status: 'SUCCESS',
       };
@@ -165,7 +221,7 @@ async function lookupOrganizationalUnit(name: string, parentId: string): Promise
   } while (nextToken);
   return '';
 }
-async function getConfigFromTable(configTableName: string, commitId: string): Promise<OrganizationConfigRecords> {
+async function getConfigFromTable(configTableName: string): Promise<OrganizationConfigRecords> {
   const params = {
     TableName: configTableName,
     KeyConditionExpression: 'dataType = :hkey',
@@ -182,8 +238,7 @@ async function getConfigFromTable(configTableName: string, commitId: string): Pr
       }
     }
   }
-  const filterCommitIdResults = items.filter(item => item.commitId == commitId);
-  return filterCommitIdResults;
+  return items;
 }
 async function getRootId(): Promise<string> {
   // get root ou id
@@ -200,6 +255,22 @@ async function getRootId(): Promise<string> {
   } while (nextToken);
   return rootId;
 }
+async function getEnabledPolicyTypes(): Promise<PolicyType[]> {
+  const policyTypes: PolicyType[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListRootsCommandOutput = await organizationsClient.send(new ListRootsCommand({ NextToken: nextToken }));
+    for (const item of page.Roots ?? []) {
+      for (const policyType of item.PolicyTypes ?? []) {
+        if (policyType.Status === 'ENABLED' && policyType.Type) {
+          policyTypes.push(policyType.Type);
+        }
+      }
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return policyTypes;
+}
 function getPath(name: string): string {
   //get the parent path
   const pathIndex = name.lastIndexOf('/');
@@ -221,21 +292,18 @@ async function createOrganizationalUnitFromPath(
   acceleratorKey: string,
   configTableName: string,
 ): Promise<boolean> {
-  let parentId = rootId;
-  const path = getPath(acceleratorKey);
+  const parentId = await lookupOrganizationalUnitFromPath(rootId, getPath(acceleratorKey));
   const name = getOuName(acceleratorKey);
-  //find parent for ou
-  for (const parent of path.split('/')) {
-    if (parent) {
-      const orgId = await lookupOrganizationalUnit(parent, parentId);
-      if (orgId !== '') {
-        console.log(`Found parent ou with id ${orgId}`);
-        parentId = orgId;
-      } else {
-        console.log(`Need to create ou ${parent} for parentId ${parentId} in the organizations config`);
-        return false;
-      }
-    }
+  if (parentId === '') {
+    console.log(`Need to create parent ou ${getPath(acceleratorKey)} in the organizations config`);
+    return false;
+  }
+  // The OU exists when its parent was renamed or moved in this run
+  const existingId = await lookupOrganizationalUnit(name, parentId);
+  if (existingId !== '') {
+    console.log(`Found existing OU with id: ${existingId}`);
+    await updateConfigTableItem(configTableName, 'organization', acceleratorKey, { awsKey: existingId });
+    return true;
   }
   // Create the OU if not found
   try {
@@ -246,21 +314,441 @@ async function createOrganizationalUnitFromPath(
       }),
     );
     console.log(`Created OU with id: ${organizationsResponse.OrganizationalUnit?.Id}`);
-    const params: UpdateCommandInput = {
-      TableName: configTableName,
-      Key: {
-        dataType: 'organization',
-        acceleratorKey: acceleratorKey,
-      },
-      UpdateExpression: 'set #attribute = :x',
-      ExpressionAttributeNames: { '#attribute': 'awsKey' },
-      ExpressionAttributeValues: { ':x': organizationsResponse.OrganizationalUnit?.Id },
-    };
-    const updateConfigReponse = await throttlingBackOff(() => documentClient.send(new UpdateCommand(params)));
-    console.log(updateConfigReponse);
+    await updateConfigTableItem(configTableName, 'organization', acceleratorKey, {
+      awsKey: organizationsResponse.OrganizationalUnit!.Id!,
+    });
+    return true;
+  } catch (error) {
+    console.log(error);
+    return false;
+  }
+}
+async function lookupOrganizationalUnitFromPath(rootId: string, path: string): Promise<string> {
+  let parentId = rootId;
+  //find each ou in the path
+  for (const parent of path.split('/')) {
+    if (parent) {
+      const orgId = await lookupOrganizationalUnit(parent, parentId);
+      if (orgId === '') {
+        console.log(`Organizational unit ${parent} not found for parentId ${parentId}`);
+        return '';
+      }
+      console.log(`Found parent ou with id ${orgId}`);
+      parentId = orgId;
+    }
+  }
+  return parentId;
+}
+async function lookupOrganizationalUnitById(id: string): Promise<string> {
+  try {
+    const response = await throttlingBackOff(() =>
+      organizationsClient.send(new DescribeOrganizationalUnitCommand({ OrganizationalUnitId: id })),
+    );
+    return response.OrganizationalUnit?.Id ?? '';
+  } catch (error) {
+    if (error instanceof OrganizationalUnitNotFoundException) {
+      return '';
+    }
+    throw error;
+  }
+}
+async function listOrganizationalUnitsForParent(parentId: string): Promise<OrganizationalUnit[]> {
+  const organizationalUnits: OrganizationalUnit[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListOrganizationalUnitsForParentCommandOutput = await throttlingBackOff(() =>
+      organizationsClient.send(
+        new ListOrganizationalUnitsForParentCommand({ ParentId: parentId, NextToken: nextToken }),
+      ),
+    );
+    organizationalUnits.push(...(page.OrganizationalUnits ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return organizationalUnits;
+}
+async function listAccountIdsForParent(parentId: string): Promise<string[]> {
+  const accountIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListAccountsForParentCommandOutput = await throttlingBackOff(() =>
+      organizationsClient.send(new ListAccountsForParentCommand({ ParentId: parentId, NextToken: nextToken })),
+    );
+    for (const account of page.Accounts ?? []) {
+      accountIds.push(account.Id!);
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return accountIds;
+}
+async function listPoliciesForTarget(targetId: string, policyType: PolicyType): Promise<PolicySummary[]> {
+  const policies: PolicySummary[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListPoliciesForTargetCommandOutput = await throttlingBackOff(() =>
+      organizationsClient.send(
+        new ListPoliciesForTargetCommand({ TargetId: targetId, Filter: policyType, NextToken: nextToken }),
+      ),
+    );
+    policies.push(...(page.Policies ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return policies;
+}
+async function listTagsForOrganizationalUnit(ouId: string): Promise<Tag[]> {
+  const tags: Tag[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListTagsForResourceCommandOutput = await throttlingBackOff(() =>
+      organizationsClient.send(new ListTagsForResourceCommand({ ResourceId: ouId, NextToken: nextToken })),
+    );
+    tags.push(...(page.Tags ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return tags;
+}
+/**
+ * Control Tower attaches its guardrail SCPs to the OUs it registers
+ */
+async function isControlTowerRegistered(ouId: string): Promise<boolean> {
+  const policies = await listPoliciesForTarget(ouId, 'SERVICE_CONTROL_POLICY');
+  return policies.some(policy => policy.Name?.startsWith('aws-guardrails-') && !policy.AwsManaged);
+}
+/**
+ * Attach the policies and tags of the previous OU to the OU that replaces it.
+ * Control Tower guardrails are applied by Control Tower when the OU is registered.
+ */
+async function copyPoliciesAndTags(sourceOuId: string, targetOuId: string, policyTypes: PolicyType[]): Promise<void> {
+  for (const policyType of policyTypes) {
+    const sourcePolicies = (await listPoliciesForTarget(sourceOuId, policyType)).filter(
+      policy => !policy.Name?.startsWith('aws-guardrails-'),
+    );
+    const targetPolicies = await listPoliciesForTarget(targetOuId, policyType);
+    for (const policy of sourcePolicies) {
+      if (targetPolicies.some(item => item.Id === policy.Id)) {
+        continue;
+      }
+      console.log(`Attaching ${policyType} ${policy.Name} to ${targetOuId}`);
+      await throttlingBackOff(() =>
+        organizationsClient.send(new AttachPolicyCommand({ PolicyId: policy.Id!, TargetId: targetOuId })),
+      );
+    }
+    // New OUs inherit FullAWSAccess, which must be detached when the previous OU used an allow-list strategy
+    for (const policy of targetPolicies) {
+      if (sourcePolicies.some(item => item.Id === policy.Id)) {
+        continue;
+      }
+      console.log(`Detaching ${policyType} ${policy.Name} from ${targetOuId}`);
+      await throttlingBackOff(() =>
+        organizationsClient.send(new DetachPolicyCommand({ PolicyId: policy.Id!, TargetId: targetOuId })),
+      );
+    }
+  }
+
+  const tags = await listTagsForOrganizationalUnit(sourceOuId);
+  if (tags.length > 0) {
+    await throttlingBackOff(() =>
+      organizationsClient.send(new TagResourceCommand({ ResourceId: targetOuId, Tags: tags })),
+    );
+  }
+}
+/**
+ * Returns the ids of the OU and its child OUs that are registered in Control Tower.
+ * Ignored child OUs are not moved and are left out.
+ */
+async function listControlTowerRegisteredOus(
+  ouId: string,
+  acceleratorKey: string,
+  organizationalUnitList: OrganizationConfigRecords,
+): Promise<string[]> {
+  const registeredOuIds = (await isControlTowerRegistered(ouId)) ? [ouId] : [];
+  for (const childOu of await listOrganizationalUnitsForParent(ouId)) {
+    const childKey = `${acceleratorKey}/${childOu.Name!}`;
+    if (isIgnoredOrganizationalUnit(childKey, organizationalUnitList)) {
+      continue;
+    }
+    registeredOuIds.push(...(await listControlTowerRegisteredOus(childOu.Id!, childKey, organizationalUnitList)));
+  }
+  return registeredOuIds;
+}
+function isIgnoredOrganizationalUnit(acceleratorKey: string, organizationalUnitList: OrganizationConfigRecords) {
+  const configOu = organizationalUnitList.find(item => item.acceleratorKey === acceleratorKey);
+  return configOu !== undefined && JSON.parse(configOu.dataBag)['ignore'] === true;
+}
+/**
+ * Returns the id of the previous OU of a move that did not complete, or an empty string
+ * when the OU has no move in progress or the previous OU no longer exists
+ */
+async function lookupUnfinishedMove(organizationalUnit: OrganizationConfigRecord): Promise<string> {
+  if (!organizationalUnit.previousAwsKey) {
+    return '';
+  }
+  const previousId = await lookupOrganizationalUnitById(organizationalUnit.previousAwsKey);
+  if (previousId !== '') {
+    console.log(`Resuming move of organizational unit ${previousId} to ${organizationalUnit.acceleratorKey}`);
+  }
+  return previousId;
+}
+/**
+ * Rename or move an OU that is configured with an id or previous name
+ * @returns undefined when the OU must be created, otherwise whether the OU was renamed or moved
+ */
+async function renameOrMoveOrganizationalUnit(
+  rootId: string,
+  organizationalUnit: OrganizationConfigRecord,
+  organizationalUnitList: OrganizationConfigRecords,
+  configTableName: string,
+  commitId: string,
+  controlTowerEnabled: boolean,
+): Promise<boolean | undefined> {
+  const acceleratorKey = organizationalUnit.acceleratorKey;
+  const ouConfig = JSON.parse(organizationalUnit.dataBag);
+  const id: string | undefined = ouConfig['id'];
+  const previousName: string | undefined = ouConfig['previousName'];
+  if (!id && !previousName && !organizationalUnit.previousAwsKey) {
+    return undefined;
+  }
+
+  const parentId = await lookupOrganizationalUnitFromPath(rootId, getPath(acceleratorKey));
+  if (parentId === '') {
+    return undefined;
+  }
+  // A previous move that failed part way leaves the OU at the new path and the previous OU in place
+  const resumeId = await lookupUnfinishedMove(organizationalUnit);
+  if (resumeId === '' && (await lookupOrganizationalUnit(getOuName(acceleratorKey), parentId)) !== '') {
+    return undefined;
+  }
+  if (resumeId === '' && !id && !previousName) {
+    return undefined;
+  }
+  let existingId = resumeId;
+  if (existingId === '') {
+    existingId = id
+      ? await lookupOrganizationalUnitById(id)
+      : await lookupOrganizationalUnitFromPath(rootId, previousName!);
+  }
+  if (existingId === '' || existingId === rootId) {
+    console.log(`Previous organizational unit ${id ?? previousName} of ${acceleratorKey} not found`);
+    return undefined;
+  }
+
+  try {
+    const parents = await throttlingBackOff(() =>
+      organizationsClient.send(new ListParentsCommand({ ChildId: existingId })),
+    );
+    let action: OrganizationalUnitLifecycleAction;
+    let awsKey: string;
+    if (resumeId === '' && parents.Parents?.[0]?.Id === parentId) {
+      console.log(`Renaming organizational unit ${existingId} to ${acceleratorKey}`);
+      await throttlingBackOff(() =>
+        organizationsClient.send(
+          new UpdateOrganizationalUnitCommand({ OrganizationalUnitId: existingId, Name: getOuName(acceleratorKey) }),
+        ),
+      );
+      action = 'rename';
+      awsKey = existingId;
+    } else {
+      // The previous OU is deleted by the move, Control Tower must stop governing it first
+      if (controlTowerEnabled) {
+        const registeredOuIds = await listControlTowerRegisteredOus(existingId, acceleratorKey, organizationalUnitList);
+        if (registeredOuIds.length > 0) {
+          const ouIds = registeredOuIds.join(', ');
+          throw new Error(
+            `Organizational unit ${id ?? previousName} cannot be moved to ${acceleratorKey} because OUs ${ouIds} ` +
+              `are registered in AWS Control Tower. Deregister the OUs in Control Tower and run the pipeline again, ` +
+              `then register ${acceleratorKey} in Control Tower.`,
+          );
+        }
+      }
+      console.log(`Moving organizational unit ${existingId} to ${acceleratorKey}`);
+      // Record the previous OU first so that the move resumes when it fails part way
+      await updateConfigTableItem(configTableName, 'organization', acceleratorKey, { previousAwsKey: existingId });
+      awsKey = await moveOrganizationalUnit(
+        existingId,
+        acceleratorKey,
+        parentId,
+        organizationalUnitList,
+        configTableName,
+        await getEnabledPolicyTypes(),
+      );
+      action = 'move';
+    }
+
+    await updateConfigTableItem(configTableName, 'organization', acceleratorKey, { awsKey, previousAwsKey: '' });
+    await updateConfigTableItem(configTableName, 'organizationalUnitLifecycle', acceleratorKey, {
+      awsKey,
+      previousAwsKey: existingId,
+      ...(previousName ? { previousName } : {}),
+      lifecycleAction: action,
+      commitId,
+    });
+
+    // Control Tower does not track OUs renamed or created outside of Control Tower
+    if (controlTowerEnabled) {
+      for (const item of organizationalUnitList) {
+        if (
+          item.acceleratorKey === acceleratorKey ||
+          (action === 'move' && item.acceleratorKey.startsWith(`${acceleratorKey}/`))
+        ) {
+          await updateConfigTableItem(configTableName, 'organization', item.acceleratorKey, { registered: false });
+        }
+      }
+    }
     return true;
   } catch (error) {
     console.log(error);
     return false;
   }
 }
+/**
+ * AWS Organizations cannot move an OU, so create the OU under the new parent,
+ * attach the policies and tags of the previous OU, move the accounts and child OUs
+ * to it and delete the previous OU. Ignored child OUs are not moved, in which case
+ * the previous OU is kept. OUs that already exist under the new parent are reused
+ * so that a move that failed part way is completed.
+ * @returns The id of the new OU
+ */
+async function moveOrganizationalUnit(
+  ouId: string,
+  acceleratorKey: string,
+  parentId: string,
+  organizationalUnitList: OrganizationConfigRecords,
+  configTableName: string,
+  policyTypes: PolicyType[],
+): Promise<string> {
+  const name = getOuName(acceleratorKey);
+  // The OU already exists when a previous move failed part way
+  let newOuId = await lookupOrganizationalUnit(name, parentId);
+  if (newOuId === '') {
+    const createResponse = await throttlingBackOff(() =>
+      organizationsClient.send(new CreateOrganizationalUnitCommand({ Name: name, ParentId: parentId })),
+    );
+    newOuId = createResponse.OrganizationalUnit!.Id!;
+    console.log(`Created OU ${name} with id ${newOuId} to replace ${ouId}`);
+  }
+  await copyPoliciesAndTags(ouId, newOuId, policyTypes);
+
+  for (const accountId of await listAccountIdsForParent(ouId)) {
+    console.log(`Moving account ${accountId} from ${ouId} to ${newOuId}`);
+    await throttlingBackOff(() =>
+      organizationsClient.send(
+        new MoveAccountCommand({ AccountId: accountId, SourceParentId: ouId, DestinationParentId: newOuId }),
+      ),
+    );
+  }
+
+  let hasIgnoredChildOus = false;
+  for (const childOu of await listOrganizationalUnitsForParent(ouId)) {
+    const childKey = `${acceleratorKey}/${childOu.Name!}`;
+    if (isIgnoredOrganizationalUnit(childKey, organizationalUnitList)) {
+      console.log(`Organizational unit ${childKey} is ignored, skipping move`);
+      hasIgnoredChildOus = true;
+      continue;
+    }
+    const childOuId = await moveOrganizationalUnit(
+      childOu.Id!,
+      childKey,
+      newOuId,
+      organizationalUnitList,
+      configTableName,
+      policyTypes,
+    );
+    if (organizationalUnitList.some(item => item.acceleratorKey === childKey)) {
+      await updateConfigTableItem(configTableName, 'organization', childKey, { awsKey: childOuId });
+    }
+  }
+
+  if (hasIgnoredChildOus) {
+    console.log(`OU ${ouId} contains ignored organizational units, skipping delete`);
+    return newOuId;
+  }
+  console.log(`Deleting OU ${ouId}`);
+  await throttlingBackOff(() =>
+    organizationsClient.send(new DeleteOrganizationalUnitCommand({ OrganizationalUnitId: ouId })),
+  );
+  return newOuId;
+}
+/**
+ * Delete empty OUs that were removed from the configuration, starting with the most nested OUs.
+ * Only OUs tracked by an earlier configuration are deleted, OUs created outside of the accelerator
+ * are left untouched as are child OUs of ignored OUs. OUs that are not empty or, when Control Tower
+ * is enabled, registered in Control Tower are skipped and reported by the validation stage.
+ */
+async function deleteRemovedOrganizationalUnits(
+  parentId: string,
+  parentPath: string,
+  organizationalUnitList: OrganizationConfigRecords,
+  removedOuIds: string[],
+  configTableName: string,
+  commitId: string,
+  controlTowerEnabled: boolean,
+): Promise<void> {
+  for (const ou of await listOrganizationalUnitsForParent(parentId)) {
+    const acceleratorKey = `${parentPath}${ou.Name!}`;
+    if (isIgnoredOrganizationalUnit(acceleratorKey, organizationalUnitList)) {
+      continue;
+    }
+    await deleteRemovedOrganizationalUnits(
+      ou.Id!,
+      `${acceleratorKey}/`,
+      organizationalUnitList,
+      removedOuIds,
+      configTableName,
+      commitId,
+      controlTowerEnabled,
+    );
+    if (organizationalUnitList.some(item => item.acceleratorKey === acceleratorKey) || !removedOuIds.includes(ou.Id!)) {
+      continue;
+    }
+
+    let skipReason: string | undefined;
+    if (
+      (await listAccountIdsForParent(ou.Id!)).length > 0 ||
+      (await listOrganizationalUnitsForParent(ou.Id!)).length > 0
+    ) {
+      skipReason = 'it is not empty';
+    } else if (controlTowerEnabled && (await isControlTowerRegistered(ou.Id!))) {
+      skipReason = 'it is registered in Control Tower';
+    }
+    if (skipReason) {
+      console.log(
+        `Organizational unit ${acceleratorKey} was removed from the configuration but ${skipReason}, skipping delete`,
+      );
+      await updateConfigTableItem(configTableName, 'organizationalUnitLifecycle', acceleratorKey, {
+        awsKey: ou.Id!,
+        lifecycleAction: 'skip',
+        skipReason,
+        commitId,
+      });
+      continue;
+    }
+    console.log(`Deleting organizational unit ${acceleratorKey} with id ${ou.Id}`);
+    await throttlingBackOff(() =>
+      organizationsClient.send(new DeleteOrganizationalUnitCommand({ OrganizationalUnitId: ou.Id! })),
+    );
+    await updateConfigTableItem(configTableName, 'organizationalUnitLifecycle', acceleratorKey, {
+      awsKey: ou.Id!,
+      lifecycleAction: 'delete',
+      commitId,
+    });
+  }
+}
+async function updateConfigTableItem(
+  configTableName: string,
+  dataType: string,
+  acceleratorKey: string,
+  attributes: { [key: string]: string | boolean },
+): Promise<void> {
+  const names = Object.keys(attributes);
+  const params: UpdateCommandInput = {
+    TableName: configTableName,
+    Key: {
+      dataType,
+      acceleratorKey,
+    },
+    UpdateExpression: `set ${names.map((_name, index) => `#attribute${index} = :x${index}`).join(', ')}`,
+    ExpressionAttributeNames: Object.fromEntries(names.map((name, index) => [`#attribute${index}`, name])),
+    ExpressionAttributeValues: Object.fromEntries(names.map((name, index) => [`:x${index}`, attributes[name]])),
+  };
+  const updateConfigReponse = await throttlingBackOff(() => documentClient.send(new UpdateCommand(params)));
+  console.log(updateConfigReponse);
+}
@@ -38,6 +38,7 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
   const tags: AWS.Organizations.Tag[] = event.ResourceProperties['tags'] || [];
   const partition: string = event.ResourceProperties['partition'];
   const policyTagKey: string = event.ResourceProperties['policyTagKey'];
+  const logicalIdTagKey = `${policyTagKey}LogicalResourceId`;
 
   const solutionId = process.env['SOLUTION_ID'];
 
@@ -91,7 +92,11 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
               organizationsClient
                 .tagResource({
                   ResourceId: policy.Id!,
-                  Tags: [...tags, { Key: policyTagKey, Value: 'Yes' }],
+                  Tags: [
+                    ...tags,
+                    { Key: policyTagKey, Value: 'Yes' },
+                    { Key: logicalIdTagKey, Value: event.LogicalResourceId },
+                  ],
                 })
                 .promise(),
             );
@@ -117,7 +122,11 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
             Description: description,
             Name: name,
             Type: type,
-            Tags: [...tags, { Key: policyTagKey, Value: 'Yes' }],
+            Tags: [
+              ...tags,
+              { Key: policyTagKey, Value: 'Yes' },
+              { Key: logicalIdTagKey, Value: event.LogicalResourceId },
+            ],
           })
           .promise(),
       );
@@ -132,7 +141,16 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
     case 'Delete':
       const policyId = await getPolicyId(organizationsClient, name, type);
 
-      if (policyId) {
+      //
+      // A policy adopted by a resource with a different logical id, e.g. after a construct id change,
+      // must be left in place when the previous resource is removed
+      //
+      const ownerLogicalId = policyId
+        ? await getPolicyTagValue(organizationsClient, policyId, logicalIdTagKey)
+        : undefined;
+      if (policyId && ownerLogicalId && ownerLogicalId !== event.LogicalResourceId) {
+        console.log(`${type} ${name} is managed by ${ownerLogicalId}, skipping deletion`);
+      } else if (policyId) {
         console.log(`${type} ${name} found for deletion`);
         console.log(`Checking policy ${name} have any attachment before deletion`);
         await detachPolicyFromAllAttachedTargets(organizationsClient, { name: name, id: policyId });
@@ -181,6 +199,32 @@ async function getPolicyId(
   return undefined;
 }
 
+/**
+ * Function to get the value of a policy tag
+ * @param organizationsClient
+ * @param policyId
+ * @param tagKey
+ */
+async function getPolicyTagValue(
+  organizationsClient: AWS.Organizations,
+  policyId: string,
+  tagKey: string,
+): Promise<string | undefined> {
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      organizationsClient.listTagsForResource({ ResourceId: policyId, NextToken: nextToken }).promise(),
+    );
+    const tag = (page.Tags ?? []).find(item => item.Key === tagKey);
+    if (tag) {
+      return tag.Value;
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  return undefined;
+}
+
 /**
  * Function to detach all targets from given policy, before deleting the policy
  * @param organizationsClient
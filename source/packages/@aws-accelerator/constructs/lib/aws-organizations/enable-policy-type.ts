@@ -21,6 +21,9 @@ export enum PolicyTypeEnum {
   TAG_POLICY = 'TAG_POLICY',
   BACKUP_POLICY = 'BACKUP_POLICY',
   AISERVICES_OPT_OUT_POLICY = 'AISERVICES_OPT_OUT_POLICY',
+  RESOURCE_CONTROL_POLICY = 'RESOURCE_CONTROL_POLICY',
+  CHATBOT_POLICY = 'CHATBOT_POLICY',
+  DECLARATIVE_POLICY_EC2 = 'DECLARATIVE_POLICY_EC2',
 }
 
 /**
@@ -25,6 +25,10 @@ export interface OrganizationalUnitsProps {
   readonly commitId: string;
   readonly controlTowerEnabled: boolean;
   readonly organizationsEnabled: boolean;
+  /**
+   * Delete empty OUs that were removed from the accelerator config table
+   */
+  readonly deleteRemovedOus?: boolean;
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -55,9 +59,19 @@ export class OrganizationalUnits extends Construct {
             Sid: 'organizations',
             Effect: 'Allow',
             Action: [
+              'organizations:AttachPolicy',
               'organizations:CreateOrganizationalUnit',
+              'organizations:DeleteOrganizationalUnit',
+              'organizations:DescribeOrganizationalUnit',
+              'organizations:DetachPolicy',
+              'organizations:ListAccountsForParent',
               'organizations:ListOrganizationalUnitsForParent',
+              'organizations:ListParents',
+              'organizations:ListPoliciesForTarget',
               'organizations:ListRoots',
+              'organizations:ListTagsForResource',
+              'organizations:MoveAccount',
+              'organizations:TagResource',
               'organizations:UpdateOrganizationalUnit',
             ],
             Resource: '*',
@@ -80,6 +94,7 @@ export class OrganizationalUnits extends Construct {
         commitId: props.commitId,
         controlTowerEnabled: props.controlTowerEnabled,
         organizationsEnabled: props.organizationsEnabled,
+        deleteRemovedOus: props.deleteRemovedOus ?? false,
         partition: cdk.Aws.PARTITION,
         uuid: uuidv4(),
       },
@@ -20,6 +20,9 @@ import { v4 as uuidv4 } from 'uuid';
 export enum PolicyType {
   AISERVICES_OPT_OUT_POLICY = 'AISERVICES_OPT_OUT_POLICY',
   BACKUP_POLICY = 'BACKUP_POLICY',
+  CHATBOT_POLICY = 'CHATBOT_POLICY',
+  DECLARATIVE_POLICY_EC2 = 'DECLARATIVE_POLICY_EC2',
+  RESOURCE_CONTROL_POLICY = 'RESOURCE_CONTROL_POLICY',
   SERVICE_CONTROL_POLICY = 'SERVICE_CONTROL_POLICY',
   TAG_POLICY = 'TAG_POLICY',
 }
@@ -127,6 +130,7 @@ export class Policy extends Construct {
             'organizations:DeletePolicy',
             'organizations:DetachPolicy',
             'organizations:ListPolicies',
+            'organizations:ListTagsForResource',
             'organizations:ListTargetsForPolicy',
             'organizations:UpdatePolicy',
             'organizations:TagResource',
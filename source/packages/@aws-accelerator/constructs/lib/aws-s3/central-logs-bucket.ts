@@ -222,6 +222,28 @@ export class CentralLogsBucket extends Construct {
           }),
         );
       }
+
+      if (item.name === 'ConfigConformancePacks') {
+        this.bucket.getS3Bucket().addToResourcePolicy(
+          new cdk.aws_iam.PolicyStatement({
+            sid: 'Allow AWS Config conformance packs to deliver templates',
+            effect: cdk.aws_iam.Effect.ALLOW,
+            actions: ['s3:GetBucketAcl', 's3:GetObject', 's3:PutObject'],
+            principals: [new cdk.aws_iam.AnyPrincipal()],
+            resources: [this.bucket.getS3Bucket().bucketArn, `${this.bucket.getS3Bucket().bucketArn}/*`],
+            conditions: {
+              StringEquals: {
+                ...props.principalOrgIdCondition,
+              },
+              ArnLike: {
+                'aws:PrincipalARN': `arn:${
+                  cdk.Stack.of(this).partition
+                }:iam::*:role/aws-service-role/config-conforms.amazonaws.com/AWSServiceRoleForConfigConforms`,
+              },
+            },
+          }),
+        );
+      }
     });
 
     // Grant organization principals to use the bucket
@@ -258,6 +258,24 @@ function generateBucketPolicy(
                 },
               },
             });
+          } else if (item.name === 'ConfigConformancePacks') {
+            policyStatements.push({
+              Sid: 'Allow AWS Config conformance packs to deliver templates',
+              Effect: 'Allow',
+              Action: ['s3:GetBucketAcl', 's3:GetObject', 's3:PutObject'],
+              Principal: {
+                AWS: '*',
+              },
+              Resource: [bucketArn, `${bucketArn}/*`],
+              Condition: {
+                StringEquals: {
+                  ...principalOrgIdCondition,
+                },
+                ArnLike: {
+                  'aws:PrincipalARN': `arn:${partition}:iam::*:role/aws-service-role/config-conforms.amazonaws.com/AWSServiceRoleForConfigConforms`,
+                },
+              },
+            });
           } else {
             policyStatements.push({
               Sid: `Allow read write access for ${item.name} service principal`,
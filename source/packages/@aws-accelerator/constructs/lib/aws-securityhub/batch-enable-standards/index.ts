@@ -30,6 +30,13 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
 > {
   const region = event.ResourceProperties['region'];
   const solutionId = process.env['SOLUTION_ID'];
+
+  // Standards of accounts associated with a central configuration policy are managed by the delegated administrator
+  if (event.ResourceProperties['centrallyConfigured'] === 'true') {
+    console.log('Standards are managed by a central configuration policy, skipping');
+    return { Status: 'Success', StatusCode: 200 };
+  }
+
   const inputStandards = JSON.parse(JSON.stringify(event.ResourceProperties['standards']));
 
   const securityHubClient = new AWS.SecurityHub({ region: region, customUserAgent: solutionId });
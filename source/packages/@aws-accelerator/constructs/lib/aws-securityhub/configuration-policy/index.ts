@@ -0,0 +1,336 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { delay, setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  CreateConfigurationPolicyCommand,
+  DeleteConfigurationPolicyCommand,
+  DescribeOrganizationConfigurationCommand,
+  DescribeStandardsCommand,
+  ListConfigurationPoliciesCommand,
+  ParameterConfiguration,
+  ParameterValue,
+  Policy,
+  ResourceNotFoundException,
+  SecurityHubClient,
+  StartConfigurationPolicyAssociationCommand,
+  StartConfigurationPolicyDisassociationCommand,
+  Target,
+  UpdateConfigurationPolicyCommand,
+  UpdateOrganizationConfigurationCommand,
+} from '@aws-sdk/client-securityhub';
+
+interface ControlParameters {
+  readonly controlId: string;
+  readonly parameters: { name: string; valueType: string; value: string | string[] }[];
+}
+
+/**
+ * securityhub-configuration-policy - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const region: string = event.ResourceProperties['region'];
+  const name: string = event.ResourceProperties['name'];
+  const description: string | undefined = event.ResourceProperties['description'];
+  const targetIds: string[] = event.ResourceProperties['targetIds'] ?? [];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new SecurityHubClient({
+    region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      await enableCentralConfiguration(securityHubClient);
+      const configurationPolicy = await getConfigurationPolicy(securityHubClient, event.ResourceProperties);
+
+      let policyId: string;
+      if (event.RequestType === 'Create') {
+        console.log(`Creating configuration policy ${name}`);
+        const response = await throttlingBackOff(() =>
+          securityHubClient.send(
+            new CreateConfigurationPolicyCommand({
+              Name: name,
+              Description: description,
+              ConfigurationPolicy: configurationPolicy,
+            }),
+          ),
+        );
+        policyId = response.Id!;
+      } else {
+        policyId = event.PhysicalResourceId;
+        console.log(`Updating configuration policy ${name} (${policyId})`);
+        await throttlingBackOff(() =>
+          securityHubClient.send(
+            new UpdateConfigurationPolicyCommand({
+              Identifier: policyId,
+              Name: name,
+              Description: description,
+              ConfigurationPolicy: configurationPolicy,
+            }),
+          ),
+        );
+
+        //
+        // Disassociate targets that are no longer defined in the configuration
+        //
+        const previousTargetIds: string[] = event.OldResourceProperties['targetIds'] ?? [];
+        for (const targetId of previousTargetIds.filter(item => !targetIds.includes(item))) {
+          await disassociateTarget(securityHubClient, policyId, targetId);
+        }
+      }
+
+      for (const targetId of targetIds) {
+        console.log(`Associating configuration policy ${name} with ${targetId}`);
+        await throttlingBackOff(() =>
+          securityHubClient.send(
+            new StartConfigurationPolicyAssociationCommand({
+              ConfigurationPolicyIdentifier: policyId,
+              Target: getTarget(targetId),
+            }),
+          ),
+        );
+      }
+
+      return { PhysicalResourceId: policyId, Status: 'SUCCESS' };
+
+    case 'Delete':
+      for (const targetId of targetIds) {
+        await disassociateTarget(securityHubClient, event.PhysicalResourceId, targetId);
+      }
+      console.log(`Deleting configuration policy ${name} (${event.PhysicalResourceId})`);
+      await throttlingBackOff(() =>
+        securityHubClient.send(new DeleteConfigurationPolicyCommand({ Identifier: event.PhysicalResourceId })),
+      );
+      await disableCentralConfiguration(securityHubClient);
+
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+  }
+}
+
+/**
+ * Switch the organization to Security Hub central configuration when it is still locally configured
+ * @param securityHubClient
+ */
+async function enableCentralConfiguration(securityHubClient: SecurityHubClient): Promise<void> {
+  const response = await throttlingBackOff(() =>
+    securityHubClient.send(new DescribeOrganizationConfigurationCommand({})),
+  );
+  if (response.OrganizationConfiguration?.ConfigurationType === 'CENTRAL') {
+    return;
+  }
+
+  console.log('Enabling Security Hub central configuration');
+  await throttlingBackOff(() =>
+    securityHubClient.send(
+      new UpdateOrganizationConfigurationCommand({
+        AutoEnable: false,
+        AutoEnableStandards: 'NONE',
+        OrganizationConfiguration: { ConfigurationType: 'CENTRAL' },
+      }),
+    ),
+  );
+
+  // Central configuration is enabled asynchronously
+  for (let attempt = 0; attempt < 30; attempt++) {
+    const status = await throttlingBackOff(() =>
+      securityHubClient.send(new DescribeOrganizationConfigurationCommand({})),
+    );
+    if (status.OrganizationConfiguration?.Status === 'ENABLED') {
+      return;
+    }
+    if (status.OrganizationConfiguration?.Status === 'FAILED') {
+      throw new Error(
+        `Unable to enable Security Hub central configuration: ${status.OrganizationConfiguration.StatusMessage}`,
+      );
+    }
+    await delay(10000);
+  }
+  throw new Error('Timed out enabling Security Hub central configuration');
+}
+
+/**
+ * Switch the organization back to Security Hub local configuration once no configuration policy remains,
+ * new organization accounts are enabled automatically again as they were before central configuration
+ * @param securityHubClient
+ */
+async function disableCentralConfiguration(securityHubClient: SecurityHubClient): Promise<void> {
+  const response = await throttlingBackOff(() =>
+    securityHubClient.send(new ListConfigurationPoliciesCommand({ MaxResults: 1 })),
+  );
+  if ((response.ConfigurationPolicySummaries ?? []).length > 0) {
+    return;
+  }
+
+  console.log('Disabling Security Hub central configuration, no configuration policy remains');
+  await throttlingBackOff(() =>
+    securityHubClient.send(
+      new UpdateOrganizationConfigurationCommand({
+        AutoEnable: true,
+        AutoEnableStandards: 'DEFAULT',
+        OrganizationConfiguration: { ConfigurationType: 'LOCAL' },
+      }),
+    ),
+  );
+}
+
+/**
+ * Build the configuration policy from the custom resource properties
+ * @param securityHubClient
+ * @param resourceProperties
+ * @returns Policy
+ */
+async function getConfigurationPolicy(
+  securityHubClient: SecurityHubClient,
+  resourceProperties: AWSLambda.CloudFormationCustomResourceEvent['ResourceProperties'],
+): Promise<Policy> {
+  if (resourceProperties['serviceEnabled'] !== 'true') {
+    return { SecurityHub: { ServiceEnabled: false } };
+  }
+
+  const standardNames: string[] = resourceProperties['standards'] ?? [];
+  const controlParameters: ControlParameters[] = resourceProperties['controlParameters'] ?? [];
+
+  return {
+    SecurityHub: {
+      ServiceEnabled: true,
+      EnabledStandardIdentifiers: await getStandardArns(securityHubClient, standardNames),
+      SecurityControlsConfiguration: {
+        DisabledSecurityControlIdentifiers: resourceProperties['controlsToDisable'] ?? [],
+        SecurityControlCustomParameters: controlParameters.map(control => ({
+          SecurityControlId: control.controlId,
+          Parameters: Object.fromEntries(
+            control.parameters.map(parameter => [
+              parameter.name,
+              {
+                ValueType: 'CUSTOM',
+                Value: getParameterValue(parameter.valueType, parameter.value),
+              } as ParameterConfiguration,
+            ]),
+          ),
+        })),
+      },
+    },
+  };
+}
+
+/**
+ * Get the ARNs of the standards by name
+ * @param securityHubClient
+ * @param standardNames
+ * @returns string[]
+ */
+async function getStandardArns(securityHubClient: SecurityHubClient, standardNames: string[]): Promise<string[]> {
+  const standardArns: { [name: string]: string } = {};
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      securityHubClient.send(new DescribeStandardsCommand({ NextToken: nextToken })),
+    );
+    for (const standard of page.Standards ?? []) {
+      if (standard.Name && standard.StandardsArn) {
+        standardArns[standard.Name] = standard.StandardsArn;
+      }
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+
+  return standardNames.map(standardName => {
+    if (!standardArns[standardName]) {
+      throw new Error(`Security Hub standard ${standardName} is not available in this region`);
+    }
+    return standardArns[standardName];
+  });
+}
+
+/**
+ * Convert a control parameter value to the Security Hub format.
+ * Custom resource properties are passed as strings.
+ * @param valueType
+ * @param value
+ * @returns ParameterValue
+ */
+function getParameterValue(valueType: string, value: string | string[]): ParameterValue {
+  const values = Array.isArray(value) ? value : [value];
+  switch (valueType) {
+    case 'Boolean':
+      return { Boolean: values[0] === 'true' };
+    case 'Double':
+      return { Double: parseFloat(values[0]) };
+    case 'Integer':
+      return { Integer: parseInt(values[0]) };
+    case 'IntegerList':
+      return { IntegerList: values.map(item => parseInt(item)) };
+    case 'Enum':
+      return { Enum: values[0] };
+    case 'EnumList':
+      return { EnumList: values };
+    case 'StringList':
+      return { StringList: values };
+    default:
+      return { String: values[0] };
+  }
+}
+
+/**
+ * Get the association target of a root, organizational unit or account ID
+ * @param targetId
+ * @returns Target
+ */
+function getTarget(targetId: string): Target {
+  if (targetId.startsWith('r-')) {
+    return { RootId: targetId };
+  }
+  if (targetId.startsWith('ou-')) {
+    return { OrganizationalUnitId: targetId };
+  }
+  return { AccountId: targetId };
+}
+
+/**
+ * Disassociate the configuration policy from a target
+ * @param securityHubClient
+ * @param policyId
+ * @param targetId
+ */
+async function disassociateTarget(securityHubClient: SecurityHubClient, policyId: string, targetId: string) {
+  console.log(`Disassociating configuration policy ${policyId} from ${targetId}`);
+  try {
+    await throttlingBackOff(() =>
+      securityHubClient.send(
+        new StartConfigurationPolicyDisassociationCommand({
+          ConfigurationPolicyIdentifier: policyId,
+          Target: getTarget(targetId),
+        }),
+      ),
+    );
+  } catch (e: unknown) {
+    if (e instanceof ResourceNotFoundException) {
+      console.warn(`Configuration policy ${policyId} is not associated with ${targetId}`);
+      return;
+    }
+    throw e;
+  }
+}
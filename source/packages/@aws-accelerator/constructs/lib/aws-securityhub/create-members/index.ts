@@ -11,7 +11,8 @@
  *  and limitations under the License.
  */
 
-import { throttlingBackOff } from '@aws-accelerator/utils';
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { DescribeOrganizationConfigurationCommand, SecurityHubClient } from '@aws-sdk/client-securityhub';
 import * as AWS from 'aws-sdk';
 AWS.config.logger = console;
 
@@ -62,7 +63,15 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
 
       await throttlingBackOff(() => securityHubClient.createMembers({ AccountDetails: allAccounts }).promise());
 
-      await throttlingBackOff(() => securityHubClient.updateOrganizationConfiguration({ AutoEnable: true }).promise());
+      // Organizations using central configuration policies reject the AutoEnable setting, AutoEnable is restored
+      // when the last configuration policy is deleted and the organization is switched back to local configuration
+      if (event.ResourceProperties['autoEnable'] === 'false' || (await isCentrallyConfigured(region, solutionId))) {
+        console.log('Skipping AutoEnable, organization accounts are managed by central configuration policies');
+      } else {
+        await throttlingBackOff(() =>
+          securityHubClient.updateOrganizationConfiguration({ AutoEnable: true }).promise(),
+        );
+      }
 
       return { Status: 'Success', StatusCode: 200 };
 
@@ -114,3 +123,21 @@ async function enableSecurityHub(securityHubClient: AWS.SecurityHub): Promise<vo
     throw new Error(`SecurityHub enable issue error message - ${e}`);
   }
 }
+
+/**
+ * Check whether the organization uses Security Hub central configuration
+ * @param region
+ * @param solutionId
+ * @returns boolean
+ */
+async function isCentrallyConfigured(region: string, solutionId: string | undefined): Promise<boolean> {
+  const securityHubClient = new SecurityHubClient({
+    region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+  const response = await throttlingBackOff(() =>
+    securityHubClient.send(new DescribeOrganizationConfigurationCommand({})),
+  );
+  return response.OrganizationConfiguration?.ConfigurationType === 'CENTRAL';
+}
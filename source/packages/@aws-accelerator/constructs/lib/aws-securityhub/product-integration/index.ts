@@ -0,0 +1,114 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DisableImportFindingsForProductCommand,
+  EnableImportFindingsForProductCommand,
+  ResourceConflictException,
+  SecurityHubClient,
+  paginateListEnabledProductsForImport,
+} from '@aws-sdk/client-securityhub';
+
+/**
+ * securityhub-product-integration - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const region: string = event.ResourceProperties['region'];
+  const productArn: string = event.ResourceProperties['productArn'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new SecurityHubClient({
+    region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      console.log(`Enabling import of findings for product ${productArn}`);
+      try {
+        await throttlingBackOff(() =>
+          securityHubClient.send(new EnableImportFindingsForProductCommand({ ProductArn: productArn })),
+        );
+      } catch (e: unknown) {
+        if (!(e instanceof ResourceConflictException)) {
+          throw e;
+        }
+        console.log(`Import of findings for product ${productArn} is already enabled`);
+      }
+
+      return {
+        PhysicalResourceId: productArn,
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      // Integrations of AWS services, like aws/access-analyzer, are enabled by default and stay enabled
+      if (productArn.includes(':product/aws/')) {
+        console.log(`Leaving import of findings for AWS service product ${productArn} enabled`);
+        return {
+          PhysicalResourceId: event.PhysicalResourceId,
+          Status: 'SUCCESS',
+        };
+      }
+
+      const subscriptionArn = await getProductSubscriptionArn(securityHubClient, productArn);
+      if (subscriptionArn) {
+        console.log(`Disabling import of findings for product ${productArn}`);
+        await throttlingBackOff(() =>
+          securityHubClient.send(
+            new DisableImportFindingsForProductCommand({ ProductSubscriptionArn: subscriptionArn }),
+          ),
+        );
+      }
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Function to find the product subscription ARN of an enabled product
+ * @param securityHubClient
+ * @param productArn
+ * @returns
+ */
+async function getProductSubscriptionArn(
+  securityHubClient: SecurityHubClient,
+  productArn: string,
+): Promise<string | undefined> {
+  // Subscription ARNs are in the form arn:<partition>:securityhub:<region>:<account>:product-subscription/<company>/<product>
+  const productName = productArn.split(':product/')[1];
+  for await (const page of paginateListEnabledProductsForImport({ client: securityHubClient }, {})) {
+    const subscriptionArn = (page.ProductSubscriptions ?? []).find(arn =>
+      arn.endsWith(`:product-subscription/${productName}`),
+    );
+    if (subscriptionArn) {
+      return subscriptionArn;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,161 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+
+/**
+ * Security Hub control parameter overrides
+ */
+export interface SecurityHubControlParameters {
+  /**
+   * The security control ID
+   */
+  readonly controlId: string;
+  /**
+   * The control parameters
+   */
+  readonly parameters: {
+    name: string;
+    valueType: string;
+    value: string | number | boolean | (string | number)[];
+  }[];
+}
+
+/**
+ * Initialized SecurityHubConfigurationPolicy properties
+ */
+export interface SecurityHubConfigurationPolicyProps {
+  /**
+   * The name of the configuration policy
+   */
+  readonly name: string;
+  /**
+   * The description of the configuration policy
+   */
+  readonly description?: string;
+  /**
+   * Indicates whether Security Hub is enabled in the associated accounts
+   */
+  readonly serviceEnabled: boolean;
+  /**
+   * The names of the standards to enable
+   */
+  readonly standards: string[];
+  /**
+   * The security control IDs to disable
+   */
+  readonly controlsToDisable: string[];
+  /**
+   * The control parameter overrides
+   */
+  readonly controlParameters: SecurityHubControlParameters[];
+  /**
+   * The root, organizational unit and account IDs the configuration policy is associated with
+   */
+  readonly targetIds: string[];
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to manage a Security Hub central configuration policy and its associations
+ */
+export class SecurityHubConfigurationPolicy extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityHubConfigurationPolicyProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityHubConfigurationPolicy';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'configuration-policy/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      timeout: cdk.Duration.minutes(10),
+      policyStatements: [
+        {
+          Sid: 'SecurityHubConfigurationPolicyTaskSecurityHubActions',
+          Effect: 'Allow',
+          Action: [
+            'securityhub:CreateConfigurationPolicy',
+            'securityhub:DeleteConfigurationPolicy',
+            'securityhub:DescribeOrganizationConfiguration',
+            'securityhub:DescribeStandards',
+            'securityhub:GetConfigurationPolicy',
+            'securityhub:StartConfigurationPolicyAssociation',
+            'securityhub:StartConfigurationPolicyDisassociation',
+            'securityhub:UpdateConfigurationPolicy',
+            'securityhub:UpdateOrganizationConfiguration',
+          ],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityHubConfigurationPolicyTaskOrganizationsActions',
+          Effect: 'Allow',
+          Action: [
+            'organizations:DescribeAccount',
+            'organizations:DescribeOrganization',
+            'organizations:DescribeOrganizationalUnit',
+            'organizations:ListAccounts',
+            'organizations:ListAccountsForParent',
+            'organizations:ListChildren',
+            'organizations:ListDelegatedAdministrators',
+            'organizations:ListParents',
+            'organizations:ListRoots',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        name: props.name,
+        description: props.description,
+        serviceEnabled: props.serviceEnabled,
+        standards: props.standards,
+        controlsToDisable: props.controlsToDisable,
+        controlParameters: props.controlParameters,
+        targetIds: props.targetIds,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
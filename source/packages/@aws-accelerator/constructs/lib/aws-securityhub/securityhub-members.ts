@@ -20,6 +20,11 @@ const path = require('path');
  * Initialized SecurityHubMembersProps properties
  */
 export interface SecurityHubMembersProps {
+  /**
+   * Whether Security Hub is enabled automatically in new organization accounts, defaults to true.
+   * Must be false when central configuration policies manage the organization accounts.
+   */
+  readonly autoEnable?: boolean;
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -79,6 +84,7 @@ export class SecurityHubMembers extends Construct {
       properties: {
         region: cdk.Stack.of(this).region,
         partition: cdk.Aws.PARTITION,
+        autoEnable: props.autoEnable ?? true,
       },
     });
 
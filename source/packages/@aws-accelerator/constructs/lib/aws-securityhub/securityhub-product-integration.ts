@@ -0,0 +1,92 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+
+/**
+ * Initialized SecurityHubProductIntegration properties
+ */
+export interface SecurityHubProductIntegrationProps {
+  /**
+   * The product whose findings are imported, in the form company/product, for example aws/access-analyzer
+   */
+  readonly productName: string;
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to enable the import of product findings into Security Hub
+ */
+export class SecurityHubProductIntegration extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityHubProductIntegrationProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityHubProductIntegration';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'product-integration/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'SecurityHubProductIntegrationTaskSecurityHubActions',
+          Effect: 'Allow',
+          Action: [
+            'securityhub:DisableImportFindingsForProduct',
+            'securityhub:EnableImportFindingsForProduct',
+            'securityhub:ListEnabledProductsForImport',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        productArn: `arn:${cdk.Stack.of(this).partition}:securityhub:${cdk.Stack.of(this).region}::product/${
+          props.productName
+        }`,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
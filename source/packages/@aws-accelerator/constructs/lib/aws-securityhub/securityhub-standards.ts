@@ -24,6 +24,11 @@ export interface SecurityHubStandardsProps {
    * Security hub standards
    */
   readonly standards: { name: string; enable: boolean; controlsToDisable: string[] | undefined }[];
+  /**
+   * Whether the account is associated with a central configuration policy, the standards are then managed by
+   * the delegated administrator and are left unchanged
+   */
+  readonly centrallyConfigured?: boolean;
   /**
    * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
    */
@@ -84,6 +89,7 @@ export class SecurityHubStandards extends Construct {
       properties: {
         region: cdk.Stack.of(this).region,
         standards: props.standards,
+        centrallyConfigured: props.centrallyConfigured,
       },
     });
 
@@ -0,0 +1,305 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { chunkArray, setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AwsLogSourceConfiguration,
+  AwsLogSourceName,
+  CreateAwsLogSourceCommand,
+  CreateDataLakeCommand,
+  CreateDataLakeOrganizationConfigurationCommand,
+  DataLakeAutoEnableNewAccountConfiguration,
+  DataLakeConfiguration,
+  DeleteAwsLogSourceCommand,
+  DeleteDataLakeOrganizationConfigurationCommand,
+  ListDataLakesCommand,
+  SecurityLakeClient,
+  UpdateDataLakeCommand,
+} from '@aws-sdk/client-securitylake';
+
+type RollupRegion = { region: string; contributingRegions: string[] };
+type Transition = { days: string; storageClass: string };
+
+/**
+ * create-data-lake - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region: string = event.ResourceProperties['region'];
+  const regions: string[] = event.ResourceProperties['regions'];
+  const sources: AwsLogSourceName[] = event.ResourceProperties['sources'];
+  const accountIds: string[] = event.ResourceProperties['accountIds'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({
+    region: region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      //
+      // Create the data lake in new regions and update the existing ones
+      //
+      const configurations = getDataLakeConfigurations(event.ResourceProperties);
+      const existingRegions = await getDataLakeRegions(securityLakeClient, regions);
+      const newConfigurations = configurations.filter(item => !existingRegions.includes(item.region!));
+      const existingConfigurations = configurations.filter(item => existingRegions.includes(item.region!));
+
+      if (newConfigurations.length > 0) {
+        console.log(`Creating Security Lake in regions ${newConfigurations.map(item => item.region)}`);
+        await throttlingBackOff(() =>
+          securityLakeClient.send(
+            new CreateDataLakeCommand({
+              configurations: newConfigurations,
+              metaStoreManagerRoleArn: event.ResourceProperties['metaStoreManagerRoleArn'],
+            }),
+          ),
+        );
+      }
+      if (existingConfigurations.length > 0) {
+        console.log(`Updating Security Lake in regions ${existingConfigurations.map(item => item.region)}`);
+        await throttlingBackOff(() =>
+          securityLakeClient.send(new UpdateDataLakeCommand({ configurations: existingConfigurations })),
+        );
+      }
+
+      //
+      // Remove log sources, regions and accounts that are no longer part of the configuration
+      //
+      if (event.RequestType === 'Update') {
+        await deleteRemovedLogSources(securityLakeClient, event.OldResourceProperties, sources, regions, accountIds);
+      }
+
+      //
+      // Automatically enable the log sources in new organization accounts. The organization configuration
+      // is added to, so the entries removed from the configuration are deleted afterwards. This way
+      // new accounts are covered throughout the update.
+      //
+      await throttlingBackOff(() =>
+        securityLakeClient.send(
+          new CreateDataLakeOrganizationConfigurationCommand({
+            autoEnableNewAccount: getAutoEnableConfigurations(regions, sources),
+          }),
+        ),
+      );
+      if (event.RequestType === 'Update') {
+        await deleteRemovedOrganizationConfiguration(
+          securityLakeClient,
+          event.OldResourceProperties['regions'] ?? [],
+          event.OldResourceProperties['sources'] ?? [],
+          regions,
+          sources,
+        );
+      }
+
+      //
+      // Enable the log sources in existing accounts
+      //
+      for (const accountIdsChunk of chunkArray(accountIds, 50)) {
+        const response = await throttlingBackOff(() =>
+          securityLakeClient.send(
+            new CreateAwsLogSourceCommand({
+              sources: getLogSourceConfigurations(sources, regions, accountIdsChunk),
+            }),
+          ),
+        );
+        if (response.failed && response.failed.length > 0) {
+          throw new Error(`Failed to enable Security Lake log sources in accounts ${response.failed}`);
+        }
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      //
+      // The data lake itself is retained so that collected security data is not lost
+      //
+      for (const accountIdsChunk of chunkArray(accountIds, 50)) {
+        await throttlingBackOff(() =>
+          securityLakeClient.send(
+            new DeleteAwsLogSourceCommand({
+              sources: getLogSourceConfigurations(sources, regions, accountIdsChunk),
+            }),
+          ),
+        );
+      }
+      await deleteOrganizationConfiguration(securityLakeClient, getAutoEnableConfigurations(regions, sources));
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Function to build the data lake configuration of each region
+ * @param properties
+ * @returns
+ */
+function getDataLakeConfigurations(properties: { [key: string]: string | string[] }): DataLakeConfiguration[] {
+  const regions = properties['regions'] as string[];
+  const rollupRegions = (properties['rollupRegions'] ?? []) as unknown as RollupRegion[];
+  const transitions = (properties['transitions'] ?? []) as unknown as Transition[];
+  const expirationDays = properties['expirationDays'] as string | undefined;
+  const replicationRoleArn = properties['replicationRoleArn'] as string | undefined;
+
+  return regions.map(region => {
+    const rollupRegion = rollupRegions.find(item => item.contributingRegions.includes(region));
+    return {
+      region,
+      encryptionConfiguration: { kmsKeyId: 'S3_MANAGED_KEY' },
+      lifecycleConfiguration: {
+        expiration: expirationDays ? { days: Number(expirationDays) } : undefined,
+        transitions: transitions.map(item => ({ days: Number(item.days), storageClass: item.storageClass })),
+      },
+      replicationConfiguration: rollupRegion
+        ? { regions: [rollupRegion.region], roleArn: replicationRoleArn }
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Function to list the regions where the data lake already exists
+ * @param securityLakeClient
+ * @param regions
+ * @returns
+ */
+async function getDataLakeRegions(securityLakeClient: SecurityLakeClient, regions: string[]): Promise<string[]> {
+  const response = await throttlingBackOff(() => securityLakeClient.send(new ListDataLakesCommand({ regions })));
+  return (response.dataLakes ?? []).map(item => item.region!);
+}
+
+/**
+ * Function to build the AWS log source configurations
+ * @param sources
+ * @param regions
+ * @param accountIds
+ * @returns
+ */
+function getLogSourceConfigurations(
+  sources: AwsLogSourceName[],
+  regions: string[],
+  accountIds: string[],
+): AwsLogSourceConfiguration[] {
+  return sources.map(sourceName => ({ sourceName, regions, accounts: accountIds }));
+}
+
+/**
+ * Function to disable log sources, regions and accounts removed from the configuration
+ * @param securityLakeClient
+ * @param oldProperties
+ * @param sources
+ * @param regions
+ * @param accountIds
+ */
+async function deleteRemovedLogSources(
+  securityLakeClient: SecurityLakeClient,
+  oldProperties: { [key: string]: string[] },
+  sources: AwsLogSourceName[],
+  regions: string[],
+  accountIds: string[],
+) {
+  const removedLogSources: AwsLogSourceConfiguration[] = [];
+  for (const sourceName of (oldProperties['sources'] ?? []) as AwsLogSourceName[]) {
+    if (!sources.includes(sourceName)) {
+      removedLogSources.push({
+        sourceName,
+        regions: oldProperties['regions'],
+        accounts: oldProperties['accountIds'],
+      });
+      continue;
+    }
+    const removedRegions = (oldProperties['regions'] ?? []).filter(item => !regions.includes(item));
+    if (removedRegions.length > 0) {
+      removedLogSources.push({ sourceName, regions: removedRegions, accounts: oldProperties['accountIds'] });
+    }
+    const removedAccountIds = (oldProperties['accountIds'] ?? []).filter(item => !accountIds.includes(item));
+    if (removedAccountIds.length > 0) {
+      removedLogSources.push({ sourceName, regions, accounts: removedAccountIds });
+    }
+  }
+
+  if (removedLogSources.length > 0) {
+    console.log(`Disabling Security Lake log sources ${JSON.stringify(removedLogSources)}`);
+    await throttlingBackOff(() =>
+      securityLakeClient.send(new DeleteAwsLogSourceCommand({ sources: removedLogSources })),
+    );
+  }
+}
+
+/**
+ * Function to build the organization configuration entries of each region
+ * @param regions
+ * @param sources
+ * @returns
+ */
+function getAutoEnableConfigurations(
+  regions: string[],
+  sources: AwsLogSourceName[],
+): DataLakeAutoEnableNewAccountConfiguration[] {
+  return regions.map(region => ({ region, sources: sources.map(sourceName => ({ sourceName })) }));
+}
+
+/**
+ * Function to delete the organization configuration entries of regions and log sources
+ * removed from the configuration
+ * @param securityLakeClient
+ * @param oldRegions
+ * @param oldSources
+ * @param regions
+ * @param sources
+ */
+async function deleteRemovedOrganizationConfiguration(
+  securityLakeClient: SecurityLakeClient,
+  oldRegions: string[],
+  oldSources: AwsLogSourceName[],
+  regions: string[],
+  sources: AwsLogSourceName[],
+) {
+  const removedConfigurations: DataLakeAutoEnableNewAccountConfiguration[] = [];
+  for (const region of oldRegions) {
+    const removedSources = regions.includes(region) ? oldSources.filter(item => !sources.includes(item)) : oldSources;
+    if (removedSources.length > 0) {
+      removedConfigurations.push(...getAutoEnableConfigurations([region], removedSources));
+    }
+  }
+
+  if (removedConfigurations.length > 0) {
+    console.log(`Removing Security Lake organization configuration ${JSON.stringify(removedConfigurations)}`);
+    await deleteOrganizationConfiguration(securityLakeClient, removedConfigurations);
+  }
+}
+
+/**
+ * Function to delete the organization configuration that automatically enables log sources in new accounts
+ * @param securityLakeClient
+ * @param autoEnableNewAccount
+ */
+async function deleteOrganizationConfiguration(
+  securityLakeClient: SecurityLakeClient,
+  autoEnableNewAccount: DataLakeAutoEnableNewAccountConfiguration[],
+) {
+  await throttlingBackOff(() =>
+    securityLakeClient.send(new DeleteDataLakeOrganizationConfigurationCommand({ autoEnableNewAccount })),
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AccessType,
+  AwsLogSourceName,
+  CreateSubscriberCommand,
+  DeleteSubscriberCommand,
+  SecurityLakeClient,
+  UpdateSubscriberCommand,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * create-subscriber - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const region: string = event.ResourceProperties['region'];
+  const subscriberName: string = event.ResourceProperties['subscriberName'];
+  const subscriberDescription: string | undefined = event.ResourceProperties['subscriberDescription'];
+  const accountId: string = event.ResourceProperties['accountId'];
+  const externalId: string = event.ResourceProperties['externalId'];
+  const accessType: AccessType = event.ResourceProperties['accessType'];
+  const sources: AwsLogSourceName[] = event.ResourceProperties['sources'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({
+    region: region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  const subscriberIdentity = { principal: accountId, externalId };
+  const subscriberSources = sources.map(sourceName => ({ awsLogSource: { sourceName } }));
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      //
+      // The subscriber access type cannot be updated, the subscriber is replaced instead.
+      // CloudFormation deletes the previous subscriber when the physical resource id changes.
+      //
+      if (event.RequestType === 'Update' && event.OldResourceProperties['accessType'] === accessType) {
+        console.log(`Updating Security Lake subscriber ${subscriberName}`);
+        await throttlingBackOff(() =>
+          securityLakeClient.send(
+            new UpdateSubscriberCommand({
+              subscriberId: event.PhysicalResourceId,
+              subscriberName,
+              subscriberDescription,
+              subscriberIdentity,
+              sources: subscriberSources,
+            }),
+          ),
+        );
+
+        return {
+          PhysicalResourceId: event.PhysicalResourceId,
+          Status: 'SUCCESS',
+        };
+      }
+
+      console.log(`Creating Security Lake subscriber ${subscriberName}`);
+      const response = await throttlingBackOff(() =>
+        securityLakeClient.send(
+          new CreateSubscriberCommand({
+            subscriberName,
+            subscriberDescription,
+            subscriberIdentity,
+            sources: subscriberSources,
+            accessTypes: [accessType],
+          }),
+        ),
+      );
+
+      return {
+        PhysicalResourceId: response.subscriber?.subscriberId,
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      console.log(`Deleting Security Lake subscriber ${subscriberName}`);
+      await throttlingBackOff(() =>
+        securityLakeClient.send(new DeleteSubscriberCommand({ subscriberId: event.PhysicalResourceId })),
+      );
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
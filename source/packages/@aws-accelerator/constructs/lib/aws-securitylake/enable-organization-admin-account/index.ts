@@ -0,0 +1,84 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { delay, setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DeregisterDataLakeDelegatedAdministratorCommand,
+  RegisterDataLakeDelegatedAdministratorCommand,
+  SecurityLakeClient,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * enable-security-lake-organization-admin-account - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({
+    region: region,
+    customUserAgent: solutionId,
+    retryStrategy: setRetryStrategy(),
+  });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      console.log(
+        `Started registerDataLakeDelegatedAdministrator function in ${region} region for account ${adminAccountId}`,
+      );
+      let retries = 0;
+      while (retries < 10) {
+        await delay(retries ** 2 * 1000);
+        try {
+          await throttlingBackOff(() =>
+            securityLakeClient.send(new RegisterDataLakeDelegatedAdministratorCommand({ accountId: adminAccountId })),
+          );
+          break;
+        } catch (error) {
+          // A delegated administrator is already registered for Security Lake
+          if (error instanceof Error && error.name === 'ConflictException') {
+            console.warn(`Security Lake delegated admin is already registered: ${error.message}. No action needed`);
+            break;
+          }
+          console.log(error);
+          retries = retries + 1;
+        }
+      }
+      if (retries === 10) {
+        throw new Error(
+          `Failed to register Security Lake delegated admin account ${adminAccountId} in ${region} region`,
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      console.log(
+        `Started deregisterDataLakeDelegatedAdministrator function in ${region} region for account ${adminAccountId}`,
+      );
+      await throttlingBackOff(() => securityLakeClient.send(new DeregisterDataLakeDelegatedAdministratorCommand({})));
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Initialized SecurityLakeSubscriberProps properties
+ */
+export interface SecurityLakeSubscriberProps {
+  /**
+   * The name of the subscriber
+   */
+  readonly subscriberName: string;
+  /**
+   * The description of the subscriber
+   */
+  readonly subscriberDescription?: string;
+  /**
+   * The subscriber account id
+   */
+  readonly accountId: string;
+  /**
+   * The external id used by the subscriber
+   */
+  readonly externalId: string;
+  /**
+   * The subscriber access type, S3 or LAKEFORMATION
+   */
+  readonly accessType: string;
+  /**
+   * AWS log sources the subscriber has access to
+   */
+  readonly sources: string[];
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to create an Amazon Security Lake subscriber
+ */
+export class SecurityLakeSubscriber extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityLakeSubscriberProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityLakeCreateSubscriber';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-subscriber/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      timeout: cdk.Duration.minutes(5),
+      policyStatements: [
+        {
+          Sid: 'SecurityLakeCreateSubscriberTaskSecurityLakeActions',
+          Effect: 'Allow',
+          Action: [
+            'securitylake:CreateSubscriber',
+            'securitylake:DeleteSubscriber',
+            'securitylake:GetSubscriber',
+            'securitylake:UpdateSubscriber',
+          ],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityLakeCreateSubscriberTaskResourceActions',
+          Effect: 'Allow',
+          Action: [
+            'glue:GetDatabase',
+            'glue:GetTable',
+            'iam:CreateRole',
+            'iam:DeleteRole',
+            'iam:DeleteRolePolicy',
+            'iam:GetRole',
+            'iam:PassRole',
+            'iam:PutRolePolicy',
+            'lakeformation:GrantPermissions',
+            'lakeformation:ListPermissions',
+            'lakeformation:RegisterResource',
+            'lakeformation:RevokePermissions',
+            'ram:GetResourceShareAssociations',
+            'ram:GetResourceShares',
+            'ram:UpdateResourceShare',
+            's3:PutObject',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        subscriberName: props.subscriberName,
+        subscriberDescription: props.subscriberDescription,
+        accountId: props.accountId,
+        externalId: props.externalId,
+        accessType: props.accessType,
+        sources: props.sources,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Security Lake data lake lifecycle transition
+ */
+export interface SecurityLakeLifecycleTransition {
+  /**
+   * Number of days after which the data is transitioned
+   */
+  readonly days: number;
+  /**
+   * The S3 storage class the data is transitioned to
+   */
+  readonly storageClass: string;
+}
+
+/**
+ * Security Lake rollup region
+ */
+export interface SecurityLakeRollupRegion {
+  /**
+   * The rollup region
+   */
+  readonly region: string;
+  /**
+   * Regions whose data is replicated to the rollup region
+   */
+  readonly contributingRegions: string[];
+}
+
+/**
+ * Initialized SecurityLakeProps properties
+ */
+export interface SecurityLakeProps {
+  /**
+   * Regions Security Lake is enabled in
+   */
+  readonly regions: string[];
+  /**
+   * AWS log sources collected across the organization
+   */
+  readonly sources: string[];
+  /**
+   * Account ids the log sources are collected from
+   */
+  readonly accountIds: string[];
+  /**
+   * Number of days after which Security Lake data expires
+   */
+  readonly expirationDays?: number;
+  /**
+   * Security Lake data storage class transitions
+   */
+  readonly transitions: SecurityLakeLifecycleTransition[];
+  /**
+   * Rollup regions
+   */
+  readonly rollupRegions: SecurityLakeRollupRegion[];
+  /**
+   * Custom resource lambda log group encryption key, when undefined default AWS managed key will be used
+   */
+  readonly kmsKey?: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to configure the Amazon Security Lake data lake, organization configuration and AWS log sources
+ */
+export class SecurityLake extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityLakeProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityLakeCreateDataLake';
+
+    //
+    // Role used by Security Lake to manage the data lake AWS Glue partitions
+    //
+    const metaStoreManagerRole = new cdk.aws_iam.Role(this, 'MetaStoreManagerRole', {
+      assumedBy: new cdk.aws_iam.ServicePrincipal('lambda.amazonaws.com'),
+      managedPolicies: [
+        cdk.aws_iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AmazonSecurityLakeMetastoreManager'),
+      ],
+    });
+
+    //
+    // Role used to replicate data from the contributing regions to the rollup regions
+    //
+    let replicationRole: cdk.aws_iam.Role | undefined;
+    if (props.rollupRegions.length > 0) {
+      replicationRole = new cdk.aws_iam.Role(this, 'ReplicationRole', {
+        assumedBy: new cdk.aws_iam.ServicePrincipal('s3.amazonaws.com'),
+        inlinePolicies: {
+          default: new cdk.aws_iam.PolicyDocument({
+            statements: [
+              new cdk.aws_iam.PolicyStatement({
+                actions: [
+                  's3:GetObjectLegalHold',
+                  's3:GetObjectRetention',
+                  's3:GetObjectVersion',
+                  's3:GetObjectVersionAcl',
+                  's3:GetObjectVersionForReplication',
+                  's3:GetObjectVersionTagging',
+                  's3:GetReplicationConfiguration',
+                  's3:ListBucket',
+                  's3:ReplicateDelete',
+                  's3:ReplicateObject',
+                  's3:ReplicateTags',
+                ],
+                resources: [
+                  `arn:${cdk.Stack.of(this).partition}:s3:::aws-security-data-lake*`,
+                  `arn:${cdk.Stack.of(this).partition}:s3:::aws-security-data-lake*/*`,
+                ],
+                conditions: {
+                  StringEquals: {
+                    'aws:ResourceAccount': cdk.Stack.of(this).account,
+                  },
+                },
+              }),
+            ],
+          }),
+        },
+      });
+    }
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-data-lake/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      timeout: cdk.Duration.minutes(15),
+      policyStatements: [
+        {
+          Sid: 'SecurityLakeCreateDataLakeTaskSecurityLakeActions',
+          Effect: 'Allow',
+          Action: ['securitylake:*'],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityLakeCreateDataLakeTaskPassRole',
+          Effect: 'Allow',
+          Action: ['iam:PassRole'],
+          Resource: '*',
+          Condition: {
+            StringEquals: {
+              'iam:PassedToService': ['lambda.amazonaws.com', 's3.amazonaws.com'],
+            },
+          },
+        },
+        {
+          Sid: 'SecurityLakeCreateDataLakeTaskResourceActions',
+          Effect: 'Allow',
+          Action: [
+            'events:*',
+            'glue:*',
+            'iam:CreateServiceLinkedRole',
+            'iam:GetRole',
+            'iam:ListAttachedRolePolicies',
+            'kms:CreateGrant',
+            'kms:DescribeKey',
+            'lakeformation:*',
+            'lambda:*',
+            'organizations:DescribeOrganization',
+            'organizations:ListAccounts',
+            'organizations:ListDelegatedServicesForAccount',
+            's3:*',
+            'sqs:*',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        regions: props.regions,
+        sources: props.sources,
+        accountIds: props.accountIds,
+        expirationDays: props.expirationDays,
+        transitions: props.transitions,
+        rollupRegions: props.rollupRegions,
+        metaStoreManagerRoleArn: metaStoreManagerRole.roleArn,
+        replicationRoleArn: replicationRole?.roleArn,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
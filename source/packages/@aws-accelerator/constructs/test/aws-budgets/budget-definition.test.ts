@@ -63,6 +63,52 @@ new BudgetDefinition(nativeStack, 'TestBudgetDefinition', {
   logRetentionInDays: 100,
 });
 
+new BudgetDefinition(nativeStack, 'TestLinkedAccountsBudgetDefinition', {
+  name: 'accel-linked-accounts-budget',
+  timeUnit: 'MONTHLY',
+  type: 'COST',
+  amount: 500,
+  includeUpfront: true,
+  includeTax: true,
+  includeSupport: true,
+  includeSubscription: true,
+  includeRecurring: true,
+  includeOtherSubscription: true,
+  includeDiscount: true,
+  includeCredit: false,
+  includeRefund: false,
+  useBlended: false,
+  useAmortized: false,
+  unit: 'USD',
+  linkedAccountIds: ['444444444444', '555555555555'],
+  actions: [
+    {
+      actionType: 'APPLY_SCP_POLICY',
+      notificationType: 'ACTUAL',
+      thresholdType: 'PERCENTAGE',
+      threshold: 100,
+      approvalModel: 'MANUAL',
+      policyId: 'p-abcd1234',
+      targetIds: ['ou-abcd-11111111'],
+      subscriptionType: 'EMAIL',
+      recipients: ['myemail+pa-budg@example.com'],
+    },
+    {
+      actionType: 'APPLY_IAM_POLICY',
+      notificationType: 'FORECASTED',
+      thresholdType: 'ABSOLUTE_VALUE',
+      threshold: 450,
+      approvalModel: 'AUTOMATIC',
+      policyArn: 'arn:aws:iam::333333333333:policy/DenyCompute',
+      roles: ['Developer'],
+      subscriptionType: 'EMAIL',
+      recipients: ['myemail+pa-budg@example.com'],
+    },
+  ],
+  kmsKey: nativeKey,
+  logRetentionInDays: 100,
+});
+
 // Create stack for cross region Cfn construct
 const crossRegionEnv = { account: '111111111111', region: 'dummyRegion' };
 const crossRegionStack = new cdk.Stack(app, 'CrossRegionStack', { env: crossRegionEnv });
@@ -90,6 +136,20 @@ new BudgetDefinition(crossRegionStack, 'CrossRegionTestBudgetDefinition', {
   useBlended: false,
   useAmortized: false,
   unit: 'USD',
+  linkedAccountIds: ['444444444444'],
+  actions: [
+    {
+      actionType: 'APPLY_SCP_POLICY',
+      notificationType: 'ACTUAL',
+      thresholdType: 'PERCENTAGE',
+      threshold: 100,
+      approvalModel: 'AUTOMATIC',
+      policyId: 'p-abcd1234',
+      targetIds: ['444444444444'],
+      subscriptionType: 'EMAIL',
+      recipients: ['myemail+pa-budg@example.com'],
+    },
+  ],
   kmsKey: crossRegionKey,
   logRetentionInDays: 100,
 });
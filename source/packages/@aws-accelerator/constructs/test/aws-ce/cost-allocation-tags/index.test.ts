@@ -0,0 +1,73 @@
+/**
+ *  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  CostExplorerClient,
+  ListCostAllocationTagsCommand,
+  UpdateCostAllocationTagsStatusCommand,
+} from '@aws-sdk/client-cost-explorer';
+import { afterEach, beforeEach, expect, it } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import { handler } from '../../../lib/aws-ce/cost-allocation-tags/index';
+import { CloudFormationCustomResourceCreateEvent } from '../../../lib/lza-custom-resource';
+
+let ceMock: AwsClientStub<CostExplorerClient>;
+
+beforeEach(() => {
+  ceMock = mockClient(CostExplorerClient);
+});
+
+afterEach(() => {
+  ceMock.restore();
+});
+
+// When
+it('@aws-accelerator/constructs/aws-ce/cost-allocation-tags create event -- batches tag keys and reports drift', async () => {
+  const tagKeys = Array.from({ length: 45 }, (_, index) => `tag-${index}`);
+  const event: CloudFormationCustomResourceCreateEvent = {
+    RequestType: 'Create',
+    ResponseURL: 'https://example.com',
+    ServiceToken: 'example-service-token',
+    StackId: 'example-stack-id',
+    RequestId: 'example-create-request-id',
+    ResourceType: 'Custom::CostAllocationTags',
+    LogicalResourceId: 'example-logical-resource-id',
+    ResourceProperties: {
+      partition: 'aws',
+      tagKeys,
+      ServiceToken: 'example-service-token',
+    },
+  };
+  ceMock.on(ListCostAllocationTagsCommand).resolves({
+    CostAllocationTags: [
+      { TagKey: 'tag-0', Type: 'UserDefined', Status: 'Active' },
+      { TagKey: 'unmanaged', Type: 'UserDefined', Status: 'Active' },
+    ],
+  });
+  ceMock
+    .on(UpdateCostAllocationTagsStatusCommand)
+    .resolves({ Errors: [] })
+    .on(UpdateCostAllocationTagsStatusCommand, {
+      CostAllocationTagsStatus: tagKeys.slice(41).map(tagKey => ({ TagKey: tagKey, Status: 'Active' })),
+    })
+    .resolves({ Errors: [{ TagKey: 'tag-44', Code: 'TagKeysNotFoundException', Message: 'Tag key not found' }] });
+
+  const response = await handler(event);
+
+  // Then
+  const batchSizes = ceMock
+    .commandCalls(UpdateCostAllocationTagsStatusCommand)
+    .map(call => call.args[0].input.CostAllocationTagsStatus?.length);
+  expect(batchSizes).toEqual([20, 20, 4]);
+  expect(response?.Data).toEqual({ UnmanagedTagKeys: 'unmanaged', FailedTagKeys: 'tag-44' });
+});
@@ -0,0 +1,55 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { CostAnomalyDetection } from '../../lib/aws-ce/cost-anomaly-detection';
+import { snapShotTest } from '../snapshot-test';
+import { describe } from '@jest/globals';
+
+const testNamePrefix = 'Construct(CostAnomalyDetection): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+new CostAnomalyDetection(stack, 'CostAnomalyDetection', {
+  monitors: [
+    { name: 'services', type: 'SERVICE' },
+    { name: 'workloads', type: 'LINKED_ACCOUNT', linkedAccountIds: ['111111111111', '222222222222'] },
+    { name: 'cost-center', type: 'TAG', key: 'CostCenter', values: ['1234'] },
+  ],
+  subscriptions: [
+    {
+      name: 'immediate-alerts',
+      frequency: 'IMMEDIATE',
+      monitorNames: ['services', 'workloads'],
+      totalImpactAbsolute: 100,
+      totalImpactPercentage: 20,
+      operator: 'AND',
+      snsTopicArn: 'arn:aws:sns:us-east-1:111111111111:aws-accelerator-Security',
+    },
+    {
+      name: 'daily-summary',
+      frequency: 'DAILY',
+      monitorNames: ['cost-center'],
+      totalImpactPercentage: 10,
+      emailAddresses: ['finops@example.com'],
+    },
+  ],
+});
+
+/**
+ * CostAnomalyDetection construct test
+ */
+describe('CostAnomalyDetection', () => {
+  snapShotTest(testNamePrefix, stack);
+});
@@ -33,6 +33,7 @@ const vpc = new Vpc(stack, 'TestVpc', {
   virtualPrivateGateway: {
     asn: 65000,
   },
+  egressOnlyInternetGateway: true,
 });
 
 const rt = new RouteTable(stack, 'RouteTable', {
@@ -68,6 +69,10 @@ rt.addInternetGatewayRoute('testIgwRoute', '0.0.0.0/0', undefined, key, 10);
 rt.addInternetGatewayRoute('testIgwRoute2', undefined, 'pl-1234', key, 10);
 rt.addVirtualPrivateGatewayRoute('testVgwRoute', '10.0.30./24', undefined, key, 10);
 rt.addVirtualPrivateGatewayRoute('testVgw2Route', undefined, 'pl-1234', key, 10);
+rt.addInternetGatewayRoute('testIgwIpv6Route', '::/0', undefined, key, 10);
+rt.addEgressOnlyInternetGatewayRoute('testEigwRoute', '::/0', undefined, key, 10);
+rt.addEgressOnlyInternetGatewayRoute('testEigwRoute2', undefined, 'pl-1234', key, 10);
+rt.addNatGatewayRoute('testNat64Route', ngw.natGatewayId, '64:ff9b::/96', undefined, key, 10);
 rt.addGatewayAssociation('internetGateway');
 rt.addGatewayAssociation('virtualPrivateGateway');
 /**
@@ -158,5 +163,19 @@ describe('RouteTable', () => {
     }
     expect(noDest).toThrow(new Error('Attempting to add CIDR route without specifying destination'));
   });
+  it('addEgressOnlyInternetGatewayRoute without an EIGW throws error', () => {
+    const noEigwVpc = new Vpc(stack, 'NoEigwVpc', {
+      name: 'NoEigw',
+      ipv4CidrBlock: '10.1.0.0/16',
+      enableDnsHostnames: false,
+      enableDnsSupport: true,
+      instanceTenancy: 'default',
+    });
+    const noEigwRt = new RouteTable(stack, 'NoEigwRouteTable', { name: 'NoEigwRouteTable', vpc: noEigwVpc });
+    function noEigw() {
+      noEigwRt.addEgressOnlyInternetGatewayRoute('testEigwRoute3', '::/0', undefined, key, 10);
+    }
+    expect(noEigw).toThrow(new Error('Attempting to add Egress-only Internet Gateway route without an EIGW defined.'));
+  });
   snapShotTest(testNamePrefix, stack);
 });
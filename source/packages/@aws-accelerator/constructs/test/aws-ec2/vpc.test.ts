@@ -138,6 +138,38 @@ new Subnet(stack, 'testSubnetPhysicalAz2', {
   kmsKey: new cdk.aws_kms.Key(stack, 'testKms2'),
 });
 
+const dualStackVpc = new Vpc(stack, 'TestDualStackVpc', {
+  name: 'DualStack',
+  ipv4CidrBlock: '10.1.0.0/16',
+  internetGateway: true,
+  egressOnlyInternetGateway: true,
+  enableDnsHostnames: true,
+  enableDnsSupport: true,
+  instanceTenancy: 'default',
+});
+dualStackVpc.addCidr({ ipv6CidrBlock: '2001:db8:1234:1a00::/56', ipv6Pool: 'ipv6pool-ec2-1234567890abcdef0' });
+
+new Subnet(stack, 'testSubnetDualStack', {
+  availabilityZone: 'a',
+  availabilityZoneId: undefined,
+  vpc: dualStackVpc,
+  name: 'testSubnetDualStack',
+  ipv4CidrBlock: '10.1.0.0/24',
+  ipv6CidrBlock: '2001:db8:1234:1a00::/64',
+  assignIpv6OnCreation: true,
+});
+
+new Subnet(stack, 'testSubnetIpv6Only', {
+  availabilityZone: 'b',
+  availabilityZoneId: undefined,
+  vpc: dualStackVpc,
+  name: 'testSubnetIpv6Only',
+  ipv6CidrBlock: '2001:db8:1234:1a01::/64',
+  ipv6Only: true,
+  assignIpv6OnCreation: true,
+  enableDns64: true,
+});
+
 new NatGateway(stack, 'natGw', { name: 'ngw', subnet: subnet1, tags: [{ key: 'test', value: 'test2' }] });
 
 const sg = new SecurityGroup(stack, 'tetSg', {
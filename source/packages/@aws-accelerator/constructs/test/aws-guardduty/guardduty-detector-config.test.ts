@@ -24,6 +24,11 @@ new GuardDutyDetectorConfig(stack, 'GuardDutyDetectorConfig', {
   exportFrequency: 'FIFTEEN_MINUTES',
   enableS3Protection: true,
   enableEksProtection: true,
+  enableMalwareProtection: true,
+  enableRdsProtection: true,
+  enableLambdaProtection: false,
+  enableRuntimeMonitoring: true,
+  runtimeMonitoringAgentManagement: { eksAddon: true, ecsFargate: true, ec2: false },
   kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
   logRetentionInDays: 3653,
 });
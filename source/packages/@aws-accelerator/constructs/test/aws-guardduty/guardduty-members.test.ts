@@ -23,6 +23,13 @@ const stack = new cdk.Stack();
 new GuardDutyMembers(stack, 'GuardDutyMembers', {
   enableS3Protection: true,
   enableEksProtection: true,
+  enableMalwareProtection: true,
+  enableRdsProtection: true,
+  enableLambdaProtection: false,
+  enableRuntimeMonitoring: true,
+  runtimeMonitoringAgentManagement: { eksAddon: true, ecsFargate: true, ec2: false },
+  autoEnableOrganizationMembers: 'ALL',
+  featureAutoEnable: { malwareProtection: 'ALL' },
   kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
   logRetentionInDays: 3653,
 });
@@ -0,0 +1,79 @@
+/**
+ *  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  BadRequestException,
+  GuardDutyClient,
+  ListDetectorsCommand,
+  ListMembersCommand,
+  UpdateDetectorCommand,
+} from '@aws-sdk/client-guardduty';
+import { afterEach, beforeEach, expect, it } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import { handler } from '../../../lib/aws-guardduty/update-detector-config/index';
+import { CloudFormationCustomResourceCreateEvent } from '../../../lib/lza-custom-resource';
+
+let guardDutyMock: AwsClientStub<GuardDutyClient>;
+
+beforeEach(() => {
+  guardDutyMock = mockClient(GuardDutyClient);
+  guardDutyMock.on(ListDetectorsCommand).resolves({ DetectorIds: ['example-detector-id'] });
+  guardDutyMock.on(ListMembersCommand).resolves({ Members: [] });
+  guardDutyMock
+    .on(UpdateDetectorCommand)
+    .rejectsOnce(new BadRequestException({ message: 'The request is rejected', $metadata: {} }))
+    .resolves({});
+});
+
+afterEach(() => {
+  guardDutyMock.restore();
+});
+
+function getCreateEvent(resourceProperties: { [key: string]: string }): CloudFormationCustomResourceCreateEvent {
+  return {
+    RequestType: 'Create',
+    ResponseURL: 'https://example.com',
+    ServiceToken: 'example-service-token',
+    StackId: 'example-stack-id',
+    RequestId: 'example-create-request-id',
+    ResourceType: 'Custom::GuardDutyUpdateDetector',
+    LogicalResourceId: 'example-logical-resource-id',
+    ResourceProperties: {
+      exportFrequency: 'FIFTEEN_MINUTES',
+      enableS3Protection: 'true',
+      enableEksProtection: 'true',
+      ...resourceProperties,
+      ServiceToken: 'example-service-token',
+    },
+  };
+}
+
+// When
+it('@aws-accelerator/constructs/aws-guardduty/update-detector-config create event -- retries with S3 protection', async () => {
+  const response = await handler(getCreateEvent({}));
+
+  // Then
+  expect(response?.Status).toEqual('Success');
+  expect(guardDutyMock.commandCalls(UpdateDetectorCommand)[1].args[0].input.Features).toEqual([
+    { Name: 'S3_DATA_EVENTS', Status: 'ENABLED' },
+  ]);
+});
+
+// When
+it('@aws-accelerator/constructs/aws-guardduty/update-detector-config create event -- fails when protection plans are rejected', async () => {
+  // Then
+  await expect(handler(getCreateEvent({ enableRdsProtection: 'true' }))).rejects.toThrow(
+    'Unable to enable GuardDuty features RDS_LOGIN_EVENTS',
+  );
+  expect(guardDutyMock.commandCalls(UpdateDetectorCommand)).toHaveLength(1);
+});
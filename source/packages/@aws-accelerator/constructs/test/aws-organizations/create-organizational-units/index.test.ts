@@ -0,0 +1,351 @@
+/**
+ *  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+import {
+  AttachPolicyCommand,
+  CreateOrganizationalUnitCommand,
+  DeleteOrganizationalUnitCommand,
+  DescribeOrganizationalUnitCommand,
+  DetachPolicyCommand,
+  ListAccountsForParentCommand,
+  ListOrganizationalUnitsForParentCommand,
+  ListParentsCommand,
+  ListPoliciesForTargetCommand,
+  ListRootsCommand,
+  ListTagsForResourceCommand,
+  MoveAccountCommand,
+  OrganizationsClient,
+  TagResourceCommand,
+  UpdateOrganizationalUnitCommand,
+} from '@aws-sdk/client-organizations';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { afterEach, beforeEach, expect, it } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import { handler } from '../../../lib/aws-organizations/create-organizational-units/index';
+import { CloudFormationCustomResourceUpdateEvent } from '../../../lib/lza-custom-resource';
+
+let orgsMock: AwsClientStub<OrganizationsClient>;
+let ddbMock: AwsClientStub<DynamoDBDocumentClient>;
+
+beforeEach(() => {
+  orgsMock = mockClient(OrganizationsClient);
+  ddbMock = mockClient(DynamoDBDocumentClient);
+  orgsMock.on(ListRootsCommand).resolves({
+    Roots: [
+      {
+        Id: 'r-1234',
+        Name: 'Root',
+        Arn: 'arn:aws:organizations::111111111111:root/o-abcd/r-1234',
+        PolicyTypes: [
+          { Type: 'SERVICE_CONTROL_POLICY', Status: 'ENABLED' },
+          { Type: 'TAG_POLICY', Status: 'ENABLED' },
+        ],
+      },
+    ],
+  });
+  orgsMock.on(ListOrganizationalUnitsForParentCommand).resolves({ OrganizationalUnits: [] });
+  orgsMock.on(ListAccountsForParentCommand).resolves({ Accounts: [] });
+  orgsMock.on(ListPoliciesForTargetCommand).resolves({ Policies: [] });
+  orgsMock.on(ListTagsForResourceCommand).resolves({ Tags: [] });
+  ddbMock.on(UpdateCommand).resolves({});
+});
+
+afterEach(() => {
+  orgsMock.restore();
+  ddbMock.restore();
+});
+
+function getUpdateEvent(
+  deleteRemovedOus: boolean,
+  controlTowerEnabled = true,
+): CloudFormationCustomResourceUpdateEvent {
+  return {
+    RequestType: 'Update',
+    ResponseURL: 'https://example.com',
+    ServiceToken: 'example-service-token',
+    StackId: 'example-stack-id',
+    RequestId: 'example-update-request-id',
+    ResourceType: 'Custom::CreateOrganizationalUnits',
+    LogicalResourceId: 'example-logical-resource-id',
+    PhysicalResourceId: 'example-physical-resource-id',
+    ResourceProperties: {
+      configTableName: 'example-config-table',
+      commitId: 'example-commit-id',
+      organizationsEnabled: 'true',
+      controlTowerEnabled: `${controlTowerEnabled}`,
+      deleteRemovedOus: `${deleteRemovedOus}`,
+      partition: 'aws',
+      ServiceToken: 'example-service-token',
+    },
+    OldResourceProperties: {},
+  };
+}
+
+function getConfigItem(
+  acceleratorKey: string,
+  dataBag: { [key: string]: unknown },
+  awsKey?: string,
+  commitId = 'example-commit-id',
+) {
+  return {
+    dataType: 'organization',
+    acceleratorKey,
+    dataBag: JSON.stringify({ name: acceleratorKey, ...dataBag }),
+    awsKey,
+    commitId,
+  };
+}
+
+function getOrganizationUpdates() {
+  return ddbMock
+    .commandCalls(UpdateCommand)
+    .map(call => call.args[0].input)
+    .filter(input => input.Key?.['dataType'] === 'organization');
+}
+
+function getLifecycleUpdates() {
+  return ddbMock
+    .commandCalls(UpdateCommand)
+    .map(call => call.args[0].input)
+    .filter(input => input.Key?.['dataType'] === 'organizationalUnitLifecycle');
+}
+
+// When
+it('@aws-accelerator/constructs/aws-organizations/create-organizational-units update event -- rename', async () => {
+  ddbMock.on(QueryCommand).resolves({
+    Items: [
+      getConfigItem('Workloads', {}, 'ou-abcd-11111111'),
+      getConfigItem('Workloads/Prod', { previousName: 'Workloads/Production' }),
+    ],
+  });
+  orgsMock
+    .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-1234' })
+    .resolves({ OrganizationalUnits: [{ Id: 'ou-abcd-11111111', Name: 'Workloads' }] });
+  orgsMock
+    .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'ou-abcd-11111111' })
+    .resolves({ OrganizationalUnits: [{ Id: 'ou-abcd-22222222', Name: 'Production' }] });
+  orgsMock.on(ListParentsCommand).resolves({ Parents: [{ Id: 'ou-abcd-11111111', Type: 'ORGANIZATIONAL_UNIT' }] });
+  orgsMock.on(UpdateOrganizationalUnitCommand).resolves({});
+
+  const response = await handler(getUpdateEvent(false));
+
+  // Then
+  expect(response?.Status).toEqual('SUCCESS');
+  expect(orgsMock.commandCalls(UpdateOrganizationalUnitCommand)[0].args[0].input).toEqual({
+    OrganizationalUnitId: 'ou-abcd-22222222',
+    Name: 'Prod',
+  });
+  expect(orgsMock.commandCalls(CreateOrganizationalUnitCommand)).toHaveLength(0);
+  expect(getLifecycleUpdates()[0].ExpressionAttributeValues).toEqual({
+    ':x0': 'ou-abcd-22222222',
+    ':x1': 'ou-abcd-22222222',
+    ':x2': 'Workloads/Production',
+    ':x3': 'rename',
+    ':x4': 'example-commit-id',
+  });
+});
+
+// When
+it('@aws-accelerator/constructs/aws-organizations/create-organizational-units update event -- move', async () => {
+  ddbMock.on(QueryCommand).resolves({
+    Items: [
+      getConfigItem('Workloads', {}, 'ou-abcd-11111111'),
+      getConfigItem('Workloads/Production', { previousName: 'Production' }),
+      getConfigItem('Workloads/Production/Legacy', { ignore: true }, 'ou-abcd-33333333'),
+    ],
+  });
+  orgsMock.on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-1234' }).resolves({
+    OrganizationalUnits: [
+      { Id: 'ou-abcd-11111111', Name: 'Workloads' },
+      { Id: 'ou-abcd-22222222', Name: 'Production' },
+    ],
+  });
+  orgsMock
+    .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'ou-abcd-22222222' })
+    .resolves({ OrganizationalUnits: [{ Id: 'ou-abcd-33333333', Name: 'Legacy' }] });
+  orgsMock.on(ListParentsCommand).resolves({ Parents: [{ Id: 'r-1234', Type: 'ROOT' }] });
+  orgsMock.on(CreateOrganizationalUnitCommand).resolves({ OrganizationalUnit: { Id: 'ou-abcd-44444444' } });
+  orgsMock
+    .on(ListPoliciesForTargetCommand, { TargetId: 'ou-abcd-22222222', Filter: 'SERVICE_CONTROL_POLICY' })
+    .resolves({
+      Policies: [
+        { Id: 'p-11111111', Name: 'Guardrails', AwsManaged: false },
+        { Id: 'p-22222222', Name: 'aws-guardrails-abcdef', AwsManaged: false },
+      ],
+    });
+  orgsMock
+    .on(ListPoliciesForTargetCommand, { TargetId: 'ou-abcd-44444444', Filter: 'SERVICE_CONTROL_POLICY' })
+    .resolves({ Policies: [{ Id: 'p-FullAWSAccess', Name: 'FullAWSAccess', AwsManaged: true }] });
+  orgsMock
+    .on(ListPoliciesForTargetCommand, { TargetId: 'ou-abcd-22222222', Filter: 'TAG_POLICY' })
+    .resolves({ Policies: [{ Id: 'p-33333333', Name: 'Tags', AwsManaged: false }] });
+  orgsMock
+    .on(ListTagsForResourceCommand, { ResourceId: 'ou-abcd-22222222' })
+    .resolves({ Tags: [{ Key: 'team', Value: 'platform' }] });
+  orgsMock
+    .on(ListAccountsForParentCommand, { ParentId: 'ou-abcd-22222222' })
+    .resolves({ Accounts: [{ Id: '222222222222' }] });
+
+  const response = await handler(getUpdateEvent(false, false));
+
+  // Then
+  expect(response?.Status).toEqual('SUCCESS');
+  expect(orgsMock.commandCalls(CreateOrganizationalUnitCommand)[0].args[0].input).toEqual({
+    Name: 'Production',
+    ParentId: 'ou-abcd-11111111',
+  });
+  expect(orgsMock.commandCalls(AttachPolicyCommand).map(call => call.args[0].input)).toEqual([
+    { PolicyId: 'p-11111111', TargetId: 'ou-abcd-44444444' },
+    { PolicyId: 'p-33333333', TargetId: 'ou-abcd-44444444' },
+  ]);
+  expect(orgsMock.commandCalls(DetachPolicyCommand)[0].args[0].input).toEqual({
+    PolicyId: 'p-FullAWSAccess',
+    TargetId: 'ou-abcd-44444444',
+  });
+  expect(orgsMock.commandCalls(TagResourceCommand)[0].args[0].input).toEqual({
+    ResourceId: 'ou-abcd-44444444',
+    Tags: [{ Key: 'team', Value: 'platform' }],
+  });
+  expect(orgsMock.commandCalls(MoveAccountCommand)[0].args[0].input).toEqual({
+    AccountId: '222222222222',
+    SourceParentId: 'ou-abcd-22222222',
+    DestinationParentId: 'ou-abcd-44444444',
+  });
+  // The ignored child OU is not moved, so the previous OU is kept
+  expect(orgsMock.commandCalls(CreateOrganizationalUnitCommand)).toHaveLength(1);
+  expect(orgsMock.commandCalls(DeleteOrganizationalUnitCommand)).toHaveLength(0);
+  expect(getLifecycleUpdates()[0].ExpressionAttributeValues?.[':x3']).toEqual('move');
+});
+
+// When
+it('@aws-accelerator/constructs/aws-organizations/create-organizational-units update event -- move Control Tower registered OU', async () => {
+  ddbMock.on(QueryCommand).resolves({
+    Items: [
+      getConfigItem('Workloads', {}, 'ou-abcd-11111111'),
+      getConfigItem('Workloads/Production', { previousName: 'Production' }),
+    ],
+  });
+  orgsMock.on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-1234' }).resolves({
+    OrganizationalUnits: [
+      { Id: 'ou-abcd-11111111', Name: 'Workloads' },
+      { Id: 'ou-abcd-22222222', Name: 'Production' },
+    ],
+  });
+  orgsMock
+    .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'ou-abcd-22222222' })
+    .resolves({ OrganizationalUnits: [{ Id: 'ou-abcd-33333333', Name: 'Legacy' }] });
+  orgsMock.on(ListParentsCommand).resolves({ Parents: [{ Id: 'r-1234', Type: 'ROOT' }] });
+  orgsMock
+    .on(ListPoliciesForTargetCommand, { TargetId: 'ou-abcd-33333333', Filter: 'SERVICE_CONTROL_POLICY' })
+    .resolves({ Policies: [{ Id: 'p-22222222', Name: 'aws-guardrails-abcdef', AwsManaged: false }] });
+
+  const response = await handler(getUpdateEvent(false));
+
+  // Then
+  expect(response?.Status).toEqual('FAILURE');
+  expect(orgsMock.commandCalls(CreateOrganizationalUnitCommand)).toHaveLength(0);
+  expect(orgsMock.commandCalls(MoveAccountCommand)).toHaveLength(0);
+  expect(orgsMock.commandCalls(DeleteOrganizationalUnitCommand)).toHaveLength(0);
+  expect(getLifecycleUpdates()).toHaveLength(0);
+});
+
+// When
+it('@aws-accelerator/constructs/aws-organizations/create-organizational-units update event -- delete removed OUs', async () => {
+  ddbMock.on(QueryCommand).resolves({
+    Items: [
+      getConfigItem('Workloads', {}, 'ou-abcd-11111111'),
+      getConfigItem('Removed', {}, 'ou-abcd-22222222', 'previous-commit-id'),
+      getConfigItem('Registered', {}, 'ou-abcd-33333333', 'previous-commit-id'),
+      getConfigItem('NotEmpty', {}, 'ou-abcd-44444444', 'previous-commit-id'),
+    ],
+  });
+  orgsMock.on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-1234' }).resolves({
+    OrganizationalUnits: [
+      { Id: 'ou-abcd-11111111', Name: 'Workloads' },
+      { Id: 'ou-abcd-22222222', Name: 'Removed' },
+      { Id: 'ou-abcd-33333333', Name: 'Registered' },
+      { Id: 'ou-abcd-44444444', Name: 'NotEmpty' },
+      { Id: 'ou-abcd-55555555', Name: 'Unmanaged' },
+    ],
+  });
+  orgsMock
+    .on(ListPoliciesForTargetCommand, { TargetId: 'ou-abcd-33333333', Filter: 'SERVICE_CONTROL_POLICY' })
+    .resolves({ Policies: [{ Id: 'p-22222222', Name: 'aws-guardrails-abcdef', AwsManaged: false }] });
+  orgsMock
+    .on(ListAccountsForParentCommand, { ParentId: 'ou-abcd-44444444' })
+    .resolves({ Accounts: [{ Id: '222222222222' }] });
+  orgsMock.on(DeleteOrganizationalUnitCommand).resolves({});
+
+  const response = await handler(getUpdateEvent(true));
+
+  // Then
+  expect(response?.Status).toEqual('SUCCESS');
+  expect(orgsMock.commandCalls(DeleteOrganizationalUnitCommand).map(call => call.args[0].input)).toEqual([
+    { OrganizationalUnitId: 'ou-abcd-22222222' },
+  ]);
+  expect(
+    getLifecycleUpdates().map(input => [input.Key?.['acceleratorKey'], input.ExpressionAttributeValues?.[':x1']]),
+  ).toEqual([
+    ['Removed', 'delete'],
+    ['Registered', 'skip'],
+    ['NotEmpty', 'skip'],
+  ]);
+});
+
+// When
+it('@aws-accelerator/constructs/aws-organizations/create-organizational-units update event -- resume move', async () => {
+  ddbMock.on(QueryCommand).resolves({
+    Items: [
+      getConfigItem('Workloads', {}, 'ou-abcd-11111111'),
+      {
+        ...getConfigItem('Workloads/Production', { previousName: 'Production' }, 'ou-abcd-44444444'),
+        previousAwsKey: 'ou-abcd-22222222',
+      },
+    ],
+  });
+  orgsMock.on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-1234' }).resolves({
+    OrganizationalUnits: [
+      { Id: 'ou-abcd-11111111', Name: 'Workloads' },
+      { Id: 'ou-abcd-22222222', Name: 'Production' },
+    ],
+  });
+  orgsMock
+    .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'ou-abcd-11111111' })
+    .resolves({ OrganizationalUnits: [{ Id: 'ou-abcd-44444444', Name: 'Production' }] });
+  orgsMock
+    .on(DescribeOrganizationalUnitCommand, { OrganizationalUnitId: 'ou-abcd-22222222' })
+    .resolves({ OrganizationalUnit: { Id: 'ou-abcd-22222222', Name: 'Production' } });
+  orgsMock.on(ListParentsCommand).resolves({ Parents: [{ Id: 'r-1234', Type: 'ROOT' }] });
+  orgsMock
+    .on(ListAccountsForParentCommand, { ParentId: 'ou-abcd-22222222' })
+    .resolves({ Accounts: [{ Id: '222222222222' }] });
+  orgsMock.on(DeleteOrganizationalUnitCommand).resolves({});
+
+  const response = await handler(getUpdateEvent(false, false));
+
+  // Then
+  expect(response?.Status).toEqual('SUCCESS');
+  expect(orgsMock.commandCalls(CreateOrganizationalUnitCommand)).toHaveLength(0);
+  expect(orgsMock.commandCalls(MoveAccountCommand)[0].args[0].input).toEqual({
+    AccountId: '222222222222',
+    SourceParentId: 'ou-abcd-22222222',
+    DestinationParentId: 'ou-abcd-44444444',
+  });
+  expect(orgsMock.commandCalls(DeleteOrganizationalUnitCommand)[0].args[0].input).toEqual({
+    OrganizationalUnitId: 'ou-abcd-22222222',
+  });
+  expect(getOrganizationUpdates().pop()?.ExpressionAttributeValues).toEqual({
+    ':x0': 'ou-abcd-44444444',
+    ':x1': '',
+  });
+  expect(getLifecycleUpdates()[0].ExpressionAttributeValues?.[':x3']).toEqual('move');
+});
@@ -0,0 +1,254 @@
+/**
+ *  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  CreateConfigurationPolicyCommand,
+  DeleteConfigurationPolicyCommand,
+  DescribeOrganizationConfigurationCommand,
+  DescribeStandardsCommand,
+  ListConfigurationPoliciesCommand,
+  ResourceNotFoundException,
+  SecurityHubClient,
+  StartConfigurationPolicyAssociationCommand,
+  StartConfigurationPolicyDisassociationCommand,
+  UpdateConfigurationPolicyCommand,
+  UpdateOrganizationConfigurationCommand,
+} from '@aws-sdk/client-securityhub';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import { handler } from '../../../lib/aws-securityhub/configuration-policy/index';
+import {
+  CloudFormationCustomResourceCreateEvent,
+  CloudFormationCustomResourceDeleteEvent,
+  CloudFormationCustomResourceUpdateEvent,
+} from '../../../lib/lza-custom-resource';
+
+const fsbpArn = 'arn:aws:securityhub:us-east-1::standards/aws-foundational-security-best-practices/v/1.0.0';
+
+let securityHubMock: AwsClientStub<SecurityHubClient>;
+
+beforeEach(() => {
+  securityHubMock = mockClient(SecurityHubClient);
+  securityHubMock
+    .on(DescribeOrganizationConfigurationCommand)
+    .resolves({ OrganizationConfiguration: { ConfigurationType: 'CENTRAL', Status: 'ENABLED' } });
+  securityHubMock.on(DescribeStandardsCommand).resolves({
+    Standards: [{ Name: 'AWS Foundational Security Best Practices v1.0.0', StandardsArn: fsbpArn }],
+  });
+  securityHubMock.on(CreateConfigurationPolicyCommand).resolves({ Id: 'example-policy-id' });
+  securityHubMock.on(UpdateConfigurationPolicyCommand).resolves({});
+  securityHubMock.on(DeleteConfigurationPolicyCommand).resolves({});
+  securityHubMock.on(StartConfigurationPolicyAssociationCommand).resolves({});
+  securityHubMock.on(StartConfigurationPolicyDisassociationCommand).resolves({});
+  securityHubMock
+    .on(ListConfigurationPoliciesCommand)
+    .resolves({ ConfigurationPolicySummaries: [{ Id: 'example-other-policy-id', Name: 'WorkloadsBaseline' }] });
+});
+
+afterEach(() => {
+  securityHubMock.restore();
+});
+
+const resourceProperties: CloudFormationCustomResourceCreateEvent['ResourceProperties'] = {
+  region: 'us-east-1',
+  name: 'InfrastructureBaseline',
+  description: 'Security Hub baseline of the infrastructure accounts',
+  serviceEnabled: 'true',
+  standards: ['AWS Foundational Security Best Practices v1.0.0'],
+  controlsToDisable: ['IAM.1'],
+  controlParameters: [
+    { controlId: 'IAM.7', parameters: [{ name: 'MinimumPasswordLength', valueType: 'Integer', value: '16' }] },
+    {
+      controlId: 'Lambda.2',
+      parameters: [{ name: 'runtime', valueType: 'StringList', value: ['nodejs18.x', 'python3.11'] }],
+    },
+  ],
+  targetIds: ['ou-example-1', '111111111111'],
+  ServiceToken: 'example-service-token',
+};
+
+const eventCommon = {
+  ResponseURL: 'https://example.com',
+  ServiceToken: 'example-service-token',
+  StackId: 'example-stack-id',
+  ResourceType: 'Custom::SecurityHubConfigurationPolicy',
+  LogicalResourceId: 'example-logical-resource-id',
+};
+
+function getCreateEvent(): CloudFormationCustomResourceCreateEvent {
+  return {
+    ...eventCommon,
+    RequestType: 'Create',
+    RequestId: 'example-create-request-id',
+    ResourceProperties: resourceProperties,
+  };
+}
+
+describe('Create', () => {
+  it('switches the organization to central configuration and creates the policy', async () => {
+    securityHubMock
+      .on(DescribeOrganizationConfigurationCommand)
+      .resolvesOnce({ OrganizationConfiguration: { ConfigurationType: 'LOCAL' } })
+      .resolves({ OrganizationConfiguration: { ConfigurationType: 'CENTRAL', Status: 'ENABLED' } });
+
+    // When
+    const response = await handler(getCreateEvent());
+
+    // Then
+    expect(response?.PhysicalResourceId).toEqual('example-policy-id');
+    expect(securityHubMock.commandCalls(UpdateOrganizationConfigurationCommand)[0].args[0].input).toEqual({
+      AutoEnable: false,
+      AutoEnableStandards: 'NONE',
+      OrganizationConfiguration: { ConfigurationType: 'CENTRAL' },
+    });
+    expect(securityHubMock.commandCalls(CreateConfigurationPolicyCommand)[0].args[0].input).toEqual({
+      Name: 'InfrastructureBaseline',
+      Description: 'Security Hub baseline of the infrastructure accounts',
+      ConfigurationPolicy: {
+        SecurityHub: {
+          ServiceEnabled: true,
+          EnabledStandardIdentifiers: [fsbpArn],
+          SecurityControlsConfiguration: {
+            DisabledSecurityControlIdentifiers: ['IAM.1'],
+            SecurityControlCustomParameters: [
+              {
+                SecurityControlId: 'IAM.7',
+                Parameters: { MinimumPasswordLength: { ValueType: 'CUSTOM', Value: { Integer: 16 } } },
+              },
+              {
+                SecurityControlId: 'Lambda.2',
+                Parameters: {
+                  runtime: { ValueType: 'CUSTOM', Value: { StringList: ['nodejs18.x', 'python3.11'] } },
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+    expect(
+      securityHubMock.commandCalls(StartConfigurationPolicyAssociationCommand).map(call => call.args[0].input),
+    ).toEqual([
+      { ConfigurationPolicyIdentifier: 'example-policy-id', Target: { OrganizationalUnitId: 'ou-example-1' } },
+      { ConfigurationPolicyIdentifier: 'example-policy-id', Target: { AccountId: '111111111111' } },
+    ]);
+  });
+
+  it('keeps an organization that is already centrally configured', async () => {
+    // When
+    await handler(getCreateEvent());
+
+    // Then
+    expect(securityHubMock.commandCalls(UpdateOrganizationConfigurationCommand)).toHaveLength(0);
+  });
+
+  it('fails when central configuration cannot be enabled', async () => {
+    securityHubMock
+      .on(DescribeOrganizationConfigurationCommand)
+      .resolvesOnce({ OrganizationConfiguration: { ConfigurationType: 'LOCAL' } })
+      .resolves({ OrganizationConfiguration: { Status: 'FAILED', StatusMessage: 'example failure' } });
+
+    // When
+    const response = handler(getCreateEvent());
+
+    // Then
+    await expect(response).rejects.toThrow('Unable to enable Security Hub central configuration: example failure');
+    expect(securityHubMock.commandCalls(CreateConfigurationPolicyCommand)).toHaveLength(0);
+  });
+
+  it('fails when a standard is not available in the region', async () => {
+    securityHubMock.on(DescribeStandardsCommand).resolves({ Standards: [] });
+
+    // When
+    const response = handler(getCreateEvent());
+
+    // Then
+    await expect(response).rejects.toThrow(
+      'Security Hub standard AWS Foundational Security Best Practices v1.0.0 is not available in this region',
+    );
+  });
+});
+
+describe('Update', () => {
+  it('updates the policy and disassociates removed targets', async () => {
+    const event: CloudFormationCustomResourceUpdateEvent = {
+      ...eventCommon,
+      RequestType: 'Update',
+      RequestId: 'example-update-request-id',
+      PhysicalResourceId: 'example-policy-id',
+      ResourceProperties: { ...resourceProperties, serviceEnabled: 'false', targetIds: ['111111111111'] },
+      OldResourceProperties: resourceProperties,
+    };
+
+    // When
+    await handler(event);
+
+    // Then
+    expect(securityHubMock.commandCalls(UpdateConfigurationPolicyCommand)[0].args[0].input).toEqual({
+      Identifier: 'example-policy-id',
+      Name: 'InfrastructureBaseline',
+      Description: 'Security Hub baseline of the infrastructure accounts',
+      ConfigurationPolicy: { SecurityHub: { ServiceEnabled: false } },
+    });
+    expect(
+      securityHubMock.commandCalls(StartConfigurationPolicyDisassociationCommand).map(call => call.args[0].input),
+    ).toEqual([
+      { ConfigurationPolicyIdentifier: 'example-policy-id', Target: { OrganizationalUnitId: 'ou-example-1' } },
+    ]);
+    expect(
+      securityHubMock.commandCalls(StartConfigurationPolicyAssociationCommand).map(call => call.args[0].input),
+    ).toEqual([{ ConfigurationPolicyIdentifier: 'example-policy-id', Target: { AccountId: '111111111111' } }]);
+  });
+});
+
+describe('Delete', () => {
+  const event: CloudFormationCustomResourceDeleteEvent = {
+    ...eventCommon,
+    RequestType: 'Delete',
+    RequestId: 'example-delete-request-id',
+    PhysicalResourceId: 'example-policy-id',
+    ResourceProperties: resourceProperties,
+  };
+
+  it('disassociates the targets and deletes the policy', async () => {
+    securityHubMock
+      .on(StartConfigurationPolicyDisassociationCommand)
+      .rejectsOnce(new ResourceNotFoundException({ message: 'Not associated', $metadata: {} }))
+      .resolves({});
+
+    // When
+    const response = await handler(event);
+
+    // Then
+    expect(response?.Status).toEqual('SUCCESS');
+    expect(securityHubMock.commandCalls(StartConfigurationPolicyDisassociationCommand)).toHaveLength(2);
+    expect(securityHubMock.commandCalls(DeleteConfigurationPolicyCommand)[0].args[0].input).toEqual({
+      Identifier: 'example-policy-id',
+    });
+    expect(securityHubMock.commandCalls(UpdateOrganizationConfigurationCommand)).toHaveLength(0);
+  });
+
+  it('switches the organization back to local configuration when the last policy is deleted', async () => {
+    securityHubMock.on(ListConfigurationPoliciesCommand).resolves({ ConfigurationPolicySummaries: [] });
+
+    // When
+    await handler(event);
+
+    // Then
+    expect(securityHubMock.commandCalls(UpdateOrganizationConfigurationCommand)[0].args[0].input).toEqual({
+      AutoEnable: true,
+      AutoEnableStandards: 'DEFAULT',
+      OrganizationConfiguration: { ConfigurationType: 'LOCAL' },
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ *  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  DisableImportFindingsForProductCommand,
+  ListEnabledProductsForImportCommand,
+  SecurityHubClient,
+} from '@aws-sdk/client-securityhub';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AwsClientStub, mockClient } from 'aws-sdk-client-mock';
+import { handler } from '../../../lib/aws-securityhub/product-integration/index';
+import { CloudFormationCustomResourceDeleteEvent } from '../../../lib/lza-custom-resource';
+
+let securityHubMock: AwsClientStub<SecurityHubClient>;
+
+beforeEach(() => {
+  securityHubMock = mockClient(SecurityHubClient);
+  securityHubMock.on(ListEnabledProductsForImportCommand).resolves({
+    ProductSubscriptions: [
+      'arn:aws:securityhub:us-east-1:111111111111:product-subscription/aws/access-analyzer',
+      'arn:aws:securityhub:us-east-1:111111111111:product-subscription/example-company/example-product',
+    ],
+  });
+  securityHubMock.on(DisableImportFindingsForProductCommand).resolves({});
+});
+
+afterEach(() => {
+  securityHubMock.restore();
+});
+
+function getDeleteEvent(productArn: string): CloudFormationCustomResourceDeleteEvent {
+  return {
+    RequestType: 'Delete',
+    ResponseURL: 'https://example.com',
+    ServiceToken: 'example-service-token',
+    StackId: 'example-stack-id',
+    RequestId: 'example-delete-request-id',
+    ResourceType: 'Custom::SecurityHubProductIntegration',
+    LogicalResourceId: 'example-logical-resource-id',
+    PhysicalResourceId: productArn,
+    ResourceProperties: {
+      region: 'us-east-1',
+      productArn,
+      ServiceToken: 'example-service-token',
+    },
+  };
+}
+
+describe('Delete', () => {
+  it('leaves the import of AWS service findings enabled', async () => {
+    // When
+    const response = await handler(getDeleteEvent('arn:aws:securityhub:us-east-1::product/aws/access-analyzer'));
+
+    // Then
+    expect(response?.Status).toEqual('SUCCESS');
+    expect(securityHubMock.commandCalls(DisableImportFindingsForProductCommand)).toHaveLength(0);
+  });
+
+  it('disables the import of third party product findings', async () => {
+    // When
+    await handler(getDeleteEvent('arn:aws:securityhub:us-east-1::product/example-company/example-product'));
+
+    // Then
+    expect(securityHubMock.commandCalls(DisableImportFindingsForProductCommand)[0].args[0].input).toEqual({
+      ProductSubscriptionArn:
+        'arn:aws:securityhub:us-east-1:111111111111:product-subscription/example-company/example-product',
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { SecurityLake } from '../../lib/aws-securitylake/security-lake';
+import { snapShotTest } from '../snapshot-test';
+
+const testNamePrefix = 'Construct(SecurityLake): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+new SecurityLake(stack, 'SecurityLake', {
+  regions: ['us-east-1', 'us-west-2'],
+  sources: ['CLOUD_TRAIL_MGMT', 'VPC_FLOW', 'ROUTE53', 'SH_FINDINGS'],
+  accountIds: ['111111111111', '222222222222'],
+  expirationDays: 1825,
+  transitions: [{ days: 365, storageClass: 'DEEP_ARCHIVE' }],
+  rollupRegions: [{ region: 'us-east-1', contributingRegions: ['us-west-2'] }],
+  kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
+  logRetentionInDays: 3653,
+});
+
+/**
+ * SecurityLake construct test
+ */
+describe('SecurityLake', () => {
+  snapShotTest(testNamePrefix, stack);
+});
@@ -29,6 +29,12 @@ export enum RepositorySources {
   CODECOMMIT = 'codecommit',
 }
 
+export enum ConfigRepositorySources {
+  CODECOMMIT = 'codecommit',
+  S3 = 's3',
+  CODESTAR = 'codestar',
+}
+
 export interface InstallerStackProps extends cdk.StackProps {
   /**
    * External Pipeline Account usage flag
@@ -90,6 +96,13 @@ export class InstallerStack extends cdk.Stack {
     description: 'Provide comma(,) separated list of email ids to receive manual approval stage notification email',
   });
 
+  private readonly enableDriftDetection = new cdk.CfnParameter(this, 'EnableDriftDetection', {
+    type: 'String',
+    description: 'Select yes to add a Drift Detection stage to accelerator pipeline',
+    allowedValues: ['Yes', 'No'],
+    default: 'No',
+  });
+
   private readonly managementAccountEmail = new cdk.CfnParameter(this, 'ManagementAccountEmail', {
     type: 'String',
     description: 'The management (primary) account email',
@@ -164,6 +177,64 @@ export class InstallerStack extends cdk.Stack {
     },
   );
 
+  /**
+   * LZ Accelerator configuration repository location
+   * @private
+   */
+  private readonly configRepositoryLocation = new cdk.CfnParameter(this, 'ConfigRepositoryLocation', {
+    type: 'String',
+    allowedValues: [ConfigRepositorySources.CODECOMMIT, ConfigRepositorySources.S3, ConfigRepositorySources.CODESTAR],
+    default: ConfigRepositorySources.CODECOMMIT,
+    description:
+      'Select codecommit to keep the accelerator configuration in a CodeCommit repository, s3 to read it from a zip file in an S3 bucket, or codestar to read it from a GitHub, GitHub Enterprise, GitLab or Bitbucket repository through a CodeStar connection. The s3 and codestar locations always use an existing configuration source.',
+  });
+
+  /**
+   * Existing LZ Accelerator configuration repository owner
+   * @private
+   */
+  private readonly existingConfigRepositoryOwner = new cdk.CfnParameter(this, 'ExistingConfigRepositoryOwner', {
+    type: 'String',
+    description:
+      'The owner of the existing configuration repository hosted behind the CodeStar connection. (codestar location only)',
+    default: '',
+  });
+
+  /**
+   * Existing LZ Accelerator configuration repository CodeStar connection ARN
+   * @private
+   */
+  private readonly existingConfigRepositoryConnectionArn = new cdk.CfnParameter(
+    this,
+    'ExistingConfigRepositoryConnectionArn',
+    {
+      type: 'String',
+      description:
+        'The ARN of the CodeStar connection used to access the existing configuration repository. (codestar location only)',
+      default: '',
+    },
+  );
+
+  /**
+   * Existing LZ Accelerator configuration S3 bucket name
+   * @private
+   */
+  private readonly existingConfigS3BucketName = new cdk.CfnParameter(this, 'ExistingConfigS3BucketName', {
+    type: 'String',
+    description: 'The name of a versioned S3 bucket hosting the zipped accelerator configuration. (s3 location only)',
+    default: '',
+  });
+
+  /**
+   * Existing LZ Accelerator configuration S3 object key
+   * @private
+   */
+  private readonly existingConfigS3ObjectKey = new cdk.CfnParameter(this, 'ExistingConfigS3ObjectKey', {
+    type: 'String',
+    description: 'The S3 object key of the zipped accelerator configuration. (s3 location only)',
+    default: '',
+  });
+
   /**
    * Flag for LZ Accelerator diagnostics pack
    * @private
@@ -233,7 +304,11 @@ export class InstallerStack extends cdk.Stack {
       },
       {
         Label: { default: 'Pipeline Configuration' },
-        Parameters: [this.enableApprovalStage.logicalId, this.approvalStageNotifyEmailList.logicalId],
+        Parameters: [
+          this.enableApprovalStage.logicalId,
+          this.approvalStageNotifyEmailList.logicalId,
+          this.enableDriftDetection.logicalId,
+        ],
       },
       {
         Label: { default: 'Mandatory Accounts Configuration' },
@@ -251,6 +326,11 @@ export class InstallerStack extends cdk.Stack {
           this.useExistingConfigRepo.logicalId,
           this.existingConfigRepositoryName.logicalId,
           this.existingConfigRepositoryBranchName.logicalId,
+          this.configRepositoryLocation.logicalId,
+          this.existingConfigRepositoryOwner.logicalId,
+          this.existingConfigRepositoryConnectionArn.logicalId,
+          this.existingConfigS3BucketName.logicalId,
+          this.existingConfigS3ObjectKey.logicalId,
           this.enableDiagnosticsPack.logicalId,
         ],
       },
@@ -264,9 +344,17 @@ export class InstallerStack extends cdk.Stack {
       [this.useExistingConfigRepo.logicalId]: { default: 'Use Existing Config Repository' },
       [this.existingConfigRepositoryName.logicalId]: { default: 'Existing Config Repository Name' },
       [this.existingConfigRepositoryBranchName.logicalId]: { default: 'Existing Config Repository Branch Name' },
+      [this.configRepositoryLocation.logicalId]: { default: 'Config Repository Location' },
+      [this.existingConfigRepositoryOwner.logicalId]: { default: 'Existing Config Repository Owner' },
+      [this.existingConfigRepositoryConnectionArn.logicalId]: {
+        default: 'Existing Config Repository CodeStar Connection ARN',
+      },
+      [this.existingConfigS3BucketName.logicalId]: { default: 'Existing Config S3 Bucket Name' },
+      [this.existingConfigS3ObjectKey.logicalId]: { default: 'Existing Config S3 Object Key' },
       [this.enableDiagnosticsPack.logicalId]: { default: 'Enable Diagnostics Pack' },
       [this.enableApprovalStage.logicalId]: { default: 'Enable Approval Stage' },
       [this.approvalStageNotifyEmailList.logicalId]: { default: 'Manual Approval Stage notification email list' },
+      [this.enableDriftDetection.logicalId]: { default: 'Enable Drift Detection Stage' },
       [this.managementAccountEmail.logicalId]: { default: 'Management Account Email' },
       [this.logArchiveAccountEmail.logicalId]: { default: 'Log Archive Account Email' },
       [this.auditAccountEmail.logicalId]: { default: 'Audit Account Email' },
@@ -331,6 +419,11 @@ export class InstallerStack extends cdk.Stack {
       useExistingConfigRepo: this.useExistingConfigRepo.valueAsString,
       existingConfigRepositoryName: this.existingConfigRepositoryName.valueAsString,
       existingConfigRepositoryBranchName: this.existingConfigRepositoryBranchName.valueAsString,
+      configRepositoryLocation: this.configRepositoryLocation.valueAsString,
+      existingConfigRepositoryOwner: this.existingConfigRepositoryOwner.valueAsString,
+      existingConfigRepositoryConnectionArn: this.existingConfigRepositoryConnectionArn.valueAsString,
+      existingConfigS3BucketName: this.existingConfigS3BucketName.valueAsString,
+      existingConfigS3ObjectKey: this.existingConfigS3ObjectKey.valueAsString,
     });
     // cfn-nag suppression
     const validatorFunctionResource = validatorFunction.node.findChild('ValidationFunction').node
@@ -734,6 +827,26 @@ export class InstallerStack extends cdk.Stack {
             type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
             value: this.existingConfigRepositoryBranchName.valueAsString,
           },
+          CONFIG_REPOSITORY_LOCATION: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.configRepositoryLocation.valueAsString,
+          },
+          EXISTING_CONFIG_REPOSITORY_OWNER: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.existingConfigRepositoryOwner.valueAsString,
+          },
+          EXISTING_CONFIG_REPOSITORY_CONNECTION_ARN: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.existingConfigRepositoryConnectionArn.valueAsString,
+          },
+          EXISTING_CONFIG_S3_BUCKET_NAME: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.existingConfigS3BucketName.valueAsString,
+          },
+          EXISTING_CONFIG_S3_OBJECT_KEY: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.existingConfigS3ObjectKey.valueAsString,
+          },
           ACCELERATOR_ENABLE_APPROVAL_STAGE: {
             type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
             value: this.enableApprovalStage.valueAsString,
@@ -742,6 +855,10 @@ export class InstallerStack extends cdk.Stack {
             type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
             value: cdk.Fn.join(',', this.approvalStageNotifyEmailList.valueAsList),
           },
+          ACCELERATOR_ENABLE_DRIFT_DETECTION: {
+            type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
+            value: this.enableDriftDetection.valueAsString,
+          },
           MANAGEMENT_ACCOUNT_EMAIL: {
             type: cdk.aws_codebuild.BuildEnvironmentVariableType.PLAINTEXT,
             value: this.managementAccountEmail.valueAsString,
@@ -19,6 +19,11 @@ export interface ValidateProps {
   readonly useExistingConfigRepo: string;
   readonly existingConfigRepositoryName?: string;
   readonly existingConfigRepositoryBranchName?: string;
+  readonly configRepositoryLocation: string;
+  readonly existingConfigRepositoryOwner?: string;
+  readonly existingConfigRepositoryConnectionArn?: string;
+  readonly existingConfigS3BucketName?: string;
+  readonly existingConfigS3ObjectKey?: string;
 }
 
 export class Validate extends Construct {
@@ -40,6 +45,11 @@ export class Validate extends Construct {
           const useExistingConfigRepo=event.ResourceProperties.useExistingConfigRepo;
           const existingConfigRepositoryName=event.ResourceProperties.existingConfigRepositoryName;
           const existingConfigRepositoryBranchName=event.ResourceProperties.existingConfigRepositoryBranchName;
+          const configRepositoryLocation=event.ResourceProperties.configRepositoryLocation;
+          const existingConfigRepositoryOwner=event.ResourceProperties.existingConfigRepositoryOwner;
+          const existingConfigRepositoryConnectionArn=event.ResourceProperties.existingConfigRepositoryConnectionArn;
+          const existingConfigS3BucketName=event.ResourceProperties.existingConfigS3BucketName;
+          const existingConfigS3ObjectKey=event.ResourceProperties.existingConfigS3ObjectKey;
 
           if (useExistingConfigRepo === 'Yes') {
             if (existingConfigRepositoryName === '' || existingConfigRepositoryBranchName === ''){
@@ -48,6 +58,20 @@ export class Validate extends Construct {
             }
           }
 
+          if (configRepositoryLocation === 's3') {
+            if (existingConfigS3BucketName === '' || existingConfigS3ObjectKey === ''){
+                await response.send(event, context, response.FAILED, {'FailureReason': 'ConfigRepositoryLocation parameter set to s3, but ExistingConfigS3BucketName or ExistingConfigS3ObjectKey parameter value missing!!!'}, event.PhysicalResourceId);
+                return;
+            }
+          }
+
+          if (configRepositoryLocation === 'codestar') {
+            if (existingConfigRepositoryConnectionArn === '' || existingConfigRepositoryOwner === '' || existingConfigRepositoryName === '' || existingConfigRepositoryBranchName === ''){
+                await response.send(event, context, response.FAILED, {'FailureReason': 'ConfigRepositoryLocation parameter set to codestar, but ExistingConfigRepositoryConnectionArn, ExistingConfigRepositoryOwner, ExistingConfigRepositoryName or ExistingConfigRepositoryBranchName parameter value missing!!!'}, event.PhysicalResourceId);
+                return;
+            }
+          }
+
           // End of Validation
           await response.send(event, context, response.SUCCESS, {}, event.PhysicalResourceId);
           return;
@@ -71,6 +95,11 @@ export class Validate extends Construct {
         useExistingConfigRepo: props.useExistingConfigRepo,
         existingConfigRepositoryName: props.existingConfigRepositoryName,
         existingConfigRepositoryBranchName: props.existingConfigRepositoryBranchName,
+        configRepositoryLocation: props.configRepositoryLocation,
+        existingConfigRepositoryOwner: props.existingConfigRepositoryOwner,
+        existingConfigRepositoryConnectionArn: props.existingConfigRepositoryConnectionArn,
+        existingConfigS3BucketName: props.existingConfigS3BucketName,
+        existingConfigS3ObjectKey: props.existingConfigS3ObjectKey,
         resourceType: 'Custom::ValidateInstallerStack',
       },
     });
@@ -14,6 +14,7 @@ import * as cdk from 'aws-cdk-lib';
 import * as yaml from 'js-yaml';
 import fs from 'fs';
 import path from 'path';
+import { GlobalConfig } from '@aws-accelerator/config';
 import { TesterStack, CONFIG_FILE_NAME, CONFIG_FILE_CONTENT_TYPE } from '../lib/tester-stack';
 
 /**
@@ -21,7 +22,7 @@ import { TesterStack, CONFIG_FILE_NAME, CONFIG_FILE_CONTENT_TYPE } from '../lib/
  */
 async function main() {
   const usage =
-    'Usage: app.ts --context account=ACCOUNT --context region=REGION --context management-cross-account-role-name=MANAGEMENT_CROSS_ACCOUNT_ROLE_NAME --context config-dir=CONFIG_DIRECTORY [--context qualifier=QUALIFIER] [--context management-account-id=MANAGEMENT_ACCOUNT_ID] [--context management-account-role-name=MANAGEMENT_ACCOUNT_ROLE_NAME]';
+    'Usage: app.ts --context account=ACCOUNT --context region=REGION --context management-cross-account-role-name=MANAGEMENT_CROSS_ACCOUNT_ROLE_NAME --context config-dir=CONFIG_DIRECTORY [--context qualifier=QUALIFIER] [--context management-account-id=MANAGEMENT_ACCOUNT_ID] [--context management-account-role-name=MANAGEMENT_ACCOUNT_ROLE_NAME] [--context enabled-regions=REGION,REGION]';
   const app = new cdk.App();
 
   const acceleratorPrefix = app.node.tryGetContext('acceleratorPrefix');
@@ -30,6 +31,7 @@ async function main() {
   const qualifier = app.node.tryGetContext('qualifier');
   const managementCrossAccountRoleName = app.node.tryGetContext('management-cross-account-role-name');
   const configDirPath = app.node.tryGetContext('config-dir');
+  const enabledRegions: string | undefined = app.node.tryGetContext('enabled-regions');
 
   if (account === undefined) {
     console.warn(`[tester-app] Invalid --account ${account}`);
@@ -72,6 +74,7 @@ async function main() {
       qualifier: qualifier === undefined ? 'aws-accelerator' : qualifier,
       managementAccountId: app.node.tryGetContext('management-account-id'),
       managementAccountRoleName: app.node.tryGetContext('management-account-role-name'),
+      enabledRegions: enabledRegions?.split(',') ?? GlobalConfig.loadRawGlobalConfig(configDirPath).enabledRegions,
     },
   );
 }
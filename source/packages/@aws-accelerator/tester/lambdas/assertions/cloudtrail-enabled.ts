@@ -0,0 +1,69 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { CloudTrailClient, DescribeTrailsCommand, GetTrailStatusCommand, Trail } from '@aws-sdk/client-cloudtrail';
+import { AssertionCredentials, AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "cloudTrailEnabled" assertion. Validates that every account and region is covered by a logging trail,
+ * either an organization trail, a multi-region trail or a trail homed in the region.
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertCloudTrailEnabled(props: AssertionProps): Promise<AssertionResult[]> {
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const cloudTrailClient = new CloudTrailClient({ region, credentials, retryStrategy: setRetryStrategy() });
+    const response = await throttlingBackOff(() =>
+      cloudTrailClient.send(new DescribeTrailsCommand({ includeShadowTrails: true })),
+    );
+
+    for (const trail of response.trailList ?? []) {
+      if ((trail.IsMultiRegionTrail || trail.HomeRegion === region) && (await isLogging(trail, credentials))) {
+        return [
+          {
+            accountId,
+            region,
+            resourceId: trail.TrailARN!,
+            status: 'PASS',
+            message: `Trail ${trail.Name} is logging`,
+          },
+        ];
+      }
+    }
+
+    return [{ accountId, region, resourceId: accountId, status: 'FAIL', message: 'No logging trail found' }];
+  });
+}
+
+/**
+ * Function to check if a trail is logging. Organization trails can not be queried from member accounts,
+ * their presence as shadow trail is sufficient.
+ * @param trail
+ * @param credentials
+ * @returns
+ */
+async function isLogging(trail: Trail, credentials: AssertionCredentials): Promise<boolean> {
+  if (trail.IsOrganizationTrail) {
+    return true;
+  }
+  const cloudTrailClient = new CloudTrailClient({
+    region: trail.HomeRegion,
+    credentials,
+    retryStrategy: setRetryStrategy(),
+  });
+  const response = await throttlingBackOff(() =>
+    cloudTrailClient.send(new GetTrailStatusCommand({ Name: trail.TrailARN })),
+  );
+  return response.IsLogging ?? false;
+}
@@ -0,0 +1,246 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { ListAccountsCommand, ListAccountsCommandOutput, OrganizationsClient } from '@aws-sdk/client-organizations';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+
+/**
+ * Assertion result status
+ */
+export type AssertionStatus = 'PASS' | 'FAIL';
+
+/**
+ * Result of a single check performed by an assertion
+ */
+export type AssertionResult = {
+  /**
+   * Account the check was performed in
+   */
+  accountId: string;
+  /**
+   * Region the check was performed in
+   */
+  region: string;
+  /**
+   * Identifier of the evaluated resource
+   */
+  resourceId: string;
+  /**
+   * Check result
+   */
+  status: AssertionStatus;
+  /**
+   * Reason for the check result
+   */
+  message: string;
+};
+
+/**
+ * Temporary credentials used by the assertion SDK clients
+ */
+export type AssertionCredentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+};
+
+/**
+ * Assertion test case parameters, read from the test case parameters of the tester config
+ */
+export type AssertionParameters = {
+  /**
+   * Accounts to evaluate, defaults to every active organization account
+   */
+  accountIds?: string[];
+  /**
+   * Regions to evaluate, defaults to every accelerator enabled region
+   */
+  regions?: string[];
+  /**
+   * Delegated administrator account of the guardDutyMembership and securityHubMembership assertions
+   */
+  adminAccountId?: string;
+  /**
+   * Name tag of the VPC evaluated by the vpcRouteReachability assertion
+   */
+  vpcName?: string;
+  /**
+   * IPv4 destination of the vpcRouteReachability assertion
+   */
+  destinationCidrBlock?: string;
+  /**
+   * Ports evaluated by the securityGroupExposure assertion
+   */
+  ports?: (string | number)[];
+};
+
+/**
+ * Assertion input properties
+ */
+export interface AssertionProps {
+  /**
+   * AWS partition
+   */
+  readonly partition: string;
+  /**
+   * Management account details, the credential is used to assume the cross account role in target accounts
+   */
+  readonly managementAccount: {
+    id: string;
+    crossAccountRoleName: string;
+    credential: AssertionCredentials;
+  };
+  /**
+   * Accounts to evaluate
+   */
+  readonly accountIds: string[];
+  /**
+   * Regions to evaluate
+   */
+  readonly regions: string[];
+  /**
+   * Assertion specific test case parameters
+   */
+  readonly parameters: AssertionParameters;
+}
+
+/**
+ * Assertion function type, every built-in assertion returns one result per evaluated resource
+ */
+export type AssertionFunction = (props: AssertionProps) => Promise<AssertionResult[]>;
+
+/**
+ * Function to get credentials for the target account, the cross account role is assumed when the target
+ * account is not the management account
+ * @param props
+ * @param accountId
+ * @param region
+ * @returns
+ */
+export async function getAccountCredentials(
+  props: AssertionProps,
+  accountId: string,
+  region: string,
+): Promise<AssertionCredentials> {
+  if (accountId === props.managementAccount.id) {
+    return props.managementAccount.credential;
+  }
+
+  const stsClient = new STSClient({
+    region,
+    credentials: props.managementAccount.credential,
+    retryStrategy: setRetryStrategy(),
+  });
+  const response = await throttlingBackOff(() =>
+    stsClient.send(
+      new AssumeRoleCommand({
+        RoleArn: `arn:${props.partition}:iam::${accountId}:role/${props.managementAccount.crossAccountRoleName}`,
+        RoleSessionName: 'acceleratorAssertionSession',
+      }),
+    ),
+  );
+
+  return {
+    accessKeyId: response.Credentials!.AccessKeyId!,
+    secretAccessKey: response.Credentials!.SecretAccessKey!,
+    sessionToken: response.Credentials!.SessionToken,
+    expiration: response.Credentials!.Expiration,
+  };
+}
+
+/**
+ * Function to run an assertion check in every account and region, errors are reported as failed results
+ * so a single unreachable account does not hide the results of the others
+ * @param props
+ * @param check
+ * @returns
+ */
+export async function forEachAccountRegion(
+  props: AssertionProps,
+  check: (accountId: string, region: string, credentials: AssertionCredentials) => Promise<AssertionResult[]>,
+): Promise<AssertionResult[]> {
+  const results: AssertionResult[] = [];
+  for (const accountId of props.accountIds) {
+    for (const region of props.regions) {
+      try {
+        const credentials = await getAccountCredentials(props, accountId, region);
+        results.push(...(await check(accountId, region, credentials)));
+      } catch (e: unknown) {
+        results.push({
+          accountId,
+          region,
+          resourceId: accountId,
+          status: 'FAIL',
+          message: `Unable to evaluate: ${e instanceof Error ? e.message : e}`,
+        });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Function to get the active organization account ids, used when the test case does not list accounts
+ * @param credentials
+ * @param region
+ * @returns
+ */
+export async function getOrganizationAccountIds(credentials: AssertionCredentials, region: string): Promise<string[]> {
+  const organizationsClient = new OrganizationsClient({ region, credentials, retryStrategy: setRetryStrategy() });
+  const accountIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListAccountsCommandOutput = await throttlingBackOff(() =>
+      organizationsClient.send(new ListAccountsCommand({ NextToken: nextToken })),
+    );
+    for (const account of page.Accounts ?? []) {
+      if (account.Status === 'ACTIVE') {
+        accountIds.push(account.Id!);
+      }
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return accountIds;
+}
+
+/**
+ * Function to get the overall assertion status, any failed check fails the assertion
+ * @param results
+ * @returns
+ */
+export function getAssertionStatus(results: AssertionResult[]): AssertionStatus {
+  return results.find(result => result.status === 'FAIL') ? 'FAIL' : 'PASS';
+}
+
+/**
+ * Function to format assertion results as a per account/region text table
+ * @param results
+ * @returns
+ */
+export function formatResultTable(results: AssertionResult[]): string {
+  const header = ['Account', 'Region', 'Resource', 'Status', 'Message'];
+  const rows = results.map(result => [
+    result.accountId,
+    result.region,
+    result.resourceId,
+    result.status,
+    result.message,
+  ]);
+  const widths = header.map((title, index) => Math.max(title.length, ...rows.map(row => row[index].length)));
+  const formatRow = (row: string[]) => `| ${row.map((cell, index) => cell.padEnd(widths[index])).join(' | ')} |`;
+  const separator = `|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`;
+
+  return [formatRow(header), separator, ...rows.map(formatRow)].join('\n');
+}
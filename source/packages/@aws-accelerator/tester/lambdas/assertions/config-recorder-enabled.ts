@@ -0,0 +1,41 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { ConfigServiceClient, DescribeConfigurationRecorderStatusCommand } from '@aws-sdk/client-config-service';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "configRecorderEnabled" assertion. Validates that a recording AWS Config recorder exists in every account and region.
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertConfigRecorderEnabled(props: AssertionProps): Promise<AssertionResult[]> {
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const configServiceClient = new ConfigServiceClient({ region, credentials, retryStrategy: setRetryStrategy() });
+    const response = await throttlingBackOff(() =>
+      configServiceClient.send(new DescribeConfigurationRecorderStatusCommand({})),
+    );
+    const recorder = (response.ConfigurationRecordersStatus ?? []).find(item => item.recording);
+
+    return [
+      {
+        accountId,
+        region,
+        resourceId: recorder?.name ?? accountId,
+        status: recorder ? 'PASS' : 'FAIL',
+        message: recorder ? `Recorder ${recorder.name} is recording` : 'No recording configuration recorder found',
+      },
+    ];
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  GetAdministratorAccountCommand,
+  GetDetectorCommand,
+  GuardDutyClient,
+  ListDetectorsCommand,
+} from '@aws-sdk/client-guardduty';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "guardDutyMembership" assertion. Validates that GuardDuty is enabled and, when an administrator account is given,
+ * that every other account is an enabled member of it.
+ *
+ * Parameters:
+ * <ul>
+ * <li>adminAccountId - GuardDuty delegated administrator account id, optional
+ * </ul>
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertGuardDutyMembership(props: AssertionProps): Promise<AssertionResult[]> {
+  const adminAccountId = props.parameters.adminAccountId;
+
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const guardDutyClient = new GuardDutyClient({ region, credentials, retryStrategy: setRetryStrategy() });
+    const fail = (resourceId: string, message: string): AssertionResult[] => [
+      { accountId, region, resourceId, status: 'FAIL', message },
+    ];
+
+    const detectors = await throttlingBackOff(() => guardDutyClient.send(new ListDetectorsCommand({})));
+    const detectorId = detectors.DetectorIds?.[0];
+    if (!detectorId) {
+      return fail(accountId, 'GuardDuty detector not found');
+    }
+
+    const detector = await throttlingBackOff(() =>
+      guardDutyClient.send(new GetDetectorCommand({ DetectorId: detectorId })),
+    );
+    if (detector.Status !== 'ENABLED') {
+      return fail(detectorId, `GuardDuty detector is ${detector.Status}`);
+    }
+
+    if (adminAccountId && accountId !== adminAccountId) {
+      const response = await throttlingBackOff(() =>
+        guardDutyClient.send(new GetAdministratorAccountCommand({ DetectorId: detectorId })),
+      );
+      if (
+        response.Administrator?.AccountId !== adminAccountId ||
+        response.Administrator?.RelationshipStatus !== 'Enabled'
+      ) {
+        return fail(detectorId, `Account is not an enabled member of administrator ${adminAccountId}`);
+      }
+    }
+
+    return [{ accountId, region, resourceId: detectorId, status: 'PASS', message: 'GuardDuty is enabled' }];
+  });
+}
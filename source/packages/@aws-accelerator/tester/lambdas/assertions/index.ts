@@ -0,0 +1,93 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  AssertionCredentials,
+  AssertionFunction,
+  AssertionParameters,
+  formatResultTable,
+  getAssertionStatus,
+  getOrganizationAccountIds,
+} from './common';
+import { assertCloudTrailEnabled } from './cloudtrail-enabled';
+import { assertConfigRecorderEnabled } from './config-recorder-enabled';
+import { assertGuardDutyMembership } from './guardduty-membership';
+import { assertKmsKeyRotation } from './kms-key-rotation';
+import { assertS3PublicAccessBlock } from './s3-public-access-block';
+import { assertSecurityGroupExposure } from './security-group-exposure';
+import { assertSecurityHubMembership } from './securityhub-membership';
+import { assertVpcRouteReachability } from './vpc-route-reachability';
+
+export * from './common';
+
+/**
+ * Built-in assertions, keyed by the test case testTarget value
+ */
+export const assertionLibrary: { [testTarget: string]: AssertionFunction } = {
+  vpcRouteReachability: assertVpcRouteReachability,
+  securityGroupExposure: assertSecurityGroupExposure,
+  cloudTrailEnabled: assertCloudTrailEnabled,
+  configRecorderEnabled: assertConfigRecorderEnabled,
+  guardDutyMembership: assertGuardDutyMembership,
+  securityHubMembership: assertSecurityHubMembership,
+  s3PublicAccessBlock: assertS3PublicAccessBlock,
+  kmsKeyRotation: assertKmsKeyRotation,
+};
+
+/**
+ * Function to run a built-in assertion for a test case. The assertion runs in the test case accounts and regions,
+ * defaulting to every active organization account and every accelerator enabled region. The result table is written
+ * to the function log and the test case is compliant when the overall result matches the expected result.
+ * @param assertion {@link AssertionFunction}
+ * @param configRegion {string}
+ * @param enabledRegions {string[]}
+ * @param managementAccount {Object}
+ * @param test {Object}
+ * @returns
+ */
+export async function runAssertion(
+  assertion: AssertionFunction,
+  configRegion: string,
+  enabledRegions: string[],
+  managementAccount: { partition: string; id: string; crossAccountRoleName: string; credential: AssertionCredentials },
+  test: { name: string; expect?: string; parameters?: AssertionParameters },
+): Promise<{
+  complianceResourceType: string;
+  complianceResourceId: string;
+  complianceType: string;
+  annotation: string;
+}> {
+  const parameters = test.parameters ?? {};
+  const accountIds =
+    parameters.accountIds ?? (await getOrganizationAccountIds(managementAccount.credential, configRegion));
+  const regions = parameters.regions ?? enabledRegions;
+
+  const results = await assertion({
+    partition: managementAccount.partition,
+    managementAccount,
+    accountIds,
+    regions,
+    parameters,
+  });
+
+  const status = getAssertionStatus(results);
+  const failedCount = results.filter(result => result.status === 'FAIL').length;
+  console.log(`Test case "${test.name}" result ${status}\n${formatResultTable(results)}`);
+
+  return {
+    complianceResourceType: 'AWS::::Account',
+    complianceResourceId: managementAccount.id,
+    complianceType: status === (test.expect ?? 'PASS') ? 'COMPLIANT' : 'NON_COMPLIANT',
+    annotation: `${status}: ${failedCount} of ${results.length} checks failed`,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DescribeKeyCommand,
+  GetKeyRotationStatusCommand,
+  KMSClient,
+  ListKeysCommand,
+  ListKeysCommandOutput,
+} from '@aws-sdk/client-kms';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "kmsKeyRotation" assertion. Validates that automatic rotation is enabled for every enabled customer managed
+ * symmetric KMS key.
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertKmsKeyRotation(props: AssertionProps): Promise<AssertionResult[]> {
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const kmsClient = new KMSClient({ region, credentials, retryStrategy: setRetryStrategy() });
+    const results: AssertionResult[] = [];
+
+    let marker: string | undefined = undefined;
+    do {
+      const page: ListKeysCommandOutput = await throttlingBackOff(() =>
+        kmsClient.send(new ListKeysCommand({ Marker: marker })),
+      );
+      for (const key of page.Keys ?? []) {
+        const response = await throttlingBackOff(() => kmsClient.send(new DescribeKeyCommand({ KeyId: key.KeyId })));
+        const metadata = response.KeyMetadata;
+        if (
+          metadata?.KeyManager !== 'CUSTOMER' ||
+          metadata.KeyState !== 'Enabled' ||
+          metadata.KeySpec !== 'SYMMETRIC_DEFAULT' ||
+          metadata.Origin !== 'AWS_KMS'
+        ) {
+          continue;
+        }
+
+        const rotation = await throttlingBackOff(() =>
+          kmsClient.send(new GetKeyRotationStatusCommand({ KeyId: key.KeyId })),
+        );
+        results.push({
+          accountId,
+          region,
+          resourceId: key.KeyId!,
+          status: rotation.KeyRotationEnabled ? 'PASS' : 'FAIL',
+          message: rotation.KeyRotationEnabled ? 'Key rotation is enabled' : 'Key rotation is disabled',
+        });
+      }
+      marker = page.NextMarker;
+    } while (marker);
+
+    if (results.length === 0) {
+      results.push({
+        accountId,
+        region,
+        resourceId: accountId,
+        status: 'PASS',
+        message: 'No customer managed symmetric keys found',
+      });
+    }
+
+    return results;
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  GetPublicAccessBlockCommand,
+  PublicAccessBlockConfiguration,
+  S3ControlClient,
+} from '@aws-sdk/client-s3-control';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "s3PublicAccessBlock" assertion. Validates that the account level S3 public access block has all four settings
+ * enabled. The setting is global, so every account is only evaluated in the first region.
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertS3PublicAccessBlock(props: AssertionProps): Promise<AssertionResult[]> {
+  return forEachAccountRegion(
+    { ...props, regions: props.regions.slice(0, 1) },
+    async (accountId, region, credentials) => {
+      const s3ControlClient = new S3ControlClient({ region, credentials, retryStrategy: setRetryStrategy() });
+
+      let configuration: PublicAccessBlockConfiguration | undefined;
+      try {
+        const response = await throttlingBackOff(() =>
+          s3ControlClient.send(new GetPublicAccessBlockCommand({ AccountId: accountId })),
+        );
+        configuration = response.PublicAccessBlockConfiguration;
+      } catch (e: unknown) {
+        if (!(e instanceof Error && e.name === 'NoSuchPublicAccessBlockConfiguration')) {
+          throw e;
+        }
+      }
+
+      const disabledSettings = [
+        'BlockPublicAcls',
+        'IgnorePublicAcls',
+        'BlockPublicPolicy',
+        'RestrictPublicBuckets',
+      ].filter(setting => !configuration?.[setting as keyof PublicAccessBlockConfiguration]);
+
+      return [
+        {
+          accountId,
+          region,
+          resourceId: accountId,
+          status: disabledSettings.length === 0 ? 'PASS' : 'FAIL',
+          message:
+            disabledSettings.length === 0
+              ? 'Account public access block is enabled'
+              : `Public access block settings ${disabledSettings.join(', ')} are disabled`,
+        },
+      ];
+    },
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DescribeSecurityGroupsCommand,
+  DescribeSecurityGroupsCommandOutput,
+  EC2Client,
+  IpPermission,
+} from '@aws-sdk/client-ec2';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "securityGroupExposure" assertion. Validates that no security group allows ingress from the internet
+ * (0.0.0.0/0 or ::/0) to the restricted ports.
+ *
+ * Parameters:
+ * <ul>
+ * <li>ports - Restricted ports, defaults to 22 and 3389
+ * </ul>
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertSecurityGroupExposure(props: AssertionProps): Promise<AssertionResult[]> {
+  const ports = (props.parameters.ports ?? [22, 3389]).map(port => Number(port));
+
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const ec2Client = new EC2Client({ region, credentials, retryStrategy: setRetryStrategy() });
+    const results: AssertionResult[] = [];
+
+    let nextToken: string | undefined = undefined;
+    do {
+      const page: DescribeSecurityGroupsCommandOutput = await throttlingBackOff(() =>
+        ec2Client.send(new DescribeSecurityGroupsCommand({ NextToken: nextToken })),
+      );
+      for (const securityGroup of page.SecurityGroups ?? []) {
+        const exposedPorts = ports.filter(port =>
+          (securityGroup.IpPermissions ?? []).find(
+            permission => isOpenToInternet(permission) && isPortInRange(permission, port),
+          ),
+        );
+        results.push({
+          accountId,
+          region,
+          resourceId: securityGroup.GroupId!,
+          status: exposedPorts.length === 0 ? 'PASS' : 'FAIL',
+          message:
+            exposedPorts.length === 0
+              ? 'No restricted ports open to the internet'
+              : `Ports ${exposedPorts.join(', ')} open to the internet`,
+        });
+      }
+      nextToken = page.NextToken;
+    } while (nextToken);
+
+    return results;
+  });
+}
+
+/**
+ * Function to check if a security group rule allows any source
+ * @param permission
+ * @returns
+ */
+function isOpenToInternet(permission: IpPermission): boolean {
+  return (
+    !!(permission.IpRanges ?? []).find(range => range.CidrIp === '0.0.0.0/0') ||
+    !!(permission.Ipv6Ranges ?? []).find(range => range.CidrIpv6 === '::/0')
+  );
+}
+
+/**
+ * Function to check if a security group rule covers the port
+ * @param permission
+ * @param port
+ * @returns
+ */
+function isPortInRange(permission: IpPermission, port: number): boolean {
+  if (permission.IpProtocol === '-1') {
+    return true;
+  }
+  return (permission.FromPort ?? 0) <= port && port <= (permission.ToPort ?? 65535);
+}
@@ -0,0 +1,63 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import { DescribeHubCommand, GetAdministratorAccountCommand, SecurityHubClient } from '@aws-sdk/client-securityhub';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "securityHubMembership" assertion. Validates that Security Hub is enabled and, when an administrator account is
+ * given, that every other account is an enabled member of it.
+ *
+ * Parameters:
+ * <ul>
+ * <li>adminAccountId - Security Hub delegated administrator account id, optional
+ * </ul>
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertSecurityHubMembership(props: AssertionProps): Promise<AssertionResult[]> {
+  const adminAccountId = props.parameters.adminAccountId;
+
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const securityHubClient = new SecurityHubClient({ region, credentials, retryStrategy: setRetryStrategy() });
+
+    let hubArn: string;
+    try {
+      const hub = await throttlingBackOff(() => securityHubClient.send(new DescribeHubCommand({})));
+      hubArn = hub.HubArn!;
+    } catch (e: unknown) {
+      if (e instanceof Error && e.name === 'InvalidAccessException') {
+        return [{ accountId, region, resourceId: accountId, status: 'FAIL', message: 'Security Hub is not enabled' }];
+      }
+      throw e;
+    }
+
+    if (adminAccountId && accountId !== adminAccountId) {
+      const response = await throttlingBackOff(() => securityHubClient.send(new GetAdministratorAccountCommand({})));
+      if (response.Administrator?.AccountId !== adminAccountId || response.Administrator?.MemberStatus !== 'Enabled') {
+        return [
+          {
+            accountId,
+            region,
+            resourceId: hubArn,
+            status: 'FAIL',
+            message: `Account is not an enabled member of administrator ${adminAccountId}`,
+          },
+        ];
+      }
+    }
+
+    return [{ accountId, region, resourceId: hubArn, status: 'PASS', message: 'Security Hub is enabled' }];
+  });
+}
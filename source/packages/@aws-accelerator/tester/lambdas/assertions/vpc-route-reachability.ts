@@ -0,0 +1,166 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { setRetryStrategy, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DescribeRouteTablesCommand,
+  DescribeRouteTablesCommandOutput,
+  DescribeVpcsCommand,
+  DescribeVpcsCommandOutput,
+  EC2Client,
+  Route,
+  RouteTable,
+} from '@aws-sdk/client-ec2';
+import { AssertionProps, AssertionResult, forEachAccountRegion } from './common';
+
+/**
+ * "vpcRouteReachability" assertion. Validates that every route table of the named VPC has an active route
+ * covering the destination CIDR. The assertion fails when the VPC, or its route tables, are not found.
+ *
+ * Parameters:
+ * <ul>
+ * <li>vpcName - Name tag of the VPC to evaluate
+ * <li>destinationCidrBlock - IPv4 destination that must be reachable
+ * </ul>
+ * @param props {@link AssertionProps}
+ * @returns
+ */
+export async function assertVpcRouteReachability(props: AssertionProps): Promise<AssertionResult[]> {
+  const vpcName = props.parameters.vpcName;
+  const destinationCidrBlock = props.parameters.destinationCidrBlock;
+  if (!vpcName || !destinationCidrBlock) {
+    throw new Error('The vpcRouteReachability assertion requires the vpcName and destinationCidrBlock parameters');
+  }
+
+  return forEachAccountRegion(props, async (accountId, region, credentials) => {
+    const ec2Client = new EC2Client({ region, credentials, retryStrategy: setRetryStrategy() });
+
+    const vpcIds = await getVpcIds(ec2Client, vpcName);
+    if (vpcIds.length === 0) {
+      return [{ accountId, region, resourceId: vpcName, status: 'FAIL', message: `VPC ${vpcName} not found` }];
+    }
+
+    const results: AssertionResult[] = [];
+    for (const vpcId of vpcIds) {
+      const routeTables = await getRouteTables(ec2Client, vpcId);
+      if (routeTables.length === 0) {
+        results.push({
+          accountId,
+          region,
+          resourceId: vpcId,
+          status: 'FAIL',
+          message: `No route tables found for VPC ${vpcName}`,
+        });
+      }
+      for (const routeTable of routeTables) {
+        const route = findRoute(routeTable.Routes ?? [], destinationCidrBlock);
+        results.push({
+          accountId,
+          region,
+          resourceId: routeTable.RouteTableId!,
+          status: route?.State === 'active' ? 'PASS' : 'FAIL',
+          message: route
+            ? `Route ${route.DestinationCidrBlock} to ${destinationCidrBlock} is ${route.State}`
+            : `No route to ${destinationCidrBlock}`,
+        });
+      }
+    }
+
+    return results;
+  });
+}
+
+/**
+ * Function to get the IDs of the VPCs with the given Name tag
+ * @param ec2Client
+ * @param vpcName
+ * @returns
+ */
+async function getVpcIds(ec2Client: EC2Client, vpcName: string): Promise<string[]> {
+  const vpcIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: DescribeVpcsCommandOutput = await throttlingBackOff(() =>
+      ec2Client.send(
+        new DescribeVpcsCommand({ Filters: [{ Name: 'tag:Name', Values: [vpcName] }], NextToken: nextToken }),
+      ),
+    );
+    for (const vpc of page.Vpcs ?? []) {
+      vpcIds.push(vpc.VpcId!);
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return vpcIds;
+}
+
+/**
+ * Function to get the route tables of a VPC
+ * @param ec2Client
+ * @param vpcId
+ * @returns
+ */
+async function getRouteTables(ec2Client: EC2Client, vpcId: string): Promise<RouteTable[]> {
+  const routeTables: RouteTable[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: DescribeRouteTablesCommandOutput = await throttlingBackOff(() =>
+      ec2Client.send(
+        new DescribeRouteTablesCommand({ Filters: [{ Name: 'vpc-id', Values: [vpcId] }], NextToken: nextToken }),
+      ),
+    );
+    routeTables.push(...(page.RouteTables ?? []));
+    nextToken = page.NextToken;
+  } while (nextToken);
+  return routeTables;
+}
+
+/**
+ * Function to find the most specific IPv4 route covering the destination
+ * @param routes
+ * @param destinationCidrBlock
+ * @returns
+ */
+function findRoute(routes: Route[], destinationCidrBlock: string): Route | undefined {
+  return routes
+    .filter(route => route.DestinationCidrBlock && cidrContains(route.DestinationCidrBlock, destinationCidrBlock))
+    .sort(
+      (first, second) =>
+        parseInt(second.DestinationCidrBlock!.split('/')[1]) - parseInt(first.DestinationCidrBlock!.split('/')[1]),
+    )[0];
+}
+
+/**
+ * Function to check if an IPv4 CIDR contains another
+ * @param outer
+ * @param inner
+ * @returns
+ */
+export function cidrContains(outer: string, inner: string): boolean {
+  const [outerAddress, outerPrefix] = outer.split('/');
+  const [innerAddress, innerPrefix] = inner.split('/');
+  const outerLength = parseInt(outerPrefix ?? '32');
+  if (outerLength > parseInt(innerPrefix ?? '32')) {
+    return false;
+  }
+  const mask = outerLength === 0 ? 0 : (~0 << (32 - outerLength)) >>> 0;
+  return (ipToNumber(outerAddress) & mask) >>> 0 === (ipToNumber(innerAddress) & mask) >>> 0;
+}
+
+/**
+ * Function to convert an IPv4 address to a number
+ * @param address
+ * @returns
+ */
+function ipToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => ((value << 8) + parseInt(octet)) >>> 0, 0);
+}
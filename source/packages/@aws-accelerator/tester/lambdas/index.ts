@@ -14,6 +14,7 @@
 import { throttlingBackOff } from '@aws-accelerator/utils';
 import * as AWS from 'aws-sdk';
 import { validateTransitGateway } from './test-target-functions/validate-transit-gateway';
+import { assertionLibrary, runAssertion } from './assertions';
 AWS.config.logger = console;
 
 /**
@@ -33,6 +34,7 @@ export async function handler(event): Promise<{
 
   const configRegion = ruleParameters['awsConfigRegion'];
   const test = ruleParameters['test'];
+  const enabledRegions: string[] = ruleParameters['enabledRegions'] ?? [configRegion];
 
   const managementCrossAccountRoleName = ruleParameters['managementAccount']['crossAccountRoleName'];
   const partition = ruleParameters['managementAccount']['partition'];
@@ -79,6 +81,27 @@ export async function handler(event): Promise<{
     }
   }
 
+  const assertion = assertionLibrary[test['testTarget']];
+  if (!response && assertion) {
+    response = await runAssertion(
+      assertion,
+      configRegion,
+      enabledRegions,
+      {
+        partition: partition,
+        id: managementAccountId,
+        crossAccountRoleName: managementCrossAccountRoleName,
+        credential: {
+          accessKeyId: managementAccountCredential.AccessKeyId,
+          secretAccessKey: managementAccountCredential.SecretAccessKey,
+          sessionToken: managementAccountCredential.SessionToken,
+          expiration: managementAccountCredential.Expiration,
+        },
+      },
+      test,
+    );
+  }
+
   if (response) {
     await putEvaluations(configRegion, resultToken, response);
   }
@@ -95,7 +118,7 @@ async function putEvaluations(
   // configServiceClient: ConfigServiceClient,
   configRegion: string,
   resultToken: string,
-  result: { complianceResourceType: string; complianceResourceId: string; complianceType: string },
+  result: { complianceResourceType: string; complianceResourceId: string; complianceType: string; annotation?: string },
 ): Promise<void> {
   //Put Evaluation
   const configServiceClient = new AWS.ConfigService({ region: configRegion });
@@ -104,7 +127,7 @@ async function putEvaluations(
       .putEvaluations({
         Evaluations: [
           {
-            Annotation: 'Verified by custom lambda function',
+            Annotation: result.annotation ?? 'Verified by custom lambda function',
             ComplianceResourceId: result.complianceResourceId,
             ComplianceResourceType: result.complianceResourceType,
             ComplianceType: result.complianceType,
@@ -68,6 +68,10 @@ export interface TesterStackPops extends cdk.StackProps {
   readonly managementCrossAccountRoleName: string;
   readonly managementAccountId?: string;
   readonly managementAccountRoleName?: string;
+  /**
+   * Accelerator enabled regions, used as the built-in assertion regions when a test case does not list regions
+   */
+  readonly enabledRegions?: string[];
 }
 
 /**
@@ -134,6 +138,7 @@ export class TesterStack extends cdk.Stack {
         periodic: true,
         inputParameters: {
           ['awsConfigRegion']: cdk.Stack.of(this).region,
+          ['enabledRegions']: props.enabledRegions ?? [cdk.Stack.of(this).region],
           ['managementAccount']: {
             partition: cdk.Stack.of(this).partition,
             id: props.managementAccountId ?? cdk.Stack.of(this).account,
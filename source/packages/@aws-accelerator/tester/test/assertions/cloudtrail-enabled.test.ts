@@ -0,0 +1,77 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { CloudTrailClient, DescribeTrailsCommand, GetTrailStatusCommand } from '@aws-sdk/client-cloudtrail';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertCloudTrailEnabled } from '../../lambdas/assertions/cloudtrail-enabled';
+
+const cloudTrailMock = mockClient(CloudTrailClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-west-2'],
+  parameters: {},
+};
+
+afterEach(() => {
+  cloudTrailMock.reset();
+});
+
+describe('cloudTrailEnabled', () => {
+  it('passes when an organization trail covers the region', async () => {
+    cloudTrailMock.on(DescribeTrailsCommand).resolves({
+      trailList: [
+        {
+          Name: 'org',
+          TrailARN: 'arn:org',
+          HomeRegion: 'us-east-1',
+          IsMultiRegionTrail: true,
+          IsOrganizationTrail: true,
+        },
+      ],
+    });
+
+    const results = await assertCloudTrailEnabled(props);
+
+    expect(results[0].status).toEqual('PASS');
+    expect(cloudTrailMock.commandCalls(GetTrailStatusCommand)).toHaveLength(0);
+  });
+
+  it('fails when the trail covering the region is not logging', async () => {
+    cloudTrailMock.on(DescribeTrailsCommand).resolves({
+      trailList: [
+        { Name: 'east', TrailARN: 'arn:east', HomeRegion: 'us-east-1', IsMultiRegionTrail: false },
+        { Name: 'west', TrailARN: 'arn:west', HomeRegion: 'us-west-2', IsMultiRegionTrail: false },
+      ],
+    });
+    cloudTrailMock.on(GetTrailStatusCommand).resolves({ IsLogging: false });
+
+    const results = await assertCloudTrailEnabled(props);
+
+    expect(results[0]).toEqual({
+      accountId: '111111111111',
+      region: 'us-west-2',
+      resourceId: '111111111111',
+      status: 'FAIL',
+      message: 'No logging trail found',
+    });
+    expect(cloudTrailMock.commandCalls(GetTrailStatusCommand)).toHaveLength(1);
+  });
+});
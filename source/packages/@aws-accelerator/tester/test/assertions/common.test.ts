@@ -0,0 +1,90 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { ListAccountsCommand, OrganizationsClient } from '@aws-sdk/client-organizations';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AssertionProps,
+  forEachAccountRegion,
+  formatResultTable,
+  getAssertionStatus,
+  getOrganizationAccountIds,
+} from '../../lambdas/assertions/common';
+
+const stsMock = mockClient(STSClient);
+const organizationsMock = mockClient(OrganizationsClient);
+
+const credential = { accessKeyId: 'key', secretAccessKey: 'secret', sessionToken: 'token' };
+const props: AssertionProps = {
+  partition: 'aws',
+  managementAccount: { id: '111111111111', crossAccountRoleName: 'AWSControlTowerExecution', credential },
+  accountIds: ['111111111111', '222222222222'],
+  regions: ['us-east-1'],
+  parameters: {},
+};
+
+afterEach(() => {
+  stsMock.reset();
+  organizationsMock.reset();
+});
+
+describe('assertions common', () => {
+  it('assumes the cross account role in member accounts', async () => {
+    stsMock.on(AssumeRoleCommand).resolves({
+      Credentials: { AccessKeyId: 'member', SecretAccessKey: 'secret', SessionToken: 'token', Expiration: new Date() },
+    });
+
+    const results = await forEachAccountRegion(props, async (accountId, region, credentials) => [
+      { accountId, region, resourceId: accountId, status: 'PASS', message: credentials.accessKeyId },
+    ]);
+
+    expect(results.map(result => result.message)).toEqual(['key', 'member']);
+    expect(stsMock.commandCalls(AssumeRoleCommand)[0].args[0].input.RoleArn).toEqual(
+      'arn:aws:iam::222222222222:role/AWSControlTowerExecution',
+    );
+  });
+
+  it('reports evaluation errors as failed results', async () => {
+    stsMock.on(AssumeRoleCommand).rejects(new Error('Access denied'));
+
+    const results = await forEachAccountRegion(props, async (accountId, region) => [
+      { accountId, region, resourceId: accountId, status: 'PASS', message: 'ok' },
+    ]);
+
+    expect(getAssertionStatus(results)).toEqual('FAIL');
+    expect(results[1].message).toEqual('Unable to evaluate: Access denied');
+  });
+
+  it('lists active organization accounts', async () => {
+    organizationsMock
+      .on(ListAccountsCommand)
+      .resolvesOnce({ Accounts: [{ Id: '111111111111', Status: 'ACTIVE' }], NextToken: 'next' })
+      .resolvesOnce({ Accounts: [{ Id: '333333333333', Status: 'SUSPENDED' }] });
+
+    expect(await getOrganizationAccountIds(credential, 'us-east-1')).toEqual(['111111111111']);
+  });
+
+  it('formats the result table', () => {
+    const table = formatResultTable([
+      { accountId: '111111111111', region: 'us-east-1', resourceId: 'sg-1', status: 'PASS', message: 'ok' },
+    ]);
+
+    expect(table.split('\n')).toEqual([
+      '| Account      | Region    | Resource | Status | Message |',
+      '|--------------|-----------|----------|--------|---------|',
+      '| 111111111111 | us-east-1 | sg-1     | PASS   | ok      |',
+    ]);
+  });
+});
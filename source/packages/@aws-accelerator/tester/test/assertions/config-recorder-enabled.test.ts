@@ -0,0 +1,47 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { ConfigServiceClient, DescribeConfigurationRecorderStatusCommand } from '@aws-sdk/client-config-service';
+import { describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertConfigRecorderEnabled } from '../../lambdas/assertions/config-recorder-enabled';
+
+const configServiceMock = mockClient(ConfigServiceClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-east-1', 'us-west-2'],
+  parameters: {},
+};
+
+describe('configRecorderEnabled', () => {
+  it('checks the recorder in every region', async () => {
+    configServiceMock
+      .on(DescribeConfigurationRecorderStatusCommand)
+      .resolvesOnce({ ConfigurationRecordersStatus: [{ name: 'default', recording: true }] })
+      .resolvesOnce({ ConfigurationRecordersStatus: [{ name: 'default', recording: false }] });
+
+    const results = await assertConfigRecorderEnabled(props);
+
+    expect(results.map(result => [result.region, result.status])).toEqual([
+      ['us-east-1', 'PASS'],
+      ['us-west-2', 'FAIL'],
+    ]);
+  });
+});
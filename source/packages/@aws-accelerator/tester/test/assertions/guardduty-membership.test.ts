@@ -0,0 +1,85 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  GetAdministratorAccountCommand,
+  GetDetectorCommand,
+  GuardDutyClient,
+  ListDetectorsCommand,
+} from '@aws-sdk/client-guardduty';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertGuardDutyMembership } from '../../lambdas/assertions/guardduty-membership';
+
+const guardDutyMock = mockClient(GuardDutyClient);
+const stsMock = mockClient(STSClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['222222222222', '333333333333'],
+  regions: ['us-east-1'],
+  parameters: { adminAccountId: '222222222222' },
+};
+
+const memberCredentials = {
+  AccessKeyId: 'member',
+  SecretAccessKey: 'secret',
+  SessionToken: 'token',
+  Expiration: new Date(),
+};
+
+afterEach(() => {
+  guardDutyMock.reset();
+  stsMock.reset();
+});
+
+describe('guardDutyMembership', () => {
+  it('checks detector status and administrator membership', async () => {
+    stsMock.on(AssumeRoleCommand).resolves({ Credentials: memberCredentials });
+    guardDutyMock.on(ListDetectorsCommand).resolves({ DetectorIds: ['detector'] });
+    guardDutyMock.on(GetDetectorCommand).resolves({ Status: 'ENABLED' });
+    guardDutyMock
+      .on(GetAdministratorAccountCommand)
+      .resolves({ Administrator: { AccountId: '222222222222', RelationshipStatus: 'Removed' } });
+
+    const results = await assertGuardDutyMembership(props);
+
+    expect(results.map(result => [result.accountId, result.status])).toEqual([
+      ['222222222222', 'PASS'],
+      ['333333333333', 'FAIL'],
+    ]);
+    expect(guardDutyMock.commandCalls(GetAdministratorAccountCommand)).toHaveLength(1);
+  });
+
+  it('fails when GuardDuty is not enabled', async () => {
+    stsMock.on(AssumeRoleCommand).resolves({ Credentials: memberCredentials });
+    guardDutyMock
+      .on(ListDetectorsCommand)
+      .resolvesOnce({ DetectorIds: [] })
+      .resolvesOnce({ DetectorIds: ['detector'] });
+    guardDutyMock.on(GetDetectorCommand).resolves({ Status: 'DISABLED' });
+
+    const results = await assertGuardDutyMembership(props);
+
+    expect(results.map(result => result.message)).toEqual([
+      'GuardDuty detector not found',
+      'GuardDuty detector is DISABLED',
+    ]);
+  });
+});
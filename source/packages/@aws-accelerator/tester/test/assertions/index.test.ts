@@ -0,0 +1,67 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { AssertionProps, assertionLibrary, runAssertion } from '../../lambdas/assertions';
+
+const managementAccount = {
+  partition: 'aws',
+  id: '111111111111',
+  crossAccountRoleName: 'AWSControlTowerExecution',
+  credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+};
+
+describe('assertion library', () => {
+  it('registers the built-in assertions', () => {
+    expect(Object.keys(assertionLibrary)).toEqual([
+      'vpcRouteReachability',
+      'securityGroupExposure',
+      'cloudTrailEnabled',
+      'configRecorderEnabled',
+      'guardDutyMembership',
+      'securityHubMembership',
+      's3PublicAccessBlock',
+      'kmsKeyRotation',
+    ]);
+  });
+
+  it('compares the assertion result with the expected result', async () => {
+    const assertion = async (props: AssertionProps) =>
+      props.accountIds.map(accountId => ({
+        accountId,
+        region: props.regions[0],
+        resourceId: accountId,
+        status: 'FAIL' as const,
+        message: 'mocked',
+      }));
+    const parameters = { accountIds: ['111111111111', '222222222222'], regions: ['us-east-1'] };
+
+    expect(
+      await runAssertion(assertion, 'us-east-1', ['us-east-1'], managementAccount, { name: 'test', parameters }),
+    ).toEqual({
+      complianceResourceType: 'AWS::::Account',
+      complianceResourceId: '111111111111',
+      complianceType: 'NON_COMPLIANT',
+      annotation: 'FAIL: 2 of 2 checks failed',
+    });
+    expect(
+      (
+        await runAssertion(assertion, 'us-east-1', ['us-east-1'], managementAccount, {
+          name: 'test',
+          expect: 'FAIL',
+          parameters,
+        })
+      ).complianceType,
+    ).toEqual('COMPLIANT');
+  });
+});
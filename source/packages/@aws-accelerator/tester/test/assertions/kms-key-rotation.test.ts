@@ -0,0 +1,82 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import {
+  DescribeKeyCommand,
+  GetKeyRotationStatusCommand,
+  KMSClient,
+  KeyMetadata,
+  ListKeysCommand,
+} from '@aws-sdk/client-kms';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertKmsKeyRotation } from '../../lambdas/assertions/kms-key-rotation';
+
+const kmsMock = mockClient(KMSClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-east-1'],
+  parameters: {},
+};
+
+afterEach(() => {
+  kmsMock.reset();
+});
+
+describe('kmsKeyRotation', () => {
+  it('checks rotation of customer managed symmetric keys', async () => {
+    kmsMock
+      .on(ListKeysCommand)
+      .resolvesOnce({ Keys: [{ KeyId: 'rotated' }, { KeyId: 'aws-managed' }], NextMarker: 'next' })
+      .resolvesOnce({ Keys: [{ KeyId: 'not-rotated' }] });
+    const customerKey: Omit<KeyMetadata, 'KeyId'> = {
+      KeyManager: 'CUSTOMER',
+      KeyState: 'Enabled',
+      KeySpec: 'SYMMETRIC_DEFAULT',
+      Origin: 'AWS_KMS',
+    };
+    kmsMock
+      .on(DescribeKeyCommand, { KeyId: 'rotated' })
+      .resolves({ KeyMetadata: { KeyId: 'rotated', ...customerKey } });
+    kmsMock
+      .on(DescribeKeyCommand, { KeyId: 'not-rotated' })
+      .resolves({ KeyMetadata: { KeyId: 'not-rotated', ...customerKey } });
+    kmsMock
+      .on(DescribeKeyCommand, { KeyId: 'aws-managed' })
+      .resolves({ KeyMetadata: { KeyId: 'aws-managed', ...customerKey, KeyManager: 'AWS' } });
+    kmsMock.on(GetKeyRotationStatusCommand, { KeyId: 'rotated' }).resolves({ KeyRotationEnabled: true });
+    kmsMock.on(GetKeyRotationStatusCommand, { KeyId: 'not-rotated' }).resolves({ KeyRotationEnabled: false });
+
+    const results = await assertKmsKeyRotation(props);
+
+    expect(results.map(result => [result.resourceId, result.status])).toEqual([
+      ['rotated', 'PASS'],
+      ['not-rotated', 'FAIL'],
+    ]);
+  });
+
+  it('passes when there are no customer managed keys', async () => {
+    kmsMock.on(ListKeysCommand).resolves({ Keys: [] });
+
+    const results = await assertKmsKeyRotation(props);
+
+    expect(results[0].message).toEqual('No customer managed symmetric keys found');
+  });
+});
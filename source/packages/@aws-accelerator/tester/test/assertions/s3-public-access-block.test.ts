@@ -0,0 +1,60 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { GetPublicAccessBlockCommand, S3ControlClient } from '@aws-sdk/client-s3-control';
+import { describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertS3PublicAccessBlock } from '../../lambdas/assertions/s3-public-access-block';
+
+const s3ControlMock = mockClient(S3ControlClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-east-1', 'us-west-2'],
+  parameters: {},
+};
+
+describe('s3PublicAccessBlock', () => {
+  it('checks the account public access block once per account', async () => {
+    s3ControlMock.on(GetPublicAccessBlockCommand).resolves({
+      PublicAccessBlockConfiguration: {
+        BlockPublicAcls: true,
+        IgnorePublicAcls: true,
+        BlockPublicPolicy: false,
+        RestrictPublicBuckets: true,
+      },
+    });
+
+    const results = await assertS3PublicAccessBlock(props);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toEqual('FAIL');
+    expect(results[0].message).toEqual('Public access block settings BlockPublicPolicy are disabled');
+  });
+
+  it('fails when the account has no public access block', async () => {
+    const error = new Error('The public access block configuration was not found');
+    error.name = 'NoSuchPublicAccessBlockConfiguration';
+    s3ControlMock.on(GetPublicAccessBlockCommand).rejects(error);
+
+    const results = await assertS3PublicAccessBlock(props);
+
+    expect(results[0].status).toEqual('FAIL');
+  });
+});
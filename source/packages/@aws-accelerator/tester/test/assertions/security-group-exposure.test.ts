@@ -0,0 +1,62 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { DescribeSecurityGroupsCommand, EC2Client } from '@aws-sdk/client-ec2';
+import { describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertSecurityGroupExposure } from '../../lambdas/assertions/security-group-exposure';
+
+const ec2Mock = mockClient(EC2Client);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-east-1'],
+  parameters: {},
+};
+
+describe('securityGroupExposure', () => {
+  it('fails security groups open to the internet on restricted ports', async () => {
+    ec2Mock.on(DescribeSecurityGroupsCommand).resolves({
+      SecurityGroups: [
+        {
+          GroupId: 'sg-ssh',
+          IpPermissions: [{ IpProtocol: 'tcp', FromPort: 22, ToPort: 22, IpRanges: [{ CidrIp: '0.0.0.0/0' }] }],
+        },
+        { GroupId: 'sg-all', IpPermissions: [{ IpProtocol: '-1', Ipv6Ranges: [{ CidrIpv6: '::/0' }] }] },
+        {
+          GroupId: 'sg-https',
+          IpPermissions: [{ IpProtocol: 'tcp', FromPort: 443, ToPort: 443, IpRanges: [{ CidrIp: '0.0.0.0/0' }] }],
+        },
+        {
+          GroupId: 'sg-internal',
+          IpPermissions: [{ IpProtocol: 'tcp', FromPort: 22, ToPort: 22, IpRanges: [{ CidrIp: '10.0.0.0/8' }] }],
+        },
+      ],
+    });
+
+    const results = await assertSecurityGroupExposure(props);
+
+    expect(results.map(result => [result.resourceId, result.status, result.message])).toEqual([
+      ['sg-ssh', 'FAIL', 'Ports 22 open to the internet'],
+      ['sg-all', 'FAIL', 'Ports 22, 3389 open to the internet'],
+      ['sg-https', 'PASS', 'No restricted ports open to the internet'],
+      ['sg-internal', 'PASS', 'No restricted ports open to the internet'],
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { DescribeHubCommand, GetAdministratorAccountCommand, SecurityHubClient } from '@aws-sdk/client-securityhub';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { assertSecurityHubMembership } from '../../lambdas/assertions/securityhub-membership';
+
+const securityHubMock = mockClient(SecurityHubClient);
+const stsMock = mockClient(STSClient);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111', '222222222222'],
+  regions: ['us-east-1'],
+  parameters: { adminAccountId: '222222222222' },
+};
+
+const memberCredentials = {
+  AccessKeyId: 'member',
+  SecretAccessKey: 'secret',
+  SessionToken: 'token',
+  Expiration: new Date(),
+};
+
+afterEach(() => {
+  securityHubMock.reset();
+  stsMock.reset();
+});
+
+describe('securityHubMembership', () => {
+  it('checks administrator membership', async () => {
+    stsMock.on(AssumeRoleCommand).resolves({ Credentials: memberCredentials });
+    securityHubMock.on(DescribeHubCommand).resolves({ HubArn: 'arn:hub' });
+    securityHubMock
+      .on(GetAdministratorAccountCommand)
+      .resolves({ Administrator: { AccountId: '222222222222', MemberStatus: 'Enabled' } });
+
+    const results = await assertSecurityHubMembership(props);
+
+    expect(results.map(result => [result.accountId, result.status])).toEqual([
+      ['111111111111', 'PASS'],
+      ['222222222222', 'PASS'],
+    ]);
+  });
+
+  it('fails when Security Hub is not enabled', async () => {
+    const error = new Error('Account is not subscribed to AWS Security Hub');
+    error.name = 'InvalidAccessException';
+    stsMock.on(AssumeRoleCommand).resolves({ Credentials: memberCredentials });
+    securityHubMock.on(DescribeHubCommand).resolvesOnce({ HubArn: 'arn:hub' }).rejectsOnce(error);
+    securityHubMock.on(GetAdministratorAccountCommand).resolves({});
+
+    const results = await assertSecurityHubMembership(props);
+
+    expect(results.map(result => result.message)).toEqual([
+      'Account is not an enabled member of administrator 222222222222',
+      'Security Hub is not enabled',
+    ]);
+  });
+});
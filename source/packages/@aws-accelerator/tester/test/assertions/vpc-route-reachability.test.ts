@@ -0,0 +1,98 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { DescribeRouteTablesCommand, DescribeVpcsCommand, EC2Client } from '@aws-sdk/client-ec2';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import { cidrContains, assertVpcRouteReachability } from '../../lambdas/assertions/vpc-route-reachability';
+
+const ec2Mock = mockClient(EC2Client);
+
+const props = {
+  partition: 'aws',
+  managementAccount: {
+    id: '111111111111',
+    crossAccountRoleName: 'AWSControlTowerExecution',
+    credential: { accessKeyId: 'key', secretAccessKey: 'secret' },
+  },
+  accountIds: ['111111111111'],
+  regions: ['us-east-1'],
+  parameters: { vpcName: 'Network-Inspection', destinationCidrBlock: '10.1.0.0/16' },
+};
+
+describe('vpcRouteReachability', () => {
+  beforeEach(() => {
+    ec2Mock.reset();
+    ec2Mock.on(DescribeVpcsCommand).resolves({ Vpcs: [] });
+    ec2Mock
+      .on(DescribeVpcsCommand, { Filters: [{ Name: 'tag:Name', Values: ['Network-Inspection'] }] })
+      .resolves({ Vpcs: [{ VpcId: 'vpc-inspection' }] });
+  });
+
+  it('checks every route table for an active route', async () => {
+    ec2Mock.on(DescribeRouteTablesCommand, { Filters: [{ Name: 'vpc-id', Values: ['vpc-inspection'] }] }).resolves({
+      RouteTables: [
+        {
+          RouteTableId: 'rtb-active',
+          Routes: [
+            { DestinationCidrBlock: '0.0.0.0/0', State: 'active' },
+            { DestinationCidrBlock: '10.0.0.0/8', State: 'active' },
+          ],
+        },
+        { RouteTableId: 'rtb-blackhole', Routes: [{ DestinationCidrBlock: '10.1.0.0/16', State: 'blackhole' }] },
+        { RouteTableId: 'rtb-missing', Routes: [{ DestinationCidrBlock: '10.2.0.0/16', State: 'active' }] },
+      ],
+    });
+
+    const results = await assertVpcRouteReachability(props);
+
+    expect(results.map(result => [result.resourceId, result.status])).toEqual([
+      ['rtb-active', 'PASS'],
+      ['rtb-blackhole', 'FAIL'],
+      ['rtb-missing', 'FAIL'],
+    ]);
+    expect(results[0].message).toEqual('Route 10.0.0.0/8 to 10.1.0.0/16 is active');
+  });
+
+  it('fails when the VPC or its route tables are not found', async () => {
+    ec2Mock.on(DescribeRouteTablesCommand).resolves({ RouteTables: [] });
+
+    expect(await assertVpcRouteReachability(props)).toEqual([
+      {
+        accountId: '111111111111',
+        region: 'us-east-1',
+        resourceId: 'vpc-inspection',
+        status: 'FAIL',
+        message: 'No route tables found for VPC Network-Inspection',
+      },
+    ]);
+    expect(
+      await assertVpcRouteReachability({ ...props, parameters: { ...props.parameters, vpcName: 'Network-Endpoints' } }),
+    ).toEqual([
+      {
+        accountId: '111111111111',
+        region: 'us-east-1',
+        resourceId: 'Network-Endpoints',
+        status: 'FAIL',
+        message: 'VPC Network-Endpoints not found',
+      },
+    ]);
+  });
+
+  it('matches CIDR ranges', () => {
+    expect(cidrContains('0.0.0.0/0', '192.168.1.0/24')).toBe(true);
+    expect(cidrContains('10.0.0.0/8', '10.255.0.0/16')).toBe(true);
+    expect(cidrContains('10.0.0.0/16', '10.0.0.0/8')).toBe(false);
+    expect(cidrContains('10.0.0.0/16', '10.1.0.1')).toBe(false);
+  });
+});
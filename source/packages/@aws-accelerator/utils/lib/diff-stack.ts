@@ -12,6 +12,64 @@
  */
 import * as cfnDiff from '@aws-cdk/cloudformation-diff';
 import * as fs from 'fs';
+import { stripVTControlCharacters } from 'util';
+
+/**
+ * The type of change of a resource
+ */
+export type StackDiffChangeType = 'ADD' | 'MODIFY' | 'REPLACE' | 'REMOVE';
+
+/**
+ * A resource change between two template states
+ */
+export interface StackDiffResourceChange {
+  /**
+   * The logical id of the resource
+   */
+  readonly logicalId: string;
+  /**
+   * The CloudFormation type of the resource
+   */
+  readonly resourceType: string;
+  /**
+   * The type of change. Updates that will or may replace the resource are reported as REPLACE
+   */
+  readonly changeType: StackDiffChangeType;
+  /**
+   * The construct path of the resource, when available
+   */
+  readonly path?: string;
+}
+
+/**
+ * Structured differences between two template states
+ */
+export interface StackDiffSummary {
+  /**
+   * The count of differences
+   */
+  readonly differenceCount: number;
+  /**
+   * The resource changes
+   */
+  readonly resources: StackDiffResourceChange[];
+  /**
+   * IAM statement changes, as table rows including the header row
+   */
+  readonly iamStatementChanges: string[][];
+  /**
+   * IAM managed policy changes, as table rows including the header row
+   */
+  readonly iamManagedPolicyChanges: string[][];
+  /**
+   * Security group rule changes, as table rows including the header row
+   */
+  readonly securityGroupChanges: string[][];
+  /**
+   * True when the changes broaden IAM permissions or security group access
+   */
+  readonly permissionsBroadened: boolean;
+}
 
 /**
  * Pretty-prints the differences between two template states to the console.
@@ -32,6 +90,76 @@ export function printStackDiff(
   quiet: boolean,
   stream?: cfnDiff.FormatStream,
 ): number {
+  const diff = diffStackTemplates(oldTemplate, newTemplate, strict);
+
+  if (!diff.isEmpty) {
+    cfnDiff.formatDifferences(
+      stream || process.stderr,
+      diff,
+      {
+        ...logicalIdMapFromTemplate(oldTemplate),
+        ...logicalIdMapFromTemplate(newTemplate),
+      },
+      context,
+    );
+  } else if (!quiet) {
+    stream?.write('There were no differences');
+  }
+  //
+
+  return diff.differenceCount;
+}
+
+/**
+ * Returns the structured differences between two template states.
+ *
+ * @param oldTemplate the old/current state of the stack.
+ * @param newTemplate the new/target state of the stack.
+ * @param strict      do not filter out AWS::CDK::Metadata
+ *
+ * @returns the summary of the differences.
+ */
+export function getStackDiffSummary(oldTemplate: string, newTemplate: string, strict: boolean): StackDiffSummary {
+  const diff = diffStackTemplates(oldTemplate, newTemplate, strict);
+  const paths = {
+    ...logicalIdMapFromTemplate(readTemplate(oldTemplate)),
+    ...logicalIdMapFromTemplate(readTemplate(newTemplate)),
+  };
+
+  const resources: StackDiffResourceChange[] = [];
+  diff.resources.forEachDifference((logicalId, change) => {
+    resources.push({
+      logicalId,
+      resourceType: change.newResourceType ?? change.oldResourceType ?? 'UNKNOWN',
+      changeType: getChangeType(change),
+      path: paths[logicalId],
+    });
+  });
+
+  return {
+    differenceCount: diff.differenceCount,
+    resources,
+    iamStatementChanges: diff.iamChanges.statements.hasChanges
+      ? diff.iamChanges.summarizeStatements().map(stripColors)
+      : [],
+    iamManagedPolicyChanges: diff.iamChanges.managedPolicies.hasChanges
+      ? diff.iamChanges.summarizeManagedPolicies().map(stripColors)
+      : [],
+    securityGroupChanges: diff.securityGroupChanges.hasChanges
+      ? diff.securityGroupChanges.summarize().map(stripColors)
+      : [],
+    permissionsBroadened: diff.permissionsBroadened,
+  };
+}
+
+/**
+ * Returns the differences between two template states
+ *
+ * @param oldTemplate the old/current state of the stack.
+ * @param newTemplate the new/target state of the stack.
+ * @param strict      do not filter out AWS::CDK::Metadata
+ */
+function diffStackTemplates(oldTemplate: string, newTemplate: string, strict: boolean): cfnDiff.TemplateDiff {
   let diff = cfnDiff.diffTemplate(readTemplate(oldTemplate), readTemplate(newTemplate));
 
   // detect and filter out mangled characters from the diff
@@ -61,22 +189,24 @@ export function printStackDiff(
     });
   }
 
-  if (!diff.isEmpty) {
-    cfnDiff.formatDifferences(
-      stream || process.stderr,
-      diff,
-      {
-        ...logicalIdMapFromTemplate(oldTemplate),
-        ...logicalIdMapFromTemplate(newTemplate),
-      },
-      context,
-    );
-  } else if (!quiet) {
-    stream?.write('There were no differences');
+  return diff;
+}
+
+function getChangeType(change: cfnDiff.ResourceDifference): StackDiffChangeType {
+  if (change.isAddition) {
+    return 'ADD';
   }
-  //
+  if (change.isRemoval) {
+    return 'REMOVE';
+  }
+  if ([cfnDiff.ResourceImpact.WILL_REPLACE, cfnDiff.ResourceImpact.MAY_REPLACE].includes(change.changeImpact)) {
+    return 'REPLACE';
+  }
+  return 'MODIFY';
+}
 
-  return diff.differenceCount;
+function stripColors(row: string[]): string[] {
+  return row.map(cell => stripVTControlCharacters(cell));
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,3 +33,11 @@ export const createLogger = (logInfo: string[]) => {
   const logInfoString = logInfo.join(' | ');
   return Logger.child({ childLabel: logInfoString });
 };
+
+/**
+ * Writes the log messages of every level to stderr so that stdout only contains the command output
+ */
+export const logToStderr = () => {
+  Logger.clear();
+  Logger.add(new winston.transports.Console({ stderrLevels: Object.keys(Logger.levels) }));
+};
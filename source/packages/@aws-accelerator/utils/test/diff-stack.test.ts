@@ -0,0 +1,71 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getStackDiffSummary } from '../lib/diff-stack';
+
+let templateDirPath: string;
+
+function writeTemplate(name: string, resources: { [key: string]: unknown }): string {
+  const templatePath = path.join(templateDirPath, name);
+  fs.writeFileSync(templatePath, JSON.stringify({ Resources: resources }));
+  return templatePath;
+}
+
+describe('getStackDiffSummary', () => {
+  beforeEach(() => {
+    templateDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-stack-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(templateDirPath, { recursive: true, force: true });
+  });
+
+  test('summarizes IAM statement and managed policy changes as separate tables', () => {
+    const oldTemplate = writeTemplate('old.json', {});
+    const newTemplate = writeTemplate('new.json', {
+      Role: {
+        Type: 'AWS::IAM::Role',
+        Properties: {
+          AssumeRolePolicyDocument: {
+            Version: '2012-10-17',
+            Statement: [{ Effect: 'Allow', Principal: { Service: 'lambda.amazonaws.com' }, Action: 'sts:AssumeRole' }],
+          },
+          ManagedPolicyArns: ['arn:aws:iam::aws:policy/ReadOnlyAccess'],
+        },
+      },
+    });
+
+    const summary = getStackDiffSummary(oldTemplate, newTemplate, false);
+
+    expect(summary.iamStatementChanges[0]).toContain('Effect');
+    expect(summary.iamStatementChanges).toHaveLength(2);
+    expect(summary.iamManagedPolicyChanges[0]).toContain('Managed Policy ARN');
+    expect(summary.iamManagedPolicyChanges).toHaveLength(2);
+    expect(summary.iamManagedPolicyChanges[1]).toContain('arn:aws:iam::aws:policy/ReadOnlyAccess');
+  });
+
+  test('omits tables without changes', () => {
+    const template = writeTemplate('template.json', {
+      Bucket: { Type: 'AWS::S3::Bucket', Properties: {} },
+    });
+
+    const summary = getStackDiffSummary(writeTemplate('old.json', {}), template, false);
+
+    expect(summary.iamStatementChanges).toEqual([]);
+    expect(summary.iamManagedPolicyChanges).toEqual([]);
+  });
+});